@@ -0,0 +1,87 @@
+-- Full-text search
+--
+-- Prisma cannot express generated columns, so the schema declares each
+-- "searchVector" as Unsupported("tsvector") and this migration (re)creates
+-- them as GENERATED ... STORED. After a `prisma db push` on a fresh database,
+-- apply this file with `prisma db execute --file <path> --schema prisma/schema.prisma`.
+-- Identifiers and names use the 'simple' configuration so they are not stemmed.
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "DocumentContent" (
+    "documentId" TEXT NOT NULL,
+    "text" TEXT,
+    "error" TEXT,
+    "fileHash" TEXT,
+    "extractedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DocumentContent_pkey" PRIMARY KEY ("documentId")
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'DocumentContent_documentId_fkey') THEN
+    ALTER TABLE "DocumentContent" ADD CONSTRAINT "DocumentContent_documentId_fkey"
+      FOREIGN KEY ("documentId") REFERENCES "Document"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+  END IF;
+END $$;
+
+-- Organization: public directory search
+ALTER TABLE "Organization" DROP COLUMN IF EXISTS "searchVector";
+ALTER TABLE "Organization" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce("name", '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce("tradingName", '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce("city", '')), 'B')
+) STORED;
+CREATE INDEX "Organization_searchVector_idx" ON "Organization" USING GIN ("searchVector");
+
+-- Document: number and title
+ALTER TABLE "Document" DROP COLUMN IF EXISTS "searchVector";
+ALTER TABLE "Document" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce("documentNumber", '')), 'A') ||
+  setweight(to_tsvector('english', coalesce("title", '')), 'A')
+) STORED;
+CREATE INDEX "Document_searchVector_idx" ON "Document" USING GIN ("searchVector");
+
+-- DocumentContent: extracted file text
+ALTER TABLE "DocumentContent" DROP COLUMN IF EXISTS "searchVector";
+ALTER TABLE "DocumentContent" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce("text", '')), 'C')
+) STORED;
+CREATE INDEX "DocumentContent_searchVector_idx" ON "DocumentContent" USING GIN ("searchVector");
+
+-- CAPARecord: number, title, description and actions
+ALTER TABLE "CAPARecord" DROP COLUMN IF EXISTS "searchVector";
+ALTER TABLE "CAPARecord" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce("capaNumber", '')), 'A') ||
+  setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+  setweight(to_tsvector('english', coalesce("description", '')), 'B') ||
+  setweight(to_tsvector('english',
+    coalesce("rootCause", '') || ' ' ||
+    coalesce("correctiveAction", '') || ' ' ||
+    coalesce("preventiveAction", '')), 'C')
+) STORED;
+CREATE INDEX "CAPARecord_searchVector_idx" ON "CAPARecord" USING GIN ("searchVector");
+
+-- AuditChecklist: findings
+ALTER TABLE "AuditChecklist" DROP COLUMN IF EXISTS "searchVector";
+ALTER TABLE "AuditChecklist" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce("finding", '')), 'A') ||
+  setweight(to_tsvector('english', coalesce("auditorNotes", '')), 'B') ||
+  setweight(to_tsvector('english', coalesce("questionText", '')), 'C')
+) STORED;
+CREATE INDEX "AuditChecklist_searchVector_idx" ON "AuditChecklist" USING GIN ("searchVector");
+
+-- Project: number, site address, client and description
+ALTER TABLE "Project" DROP COLUMN IF EXISTS "searchVector";
+ALTER TABLE "Project" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce("projectNumber", '')), 'A') ||
+  setweight(to_tsvector('english', coalesce("siteAddress", '')), 'A') ||
+  setweight(to_tsvector('simple',
+    coalesce("city", '') || ' ' ||
+    coalesce("region", '') || ' ' ||
+    coalesce("clientName", '')), 'B') ||
+  setweight(to_tsvector('english',
+    coalesce("description", '') || ' ' ||
+    coalesce("roofingSystem", '')), 'C')
+) STORED;
+CREATE INDEX "Project_searchVector_idx" ON "Project" USING GIN ("searchVector");
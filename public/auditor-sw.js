@@ -0,0 +1,80 @@
+/**
+ * Service worker for the auditor workspace (scope: /auditor).
+ *
+ * Keeps the workspace shell available on site with no connection. Pages are
+ * fetched network-first and fall back to the last cached copy; Next.js build
+ * assets are immutable so they are served cache-first. API calls are never
+ * cached here - audit data lives in IndexedDB (src/lib/offline-audit.ts).
+ */
+
+const CACHE_NAME = "ranz-auditor-v1";
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith("ranz-auditor-") && key !== CACHE_NAME)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+function isCacheable(response) {
+  return response && response.ok && !response.redirected && response.type === "basic";
+}
+
+async function networkFirst(request) {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    if (isCacheable(response)) {
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached =
+      (await cache.match(request)) ||
+      (await cache.match(request, { ignoreSearch: true }));
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (isCacheable(response)) {
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(cacheFirst(request));
+    return;
+  }
+
+  // Page loads and React Server Component payloads for workspace routes
+  if (url.pathname.startsWith("/auditor")) {
+    event.respondWith(networkFirst(request));
+  }
+});
@@ -0,0 +1,224 @@
+/**
+ * Mock OIDC identity provider for local development and testing.
+ *
+ * Implements just enough of OpenID Connect to exercise AUTH_MODE=oidc end to end:
+ * discovery, JWKS, an authorization endpoint with a sign-in form, and a token
+ * endpoint that enforces PKCE (S256) and returns RS256-signed ID tokens.
+ *
+ * Run with: npx tsx scripts/mock-oidc-provider.ts
+ *
+ * Then set in .env.local:
+ *   AUTH_MODE=oidc
+ *   NEXT_PUBLIC_AUTH_MODE=oidc
+ *   OIDC_ISSUER=http://localhost:4011
+ *   OIDC_CLIENT_ID=ranz-quality-local
+ *   OIDC_CLIENT_SECRET=local-secret
+ *   OIDC_REDIRECT_URI=http://localhost:3000/api/auth/oidc/callback
+ *
+ * Optional: MOCK_OIDC_PORT (default 4011)
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { createHash, randomBytes } from 'node:crypto';
+import { generateKeyPair, exportJWK, SignJWT } from 'jose';
+
+const PORT = Number(process.env.MOCK_OIDC_PORT || 4011);
+const ISSUER = `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.OIDC_CLIENT_ID || 'ranz-quality-local';
+const CLIENT_SECRET = process.env.OIDC_CLIENT_SECRET || 'local-secret';
+const KEY_ID = 'mock-oidc-key-1';
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce: string;
+  claims: Record<string, unknown>;
+  expiresAt: number;
+}
+
+const codes = new Map<string, PendingCode>();
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+async function readForm(req: IncomingMessage): Promise<URLSearchParams> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return new URLSearchParams(Buffer.concat(chunks).toString('utf-8'));
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+}
+
+function renderSignInForm(params: URLSearchParams): string {
+  const hidden = ['client_id', 'redirect_uri', 'state', 'nonce', 'code_challenge', 'code_challenge_method']
+    .map((name) => `<input type="hidden" name="${name}" value="${escapeHtml(params.get(name) || '')}">`)
+    .join('\n');
+
+  return `<!doctype html>
+<html><head><title>Mock RANZ Identity Provider</title></head>
+<body style="font-family: sans-serif; max-width: 420px; margin: 40px auto">
+  <h2>Mock RANZ Identity Provider</h2>
+  <form method="post" action="/authorize">
+    ${hidden}
+    <p><label>Subject (sso id)<br><input name="sub" value="mock-user-1" required></label></p>
+    <p><label>Email<br><input name="email" type="email" value="staff@ranz.org.nz" required></label></p>
+    <p><label><input name="email_verified" type="checkbox" checked> Email verified</label></p>
+    <p><label>Name<br><input name="name" value="Mock Staff"></label></p>
+    <p><label>Role<br><select name="role">
+      <option value="">(no role claim)</option>
+      <option value="admin">admin</option>
+      <option value="staff" selected>staff</option>
+      <option value="inspector">inspector</option>
+      <option value="company_admin">company_admin</option>
+      <option value="company_user">company_user</option>
+      <option value="external">external</option>
+    </select></label></p>
+    <p><label>Company ID (AuthCompany.id)<br><input name="company_id"></label></p>
+    <button type="submit">Sign in</button>
+    <button type="submit" name="deny" value="1">Cancel</button>
+  </form>
+</body></html>`;
+}
+
+async function main() {
+  const { privateKey, publicKey } = await generateKeyPair('RS256');
+  const publicJwk = { ...(await exportJWK(publicKey)), kid: KEY_ID, alg: 'RS256', use: 'sig' };
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url || '/', ISSUER);
+
+    try {
+      if (req.method === 'GET' && url.pathname === '/.well-known/openid-configuration') {
+        return sendJson(res, 200, {
+          issuer: ISSUER,
+          authorization_endpoint: `${ISSUER}/authorize`,
+          token_endpoint: `${ISSUER}/token`,
+          jwks_uri: `${ISSUER}/jwks`,
+          response_types_supported: ['code'],
+          subject_types_supported: ['public'],
+          id_token_signing_alg_values_supported: ['RS256'],
+          code_challenge_methods_supported: ['S256'],
+          token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'none'],
+        });
+      }
+
+      if (req.method === 'GET' && url.pathname === '/jwks') {
+        return sendJson(res, 200, { keys: [publicJwk] });
+      }
+
+      if (req.method === 'GET' && url.pathname === '/authorize') {
+        if (url.searchParams.get('client_id') !== CLIENT_ID) {
+          return sendJson(res, 400, { error: 'unauthorized_client' });
+        }
+        if (url.searchParams.get('code_challenge_method') !== 'S256' || !url.searchParams.get('code_challenge')) {
+          return sendJson(res, 400, { error: 'invalid_request', error_description: 'PKCE S256 required' });
+        }
+        res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+        return res.end(renderSignInForm(url.searchParams));
+      }
+
+      if (req.method === 'POST' && url.pathname === '/authorize') {
+        const form = await readForm(req);
+        const redirect = new URL(form.get('redirect_uri') || '');
+        redirect.searchParams.set('state', form.get('state') || '');
+
+        if (form.get('deny')) {
+          redirect.searchParams.set('error', 'access_denied');
+        } else {
+          const code = randomBytes(24).toString('base64url');
+          const claims: Record<string, unknown> = {
+            sub: form.get('sub'),
+            email: form.get('email'),
+            email_verified: form.get('email_verified') === 'on',
+            name: form.get('name') || undefined,
+          };
+          if (form.get('role')) claims.role = form.get('role');
+          if (form.get('company_id')) claims.company_id = form.get('company_id');
+
+          codes.set(code, {
+            clientId: form.get('client_id') || '',
+            redirectUri: form.get('redirect_uri') || '',
+            codeChallenge: form.get('code_challenge') || '',
+            nonce: form.get('nonce') || '',
+            claims,
+            expiresAt: Date.now() + 60_000,
+          });
+          redirect.searchParams.set('code', code);
+        }
+
+        res.writeHead(302, { Location: redirect.toString() });
+        return res.end();
+      }
+
+      if (req.method === 'POST' && url.pathname === '/token') {
+        const form = await readForm(req);
+
+        // Accept client_secret_basic or client_secret_post
+        let clientId = form.get('client_id');
+        let clientSecret = form.get('client_secret');
+        const authHeader = req.headers.authorization;
+        if (authHeader?.startsWith('Basic ')) {
+          const [id, secret] = Buffer.from(authHeader.slice(6), 'base64').toString().split(':');
+          clientId = decodeURIComponent(id);
+          clientSecret = decodeURIComponent(secret);
+        }
+        if (clientId !== CLIENT_ID || (clientSecret && clientSecret !== CLIENT_SECRET)) {
+          return sendJson(res, 401, { error: 'invalid_client' });
+        }
+
+        const code = form.get('code') || '';
+        const pending = codes.get(code);
+        codes.delete(code); // Codes are single use
+
+        if (!pending || pending.expiresAt < Date.now() || pending.clientId !== clientId) {
+          return sendJson(res, 400, { error: 'invalid_grant' });
+        }
+        if (form.get('redirect_uri') !== pending.redirectUri) {
+          return sendJson(res, 400, { error: 'invalid_grant', error_description: 'redirect_uri mismatch' });
+        }
+
+        const verifier = form.get('code_verifier') || '';
+        const challenge = createHash('sha256').update(verifier).digest('base64url');
+        if (challenge !== pending.codeChallenge) {
+          return sendJson(res, 400, { error: 'invalid_grant', error_description: 'PKCE verification failed' });
+        }
+
+        const idToken = await new SignJWT({ ...pending.claims, nonce: pending.nonce })
+          .setProtectedHeader({ alg: 'RS256', kid: KEY_ID })
+          .setIssuer(ISSUER)
+          .setAudience(CLIENT_ID)
+          .setSubject(String(pending.claims.sub))
+          .setIssuedAt()
+          .setExpirationTime('5m')
+          .sign(privateKey);
+
+        return sendJson(res, 200, {
+          access_token: randomBytes(24).toString('base64url'),
+          token_type: 'Bearer',
+          expires_in: 300,
+          id_token: idToken,
+        });
+      }
+
+      sendJson(res, 404, { error: 'not_found' });
+    } catch (error) {
+      console.error('[Mock OIDC] Request failed:', error);
+      sendJson(res, 500, { error: 'server_error' });
+    }
+  });
+
+  server.listen(PORT, () => {
+    console.log(`Mock OIDC provider listening on ${ISSUER}`);
+    console.log(`Client ID: ${CLIENT_ID}  Client secret: ${CLIENT_SECRET}`);
+  });
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
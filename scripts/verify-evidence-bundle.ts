@@ -0,0 +1,65 @@
+/**
+ * Offline verifier for audit evidence bundles
+ *
+ * Checks a bundle exported from /api/admin/audit-chain/evidence without any
+ * database or network access: manifest signature, digests, entry hashes,
+ * chain links and Merkle inclusion in signed checkpoints.
+ *
+ * Run with: npx tsx scripts/verify-evidence-bundle.ts <bundle.json> [public-key.pem]
+ *
+ * Pass the public key obtained from RANZ directly. Without it the key embedded
+ * in the bundle is used, which only proves the bundle is internally consistent.
+ */
+
+import { readFileSync } from 'fs';
+import { verifyEvidenceBundle, type EvidenceBundle } from '../src/lib/audit-evidence-verify';
+
+async function main() {
+  const [bundlePath, keyPath] = process.argv.slice(2);
+
+  if (!bundlePath) {
+    console.error('Usage: npx tsx scripts/verify-evidence-bundle.ts <bundle.json> [public-key.pem]');
+    process.exit(2);
+  }
+
+  const bundle = JSON.parse(readFileSync(bundlePath, 'utf-8')) as EvidenceBundle;
+
+  let publicKey: string;
+  if (keyPath) {
+    publicKey = readFileSync(keyPath, 'utf-8');
+  } else if (bundle.publicKey) {
+    console.warn('[WARNING] Using the public key embedded in the bundle. Supply a trusted key to prove origin.\n');
+    publicKey = bundle.publicKey;
+  } else {
+    console.error('No public key supplied and none embedded in the bundle');
+    process.exit(2);
+  }
+
+  const result = await verifyEvidenceBundle(bundle, publicKey);
+  const { manifest } = bundle;
+
+  console.log('=== Audit Evidence Bundle Verification ===\n');
+  console.log(`Bundle:      ${manifest.bundleId}`);
+  console.log(`Generated:   ${manifest.generatedAt} by ${manifest.generatedBy}`);
+  console.log(`Scope:       ${JSON.stringify(manifest.scope)}`);
+  console.log(`Window:      ${manifest.window.from} to ${manifest.window.to}`);
+  console.log(`Entries:     ${result.entriesVerified}/${manifest.entryCount} verified`);
+  console.log(`  with checkpoint proof: ${result.entriesWithCheckpointProof}`);
+  console.log(`  chain links only:      ${result.entriesWithLinksOnly}\n`);
+
+  if (result.valid) {
+    console.log('[PASS] Bundle verified');
+  } else {
+    console.log('[FAIL] Bundle failed verification:');
+    for (const error of result.errors) {
+      console.log(`  - ${error}`);
+    }
+  }
+
+  process.exit(result.valid ? 0 : 1);
+}
+
+main().catch((error) => {
+  console.error('Verification failed to run:', error);
+  process.exit(2);
+});
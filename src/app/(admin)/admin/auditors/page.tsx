@@ -0,0 +1,571 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { UserCheck, Plus, Loader2, CalendarX, Trash2, Pencil } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { NZ_REGIONS } from "@/types";
+import type { NZRegion } from "@/types";
+
+// --- Interfaces ---
+
+interface Unavailability {
+  id: string;
+  startDate: string;
+  endDate: string;
+  reason: string | null;
+}
+
+interface Conflict {
+  id: string;
+  reason: string;
+  createdAt: string;
+  organization: { name: string };
+}
+
+interface Auditor {
+  id: string;
+  regions: NZRegion[];
+  maxAuditsPerMonth: number;
+  active: boolean;
+  notes: string | null;
+  authUser: {
+    firstName: string;
+    lastName: string;
+    email: string;
+    userType: "RANZ_INSPECTOR" | "EXTERNAL_INSPECTOR";
+    status: string;
+  };
+  unavailability: Unavailability[];
+  conflicts: Conflict[];
+  _count: { audits: number };
+}
+
+interface UnregisteredUser {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+}
+
+interface ProfileForm {
+  regions: NZRegion[];
+  maxAuditsPerMonth: number;
+  notes: string;
+}
+
+const EMPTY_FORM: ProfileForm = { regions: [], maxAuditsPerMonth: 8, notes: "" };
+
+const USER_TYPE_LABELS: Record<Auditor["authUser"]["userType"], string> = {
+  RANZ_INSPECTOR: "RANZ Inspector",
+  EXTERNAL_INSPECTOR: "External Inspector",
+};
+
+const selectClass =
+  "rounded-md border border-slate-300 bg-white px-3 py-2 text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none";
+
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString("en-NZ");
+}
+
+function ProfileFields({
+  form,
+  onChange,
+}: {
+  form: ProfileForm;
+  onChange: (form: ProfileForm) => void;
+}) {
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-slate-700 mb-2">Regions covered</label>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm text-slate-600">
+          {NZ_REGIONS.map((region) => (
+            <label key={region} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={form.regions.includes(region)}
+                onChange={() =>
+                  onChange({
+                    ...form,
+                    regions: form.regions.includes(region)
+                      ? form.regions.filter((r) => r !== region)
+                      : [...form.regions, region],
+                  })
+                }
+              />
+              {region}
+            </label>
+          ))}
+        </div>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">
+            Max audits per month
+          </label>
+          <Input
+            type="number"
+            min={1}
+            max={60}
+            value={form.maxAuditsPerMonth}
+            onChange={(e) =>
+              onChange({ ...form, maxAuditsPerMonth: parseInt(e.target.value, 10) || 1 })
+            }
+          />
+        </div>
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-slate-700 mb-1">Notes</label>
+          <Input
+            value={form.notes}
+            onChange={(e) => onChange({ ...form, notes: e.target.value })}
+            placeholder="e.g., Specialises in membrane roofing"
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function AuditorRegistryPage() {
+  const [auditors, setAuditors] = useState<Auditor[]>([]);
+  const [unregistered, setUnregistered] = useState<UnregisteredUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  // Register form
+  const [showForm, setShowForm] = useState(false);
+  const [authUserId, setAuthUserId] = useState("");
+  const [formData, setFormData] = useState<ProfileForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // Inline editing of one auditor
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editData, setEditData] = useState<ProfileForm>(EMPTY_FORM);
+
+  // Unavailability form, keyed by auditor
+  const [periodFor, setPeriodFor] = useState<string | null>(null);
+  const [period, setPeriod] = useState({ startDate: "", endDate: "", reason: "" });
+
+  async function fetchAuditors() {
+    try {
+      const response = await fetch("/api/admin/auditors");
+      if (response.ok) {
+        const data = await response.json();
+        setAuditors(data.auditors);
+        setUnregistered(data.unregistered);
+      }
+    } catch (err) {
+      console.error("Failed to fetch auditors:", err);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    fetchAuditors();
+  }, []);
+
+  function showSuccess(msg: string) {
+    setSuccessMessage(msg);
+    setTimeout(() => setSuccessMessage(null), 3000);
+  }
+
+  async function handleRegister() {
+    if (!authUserId) {
+      setFormError("Choose an inspector to register.");
+      return;
+    }
+
+    setSaving(true);
+    setFormError(null);
+
+    try {
+      const response = await fetch("/api/admin/auditors", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ authUserId, ...formData, notes: formData.notes || null }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        setFormError(data.error || "Failed to register auditor.");
+        return;
+      }
+
+      setShowForm(false);
+      setAuthUserId("");
+      setFormData(EMPTY_FORM);
+      showSuccess("Auditor registered.");
+      await fetchAuditors();
+    } catch (err) {
+      console.error("Failed to register auditor:", err);
+      setFormError("An error occurred. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function updateAuditor(
+    id: string,
+    changes: Partial<Omit<ProfileForm, "notes">> & { notes?: string | null; active?: boolean }
+  ) {
+    try {
+      const response = await fetch(`/api/admin/auditors/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        window.alert(data.error || "Failed to update auditor.");
+        return false;
+      }
+
+      await fetchAuditors();
+      return true;
+    } catch (err) {
+      console.error("Failed to update auditor:", err);
+      window.alert("An error occurred. Please try again.");
+      return false;
+    }
+  }
+
+  async function handleSaveEdit(id: string) {
+    const saved = await updateAuditor(id, { ...editData, notes: editData.notes || null });
+    if (saved) {
+      setEditingId(null);
+      showSuccess("Auditor updated.");
+    }
+  }
+
+  async function handleAddPeriod(auditorId: string) {
+    try {
+      const response = await fetch(`/api/admin/auditors/${auditorId}/unavailability`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...period, reason: period.reason || undefined }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        window.alert(data.details?.[0]?.message || data.error || "Failed to add unavailability.");
+        return;
+      }
+
+      setPeriodFor(null);
+      setPeriod({ startDate: "", endDate: "", reason: "" });
+      showSuccess("Unavailability added.");
+      await fetchAuditors();
+    } catch (err) {
+      console.error("Failed to add unavailability:", err);
+      window.alert("An error occurred. Please try again.");
+    }
+  }
+
+  async function handleDelete(url: string, confirmMessage: string, successMsg: string) {
+    if (!window.confirm(confirmMessage)) return;
+
+    try {
+      const response = await fetch(url, { method: "DELETE" });
+
+      if (!response.ok) {
+        const data = await response.json();
+        window.alert(data.error || "Failed to delete.");
+        return;
+      }
+
+      showSuccess(successMsg);
+      await fetchAuditors();
+    } catch (err) {
+      console.error("Failed to delete:", err);
+      window.alert("An error occurred. Please try again.");
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-slate-200 rounded w-1/4" />
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-24 bg-slate-200 rounded" />
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <UserCheck className="h-6 w-6 text-blue-600" />
+          <div>
+            <h1 className="text-2xl font-bold text-slate-900">Auditor Registry</h1>
+            <p className="text-slate-500">
+              Regions, workload, availability and conflicts of interest used for assignment
+            </p>
+          </div>
+        </div>
+        {!showForm && unregistered.length > 0 && (
+          <Button onClick={() => setShowForm(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Register Auditor
+          </Button>
+        )}
+      </div>
+
+      {successMessage && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-green-800 text-sm">
+          {successMessage}
+        </div>
+      )}
+
+      {/* Register form */}
+      {showForm && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Register Auditor</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              {formError && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-800 text-sm">
+                  {formError}
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">
+                  Inspector *
+                </label>
+                <select
+                  value={authUserId}
+                  onChange={(e) => setAuthUserId(e.target.value)}
+                  className={`w-full ${selectClass}`}
+                >
+                  <option value="">Select an inspector account</option>
+                  {unregistered.map((user) => (
+                    <option key={user.id} value={user.id}>
+                      {user.firstName} {user.lastName} ({user.email})
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <ProfileFields form={formData} onChange={setFormData} />
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setShowForm(false)} disabled={saving}>
+                  Cancel
+                </Button>
+                <Button onClick={handleRegister} disabled={saving}>
+                  {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Register
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Auditors */}
+      {auditors.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-slate-500">
+            No auditors registered yet. Register inspector accounts to enable automatic
+            assignment.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {auditors.map((auditor) => (
+            <Card key={auditor.id} className={auditor.active ? undefined : "opacity-60"}>
+              <CardContent className="p-5 space-y-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-semibold text-slate-900">
+                        {auditor.authUser.firstName} {auditor.authUser.lastName}
+                      </span>
+                      <Badge variant="secondary">
+                        {USER_TYPE_LABELS[auditor.authUser.userType]}
+                      </Badge>
+                      {!auditor.active && <Badge variant="outline">Inactive</Badge>}
+                    </div>
+                    <p className="text-sm text-slate-500">{auditor.authUser.email}</p>
+                    <p className="text-sm text-slate-600">
+                      {auditor.regions.length > 0 ? auditor.regions.join(", ") : "No regions set"}
+                      {" · "}
+                      {auditor._count.audits} open audits · up to {auditor.maxAuditsPerMonth}/month
+                    </p>
+                    {auditor.notes && <p className="text-xs text-slate-500">{auditor.notes}</p>}
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => {
+                        setEditingId(auditor.id);
+                        setEditData({
+                          regions: auditor.regions,
+                          maxAuditsPerMonth: auditor.maxAuditsPerMonth,
+                          notes: auditor.notes ?? "",
+                        });
+                      }}
+                    >
+                      <Pencil className="h-4 w-4 mr-1" />
+                      Edit
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() =>
+                        updateAuditor(auditor.id, { active: !auditor.active }).then(
+                          (saved) =>
+                            saved &&
+                            showSuccess(auditor.active ? "Auditor deactivated." : "Auditor reactivated.")
+                        )
+                      }
+                    >
+                      {auditor.active ? "Deactivate" : "Reactivate"}
+                    </Button>
+                  </div>
+                </div>
+
+                {editingId === auditor.id && (
+                  <div className="rounded-lg border border-slate-200 p-4 space-y-4">
+                    <ProfileFields form={editData} onChange={setEditData} />
+                    <div className="flex justify-end gap-2">
+                      <Button variant="outline" size="sm" onClick={() => setEditingId(null)}>
+                        Cancel
+                      </Button>
+                      <Button size="sm" onClick={() => handleSaveEdit(auditor.id)}>
+                        Save
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {/* Unavailability */}
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <h3 className="text-sm font-medium text-slate-700">Unavailable</h3>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setPeriodFor(periodFor === auditor.id ? null : auditor.id)}
+                      >
+                        <CalendarX className="h-4 w-4 mr-1" />
+                        Add
+                      </Button>
+                    </div>
+                    {periodFor === auditor.id && (
+                      <div className="flex flex-wrap items-end gap-2">
+                        <Input
+                          type="date"
+                          value={period.startDate}
+                          onChange={(e) => setPeriod({ ...period, startDate: e.target.value })}
+                          className="w-40"
+                          aria-label="From"
+                        />
+                        <Input
+                          type="date"
+                          value={period.endDate}
+                          onChange={(e) => setPeriod({ ...period, endDate: e.target.value })}
+                          className="w-40"
+                          aria-label="To"
+                        />
+                        <Input
+                          value={period.reason}
+                          onChange={(e) => setPeriod({ ...period, reason: e.target.value })}
+                          placeholder="Reason (optional)"
+                          className="flex-1 min-w-32"
+                        />
+                        <Button size="sm" onClick={() => handleAddPeriod(auditor.id)}>
+                          Save
+                        </Button>
+                      </div>
+                    )}
+                    {auditor.unavailability.length === 0 ? (
+                      <p className="text-xs text-slate-400">No upcoming leave.</p>
+                    ) : (
+                      <ul className="space-y-1 text-sm text-slate-600">
+                        {auditor.unavailability.map((p) => (
+                          <li key={p.id} className="flex items-center justify-between gap-2">
+                            <span>
+                              {formatDate(p.startDate)} – {formatDate(p.endDate)}
+                              {p.reason && <span className="text-slate-400"> · {p.reason}</span>}
+                            </span>
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              aria-label="Remove unavailability"
+                              onClick={() =>
+                                handleDelete(
+                                  `/api/admin/auditors/${auditor.id}/unavailability/${p.id}`,
+                                  "Remove this unavailability?",
+                                  "Unavailability removed."
+                                )
+                              }
+                            >
+                              <Trash2 className="h-4 w-4 text-red-500" />
+                            </Button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+
+                  {/* Conflicts of interest */}
+                  <div className="space-y-2">
+                    <h3 className="text-sm font-medium text-slate-700 py-1.5">
+                      Conflicts of interest
+                    </h3>
+                    {auditor.conflicts.length === 0 ? (
+                      <p className="text-xs text-slate-400">None declared.</p>
+                    ) : (
+                      <ul className="space-y-1 text-sm text-slate-600">
+                        {auditor.conflicts.map((c) => (
+                          <li key={c.id} className="flex items-center justify-between gap-2">
+                            <span>
+                              {c.organization.name}
+                              <span className="text-slate-400"> · {c.reason}</span>
+                            </span>
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              aria-label="Withdraw conflict"
+                              onClick={() =>
+                                handleDelete(
+                                  `/api/admin/auditors/${auditor.id}/conflicts/${c.id}`,
+                                  `Withdraw the conflict with ${c.organization.name}? The auditor could then be assigned to their audits.`,
+                                  "Conflict withdrawn."
+                                )
+                              }
+                            >
+                              <Trash2 className="h-4 w-4 text-red-500" />
+                            </Button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
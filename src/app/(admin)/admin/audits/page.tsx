@@ -0,0 +1,434 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  ClipboardCheck,
+  Calendar,
+  MapPin,
+  Loader2,
+  Wand2,
+  AlertTriangle,
+  Ban,
+  Download,
+  RefreshCw,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { AUDIT_RATING_LABELS, AUDIT_STATUS_LABELS, AUDIT_TYPE_LABELS } from "@/types";
+import type { AuditRating, AuditStatus, AuditType } from "@/types";
+
+// --- Interfaces ---
+
+interface AdminAudit {
+  id: string;
+  auditNumber: string;
+  auditType: AuditType;
+  status: AuditStatus;
+  scheduledDate: string;
+  auditorProfileId: string | null;
+  auditorName: string | null;
+  auditorEmail: string | null;
+  completedAt: string | null;
+  rating: AuditRating | null;
+  reportGeneratedAt: string | null;
+  organization: { id: string; name: string; region: string | null };
+}
+
+type AuditView = "open" | "completed";
+
+interface AuditorCandidate {
+  auditorId: string;
+  name: string;
+  email: string;
+  regions: string[];
+  coversRegion: boolean;
+  monthlyAudits: number;
+  maxAuditsPerMonth: number;
+  blockers: string[];
+  warnings: string[];
+}
+
+export default function AdminAuditsPage() {
+  const [audits, setAudits] = useState<AdminAudit[]>([]);
+  const [view, setView] = useState<AuditView>("open");
+  const [unassignedOnly, setUnassignedOnly] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  // Suggestions for the audit being assigned
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [candidates, setCandidates] = useState<AuditorCandidate[]>([]);
+  const [loadingCandidates, setLoadingCandidates] = useState(false);
+  const [assigning, setAssigning] = useState(false);
+
+  const [reportBusyId, setReportBusyId] = useState<string | null>(null);
+
+  async function fetchAudits(auditView: AuditView, unassigned: boolean) {
+    const query =
+      auditView === "completed" ? "?completed=true" : unassigned ? "?unassigned=true" : "";
+
+    try {
+      const response = await fetch(`/api/admin/audits${query}`);
+      if (response.ok) {
+        const data = await response.json();
+        setAudits(data.audits);
+      }
+    } catch (err) {
+      console.error("Failed to fetch audits:", err);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    fetchAudits(view, unassignedOnly);
+  }, [view, unassignedOnly]);
+
+  function showSuccess(msg: string) {
+    setSuccessMessage(msg);
+    setTimeout(() => setSuccessMessage(null), 3000);
+  }
+
+  async function handleShowCandidates(auditId: string) {
+    if (selectedId === auditId) {
+      setSelectedId(null);
+      return;
+    }
+
+    setSelectedId(auditId);
+    setCandidates([]);
+    setLoadingCandidates(true);
+
+    try {
+      const response = await fetch(`/api/admin/audits/${auditId}/auditor`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        window.alert(data.error || "Failed to load auditor suggestions.");
+        setSelectedId(null);
+        return;
+      }
+
+      setCandidates(data.candidates);
+    } catch (err) {
+      console.error("Failed to load auditor suggestions:", err);
+      window.alert("An error occurred. Please try again.");
+    } finally {
+      setLoadingCandidates(false);
+    }
+  }
+
+  async function handleAssign(auditId: string, body: { auditorId: string } | { auto: true }) {
+    const candidate =
+      "auditorId" in body ? candidates.find((c) => c.auditorId === body.auditorId) : undefined;
+
+    if (
+      candidate &&
+      candidate.warnings.length > 0 &&
+      !window.confirm(`Assign ${candidate.name} anyway?\n\n${candidate.warnings.join("\n")}`)
+    ) {
+      return;
+    }
+
+    setAssigning(true);
+
+    try {
+      const response = await fetch(`/api/admin/audits/${auditId}/auditor`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        window.alert(data.error || "Failed to assign auditor.");
+        return;
+      }
+
+      setSelectedId(null);
+      showSuccess(`${data.auditor.name} assigned.`);
+      await fetchAudits(view, unassignedOnly);
+    } catch (err) {
+      console.error("Failed to assign auditor:", err);
+      window.alert("An error occurred. Please try again.");
+    } finally {
+      setAssigning(false);
+    }
+  }
+
+  async function handleDownloadReport(auditId: string) {
+    setReportBusyId(auditId);
+
+    try {
+      const response = await fetch(`/api/admin/audits/${auditId}/report`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        window.alert(data.error || "Failed to download report.");
+        return;
+      }
+
+      window.open(data.url, "_blank");
+    } catch (err) {
+      console.error("Failed to download audit report:", err);
+      window.alert("An error occurred. Please try again.");
+    } finally {
+      setReportBusyId(null);
+    }
+  }
+
+  async function handleRegenerateReport(auditId: string) {
+    setReportBusyId(auditId);
+
+    try {
+      const response = await fetch(`/api/admin/audits/${auditId}/report`, { method: "POST" });
+
+      if (!response.ok) {
+        const data = await response.json();
+        window.alert(data.error || "Failed to regenerate report.");
+        return;
+      }
+
+      showSuccess("Report regenerated.");
+      await fetchAudits(view, unassignedOnly);
+    } catch (err) {
+      console.error("Failed to regenerate audit report:", err);
+      window.alert("An error occurred. Please try again.");
+    } finally {
+      setReportBusyId(null);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-slate-200 rounded w-1/4" />
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-20 bg-slate-200 rounded" />
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <ClipboardCheck className="h-6 w-6 text-blue-600" />
+          <div>
+            <h1 className="text-2xl font-bold text-slate-900">Audits</h1>
+            <p className="text-slate-500">
+              {view === "open"
+                ? "Scheduled and in-progress audits across all members"
+                : "Recently completed audits and their reports"}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-4">
+          {view === "open" && (
+            <label className="flex items-center gap-2 text-sm text-slate-600">
+              <input
+                type="checkbox"
+                checked={unassignedOnly}
+                onChange={(e) => setUnassignedOnly(e.target.checked)}
+              />
+              Unassigned only
+            </label>
+          )}
+          <div className="flex gap-1">
+            {(["open", "completed"] as const).map((option) => (
+              <Button
+                key={option}
+                size="sm"
+                variant={view === option ? "default" : "outline"}
+                onClick={() => {
+                  setSelectedId(null);
+                  setView(option);
+                }}
+              >
+                {option === "open" ? "Open" : "Completed"}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {successMessage && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-green-800 text-sm">
+          {successMessage}
+        </div>
+      )}
+
+      {audits.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-slate-500">
+            {view === "completed"
+              ? "No completed audits."
+              : `No open audits${unassignedOnly ? " without an auditor" : ""}.`}
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {audits.map((audit) => (
+            <Card key={audit.id}>
+              <CardContent className="p-4 space-y-3">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="space-y-1 min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-semibold text-slate-900">
+                        {audit.organization.name}
+                      </span>
+                      <Badge variant="secondary">
+                        {audit.rating
+                          ? AUDIT_RATING_LABELS[audit.rating]
+                          : AUDIT_STATUS_LABELS[audit.status]}
+                      </Badge>
+                      {view === "open" && !audit.auditorName && (
+                        <Badge variant="warning">Unassigned</Badge>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-slate-500">
+                      <span>
+                        {audit.auditNumber} &middot; {AUDIT_TYPE_LABELS[audit.auditType]}
+                      </span>
+                      <span className="flex items-center gap-1">
+                        <Calendar className="h-3.5 w-3.5" />
+                        {new Date(audit.scheduledDate).toLocaleDateString("en-NZ")}
+                      </span>
+                      <span className="flex items-center gap-1">
+                        <MapPin className="h-3.5 w-3.5" />
+                        {audit.organization.region ?? "Region not set"}
+                      </span>
+                      {audit.auditorName && <span>Auditor: {audit.auditorName}</span>}
+                      {audit.reportGeneratedAt && (
+                        <span>
+                          Report generated{" "}
+                          {new Date(audit.reportGeneratedAt).toLocaleDateString("en-NZ")}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  {view === "completed" ? (
+                    <div className="flex gap-2 shrink-0">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={reportBusyId === audit.id}
+                        onClick={() => handleRegenerateReport(audit.id)}
+                      >
+                        <RefreshCw className="h-4 w-4 mr-1" />
+                        Regenerate
+                      </Button>
+                      <Button
+                        size="sm"
+                        disabled={reportBusyId === audit.id}
+                        onClick={() => handleDownloadReport(audit.id)}
+                      >
+                        {reportBusyId === audit.id ? (
+                          <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                        ) : (
+                          <Download className="h-4 w-4 mr-1" />
+                        )}
+                        Report
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="flex gap-2 shrink-0">
+                      {!audit.auditorName && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={assigning}
+                          onClick={() => handleAssign(audit.id, { auto: true })}
+                        >
+                          <Wand2 className="h-4 w-4 mr-1" />
+                          Auto-assign
+                        </Button>
+                      )}
+                      <Button size="sm" onClick={() => handleShowCandidates(audit.id)}>
+                        {audit.auditorName ? "Reassign" : "Choose Auditor"}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
+                {selectedId === audit.id && (
+                  <div className="rounded-lg border border-slate-200 divide-y divide-slate-100">
+                    {loadingCandidates ? (
+                      <div className="p-4 flex items-center gap-2 text-sm text-slate-500">
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                        Finding auditors...
+                      </div>
+                    ) : candidates.length === 0 ? (
+                      <p className="p-4 text-sm text-slate-500">
+                        No active auditors are registered.
+                      </p>
+                    ) : (
+                      candidates.map((candidate) => {
+                        const blocked = candidate.blockers.length > 0;
+                        return (
+                          <div
+                            key={candidate.auditorId}
+                            className="p-3 flex items-start justify-between gap-4"
+                          >
+                            <div className="space-y-1 text-sm">
+                              <div className="font-medium text-slate-900">
+                                {candidate.name}
+                                {candidate.auditorId === audit.auditorProfileId && (
+                                  <span className="text-slate-400 font-normal"> (current)</span>
+                                )}
+                              </div>
+                              <div className="text-xs text-slate-500">
+                                {candidate.monthlyAudits}/{candidate.maxAuditsPerMonth} audits
+                                this month &middot;{" "}
+                                {candidate.regions.length > 0
+                                  ? candidate.regions.join(", ")
+                                  : "No regions set"}
+                              </div>
+                              {candidate.blockers.map((blocker) => (
+                                <div key={blocker} className="flex items-center gap-1 text-xs text-red-700">
+                                  <Ban className="h-3.5 w-3.5" />
+                                  {blocker}
+                                </div>
+                              ))}
+                              {candidate.warnings.map((warning) => (
+                                <div key={warning} className="flex items-center gap-1 text-xs text-yellow-700">
+                                  <AlertTriangle className="h-3.5 w-3.5" />
+                                  {warning}
+                                </div>
+                              ))}
+                            </div>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={
+                                blocked ||
+                                assigning ||
+                                candidate.auditorId === audit.auditorProfileId
+                              }
+                              onClick={() =>
+                                handleAssign(audit.id, { auditorId: candidate.auditorId })
+                              }
+                            >
+                              Assign
+                            </Button>
+                          </div>
+                        );
+                      })
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,618 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { BookOpen, Plus, Pencil, Trash2, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  CERTIFICATION_TIER_LABELS,
+  CPD_CATEGORY_LABELS,
+  LBP_CLASS_LABELS,
+} from "@/types";
+import type { CertificationTier, CPDCategory, LBPClass } from "@/types";
+
+// --- Interfaces ---
+
+type CycleAnchor = "FIXED_DATE" | "LBP_EXPIRY";
+
+interface CpdRequirement {
+  id: string;
+  name: string;
+  description: string | null;
+  lbpClass: LBPClass | null;
+  certificationTier: CertificationTier | null;
+  cycleMonths: number;
+  cycleAnchor: CycleAnchor;
+  cycleStartDate: string | null;
+  minPoints: number;
+  categoryMinimums: Partial<Record<CPDCategory, number>>;
+  maxCarryOverPoints: number;
+  active: boolean;
+}
+
+interface FormData {
+  name: string;
+  description: string;
+  lbpClass: LBPClass | "";
+  certificationTier: CertificationTier | "";
+  cycleMonths: string;
+  cycleAnchor: CycleAnchor;
+  cycleStartDate: string;
+  minPoints: string;
+  categoryMinimums: Record<CPDCategory, string>;
+  maxCarryOverPoints: string;
+  active: boolean;
+}
+
+const CATEGORIES = Object.keys(CPD_CATEGORY_LABELS) as CPDCategory[];
+
+const ANCHOR_LABELS: Record<CycleAnchor, string> = {
+  LBP_EXPIRY: "Aligned to LBP licence renewal",
+  FIXED_DATE: "Fixed start date",
+};
+
+const EMPTY_FORM: FormData = {
+  name: "",
+  description: "",
+  lbpClass: "",
+  certificationTier: "",
+  cycleMonths: "24",
+  cycleAnchor: "LBP_EXPIRY",
+  cycleStartDate: "",
+  minPoints: "40",
+  categoryMinimums: {
+    TECHNICAL: "",
+    PEER_REVIEW: "",
+    INDUSTRY_EVENT: "",
+    SELF_STUDY: "",
+    OTHER: "",
+  },
+  maxCarryOverPoints: "0",
+  active: true,
+};
+
+function requirementToForm(requirement: CpdRequirement): FormData {
+  return {
+    name: requirement.name,
+    description: requirement.description || "",
+    lbpClass: requirement.lbpClass ?? "",
+    certificationTier: requirement.certificationTier ?? "",
+    cycleMonths: String(requirement.cycleMonths),
+    cycleAnchor: requirement.cycleAnchor,
+    cycleStartDate: requirement.cycleStartDate?.slice(0, 10) || "",
+    minPoints: String(requirement.minPoints),
+    categoryMinimums: Object.fromEntries(
+      CATEGORIES.map((c) => [c, requirement.categoryMinimums[c]?.toString() ?? ""])
+    ) as Record<CPDCategory, string>,
+    maxCarryOverPoints: String(requirement.maxCarryOverPoints),
+    active: requirement.active,
+  };
+}
+
+function formToPayload(form: FormData) {
+  return {
+    name: form.name.trim(),
+    description: form.description.trim() || null,
+    lbpClass: form.lbpClass || null,
+    certificationTier: form.certificationTier || null,
+    cycleMonths: parseInt(form.cycleMonths, 10),
+    cycleAnchor: form.cycleAnchor,
+    cycleStartDate: form.cycleStartDate || null,
+    minPoints: parseInt(form.minPoints, 10),
+    categoryMinimums: Object.fromEntries(
+      CATEGORIES.filter((c) => form.categoryMinimums[c] !== "").map((c) => [
+        c,
+        parseInt(form.categoryMinimums[c], 10),
+      ])
+    ),
+    maxCarryOverPoints: parseInt(form.maxCarryOverPoints || "0", 10),
+    active: form.active,
+  };
+}
+
+function describeScope(requirement: CpdRequirement): string {
+  const parts = [
+    requirement.lbpClass ? `${LBP_CLASS_LABELS[requirement.lbpClass]} LBPs` : "All LBP classes",
+    requirement.certificationTier
+      ? CERTIFICATION_TIER_LABELS[requirement.certificationTier]
+      : "all tiers",
+  ];
+  return parts.join(" · ");
+}
+
+function describeCycle(requirement: CpdRequirement): string {
+  const length =
+    requirement.cycleMonths % 12 === 0
+      ? `${requirement.cycleMonths / 12}-year`
+      : `${requirement.cycleMonths}-month`;
+  const anchor =
+    requirement.cycleAnchor === "LBP_EXPIRY"
+      ? "ending at LBP renewal"
+      : `from ${new Date(requirement.cycleStartDate!).toLocaleDateString("en-NZ")}`;
+  return `${length} cycle ${anchor}`;
+}
+
+export default function CpdRequirementsPage() {
+  const [requirements, setRequirements] = useState<CpdRequirement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<FormData>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  async function fetchRequirements() {
+    try {
+      const response = await fetch("/api/admin/cpd-requirements");
+      if (response.ok) {
+        const data = await response.json();
+        setRequirements(data.requirements);
+      }
+    } catch (err) {
+      console.error("Failed to fetch CPD requirements:", err);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    fetchRequirements();
+  }, []);
+
+  function showSuccess(msg: string) {
+    setSuccessMessage(msg);
+    setTimeout(() => setSuccessMessage(null), 3000);
+  }
+
+  function openCreateForm() {
+    setFormData(EMPTY_FORM);
+    setEditingId(null);
+    setShowForm(true);
+    setError(null);
+  }
+
+  function openEditForm(requirement: CpdRequirement) {
+    setFormData(requirementToForm(requirement));
+    setEditingId(requirement.id);
+    setShowForm(true);
+    setError(null);
+  }
+
+  function cancelForm() {
+    setShowForm(false);
+    setEditingId(null);
+    setError(null);
+  }
+
+  async function handleSave() {
+    setError(null);
+
+    if (formData.name.trim().length < 3) {
+      setError("Name must be at least 3 characters.");
+      return;
+    }
+    if (formData.cycleAnchor === "FIXED_DATE" && !formData.cycleStartDate) {
+      setError("Fixed-date cycles need a cycle start date.");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const url = editingId
+        ? `/api/admin/cpd-requirements/${editingId}`
+        : "/api/admin/cpd-requirements";
+
+      const response = await fetch(url, {
+        method: editingId ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(formToPayload(formData)),
+      });
+
+      if (response.ok) {
+        showSuccess(
+          editingId
+            ? "Requirement updated. Scores update on next recalculation."
+            : "Requirement created. Scores update on next recalculation."
+        );
+        cancelForm();
+        await fetchRequirements();
+      } else {
+        const data = await response.json();
+        setError(
+          data.details?.[0]?.message || data.error || "Failed to save requirement."
+        );
+      }
+    } catch (err) {
+      console.error("Failed to save CPD requirement:", err);
+      setError("An error occurred. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete(requirement: CpdRequirement) {
+    const confirmed = window.confirm(
+      `Delete "${requirement.name}"?\n\nMembers it applied to fall back to the next most specific requirement. To keep it for reference, mark it inactive instead.`
+    );
+    if (!confirmed) return;
+
+    try {
+      const response = await fetch(`/api/admin/cpd-requirements/${requirement.id}`, {
+        method: "DELETE",
+      });
+
+      if (response.ok) {
+        showSuccess("Requirement deleted.");
+        await fetchRequirements();
+      } else {
+        const data = await response.json();
+        window.alert(data.error || "Failed to delete requirement.");
+      }
+    } catch (err) {
+      console.error("Failed to delete CPD requirement:", err);
+      window.alert("An error occurred. Please try again.");
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-slate-200 rounded w-1/4" />
+          <div className="h-12 bg-slate-200 rounded" />
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-16 bg-slate-200 rounded" />
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const selectClass =
+    "w-full rounded-md border border-slate-300 px-3 py-2 text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none";
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <BookOpen className="h-6 w-6 text-blue-600" />
+          <div>
+            <h1 className="text-2xl font-bold text-slate-900">
+              CPD Requirements
+            </h1>
+            <p className="text-slate-500">
+              Each LBP holder is held to the most specific active requirement
+              for their licence class and their business&apos;s tier
+            </p>
+          </div>
+        </div>
+        {!showForm && (
+          <Button onClick={openCreateForm}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Requirement
+          </Button>
+        )}
+      </div>
+
+      {successMessage && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-green-800 text-sm">
+          {successMessage}
+        </div>
+      )}
+
+      {/* Requirement form */}
+      {showForm && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{editingId ? "Edit Requirement" : "New Requirement"}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-6">
+              {error && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-800 text-sm">
+                  {error}
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">
+                    Name *
+                  </label>
+                  <Input
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    placeholder="e.g., Roofing LBP skills maintenance"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">
+                    Description
+                  </label>
+                  <Input
+                    value={formData.description}
+                    onChange={(e) =>
+                      setFormData({ ...formData, description: e.target.value })
+                    }
+                    placeholder="Board resolution or rationale"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <h3 className="text-sm font-semibold text-slate-900 mb-2">Applies To</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-xs text-slate-500 mb-1">LBP class</label>
+                    <select
+                      value={formData.lbpClass}
+                      onChange={(e) =>
+                        setFormData({ ...formData, lbpClass: e.target.value as LBPClass | "" })
+                      }
+                      className={selectClass}
+                    >
+                      <option value="">Any class</option>
+                      {(Object.keys(LBP_CLASS_LABELS) as LBPClass[]).map((c) => (
+                        <option key={c} value={c}>
+                          {LBP_CLASS_LABELS[c]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs text-slate-500 mb-1">
+                      Certification tier
+                    </label>
+                    <select
+                      value={formData.certificationTier}
+                      onChange={(e) =>
+                        setFormData({
+                          ...formData,
+                          certificationTier: e.target.value as CertificationTier | "",
+                        })
+                      }
+                      className={selectClass}
+                    >
+                      <option value="">Any tier</option>
+                      {(Object.keys(CERTIFICATION_TIER_LABELS) as CertificationTier[]).map(
+                        (t) => (
+                          <option key={t} value={t}>
+                            {CERTIFICATION_TIER_LABELS[t]}
+                          </option>
+                        )
+                      )}
+                    </select>
+                  </div>
+                </div>
+              </div>
+
+              <div>
+                <h3 className="text-sm font-semibold text-slate-900 mb-2">Cycle</h3>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-xs text-slate-500 mb-1">
+                      Length (months)
+                    </label>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={120}
+                      value={formData.cycleMonths}
+                      onChange={(e) =>
+                        setFormData({ ...formData, cycleMonths: e.target.value })
+                      }
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-slate-500 mb-1">Anchored to</label>
+                    <select
+                      value={formData.cycleAnchor}
+                      onChange={(e) =>
+                        setFormData({
+                          ...formData,
+                          cycleAnchor: e.target.value as CycleAnchor,
+                        })
+                      }
+                      className={selectClass}
+                    >
+                      {(Object.keys(ANCHOR_LABELS) as CycleAnchor[]).map((a) => (
+                        <option key={a} value={a}>
+                          {ANCHOR_LABELS[a]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs text-slate-500 mb-1">
+                      Cycle start date
+                      {formData.cycleAnchor === "FIXED_DATE" ? " *" : ""}
+                    </label>
+                    <Input
+                      type="date"
+                      value={formData.cycleStartDate}
+                      onChange={(e) =>
+                        setFormData({ ...formData, cycleStartDate: e.target.value })
+                      }
+                    />
+                    {formData.cycleAnchor === "LBP_EXPIRY" && (
+                      <p className="text-xs text-slate-400 mt-1">
+                        Used for members without an LBP expiry date.
+                      </p>
+                    )}
+                  </div>
+                </div>
+              </div>
+
+              <div>
+                <h3 className="text-sm font-semibold text-slate-900 mb-2">Points</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                  <div>
+                    <label className="block text-xs text-slate-500 mb-1">
+                      Minimum points per cycle
+                    </label>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={formData.minPoints}
+                      onChange={(e) => setFormData({ ...formData, minPoints: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-slate-500 mb-1">
+                      Maximum carry-over points
+                    </label>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={formData.maxCarryOverPoints}
+                      onChange={(e) =>
+                        setFormData({ ...formData, maxCarryOverPoints: e.target.value })
+                      }
+                    />
+                    <p className="text-xs text-slate-400 mt-1">
+                      Surplus from the previous cycle that counts toward the total.
+                    </p>
+                  </div>
+                </div>
+                <label className="block text-xs text-slate-500 mb-1">
+                  Category minimums (leave blank for none)
+                </label>
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                  {CATEGORIES.map((category) => (
+                    <div key={category}>
+                      <label className="block text-xs text-slate-500 mb-1">
+                        {CPD_CATEGORY_LABELS[category]}
+                      </label>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={formData.categoryMinimums[category]}
+                        onChange={(e) =>
+                          setFormData({
+                            ...formData,
+                            categoryMinimums: {
+                              ...formData.categoryMinimums,
+                              [category]: e.target.value,
+                            },
+                          })
+                        }
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={formData.active}
+                  onChange={(e) => setFormData({ ...formData, active: e.target.checked })}
+                />
+                Active
+              </label>
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={cancelForm} disabled={saving}>
+                  Cancel
+                </Button>
+                <Button onClick={handleSave} disabled={saving}>
+                  {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  {editingId ? "Save Requirement" : "Create Requirement"}
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Requirements */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Requirements</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {requirements.length === 0 ? (
+            <p className="text-sm text-slate-500 py-4 text-center">
+              No CPD requirements yet. Members are held to the built-in default
+              of 20 points per calendar year.
+            </p>
+          ) : (
+            <div className="divide-y">
+              {requirements.map((requirement) => {
+                const minimums = CATEGORIES.filter(
+                  (c) => (requirement.categoryMinimums[c] ?? 0) > 0
+                );
+                return (
+                  <div
+                    key={requirement.id}
+                    className="py-3 flex items-start justify-between gap-4"
+                  >
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-slate-900">
+                          {requirement.name}
+                        </span>
+                        {requirement.active ? (
+                          <Badge className="bg-green-100 text-green-700">Active</Badge>
+                        ) : (
+                          <Badge variant="outline">Inactive</Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-slate-500 mt-1">
+                        {describeScope(requirement)}
+                        {" · "}
+                        {requirement.minPoints} points per {describeCycle(requirement)}
+                        {requirement.maxCarryOverPoints > 0 &&
+                          ` · up to ${requirement.maxCarryOverPoints} carried over`}
+                      </p>
+                      {minimums.length > 0 && (
+                        <p className="text-xs text-slate-400 mt-0.5">
+                          Minimums:{" "}
+                          {minimums
+                            .map(
+                              (c) =>
+                                `${CPD_CATEGORY_LABELS[c]} ${requirement.categoryMinimums[c]}`
+                            )
+                            .join(", ")}
+                        </p>
+                      )}
+                      {requirement.description && (
+                        <p className="text-xs text-slate-400 mt-0.5">
+                          {requirement.description}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => openEditForm(requirement)}
+                        title="Edit requirement"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(requirement)}
+                        title="Delete requirement"
+                      >
+                        <Trash2 className="h-4 w-4 text-red-500" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
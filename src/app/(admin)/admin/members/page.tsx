@@ -45,6 +45,9 @@ interface Organization {
   insurancePolicies: Array<{
     policyType: string;
     expiryDate: string;
+    verified: boolean;
+    verifiedBy: string | null;
+    brokerEmail: string | null;
   }>;
   audits: Array<{
     rating: string;
@@ -81,6 +84,14 @@ function getComplianceIcon(score: number) {
   return <AlertTriangle className={`h-4 w-4 ${colorClass}`} />;
 }
 
+// Policies the member's nominated broker confirmed by email link, rather than
+// a RANZ admin checking the certificate
+function countBrokerAsserted(policies: Organization["insurancePolicies"]): number {
+  return policies.filter(
+    (policy) => policy.verified && !!policy.brokerEmail && policy.verifiedBy === policy.brokerEmail
+  ).length;
+}
+
 function AdminMembersContent() {
   const searchParams = useSearchParams();
   const initialStatus = searchParams.get("status") || "";
@@ -359,6 +370,14 @@ function AdminMembersContent() {
                             {org.insurancePolicies.length} active
                           </span>
                         </div>
+                        {countBrokerAsserted(org.insurancePolicies) > 0 && (
+                          <p
+                            className="text-xs text-slate-500"
+                            title="Confirmed by the broker address the member supplied, not checked by RANZ staff"
+                          >
+                            {countBrokerAsserted(org.insurancePolicies)} broker-asserted
+                          </p>
+                        )}
                       </td>
                       <td className="py-3 px-4">
                         <span className="text-sm">{org._count.members}</span>
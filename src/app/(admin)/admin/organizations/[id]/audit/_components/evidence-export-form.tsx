@@ -0,0 +1,117 @@
+"use client";
+
+import { useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface EvidenceExportFormProps {
+  organizationId: string;
+}
+
+function toDateInput(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * Downloads a signed audit evidence bundle for this organization, for handing
+ * to accreditation bodies or in response to legal requests.
+ */
+export function EvidenceExportForm({ organizationId }: EvidenceExportFormProps) {
+  const [from, setFrom] = useState(() => {
+    const yearAgo = new Date();
+    yearAgo.setFullYear(yearAgo.getFullYear() - 1);
+    return toDateInput(yearAgo);
+  });
+  const [to, setTo] = useState(() => toDateInput(new Date()));
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+
+    // Include the full end day
+    const end = new Date(to);
+    end.setHours(23, 59, 59, 999);
+
+    try {
+      const response = await fetch("/api/admin/audit-chain/evidence", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          organizationId,
+          from: new Date(from).toISOString(),
+          to: end.toISOString(),
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to export evidence bundle");
+      }
+
+      const blob = await response.blob();
+      const filename =
+        response.headers
+          .get("Content-Disposition")
+          ?.match(/filename="(.+)"/)?.[1] ?? "audit-evidence.json";
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = filename;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to export evidence bundle");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 space-y-3">
+      <div>
+        <h3 className="font-medium">Export Evidence Bundle</h3>
+        <p className="text-sm text-muted-foreground">
+          Signed bundle of this organization&apos;s audit entries with chain links and
+          checkpoint proofs. It can be verified offline with
+          <code className="mx-1 text-xs">scripts/verify-evidence-bundle.ts</code>
+          and our public key.
+        </p>
+      </div>
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="evidence-from">From</Label>
+          <Input
+            id="evidence-from"
+            type="date"
+            value={from}
+            max={to}
+            onChange={(e) => setFrom(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="evidence-to">To</Label>
+          <Input
+            id="evidence-to"
+            type="date"
+            value={to}
+            min={from}
+            onChange={(e) => setTo(e.target.value)}
+          />
+        </div>
+        <Button onClick={handleExport} disabled={exporting || !from || !to}>
+          {exporting ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Download className="h-4 w-4 mr-2" />
+          )}
+          Export
+        </Button>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
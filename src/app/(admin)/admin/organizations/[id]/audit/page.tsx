@@ -1,6 +1,7 @@
 import { db } from "@/lib/db";
 import { verifyAuditChain } from "@/lib/audit-log";
 import { AuditTrailTable } from "./_components/audit-trail-table";
+import { EvidenceExportForm } from "./_components/evidence-export-form";
 import { auth } from "@clerk/nextjs/server";
 import { redirect } from "next/navigation";
 import Link from "next/link";
@@ -64,8 +65,11 @@ export default async function AuditTrailPage({
     take: 100,
   });
 
-  // Verify hash chain integrity (shows overall system health)
-  const chainVerification = await verifyAuditChain();
+  // Verify hash chain integrity for the window covering the entries shown
+  // (a full-chain check is available from /api/admin/audit-chain/verify)
+  const chainVerification = await verifyAuditChain(
+    logs.length > 0 ? { from: logs[logs.length - 1].timestamp } : { from: new Date() }
+  );
 
   return (
     <div className="p-6 space-y-6">
@@ -113,6 +117,16 @@ export default async function AuditTrailPage({
               First broken entry: #{chainVerification.brokenAt.toString()}
             </p>
           )}
+          {chainVerification.brokenRanges.length > 0 && (
+            <ul className="text-sm text-red-600 mt-2 space-y-1">
+              {chainVerification.brokenRanges.map((range) => (
+                <li key={range.fromId.toString()}>
+                  Entries #{range.fromId.toString()} to #{range.toId.toString()} (
+                  {range.fromTimestamp.toISOString()} to {range.toTimestamp.toISOString()})
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
       )}
 
@@ -120,6 +134,8 @@ export default async function AuditTrailPage({
         <AuditTrailTable logs={logs} />
       </div>
 
+      <EvidenceExportForm organizationId={organization.id} />
+
       <div className="text-sm text-muted-foreground">
         <p>
           Audit logs are immutable and cryptographically linked using SHA-256 hash chains.
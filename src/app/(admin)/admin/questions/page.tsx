@@ -0,0 +1,711 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  ListChecks,
+  Plus,
+  Trash2,
+  Copy,
+  Eye,
+  Send,
+  Loader2,
+  GitCompare,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  ApplicabilityBadges,
+  QuestionEditor,
+  type BankQuestion,
+} from "@/components/admin/question-bank/question-editor";
+import { ALL_ISO_ELEMENTS, ISO_ELEMENT_LABELS } from "@/types";
+import type { ISOElement } from "@/types";
+
+// --- Interfaces ---
+
+interface QuestionSetSummary {
+  id: string;
+  version: number;
+  name: string;
+  description: string | null;
+  status: "DRAFT" | "PUBLISHED";
+  publishedAt: string | null;
+  createdAt: string;
+  _count: { questions: number; audits: number };
+}
+
+interface QuestionSetDetail extends Omit<QuestionSetSummary, "_count"> {
+  questions: BankQuestion[];
+}
+
+// Local ID keeps editors stable while question numbers are being changed
+type EditableQuestion = BankQuestion & { uid: string };
+
+type QuestionField =
+  | "questionText"
+  | "guidance"
+  | "evidenceRequired"
+  | "certificationTiers"
+  | "auditTypes";
+
+interface QuestionSetComparison {
+  from: { id: string | null; version: number; name: string };
+  to: { id: string; version: number; name: string };
+  added: BankQuestion[];
+  removed: BankQuestion[];
+  changed: { before: BankQuestion; after: BankQuestion; fields: QuestionField[] }[];
+  unchanged: number;
+}
+
+const FIELD_LABELS: Record<QuestionField, string> = {
+  questionText: "wording",
+  guidance: "guidance",
+  evidenceRequired: "evidence",
+  certificationTiers: "tiers",
+  auditTypes: "audit types",
+};
+
+const selectClass =
+  "rounded-md border border-slate-300 bg-white px-3 py-2 text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none";
+
+function versionLabel(version: number): string {
+  return version === 0 ? "built-in questions" : `v${version}`;
+}
+
+function questionRef(question: BankQuestion): string {
+  return `${ISO_ELEMENT_LABELS[question.isoElement]} Q${question.questionNumber}`;
+}
+
+export default function QuestionBankPage() {
+  const [questionSets, setQuestionSets] = useState<QuestionSetSummary[]>([]);
+  const [activeVersion, setActiveVersion] = useState<number>(0);
+  const [loading, setLoading] = useState(true);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  // New draft form
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState({ name: "", description: "", sourceId: "" });
+  const [creating, setCreating] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // Selected version and its (editable) questions
+  const [selected, setSelected] = useState<QuestionSetDetail | null>(null);
+  const [questions, setQuestions] = useState<EditableQuestion[]>([]);
+  const [element, setElement] = useState<ISOElement>(ALL_ISO_ELEMENTS[0]);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const [comparison, setComparison] = useState<QuestionSetComparison | null>(null);
+  const [comparing, setComparing] = useState(false);
+
+  async function fetchQuestionSets() {
+    try {
+      const response = await fetch("/api/admin/question-sets");
+      if (response.ok) {
+        const data = await response.json();
+        setQuestionSets(data.questionSets);
+        setActiveVersion(data.activeVersion);
+      }
+    } catch (err) {
+      console.error("Failed to fetch question sets:", err);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    fetchQuestionSets();
+  }, []);
+
+  function showSuccess(msg: string) {
+    setSuccessMessage(msg);
+    setTimeout(() => setSuccessMessage(null), 3000);
+  }
+
+  function confirmDiscard(): boolean {
+    return !dirty || window.confirm("Discard unsaved question changes?");
+  }
+
+  function loadDetail(detail: QuestionSetDetail) {
+    setSelected(detail);
+    setQuestions(detail.questions.map((q) => ({ ...q, uid: crypto.randomUUID() })));
+    setDirty(false);
+    setSaveError(null);
+  }
+
+  async function handleView(set: QuestionSetSummary) {
+    if (!confirmDiscard()) return;
+    try {
+      const response = await fetch(`/api/admin/question-sets/${set.id}`);
+      if (response.ok) {
+        loadDetail(await response.json());
+      } else {
+        const data = await response.json();
+        window.alert(data.error || "Failed to load question set.");
+      }
+    } catch (err) {
+      console.error("Failed to fetch question set:", err);
+    }
+  }
+
+  async function handleCompare(set: QuestionSetSummary) {
+    setComparison(null);
+    setComparing(true);
+    try {
+      const response = await fetch(`/api/admin/question-sets/${set.id}/compare`);
+      if (response.ok) {
+        setComparison(await response.json());
+      } else {
+        const data = await response.json();
+        window.alert(data.error || "Failed to compare versions.");
+      }
+    } catch (err) {
+      console.error("Failed to compare question sets:", err);
+    } finally {
+      setComparing(false);
+    }
+  }
+
+  function openCreateForm(source?: QuestionSetSummary) {
+    setFormData({
+      name: source ? `${source.name} (copy)` : "",
+      description: "",
+      sourceId: source?.id ?? "",
+    });
+    setFormError(null);
+    setShowForm(true);
+  }
+
+  async function handleCreate() {
+    setFormError(null);
+
+    if (formData.name.trim().length < 3) {
+      setFormError("Name must be at least 3 characters.");
+      return;
+    }
+
+    setCreating(true);
+    try {
+      const response = await fetch("/api/admin/question-sets", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: formData.name.trim(),
+          description: formData.description.trim() || undefined,
+          sourceId: formData.sourceId || undefined,
+        }),
+      });
+
+      if (response.ok) {
+        const created = await response.json();
+        showSuccess(`Draft v${created.version} created.`);
+        setShowForm(false);
+        await fetchQuestionSets();
+      } else {
+        const data = await response.json();
+        setFormError(data.details?.[0]?.message || data.error || "Failed to create draft.");
+      }
+    } catch (err) {
+      console.error("Failed to create question set:", err);
+      setFormError("An error occurred. Please try again.");
+    } finally {
+      setCreating(false);
+    }
+  }
+
+  async function handleDelete(set: QuestionSetSummary) {
+    const confirmed = window.confirm(
+      `Delete draft "${set.name}" (v${set.version})?\n\nThis action cannot be undone.`
+    );
+    if (!confirmed) return;
+
+    try {
+      const response = await fetch(`/api/admin/question-sets/${set.id}`, {
+        method: "DELETE",
+      });
+
+      if (response.ok) {
+        showSuccess("Draft deleted.");
+        if (selected?.id === set.id) {
+          setSelected(null);
+          setDirty(false);
+        }
+        if (comparison?.to.id === set.id) setComparison(null);
+        await fetchQuestionSets();
+      } else {
+        const data = await response.json();
+        window.alert(data.error || "Failed to delete draft.");
+      }
+    } catch (err) {
+      console.error("Failed to delete question set:", err);
+      window.alert("An error occurred. Please try again.");
+    }
+  }
+
+  async function handlePublish(set: QuestionSetSummary) {
+    if (selected?.id === set.id && dirty) {
+      window.alert("Save or discard your question changes before publishing.");
+      return;
+    }
+
+    const confirmed = window.confirm(
+      `Publish "${set.name}" (v${set.version})?\n\nNew audits will use these questions. Published versions cannot be edited.`
+    );
+    if (!confirmed) return;
+
+    try {
+      const response = await fetch(`/api/admin/question-sets/${set.id}/publish`, {
+        method: "POST",
+      });
+
+      if (response.ok) {
+        showSuccess(`Version ${set.version} is now used for new audits.`);
+        if (selected?.id === set.id) {
+          setSelected({ ...selected, status: "PUBLISHED" });
+        }
+        await fetchQuestionSets();
+      } else {
+        const data = await response.json();
+        window.alert(data.error || "Failed to publish question set.");
+      }
+    } catch (err) {
+      console.error("Failed to publish question set:", err);
+      window.alert("An error occurred. Please try again.");
+    }
+  }
+
+  function updateQuestion(uid: string, question: BankQuestion) {
+    setQuestions((prev) => prev.map((q) => (q.uid === uid ? { ...question, uid } : q)));
+    setDirty(true);
+  }
+
+  function removeQuestion(uid: string) {
+    setQuestions((prev) => prev.filter((q) => q.uid !== uid));
+    setDirty(true);
+  }
+
+  function addQuestion() {
+    const next =
+      Math.max(0, ...questions.filter((q) => q.isoElement === element).map((q) => q.questionNumber)) + 1;
+    setQuestions((prev) => [
+      ...prev,
+      {
+        uid: crypto.randomUUID(),
+        isoElement: element,
+        questionNumber: next,
+        questionText: "",
+        guidance: null,
+        evidenceRequired: [],
+        certificationTiers: [],
+        auditTypes: [],
+      },
+    ]);
+    setDirty(true);
+  }
+
+  async function handleSaveQuestions() {
+    if (!selected) return;
+    setSaveError(null);
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/admin/question-sets/${selected.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          questions: questions.map((q) => ({
+            isoElement: q.isoElement,
+            questionNumber: q.questionNumber,
+            questionText: q.questionText,
+            guidance: q.guidance,
+            evidenceRequired: q.evidenceRequired,
+            certificationTiers: q.certificationTiers,
+            auditTypes: q.auditTypes,
+          })),
+        }),
+      });
+
+      if (response.ok) {
+        loadDetail(await response.json());
+        showSuccess("Questions saved.");
+        await fetchQuestionSets();
+      } else {
+        const data = await response.json();
+        const issue = data.details?.[0];
+        // Issue paths look like ["questions", index, field]
+        const index = issue?.path?.[0] === "questions" ? issue.path[1] : undefined;
+        const question = typeof index === "number" ? questions[index] : null;
+        setSaveError(
+          question
+            ? `${questionRef(question)}: ${issue.message}`
+            : issue?.message || data.error || "Failed to save questions."
+        );
+      }
+    } catch (err) {
+      console.error("Failed to save questions:", err);
+      setSaveError("An error occurred. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-slate-200 rounded w-1/4" />
+          <div className="h-12 bg-slate-200 rounded" />
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-16 bg-slate-200 rounded" />
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const editable = selected?.status === "DRAFT";
+  const elementQuestions = questions
+    .filter((q) => q.isoElement === element)
+    .sort((a, b) => a.questionNumber - b.questionNumber);
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <ListChecks className="h-6 w-6 text-blue-600" />
+          <div>
+            <h1 className="text-2xl font-bold text-slate-900">Audit Question Bank</h1>
+            <p className="text-slate-500">
+              New audits use {versionLabel(activeVersion)}
+            </p>
+          </div>
+        </div>
+        {!showForm && (
+          <Button onClick={() => openCreateForm()}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Draft
+          </Button>
+        )}
+      </div>
+
+      {successMessage && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-green-800 text-sm">
+          {successMessage}
+        </div>
+      )}
+
+      {/* New draft form */}
+      {showForm && (
+        <Card>
+          <CardHeader>
+            <CardTitle>New Draft Question Set</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              {formError && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-800 text-sm">
+                  {formError}
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">
+                    Name *
+                  </label>
+                  <Input
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    placeholder="e.g., 2027 Master Roofer recertification"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">
+                    Copy Questions From
+                  </label>
+                  <select
+                    value={formData.sourceId}
+                    onChange={(e) => setFormData({ ...formData, sourceId: e.target.value })}
+                    className={`w-full ${selectClass}`}
+                  >
+                    <option value="">Current questions ({versionLabel(activeVersion)})</option>
+                    {questionSets.map((set) => (
+                      <option key={set.id} value={set.id}>
+                        v{set.version} — {set.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">
+                  Description
+                </label>
+                <textarea
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  placeholder="What changes in this version and why"
+                  rows={2}
+                  className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none"
+                />
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setShowForm(false)} disabled={creating}>
+                  Cancel
+                </Button>
+                <Button onClick={handleCreate} disabled={creating}>
+                  {creating && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Create Draft
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Versions */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Versions</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {questionSets.length === 0 ? (
+            <p className="text-sm text-slate-500 py-4 text-center">
+              No question sets yet. Audits use the built-in questions. Create a draft
+              to start editing them.
+            </p>
+          ) : (
+            <div className="divide-y">
+              {questionSets.map((set) => (
+                <div key={set.id} className="py-3 flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono text-sm text-slate-500">v{set.version}</span>
+                      <span className="font-medium text-slate-900">{set.name}</span>
+                      {set.version === activeVersion ? (
+                        <Badge className="bg-green-100 text-green-700">Active</Badge>
+                      ) : set.status === "DRAFT" ? (
+                        <Badge variant="outline">Draft</Badge>
+                      ) : (
+                        <Badge className="bg-slate-100 text-slate-700">Published</Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-slate-500 mt-1">
+                      {set._count.questions} questions
+                      {" · "}
+                      {set._count.audits} audit{set._count.audits !== 1 ? "s" : ""}
+                      {set.publishedAt &&
+                        ` · Published ${new Date(set.publishedAt).toLocaleDateString("en-NZ")}`}
+                    </p>
+                    {set.description && (
+                      <p className="text-xs text-slate-400 mt-0.5">{set.description}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleView(set)}
+                      title={set.status === "DRAFT" ? "Edit questions" : "View questions"}
+                    >
+                      <Eye className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleCompare(set)}
+                      title="Compare with previous version"
+                    >
+                      <GitCompare className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => openCreateForm(set)}
+                      title="New draft from this version"
+                    >
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    {set.status === "DRAFT" && (
+                      <>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(set)}
+                          title="Delete draft"
+                        >
+                          <Trash2 className="h-4 w-4 text-red-500" />
+                        </Button>
+                        <Button size="sm" onClick={() => handlePublish(set)}>
+                          <Send className="h-4 w-4 mr-1" />
+                          Publish
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Comparison */}
+      {(comparing || comparison) && (
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              {comparison
+                ? `Changes in v${comparison.to.version} since ${versionLabel(comparison.from.version)}`
+                : "Comparing versions..."}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {!comparison ? (
+              <div className="flex items-center gap-2 text-sm text-slate-500 py-6 justify-center">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Comparing versions...
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  {[
+                    { label: "Added", value: comparison.added.length, className: "text-green-600" },
+                    { label: "Removed", value: comparison.removed.length, className: "text-red-600" },
+                    { label: "Changed", value: comparison.changed.length, className: "text-amber-600" },
+                    { label: "Unchanged", value: comparison.unchanged, className: "" },
+                  ].map((stat) => (
+                    <div key={stat.label} className="rounded-lg bg-slate-50 p-3">
+                      <p className="text-xs text-slate-500">{stat.label}</p>
+                      <p className={`text-xl font-semibold ${stat.className}`}>{stat.value}</p>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="divide-y text-sm">
+                  {comparison.added.map((q) => (
+                    <div key={`added-${q.isoElement}-${q.questionNumber}`} className="py-2 space-y-1">
+                      <p>
+                        <span className="font-medium text-green-700">+ {questionRef(q)}</span>{" "}
+                        {q.questionText}
+                      </p>
+                      <ApplicabilityBadges question={q} />
+                    </div>
+                  ))}
+                  {comparison.removed.map((q) => (
+                    <div key={`removed-${q.isoElement}-${q.questionNumber}`} className="py-2">
+                      <span className="font-medium text-red-700">− {questionRef(q)}</span>{" "}
+                      <span className="text-slate-500 line-through">{q.questionText}</span>
+                    </div>
+                  ))}
+                  {comparison.changed.map(({ before, after, fields }) => (
+                    <div
+                      key={`changed-${after.isoElement}-${after.questionNumber}`}
+                      className="py-2 space-y-1"
+                    >
+                      <p>
+                        <span className="font-medium text-amber-700">~ {questionRef(after)}</span>{" "}
+                        <span className="text-xs text-slate-500">
+                          ({fields.map((field) => FIELD_LABELS[field]).join(", ")})
+                        </span>
+                      </p>
+                      {fields.includes("questionText") && (
+                        <p className="text-slate-500 line-through">{before.questionText}</p>
+                      )}
+                      <p className="text-slate-900">{after.questionText}</p>
+                      <ApplicabilityBadges question={after} />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Questions */}
+      {selected && (
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <CardTitle>
+                v{selected.version} — {selected.name}
+              </CardTitle>
+              <div className="flex items-center gap-2">
+                <select
+                  value={element}
+                  onChange={(e) => setElement(e.target.value as ISOElement)}
+                  className={selectClass}
+                >
+                  {ALL_ISO_ELEMENTS.map((el) => (
+                    <option key={el} value={el}>
+                      {ISO_ELEMENT_LABELS[el]} ({questions.filter((q) => q.isoElement === el).length})
+                    </option>
+                  ))}
+                </select>
+                {editable && (
+                  <Button onClick={handleSaveQuestions} disabled={!dirty || saving}>
+                    {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Save Questions
+                  </Button>
+                )}
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {saveError && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-800 text-sm">
+                {saveError}
+              </div>
+            )}
+
+            {editable ? (
+              <>
+                {elementQuestions.map((q) => (
+                  <QuestionEditor
+                    key={q.uid}
+                    question={q}
+                    onChange={(updated) => updateQuestion(q.uid, updated)}
+                    onRemove={() => removeQuestion(q.uid)}
+                  />
+                ))}
+                <Button variant="outline" onClick={addQuestion}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Question
+                </Button>
+              </>
+            ) : elementQuestions.length === 0 ? (
+              <p className="text-sm text-slate-500 py-4 text-center">
+                No questions for this element.
+              </p>
+            ) : (
+              <div className="divide-y">
+                {elementQuestions.map((q) => (
+                  <div key={q.uid} className="py-3 space-y-1">
+                    <p className="text-sm text-slate-900">
+                      {q.questionNumber}. {q.questionText}
+                    </p>
+                    {q.guidance && <p className="text-xs text-slate-500">{q.guidance}</p>}
+                    {q.evidenceRequired.length > 0 && (
+                      <p className="text-xs text-slate-500">
+                        Evidence: {q.evidenceRequired.join(", ")}
+                      </p>
+                    )}
+                    <ApplicabilityBadges question={q} />
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,10 @@
 "use client";
 
-import { useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import {
   FileText,
   Download,
+  RefreshCw,
   BarChart3,
   Users,
   Shield,
@@ -16,6 +17,7 @@ import {
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import {
   Select,
   SelectContent,
@@ -23,7 +25,13 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { REPORT_TYPE_LABELS, type ReportType, type CertificationTier } from "@/types";
+import {
+  REPORT_TYPE_LABELS,
+  REPORT_FORMAT_LABELS,
+  type ReportType,
+  type ReportFormat,
+  type CertificationTier,
+} from "@/types";
 
 interface ReportConfig {
   type: ReportType;
@@ -31,6 +39,24 @@ interface ReportConfig {
   description: string;
 }
 
+type ReportStatus = "PENDING" | "GENERATING" | "COMPLETED" | "FAILED";
+
+interface ReportRecord {
+  id: string;
+  reportType: ReportType;
+  title: string;
+  status: ReportStatus;
+  format: ReportFormat;
+  generatedAt: string | null;
+  errorMessage: string | null;
+  createdAt: string;
+}
+
+const EXPORT_FORMATS: Exclude<ReportFormat, "JSON">[] = ["PDF", "CSV", "XLSX"];
+
+// How often to refresh the report list while files are still being generated
+const HISTORY_POLL_INTERVAL_MS = 5000;
+
 const reportConfigs: ReportConfig[] = [
   {
     type: "COMPLIANCE_SUMMARY",
@@ -67,6 +93,11 @@ const reportConfigs: ReportConfig[] = [
     icon: FileText,
     description: "Member project statistics and quality metrics",
   },
+  {
+    type: "TESTIMONIAL_SUMMARY",
+    icon: Star,
+    description: "Testimonial volume, ratings, request conversion and case study candidates",
+  },
   {
     type: "TIER_ANALYSIS",
     icon: TrendingUp,
@@ -80,6 +111,81 @@ export default function ReportsPage() {
   const [loading, setLoading] = useState(false);
   const [reportData, setReportData] = useState<Record<string, unknown> | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [history, setHistory] = useState<ReportRecord[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(true);
+  const [exporting, setExporting] = useState<ReportFormat | null>(null);
+
+  const fetchHistory = useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/reports");
+      if (!response.ok) {
+        throw new Error("Failed to load reports");
+      }
+      const data = await response.json();
+      setHistory(data.reports);
+    } catch (err) {
+      console.error("Failed to load report history:", err);
+    } finally {
+      setHistoryLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  const hasReportsInProgress = history.some(
+    (r) => r.status === "PENDING" || r.status === "GENERATING"
+  );
+
+  useEffect(() => {
+    if (!hasReportsInProgress) return;
+    const timer = setTimeout(fetchHistory, HISTORY_POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [hasReportsInProgress, history, fetchHistory]);
+
+  const exportReport = async (format: Exclude<ReportFormat, "JSON">) => {
+    if (!selectedReport) return;
+    setExporting(format);
+    setError(null);
+
+    try {
+      const params: Record<string, string> = {
+        reportType: selectedReport,
+        format,
+      };
+      if (tierFilter && tierFilter !== "all") params.tier = tierFilter;
+
+      const response = await fetch("/api/admin/reports", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(params),
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to queue report");
+      }
+
+      await fetchHistory();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to queue report");
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const downloadReport = async (reportId: string) => {
+    try {
+      const response = await fetch(`/api/admin/reports/${reportId}/download`);
+      if (!response.ok) {
+        throw new Error("Report file is not available");
+      }
+      const { url } = await response.json();
+      window.open(url, "_blank");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to download report");
+    }
+  };
 
   const generateReport = async (reportType: ReportType) => {
     setLoading(true);
@@ -236,6 +342,40 @@ export default function ReportsPage() {
                 </CardContent>
               </Card>
             )}
+
+            {data.scoreTrend?.some((m: { organizations: number }) => m.organizations > 0) && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-sm">Average Score by Month</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-2">
+                    {data.scoreTrend.map((month: {
+                      month: string;
+                      averageScore: number;
+                      organizations: number;
+                      belowThreshold: number;
+                    }) => (
+                      <div key={month.month} className="flex items-center gap-3">
+                        <span className="w-20 text-sm text-slate-600">{month.month}</span>
+                        <div className="flex-1 h-2 rounded-full bg-slate-100">
+                          <div
+                            className="h-2 rounded-full bg-blue-500"
+                            style={{ width: `${month.averageScore}%` }}
+                          />
+                        </div>
+                        <span className="w-12 text-right font-medium">
+                          {month.organizations > 0 ? `${month.averageScore}%` : "—"}
+                        </span>
+                        <span className="w-32 text-right text-sm text-slate-400">
+                          {month.organizations} orgs, {month.belowThreshold} below 70%
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
           </div>
         );
 
@@ -338,6 +478,111 @@ export default function ReportsPage() {
           </div>
         );
 
+      case "TESTIMONIAL_SUMMARY":
+        return (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <StatCard label="Verified Testimonials" value={data.totals?.verified} />
+              <StatCard
+                label="Avg Rating"
+                value={data.totals?.averageRating != null ? `${data.totals.averageRating} / 5` : undefined}
+              />
+              <StatCard label="Approval Rate" value={`${data.rates?.approvalRate ?? 0}%`} />
+              <StatCard
+                label="Request Conversion"
+                value={`${data.requestConversion?.conversionRate ?? 0}%`}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm">By Tier</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-2">
+                    {data.byTier?.map((tier: {
+                      tier: string;
+                      verified: number;
+                      averageRating: number | null;
+                    }) => (
+                      <div key={tier.tier} className="flex justify-between">
+                        <span className="text-slate-600">{tier.tier.replace(/_/g, " ")}</span>
+                        <span className="font-medium">
+                          {tier.verified} verified
+                          {tier.averageRating != null && ` · ${tier.averageRating}★`}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm">Requests</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-2">
+                    <div className="flex justify-between">
+                      <span className="text-slate-600">Requested</span>
+                      <span className="font-medium">{data.requestConversion?.requested || 0}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-green-600">Responded</span>
+                      <span className="font-medium">{data.requestConversion?.responded || 0}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-yellow-600">Outstanding</span>
+                      <span className="font-medium">{data.requestConversion?.outstanding || 0}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-red-600">Outstanding &gt; 30 days</span>
+                      <span className="font-medium">{data.requestConversion?.outstandingOver30Days || 0}</span>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+
+            {data.caseStudyCandidates?.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-sm">Case Study Candidates</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-2">
+                    {data.caseStudyCandidates.map((c: {
+                      testimonialId: string;
+                      organizationName: string;
+                      tier: string;
+                      projectNumber: string;
+                      rating: number;
+                      title: string | null;
+                      approved: boolean;
+                    }) => (
+                      <div key={c.testimonialId} className="flex justify-between items-center">
+                        <div>
+                          <span className="font-medium text-slate-900">{c.organizationName}</span>
+                          <span className="text-sm text-slate-500 ml-2">
+                            {c.projectNumber}
+                            {c.title && ` · ${c.title}`}
+                          </span>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm text-slate-400">{c.tier.replace(/_/g, " ")}</span>
+                          {!c.approved && <Badge variant="warning">Not approved</Badge>}
+                          <span className="font-medium">{c.rating}★</span>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        );
+
       default:
         return (
           <Card>
@@ -426,18 +671,99 @@ export default function ReportsPage() {
             <h2 className="text-lg font-semibold text-slate-900">
               {selectedReport && REPORT_TYPE_LABELS[selectedReport]}
             </h2>
-            <Button variant="outline" onClick={downloadJSON}>
-              <Download className="h-4 w-4 mr-2" />
-              Download JSON
-            </Button>
+            <div className="flex items-center gap-2">
+              {EXPORT_FORMATS.map((format) => (
+                <Button
+                  key={format}
+                  variant="outline"
+                  onClick={() => exportReport(format)}
+                  disabled={exporting !== null}
+                >
+                  {exporting === format ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <FileText className="h-4 w-4 mr-2" />
+                  )}
+                  {REPORT_FORMAT_LABELS[format]}
+                </Button>
+              ))}
+              <Button variant="outline" onClick={downloadJSON}>
+                <Download className="h-4 w-4 mr-2" />
+                Download JSON
+              </Button>
+            </div>
           </div>
           {renderReportData()}
         </div>
       )}
+
+      {/* Generated Files */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="text-base">Generated Reports</CardTitle>
+          <Button variant="ghost" size="sm" onClick={fetchHistory} aria-label="Refresh reports">
+            <RefreshCw className={`h-4 w-4 ${hasReportsInProgress ? "animate-spin" : ""}`} />
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {historyLoading ? (
+            <p className="text-sm text-slate-500">Loading...</p>
+          ) : history.filter((r) => r.format !== "JSON").length === 0 ? (
+            <p className="text-sm text-slate-500">
+              No PDF, CSV or Excel reports yet. Generate a report above and export it.
+            </p>
+          ) : (
+            <div className="divide-y divide-slate-100">
+              {history
+                .filter((r) => r.format !== "JSON")
+                .map((report) => (
+                  <div key={report.id} className="flex items-center justify-between py-3">
+                    <div>
+                      <p className="font-medium text-slate-900">{report.title}</p>
+                      <p className="text-xs text-slate-500">
+                        {REPORT_FORMAT_LABELS[report.format]} &middot; requested{" "}
+                        {new Date(report.createdAt).toLocaleString("en-NZ")}
+                      </p>
+                      {report.status === "FAILED" && report.errorMessage && (
+                        <p className="text-xs text-red-600 mt-1">{report.errorMessage}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <ReportStatusBadge status={report.status} />
+                      {report.status === "COMPLETED" && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => downloadReport(report.id)}
+                        >
+                          <Download className="h-4 w-4 mr-2" />
+                          Download
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 }
 
+function ReportStatusBadge({ status }: { status: ReportStatus }) {
+  switch (status) {
+    case "COMPLETED":
+      return <Badge variant="success">Ready</Badge>;
+    case "FAILED":
+      return <Badge variant="destructive">Failed</Badge>;
+    case "GENERATING":
+      return <Badge variant="warning">Generating</Badge>;
+    default:
+      return <Badge variant="secondary">Queued</Badge>;
+  }
+}
+
 function StatCard({ label, value }: { label: string; value: string | number | undefined }) {
   return (
     <Card>
@@ -0,0 +1,853 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  Scale,
+  Plus,
+  Pencil,
+  Trash2,
+  Copy,
+  Eye,
+  Send,
+  Loader2,
+  ArrowUp,
+  ArrowDown,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { CERTIFICATION_TIER_LABELS } from "@/types";
+import type { CertificationTier } from "@/types";
+
+// --- Interfaces ---
+
+type UpgradeTier = "CERTIFIED" | "MASTER_ROOFER";
+
+interface TierRequirement {
+  minScore: number;
+  minVerifiedLbp: number;
+  allowCriticalIssues: boolean;
+}
+
+interface ScoringRules {
+  categoryWeights: {
+    documentation: number;
+    insurance: number;
+    personnel: number;
+    audit: number;
+  };
+  tiers: Record<UpgradeTier, TierRequirement>;
+  cpdShortfallPenalty: number;
+}
+
+interface ScoringPolicy {
+  id: string;
+  version: number;
+  name: string;
+  description: string | null;
+  status: "DRAFT" | "PUBLISHED";
+  rules: ScoringRules;
+  effectiveFrom: string | null;
+  publishedAt: string | null;
+  createdAt: string;
+}
+
+interface PolicyImpactPreview {
+  activePolicyVersion: number;
+  draftPolicyVersion: number;
+  organizationsEvaluated: number;
+  tierChanges: { total: number; upgrades: number; downgrades: number };
+  belowCertifiedTier: number;
+  averageScoreDelta: number;
+  changes: Array<{
+    organizationId: string;
+    organizationName: string;
+    certificationTier: CertificationTier;
+    currentScore: number;
+    draftScore: number;
+    currentQualifiedTier: CertificationTier;
+    draftQualifiedTier: CertificationTier;
+  }>;
+}
+
+interface FormData {
+  name: string;
+  description: string;
+  effectiveFrom: string;
+  weights: Record<keyof ScoringRules["categoryWeights"], string>;
+  tiers: Record<UpgradeTier, { minScore: string; minVerifiedLbp: string; allowCriticalIssues: boolean }>;
+  cpdShortfallPenalty: string;
+}
+
+const CATEGORY_LABELS: Record<keyof ScoringRules["categoryWeights"], string> = {
+  documentation: "Documentation",
+  insurance: "Insurance",
+  personnel: "Personnel",
+  audit: "Audit",
+};
+
+const UPGRADE_TIERS: UpgradeTier[] = ["CERTIFIED", "MASTER_ROOFER"];
+
+const TIER_RANK: Record<CertificationTier, number> = {
+  ACCREDITED: 0,
+  CERTIFIED: 1,
+  MASTER_ROOFER: 2,
+};
+
+function rulesToForm(
+  rules: ScoringRules,
+  base: Pick<FormData, "name" | "description" | "effectiveFrom">
+): FormData {
+  const tier = (t: TierRequirement) => ({
+    minScore: String(t.minScore),
+    minVerifiedLbp: String(t.minVerifiedLbp),
+    allowCriticalIssues: t.allowCriticalIssues,
+  });
+
+  return {
+    ...base,
+    weights: {
+      documentation: String(Math.round(rules.categoryWeights.documentation * 100)),
+      insurance: String(Math.round(rules.categoryWeights.insurance * 100)),
+      personnel: String(Math.round(rules.categoryWeights.personnel * 100)),
+      audit: String(Math.round(rules.categoryWeights.audit * 100)),
+    },
+    tiers: {
+      CERTIFIED: tier(rules.tiers.CERTIFIED),
+      MASTER_ROOFER: tier(rules.tiers.MASTER_ROOFER),
+    },
+    cpdShortfallPenalty: String(rules.cpdShortfallPenalty),
+  };
+}
+
+function formToRules(form: FormData): ScoringRules {
+  const tier = (t: FormData["tiers"][UpgradeTier]) => ({
+    minScore: parseInt(t.minScore, 10),
+    minVerifiedLbp: parseInt(t.minVerifiedLbp, 10),
+    allowCriticalIssues: t.allowCriticalIssues,
+  });
+
+  return {
+    categoryWeights: {
+      documentation: Number(form.weights.documentation) / 100,
+      insurance: Number(form.weights.insurance) / 100,
+      personnel: Number(form.weights.personnel) / 100,
+      audit: Number(form.weights.audit) / 100,
+    },
+    tiers: {
+      CERTIFIED: tier(form.tiers.CERTIFIED),
+      MASTER_ROOFER: tier(form.tiers.MASTER_ROOFER),
+    },
+    cpdShortfallPenalty: parseInt(form.cpdShortfallPenalty, 10),
+  };
+}
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleDateString("en-NZ") : "--";
+}
+
+export default function ScoringPoliciesPage() {
+  const [policies, setPolicies] = useState<ScoringPolicy[]>([]);
+  const [activeVersion, setActiveVersion] = useState<number>(0);
+  const [defaultRules, setDefaultRules] = useState<ScoringRules | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<FormData | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  // What-if preview state
+  const [previewPolicy, setPreviewPolicy] = useState<ScoringPolicy | null>(null);
+  const [preview, setPreview] = useState<PolicyImpactPreview | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+
+  async function fetchPolicies() {
+    try {
+      const response = await fetch("/api/admin/scoring-policies");
+      if (response.ok) {
+        const data = await response.json();
+        setPolicies(data.policies);
+        setActiveVersion(data.activeVersion);
+        setDefaultRules(data.defaultRules);
+      }
+    } catch (err) {
+      console.error("Failed to fetch scoring policies:", err);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    fetchPolicies();
+  }, []);
+
+  function showSuccess(msg: string) {
+    setSuccessMessage(msg);
+    setTimeout(() => setSuccessMessage(null), 3000);
+  }
+
+  function activeRules(): ScoringRules | null {
+    return (
+      policies.find((p) => p.version === activeVersion)?.rules ?? defaultRules
+    );
+  }
+
+  function openCreateForm(fromPolicy?: ScoringPolicy) {
+    const rules = fromPolicy?.rules ?? activeRules();
+    if (!rules) return;
+
+    setFormData(
+      rulesToForm(rules, {
+        name: fromPolicy ? `${fromPolicy.name} (copy)` : "",
+        description: "",
+        effectiveFrom: "",
+      })
+    );
+    setEditingId(null);
+    setShowForm(true);
+    setError(null);
+  }
+
+  function openEditForm(policy: ScoringPolicy) {
+    setFormData(
+      rulesToForm(policy.rules, {
+        name: policy.name,
+        description: policy.description || "",
+        effectiveFrom: policy.effectiveFrom?.slice(0, 10) || "",
+      })
+    );
+    setEditingId(policy.id);
+    setShowForm(true);
+    setError(null);
+  }
+
+  function cancelForm() {
+    setShowForm(false);
+    setEditingId(null);
+    setFormData(null);
+    setError(null);
+  }
+
+  async function handleSave() {
+    if (!formData) return;
+    setError(null);
+
+    if (formData.name.trim().length < 3) {
+      setError("Name must be at least 3 characters.");
+      return;
+    }
+
+    const rules = formToRules(formData);
+    const weightTotal = Object.values(formData.weights).reduce(
+      (sum, w) => sum + Number(w || 0),
+      0
+    );
+    if (weightTotal !== 100) {
+      setError(`Category weights must add up to 100% (currently ${weightTotal}%).`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const payload = {
+        name: formData.name.trim(),
+        description: formData.description.trim() || (editingId ? null : undefined),
+        effectiveFrom: formData.effectiveFrom || (editingId ? null : undefined),
+        rules,
+      };
+
+      const url = editingId
+        ? `/api/admin/scoring-policies/${editingId}`
+        : "/api/admin/scoring-policies";
+
+      const response = await fetch(url, {
+        method: editingId ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+
+      if (response.ok) {
+        showSuccess(editingId ? "Draft updated." : "Draft policy created.");
+        cancelForm();
+        await fetchPolicies();
+      } else {
+        const data = await response.json();
+        setError(
+          data.details?.[0]?.message || data.error || "Failed to save policy."
+        );
+      }
+    } catch (err) {
+      console.error("Failed to save scoring policy:", err);
+      setError("An error occurred. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete(policy: ScoringPolicy) {
+    const confirmed = window.confirm(
+      `Delete draft "${policy.name}" (v${policy.version})?\n\nThis action cannot be undone.`
+    );
+    if (!confirmed) return;
+
+    try {
+      const response = await fetch(`/api/admin/scoring-policies/${policy.id}`, {
+        method: "DELETE",
+      });
+
+      if (response.ok) {
+        showSuccess("Draft deleted.");
+        if (previewPolicy?.id === policy.id) {
+          setPreviewPolicy(null);
+          setPreview(null);
+        }
+        await fetchPolicies();
+      } else {
+        const data = await response.json();
+        window.alert(data.error || "Failed to delete policy.");
+      }
+    } catch (err) {
+      console.error("Failed to delete scoring policy:", err);
+      window.alert("An error occurred. Please try again.");
+    }
+  }
+
+  async function handlePublish(policy: ScoringPolicy) {
+    const when = policy.effectiveFrom
+      ? `from ${formatDate(policy.effectiveFrom)}`
+      : "immediately";
+    const confirmed = window.confirm(
+      `Publish "${policy.name}" (v${policy.version}) ${when}?\n\nPublished policies cannot be edited.`
+    );
+    if (!confirmed) return;
+
+    try {
+      const response = await fetch(
+        `/api/admin/scoring-policies/${policy.id}/publish`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({}),
+        }
+      );
+
+      if (response.ok) {
+        const result = await response.json();
+        showSuccess(
+          result.effectiveNow
+            ? `Version ${policy.version} is now active. Scores update on next recalculation.`
+            : `Version ${policy.version} published and takes effect ${formatDate(result.effectiveFrom)}.`
+        );
+        await fetchPolicies();
+      } else {
+        const data = await response.json();
+        window.alert(data.error || "Failed to publish policy.");
+      }
+    } catch (err) {
+      console.error("Failed to publish scoring policy:", err);
+      window.alert("An error occurred. Please try again.");
+    }
+  }
+
+  async function handlePreview(policy: ScoringPolicy) {
+    setPreviewPolicy(policy);
+    setPreview(null);
+    setPreviewLoading(true);
+    try {
+      const response = await fetch(
+        `/api/admin/scoring-policies/${policy.id}/preview`
+      );
+      if (response.ok) {
+        setPreview(await response.json());
+      } else {
+        const data = await response.json();
+        window.alert(data.error || "Failed to run preview.");
+        setPreviewPolicy(null);
+      }
+    } catch (err) {
+      console.error("Failed to preview scoring policy:", err);
+      setPreviewPolicy(null);
+    } finally {
+      setPreviewLoading(false);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-slate-200 rounded w-1/4" />
+          <div className="h-12 bg-slate-200 rounded" />
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-16 bg-slate-200 rounded" />
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Scale className="h-6 w-6 text-blue-600" />
+          <div>
+            <h1 className="text-2xl font-bold text-slate-900">
+              Scoring Policy
+            </h1>
+            <p className="text-slate-500">
+              Active version:{" "}
+              {activeVersion === 0 ? "built-in defaults" : `v${activeVersion}`}
+            </p>
+          </div>
+        </div>
+        {!showForm && (
+          <Button onClick={() => openCreateForm()}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Draft
+          </Button>
+        )}
+      </div>
+
+      {successMessage && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-green-800 text-sm">
+          {successMessage}
+        </div>
+      )}
+
+      {/* Draft form */}
+      {showForm && formData && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{editingId ? "Edit Draft" : "New Draft Policy"}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-6">
+              {error && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-800 text-sm">
+                  {error}
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">
+                    Name *
+                  </label>
+                  <Input
+                    value={formData.name}
+                    onChange={(e) =>
+                      setFormData({ ...formData, name: e.target.value })
+                    }
+                    placeholder="e.g., 2027 board review"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">
+                    Effective From
+                  </label>
+                  <Input
+                    type="date"
+                    value={formData.effectiveFrom}
+                    onChange={(e) =>
+                      setFormData({ ...formData, effectiveFrom: e.target.value })
+                    }
+                  />
+                  <p className="text-xs text-slate-400 mt-1">
+                    Leave blank to take effect when published.
+                  </p>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">
+                  Description
+                </label>
+                <textarea
+                  value={formData.description}
+                  onChange={(e) =>
+                    setFormData({ ...formData, description: e.target.value })
+                  }
+                  placeholder="Board resolution or rationale for the change"
+                  rows={2}
+                  className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none"
+                />
+              </div>
+
+              <div>
+                <h3 className="text-sm font-semibold text-slate-900 mb-2">
+                  Category Weights (%)
+                </h3>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  {(Object.keys(CATEGORY_LABELS) as Array<keyof typeof CATEGORY_LABELS>).map(
+                    (category) => (
+                      <div key={category}>
+                        <label className="block text-xs text-slate-500 mb-1">
+                          {CATEGORY_LABELS[category]}
+                        </label>
+                        <Input
+                          type="number"
+                          min={0}
+                          max={100}
+                          value={formData.weights[category]}
+                          onChange={(e) =>
+                            setFormData({
+                              ...formData,
+                              weights: {
+                                ...formData.weights,
+                                [category]: e.target.value,
+                              },
+                            })
+                          }
+                        />
+                      </div>
+                    )
+                  )}
+                </div>
+              </div>
+
+              <div>
+                <h3 className="text-sm font-semibold text-slate-900 mb-2">
+                  Tier Requirements
+                </h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {UPGRADE_TIERS.map((tier) => (
+                    <div
+                      key={tier}
+                      className="rounded-lg border border-slate-200 p-4 space-y-3"
+                    >
+                      <p className="text-sm font-medium text-slate-800">
+                        {CERTIFICATION_TIER_LABELS[tier]}
+                      </p>
+                      <div className="grid grid-cols-2 gap-3">
+                        <div>
+                          <label className="block text-xs text-slate-500 mb-1">
+                            Minimum score (%)
+                          </label>
+                          <Input
+                            type="number"
+                            min={0}
+                            max={100}
+                            value={formData.tiers[tier].minScore}
+                            onChange={(e) =>
+                              setFormData({
+                                ...formData,
+                                tiers: {
+                                  ...formData.tiers,
+                                  [tier]: {
+                                    ...formData.tiers[tier],
+                                    minScore: e.target.value,
+                                  },
+                                },
+                              })
+                            }
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs text-slate-500 mb-1">
+                            Verified LBP holders
+                          </label>
+                          <Input
+                            type="number"
+                            min={0}
+                            value={formData.tiers[tier].minVerifiedLbp}
+                            onChange={(e) =>
+                              setFormData({
+                                ...formData,
+                                tiers: {
+                                  ...formData.tiers,
+                                  [tier]: {
+                                    ...formData.tiers[tier],
+                                    minVerifiedLbp: e.target.value,
+                                  },
+                                },
+                              })
+                            }
+                          />
+                        </div>
+                      </div>
+                      <label className="flex items-center gap-2 text-sm text-slate-600">
+                        <input
+                          type="checkbox"
+                          checked={formData.tiers[tier].allowCriticalIssues}
+                          onChange={(e) =>
+                            setFormData({
+                              ...formData,
+                              tiers: {
+                                ...formData.tiers,
+                                [tier]: {
+                                  ...formData.tiers[tier],
+                                  allowCriticalIssues: e.target.checked,
+                                },
+                              },
+                            })
+                          }
+                        />
+                        Allow open critical issues
+                      </label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <h3 className="text-sm font-semibold text-slate-900 mb-2">
+                  Penalties
+                </h3>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div>
+                    <label className="block text-xs text-slate-500 mb-1">
+                      CPD shortfall (personnel points)
+                    </label>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={formData.cpdShortfallPenalty}
+                      onChange={(e) =>
+                        setFormData({ ...formData, cpdShortfallPenalty: e.target.value })
+                      }
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-slate-400 mt-1">
+                  Deducted when any LBP holder missed their last CPD cycle. Who
+                  falls short depends on the CPD requirements at /admin/cpd,
+                  which are not versioned here.
+                </p>
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={cancelForm} disabled={saving}>
+                  Cancel
+                </Button>
+                <Button onClick={handleSave} disabled={saving}>
+                  {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  {editingId ? "Save Draft" : "Create Draft"}
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Policy versions */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Versions</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {policies.length === 0 ? (
+            <p className="text-sm text-slate-500 py-4 text-center">
+              No scoring policies yet. Scores use the built-in defaults
+              (50/25/15/10, Certified 70%, Master Roofer 90%).
+            </p>
+          ) : (
+            <div className="divide-y">
+              {policies.map((policy) => {
+                const weights = policy.rules.categoryWeights;
+                return (
+                  <div
+                    key={policy.id}
+                    className="py-3 flex items-start justify-between gap-4"
+                  >
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-mono text-sm text-slate-500">
+                          v{policy.version}
+                        </span>
+                        <span className="font-medium text-slate-900">
+                          {policy.name}
+                        </span>
+                        {policy.version === activeVersion ? (
+                          <Badge className="bg-green-100 text-green-700">
+                            Active
+                          </Badge>
+                        ) : policy.status === "DRAFT" ? (
+                          <Badge variant="outline">Draft</Badge>
+                        ) : (
+                          <Badge className="bg-slate-100 text-slate-700">
+                            Published
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-slate-500 mt-1">
+                        Weights{" "}
+                        {[weights.documentation, weights.insurance, weights.personnel, weights.audit]
+                          .map((w) => Math.round(w * 100))
+                          .join("/")}
+                        {" · "}Certified {policy.rules.tiers.CERTIFIED.minScore}%
+                        {" · "}Master Roofer{" "}
+                        {policy.rules.tiers.MASTER_ROOFER.minScore}% (
+                        {policy.rules.tiers.MASTER_ROOFER.minVerifiedLbp}+ LBP)
+                        {" · "}Effective {formatDate(policy.effectiveFrom)}
+                      </p>
+                      {policy.description && (
+                        <p className="text-xs text-slate-400 mt-0.5">
+                          {policy.description}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handlePreview(policy)}
+                        title="What-if preview"
+                      >
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => openCreateForm(policy)}
+                        title="New draft from this version"
+                      >
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      {policy.status === "DRAFT" && (
+                        <>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => openEditForm(policy)}
+                            title="Edit draft"
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDelete(policy)}
+                            title="Delete draft"
+                          >
+                            <Trash2 className="h-4 w-4 text-red-500" />
+                          </Button>
+                          <Button size="sm" onClick={() => handlePublish(policy)}>
+                            <Send className="h-4 w-4 mr-1" />
+                            Publish
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* What-if preview */}
+      {previewPolicy && (
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              What-if: v{previewPolicy.version} vs active{" "}
+              {activeVersion === 0 ? "defaults" : `v${activeVersion}`}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {previewLoading || !preview ? (
+              <div className="flex items-center gap-2 text-sm text-slate-500 py-6 justify-center">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Scoring all organisations...
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div className="rounded-lg bg-slate-50 p-3">
+                    <p className="text-xs text-slate-500">Organisations</p>
+                    <p className="text-xl font-semibold">
+                      {preview.organizationsEvaluated}
+                    </p>
+                  </div>
+                  <div className="rounded-lg bg-slate-50 p-3">
+                    <p className="text-xs text-slate-500">Would change tier</p>
+                    <p className="text-xl font-semibold">
+                      {preview.tierChanges.total}
+                      <span className="text-xs font-normal text-slate-500 ml-2">
+                        {preview.tierChanges.upgrades} up /{" "}
+                        {preview.tierChanges.downgrades} down
+                      </span>
+                    </p>
+                  </div>
+                  <div className="rounded-lg bg-slate-50 p-3">
+                    <p className="text-xs text-slate-500">
+                      Below certified tier
+                    </p>
+                    <p className="text-xl font-semibold text-red-600">
+                      {preview.belowCertifiedTier}
+                    </p>
+                  </div>
+                  <div className="rounded-lg bg-slate-50 p-3">
+                    <p className="text-xs text-slate-500">Avg score change</p>
+                    <p className="text-xl font-semibold">
+                      {preview.averageScoreDelta > 0 ? "+" : ""}
+                      {preview.averageScoreDelta}
+                    </p>
+                  </div>
+                </div>
+
+                {preview.changes.length === 0 ? (
+                  <p className="text-sm text-slate-500 text-center py-2">
+                    No organisation would qualify for a different tier.
+                  </p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-xs text-slate-500 border-b">
+                          <th className="py-2 pr-4">Organisation</th>
+                          <th className="py-2 pr-4">Certified Tier</th>
+                          <th className="py-2 pr-4">Score</th>
+                          <th className="py-2 pr-4">Qualifies For</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y">
+                        {preview.changes.map((row) => {
+                          const upgrade =
+                            TIER_RANK[row.draftQualifiedTier] >
+                            TIER_RANK[row.currentQualifiedTier];
+                          return (
+                            <tr key={row.organizationId}>
+                              <td className="py-2 pr-4">{row.organizationName}</td>
+                              <td className="py-2 pr-4">
+                                {CERTIFICATION_TIER_LABELS[row.certificationTier]}
+                              </td>
+                              <td className="py-2 pr-4">
+                                {row.currentScore}% → {row.draftScore}%
+                              </td>
+                              <td className="py-2 pr-4">
+                                <span className="inline-flex items-center gap-1">
+                                  {CERTIFICATION_TIER_LABELS[row.currentQualifiedTier]}
+                                  {" → "}
+                                  {CERTIFICATION_TIER_LABELS[row.draftQualifiedTier]}
+                                  {upgrade ? (
+                                    <ArrowUp className="h-3.5 w-3.5 text-green-600" />
+                                  ) : (
+                                    <ArrowDown className="h-3.5 w-3.5 text-red-600" />
+                                  )}
+                                </span>
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,722 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  Webhook,
+  Plus,
+  Trash2,
+  KeyRound,
+  RotateCw,
+  ChevronDown,
+  ChevronRight,
+  Loader2,
+  Copy,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+
+// --- Interfaces ---
+
+type WebhookEventType =
+  | "TIER_CHANGED"
+  | "INSURANCE_LAPSED"
+  | "LBP_STATUS_CHANGED"
+  | "AUDIT_COMPLETED";
+
+type DeliveryStatus = "PENDING" | "SUCCEEDED" | "FAILED";
+
+interface WebhookEndpoint {
+  id: string;
+  name: string;
+  url: string;
+  description: string | null;
+  secret: string; // Masked
+  eventTypes: WebhookEventType[];
+  organizationIds: string[];
+  enabled: boolean;
+  createdAt: string;
+  deliveryCounts: Record<DeliveryStatus, number>;
+}
+
+interface DeliveryAttempt {
+  id: string;
+  attemptNumber: number;
+  manual: boolean;
+  responseStatus: number | null;
+  error: string | null;
+  durationMs: number;
+  attemptedAt: string;
+}
+
+interface WebhookDelivery {
+  id: string;
+  status: DeliveryStatus;
+  attemptCount: number;
+  nextAttemptAt: string | null;
+  lastAttemptAt: string | null;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  deliveredAt: string | null;
+  createdAt: string;
+  event: {
+    id: string;
+    type: WebhookEventType;
+    organizationId: string | null;
+    data: Record<string, unknown>;
+  };
+  attempts: DeliveryAttempt[];
+}
+
+interface FormData {
+  name: string;
+  url: string;
+  description: string;
+  eventTypes: WebhookEventType[];
+  organizationIds: string;
+}
+
+const EVENT_TYPE_LABELS: Record<WebhookEventType, string> = {
+  TIER_CHANGED: "Certification tier changed",
+  INSURANCE_LAPSED: "Insurance lapsed",
+  LBP_STATUS_CHANGED: "LBP suspended / cancelled",
+  AUDIT_COMPLETED: "Audit completed",
+};
+
+const STATUS_STYLES: Record<DeliveryStatus, string> = {
+  PENDING: "bg-amber-100 text-amber-800",
+  SUCCEEDED: "bg-green-100 text-green-800",
+  FAILED: "bg-red-100 text-red-800",
+};
+
+const EMPTY_FORM: FormData = {
+  name: "",
+  url: "",
+  description: "",
+  eventTypes: [],
+  organizationIds: "",
+};
+
+function formatDateTime(value: string | null): string {
+  return value ? new Date(value).toLocaleString("en-NZ") : "--";
+}
+
+export default function WebhooksPage() {
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState<FormData>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  // Full secret, shown once after creation or rotation
+  const [revealedSecret, setRevealedSecret] = useState<{ endpointId: string; secret: string } | null>(null);
+
+  // Delivery log state
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [deliveriesLoading, setDeliveriesLoading] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<DeliveryStatus | "">("");
+  const [expandedDelivery, setExpandedDelivery] = useState<string | null>(null);
+  const [redeliveringId, setRedeliveringId] = useState<string | null>(null);
+
+  async function fetchEndpoints() {
+    try {
+      const response = await fetch("/api/admin/webhooks");
+      if (response.ok) {
+        const data = await response.json();
+        setEndpoints(data.endpoints);
+      }
+    } catch (err) {
+      console.error("Failed to fetch webhook endpoints:", err);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function fetchDeliveries(endpointId: string, status: DeliveryStatus | "") {
+    setDeliveriesLoading(true);
+    try {
+      const query = status ? `?status=${status}` : "";
+      const response = await fetch(`/api/admin/webhooks/${endpointId}/deliveries${query}`);
+      if (response.ok) {
+        const data = await response.json();
+        setDeliveries(data.deliveries);
+      }
+    } catch (err) {
+      console.error("Failed to fetch webhook deliveries:", err);
+    } finally {
+      setDeliveriesLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    fetchEndpoints();
+  }, []);
+
+  function showSuccess(msg: string) {
+    setSuccessMessage(msg);
+    setTimeout(() => setSuccessMessage(null), 3000);
+  }
+
+  function toggleEventType(type: WebhookEventType) {
+    setFormData({
+      ...formData,
+      eventTypes: formData.eventTypes.includes(type)
+        ? formData.eventTypes.filter((t) => t !== type)
+        : [...formData.eventTypes, type],
+    });
+  }
+
+  function cancelForm() {
+    setShowForm(false);
+    setFormData(EMPTY_FORM);
+    setError(null);
+  }
+
+  async function handleCreate() {
+    setError(null);
+
+    if (formData.name.trim().length < 3) {
+      setError("Name must be at least 3 characters.");
+      return;
+    }
+    if (!formData.url.startsWith("https://")) {
+      setError("Webhook URLs must use HTTPS.");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch("/api/admin/webhooks", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: formData.name.trim(),
+          url: formData.url.trim(),
+          description: formData.description.trim() || undefined,
+          eventTypes: formData.eventTypes,
+          organizationIds: formData.organizationIds
+            .split(/[\s,]+/)
+            .filter(Boolean),
+        }),
+      });
+
+      if (response.ok) {
+        const endpoint = await response.json();
+        setRevealedSecret({ endpointId: endpoint.id, secret: endpoint.secret });
+        showSuccess("Endpoint created.");
+        cancelForm();
+        await fetchEndpoints();
+      } else {
+        const data = await response.json();
+        setError(data.details?.[0]?.message || data.error || "Failed to create endpoint.");
+      }
+    } catch (err) {
+      console.error("Failed to create webhook endpoint:", err);
+      setError("An error occurred. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleToggleEnabled(endpoint: WebhookEndpoint) {
+    try {
+      const response = await fetch(`/api/admin/webhooks/${endpoint.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ enabled: !endpoint.enabled }),
+      });
+
+      if (response.ok) {
+        showSuccess(endpoint.enabled ? "Endpoint disabled." : "Endpoint enabled.");
+        await fetchEndpoints();
+      } else {
+        const data = await response.json();
+        window.alert(data.error || "Failed to update endpoint.");
+      }
+    } catch (err) {
+      console.error("Failed to update webhook endpoint:", err);
+      window.alert("An error occurred. Please try again.");
+    }
+  }
+
+  async function handleRotateSecret(endpoint: WebhookEndpoint) {
+    const confirmed = window.confirm(
+      `Rotate the signing secret for "${endpoint.name}"?\n\nThe receiver must be updated with the new secret; deliveries are signed with it immediately.`
+    );
+    if (!confirmed) return;
+
+    try {
+      const response = await fetch(`/api/admin/webhooks/${endpoint.id}/rotate-secret`, {
+        method: "POST",
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setRevealedSecret({ endpointId: endpoint.id, secret: data.secret });
+        await fetchEndpoints();
+      } else {
+        const data = await response.json();
+        window.alert(data.error || "Failed to rotate secret.");
+      }
+    } catch (err) {
+      console.error("Failed to rotate webhook secret:", err);
+      window.alert("An error occurred. Please try again.");
+    }
+  }
+
+  async function handleDelete(endpoint: WebhookEndpoint) {
+    const confirmed = window.confirm(
+      `Delete endpoint "${endpoint.name}"?\n\nIts delivery log is deleted too. This action cannot be undone.`
+    );
+    if (!confirmed) return;
+
+    try {
+      const response = await fetch(`/api/admin/webhooks/${endpoint.id}`, {
+        method: "DELETE",
+      });
+
+      if (response.ok) {
+        showSuccess("Endpoint deleted.");
+        if (selectedId === endpoint.id) {
+          setSelectedId(null);
+          setDeliveries([]);
+        }
+        await fetchEndpoints();
+      } else {
+        const data = await response.json();
+        window.alert(data.error || "Failed to delete endpoint.");
+      }
+    } catch (err) {
+      console.error("Failed to delete webhook endpoint:", err);
+      window.alert("An error occurred. Please try again.");
+    }
+  }
+
+  function selectEndpoint(endpointId: string) {
+    setSelectedId(endpointId);
+    setStatusFilter("");
+    setExpandedDelivery(null);
+    fetchDeliveries(endpointId, "");
+  }
+
+  function changeStatusFilter(status: DeliveryStatus | "") {
+    if (!selectedId) return;
+    setStatusFilter(status);
+    fetchDeliveries(selectedId, status);
+  }
+
+  async function handleRedeliver(delivery: WebhookDelivery) {
+    if (!selectedId) return;
+    setRedeliveringId(delivery.id);
+    try {
+      const response = await fetch(
+        `/api/admin/webhooks/${selectedId}/deliveries/${delivery.id}/redeliver`,
+        { method: "POST" }
+      );
+
+      if (response.ok) {
+        const result = await response.json();
+        if (result.success) {
+          showSuccess("Delivered successfully.");
+        } else {
+          window.alert(`Redelivery failed: ${result.error}`);
+        }
+        await Promise.all([fetchDeliveries(selectedId, statusFilter), fetchEndpoints()]);
+      } else {
+        const data = await response.json();
+        window.alert(data.error || "Failed to redeliver.");
+      }
+    } catch (err) {
+      console.error("Failed to redeliver webhook:", err);
+      window.alert("An error occurred. Please try again.");
+    } finally {
+      setRedeliveringId(null);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-slate-200 rounded w-1/4" />
+          <div className="h-12 bg-slate-200 rounded" />
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-16 bg-slate-200 rounded" />
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const selectedEndpoint = endpoints.find((e) => e.id === selectedId);
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Webhook className="h-6 w-6 text-blue-600" />
+          <div>
+            <h1 className="text-2xl font-bold text-slate-900">Webhooks</h1>
+            <p className="text-slate-500">
+              Push compliance and certification events to external systems
+            </p>
+          </div>
+        </div>
+        {!showForm && (
+          <Button onClick={() => setShowForm(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Endpoint
+          </Button>
+        )}
+      </div>
+
+      {successMessage && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-green-800 text-sm">
+          {successMessage}
+        </div>
+      )}
+
+      {revealedSecret && (
+        <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg space-y-2">
+          <p className="text-sm font-medium text-amber-900">
+            Signing secret for{" "}
+            {endpoints.find((e) => e.id === revealedSecret.endpointId)?.name ?? "endpoint"}
+            {" "}- copy it now, it will not be shown again.
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 rounded bg-white border border-amber-200 px-3 py-2 text-xs font-mono break-all">
+              {revealedSecret.secret}
+            </code>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => navigator.clipboard.writeText(revealedSecret.secret)}
+            >
+              <Copy className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setRevealedSecret(null)}>
+              Done
+            </Button>
+          </div>
+          <p className="text-xs text-amber-800">
+            Verify the X-RANZ-Signature header: HMAC-SHA256 of
+            {" "}<code>{"<t>.<raw body>"}</code> with this secret must equal v1.
+          </p>
+        </div>
+      )}
+
+      {/* Create form */}
+      {showForm && (
+        <Card>
+          <CardHeader>
+            <CardTitle>New Endpoint</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-6">
+              {error && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-800 text-sm">
+                  {error}
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">
+                    Name *
+                  </label>
+                  <Input
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    placeholder="e.g., Insurer partner portal"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">
+                    URL *
+                  </label>
+                  <Input
+                    value={formData.url}
+                    onChange={(e) => setFormData({ ...formData, url: e.target.value })}
+                    placeholder="https://"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">
+                  Description
+                </label>
+                <textarea
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  placeholder="Who owns this receiver and what it is used for"
+                  rows={2}
+                  className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none"
+                />
+              </div>
+
+              <div>
+                <h3 className="text-sm font-semibold text-slate-900 mb-2">Events</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  {(Object.keys(EVENT_TYPE_LABELS) as WebhookEventType[]).map((type) => (
+                    <label key={type} className="flex items-center gap-2 text-sm text-slate-700">
+                      <input
+                        type="checkbox"
+                        checked={formData.eventTypes.includes(type)}
+                        onChange={() => toggleEventType(type)}
+                      />
+                      {EVENT_TYPE_LABELS[type]}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-slate-400 mt-1">
+                  Leave all unchecked to receive every event type.
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">
+                  Organization IDs
+                </label>
+                <Input
+                  value={formData.organizationIds}
+                  onChange={(e) => setFormData({ ...formData, organizationIds: e.target.value })}
+                  placeholder="Comma separated; blank for all organizations"
+                />
+              </div>
+
+              <div className="flex gap-2">
+                <Button onClick={handleCreate} disabled={saving}>
+                  {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Create Endpoint
+                </Button>
+                <Button variant="outline" onClick={cancelForm} disabled={saving}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Endpoints */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Endpoints</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {endpoints.length === 0 ? (
+            <p className="text-sm text-slate-500">No webhook endpoints registered.</p>
+          ) : (
+            <div className="divide-y divide-slate-100">
+              {endpoints.map((endpoint) => (
+                <div key={endpoint.id} className="py-4 first:pt-0 last:pb-0">
+                  <div className="flex flex-wrap items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <p className="font-medium text-slate-900">{endpoint.name}</p>
+                        <Badge
+                          className={
+                            endpoint.enabled
+                              ? "bg-green-100 text-green-800"
+                              : "bg-slate-100 text-slate-600"
+                          }
+                        >
+                          {endpoint.enabled ? "Enabled" : "Disabled"}
+                        </Badge>
+                      </div>
+                      <p className="text-sm text-slate-500 font-mono break-all">{endpoint.url}</p>
+                      <p className="text-xs text-slate-500 mt-1">
+                        {endpoint.eventTypes.length === 0
+                          ? "All events"
+                          : endpoint.eventTypes.map((t) => EVENT_TYPE_LABELS[t]).join(", ")}
+                        {" · "}
+                        {endpoint.organizationIds.length === 0
+                          ? "All organizations"
+                          : `${endpoint.organizationIds.length} organization(s)`}
+                        {" · "}Secret {endpoint.secret}
+                      </p>
+                      <p className="text-xs text-slate-500 mt-1">
+                        {endpoint.deliveryCounts.SUCCEEDED} delivered,{" "}
+                        {endpoint.deliveryCounts.PENDING} pending,{" "}
+                        {endpoint.deliveryCounts.FAILED} failed
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant={selectedId === endpoint.id ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => selectEndpoint(endpoint.id)}
+                      >
+                        Deliveries
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => handleToggleEnabled(endpoint)}>
+                        {endpoint.enabled ? "Disable" : "Enable"}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Rotate secret"
+                        onClick={() => handleRotateSecret(endpoint)}
+                      >
+                        <KeyRound className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Delete"
+                        onClick={() => handleDelete(endpoint)}
+                      >
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Delivery log */}
+      {selectedEndpoint && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>Deliveries - {selectedEndpoint.name}</CardTitle>
+              <select
+                value={statusFilter}
+                onChange={(e) => changeStatusFilter(e.target.value as DeliveryStatus | "")}
+                className="rounded-md border border-slate-300 px-2 py-1 text-sm"
+              >
+                <option value="">All statuses</option>
+                <option value="PENDING">Pending</option>
+                <option value="SUCCEEDED">Succeeded</option>
+                <option value="FAILED">Failed</option>
+              </select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {deliveriesLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-slate-400" />
+              </div>
+            ) : deliveries.length === 0 ? (
+              <p className="text-sm text-slate-500">No deliveries yet.</p>
+            ) : (
+              <div className="divide-y divide-slate-100">
+                {deliveries.map((delivery) => {
+                  const expanded = expandedDelivery === delivery.id;
+                  return (
+                    <div key={delivery.id} className="py-3">
+                      <div className="flex flex-wrap items-center justify-between gap-3">
+                        <button
+                          type="button"
+                          className="flex items-center gap-2 text-left"
+                          onClick={() => setExpandedDelivery(expanded ? null : delivery.id)}
+                        >
+                          {expanded ? (
+                            <ChevronDown className="h-4 w-4 text-slate-400" />
+                          ) : (
+                            <ChevronRight className="h-4 w-4 text-slate-400" />
+                          )}
+                          <Badge className={STATUS_STYLES[delivery.status]}>{delivery.status}</Badge>
+                          <span className="text-sm font-medium text-slate-800">
+                            {EVENT_TYPE_LABELS[delivery.event.type]}
+                          </span>
+                          <span className="text-xs text-slate-500">
+                            {formatDateTime(delivery.createdAt)}
+                          </span>
+                        </button>
+                        <div className="flex items-center gap-3 text-xs text-slate-500">
+                          <span>
+                            {delivery.attemptCount} attempt{delivery.attemptCount === 1 ? "" : "s"}
+                            {delivery.responseStatus !== null && ` · HTTP ${delivery.responseStatus}`}
+                          </span>
+                          {delivery.status === "PENDING" && delivery.nextAttemptAt && (
+                            <span>Next: {formatDateTime(delivery.nextAttemptAt)}</span>
+                          )}
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={redeliveringId === delivery.id}
+                            onClick={() => handleRedeliver(delivery)}
+                          >
+                            {redeliveringId === delivery.id ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              <RotateCw className="h-4 w-4 mr-1" />
+                            )}
+                            Redeliver
+                          </Button>
+                        </div>
+                      </div>
+
+                      {expanded && (
+                        <div className="mt-3 ml-6 space-y-3">
+                          {delivery.error && (
+                            <p className="text-sm text-red-700">{delivery.error}</p>
+                          )}
+                          <div>
+                            <p className="text-xs font-medium text-slate-600 mb-1">
+                              Event {delivery.event.id}
+                            </p>
+                            <pre className="rounded bg-slate-50 border border-slate-200 p-3 text-xs overflow-x-auto">
+                              {JSON.stringify(delivery.event.data, null, 2)}
+                            </pre>
+                          </div>
+                          {delivery.responseBody && (
+                            <div>
+                              <p className="text-xs font-medium text-slate-600 mb-1">
+                                Last response
+                              </p>
+                              <pre className="rounded bg-slate-50 border border-slate-200 p-3 text-xs overflow-x-auto whitespace-pre-wrap">
+                                {delivery.responseBody}
+                              </pre>
+                            </div>
+                          )}
+                          <table className="w-full text-xs">
+                            <thead>
+                              <tr className="text-left text-slate-500">
+                                <th className="py-1">#</th>
+                                <th className="py-1">Time</th>
+                                <th className="py-1">Result</th>
+                                <th className="py-1">Duration</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {delivery.attempts.map((attempt) => (
+                                <tr key={attempt.id} className="border-t border-slate-100">
+                                  <td className="py-1">
+                                    {attempt.attemptNumber}
+                                    {attempt.manual && " (manual)"}
+                                  </td>
+                                  <td className="py-1">{formatDateTime(attempt.attemptedAt)}</td>
+                                  <td className="py-1">
+                                    {attempt.error ?? `HTTP ${attempt.responseStatus}`}
+                                  </td>
+                                  <td className="py-1">{attempt.durationMs} ms</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
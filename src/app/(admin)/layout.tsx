@@ -19,6 +19,11 @@ import {
   Award,
   GraduationCap,
   ClipboardList,
+  Scale,
+  ListChecks,
+  Webhook,
+  BookOpen,
+  UserCheck,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 
@@ -32,10 +37,15 @@ const navigation = [
   { name: "Programme", href: "/admin/programme", icon: Award },
   { name: "Micro-credentials", href: "/admin/micro-credentials", icon: GraduationCap },
   { name: "Checklists", href: "/admin/checklists", icon: ClipboardList },
+  { name: "Scoring", href: "/admin/scoring", icon: Scale },
+  { name: "Questions", href: "/admin/questions", icon: ListChecks },
+  { name: "CPD", href: "/admin/cpd", icon: BookOpen },
   { name: "Audits", href: "/admin/audits", icon: ClipboardCheck },
+  { name: "Auditors", href: "/admin/auditors", icon: UserCheck },
   { name: "Reports", href: "/admin/reports", icon: BarChart3 },
   { name: "Audit Logs", href: "/admin/audit-logs", icon: FileText },
   { name: "Activity", href: "/admin/activity", icon: Activity },
+  { name: "Webhooks", href: "/admin/webhooks", icon: Webhook },
 ];
 
 export default function AdminLayout({
@@ -0,0 +1,375 @@
+"use client";
+
+import { useCallback, useEffect, useState, useSyncExternalStore } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import {
+  ArrowLeft,
+  ChevronLeft,
+  ChevronRight,
+  Cloud,
+  CloudOff,
+  Loader2,
+  RefreshCw,
+} from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { QuestionCard } from "@/components/auditor/question-card";
+import { cn } from "@/lib/utils";
+import { AUDIT_STATUS_LABELS, AUDIT_TYPE_LABELS, ISO_ELEMENT_LABELS } from "@/types";
+import type { ISOElement } from "@prisma/client";
+import type { SyncedField } from "@/lib/audit-sync";
+import type { AuditPack, AuditPackQuestion } from "@/lib/auditor-workspace";
+import {
+  addPhoto,
+  deletePhoto,
+  draftKey,
+  getDrafts,
+  getPack,
+  getPhotos,
+  recordFieldChange,
+  resolveConflict,
+  savePack,
+  syncAudit,
+  type AuditDraft,
+  type OfflinePhoto,
+} from "@/lib/offline-audit";
+
+function subscribeOnline(callback: () => void) {
+  window.addEventListener("online", callback);
+  window.addEventListener("offline", callback);
+  return () => {
+    window.removeEventListener("online", callback);
+    window.removeEventListener("offline", callback);
+  };
+}
+
+function byKey(drafts: AuditDraft[]): Record<string, AuditDraft> {
+  return Object.fromEntries(drafts.map((draft) => [draft.key, draft]));
+}
+
+export default function AuditWorkspacePage() {
+  const { id } = useParams<{ id: string }>();
+  const online = useSyncExternalStore(
+    subscribeOnline,
+    () => navigator.onLine,
+    () => true
+  );
+
+  const [pack, setPack] = useState<AuditPack | null>(null);
+  const [drafts, setDrafts] = useState<Record<string, AuditDraft>>({});
+  const [photos, setPhotos] = useState<OfflinePhoto[]>([]);
+  const [elementIndex, setElementIndex] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [syncing, setSyncing] = useState(false);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(
+    null
+  );
+
+  const runSync = useCallback(async () => {
+    setSyncing(true);
+    setMessage(null);
+
+    try {
+      const summary = await syncAudit(id);
+      setPack(summary.pack);
+      setDrafts(byKey(await getDrafts(id)));
+      setPhotos(await getPhotos(id));
+      setMessage(
+        summary.notFound > 0
+          ? {
+              type: "error",
+              text: `${summary.notFound} answer(s) could not be saved because the question is not on this audit's checklist. They are kept on this device.`,
+            }
+          : summary.conflicts > 0
+            ? {
+                type: "error",
+                text: `${summary.conflicts} question(s) were changed by someone else. Review the highlighted questions.`,
+              }
+            : { type: "success", text: "All changes synced." }
+      );
+    } catch (err) {
+      console.error("Failed to sync audit:", err);
+      setMessage({
+        type: "error",
+        text: err instanceof Error ? err.message : "Sync failed. Your changes are saved on this device.",
+      });
+    } finally {
+      setSyncing(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    async function load() {
+      try {
+        const response = await fetch(`/api/auditor/audits/${id}`);
+        if (response.ok) {
+          const data: AuditPack = await response.json();
+          await savePack(data);
+          setPack(data);
+        } else {
+          setPack(await getPack(id));
+        }
+      } catch {
+        // Offline - fall back to the copy saved on this device
+        setPack(await getPack(id));
+      }
+
+      setDrafts(byKey(await getDrafts(id)));
+      setPhotos(await getPhotos(id));
+      setLoading(false);
+    }
+    load();
+  }, [id]);
+
+  // Push offline work as soon as the connection comes back
+  useEffect(() => {
+    function handleOnline() {
+      runSync();
+    }
+    window.addEventListener("online", handleOnline);
+    return () => window.removeEventListener("online", handleOnline);
+  }, [runSync]);
+
+  async function handleFieldChange(
+    element: ISOElement,
+    question: AuditPackQuestion,
+    field: SyncedField,
+    value: string | null
+  ) {
+    const key = draftKey(id, element, question.questionNumber);
+    const next = await recordFieldChange(
+      drafts[key],
+      id,
+      element,
+      question.questionNumber,
+      field,
+      value,
+      question
+    );
+
+    setDrafts((prev) => {
+      const updated = { ...prev };
+      if (next) updated[key] = next;
+      else delete updated[key];
+      return updated;
+    });
+  }
+
+  async function handleResolve(draft: AuditDraft, field: SyncedField, keep: "mine" | "server") {
+    const next = await resolveConflict(draft, field, keep);
+    setDrafts((prev) => {
+      const updated = { ...prev };
+      if (next) updated[draft.key] = next;
+      else delete updated[draft.key];
+      return updated;
+    });
+  }
+
+  async function handleAddPhoto(element: ISOElement, questionNumber: number, file: File) {
+    const photo = await addPhoto(id, element, questionNumber, file);
+    setPhotos((prev) => [...prev, photo]);
+  }
+
+  async function handleRemovePhoto(clientId: string) {
+    await deletePhoto(clientId);
+    setPhotos((prev) => prev.filter((photo) => photo.clientId !== clientId));
+  }
+
+  if (loading) {
+    return (
+      <div className="p-4 sm:p-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-slate-200 rounded w-1/3" />
+          <div className="h-12 bg-slate-200 rounded" />
+          <div className="h-48 bg-slate-200 rounded" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!pack) {
+    return (
+      <div className="p-4 sm:p-6 max-w-4xl mx-auto space-y-4">
+        <Link
+          href="/auditor"
+          className="flex items-center gap-2 text-sm text-slate-500 hover:text-slate-900"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          My Audits
+        </Link>
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-800 text-sm">
+          This audit is not available on this device. Open it once while online to use it
+          offline.
+        </div>
+      </div>
+    );
+  }
+
+  const pendingCount = Object.keys(drafts).length + photos.length;
+  const conflictCount = Object.values(drafts).filter((d) => d.conflicts.length > 0).length;
+  const current = pack.elements[Math.min(elementIndex, pack.elements.length - 1)];
+
+  function answered(element: ISOElement, question: AuditPackQuestion): boolean {
+    const draft = drafts[draftKey(id, element, question.questionNumber)];
+    if (draft && "response" in draft.changes) return !!draft.changes.response;
+    return !!question.response;
+  }
+
+  return (
+    <div className="p-4 sm:p-6 space-y-6 max-w-4xl mx-auto">
+      {/* Header */}
+      <div className="space-y-3">
+        <Link
+          href="/auditor"
+          className="flex items-center gap-2 text-sm text-slate-500 hover:text-slate-900"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          My Audits
+        </Link>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-slate-900">{pack.organization.name}</h1>
+            <p className="text-slate-500">
+              {pack.audit.auditNumber} &middot; {AUDIT_TYPE_LABELS[pack.audit.auditType]} &middot;{" "}
+              {AUDIT_STATUS_LABELS[pack.audit.status]}
+            </p>
+            {pack.audit.scope && (
+              <p className="text-sm text-slate-500 mt-1">Scope: {pack.audit.scope}</p>
+            )}
+          </div>
+
+          {/* Connection and sync status */}
+          <div className="flex items-center gap-3">
+            <span
+              className={cn(
+                "flex items-center gap-1 text-sm",
+                online ? "text-green-700" : "text-yellow-700"
+              )}
+            >
+              {online ? <Cloud className="h-4 w-4" /> : <CloudOff className="h-4 w-4" />}
+              {online ? "Online" : "Offline"}
+            </span>
+            {pendingCount > 0 && <Badge variant="warning">{pendingCount} unsynced</Badge>}
+            <Button
+              size="sm"
+              onClick={runSync}
+              disabled={!online || syncing || pendingCount === 0}
+            >
+              {syncing ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <RefreshCw className="h-4 w-4 mr-2" />
+              )}
+              Sync now
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {!pack.audit.editable && (
+        <div className="p-3 bg-slate-100 border border-slate-200 rounded-lg text-slate-700 text-sm">
+          This audit is {AUDIT_STATUS_LABELS[pack.audit.status].toLowerCase()} and can no
+          longer be edited.
+        </div>
+      )}
+
+      {message && (
+        <div
+          className={cn(
+            "p-3 border rounded-lg text-sm",
+            message.type === "success"
+              ? "bg-green-50 border-green-200 text-green-800"
+              : "bg-red-50 border-red-200 text-red-800"
+          )}
+        >
+          {message.text}
+        </div>
+      )}
+
+      {conflictCount > 0 && !message && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-800 text-sm">
+          {conflictCount} question(s) have conflicting changes to review.
+        </div>
+      )}
+
+      {/* Element stepper */}
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {pack.elements.map(({ element, questions }, index) => {
+          const done = questions.filter((q) => answered(element, q)).length;
+          return (
+            <button
+              key={element}
+              type="button"
+              onClick={() => setElementIndex(index)}
+              className={cn(
+                "shrink-0 rounded-md border px-3 py-2 text-left text-sm transition-colors",
+                index === elementIndex
+                  ? "border-blue-500 bg-blue-50 text-blue-900"
+                  : "border-slate-200 bg-white text-slate-700 hover:border-slate-300"
+              )}
+            >
+              <div className="font-medium whitespace-nowrap">{ISO_ELEMENT_LABELS[element]}</div>
+              <div className="text-xs text-slate-500">
+                {done}/{questions.length} answered
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      {current && (
+        <div className="space-y-4">
+          <h2 className="text-lg font-semibold text-slate-900">
+            {ISO_ELEMENT_LABELS[current.element]}
+          </h2>
+
+          {current.questions.map((question) => {
+            const key = draftKey(id, current.element, question.questionNumber);
+            const draft = drafts[key];
+            return (
+              <QuestionCard
+                key={key}
+                question={question}
+                draft={draft}
+                photos={photos.filter(
+                  (photo) =>
+                    photo.isoElement === current.element &&
+                    photo.questionNumber === question.questionNumber
+                )}
+                editable={pack.audit.editable}
+                onFieldChange={(field, value) =>
+                  handleFieldChange(current.element, question, field, value)
+                }
+                onAddPhoto={(file) =>
+                  handleAddPhoto(current.element, question.questionNumber, file)
+                }
+                onRemovePhoto={handleRemovePhoto}
+                onResolveConflict={(field, keep) => draft && handleResolve(draft, field, keep)}
+              />
+            );
+          })}
+
+          <div className="flex items-center justify-between">
+            <Button
+              variant="outline"
+              onClick={() => setElementIndex((i) => i - 1)}
+              disabled={elementIndex === 0}
+            >
+              <ChevronLeft className="h-4 w-4 mr-2" />
+              Previous
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setElementIndex((i) => i + 1)}
+              disabled={elementIndex >= pack.elements.length - 1}
+            >
+              Next
+              <ChevronRight className="h-4 w-4 ml-2" />
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
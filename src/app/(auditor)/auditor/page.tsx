@@ -0,0 +1,224 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import {
+  ClipboardCheck,
+  Calendar,
+  CalendarX,
+  MapPin,
+  ChevronRight,
+  CloudOff,
+  CheckCircle,
+  RefreshCw,
+} from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AUDIT_STATUS_LABELS, AUDIT_TYPE_LABELS } from "@/types";
+import type { AuditStatus, AuditType } from "@/types";
+import {
+  getAuditList,
+  getDrafts,
+  getPack,
+  getPhotos,
+  saveAuditList,
+  savePack,
+  type AuditListEntry,
+} from "@/lib/offline-audit";
+
+interface OfflineState {
+  cached: boolean;
+  pending: number;
+}
+
+async function loadOfflineState(audits: AuditListEntry[]) {
+  const state: Record<string, OfflineState> = {};
+  for (const audit of audits) {
+    const [pack, drafts, photos] = await Promise.all([
+      getPack(audit.id),
+      getDrafts(audit.id),
+      getPhotos(audit.id),
+    ]);
+    state[audit.id] = { cached: !!pack, pending: drafts.length + photos.length };
+  }
+  return state;
+}
+
+export default function AuditorAuditsPage() {
+  const [audits, setAudits] = useState<AuditListEntry[]>([]);
+  const [offlineState, setOfflineState] = useState<Record<string, OfflineState>>({});
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [usingCache, setUsingCache] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function refresh() {
+    setRefreshing(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/auditor/audits");
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || "Failed to load audits");
+      }
+
+      const data = await response.json();
+      const list: AuditListEntry[] = data.audits;
+      setAudits(list);
+      setUsingCache(false);
+      await saveAuditList(list);
+
+      // Download every assigned audit so it can be opened on site
+      for (const audit of list) {
+        const packResponse = await fetch(`/api/auditor/audits/${audit.id}`);
+        if (packResponse.ok) {
+          await savePack(await packResponse.json());
+        }
+      }
+
+      setOfflineState(await loadOfflineState(list));
+    } catch (err) {
+      console.error("Failed to refresh assigned audits:", err);
+      const cached = await getAuditList();
+      if (cached) {
+        setAudits(cached);
+        setUsingCache(true);
+        setOfflineState(await loadOfflineState(cached));
+      } else {
+        setError("Unable to load audits. Connect to the internet and try again.");
+      }
+    } finally {
+      setRefreshing(false);
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    async function initialLoad() {
+      await refresh();
+    }
+    initialLoad();
+  }, []);
+
+  if (loading) {
+    return (
+      <div className="p-4 sm:p-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-slate-200 rounded w-1/3" />
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-20 bg-slate-200 rounded" />
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 sm:p-6 space-y-6 max-w-4xl mx-auto">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <ClipboardCheck className="h-6 w-6 text-blue-600" />
+          <div>
+            <h1 className="text-2xl font-bold text-slate-900">My Audits</h1>
+            <p className="text-slate-500">
+              Scheduled and in-progress audits assigned to you
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Link href="/auditor/profile">
+            <Button variant="outline">
+              <CalendarX className="h-4 w-4 mr-2" />
+              Availability
+            </Button>
+          </Link>
+          <Button variant="outline" onClick={refresh} disabled={refreshing}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${refreshing ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {usingCache && (
+        <div className="flex items-center gap-2 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-yellow-800 text-sm">
+          <CloudOff className="h-4 w-4" />
+          You are offline. Showing audits saved on this device.
+        </div>
+      )}
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-800 text-sm">
+          {error}
+        </div>
+      )}
+
+      {audits.length === 0 && !error ? (
+        <Card>
+          <CardContent className="py-12 text-center text-slate-500">
+            No audits are currently assigned to you.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {audits.map((audit) => {
+            const state = offlineState[audit.id];
+            return (
+              <Link key={audit.id} href={`/auditor/audits/${audit.id}`} className="block">
+                <Card className="hover:border-blue-300 transition-colors">
+                  <CardContent className="p-4 flex items-center justify-between gap-4">
+                    <div className="space-y-1 min-w-0">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-semibold text-slate-900">
+                          {audit.organization.name}
+                        </span>
+                        <Badge variant="secondary">
+                          {AUDIT_STATUS_LABELS[audit.status as AuditStatus]}
+                        </Badge>
+                        {state?.pending > 0 && (
+                          <Badge variant="warning">{state.pending} unsynced</Badge>
+                        )}
+                      </div>
+                      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-slate-500">
+                        <span>
+                          {audit.auditNumber} &middot;{" "}
+                          {AUDIT_TYPE_LABELS[audit.auditType as AuditType]}
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <Calendar className="h-3.5 w-3.5" />
+                          {new Date(audit.scheduledDate).toLocaleDateString("en-NZ")}
+                        </span>
+                        {audit.organization.city && (
+                          <span className="flex items-center gap-1">
+                            <MapPin className="h-3.5 w-3.5" />
+                            {audit.organization.city}
+                          </span>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-3 text-xs text-slate-500">
+                        <span>
+                          {audit.answeredCount} of {audit.questionCount} questions answered
+                        </span>
+                        {state?.cached && (
+                          <span className="flex items-center gap-1 text-green-700">
+                            <CheckCircle className="h-3.5 w-3.5" />
+                            Available offline
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                    <ChevronRight className="h-5 w-5 text-slate-400 shrink-0" />
+                  </CardContent>
+                </Card>
+              </Link>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,348 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { ArrowLeft, CalendarX, ShieldAlert, Trash2, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+
+// --- Interfaces ---
+
+interface AuditorProfile {
+  id: string;
+  regions: string[];
+  maxAuditsPerMonth: number;
+}
+
+interface Unavailability {
+  id: string;
+  startDate: string;
+  endDate: string;
+  reason: string | null;
+}
+
+interface Conflict {
+  id: string;
+  reason: string;
+  createdAt: string;
+  organization: { name: string };
+}
+
+interface OrganizationOption {
+  id: string;
+  name: string;
+}
+
+const selectClass =
+  "rounded-md border border-slate-300 bg-white px-3 py-2 text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none";
+
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString("en-NZ");
+}
+
+export default function AuditorProfilePage() {
+  const [profile, setProfile] = useState<AuditorProfile | null>(null);
+  const [unavailability, setUnavailability] = useState<Unavailability[]>([]);
+  const [conflicts, setConflicts] = useState<Conflict[]>([]);
+  const [organizations, setOrganizations] = useState<OrganizationOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const [period, setPeriod] = useState({ startDate: "", endDate: "", reason: "" });
+  const [conflict, setConflict] = useState({ organizationId: "", reason: "" });
+  const [saving, setSaving] = useState(false);
+
+  async function fetchProfile() {
+    try {
+      const response = await fetch("/api/auditor/profile");
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || "Failed to load your auditor profile.");
+        return;
+      }
+
+      setProfile(data.profile);
+      setUnavailability(data.unavailability);
+      setConflicts(data.conflicts);
+      setOrganizations(data.organizations);
+    } catch (err) {
+      console.error("Failed to fetch auditor profile:", err);
+      setError("Unable to load your profile. Connect to the internet and try again.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    fetchProfile();
+  }, []);
+
+  function showSuccess(msg: string) {
+    setSuccessMessage(msg);
+    setTimeout(() => setSuccessMessage(null), 3000);
+  }
+
+  async function post(url: string, body: unknown): Promise<Record<string, unknown> | null> {
+    setSaving(true);
+
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        window.alert(data.details?.[0]?.message || data.error || "Failed to save.");
+        return null;
+      }
+
+      return data;
+    } catch (err) {
+      console.error("Failed to save:", err);
+      window.alert("An error occurred. Please try again.");
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleAddPeriod() {
+    const data = await post("/api/auditor/profile/unavailability", {
+      ...period,
+      reason: period.reason || undefined,
+    });
+
+    if (data) {
+      setPeriod({ startDate: "", endDate: "", reason: "" });
+      showSuccess("Unavailability added.");
+      await fetchProfile();
+    }
+  }
+
+  async function handleRemovePeriod(id: string) {
+    if (!window.confirm("Remove this unavailability?")) return;
+
+    try {
+      const response = await fetch(`/api/auditor/profile/unavailability/${id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        window.alert(data.error || "Failed to remove unavailability.");
+        return;
+      }
+
+      showSuccess("Unavailability removed.");
+      await fetchProfile();
+    } catch (err) {
+      console.error("Failed to remove unavailability:", err);
+      window.alert("An error occurred. Please try again.");
+    }
+  }
+
+  async function handleDeclareConflict() {
+    const data = await post("/api/auditor/profile/conflicts", conflict);
+
+    if (data) {
+      const released = data.releasedAudits as string[];
+      const open = data.openAudits as string[];
+
+      setConflict({ organizationId: "", reason: "" });
+      showSuccess(
+        released.length > 0
+          ? `Conflict declared. You have been removed from ${released.join(", ")}.`
+          : "Conflict declared."
+      );
+      if (open.length > 0) {
+        window.alert(
+          `You are still assigned to ${open.join(", ")}, which is already under way. Contact RANZ to arrange a replacement auditor.`
+        );
+      }
+      await fetchProfile();
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="p-4 sm:p-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-slate-200 rounded w-1/3" />
+          <div className="h-40 bg-slate-200 rounded" />
+          <div className="h-40 bg-slate-200 rounded" />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 sm:p-6 space-y-6 max-w-4xl mx-auto">
+      {/* Header */}
+      <div className="space-y-2">
+        <Link
+          href="/auditor"
+          className="inline-flex items-center gap-1 text-sm text-slate-500 hover:text-slate-700"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          My Audits
+        </Link>
+        <h1 className="text-2xl font-bold text-slate-900">Availability &amp; Conflicts</h1>
+        {profile && (
+          <p className="text-slate-500">
+            {profile.regions.length > 0 ? profile.regions.join(", ") : "No regions set"} &middot;
+            up to {profile.maxAuditsPerMonth} audits a month
+          </p>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-800 text-sm">
+          {error}
+        </div>
+      )}
+
+      {successMessage && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-green-800 text-sm">
+          {successMessage}
+        </div>
+      )}
+
+      {profile && (
+        <>
+          {/* Unavailability */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CalendarX className="h-5 w-5 text-slate-500" />
+                Unavailable Dates
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap items-end gap-2">
+                <div>
+                  <label className="block text-xs text-slate-500 mb-1">From</label>
+                  <Input
+                    type="date"
+                    value={period.startDate}
+                    onChange={(e) => setPeriod({ ...period, startDate: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-slate-500 mb-1">To</label>
+                  <Input
+                    type="date"
+                    value={period.endDate}
+                    onChange={(e) => setPeriod({ ...period, endDate: e.target.value })}
+                  />
+                </div>
+                <div className="flex-1 min-w-40">
+                  <label className="block text-xs text-slate-500 mb-1">Reason (optional)</label>
+                  <Input
+                    value={period.reason}
+                    onChange={(e) => setPeriod({ ...period, reason: e.target.value })}
+                    placeholder="e.g., Annual leave"
+                  />
+                </div>
+                <Button
+                  onClick={handleAddPeriod}
+                  disabled={saving || !period.startDate || !period.endDate}
+                >
+                  {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Add
+                </Button>
+              </div>
+
+              {unavailability.length === 0 ? (
+                <p className="text-sm text-slate-500">No upcoming unavailability.</p>
+              ) : (
+                <ul className="divide-y divide-slate-100 text-sm">
+                  {unavailability.map((p) => (
+                    <li key={p.id} className="py-2 flex items-center justify-between gap-2">
+                      <span className="text-slate-700">
+                        {formatDate(p.startDate)} – {formatDate(p.endDate)}
+                        {p.reason && <span className="text-slate-400"> · {p.reason}</span>}
+                      </span>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        aria-label="Remove unavailability"
+                        onClick={() => handleRemovePeriod(p.id)}
+                      >
+                        <Trash2 className="h-4 w-4 text-red-500" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Conflicts of interest */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ShieldAlert className="h-5 w-5 text-slate-500" />
+                Conflicts of Interest
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-slate-500">
+                Declare any business you have a personal, financial or employment connection
+                with. You will not be assigned to its audits. Only RANZ can withdraw a
+                declaration.
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                <select
+                  value={conflict.organizationId}
+                  onChange={(e) => setConflict({ ...conflict, organizationId: e.target.value })}
+                  className={`w-full ${selectClass}`}
+                >
+                  <option value="">Select a business</option>
+                  {organizations.map((org) => (
+                    <option key={org.id} value={org.id}>
+                      {org.name}
+                    </option>
+                  ))}
+                </select>
+                <Input
+                  value={conflict.reason}
+                  onChange={(e) => setConflict({ ...conflict, reason: e.target.value })}
+                  placeholder="Nature of the conflict"
+                />
+              </div>
+              <div className="flex justify-end">
+                <Button
+                  onClick={handleDeclareConflict}
+                  disabled={saving || !conflict.organizationId || !conflict.reason.trim()}
+                >
+                  Declare Conflict
+                </Button>
+              </div>
+
+              {conflicts.length === 0 ? (
+                <p className="text-sm text-slate-500">No conflicts declared.</p>
+              ) : (
+                <ul className="divide-y divide-slate-100 text-sm">
+                  {conflicts.map((c) => (
+                    <li key={c.id} className="py-2">
+                      <span className="text-slate-700">{c.organization.name}</span>
+                      <span className="text-slate-400">
+                        {" "}
+                        · {c.reason} · declared {formatDate(c.createdAt)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { UserButton } from "@clerk/nextjs";
+import { ArrowLeft, ClipboardCheck, LogOut } from "lucide-react";
+
+// Only use NEXT_PUBLIC_ variable for client components to avoid hydration mismatch
+const AUTH_MODE = process.env.NEXT_PUBLIC_AUTH_MODE || 'clerk';
+
+export default function AuditorLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const [mounted, setMounted] = React.useState(false);
+
+  // Prevent hydration mismatch by waiting for client mount
+  React.useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  // Cache the workspace shell so it opens on site without a connection
+  React.useEffect(() => {
+    if ("serviceWorker" in navigator) {
+      navigator.serviceWorker
+        .register("/auditor-sw.js", { scope: "/auditor" })
+        .catch((err) => console.error("Failed to register auditor service worker:", err));
+    }
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      {/* Top header */}
+      <header className="bg-slate-900 text-white">
+        <div className="flex items-center justify-between px-4 sm:px-6 py-4">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/dashboard"
+              className="flex items-center gap-2 text-slate-400 hover:text-white transition-colors"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              <span className="text-sm hidden sm:inline">Back to Portal</span>
+            </Link>
+            <div className="h-6 w-px bg-slate-700" />
+            <Link href="/auditor" className="flex items-center gap-2">
+              <ClipboardCheck className="h-5 w-5 text-blue-400" />
+              <span className="font-semibold">RANZ Auditor</span>
+            </Link>
+          </div>
+          {/* Only render auth UI after mount to prevent hydration mismatch */}
+          {mounted ? (
+            AUTH_MODE === 'clerk' ? (
+              <UserButton afterSignOutUrl="/" />
+            ) : (
+              <button
+                onClick={() => {
+                  fetch('/api/auth/logout', { method: 'POST' })
+                    .then(() => window.location.href = '/sign-in');
+                }}
+                className="flex items-center gap-2 px-3 py-2 text-sm text-slate-400 hover:text-white hover:bg-slate-800 rounded-md transition-colors"
+              >
+                <LogOut className="h-4 w-4" />
+                Sign Out
+              </button>
+            )
+          ) : (
+            <div className="w-8 h-8 rounded-full bg-slate-700 animate-pulse" />
+          )}
+        </div>
+      </header>
+
+      {/* Main content */}
+      <main>{children}</main>
+    </div>
+  );
+}
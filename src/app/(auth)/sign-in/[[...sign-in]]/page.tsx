@@ -1,8 +1,8 @@
 'use client';
 
 import { SignIn } from "@clerk/nextjs";
-import { useState } from "react";
-import { useRouter } from "next/navigation";
+import { Suspense, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
 import { AuthLayout } from "@/components/auth/auth-layout";
 
 const AUTH_MODE = process.env.NEXT_PUBLIC_AUTH_MODE || 'clerk';
@@ -97,13 +97,70 @@ function CustomLoginForm() {
   );
 }
 
+const SSO_ERROR_MESSAGES: Record<string, string> = {
+  sso_failed: 'Sign-in with your RANZ account failed. Please try again.',
+  sso_cancelled: 'Sign-in was cancelled.',
+  sso_unavailable: 'The RANZ identity provider is currently unavailable.',
+  account_inactive: 'Account is not active. Please contact support.',
+};
+
+function OIDCLoginButton() {
+  const searchParams = useSearchParams();
+  const errorCode = searchParams.get('error');
+  const error = errorCode ? SSO_ERROR_MESSAGES[errorCode] || SSO_ERROR_MESSAGES.sso_failed : '';
+
+  // Middleware passes the full URL; the callback only accepts relative paths
+  let redirectUrl = '';
+  const target = searchParams.get('redirect_url');
+  if (target) {
+    try {
+      const url = new URL(target, 'http://relative.invalid');
+      redirectUrl = url.pathname + url.search;
+    } catch {
+      // Ignore malformed redirect targets
+    }
+  }
+
+  const href = redirectUrl
+    ? `/api/auth/oidc/login?redirect_url=${encodeURIComponent(redirectUrl)}`
+    : '/api/auth/oidc/login';
+
+  return (
+    <div className="space-y-4">
+      <div className="text-center mb-6">
+        <h2 className="text-xl font-semibold text-ranz-charcoal">Sign In</h2>
+        <p className="text-sm text-muted-foreground mt-1">
+          Use your RANZ account to continue
+        </p>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      <a
+        href={href}
+        className="block w-full rounded-md bg-ranz-charcoal px-4 py-2 text-center text-white font-medium hover:bg-ranz-charcoal-dark focus:outline-none focus:ring-2 focus:ring-app-accent focus:ring-offset-2"
+      >
+        Sign in with RANZ account
+      </a>
+    </div>
+  );
+}
+
 export default function SignInPage() {
   return (
     <AuthLayout
       title="Welcome Back"
       subtitle="Sign in to your RANZ Quality Program account"
     >
-      {AUTH_MODE === 'custom' ? (
+      {AUTH_MODE === 'oidc' ? (
+        <Suspense>
+          <OIDCLoginButton />
+        </Suspense>
+      ) : AUTH_MODE === 'custom' ? (
         <CustomLoginForm />
       ) : (
         <SignIn
@@ -0,0 +1,235 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { format } from "date-fns";
+import { ArrowLeft, ChevronDown, ChevronRight, Download, Loader2, Paperclip } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { EvidencePanel } from "@/components/audits/evidence-panel";
+import {
+  AUDIT_RESPONSE_LABELS,
+  AUDIT_STATUS_LABELS,
+  AUDIT_TYPE_LABELS,
+  ISO_ELEMENT_LABELS,
+  type AuditResponse,
+  type AuditStatus,
+  type AuditType,
+  type ISOElement,
+} from "@/types";
+
+interface ChecklistItem {
+  id: string;
+  isoElement: ISOElement;
+  questionNumber: number;
+  questionText: string;
+  response: AuditResponse | null;
+  finding: string | null;
+  evidenceKeys: string[];
+}
+
+interface AuditDetail {
+  id: string;
+  auditNumber: string;
+  auditType: AuditType;
+  status: AuditStatus;
+  scheduledDate: string;
+  auditorName: string | null;
+  questionSet: { version: number; name: string } | null;
+  checklist: ChecklistItem[];
+  capaRecords: { id: string; capaNumber: string; title: string }[];
+}
+
+const responseColors: Record<AuditResponse, string> = {
+  CONFORMING: "bg-green-100 text-green-700",
+  MINOR_NONCONFORMITY: "bg-yellow-100 text-yellow-700",
+  MAJOR_NONCONFORMITY: "bg-red-100 text-red-700",
+  OBSERVATION: "bg-blue-100 text-blue-700",
+  NOT_APPLICABLE: "bg-slate-100 text-slate-700",
+};
+
+export default function AuditDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const [audit, setAudit] = useState<AuditDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  // Evidence is loaded per question on demand to keep signed URLs fresh
+  const [openItemId, setOpenItemId] = useState<string | null>(null);
+  const [downloading, setDownloading] = useState(false);
+
+  useEffect(() => {
+    async function fetchAudit() {
+      try {
+        const response = await fetch(`/api/audits/${id}`);
+        if (response.ok) {
+          setAudit(await response.json());
+        }
+      } catch (error) {
+        console.error("Failed to fetch audit:", error);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchAudit();
+  }, [id]);
+
+  async function handleDownloadReport() {
+    setDownloading(true);
+
+    try {
+      const response = await fetch(`/api/audits/${id}/report`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        window.alert(data.error || "Failed to download the audit report.");
+        return;
+      }
+
+      window.open(data.url, "_blank");
+    } catch (error) {
+      console.error("Failed to download audit report:", error);
+      window.alert("An error occurred. Please try again.");
+    } finally {
+      setDownloading(false);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-slate-200 rounded w-1/3" />
+          <div className="h-64 bg-slate-200 rounded" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!audit) {
+    return (
+      <div className="p-6">
+        <p className="text-slate-500">Audit not found</p>
+      </div>
+    );
+  }
+
+  const editable = audit.status !== "COMPLETED" && audit.status !== "CANCELLED";
+
+  const grouped = new Map<ISOElement, ChecklistItem[]>();
+  for (const item of audit.checklist) {
+    grouped.set(item.isoElement, [...(grouped.get(item.isoElement) ?? []), item]);
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <Link
+        href="/audits"
+        className="flex items-center gap-2 text-sm text-slate-500 hover:text-slate-900"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        Audits
+      </Link>
+
+      <div>
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-2 flex-wrap">
+            <h1 className="text-2xl font-bold text-slate-900">{audit.auditNumber}</h1>
+            <Badge variant="secondary">{AUDIT_STATUS_LABELS[audit.status]}</Badge>
+          </div>
+          {audit.status === "COMPLETED" && (
+            <Button variant="outline" onClick={handleDownloadReport} disabled={downloading}>
+              {downloading ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Download className="h-4 w-4 mr-2" />
+              )}
+              Audit Report
+            </Button>
+          )}
+        </div>
+        <p className="text-sm text-slate-500 mt-1">
+          {AUDIT_TYPE_LABELS[audit.auditType]} •{" "}
+          {format(new Date(audit.scheduledDate), "MMM d, yyyy")}
+          {audit.auditorName && ` • ${audit.auditorName}`} • Questions{" "}
+          {audit.questionSet
+            ? `v${audit.questionSet.version} (${audit.questionSet.name})`
+            : "built-in"}
+        </p>
+      </div>
+
+      {audit.capaRecords.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Corrective Actions</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {audit.capaRecords.map((capa) => (
+              <Link
+                key={capa.id}
+                href={`/capa/${capa.id}`}
+                className="block text-sm text-blue-600 hover:underline"
+              >
+                {capa.capaNumber} — {capa.title}
+              </Link>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {[...grouped.entries()].map(([element, items]) => (
+        <Card key={element}>
+          <CardHeader>
+            <CardTitle>{ISO_ELEMENT_LABELS[element]}</CardTitle>
+          </CardHeader>
+          <CardContent className="divide-y">
+            {items.map((item) => {
+              const isOpen = openItemId === item.id;
+              return (
+                <div key={item.id} className="py-3 space-y-2">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <p className="text-sm text-slate-900">
+                        {item.questionNumber}. {item.questionText}
+                      </p>
+                      {item.finding && (
+                        <p className="text-sm text-slate-500 mt-1">{item.finding}</p>
+                      )}
+                    </div>
+                    {item.response && (
+                      <Badge className={responseColors[item.response]}>
+                        {AUDIT_RESPONSE_LABELS[item.response]}
+                      </Badge>
+                    )}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => setOpenItemId(isOpen ? null : item.id)}
+                    className="flex items-center gap-1 text-sm text-slate-500 hover:text-slate-900"
+                  >
+                    {isOpen ? (
+                      <ChevronDown className="h-4 w-4" />
+                    ) : (
+                      <ChevronRight className="h-4 w-4" />
+                    )}
+                    <Paperclip className="h-3.5 w-3.5" />
+                    Evidence ({item.evidenceKeys.length})
+                  </button>
+                  {isOpen && (
+                    <div className="pl-5">
+                      <EvidencePanel
+                        endpoint={`/api/audits/${audit.id}/checklist/${item.id}/evidence`}
+                        editable={editable}
+                      />
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { format } from "date-fns";
+import { ArrowLeft } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { EvidencePanel } from "@/components/audits/evidence-panel";
+import {
+  CAPA_STATUS_LABELS,
+  FINDING_SEVERITY_LABELS,
+  ISO_ELEMENT_LABELS,
+  type CAPAStatus,
+  type FindingSeverity,
+  type ISOElement,
+} from "@/types";
+
+interface CAPADetail {
+  id: string;
+  capaNumber: string;
+  title: string;
+  description: string;
+  rootCause: string | null;
+  correctiveAction: string | null;
+  preventiveAction: string | null;
+  severity: FindingSeverity;
+  status: CAPAStatus;
+  isoElement: ISOElement | null;
+  dueDate: string;
+  closedDate: string | null;
+  assignedToName: string | null;
+  auditId: string | null;
+  audit: { auditNumber: string } | null;
+}
+
+export default function CAPADetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const [capa, setCAPA] = useState<CAPADetail | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    async function fetchCAPA() {
+      try {
+        const response = await fetch(`/api/capa/${id}`);
+        if (response.ok) {
+          setCAPA(await response.json());
+        }
+      } catch (error) {
+        console.error("Failed to fetch CAPA:", error);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchCAPA();
+  }, [id]);
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-slate-200 rounded w-1/3" />
+          <div className="h-40 bg-slate-200 rounded" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!capa) {
+    return (
+      <div className="p-6">
+        <p className="text-slate-500">CAPA not found</p>
+      </div>
+    );
+  }
+
+  const sections = [
+    { label: "Description", value: capa.description },
+    { label: "Root cause", value: capa.rootCause },
+    { label: "Corrective action", value: capa.correctiveAction },
+    { label: "Preventive action", value: capa.preventiveAction },
+  ];
+
+  return (
+    <div className="p-6 space-y-6">
+      <Link
+        href="/capa"
+        className="flex items-center gap-2 text-sm text-slate-500 hover:text-slate-900"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        Corrective Actions
+      </Link>
+
+      <div>
+        <div className="flex items-center gap-2 flex-wrap">
+          <h1 className="text-2xl font-bold text-slate-900">{capa.capaNumber}</h1>
+          <Badge variant="secondary">{CAPA_STATUS_LABELS[capa.status]}</Badge>
+          <Badge variant="outline">{FINDING_SEVERITY_LABELS[capa.severity]}</Badge>
+        </div>
+        <p className="text-slate-900 mt-1">{capa.title}</p>
+        <p className="text-sm text-slate-500 mt-1">
+          {capa.isoElement && `${ISO_ELEMENT_LABELS[capa.isoElement]} • `}
+          {capa.audit && capa.auditId && (
+            <>
+              From{" "}
+              <Link href={`/audits/${capa.auditId}`} className="text-blue-600 hover:underline">
+                {capa.audit.auditNumber}
+              </Link>{" "}
+              •{" "}
+            </>
+          )}
+          Due {format(new Date(capa.dueDate), "MMM d, yyyy")}
+          {capa.assignedToName && ` • Assigned to ${capa.assignedToName}`}
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Details</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {sections
+            .filter((section) => section.value)
+            .map((section) => (
+              <div key={section.label}>
+                <p className="text-sm font-medium text-slate-700">{section.label}</p>
+                <p className="text-sm text-slate-600 whitespace-pre-wrap">{section.value}</p>
+              </div>
+            ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="pt-6">
+          <EvidencePanel
+            endpoint={`/api/capa/${capa.id}/evidence`}
+            editable={capa.status !== "CLOSED"}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -16,10 +16,13 @@ import {
   Upload,
   ImageIcon,
   FileText,
+  Lock,
+  Signature,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { SignaturePad } from "@/components/checklists/signature-pad";
 import { CHECKLIST_ITEM_TYPE_LABELS } from "@/types";
 import type { ChecklistItemType } from "@/types";
 
@@ -34,6 +37,8 @@ interface CompletionData {
   photoFileName: string | null;
   completedAt: string | null;
   completedBy: string | null;
+  signerName: string | null;
+  signedAt: string | null;
 }
 
 interface ChecklistItemData {
@@ -110,6 +115,12 @@ export default function ChecklistDetailPage() {
   const [uploadingPhoto, setUploadingPhoto] = useState<string | null>(null); // itemId
   const [photoUrls, setPhotoUrls] = useState<Map<string, string>>(new Map());
 
+  // Signature capture state
+  const [signingItem, setSigningItem] = useState<string | null>(null); // itemId
+  const [signatureUrls, setSignatureUrls] = useState<Map<string, string>>(
+    new Map()
+  );
+
   // Debounce timers for text/notes
   const debounceTimers = useRef<Map<string, ReturnType<typeof setTimeout>>>(
     new Map()
@@ -402,6 +413,54 @@ export default function ChecklistDetailPage() {
     }
   }
 
+  // --- Signature capture ---
+
+  async function handleSign(itemId: string, signerName: string, signature: string) {
+    setSigningItem(itemId);
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/checklists/${id}/items/${itemId}/signature`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ signerName, signature }),
+        }
+      );
+
+      if (response.ok) {
+        const result = await response.json();
+        setSignatureUrls((prev) => new Map(prev).set(itemId, result.url));
+        showSuccess("Signature captured.");
+        // Refresh to get accurate stats and the locked completion
+        await fetchData();
+      } else {
+        const errData = await response.json();
+        setError(errData.error || "Failed to save signature.");
+      }
+    } catch (err) {
+      console.error("Failed to save signature:", err);
+      setError("An error occurred saving the signature.");
+    } finally {
+      setSigningItem(null);
+    }
+  }
+
+  async function loadSignatureUrl(itemId: string) {
+    if (signatureUrls.has(itemId)) return;
+    try {
+      const response = await fetch(
+        `/api/checklists/${id}/items/${itemId}/signature`
+      );
+      if (response.ok) {
+        const result = await response.json();
+        setSignatureUrls((prev) => new Map(prev).set(itemId, result.url));
+      }
+    } catch (err) {
+      console.error("Failed to load signature URL:", err);
+    }
+  }
+
   // --- Mark checklist complete ---
 
   async function handleMarkComplete() {
@@ -633,14 +692,14 @@ export default function ChecklistDetailPage() {
                     const isComplete = item.completion?.completed || false;
                     const isSaving = saving === item.id;
                     const notesExpanded = expandedNotes.has(item.id);
+                    const isSigned = !!item.completion?.signedAt;
 
                     return (
                       <div key={item.id} className="py-3 first:pt-0">
                         <div className="flex items-start gap-3">
                           {/* Checkbox / Type indicator */}
                           <div className="pt-0.5 shrink-0">
-                            {item.itemType === "CHECKBOX" ||
-                            item.itemType === "SIGNATURE" ? (
+                            {item.itemType === "CHECKBOX" ? (
                               <button
                                 onClick={() =>
                                   handleToggleCompletion(item.id, !isComplete)
@@ -662,6 +721,12 @@ export default function ChecklistDetailPage() {
                               <PenLine className="h-5 w-5 text-blue-500" />
                             ) : item.itemType === "PHOTO_REQUIRED" ? (
                               <Camera className="h-5 w-5 text-amber-500" />
+                            ) : item.itemType === "SIGNATURE" ? (
+                              isSigned ? (
+                                <Lock className="h-5 w-5 text-green-600" />
+                              ) : (
+                                <Signature className="h-5 w-5 text-purple-500" />
+                              )
                             ) : null}
                           </div>
 
@@ -721,6 +786,24 @@ export default function ChecklistDetailPage() {
                               />
                             )}
 
+                            {/* SIGNATURE: signature pad, locked once signed */}
+                            {item.itemType === "SIGNATURE" &&
+                              (isSigned ? (
+                                <SignedSignature
+                                  completion={item.completion}
+                                  signatureUrl={signatureUrls.get(item.id)}
+                                  onLoadUrl={() => loadSignatureUrl(item.id)}
+                                />
+                              ) : (
+                                <SignaturePad
+                                  itemId={item.id}
+                                  submitting={signingItem === item.id}
+                                  onSubmit={(signerName, signature) =>
+                                    handleSign(item.id, signerName, signature)
+                                  }
+                                />
+                              ))}
+
                             {/* Optional photo upload for CHECKBOX items */}
                             {item.itemType === "CHECKBOX" && (
                               <OptionalPhotoUpload
@@ -760,31 +843,33 @@ export default function ChecklistDetailPage() {
                             )}
 
                             {/* Notes */}
-                            <div className="mt-1">
-                              <button
-                                onClick={() => toggleNotes(item.id)}
-                                className="text-xs text-slate-400 hover:text-slate-600 flex items-center gap-1"
-                              >
-                                <StickyNote className="h-3 w-3" />
-                                {item.completion?.notes
-                                  ? "Edit notes"
-                                  : "Add notes"}
-                              </button>
-                              {notesExpanded && (
-                                <textarea
-                                  className="w-full mt-1 rounded-md border border-slate-300 px-3 py-1.5 text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none resize-none"
-                                  rows={2}
-                                  placeholder="Notes..."
-                                  value={item.completion?.notes || ""}
-                                  onChange={(e) =>
-                                    handleNotesChange(item.id, e.target.value)
-                                  }
-                                  onBlur={(e) =>
-                                    handleNotesSave(item.id, e.target.value)
-                                  }
-                                />
-                              )}
-                            </div>
+                            {!isSigned && (
+                              <div className="mt-1">
+                                <button
+                                  onClick={() => toggleNotes(item.id)}
+                                  className="text-xs text-slate-400 hover:text-slate-600 flex items-center gap-1"
+                                >
+                                  <StickyNote className="h-3 w-3" />
+                                  {item.completion?.notes
+                                    ? "Edit notes"
+                                    : "Add notes"}
+                                </button>
+                                {notesExpanded && (
+                                  <textarea
+                                    className="w-full mt-1 rounded-md border border-slate-300 px-3 py-1.5 text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none resize-none"
+                                    rows={2}
+                                    placeholder="Notes..."
+                                    value={item.completion?.notes || ""}
+                                    onChange={(e) =>
+                                      handleNotesChange(item.id, e.target.value)
+                                    }
+                                    onBlur={(e) =>
+                                      handleNotesSave(item.id, e.target.value)
+                                    }
+                                  />
+                                )}
+                              </div>
+                            )}
 
                             {/* Completion info */}
                             {isComplete && item.completion?.completedAt && (
@@ -1025,3 +1110,47 @@ function OptionalPhotoUpload({
     </div>
   );
 }
+
+// --- Signature Sub-Component ---
+
+function SignedSignature({
+  completion,
+  signatureUrl,
+  onLoadUrl,
+}: {
+  completion: CompletionData | null;
+  signatureUrl: string | undefined;
+  onLoadUrl: () => void;
+}) {
+  useEffect(() => {
+    if (!signatureUrl) {
+      onLoadUrl();
+    }
+  }, [signatureUrl, onLoadUrl]);
+
+  return (
+    <div className="mt-2">
+      {signatureUrl ? (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+          src={signatureUrl}
+          alt={`Signature of ${completion?.signerName ?? "signer"}`}
+          className="max-w-xs max-h-24 rounded-md border border-slate-200 bg-white"
+        />
+      ) : (
+        <div className="flex items-center gap-2 text-xs text-slate-500">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          <span>Loading signature...</span>
+        </div>
+      )}
+      <div className="flex items-center gap-2 mt-1 text-xs text-slate-500">
+        <Lock className="h-3 w-3" />
+        <span>
+          Signed by {completion?.signerName}
+          {completion?.signedAt &&
+            ` on ${new Date(completion.signedAt).toLocaleString()}`}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { db } from "@/lib/db";
 import { daysUntil, formatDate } from "@/lib/utils";
 import { calculateComplianceScore } from "@/lib/compliance-v2";
 import { ComplianceScore } from "@/components/dashboard/compliance-score";
+import { ComplianceTrend } from "@/components/dashboard/compliance-trend";
 import { ActionItems } from "@/components/dashboard/action-items";
 import { ExpiringItems } from "@/components/dashboard/expiring-items";
 import { StatsCards, getDefaultStats } from "@/components/dashboard/stats-cards";
@@ -168,6 +169,8 @@ export default async function DashboardPage() {
         <ExpiringItems items={expiringInsurance} />
       </div>
 
+      <ComplianceTrend />
+
       <ActionItems items={actionItems} />
 
       <TeamSummary data={teamSummaryData.totalTeams > 0 ? teamSummaryData : null} />
@@ -0,0 +1,127 @@
+import Link from "next/link";
+import { auth } from "@clerk/nextjs/server";
+import { redirect } from "next/navigation";
+import { format } from "date-fns";
+import { ArrowLeft, BookOpenCheck, Check, X } from "lucide-react";
+import { db } from "@/lib/db";
+import { getAcknowledgementMatrix } from "@/lib/document-acknowledgement";
+import { Button } from "@/components/ui/button";
+import { ORG_MEMBER_ROLE_LABELS } from "@/types";
+
+export default async function DocumentAcknowledgementsPage() {
+  const { orgId, orgRole } = await auth();
+
+  if (!orgId) {
+    redirect("/onboarding");
+  }
+
+  if (orgRole !== "org:admin" && orgRole !== "org:owner") {
+    redirect("/documents");
+  }
+
+  const organization = await db.organization.findUnique({
+    where: { clerkOrgId: orgId },
+    select: { id: true },
+  });
+
+  if (!organization) {
+    redirect("/onboarding");
+  }
+
+  const { documents, members, cells } = await getAcknowledgementMatrix(organization.id);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900">
+            Document Acknowledgements
+          </h1>
+          <p className="text-slate-600">
+            Who has read and acknowledged the current version of each required
+            document
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/documents">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Documents
+          </Link>
+        </Button>
+      </div>
+
+      {documents.length === 0 ? (
+        <div className="bg-white rounded-xl border border-slate-200 p-12">
+          <div className="flex flex-col items-center justify-center text-center">
+            <div className="w-16 h-16 rounded-full bg-blue-100 flex items-center justify-center mb-4">
+              <BookOpenCheck className="h-8 w-8 text-blue-600" />
+            </div>
+            <h3 className="text-lg font-semibold text-slate-900 mb-2">
+              No required reading yet
+            </h3>
+            <p className="text-slate-600 max-w-sm">
+              Choose &quot;Required reading&quot; on an approved document to
+              ask staff groups or teams to acknowledge it.
+            </p>
+          </div>
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl border border-slate-200 overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="border-b border-slate-200">
+                <th className="sticky left-0 bg-white px-4 py-3 text-left font-medium text-slate-700">
+                  Staff member
+                </th>
+                {documents.map((document) => (
+                  <th
+                    key={document.id}
+                    className="px-4 py-3 text-left font-medium text-slate-700 align-bottom min-w-[140px]"
+                  >
+                    <div className="text-slate-900">{document.title}</div>
+                    <div className="font-normal text-slate-500">
+                      {document.documentNumber} · v{document.versionString}
+                    </div>
+                    <div className="font-normal text-slate-500">
+                      {document.acknowledgedCount}/{document.targetedCount} acknowledged
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {members.map((member) => (
+                <tr key={member.id}>
+                  <td className="sticky left-0 bg-white px-4 py-3">
+                    <div className="font-medium text-slate-900">{member.name}</div>
+                    <div className="text-slate-500">{ORG_MEMBER_ROLE_LABELS[member.role]}</div>
+                  </td>
+                  {documents.map((document) => {
+                    const cell = cells[document.id][member.id];
+                    return (
+                      <td key={document.id} className="px-4 py-3">
+                        {cell === undefined ? (
+                          <span className="text-slate-300">—</span>
+                        ) : cell ? (
+                          <span className="flex items-center gap-1 text-green-600">
+                            <Check className="h-4 w-4" />
+                            {format(new Date(cell), "d MMM yyyy")}
+                          </span>
+                        ) : (
+                          <span className="flex items-center gap-1 text-red-600">
+                            <X className="h-4 w-4" />
+                            Outstanding
+                          </span>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
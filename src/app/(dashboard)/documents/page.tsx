@@ -1,13 +1,15 @@
 import Link from "next/link";
 import { auth } from "@clerk/nextjs/server";
 import { redirect } from "next/navigation";
-import { Plus, FileText, BookOpen } from "lucide-react";
+import { Plus, FileText, BookOpen, BookOpenCheck } from "lucide-react";
 import { db } from "@/lib/db";
 import { Button } from "@/components/ui/button";
 import { DocumentList } from "@/components/documents/document-list";
+import { PendingApprovals } from "@/components/documents/pending-approvals";
+import { PendingAcknowledgements } from "@/components/documents/pending-acknowledgements";
 
 export default async function DocumentsPage() {
-  const { orgId } = await auth();
+  const { orgId, orgRole } = await auth();
 
   if (!orgId) {
     redirect("/onboarding");
@@ -26,6 +28,8 @@ export default async function DocumentsPage() {
     redirect("/onboarding");
   }
 
+  const isAdmin = orgRole === "org:admin" || orgRole === "org:owner";
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -38,6 +42,14 @@ export default async function DocumentsPage() {
           </p>
         </div>
         <div className="flex gap-2">
+          {isAdmin && (
+            <Button variant="outline" asChild>
+              <Link href="/documents/acknowledgements">
+                <BookOpenCheck className="h-4 w-4 mr-2" />
+                Acknowledgements
+              </Link>
+            </Button>
+          )}
           <Button variant="outline" asChild>
             <Link href="/documents/templates">
               <BookOpen className="h-4 w-4 mr-2" />
@@ -53,6 +65,9 @@ export default async function DocumentsPage() {
         </div>
       </div>
 
+      <PendingApprovals />
+      <PendingAcknowledgements />
+
       {organization.documents.length === 0 ? (
         <div className="bg-white rounded-xl border border-slate-200 p-12">
           <div className="flex flex-col items-center justify-center text-center">
@@ -85,6 +100,7 @@ export default async function DocumentsPage() {
             isoElement: d.isoElement as any,
             documentType: d.documentType as any,
           }))}
+          isAdmin={isAdmin}
         />
       )}
     </div>
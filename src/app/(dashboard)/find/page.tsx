@@ -0,0 +1,255 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import {
+  AlertTriangle,
+  ClipboardCheck,
+  FileText,
+  FolderKanban,
+  Loader2,
+  Search,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
+import type { SearchResponse, SearchResult, SearchResultType } from "@/lib/search";
+
+const PAGE_SIZE = 20;
+
+const typeConfig: Record<
+  SearchResultType,
+  { label: string; plural: string; icon: typeof FileText; color: string }
+> = {
+  document: { label: "Document", plural: "Documents", icon: FileText, color: "bg-blue-100 text-blue-600" },
+  capa: { label: "CAPA", plural: "CAPAs", icon: AlertTriangle, color: "bg-orange-100 text-orange-600" },
+  finding: { label: "Audit finding", plural: "Findings", icon: ClipboardCheck, color: "bg-purple-100 text-purple-600" },
+  project: { label: "Project", plural: "Projects", icon: FolderKanban, color: "bg-green-100 text-green-600" },
+};
+
+function resultHref(result: SearchResult): string | null {
+  switch (result.type) {
+    case "capa":
+      return `/capa/${result.id}`;
+    case "finding":
+      return `/audits/${result.parentId}`;
+    case "project":
+      return `/projects/${result.id}`;
+    default:
+      return null; // Documents open via a signed download URL
+  }
+}
+
+export default function SearchPage() {
+  const [query, setQuery] = useState("");
+  const [type, setType] = useState<SearchResultType | "all">("all");
+  const [response, setResponse] = useState<SearchResponse | null>(null);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runSearch = async (
+    searchType: SearchResultType | "all",
+    offset = 0
+  ) => {
+    const q = query.trim();
+    if (q.length < 2) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({
+        q,
+        limit: String(PAGE_SIZE),
+        offset: String(offset),
+      });
+      if (searchType !== "all") params.set("type", searchType);
+
+      const res = await fetch(`/api/search?${params}`);
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Search failed");
+      }
+
+      // Keep the per-type counts from the unfiltered search for the tabs
+      setResponse((prev) =>
+        searchType === "all" || !prev || prev.query !== q ? data : { ...data, counts: prev.counts }
+      );
+      setResults((prev) => (offset === 0 ? data.results : [...prev, ...data.results]));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setType("all");
+    runSearch("all");
+  };
+
+  const handleTypeChange = (newType: SearchResultType | "all") => {
+    setType(newType);
+    runSearch(newType);
+  };
+
+  const openDocument = async (id: string) => {
+    try {
+      const res = await fetch(`/api/documents/${id}/download`);
+      if (res.ok) {
+        const { url } = await res.json();
+        window.open(url, "_blank");
+      }
+    } catch (err) {
+      console.error("Failed to get download URL:", err);
+    }
+  };
+
+  const totalForType = response
+    ? type === "all"
+      ? response.total
+      : response.counts[type]
+    : 0;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-slate-900">Search</h1>
+        <p className="text-slate-500">
+          Search document contents, CAPAs, audit findings and projects
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-slate-400" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder='e.g. membrane laps, "hot works" or flashing -gutter'
+            className="pl-9"
+            autoFocus
+          />
+        </div>
+        <Button type="submit" disabled={loading || query.trim().length < 2}>
+          {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : "Search"}
+        </Button>
+      </form>
+
+      {response && (
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant={type === "all" ? "default" : "outline"}
+            size="sm"
+            onClick={() => handleTypeChange("all")}
+          >
+            All ({response.total})
+          </Button>
+          {(Object.keys(typeConfig) as SearchResultType[]).map((t) => (
+            <Button
+              key={t}
+              variant={type === t ? "default" : "outline"}
+              size="sm"
+              onClick={() => handleTypeChange(t)}
+            >
+              {typeConfig[t].plural} ({response.counts[t]})
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {response && (
+        <Card>
+          <CardContent className="pt-6">
+            {results.length === 0 ? (
+              <div className="text-center py-12">
+                <Search className="h-12 w-12 text-slate-300 mx-auto mb-4" />
+                <p className="text-slate-500">No results for &ldquo;{response.query}&rdquo;</p>
+                <p className="text-sm text-slate-400 mt-1">
+                  Try fewer or different words
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {results.map((result) => {
+                  const config = typeConfig[result.type];
+                  const Icon = config.icon;
+                  const href = resultHref(result);
+                  const body = (
+                    <div className="flex items-start gap-4 p-4 border rounded-lg hover:bg-slate-50 transition-colors cursor-pointer">
+                      <div
+                        className={`h-10 w-10 shrink-0 rounded-full flex items-center justify-center ${config.color}`}
+                      >
+                        <Icon className="h-5 w-5" />
+                      </div>
+                      <div className="min-w-0 flex-1">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="font-medium text-slate-900">
+                            {result.title}
+                          </span>
+                          <span className="text-xs text-slate-400">
+                            {config.label}
+                            {result.subtitle && ` · ${result.subtitle}`}
+                          </span>
+                        </div>
+                        {result.highlight.length > 0 && (
+                          <p className="mt-1 text-sm text-slate-600 line-clamp-3">
+                            {result.highlight.map((segment, i) =>
+                              segment.match ? (
+                                <mark key={i} className="bg-yellow-100 text-slate-900 rounded-sm px-0.5">
+                                  {segment.text}
+                                </mark>
+                              ) : (
+                                <span key={i}>{segment.text}</span>
+                              )
+                            )}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  );
+
+                  return href ? (
+                    <Link key={`${result.type}-${result.id}`} href={href} className="block">
+                      {body}
+                    </Link>
+                  ) : (
+                    <button
+                      key={`${result.type}-${result.id}`}
+                      type="button"
+                      className="block w-full text-left"
+                      onClick={() => openDocument(result.id)}
+                    >
+                      {body}
+                    </button>
+                  );
+                })}
+
+                {results.length < totalForType && (
+                  <div className="flex justify-center pt-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={loading}
+                      onClick={() => runSearch(type, results.length)}
+                    >
+                      {loading && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                      Load more
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
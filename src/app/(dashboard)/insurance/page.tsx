@@ -5,6 +5,8 @@ import { Plus, Shield } from "lucide-react";
 import { db } from "@/lib/db";
 import { Button } from "@/components/ui/button";
 import { PolicyList } from "@/components/insurance/policy-list";
+import { CoverageTimeline } from "@/components/insurance/coverage-timeline";
+import { getCoverageTimeline } from "@/lib/insurance-coverage";
 
 export default async function InsurancePage() {
   const { orgId } = await auth();
@@ -18,6 +20,8 @@ export default async function InsurancePage() {
     include: {
       insurancePolicies: {
         orderBy: { expiryDate: "asc" },
+        // The broker's verification token must not reach the member
+        omit: { verificationToken: true },
       },
     },
   });
@@ -26,6 +30,8 @@ export default async function InsurancePage() {
     redirect("/onboarding");
   }
 
+  const coverageTimeline = await getCoverageTimeline(organization.id);
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -67,12 +73,15 @@ export default async function InsurancePage() {
           </div>
         </div>
       ) : (
-        <PolicyList
-          policies={organization.insurancePolicies.map((p) => ({
-            ...p,
-            coverageAmount: p.coverageAmount.toString(),
-          }))}
-        />
+        <>
+          <PolicyList
+            policies={organization.insurancePolicies.map((p) => ({
+              ...p,
+              coverageAmount: p.coverageAmount.toString(),
+            }))}
+          />
+          <CoverageTimeline timeline={coverageTimeline} />
+        </>
       )}
     </div>
   );
@@ -0,0 +1,186 @@
+"use client";
+
+import { useState, useEffect, use } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import {
+  ArrowLeft,
+  MapPin,
+  Calendar,
+  FileText,
+  Loader2,
+  Star,
+} from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { PhotoGallery } from "@/components/projects/photo-gallery";
+import {
+  PROJECT_TYPE_LABELS,
+  PROJECT_STATUS_LABELS,
+  type ProjectType,
+  type ProjectStatus,
+} from "@/types";
+
+interface ProjectDetail {
+  id: string;
+  projectNumber: string;
+  clientName: string;
+  clientEmail: string | null;
+  clientPhone: string | null;
+  siteAddress: string;
+  city: string | null;
+  region: string | null;
+  consentNumber: string | null;
+  projectType: ProjectType;
+  status: ProjectStatus;
+  startDate: string;
+  completionDate: string | null;
+  roofingSystem: string | null;
+  description: string | null;
+  warrantyYears: number | null;
+  documents: { id: string }[];
+  testimonial: {
+    rating: number;
+    verified: boolean;
+  } | null;
+}
+
+const statusColors: Record<ProjectStatus, string> = {
+  DRAFT: "bg-slate-100 text-slate-700",
+  IN_PROGRESS: "bg-blue-100 text-blue-700",
+  COMPLETED: "bg-green-100 text-green-700",
+  ON_HOLD: "bg-yellow-100 text-yellow-700",
+  CANCELLED: "bg-red-100 text-red-700",
+};
+
+function DetailRow({ label, value }: { label: string; value: string | number | null }) {
+  return (
+    <div>
+      <p className="text-xs text-slate-500">{label}</p>
+      <p className="text-sm text-slate-900">{value ?? "--"}</p>
+    </div>
+  );
+}
+
+export default function ProjectDetailPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = use(params);
+  const router = useRouter();
+  const [project, setProject] = useState<ProjectDetail | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    async function fetchProject() {
+      try {
+        const res = await fetch(`/api/projects/${id}`);
+        if (res.ok) {
+          setProject(await res.json());
+        } else {
+          router.push("/projects");
+        }
+      } catch (error) {
+        console.error("Failed to fetch project:", error);
+        router.push("/projects");
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchProject();
+  }, [id, router]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  if (!project) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <Link
+          href="/projects"
+          className="inline-flex items-center gap-1 text-sm text-slate-500 hover:text-slate-900 mb-3"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Back to projects
+        </Link>
+        <div className="flex items-center gap-3 mb-2">
+          <span className="text-sm font-mono text-slate-500">
+            {project.projectNumber}
+          </span>
+          <Badge className={statusColors[project.status]}>
+            {PROJECT_STATUS_LABELS[project.status]}
+          </Badge>
+          <Badge variant="outline">
+            {PROJECT_TYPE_LABELS[project.projectType]}
+          </Badge>
+        </div>
+        <h1 className="text-2xl font-bold text-slate-900">{project.clientName}</h1>
+        <div className="flex flex-wrap gap-4 mt-2 text-sm text-slate-600">
+          <span className="flex items-center gap-1">
+            <MapPin className="h-4 w-4" />
+            {project.siteAddress}
+            {project.city && `, ${project.city}`}
+          </span>
+          <span className="flex items-center gap-1">
+            <Calendar className="h-4 w-4" />
+            {new Date(project.startDate).toLocaleDateString("en-NZ")}
+            {project.completionDate &&
+              ` - ${new Date(project.completionDate).toLocaleDateString("en-NZ")}`}
+          </span>
+          {project.documents.length > 0 && (
+            <span className="flex items-center gap-1">
+              <FileText className="h-4 w-4" />
+              {project.documents.length} docs
+            </span>
+          )}
+          {project.testimonial?.verified && (
+            <span className="flex items-center gap-1 text-amber-600">
+              <Star className="h-4 w-4 fill-amber-400" />
+              {project.testimonial.rating}/5
+            </span>
+          )}
+        </div>
+      </div>
+
+      {/* Details */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Project Details</CardTitle>
+        </CardHeader>
+        <CardContent className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <DetailRow label="Client email" value={project.clientEmail} />
+          <DetailRow label="Client phone" value={project.clientPhone} />
+          <DetailRow label="Region" value={project.region} />
+          <DetailRow label="Consent number" value={project.consentNumber} />
+          <DetailRow label="Roofing system" value={project.roofingSystem} />
+          <DetailRow
+            label="Warranty"
+            value={project.warrantyYears ? `${project.warrantyYears} years` : null}
+          />
+          {project.description && (
+            <div className="col-span-2 md:col-span-4">
+              <p className="text-xs text-slate-500">Description</p>
+              <p className="text-sm text-slate-900 whitespace-pre-line">
+                {project.description}
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <PhotoGallery projectId={project.id} />
+    </div>
+  );
+}
@@ -10,6 +10,8 @@ import { StaffList } from "@/components/settings/staff-list";
 import { UserProfileSection } from "@/components/settings/user-profile-section";
 import { PersonalNotificationSettings } from "@/components/settings/personal-notification-settings";
 import { SecuritySettings } from "@/components/settings/security-settings";
+import { ApprovalPolicySettings } from "@/components/settings/approval-policy-settings";
+import { ApprovalDelegationSettings } from "@/components/settings/approval-delegation-settings";
 
 export default async function SettingsPage() {
   const { userId, orgId } = await auth();
@@ -74,6 +76,18 @@ export default async function SettingsPage() {
     });
   }
 
+  // Approver and delegate options (all users)
+  const approverOptions = (
+    await db.organizationMember.findMany({
+      where: { organizationId: organization.id },
+      select: { clerkUserId: true, firstName: true, lastName: true },
+      orderBy: { firstName: "asc" },
+    })
+  ).map((m) => ({
+    clerkUserId: m.clerkUserId,
+    name: `${m.firstName} ${m.lastName}`.trim(),
+  }));
+
   return (
     <div className="container mx-auto py-8 px-4 max-w-4xl">
       <div className="mb-8">
@@ -104,6 +118,7 @@ export default async function SettingsPage() {
                 phone: organization.phone,
                 address: organization.address,
                 city: organization.city,
+                region: organization.region,
                 description: organization.description,
                 logoKey: organization.logoKey,
               }}
@@ -150,6 +165,28 @@ export default async function SettingsPage() {
           </div>
         )}
 
+        {/* Admin-only: Document Approval Policies */}
+        {isAdmin && (
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-6">
+              Document Approval Policies
+            </h2>
+            <ApprovalPolicySettings members={approverOptions} />
+          </div>
+        )}
+
+        {/* ALL USERS: Approval Delegation */}
+        <div className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-6">
+            Approval Delegation
+          </h2>
+          <ApprovalDelegationSettings
+            members={approverOptions}
+            currentUserId={userId}
+            isAdmin={!!isAdmin}
+          />
+        </div>
+
         {/* ALL USERS: Personal Profile */}
         <div className="bg-white rounded-lg shadow p-6">
           <h2 className="text-lg font-semibold text-gray-900 mb-6">
@@ -8,11 +8,11 @@ export const runtime = 'nodejs';
  * Returns aggregated activity statistics for security monitoring dashboard.
  * Includes login counts, failed attempts, daily trends, and recent activity.
  *
- * Required role: RANZ_ADMIN or RANZ_STAFF
+ * Required permission: QP_ADMIN_AUDIT_TRAIL
  */
 
 import { db } from '@/lib/db';
-import { authenticateAdminRequest, adminAuthErrorResponse } from '@/lib/auth/admin-api';
+import { authorizeRequest, authorizationErrorResponse } from '@/lib/auth/rbac';
 import { AUTH_ACTIONS } from '@/lib/auth/audit';
 
 // Type for raw query date aggregation results
@@ -23,10 +23,9 @@ interface DateCount {
 
 export async function GET(request: Request): Promise<Response> {
   try {
-    // Authenticate admin (works with both Clerk and custom auth)
-    const authResult = await authenticateAdminRequest(request);
+    const authResult = await authorizeRequest(request, 'QP_ADMIN_AUDIT_TRAIL');
     if (!authResult.success) {
-      return adminAuthErrorResponse(authResult);
+      return authorizationErrorResponse(authResult);
     }
 
     // Parse query parameters
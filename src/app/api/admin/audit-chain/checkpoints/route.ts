@@ -0,0 +1,93 @@
+export const runtime = 'nodejs';
+
+/**
+ * Audit Chain Checkpoints Endpoint
+ *
+ * GET /api/admin/audit-chain/checkpoints
+ *   Paginated list of signed checkpoints (newest first). The signature is an
+ *   RS256 JWT that external auditors can check against JWT_PUBLIC_KEY.
+ *
+ * POST /api/admin/audit-chain/checkpoints
+ *   Checkpoints all entries written since the last checkpoint now, instead of
+ *   waiting for the daily cron.
+ *
+ * Required permission: QP_ADMIN_AUDIT_TRAIL (POST: QP_ADMIN_SETTINGS)
+ */
+
+import { db } from '@/lib/db';
+import { createAuditCheckpoints } from '@/lib/audit-log';
+import { authorizeRequest, authorizationErrorResponse } from '@/lib/auth/rbac';
+
+export async function GET(request: Request): Promise<Response> {
+  try {
+    const authResult = await authorizeRequest(request, 'QP_ADMIN_AUDIT_TRAIL');
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const url = new URL(request.url);
+    const page = Math.max(1, parseInt(url.searchParams.get('page') || '1', 10));
+    const limit = Math.min(200, Math.max(1, parseInt(url.searchParams.get('limit') || '50', 10)));
+
+    const [checkpoints, total] = await Promise.all([
+      db.auditLogCheckpoint.findMany({
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { toId: 'desc' },
+      }),
+      db.auditLogCheckpoint.count(),
+    ]);
+
+    // Serialize BigInt ids to strings for JSON
+    const serialized = checkpoints.map((checkpoint) => ({
+      ...checkpoint,
+      fromId: checkpoint.fromId.toString(),
+      toId: checkpoint.toId.toString(),
+    }));
+
+    return Response.json({
+      checkpoints: serialized,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('[Audit Checkpoints] Error:', error);
+    return Response.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request): Promise<Response> {
+  try {
+    const authResult = await authorizeRequest(request, 'QP_ADMIN_SETTINGS');
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const result = await createAuditCheckpoints();
+
+    if (result.break) {
+      return Response.json(
+        {
+          error: 'Audit chain is broken; no checkpoint was created past the break',
+          created: result.created,
+          entriesCovered: result.entriesCovered,
+          break: {
+            ...result.break,
+            fromId: result.break.fromId.toString(),
+            toId: result.break.toId.toString(),
+          },
+        },
+        { status: 409 }
+      );
+    }
+
+    return Response.json(result, { status: result.created > 0 ? 201 : 200 });
+  } catch (error) {
+    console.error('[Audit Checkpoints] Error:', error);
+    return Response.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
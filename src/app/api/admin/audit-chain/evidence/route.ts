@@ -0,0 +1,105 @@
+export const runtime = 'nodejs';
+
+/**
+ * Audit Evidence Bundle Export Endpoint
+ *
+ * POST /api/admin/audit-chain/evidence
+ *
+ * Produces a signed, self-contained JSON bundle of the AuditLog entries for an
+ * organization or a single resource within a date range, for accreditation
+ * bodies and legal requests. Verify offline with
+ * `npx tsx scripts/verify-evidence-bundle.ts <bundle.json> <public-key.pem>`.
+ *
+ * Required permission: QP_ADMIN_SETTINGS
+ */
+
+import { z } from 'zod/v4';
+import { db } from '@/lib/db';
+import { createAuditLog } from '@/lib/audit-log';
+import { buildEvidenceBundle, EvidenceTooLargeError } from '@/lib/audit-evidence';
+import { authorizeRequest, authorizationErrorResponse } from '@/lib/auth/rbac';
+
+const exportSchema = z
+  .object({
+    organizationId: z.string().min(1).optional(),
+    resourceType: z.string().min(1).optional(),
+    resourceId: z.string().min(1).optional(),
+    from: z.coerce.date(),
+    to: z.coerce.date(),
+  })
+  .refine((data) => !!data.organizationId !== !!(data.resourceType && data.resourceId), {
+    message: 'Provide either organizationId or resourceType and resourceId',
+  })
+  .refine((data) => data.from <= data.to, {
+    message: 'from must be before to',
+    path: ['from'],
+  });
+
+export async function POST(request: Request): Promise<Response> {
+  try {
+    const authResult = await authorizeRequest(request, 'QP_ADMIN_SETTINGS');
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const data = exportSchema.parse(await request.json());
+
+    if (data.organizationId) {
+      const organization = await db.organization.findUnique({
+        where: { id: data.organizationId },
+        select: { id: true },
+      });
+      if (!organization) {
+        return Response.json({ error: 'Organization not found' }, { status: 404 });
+      }
+    }
+
+    const scope = data.organizationId
+      ? { type: 'organization' as const, organizationId: data.organizationId }
+      : { type: 'resource' as const, resourceType: data.resourceType!, resourceId: data.resourceId! };
+
+    const bundle = await buildEvidenceBundle({
+      scope,
+      from: data.from,
+      to: data.to,
+      generatedBy: authResult.user.email,
+    });
+
+    await createAuditLog({
+      action: 'EXPORT',
+      resourceType: 'AuditEvidenceBundle',
+      resourceId: bundle.manifest.bundleId,
+      metadata: {
+        ...(data.organizationId && { organizationId: data.organizationId }),
+        scope,
+        from: bundle.manifest.window.from,
+        to: bundle.manifest.window.to,
+        entryCount: bundle.manifest.entryCount,
+        entriesDigest: bundle.manifest.entriesDigest,
+      },
+    });
+
+    const filename = `audit-evidence-${bundle.manifest.bundleId}.json`;
+
+    return new Response(JSON.stringify(bundle, null, 2), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return Response.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof EvidenceTooLargeError) {
+      return Response.json({ error: error.message }, { status: 413 });
+    }
+
+    console.error('[Audit Evidence Export] Error:', error);
+    return Response.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+export const runtime = 'nodejs';
+
+/**
+ * Audit Chain Verification Endpoint
+ *
+ * GET /api/admin/audit-chain/verify
+ *
+ * Verifies the AuditLog hash chain and signed checkpoints, either in full or
+ * for a time window (?from=ISO&to=ISO). Reports every broken range with the
+ * first and last affected entry rather than stopping at the first mismatch.
+ *
+ * Required permission: QP_ADMIN_AUDIT_TRAIL
+ */
+
+import { verifyAuditChain } from '@/lib/audit-log';
+import { authorizeRequest, authorizationErrorResponse } from '@/lib/auth/rbac';
+
+export async function GET(request: Request): Promise<Response> {
+  try {
+    const authResult = await authorizeRequest(request, 'QP_ADMIN_AUDIT_TRAIL');
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const url = new URL(request.url);
+    const fromParam = url.searchParams.get('from');
+    const toParam = url.searchParams.get('to');
+
+    const from = fromParam ? new Date(fromParam) : undefined;
+    const to = toParam ? new Date(toParam) : undefined;
+
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      return Response.json({ error: 'Invalid from/to date' }, { status: 400 });
+    }
+
+    const startedAt = Date.now();
+    const result = await verifyAuditChain(from || to ? { from, to } : undefined);
+
+    // Serialize BigInt ids to strings for JSON
+    return Response.json({
+      valid: result.valid,
+      message: result.message ?? null,
+      window: {
+        from: from?.toISOString() ?? null,
+        to: to?.toISOString() ?? null,
+      },
+      totalEntries: result.totalEntries,
+      firstId: result.firstId?.toString() ?? null,
+      lastId: result.lastId?.toString() ?? null,
+      checkpointsVerified: result.checkpointsVerified,
+      uncheckpointedEntries: result.uncheckpointedEntries,
+      brokenRanges: result.brokenRanges.map((range) => ({
+        ...range,
+        fromId: range.fromId.toString(),
+        toId: range.toId.toString(),
+      })),
+      checkpointFailures: result.checkpointFailures.map((failure) => ({
+        ...failure,
+        fromId: failure.fromId.toString(),
+        toId: failure.toId.toString(),
+      })),
+      durationMs: Date.now() - startedAt,
+    });
+  } catch (error) {
+    console.error('[Audit Chain Verify] Error:', error);
+    return Response.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
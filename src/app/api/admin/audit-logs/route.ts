@@ -8,11 +8,11 @@ export const runtime = 'nodejs';
  * Returns paginated list of authentication audit log entries with filtering.
  * Supports filtering by action, actor, resource, and date range.
  *
- * Required role: RANZ_ADMIN or RANZ_STAFF
+ * Required permission: QP_ADMIN_AUDIT_TRAIL
  */
 
 import { db } from '@/lib/db';
-import { authenticateAdminRequest, adminAuthErrorResponse } from '@/lib/auth/admin-api';
+import { authorizeRequest, authorizationErrorResponse } from '@/lib/auth/rbac';
 import { Prisma } from '@prisma/client';
 
 // Default to last 90 days for performance if no date range specified
@@ -20,10 +20,9 @@ const DEFAULT_LOOKBACK_DAYS = 90;
 
 export async function GET(request: Request): Promise<Response> {
   try {
-    // Authenticate admin (works with both Clerk and custom auth)
-    const authResult = await authenticateAdminRequest(request);
+    const authResult = await authorizeRequest(request, 'QP_ADMIN_AUDIT_TRAIL');
     if (!authResult.success) {
-      return adminAuthErrorResponse(authResult);
+      return authorizationErrorResponse(authResult);
     }
 
     // Parse query parameters
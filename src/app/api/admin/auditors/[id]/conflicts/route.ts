@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
+import { z } from "zod/v4";
+import { db } from "@/lib/db";
+import {
+  AuditorRegistryError,
+  conflictSchema,
+  declareConflict,
+} from "@/lib/auditor-registry";
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_ADMIN_SETTINGS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const { id } = await params;
+    const body = await req.json();
+    const data = conflictSchema.parse(body);
+
+    const auditor = await db.auditorProfile.findUnique({ where: { id }, select: { id: true } });
+
+    if (!auditor) {
+      return NextResponse.json({ error: "Auditor not found" }, { status: 404 });
+    }
+
+    const result = await declareConflict(auditor.id, data, authResult.user.id);
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof AuditorRegistryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error("Failed to record auditor conflict:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
+import { z } from "zod/v4";
+import { db } from "@/lib/db";
+import { createAuditLog } from "@/lib/audit-log";
+import { auditorProfileSchema } from "@/lib/auditor-registry";
+
+const updateSchema = auditorProfileSchema.partial().extend({
+  active: z.boolean().optional(),
+});
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_ADMIN_SETTINGS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const { id } = await params;
+    const body = await req.json();
+    const data = updateSchema.parse(body);
+
+    const existing = await db.auditorProfile.findUnique({ where: { id } });
+
+    if (!existing) {
+      return NextResponse.json({ error: "Auditor not found" }, { status: 404 });
+    }
+
+    const auditor = await db.auditorProfile.update({
+      where: { id },
+      data,
+    });
+
+    await createAuditLog({
+      action: "UPDATE",
+      resourceType: "AuditorProfile",
+      resourceId: id,
+      previousState: {
+        regions: existing.regions,
+        maxAuditsPerMonth: existing.maxAuditsPerMonth,
+        active: existing.active,
+      },
+      newState: {
+        regions: auditor.regions,
+        maxAuditsPerMonth: auditor.maxAuditsPerMonth,
+        active: auditor.active,
+      },
+    });
+
+    return NextResponse.json(auditor);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Failed to update auditor:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
+import { AuditorRegistryError, removeUnavailability } from "@/lib/auditor-registry";
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; periodId: string }> }
+) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_ADMIN_SETTINGS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const { id, periodId } = await params;
+
+    await removeUnavailability(id, periodId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof AuditorRegistryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error("Failed to remove auditor unavailability:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
+import { z } from "zod/v4";
+import { db } from "@/lib/db";
+import { addUnavailability, unavailabilitySchema } from "@/lib/auditor-registry";
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_ADMIN_SETTINGS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const { id } = await params;
+    const body = await req.json();
+    const data = unavailabilitySchema.parse(body);
+
+    const auditor = await db.auditorProfile.findUnique({ where: { id }, select: { id: true } });
+
+    if (!auditor) {
+      return NextResponse.json({ error: "Auditor not found" }, { status: 404 });
+    }
+
+    const period = await addUnavailability(auditor.id, data, authResult.user.id);
+
+    return NextResponse.json(period, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Failed to add auditor unavailability:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
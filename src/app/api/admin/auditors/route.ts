@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
+import { z } from "zod/v4";
+import { startOfDay } from "date-fns";
+import { db } from "@/lib/db";
+import { createAuditLog } from "@/lib/audit-log";
+import { AUDITOR_USER_TYPES, auditorProfileSchema } from "@/lib/auditor-registry";
+
+const createSchema = auditorProfileSchema.extend({
+  authUserId: z.string().min(1),
+});
+
+/**
+ * GET /api/admin/auditors
+ *
+ * The auditor registry, plus inspector accounts that have no profile yet.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_ADMIN_AUDITS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const today = startOfDay(new Date());
+
+    const [auditors, unregistered] = await Promise.all([
+      db.auditorProfile.findMany({
+        include: {
+          authUser: {
+            select: { firstName: true, lastName: true, email: true, userType: true, status: true },
+          },
+          unavailability: {
+            where: { endDate: { gte: today } },
+            orderBy: { startDate: "asc" },
+          },
+          conflicts: {
+            include: { organization: { select: { name: true } } },
+            orderBy: { createdAt: "desc" },
+          },
+          _count: {
+            select: {
+              audits: { where: { status: { in: ["SCHEDULED", "IN_PROGRESS"] } } },
+            },
+          },
+        },
+        orderBy: { authUser: { lastName: "asc" } },
+      }),
+      db.authUser.findMany({
+        where: {
+          userType: { in: AUDITOR_USER_TYPES },
+          status: "ACTIVE",
+          auditorProfile: null,
+        },
+        select: { id: true, firstName: true, lastName: true, email: true, userType: true },
+        orderBy: { lastName: "asc" },
+      }),
+    ]);
+
+    return NextResponse.json({ auditors, unregistered });
+  } catch (error) {
+    console.error("Failed to fetch auditors:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_ADMIN_SETTINGS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const body = await req.json();
+    const data = createSchema.parse(body);
+
+    const authUser = await db.authUser.findUnique({
+      where: { id: data.authUserId },
+      select: { id: true, userType: true, auditorProfile: { select: { id: true } } },
+    });
+
+    if (!authUser) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    if (!AUDITOR_USER_TYPES.includes(authUser.userType)) {
+      return NextResponse.json(
+        { error: "Only inspector accounts can be registered as auditors" },
+        { status: 400 }
+      );
+    }
+
+    if (authUser.auditorProfile) {
+      return NextResponse.json(
+        { error: "This user is already registered as an auditor" },
+        { status: 409 }
+      );
+    }
+
+    const auditor = await db.auditorProfile.create({
+      data: {
+        authUserId: authUser.id,
+        regions: data.regions,
+        maxAuditsPerMonth: data.maxAuditsPerMonth,
+        notes: data.notes,
+      },
+    });
+
+    await createAuditLog({
+      action: "CREATE",
+      resourceType: "AuditorProfile",
+      resourceId: auditor.id,
+      newState: {
+        authUserId: auditor.authUserId,
+        regions: auditor.regions,
+        maxAuditsPerMonth: auditor.maxAuditsPerMonth,
+      },
+    });
+
+    return NextResponse.json(auditor, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Failed to register auditor:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
+import { z } from "zod/v4";
+import {
+  AuditorRegistryError,
+  assignAuditor,
+  autoAssignAuditor,
+  getAuditorCandidates,
+} from "@/lib/auditor-registry";
+
+const assignSchema = z.union([
+  z.object({ auditorId: z.string().min(1) }),
+  z.object({ auto: z.literal(true) }),
+]);
+
+// GET /api/admin/audits/[id]/auditor - Ranked auditor suggestions
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_ADMIN_SETTINGS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const { id } = await params;
+    const candidates = await getAuditorCandidates(id);
+
+    return NextResponse.json({ candidates });
+  } catch (error) {
+    if (error instanceof AuditorRegistryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error("Failed to fetch auditor candidates:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/admin/audits/[id]/auditor - Assign a named auditor, or { auto: true }
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_ADMIN_SETTINGS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const { id } = await params;
+    const body = await req.json();
+    const data = assignSchema.parse(body);
+
+    if ("auto" in data) {
+      const result = await autoAssignAuditor(id);
+
+      if (!result) {
+        return NextResponse.json(
+          { error: "No auditor is available without conflicts, capacity or region warnings" },
+          { status: 409 }
+        );
+      }
+
+      return NextResponse.json(result);
+    }
+
+    const result = await assignAuditor(id, data.auditorId);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof AuditorRegistryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error("Failed to assign auditor:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
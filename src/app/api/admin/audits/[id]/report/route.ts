@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
+import { db } from "@/lib/db";
+import {
+  AuditReportError,
+  generateAuditReport,
+  getAuditReportDownload,
+} from "@/lib/audit-report";
+
+// GET /api/admin/audits/[id]/report - Signed download link for the audit report PDF
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_ADMIN_AUDITS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const { id } = await params;
+
+    const audit = await db.audit.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        organizationId: true,
+        auditNumber: true,
+        status: true,
+        reportKey: true,
+      },
+    });
+
+    if (!audit) {
+      return NextResponse.json({ error: "Audit not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(await getAuditReportDownload(audit));
+  } catch (error) {
+    if (error instanceof AuditReportError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error("Failed to get audit report:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/audits/[id]/report - Re-render, e.g. after CAPA due dates change
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_ADMIN_AUDITS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const { id } = await params;
+
+    await generateAuditReport(id);
+
+    const audit = await db.audit.findUniqueOrThrow({
+      where: { id },
+      select: { reportGeneratedAt: true },
+    });
+
+    return NextResponse.json(audit);
+  } catch (error) {
+    if (error instanceof AuditReportError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error("Failed to regenerate audit report:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
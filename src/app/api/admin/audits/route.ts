@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
+import { db } from "@/lib/db";
+
+/**
+ * GET /api/admin/audits?unassigned=true
+ * GET /api/admin/audits?completed=true
+ *
+ * Open audits across all organisations, soonest first, for auditor
+ * assignment; or recently completed audits with their reports.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_ADMIN_AUDITS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const { searchParams } = new URL(req.url);
+    const unassigned = searchParams.get("unassigned") === "true";
+    const completed = searchParams.get("completed") === "true";
+
+    const audits = await db.audit.findMany({
+      where: completed
+        ? { status: "COMPLETED" }
+        : {
+            status: { in: ["SCHEDULED", "IN_PROGRESS"] },
+            ...(unassigned ? { auditorName: null } : {}),
+          },
+      select: {
+        id: true,
+        auditNumber: true,
+        auditType: true,
+        status: true,
+        scheduledDate: true,
+        auditorProfileId: true,
+        auditorName: true,
+        auditorEmail: true,
+        completedAt: true,
+        rating: true,
+        reportGeneratedAt: true,
+        organization: { select: { id: true, name: true, region: true } },
+      },
+      orderBy: completed ? { completedAt: "desc" } : { scheduledDate: "asc" },
+      take: 200,
+    });
+
+    return NextResponse.json({ audits });
+  } catch (error) {
+    console.error("Failed to fetch audits:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,16 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@clerk/nextjs/server";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
 import { db } from "@/lib/db";
+import { getActiveQuestionSet } from "@/lib/audit-question-bank";
 import { createNotification } from "@/lib/notifications";
+import { emitWebhookEvent } from "@/lib/webhooks";
 import { z } from "zod/v4";
 
-// Check if user has RANZ admin role
-async function isRanzAdmin(): Promise<boolean> {
-  const { sessionClaims } = await auth();
-  const orgRole = sessionClaims?.org_role as string | undefined;
-  return orgRole === "ranz:admin";
-}
-
 const bulkEmailSchema = z.object({
   action: z.literal("bulk_email"),
   organizationIds: z.array(z.string()).min(1),
@@ -56,9 +51,9 @@ const bulkActionSchema = z.union([
 
 export async function POST(req: NextRequest) {
   try {
-    const isAdmin = await isRanzAdmin();
-    if (!isAdmin) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    const authResult = await authorizeRequest(req, "QP_ADMIN_SETTINGS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
     }
 
     const body = await req.json();
@@ -153,6 +148,9 @@ async function handleComplianceRecalc(
   const { calculateComplianceScore } = await import(
     "@/lib/compliance-v2"
   );
+  const { recordComplianceSnapshot } = await import(
+    "@/lib/compliance-history"
+  );
 
   const where = data.organizationIds?.length
     ? { id: { in: data.organizationIds } }
@@ -169,10 +167,15 @@ async function handleComplianceRecalc(
   for (const org of organizations) {
     try {
       const result = await calculateComplianceScore(org.id);
-      await db.organization.update({
+      const { certificationTier } = await db.organization.update({
         where: { id: org.id },
-        data: { complianceScore: result.overallScore },
+        data: {
+          complianceScore: result.overallScore,
+          compliancePolicyVersion: result.policyVersion,
+        },
+        select: { certificationTier: true },
       });
+      await recordComplianceSnapshot(org.id, certificationTier, result);
       updated++;
     } catch {
       failed.push(org.id);
@@ -196,6 +199,8 @@ async function handleScheduleAudits(
     select: { id: true, name: true },
   });
 
+  const questionSet = await getActiveQuestionSet();
+
   let scheduled = 0;
   const failed: string[] = [];
 
@@ -219,6 +224,7 @@ async function handleScheduleAudits(
           auditorName: data.auditorName,
           auditorEmail: data.auditorEmail,
           isoElements: [], // Will be set when audit starts
+          questionSetId: questionSet.id,
         },
       });
 
@@ -254,7 +260,7 @@ async function handleTierUpdate(
     try {
       const org = await db.organization.findUnique({
         where: { id: orgId },
-        select: { certificationTier: true },
+        select: { certificationTier: true, name: true },
       });
 
       if (!org) {
@@ -272,6 +278,16 @@ async function handleTierUpdate(
         },
       });
 
+      if (previousTier !== data.newTier) {
+        await emitWebhookEvent("TIER_CHANGED", {
+          organizationId: orgId,
+          organizationName: org.name,
+          previousTier,
+          newTier: data.newTier,
+          reason: data.reason ?? null,
+        });
+      }
+
       // Send notification about tier change
       const orgDetails = await db.organization.findUnique({
         where: { id: orgId },
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@clerk/nextjs/server";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
 import { db } from "@/lib/db";
 import { createAuditLog } from "@/lib/audit-log";
 import { z } from "zod";
@@ -26,15 +26,9 @@ export async function POST(
   { params }: { params: Promise<{ id: string; sectionId: string }> }
 ) {
   try {
-    const { userId, sessionClaims } = await auth();
-    if (!userId) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    const metadata = sessionClaims?.metadata as { role?: string } | undefined;
-    const userRole = metadata?.role;
-    if (userRole !== "ranz:admin") {
-      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    const authResult = await authorizeRequest(req, "QP_ADMIN_SETTINGS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
     }
 
     const { id, sectionId } = await params;
@@ -107,15 +101,9 @@ export async function PATCH(
   { params }: { params: Promise<{ id: string; sectionId: string }> }
 ) {
   try {
-    const { userId, sessionClaims } = await auth();
-    if (!userId) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    const metadata = sessionClaims?.metadata as { role?: string } | undefined;
-    const userRole = metadata?.role;
-    if (userRole !== "ranz:admin") {
-      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    const authResult = await authorizeRequest(req, "QP_ADMIN_SETTINGS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
     }
 
     const { id, sectionId } = await params;
@@ -183,15 +171,9 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string; sectionId: string }> }
 ) {
   try {
-    const { userId, sessionClaims } = await auth();
-    if (!userId) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    const metadata = sessionClaims?.metadata as { role?: string } | undefined;
-    const userRole = metadata?.role;
-    if (userRole !== "ranz:admin") {
-      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    const authResult = await authorizeRequest(req, "QP_ADMIN_SETTINGS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
     }
 
     const { id, sectionId } = await params;
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@clerk/nextjs/server";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
 import { db } from "@/lib/db";
 import { createAuditLog } from "@/lib/audit-log";
 import { z } from "zod";
@@ -77,17 +77,11 @@ const DEFAULT_CHECKLIST = {
   ],
 };
 
-export async function GET() {
+export async function GET(req: NextRequest) {
   try {
-    const { userId, sessionClaims } = await auth();
-    if (!userId) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    const metadata = sessionClaims?.metadata as { role?: string } | undefined;
-    const userRole = metadata?.role;
-    if (userRole !== "ranz:admin") {
-      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    const authResult = await authorizeRequest(req, "QP_ADMIN_SETTINGS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
     }
 
     // Auto-seed default checklist if none exist
@@ -150,15 +144,9 @@ export async function GET() {
 
 export async function POST(req: NextRequest) {
   try {
-    const { userId, sessionClaims } = await auth();
-    if (!userId) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    const metadata = sessionClaims?.metadata as { role?: string } | undefined;
-    const userRole = metadata?.role;
-    if (userRole !== "ranz:admin") {
-      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    const authResult = await authorizeRequest(req, "QP_ADMIN_SETTINGS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
     }
 
     const body = await req.json();
@@ -7,21 +7,20 @@ export const runtime = 'nodejs';
  *
  * Returns company details with list of associated users.
  *
- * Required role: RANZ_ADMIN or RANZ_STAFF
+ * Required permission: QP_ADMIN_COMPANIES
  */
 
 import { db } from '@/lib/db';
-import { authenticateAdminRequest, adminAuthErrorResponse } from '@/lib/auth/admin-api';
+import { authorizeRequest, authorizationErrorResponse } from '@/lib/auth/rbac';
 
 export async function GET(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
 ): Promise<Response> {
   try {
-    // Authenticate admin (works with both Clerk and custom auth)
-    const authResult = await authenticateAdminRequest(request);
+    const authResult = await authorizeRequest(request, 'QP_ADMIN_COMPANIES');
     if (!authResult.success) {
-      return adminAuthErrorResponse(authResult);
+      return authorizationErrorResponse(authResult);
     }
 
     const { id: companyId } = await params;
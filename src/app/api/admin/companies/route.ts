@@ -16,11 +16,11 @@ export const runtime = 'nodejs';
  * - sortBy: Field to sort by (default: createdAt)
  * - sortOrder: asc or desc (default: desc)
  *
- * Required role: RANZ_ADMIN or RANZ_STAFF
+ * Required permission: QP_ADMIN_COMPANIES
  */
 
 import { db } from '@/lib/db';
-import { authenticateAdminRequest, adminAuthErrorResponse } from '@/lib/auth/admin-api';
+import { authorizeRequest, authorizationErrorResponse } from '@/lib/auth/rbac';
 import { AuthCompanyStatus, Prisma } from '@prisma/client';
 
 /**
@@ -39,10 +39,9 @@ function isValidSortField(field: string): field is SortField {
 
 export async function GET(request: Request): Promise<Response> {
   try {
-    // Authenticate admin (works with both Clerk and custom auth)
-    const authResult = await authenticateAdminRequest(request);
+    const authResult = await authorizeRequest(request, 'QP_ADMIN_COMPANIES');
     if (!authResult.success) {
-      return adminAuthErrorResponse(authResult);
+      return authorizationErrorResponse(authResult);
     }
 
     // Parse query parameters
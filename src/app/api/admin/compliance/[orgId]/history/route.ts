@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
+import { db } from "@/lib/db";
+import { getComplianceHistory } from "@/lib/compliance-history";
+
+/**
+ * GET /api/admin/compliance/[orgId]/history
+ *
+ * Score history for an organization plus the points where it crossed the
+ * at-risk threshold, with the dimension and issue changes behind each one.
+ * Query params: days (default 90, max 730)
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ orgId: string }> }
+) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_ADMIN_REPORTS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const { orgId } = await params;
+
+    const organization = await db.organization.findUnique({
+      where: { id: orgId },
+      select: { id: true },
+    });
+
+    if (!organization) {
+      return NextResponse.json(
+        { error: "Organization not found" },
+        { status: 404 }
+      );
+    }
+
+    const daysParam = parseInt(req.nextUrl.searchParams.get("days") || "90", 10);
+    const days = Number.isNaN(daysParam)
+      ? 90
+      : Math.min(Math.max(daysParam, 1), 730);
+
+    const history = await getComplianceHistory(orgId, { days });
+
+    return NextResponse.json(history);
+  } catch (error) {
+    console.error("Error fetching compliance history:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
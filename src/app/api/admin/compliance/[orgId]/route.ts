@@ -1,29 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@clerk/nextjs/server";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
 import { db } from "@/lib/db";
 import { calculateComplianceScore } from "@/lib/compliance-v2";
 
-// Check if user has RANZ admin or auditor role
-async function isRanzStaff(): Promise<boolean> {
-  const { sessionClaims } = await auth();
-  const orgRole = sessionClaims?.org_role as string | undefined;
-  return orgRole === "ranz:admin" || orgRole === "ranz:auditor";
-}
-
 export async function GET(
   req: NextRequest,
   { params }: { params: Promise<{ orgId: string }> }
 ) {
   try {
-    // Authorization check
-    const isStaff = await isRanzStaff();
-    if (!isStaff) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
-    }
-
-    const { userId } = await auth();
-    if (!userId) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    const authResult = await authorizeRequest(req, "QP_ADMIN_REPORTS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
     }
 
     // Get orgId from params
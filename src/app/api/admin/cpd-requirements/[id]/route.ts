@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
+import { z } from "zod/v4";
+import { db } from "@/lib/db";
+import { createAuditLog } from "@/lib/audit-log";
+import { cpdRequirementFields, missingCycleStart } from "@/lib/cpd";
+
+const updateSchema = cpdRequirementFields.partial();
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_ADMIN_SETTINGS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const { id } = await params;
+
+    const existing = await db.cPDRequirement.findUnique({ where: { id } });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "CPD requirement not found" },
+        { status: 404 }
+      );
+    }
+
+    const body = await req.json();
+    const data = updateSchema.parse(body);
+
+    if (
+      missingCycleStart({
+        cycleAnchor: data.cycleAnchor ?? existing.cycleAnchor,
+        cycleStartDate:
+          data.cycleStartDate !== undefined
+            ? data.cycleStartDate
+            : existing.cycleStartDate,
+      })
+    ) {
+      return NextResponse.json(
+        { error: "Fixed-date cycles need a cycle start date" },
+        { status: 400 }
+      );
+    }
+
+    const requirement = await db.cPDRequirement.update({
+      where: { id },
+      data,
+    });
+
+    const summary = (r: typeof existing) => ({
+      name: r.name,
+      lbpClass: r.lbpClass,
+      certificationTier: r.certificationTier,
+      cycleMonths: r.cycleMonths,
+      cycleAnchor: r.cycleAnchor,
+      cycleStartDate: r.cycleStartDate?.toISOString() ?? null,
+      minPoints: r.minPoints,
+      categoryMinimums: r.categoryMinimums,
+      maxCarryOverPoints: r.maxCarryOverPoints,
+      active: r.active,
+    });
+
+    await createAuditLog({
+      action: "UPDATE",
+      resourceType: "CPDRequirement",
+      resourceId: id,
+      previousState: summary(existing),
+      newState: summary(requirement),
+    });
+
+    return NextResponse.json(requirement);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Failed to update CPD requirement:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_ADMIN_SETTINGS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const { id } = await params;
+
+    const existing = await db.cPDRequirement.findUnique({ where: { id } });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "CPD requirement not found" },
+        { status: 404 }
+      );
+    }
+
+    await db.cPDRequirement.delete({ where: { id } });
+
+    await createAuditLog({
+      action: "DELETE",
+      resourceType: "CPDRequirement",
+      resourceId: id,
+      previousState: {
+        name: existing.name,
+        minPoints: existing.minPoints,
+        cycleMonths: existing.cycleMonths,
+      },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to delete CPD requirement:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
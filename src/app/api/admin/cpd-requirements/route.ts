@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
+import { z } from "zod/v4";
+import { db } from "@/lib/db";
+import { createAuditLog } from "@/lib/audit-log";
+import {
+  cpdRequirementFields,
+  missingCycleStart,
+  DEFAULT_CPD_REQUIREMENT,
+} from "@/lib/cpd";
+
+export async function GET(req: NextRequest) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_ADMIN_SETTINGS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const requirements = await db.cPDRequirement.findMany({
+      orderBy: [{ active: "desc" }, { createdAt: "desc" }],
+    });
+
+    return NextResponse.json({
+      requirements,
+      defaultRequirement: DEFAULT_CPD_REQUIREMENT,
+    });
+  } catch (error) {
+    console.error("Failed to fetch CPD requirements:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_ADMIN_SETTINGS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const userId = authResult.user.id;
+
+    const body = await req.json();
+    const data = cpdRequirementFields.parse(body);
+
+    if (missingCycleStart(data)) {
+      return NextResponse.json(
+        { error: "Fixed-date cycles need a cycle start date" },
+        { status: 400 }
+      );
+    }
+
+    const requirement = await db.cPDRequirement.create({
+      data: { ...data, createdBy: userId },
+    });
+
+    await createAuditLog({
+      action: "CREATE",
+      resourceType: "CPDRequirement",
+      resourceId: requirement.id,
+      newState: {
+        name: requirement.name,
+        lbpClass: requirement.lbpClass,
+        certificationTier: requirement.certificationTier,
+        cycleMonths: requirement.cycleMonths,
+        cycleAnchor: requirement.cycleAnchor,
+        minPoints: requirement.minPoints,
+        categoryMinimums: requirement.categoryMinimums,
+        maxCarryOverPoints: requirement.maxCarryOverPoints,
+      },
+    });
+
+    return NextResponse.json(requirement, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Failed to create CPD requirement:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
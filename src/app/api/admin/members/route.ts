@@ -1,20 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@clerk/nextjs/server";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
 import { db } from "@/lib/db";
 import { COMPLIANCE_THRESHOLDS } from "@/types";
 
 export async function GET(req: NextRequest) {
   try {
-    const { userId, sessionClaims } = await auth();
-    if (!userId) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    // Verify admin role
-    const metadata = sessionClaims?.metadata as { role?: string } | undefined;
-    const userRole = metadata?.role;
-    if (userRole !== "ranz:admin" && userRole !== "ranz:auditor") {
-      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    const authResult = await authorizeRequest(req, "QP_ADMIN_REPORTS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
     }
 
     const { searchParams } = new URL(req.url);
@@ -55,6 +48,9 @@ export async function GET(req: NextRequest) {
           select: {
             policyType: true,
             expiryDate: true,
+            verified: true,
+            verifiedBy: true,
+            brokerEmail: true,
           },
         },
         audits: {
@@ -8,29 +8,18 @@ export const runtime = 'nodejs';
  * Exports all users from Clerk with sanitized data for review.
  * This is a read-only operation that does not modify any records.
  *
- * Required role: RANZ_ADMIN only
+ * Required permission: QP_ADMIN_SETTINGS
  */
 
 import { NextRequest } from 'next/server';
-import { getSessionFromRequest, verifyToken } from '@/lib/auth';
+import { authorizeRequest, authorizationErrorResponse } from '@/lib/auth/rbac';
 import { exportClerkUsers } from '@/lib/auth/migration/clerk-export';
 
 export async function GET(request: NextRequest) {
   try {
-    // Authenticate admin
-    const sessionToken = getSessionFromRequest(request);
-    if (!sessionToken) {
-      return Response.json({ error: 'Not authenticated' }, { status: 401 });
-    }
-
-    const payload = await verifyToken(sessionToken);
-    if (!payload) {
-      return Response.json({ error: 'Invalid session' }, { status: 401 });
-    }
-
-    // Check admin role (RANZ_ADMIN only for migration operations)
-    if (payload.role !== 'RANZ_ADMIN') {
-      return Response.json({ error: 'Unauthorized' }, { status: 403 });
+    const authResult = await authorizeRequest(request, 'QP_ADMIN_SETTINGS');
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
     }
 
     // Export all users from Clerk
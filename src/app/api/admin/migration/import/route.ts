@@ -11,12 +11,13 @@ export const runtime = 'nodejs';
  * - batch: Import specific users by array of clerkUserIds
  * - all: Import all Clerk users
  *
- * Required role: RANZ_ADMIN only
+ * Required permission: QP_ADMIN_SETTINGS
  */
 
 import { NextRequest } from 'next/server';
 import { z } from 'zod';
-import { getSessionFromRequest, verifyToken, logAuthEvent } from '@/lib/auth';
+import { logAuthEvent } from '@/lib/auth';
+import { authorizeRequest, authorizationErrorResponse } from '@/lib/auth/rbac';
 import {
   exportClerkUsers,
   exportClerkUser,
@@ -44,20 +45,9 @@ const importSchema = z.object({
 
 export async function POST(request: NextRequest) {
   try {
-    // Authenticate admin
-    const sessionToken = getSessionFromRequest(request);
-    if (!sessionToken) {
-      return Response.json({ error: 'Not authenticated' }, { status: 401 });
-    }
-
-    const payload = await verifyToken(sessionToken);
-    if (!payload) {
-      return Response.json({ error: 'Invalid session' }, { status: 401 });
-    }
-
-    // Check admin role (RANZ_ADMIN only for migration operations)
-    if (payload.role !== 'RANZ_ADMIN') {
-      return Response.json({ error: 'Unauthorized' }, { status: 403 });
+    const authResult = await authorizeRequest(request, 'QP_ADMIN_SETTINGS');
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
     }
 
     // Parse and validate request body
@@ -78,7 +68,7 @@ export async function POST(request: NextRequest) {
     const options = {
       setAuthMode,
       requirePasswordReset,
-      migratedBy: payload.sub,
+      migratedBy: authResult.user.id,
     };
 
     let result;
@@ -98,8 +88,8 @@ export async function POST(request: NextRequest) {
       // Log the migration action
       await logAuthEvent({
         action: 'MIGRATION_IMPORT_SINGLE',
-        actorId: payload.sub,
-        actorEmail: payload.email,
+        actorId: authResult.user.id,
+        actorEmail: authResult.user.email,
         resourceType: 'AuthUser',
         resourceId: mappingResult.authUserId || clerkUserId,
         metadata: JSON.parse(
@@ -122,8 +112,8 @@ export async function POST(request: NextRequest) {
       // Log the migration action
       await logAuthEvent({
         action: 'MIGRATION_IMPORT_BATCH',
-        actorId: payload.sub,
-        actorEmail: payload.email,
+        actorId: authResult.user.id,
+        actorEmail: authResult.user.email,
         resourceType: 'AuthUser',
         metadata: JSON.parse(
           JSON.stringify({
@@ -152,8 +142,8 @@ export async function POST(request: NextRequest) {
       // Log the migration action
       await logAuthEvent({
         action: 'MIGRATION_IMPORT_ALL',
-        actorId: payload.sub,
-        actorEmail: payload.email,
+        actorId: authResult.user.id,
+        actorEmail: authResult.user.email,
         resourceType: 'AuthUser',
         metadata: JSON.parse(
           JSON.stringify({
@@ -6,7 +6,7 @@ export const runtime = 'nodejs';
  * POST /api/admin/migration/migrate - Trigger user migration
  * GET /api/admin/migration/migrate - Get migration preview/progress
  *
- * Required role: RANZ_ADMIN
+ * Required permission: QP_ADMIN_SETTINGS
  *
  * Modes:
  * - single: Migrate individual user
@@ -16,7 +16,7 @@ export const runtime = 'nodejs';
 
 import { NextRequest } from 'next/server';
 import { z } from 'zod';
-import { getSessionFromRequest, verifyToken } from '@/lib/auth';
+import { authorizeRequest, authorizationErrorResponse } from '@/lib/auth/rbac';
 import {
   migrateUserToCustom,
   migrateNextCohort,
@@ -33,20 +33,9 @@ const migrateSchema = z.object({
 });
 
 export async function POST(request: NextRequest) {
-  // Authenticate admin
-  const sessionToken = getSessionFromRequest(request);
-  if (!sessionToken) {
-    return Response.json({ error: 'Not authenticated' }, { status: 401 });
-  }
-
-  const payload = await verifyToken(sessionToken);
-  if (!payload) {
-    return Response.json({ error: 'Invalid session' }, { status: 401 });
-  }
-
-  // Check RANZ_ADMIN role (migration is high-privilege)
-  if (payload.role !== 'RANZ_ADMIN') {
-    return Response.json({ error: 'Unauthorized - RANZ_ADMIN required' }, { status: 403 });
+  const authResult = await authorizeRequest(request, 'QP_ADMIN_SETTINGS');
+  if (!authResult.success) {
+    return authorizationErrorResponse(authResult);
   }
 
   const body = await request.json();
@@ -78,13 +67,13 @@ export async function POST(request: NextRequest) {
 
     if (mode === 'single' && userId) {
       // Migrate single user
-      const result = await migrateUserToCustom(userId, payload.sub, notes);
+      const result = await migrateUserToCustom(userId, authResult.user.id, notes);
       return Response.json({ mode: 'single', userId, ...result });
     }
 
     if (mode === 'cohort' && cohort) {
       // Migrate next cohort
-      const result = await migrateNextCohort(cohort, payload.sub);
+      const result = await migrateNextCohort(cohort, authResult.user.id);
       return Response.json({ mode: 'cohort', cohort, ...result });
     }
 
@@ -102,20 +91,9 @@ function getNextCohort(current: RolloutCohort): RolloutCohort | null {
 }
 
 export async function GET(request: NextRequest) {
-  // Authenticate admin
-  const sessionToken = getSessionFromRequest(request);
-  if (!sessionToken) {
-    return Response.json({ error: 'Not authenticated' }, { status: 401 });
-  }
-
-  const payload = await verifyToken(sessionToken);
-  if (!payload) {
-    return Response.json({ error: 'Invalid session' }, { status: 401 });
-  }
-
-  // Check RANZ_ADMIN role
-  if (payload.role !== 'RANZ_ADMIN') {
-    return Response.json({ error: 'Unauthorized - RANZ_ADMIN required' }, { status: 403 });
+  const authResult = await authorizeRequest(request, 'QP_ADMIN_SETTINGS');
+  if (!authResult.success) {
+    return authorizationErrorResponse(authResult);
   }
 
   // Return migration preview by default
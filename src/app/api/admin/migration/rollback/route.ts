@@ -6,7 +6,7 @@ export const runtime = 'nodejs';
  * POST /api/admin/migration/rollback - Trigger user rollback
  * GET /api/admin/migration/rollback - Get rollback candidates
  *
- * Required role: RANZ_ADMIN
+ * Required permission: QP_ADMIN_SETTINGS
  *
  * Modes:
  * - single: Rollback individual user
@@ -16,7 +16,7 @@ export const runtime = 'nodejs';
 
 import { NextRequest } from 'next/server';
 import { z } from 'zod';
-import { getSessionFromRequest, verifyToken } from '@/lib/auth';
+import { authorizeRequest, authorizationErrorResponse } from '@/lib/auth/rbac';
 import {
   rollbackUserToClerk,
   rollbackMigrationWindow,
@@ -32,20 +32,9 @@ const rollbackSchema = z.object({
 });
 
 export async function POST(request: NextRequest) {
-  // Authenticate admin
-  const sessionToken = getSessionFromRequest(request);
-  if (!sessionToken) {
-    return Response.json({ error: 'Not authenticated' }, { status: 401 });
-  }
-
-  const payload = await verifyToken(sessionToken);
-  if (!payload) {
-    return Response.json({ error: 'Invalid session' }, { status: 401 });
-  }
-
-  // Check RANZ_ADMIN role (rollback is high-privilege)
-  if (payload.role !== 'RANZ_ADMIN') {
-    return Response.json({ error: 'Unauthorized - RANZ_ADMIN required' }, { status: 403 });
+  const authResult = await authorizeRequest(request, 'QP_ADMIN_SETTINGS');
+  if (!authResult.success) {
+    return authorizationErrorResponse(authResult);
   }
 
   const body = await request.json();
@@ -72,7 +61,7 @@ export async function POST(request: NextRequest) {
 
     if (mode === 'single' && userId) {
       // Rollback single user
-      const result = await rollbackUserToClerk(userId, payload.sub, reason);
+      const result = await rollbackUserToClerk(userId, authResult.user.id, reason);
       return Response.json({ mode: 'single', userId, ...result });
     }
 
@@ -81,7 +70,7 @@ export async function POST(request: NextRequest) {
       const result = await rollbackMigrationWindow(
         new Date(startTime),
         new Date(endTime),
-        payload.sub,
+        authResult.user.id,
         reason
       );
       return Response.json({ mode: 'window', startTime, endTime, ...result });
@@ -95,20 +84,9 @@ export async function POST(request: NextRequest) {
 }
 
 export async function GET(request: NextRequest) {
-  // Authenticate admin
-  const sessionToken = getSessionFromRequest(request);
-  if (!sessionToken) {
-    return Response.json({ error: 'Not authenticated' }, { status: 401 });
-  }
-
-  const payload = await verifyToken(sessionToken);
-  if (!payload) {
-    return Response.json({ error: 'Invalid session' }, { status: 401 });
-  }
-
-  // Check RANZ_ADMIN role
-  if (payload.role !== 'RANZ_ADMIN') {
-    return Response.json({ error: 'Unauthorized - RANZ_ADMIN required' }, { status: 403 });
+  const authResult = await authorizeRequest(request, 'QP_ADMIN_SETTINGS');
+  if (!authResult.success) {
+    return authorizationErrorResponse(authResult);
   }
 
   // Return rollback candidates
@@ -11,30 +11,19 @@ export const runtime = 'nodejs';
  * - Cohort progress tracking
  * - Recent migrations
  *
- * Required role: RANZ_ADMIN only
+ * Required permission: QP_ADMIN_SETTINGS
  */
 
 import { NextRequest } from 'next/server';
 import { db } from '@/lib/db';
-import { getSessionFromRequest, verifyToken } from '@/lib/auth';
+import { authorizeRequest, authorizationErrorResponse } from '@/lib/auth/rbac';
 import { getClerkUserCount } from '@/lib/auth/migration/clerk-export';
 
 export async function GET(request: NextRequest) {
   try {
-    // Authenticate admin
-    const sessionToken = getSessionFromRequest(request);
-    if (!sessionToken) {
-      return Response.json({ error: 'Not authenticated' }, { status: 401 });
-    }
-
-    const payload = await verifyToken(sessionToken);
-    if (!payload) {
-      return Response.json({ error: 'Invalid session' }, { status: 401 });
-    }
-
-    // Check admin role (RANZ_ADMIN only for migration operations)
-    if (payload.role !== 'RANZ_ADMIN') {
-      return Response.json({ error: 'Unauthorized' }, { status: 403 });
+    const authResult = await authorizeRequest(request, 'QP_ADMIN_SETTINGS');
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
     }
 
     // Get migration status counts in parallel
@@ -1,14 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@clerk/nextjs/server";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
 import { db } from "@/lib/db";
 
 export async function GET(req: NextRequest) {
   try {
-    const { userId, orgRole } = await auth();
-
-    // Only RANZ admins can access SMS logs
-    if (!userId || orgRole !== "org:admin") {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    const authResult = await authorizeRequest(req, "QP_ADMIN_SETTINGS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
     }
 
     const { searchParams } = new URL(req.url);
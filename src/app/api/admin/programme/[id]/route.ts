@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@clerk/nextjs/server";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
 import { db } from "@/lib/db";
 import { z } from "zod/v4";
 import { createAuditLog } from "@/lib/audit-log";
@@ -16,17 +16,12 @@ export async function PATCH(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const { userId, sessionClaims } = await auth();
-    if (!userId) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    const authResult = await authorizeRequest(req, "QP_ADMIN_SETTINGS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
     }
 
-    // Only ranz:admin can modify (not auditors)
-    const metadata = sessionClaims?.metadata as { role?: string } | undefined;
-    const userRole = metadata?.role;
-    if (userRole !== "ranz:admin") {
-      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-    }
+    const userId = authResult.user.id;
 
     const { id } = await params;
 
@@ -160,13 +155,13 @@ export async function PATCH(
       resourceId: enrolment.id,
       previousState: {
         status: enrolment.status,
-        organizationId: enrolment.organizationId,
       },
       newState: {
         status: updatedEnrolment.status,
         action: data.action,
       },
       metadata: {
+        organizationId: enrolment.organizationId,
         organizationName: enrolment.organization.name,
         notes: data.notes || data.reason || null,
       },
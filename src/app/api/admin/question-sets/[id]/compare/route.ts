@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
+import {
+  diffQuestionSets,
+  findQuestionSet,
+  getBuiltInQuestionSet,
+  getPreviousQuestionSet,
+} from "@/lib/audit-question-bank";
+
+// GET /api/admin/question-sets/[id]/compare?from=<questionSetId|built-in>
+// `from` defaults to the latest version published before this one.
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_ADMIN_SETTINGS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const { id } = await params;
+    const { searchParams } = new URL(req.url);
+    const fromId = searchParams.get("from");
+
+    const to = await findQuestionSet(id);
+
+    if (!to) {
+      return NextResponse.json(
+        { error: "Question set not found" },
+        { status: 404 }
+      );
+    }
+
+    const from =
+      fromId === "built-in"
+        ? getBuiltInQuestionSet()
+        : fromId
+          ? await findQuestionSet(fromId)
+          : await getPreviousQuestionSet(to.version);
+
+    if (!from) {
+      return NextResponse.json(
+        { error: "Question set to compare against not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      from: { id: from.id, version: from.version, name: from.name },
+      to: { id: to.id, version: to.version, name: to.name },
+      ...diffQuestionSets(from, to),
+    });
+  } catch (error) {
+    console.error("Failed to compare question sets:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
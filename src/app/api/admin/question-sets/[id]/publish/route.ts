@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
+import { db } from "@/lib/db";
+import { createAuditLog } from "@/lib/audit-log";
+
+/**
+ * POST /api/admin/question-sets/[id]/publish
+ *
+ * Publishes a draft. Published versions are immutable; audits created from
+ * now on are built from this set and stay pinned to it.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_ADMIN_SETTINGS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const userId = authResult.user.id;
+
+    const { id } = await params;
+
+    const existing = await db.auditQuestionSet.findUnique({
+      where: { id },
+      include: { _count: { select: { questions: true } } },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Question set not found" },
+        { status: 404 }
+      );
+    }
+
+    if (existing.status !== "DRAFT") {
+      return NextResponse.json(
+        { error: "Question set has already been published" },
+        { status: 409 }
+      );
+    }
+
+    if (existing._count.questions === 0) {
+      return NextResponse.json(
+        { error: "Question set has no questions" },
+        { status: 400 }
+      );
+    }
+
+    // Publishing an older draft after a newer version would roll audits back
+    const newerPublished = await db.auditQuestionSet.count({
+      where: { status: "PUBLISHED", version: { gt: existing.version } },
+    });
+    if (newerPublished > 0) {
+      return NextResponse.json(
+        { error: "A newer version has already been published. Create a new draft instead." },
+        { status: 409 }
+      );
+    }
+
+    const questionSet = await db.auditQuestionSet.update({
+      where: { id },
+      data: {
+        status: "PUBLISHED",
+        publishedAt: new Date(),
+        publishedBy: userId,
+      },
+    });
+
+    await createAuditLog({
+      action: "APPROVE",
+      resourceType: "AuditQuestionSet",
+      resourceId: id,
+      previousState: { status: existing.status },
+      newState: {
+        status: questionSet.status,
+        version: questionSet.version,
+        questionCount: existing._count.questions,
+      },
+    });
+
+    return NextResponse.json(questionSet);
+  } catch (error) {
+    console.error("Failed to publish question set:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
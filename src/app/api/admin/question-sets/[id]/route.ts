@@ -0,0 +1,185 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
+import { z } from "zod/v4";
+import { db } from "@/lib/db";
+import { createAuditLog } from "@/lib/audit-log";
+import { bankQuestionsSchema } from "@/lib/audit-question-bank";
+
+const updateSchema = z.object({
+  name: z.string().min(3).max(200).optional(),
+  description: z.string().max(2000).nullable().optional(),
+  // Replaces the draft's questions in full
+  questions: bankQuestionsSchema.optional(),
+});
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_ADMIN_SETTINGS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const { id } = await params;
+
+    const questionSet = await db.auditQuestionSet.findUnique({
+      where: { id },
+      include: {
+        questions: { orderBy: [{ isoElement: "asc" }, { questionNumber: "asc" }] },
+        _count: { select: { audits: true } },
+      },
+    });
+
+    if (!questionSet) {
+      return NextResponse.json(
+        { error: "Question set not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(questionSet);
+  } catch (error) {
+    console.error("Failed to fetch question set:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_ADMIN_SETTINGS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const { id } = await params;
+
+    const existing = await db.auditQuestionSet.findUnique({
+      where: { id },
+      include: { _count: { select: { questions: true } } },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Question set not found" },
+        { status: 404 }
+      );
+    }
+
+    // Published versions are the record of what past audits were asked
+    if (existing.status !== "DRAFT") {
+      return NextResponse.json(
+        { error: "Published question sets cannot be edited. Create a new draft instead." },
+        { status: 409 }
+      );
+    }
+
+    const body = await req.json();
+    const { questions, ...data } = updateSchema.parse(body);
+
+    const questionSet = await db.$transaction(async (tx) => {
+      if (questions) {
+        await tx.auditQuestionBankItem.deleteMany({ where: { questionSetId: id } });
+        await tx.auditQuestionBankItem.createMany({
+          data: questions.map((question) => ({ ...question, questionSetId: id })),
+        });
+      }
+
+      return tx.auditQuestionSet.update({
+        where: { id },
+        data,
+        include: {
+          questions: { orderBy: [{ isoElement: "asc" }, { questionNumber: "asc" }] },
+        },
+      });
+    });
+
+    await createAuditLog({
+      action: "UPDATE",
+      resourceType: "AuditQuestionSet",
+      resourceId: id,
+      previousState: {
+        name: existing.name,
+        description: existing.description,
+        questionCount: existing._count.questions,
+      },
+      newState: {
+        name: questionSet.name,
+        description: questionSet.description,
+        questionCount: questionSet.questions.length,
+      },
+    });
+
+    return NextResponse.json(questionSet);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Failed to update question set:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_ADMIN_SETTINGS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const { id } = await params;
+
+    const existing = await db.auditQuestionSet.findUnique({ where: { id } });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Question set not found" },
+        { status: 404 }
+      );
+    }
+
+    if (existing.status !== "DRAFT") {
+      return NextResponse.json(
+        { error: "Only draft question sets can be deleted" },
+        { status: 409 }
+      );
+    }
+
+    await db.auditQuestionSet.delete({ where: { id } });
+
+    await createAuditLog({
+      action: "DELETE",
+      resourceType: "AuditQuestionSet",
+      resourceId: id,
+      previousState: {
+        version: existing.version,
+        name: existing.name,
+      },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to delete question set:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
+import { z } from "zod/v4";
+import { db } from "@/lib/db";
+import { createAuditLog } from "@/lib/audit-log";
+import {
+  findQuestionSet,
+  getActiveQuestionSet,
+  getNextQuestionSetVersion,
+} from "@/lib/audit-question-bank";
+
+const createSchema = z.object({
+  name: z.string().min(3).max(200),
+  description: z.string().max(2000).optional(),
+  // Set to copy questions from; defaults to the active set
+  sourceId: z.string().optional(),
+});
+
+export async function GET(req: NextRequest) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_ADMIN_SETTINGS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const [questionSets, active] = await Promise.all([
+      db.auditQuestionSet.findMany({
+        orderBy: { version: "desc" },
+        include: { _count: { select: { questions: true, audits: true } } },
+      }),
+      getActiveQuestionSet(),
+    ]);
+
+    return NextResponse.json({ questionSets, activeVersion: active.version });
+  } catch (error) {
+    console.error("Failed to fetch question sets:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_ADMIN_SETTINGS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const userId = authResult.user.id;
+
+    const body = await req.json();
+    const data = createSchema.parse(body);
+
+    const source = data.sourceId
+      ? await findQuestionSet(data.sourceId)
+      : await getActiveQuestionSet();
+
+    if (!source) {
+      return NextResponse.json(
+        { error: "Source question set not found" },
+        { status: 404 }
+      );
+    }
+
+    const questionSet = await db.auditQuestionSet.create({
+      data: {
+        version: await getNextQuestionSetVersion(),
+        name: data.name,
+        description: data.description,
+        createdBy: userId,
+        questions: { create: source.questions },
+      },
+    });
+
+    await createAuditLog({
+      action: "CREATE",
+      resourceType: "AuditQuestionSet",
+      resourceId: questionSet.id,
+      newState: {
+        version: questionSet.version,
+        name: questionSet.name,
+        sourceVersion: source.version,
+        questionCount: source.questions.length,
+      },
+    });
+
+    return NextResponse.json(questionSet, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Failed to create question set:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
+import { format } from "date-fns";
+import { db } from "@/lib/db";
+import { getSignedDownloadUrl } from "@/lib/r2";
+import { createAuditLog } from "@/lib/audit-log";
+import { REPORT_FILE_EXTENSIONS } from "@/lib/report-generation";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_ADMIN_REPORTS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const { id } = await params;
+
+    const report = await db.report.findUnique({ where: { id } });
+    if (!report) {
+      return NextResponse.json({ error: "Report not found" }, { status: 404 });
+    }
+
+    if (report.status !== "COMPLETED" || !report.storageKey || report.format === "JSON") {
+      return NextResponse.json(
+        { error: "Report file is not available", status: report.status },
+        { status: 409 }
+      );
+    }
+
+    const fileName = `${report.reportType.toLowerCase()}_${format(
+      report.generatedAt ?? report.createdAt,
+      "yyyy-MM-dd"
+    )}.${REPORT_FILE_EXTENSIONS[report.format]}`;
+    const url = await getSignedDownloadUrl(report.storageKey, 3600, fileName);
+
+    await createAuditLog({
+      action: "EXPORT",
+      resourceType: "Report",
+      resourceId: report.id,
+      metadata: {
+        reportType: report.reportType,
+        format: report.format,
+      },
+    });
+
+    return NextResponse.json({ url, fileName });
+  } catch (error) {
+    console.error("Failed to get report download URL:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,5 @@
 import { NextRequest } from "next/server";
-import { auth } from "@clerk/nextjs/server";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
 import { db } from "@/lib/db";
 import { format } from "date-fns";
 import { createAuditLog } from "@/lib/audit-log";
@@ -19,16 +19,9 @@ import { CertificationTier } from "@prisma/client";
  */
 export async function GET(req: NextRequest) {
   try {
-    const { userId, sessionClaims } = await auth();
-    if (!userId) {
-      return new Response("Unauthorized", { status: 401 });
-    }
-
-    // Authorization: RANZ admin or auditor only
-    const metadata = sessionClaims?.metadata as { role?: string } | undefined;
-    const userRole = metadata?.role;
-    if (userRole !== "ranz:admin" && userRole !== "ranz:auditor") {
-      return new Response("Forbidden", { status: 403 });
+    const authResult = await authorizeRequest(req, "QP_ADMIN_REPORTS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
     }
 
     // Parse optional tier filter
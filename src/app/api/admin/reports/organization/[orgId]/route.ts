@@ -1,34 +1,24 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@clerk/nextjs/server";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
 import { db } from "@/lib/db";
 import { calculateComplianceScore } from "@/lib/compliance-v2";
+import { COVERAGE_LOOKBACK_DAYS, getCoverageTimeline } from "@/lib/insurance-coverage";
 import { renderToBuffer } from "@react-pdf/renderer";
 import { ComplianceReportPDF } from "@/components/reports/pdf/compliance-report";
 import { createAuditLog } from "@/lib/audit-log";
 import { randomUUID } from "crypto";
 
-// Check if user has RANZ admin or auditor role
-async function isRanzStaff(): Promise<boolean> {
-  const { sessionClaims } = await auth();
-  const orgRole = sessionClaims?.org_role as string | undefined;
-  return orgRole === "ranz:admin" || orgRole === "ranz:auditor";
-}
-
 export async function GET(
   req: NextRequest,
   { params }: { params: Promise<{ orgId: string }> }
 ) {
   try {
-    // Authorization check
-    const isStaff = await isRanzStaff();
-    if (!isStaff) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    const authResult = await authorizeRequest(req, "QP_ADMIN_REPORTS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
     }
 
-    const { userId } = await auth();
-    if (!userId) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const userId = authResult.user.id;
 
     // Get orgId from params
     const { orgId } = await params;
@@ -61,6 +51,20 @@ export async function GET(
     // Calculate compliance using canonical engine
     const complianceResult = await calculateComplianceScore(orgId);
 
+    // Insurance cover since the last completed audit, and at least the last year
+    const lastAudit = await db.audit.findFirst({
+      where: { organizationId: orgId, status: "COMPLETED", completedAt: { not: null } },
+      orderBy: { completedAt: "desc" },
+      select: { completedAt: true },
+    });
+    const lookbackStart = new Date(Date.now() - COVERAGE_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    const coverageTimeline = await getCoverageTimeline(orgId, {
+      from:
+        lastAudit?.completedAt && lastAudit.completedAt < lookbackStart
+          ? lastAudit.completedAt
+          : lookbackStart,
+    });
+
     // Generate report ID
     const reportId = `RPT-${new Date().getFullYear()}-${randomUUID().slice(0, 8).toUpperCase()}`;
     const generatedAt = new Date();
@@ -70,6 +74,7 @@ export async function GET(
       ComplianceReportPDF({
         organization,
         complianceResult,
+        coverageTimeline,
         generatedAt,
         reportId,
       })
@@ -81,9 +86,11 @@ export async function GET(
       resourceType: "ComplianceReport",
       resourceId: orgId,
       metadata: {
+        organizationId: orgId,
         format: "PDF",
         reportId,
         complianceScore: complianceResult.overallScore,
+        continuousInsuranceCover: coverageTimeline.continuousCover,
         generatedBy: userId,
       },
     });
@@ -1,16 +1,10 @@
-import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@clerk/nextjs/server";
+import { NextRequest, NextResponse, after } from "next/server";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
 import { db } from "@/lib/db";
 import { generateReport } from "@/lib/reports";
+import { processReport } from "@/lib/report-generation";
 import { z } from "zod/v4";
 
-// Check if user has RANZ admin or auditor role
-async function isRanzStaff(): Promise<boolean> {
-  const { sessionClaims } = await auth();
-  const orgRole = sessionClaims?.org_role as string | undefined;
-  return orgRole === "ranz:admin" || orgRole === "ranz:auditor";
-}
-
 const reportRequestSchema = z.object({
   reportType: z.enum([
     "COMPLIANCE_SUMMARY",
@@ -32,9 +26,9 @@ const reportRequestSchema = z.object({
 
 export async function GET(req: NextRequest) {
   try {
-    const isStaff = await isRanzStaff();
-    if (!isStaff) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    const authResult = await authorizeRequest(req, "QP_ADMIN_REPORTS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
     }
 
     // List available reports
@@ -47,7 +41,9 @@ export async function GET(req: NextRequest) {
         title: true,
         status: true,
         format: true,
+        parameters: true,
         generatedAt: true,
+        errorMessage: true,
         createdAt: true,
         createdBy: true,
       },
@@ -65,15 +61,12 @@ export async function GET(req: NextRequest) {
 
 export async function POST(req: NextRequest) {
   try {
-    const isStaff = await isRanzStaff();
-    if (!isStaff) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    const authResult = await authorizeRequest(req, "QP_ADMIN_REPORTS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
     }
 
-    const { userId } = await auth();
-    if (!userId) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const userId = authResult.user.id;
 
     const body = await req.json();
     const data = reportRequestSchema.parse(body);
@@ -101,7 +94,7 @@ export async function POST(req: NextRequest) {
           startDate: data.startDate,
           endDate: data.endDate,
           format: "JSON",
-          status: "PENDING",
+          status: "COMPLETED",
           generatedAt: new Date(),
           createdBy: userId,
         },
@@ -133,7 +126,9 @@ export async function POST(req: NextRequest) {
       },
     });
 
-    // TODO: Queue report generation job for PDF/CSV/XLSX formats
+    // Render after the response is sent; /api/cron/reports picks up anything
+    // that doesn't finish (e.g. the function is recycled mid-render)
+    after(() => processReport(report.id));
 
     return NextResponse.json(
       {
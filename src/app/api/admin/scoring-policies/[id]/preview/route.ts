@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
+import { db } from "@/lib/db";
+import { toResolvedPolicy } from "@/lib/scoring-policy";
+import { previewScoringPolicyImpact } from "@/lib/compliance-v2";
+
+/**
+ * GET /api/admin/scoring-policies/[id]/preview
+ *
+ * What-if analysis: scores every organization under this policy and the
+ * active one and lists the organizations that would qualify for a
+ * different tier. Read-only.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_ADMIN_SETTINGS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const { id } = await params;
+
+    const policy = await db.scoringPolicy.findUnique({ where: { id } });
+
+    if (!policy) {
+      return NextResponse.json(
+        { error: "Scoring policy not found" },
+        { status: 404 }
+      );
+    }
+
+    const preview = await previewScoringPolicyImpact(toResolvedPolicy(policy));
+
+    return NextResponse.json(preview);
+  } catch (error) {
+    console.error("Failed to preview scoring policy:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
+import { z } from "zod/v4";
+import { db } from "@/lib/db";
+import { createAuditLog } from "@/lib/audit-log";
+import { scoringRulesSchema } from "@/lib/scoring-policy";
+
+const publishSchema = z.object({
+  // Defaults to the draft's effectiveFrom, or now
+  effectiveFrom: z.coerce.date().optional(),
+});
+
+/**
+ * POST /api/admin/scoring-policies/[id]/publish
+ *
+ * Publishes a draft. Published versions are immutable; scores calculated
+ * after effectiveFrom use this policy and record its version.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_ADMIN_SETTINGS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const userId = authResult.user.id;
+
+    const { id } = await params;
+
+    const existing = await db.scoringPolicy.findUnique({ where: { id } });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Scoring policy not found" },
+        { status: 404 }
+      );
+    }
+
+    if (existing.status !== "DRAFT") {
+      return NextResponse.json(
+        { error: "Policy has already been published" },
+        { status: 409 }
+      );
+    }
+
+    // Rules may predate a schema change; refuse to publish anything invalid
+    const rules = scoringRulesSchema.safeParse(existing.rules);
+    if (!rules.success) {
+      return NextResponse.json(
+        { error: "Policy rules are invalid", details: rules.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const data = publishSchema.parse(body);
+
+    const now = new Date();
+    const requested = data.effectiveFrom ?? existing.effectiveFrom ?? now;
+
+    // Backdating would silently change which policy produced existing scores.
+    // Date-only inputs land on midnight, so "today" is allowed and starts now.
+    if (requested.getTime() < now.getTime() - 24 * 60 * 60 * 1000) {
+      return NextResponse.json(
+        { error: "Effective date cannot be in the past" },
+        { status: 400 }
+      );
+    }
+    const effectiveFrom = requested < now ? now : requested;
+
+    const policy = await db.scoringPolicy.update({
+      where: { id },
+      data: {
+        status: "PUBLISHED",
+        effectiveFrom,
+        publishedAt: now,
+        publishedBy: userId,
+      },
+    });
+
+    await createAuditLog({
+      action: "APPROVE",
+      resourceType: "ScoringPolicy",
+      resourceId: id,
+      previousState: { status: existing.status },
+      newState: {
+        status: policy.status,
+        version: policy.version,
+        effectiveFrom: effectiveFrom.toISOString(),
+        rules: rules.data,
+      },
+    });
+
+    return NextResponse.json({
+      ...policy,
+      effectiveNow: effectiveFrom.getTime() <= now.getTime(),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Failed to publish scoring policy:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
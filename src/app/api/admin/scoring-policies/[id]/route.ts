@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
+import { z } from "zod/v4";
+import { db } from "@/lib/db";
+import { createAuditLog } from "@/lib/audit-log";
+import { scoringRulesSchema } from "@/lib/scoring-policy";
+
+const updateSchema = z.object({
+  name: z.string().min(3).max(200).optional(),
+  description: z.string().max(2000).nullable().optional(),
+  effectiveFrom: z.coerce.date().nullable().optional(),
+  rules: scoringRulesSchema.optional(),
+});
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_ADMIN_SETTINGS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const { id } = await params;
+
+    const policy = await db.scoringPolicy.findUnique({ where: { id } });
+
+    if (!policy) {
+      return NextResponse.json(
+        { error: "Scoring policy not found" },
+        { status: 404 }
+      );
+    }
+
+    const scoredOrganizations = await db.organization.count({
+      where: { compliancePolicyVersion: policy.version },
+    });
+
+    return NextResponse.json({ ...policy, scoredOrganizations });
+  } catch (error) {
+    console.error("Failed to fetch scoring policy:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_ADMIN_SETTINGS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const { id } = await params;
+
+    const existing = await db.scoringPolicy.findUnique({ where: { id } });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Scoring policy not found" },
+        { status: 404 }
+      );
+    }
+
+    // Published versions are the record of how past scores were produced
+    if (existing.status !== "DRAFT") {
+      return NextResponse.json(
+        { error: "Published policies cannot be edited. Create a new draft instead." },
+        { status: 409 }
+      );
+    }
+
+    const body = await req.json();
+    const data = updateSchema.parse(body);
+
+    const policy = await db.scoringPolicy.update({
+      where: { id },
+      data,
+    });
+
+    await createAuditLog({
+      action: "UPDATE",
+      resourceType: "ScoringPolicy",
+      resourceId: id,
+      previousState: {
+        name: existing.name,
+        effectiveFrom: existing.effectiveFrom?.toISOString() ?? null,
+        rules: existing.rules,
+      },
+      newState: {
+        name: policy.name,
+        effectiveFrom: policy.effectiveFrom?.toISOString() ?? null,
+        rules: policy.rules,
+      },
+    });
+
+    return NextResponse.json(policy);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Failed to update scoring policy:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_ADMIN_SETTINGS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const { id } = await params;
+
+    const existing = await db.scoringPolicy.findUnique({ where: { id } });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Scoring policy not found" },
+        { status: 404 }
+      );
+    }
+
+    if (existing.status !== "DRAFT") {
+      return NextResponse.json(
+        { error: "Only draft policies can be deleted" },
+        { status: 409 }
+      );
+    }
+
+    await db.scoringPolicy.delete({ where: { id } });
+
+    await createAuditLog({
+      action: "DELETE",
+      resourceType: "ScoringPolicy",
+      resourceId: id,
+      previousState: {
+        version: existing.version,
+        name: existing.name,
+      },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to delete scoring policy:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
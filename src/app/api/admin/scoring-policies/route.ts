@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
+import { z } from "zod/v4";
+import { db } from "@/lib/db";
+import { createAuditLog } from "@/lib/audit-log";
+import {
+  getActiveScoringPolicy,
+  getNextPolicyVersion,
+  scoringRulesSchema,
+  DEFAULT_SCORING_RULES,
+} from "@/lib/scoring-policy";
+
+const createSchema = z.object({
+  name: z.string().min(3).max(200),
+  description: z.string().max(2000).optional(),
+  effectiveFrom: z.coerce.date().optional(),
+  // Defaults to a copy of the active policy's rules
+  rules: scoringRulesSchema.optional(),
+});
+
+export async function GET(req: NextRequest) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_ADMIN_SETTINGS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const [policies, active] = await Promise.all([
+      db.scoringPolicy.findMany({ orderBy: { version: "desc" } }),
+      getActiveScoringPolicy(),
+    ]);
+
+    return NextResponse.json({
+      // Parsed so rules stored before a field existed come back with its default
+      policies: policies.map((policy) => ({
+        ...policy,
+        rules: scoringRulesSchema.parse(policy.rules),
+      })),
+      activeVersion: active.version,
+      defaultRules: DEFAULT_SCORING_RULES,
+    });
+  } catch (error) {
+    console.error("Failed to fetch scoring policies:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_ADMIN_SETTINGS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const userId = authResult.user.id;
+
+    const body = await req.json();
+    const data = createSchema.parse(body);
+
+    const rules = data.rules ?? (await getActiveScoringPolicy()).rules;
+
+    const policy = await db.scoringPolicy.create({
+      data: {
+        version: await getNextPolicyVersion(),
+        name: data.name,
+        description: data.description,
+        effectiveFrom: data.effectiveFrom,
+        rules,
+        createdBy: userId,
+      },
+    });
+
+    await createAuditLog({
+      action: "CREATE",
+      resourceType: "ScoringPolicy",
+      resourceId: policy.id,
+      newState: {
+        version: policy.version,
+        name: policy.name,
+        rules,
+      },
+    });
+
+    return NextResponse.json(policy, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Failed to create scoring policy:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,13 +1,12 @@
 import { NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { authenticateAdminRequest, adminAuthErrorResponse } from "@/lib/auth/admin-api";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
 
 export async function GET(request: Request) {
   try {
-    // Authenticate admin (works with both Clerk and custom auth)
-    const authResult = await authenticateAdminRequest(request, ['RANZ_ADMIN', 'RANZ_STAFF', 'RANZ_INSPECTOR']);
+    const authResult = await authorizeRequest(request, "QP_ADMIN_REPORTS");
     if (!authResult.success) {
-      return adminAuthErrorResponse(authResult);
+      return authorizationErrorResponse(authResult);
     }
 
     const now = new Date();
@@ -9,7 +9,7 @@ export const runtime = 'nodejs';
  *
  * All mutations are logged to AuthAuditLog.
  *
- * Required role: RANZ_ADMIN or RANZ_STAFF
+ * Required permission: QP_ADMIN_USERS
  */
 
 import { db } from '@/lib/db';
@@ -20,7 +20,7 @@ import {
   revokeAllUserSessions,
   type AuthAction,
 } from '@/lib/auth';
-import { authenticateAdminRequest, adminAuthErrorResponse } from '@/lib/auth/admin-api';
+import { authorizeRequest, authorizationErrorResponse } from '@/lib/auth/rbac';
 import { AuthUserStatus, AuthUserType } from '@prisma/client';
 
 /**
@@ -60,10 +60,9 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ): Promise<Response> {
   try {
-    // Authenticate admin (works with both Clerk and custom auth)
-    const authResult = await authenticateAdminRequest(request);
+    const authResult = await authorizeRequest(request, 'QP_ADMIN_USERS');
     if (!authResult.success) {
-      return adminAuthErrorResponse(authResult);
+      return authorizationErrorResponse(authResult);
     }
 
     const { id: userId } = await params;
@@ -95,10 +94,9 @@ export async function PUT(
   const ip = getIPFromRequest(request);
 
   try {
-    // Authenticate admin (works with both Clerk and custom auth)
-    const authResult = await authenticateAdminRequest(request);
+    const authResult = await authorizeRequest(request, 'QP_ADMIN_USERS');
     if (!authResult.success) {
-      return adminAuthErrorResponse(authResult);
+      return authorizationErrorResponse(authResult);
     }
 
     const { id: userId } = await params;
@@ -243,10 +241,9 @@ export async function PATCH(
   const ip = getIPFromRequest(request);
 
   try {
-    // Authenticate admin (works with both Clerk and custom auth)
-    const authResult = await authenticateAdminRequest(request);
+    const authResult = await authorizeRequest(request, 'QP_ADMIN_USERS');
     if (!authResult.success) {
-      return adminAuthErrorResponse(authResult);
+      return authorizationErrorResponse(authResult);
     }
 
     const { id: userId } = await params;
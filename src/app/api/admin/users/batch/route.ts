@@ -12,7 +12,7 @@ export const runtime = 'nodejs';
  *
  * All operations are executed in a transaction for atomicity.
  *
- * Required role: RANZ_ADMIN only (batch ops are high-risk)
+ * Required permission: QP_ADMIN_SETTINGS
  */
 
 import { db } from '@/lib/db';
@@ -23,7 +23,7 @@ import {
   revokeAllUserSessions,
   type AuthAction,
 } from '@/lib/auth';
-import { authenticateAdminRequest, adminAuthErrorResponse } from '@/lib/auth/admin-api';
+import { authorizeRequest, authorizationErrorResponse } from '@/lib/auth/rbac';
 import { AuthUserType } from '@prisma/client';
 
 /**
@@ -59,10 +59,9 @@ export async function POST(request: Request): Promise<Response> {
   const ip = getIPFromRequest(request);
 
   try {
-    // Authenticate admin (RANZ_ADMIN only for batch operations)
-    const authResult = await authenticateAdminRequest(request, ['RANZ_ADMIN']);
+    const authResult = await authorizeRequest(request, 'QP_ADMIN_SETTINGS');
     if (!authResult.success) {
-      return adminAuthErrorResponse(authResult);
+      return authorizationErrorResponse(authResult);
     }
 
     const actorId = authResult.user.id;
@@ -12,7 +12,7 @@ export const runtime = 'nodejs';
  * - AUTH-02: Welcome email with activation link
  * - AUTH-09: Configurable activation expiry (default 7 days)
  *
- * Required role: RANZ_ADMIN or RANZ_STAFF
+ * Required permission: QP_ADMIN_USERS
  */
 
 import { db } from '@/lib/db';
@@ -23,7 +23,7 @@ import {
   AUTH_ACTIONS,
   getIPFromRequest,
 } from '@/lib/auth';
-import { authenticateAdminRequest, adminAuthErrorResponse } from '@/lib/auth/admin-api';
+import { authorizeRequest, authorizationErrorResponse } from '@/lib/auth/rbac';
 import { AuthUserType } from '@prisma/client';
 
 /**
@@ -57,10 +57,9 @@ export async function POST(request: Request): Promise<Response> {
   const ip = getIPFromRequest(request);
 
   try {
-    // Authenticate admin (works with both Clerk and custom auth)
-    const authResult = await authenticateAdminRequest(request);
+    const authResult = await authorizeRequest(request, 'QP_ADMIN_USERS');
     if (!authResult.success) {
-      return adminAuthErrorResponse(authResult);
+      return authorizationErrorResponse(authResult);
     }
 
     // Parse request body
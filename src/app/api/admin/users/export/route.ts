@@ -8,7 +8,7 @@ export const runtime = 'nodejs';
  * Exports users as a downloadable CSV file with current filters applied.
  * Uses the same filter parameters as the user list endpoint.
  *
- * Required role: RANZ_ADMIN or RANZ_STAFF
+ * Required permission: QP_ADMIN_USERS
  */
 
 import { db } from '@/lib/db';
@@ -18,7 +18,7 @@ import {
   logAuthEvent,
   AUTH_ACTIONS,
 } from '@/lib/auth';
-import { authenticateAdminRequest, adminAuthErrorResponse } from '@/lib/auth/admin-api';
+import { authorizeRequest, authorizationErrorResponse } from '@/lib/auth/rbac';
 import { AuthUserStatus, AuthUserType, Prisma } from '@prisma/client';
 
 /**
@@ -30,10 +30,9 @@ export async function GET(request: Request): Promise<Response> {
   const ip = getIPFromRequest(request);
 
   try {
-    // Authenticate admin (works with both Clerk and custom auth)
-    const authResult = await authenticateAdminRequest(request);
+    const authResult = await authorizeRequest(request, 'QP_ADMIN_USERS');
     if (!authResult.success) {
-      return adminAuthErrorResponse(authResult);
+      return authorizationErrorResponse(authResult);
     }
 
     const actorId = authResult.user.id;
@@ -14,7 +14,7 @@ export const runtime = 'nodejs';
  * - Atomic transaction for user creation
  * - Welcome emails sent after successful import
  *
- * Required role: RANZ_ADMIN only (bulk operations are high-risk)
+ * Required permission: QP_ADMIN_SETTINGS
  */
 
 import { db } from '@/lib/db';
@@ -26,7 +26,7 @@ import {
   AUTH_ACTIONS,
   getIPFromRequest,
 } from '@/lib/auth';
-import { authenticateAdminRequest, adminAuthErrorResponse } from '@/lib/auth/admin-api';
+import { authorizeRequest, authorizationErrorResponse } from '@/lib/auth/rbac';
 import { AuthUserType } from '@prisma/client';
 
 /**
@@ -91,10 +91,9 @@ export async function POST(request: Request): Promise<Response> {
   const ip = getIPFromRequest(request);
 
   try {
-    // Authenticate admin (RANZ_ADMIN only for bulk operations)
-    const authResult = await authenticateAdminRequest(request, ['RANZ_ADMIN']);
+    const authResult = await authorizeRequest(request, 'QP_ADMIN_SETTINGS');
     if (!authResult.success) {
-      return adminAuthErrorResponse(authResult);
+      return authorizationErrorResponse(authResult);
     }
 
     const actorId = authResult.user.id;
@@ -8,11 +8,11 @@ export const runtime = 'nodejs';
  * Returns paginated list of users with search, filter, and sort capabilities.
  * Supports filtering by status, userType, and companyId.
  *
- * Required role: RANZ_ADMIN or RANZ_STAFF
+ * Required permission: QP_ADMIN_USERS
  */
 
 import { db } from '@/lib/db';
-import { authenticateAdminRequest, adminAuthErrorResponse } from '@/lib/auth/admin-api';
+import { authorizeRequest, authorizationErrorResponse } from '@/lib/auth/rbac';
 import { AuthUserStatus, AuthUserType, Prisma } from '@prisma/client';
 
 /**
@@ -39,10 +39,9 @@ function isValidSortField(field: string): field is SortField {
 
 export async function GET(request: Request): Promise<Response> {
   try {
-    // Authenticate admin (works with both Clerk and custom auth)
-    const authResult = await authenticateAdminRequest(request);
+    const authResult = await authorizeRequest(request, 'QP_ADMIN_USERS');
     if (!authResult.success) {
-      return adminAuthErrorResponse(authResult);
+      return authorizationErrorResponse(authResult);
     }
 
     // Parse query parameters
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
+import { db } from "@/lib/db";
+import { createAuditLog } from "@/lib/audit-log";
+import { redeliverWebhook } from "@/lib/webhooks";
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; deliveryId: string }> }
+) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_ADMIN_SETTINGS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const { id, deliveryId } = await params;
+
+    const delivery = await db.webhookDelivery.findFirst({
+      where: { id: deliveryId, endpointId: id },
+      select: { id: true, eventId: true, status: true },
+    });
+
+    if (!delivery) {
+      return NextResponse.json(
+        { error: "Webhook delivery not found" },
+        { status: 404 }
+      );
+    }
+
+    const result = await redeliverWebhook(delivery.id);
+
+    await createAuditLog({
+      action: "UPDATE",
+      resourceType: "WebhookDelivery",
+      resourceId: delivery.id,
+      previousState: { status: delivery.status },
+      newState: { status: result.success ? "SUCCEEDED" : "FAILED" },
+      metadata: {
+        operation: "redeliver",
+        endpointId: id,
+        eventId: delivery.eventId,
+        responseStatus: result.responseStatus,
+      },
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Failed to redeliver webhook:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
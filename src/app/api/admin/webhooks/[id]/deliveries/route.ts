@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
+import { db } from "@/lib/db";
+import type { Prisma, WebhookDeliveryStatus } from "@prisma/client";
+
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = ["PENDING", "SUCCEEDED", "FAILED"];
+
+// Delivery log for one endpoint, newest first, with each delivery's attempts
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_ADMIN_SETTINGS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const { id } = await params;
+    const { searchParams } = new URL(req.url);
+    const page = Math.max(1, parseInt(searchParams.get("page") || "1", 10));
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get("limit") || "25", 10)));
+    const status = searchParams.get("status") as WebhookDeliveryStatus | null;
+
+    const where: Prisma.WebhookDeliveryWhereInput = {
+      endpointId: id,
+      ...(status && DELIVERY_STATUSES.includes(status) && { status }),
+    };
+
+    const [deliveries, total] = await Promise.all([
+      db.webhookDelivery.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: "desc" },
+        include: {
+          event: true,
+          attempts: { orderBy: { attemptedAt: "desc" } },
+        },
+      }),
+      db.webhookDelivery.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      deliveries,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error("Failed to fetch webhook deliveries:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
+import { db } from "@/lib/db";
+import { createAuditLog } from "@/lib/audit-log";
+import { generateWebhookSecret } from "@/lib/webhooks";
+
+// Replaces the signing secret immediately; pending retries are signed with
+// the new secret, so receivers should accept both during their rollover.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_ADMIN_SETTINGS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const { id } = await params;
+
+    const existing = await db.webhookEndpoint.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Webhook endpoint not found" },
+        { status: 404 }
+      );
+    }
+
+    const endpoint = await db.webhookEndpoint.update({
+      where: { id },
+      data: { secret: generateWebhookSecret() },
+    });
+
+    await createAuditLog({
+      action: "UPDATE",
+      resourceType: "WebhookEndpoint",
+      resourceId: id,
+      metadata: { operation: "rotate_secret" },
+    });
+
+    return NextResponse.json({ id: endpoint.id, secret: endpoint.secret });
+  } catch (error) {
+    console.error("Failed to rotate webhook secret:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
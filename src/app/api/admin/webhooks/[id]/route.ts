@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
+import { z } from "zod/v4";
+import { db } from "@/lib/db";
+import { createAuditLog } from "@/lib/audit-log";
+import { WEBHOOK_EVENT_TYPES, maskWebhookSecret } from "@/lib/webhooks";
+
+const updateSchema = z.object({
+  name: z.string().min(3).max(200).optional(),
+  url: z
+    .url()
+    .refine((url) => url.startsWith("https://"), {
+      message: "Webhook URLs must use HTTPS",
+    })
+    .optional(),
+  description: z.string().max(2000).nullable().optional(),
+  eventTypes: z.array(z.enum(WEBHOOK_EVENT_TYPES)).optional(),
+  organizationIds: z.array(z.string()).optional(),
+  enabled: z.boolean().optional(),
+});
+
+function endpointState(endpoint: {
+  name: string;
+  url: string;
+  eventTypes: string[];
+  organizationIds: string[];
+  enabled: boolean;
+}) {
+  return {
+    name: endpoint.name,
+    url: endpoint.url,
+    eventTypes: endpoint.eventTypes,
+    organizationIds: endpoint.organizationIds,
+    enabled: endpoint.enabled,
+  };
+}
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_ADMIN_SETTINGS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const { id } = await params;
+
+    const endpoint = await db.webhookEndpoint.findUnique({ where: { id } });
+
+    if (!endpoint) {
+      return NextResponse.json(
+        { error: "Webhook endpoint not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      ...endpoint,
+      secret: maskWebhookSecret(endpoint.secret),
+    });
+  } catch (error) {
+    console.error("Failed to fetch webhook endpoint:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_ADMIN_SETTINGS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const { id } = await params;
+
+    const existing = await db.webhookEndpoint.findUnique({ where: { id } });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Webhook endpoint not found" },
+        { status: 404 }
+      );
+    }
+
+    const body = await req.json();
+    const data = updateSchema.parse(body);
+
+    const endpoint = await db.webhookEndpoint.update({
+      where: { id },
+      data,
+    });
+
+    await createAuditLog({
+      action: "UPDATE",
+      resourceType: "WebhookEndpoint",
+      resourceId: id,
+      previousState: endpointState(existing),
+      newState: endpointState(endpoint),
+    });
+
+    return NextResponse.json({
+      ...endpoint,
+      secret: maskWebhookSecret(endpoint.secret),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Failed to update webhook endpoint:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_ADMIN_SETTINGS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const { id } = await params;
+
+    const existing = await db.webhookEndpoint.findUnique({ where: { id } });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Webhook endpoint not found" },
+        { status: 404 }
+      );
+    }
+
+    // Deliveries and their attempt log are removed with the endpoint
+    await db.webhookEndpoint.delete({ where: { id } });
+
+    await createAuditLog({
+      action: "DELETE",
+      resourceType: "WebhookEndpoint",
+      resourceId: id,
+      previousState: endpointState(existing),
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to delete webhook endpoint:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
+import { z } from "zod/v4";
+import { db } from "@/lib/db";
+import { createAuditLog } from "@/lib/audit-log";
+import {
+  WEBHOOK_EVENT_TYPES,
+  generateWebhookSecret,
+  maskWebhookSecret,
+} from "@/lib/webhooks";
+
+const createSchema = z.object({
+  name: z.string().min(3).max(200),
+  url: z.url().refine((url) => url.startsWith("https://"), {
+    message: "Webhook URLs must use HTTPS",
+  }),
+  description: z.string().max(2000).optional(),
+  // Empty = all event types / all organizations
+  eventTypes: z.array(z.enum(WEBHOOK_EVENT_TYPES)).default([]),
+  organizationIds: z.array(z.string()).default([]),
+  enabled: z.boolean().default(true),
+});
+
+export async function GET(req: NextRequest) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_ADMIN_SETTINGS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const [endpoints, deliveryCounts] = await Promise.all([
+      db.webhookEndpoint.findMany({ orderBy: { createdAt: "desc" } }),
+      db.webhookDelivery.groupBy({
+        by: ["endpointId", "status"],
+        _count: { _all: true },
+      }),
+    ]);
+
+    return NextResponse.json({
+      endpoints: endpoints.map((endpoint) => {
+        const counts = { PENDING: 0, SUCCEEDED: 0, FAILED: 0 };
+        for (const row of deliveryCounts) {
+          if (row.endpointId === endpoint.id) {
+            counts[row.status] = row._count._all;
+          }
+        }
+
+        return {
+          ...endpoint,
+          secret: maskWebhookSecret(endpoint.secret),
+          deliveryCounts: counts,
+        };
+      }),
+      eventTypes: WEBHOOK_EVENT_TYPES,
+    });
+  } catch (error) {
+    console.error("Failed to fetch webhook endpoints:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_ADMIN_SETTINGS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const userId = authResult.user.id;
+
+    const body = await req.json();
+    const data = createSchema.parse(body);
+
+    const endpoint = await db.webhookEndpoint.create({
+      data: {
+        ...data,
+        secret: generateWebhookSecret(),
+        createdBy: userId,
+      },
+    });
+
+    await createAuditLog({
+      action: "CREATE",
+      resourceType: "WebhookEndpoint",
+      resourceId: endpoint.id,
+      newState: {
+        name: endpoint.name,
+        url: endpoint.url,
+        eventTypes: endpoint.eventTypes,
+        organizationIds: endpoint.organizationIds,
+        enabled: endpoint.enabled,
+      },
+    });
+
+    // The only response that includes the full secret (besides rotation)
+    return NextResponse.json(endpoint, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Failed to create webhook endpoint:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -161,7 +161,9 @@ export async function GET(req: NextRequest) {
           });
 
           await sendEmail({
-            to: organization.email,
+            to: policy.brokerEmail
+              ? [organization.email, policy.brokerEmail]
+              : organization.email,
             ...emailContent,
           });
 
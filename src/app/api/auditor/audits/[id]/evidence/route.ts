@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod/v4";
+import { db } from "@/lib/db";
+import { uploadToR2 } from "@/lib/r2";
+import {
+  FindingEvidenceError,
+  getEvidenceKeyPrefix,
+  storeEvidence,
+  type EvidenceTarget,
+} from "@/lib/finding-evidence";
+import { ensureChecklistRows } from "@/lib/audit-sync";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
+import {
+  canAccessAudit,
+  EDITABLE_AUDIT_STATUSES,
+} from "@/lib/auditor-workspace";
+import {
+  MAX_PHOTO_SIZE_BYTES,
+  detectPhotoMimeType,
+  sanitizeFileName,
+} from "@/lib/photo-processing";
+
+const isoElements = [
+  "QUALITY_POLICY",
+  "QUALITY_OBJECTIVES",
+  "ORG_STRUCTURE",
+  "PROCESS_MANAGEMENT",
+  "DOCUMENTATION",
+  "TRAINING_COMPETENCE",
+  "CONTRACT_REVIEW",
+  "DOCUMENT_CONTROL",
+  "PURCHASING",
+  "CUSTOMER_PRODUCT",
+  "TRACEABILITY",
+  "PROCESS_CONTROL",
+  "INSPECTION_TESTING",
+  "NONCONFORMING_PRODUCT",
+  "CORRECTIVE_ACTION",
+  "HANDLING_STORAGE",
+  "QUALITY_RECORDS",
+  "INTERNAL_AUDITS",
+  "SERVICING",
+] as const;
+
+// Photos captured offline carry a client-generated ID so a retried upload
+// lands on the same key instead of creating a duplicate
+const evidenceFieldsSchema = z.object({
+  clientId: z.string().regex(/^[A-Za-z0-9-]{8,64}$/),
+  isoElement: z.enum(isoElements),
+  questionNumber: z.coerce.number().int().positive(),
+});
+
+/**
+ * POST /api/auditor/audits/[id]/evidence
+ *
+ * Upload one photo captured in the auditor workspace against a question.
+ * The photo is hashed and recorded as finding evidence, which adds its key
+ * to the question; the workspace keeps the returned key only to skip the
+ * photo on a retried sync.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_VIEW_AUDITS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const { id } = await params;
+
+    const audit = await db.audit.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        status: true,
+        auditorId: true,
+        auditorEmail: true,
+        organizationId: true,
+      },
+    });
+
+    if (!audit || !(await canAccessAudit(authResult.user, audit))) {
+      return NextResponse.json({ error: "Audit not found" }, { status: 404 });
+    }
+
+    if (!EDITABLE_AUDIT_STATUSES.includes(audit.status)) {
+      return NextResponse.json(
+        { error: "Audit is no longer open for changes" },
+        { status: 409 }
+      );
+    }
+
+    const formData = await req.formData();
+    const file = formData.get("file") as File | null;
+    const fields = evidenceFieldsSchema.safeParse({
+      clientId: formData.get("clientId"),
+      isoElement: formData.get("isoElement"),
+      questionNumber: formData.get("questionNumber"),
+    });
+
+    if (!file || !fields.success) {
+      return NextResponse.json(
+        { error: "A file, clientId and checklist question are required" },
+        { status: 400 }
+      );
+    }
+
+    const { clientId, isoElement, questionNumber } = fields.data;
+
+    const rows = await ensureChecklistRows(audit.id, [{ isoElement, questionNumber }]);
+    const item = rows.find(
+      (row) => row.isoElement === isoElement && row.questionNumber === questionNumber
+    );
+
+    if (!item) {
+      return NextResponse.json({ error: "Checklist question not found" }, { status: 404 });
+    }
+
+    if (file.size > MAX_PHOTO_SIZE_BYTES) {
+      return NextResponse.json(
+        { error: "Photo exceeds maximum size of 25MB" },
+        { status: 400 }
+      );
+    }
+
+    const target: EvidenceTarget = {
+      type: "checklist",
+      organizationId: audit.organizationId,
+      auditId: audit.id,
+      checklistId: item.id,
+    };
+    const storageKey = `portal/${getEvidenceKeyPrefix(target)}${clientId}-${sanitizeFileName(file.name)}`;
+
+    // A retried upload after a dropped connection is already recorded
+    const existing = await db.findingEvidence.findUnique({
+      where: { storageKey },
+      select: { id: true },
+    });
+    if (existing) {
+      return NextResponse.json({ key: storageKey });
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const mimeType = await detectPhotoMimeType(buffer);
+
+    if (!mimeType) {
+      return NextResponse.json(
+        { error: "Invalid file type. Allowed: JPEG, PNG, WebP" },
+        { status: 400 }
+      );
+    }
+
+    await uploadToR2(buffer, storageKey.replace(/^portal\//, ""), mimeType);
+    await storeEvidence(
+      target,
+      buffer,
+      { storageKey, fileName: file.name || "photo.jpg", declaredType: mimeType },
+      authResult.user.id
+    );
+
+    return NextResponse.json({ key: storageKey }, { status: 201 });
+  } catch (error) {
+    if (error instanceof FindingEvidenceError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error("Failed to upload audit evidence:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
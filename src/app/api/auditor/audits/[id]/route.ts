@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
+import { canAccessAudit, getAuditPack } from "@/lib/auditor-workspace";
+
+/**
+ * GET /api/auditor/audits/[id]
+ *
+ * The offline pack for an audit: questions with guidance and required
+ * evidence, merged with the current checklist responses.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_VIEW_AUDITS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const { id } = await params;
+
+    const audit = await db.audit.findUnique({
+      where: { id },
+      select: { auditorId: true, auditorEmail: true, organizationId: true },
+    });
+
+    if (!audit || !(await canAccessAudit(authResult.user, audit))) {
+      return NextResponse.json({ error: "Audit not found" }, { status: 404 });
+    }
+
+    const pack = await getAuditPack(id);
+
+    return NextResponse.json(pack);
+  } catch (error) {
+    console.error("Failed to fetch audit pack:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
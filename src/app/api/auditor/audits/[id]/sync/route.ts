@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod/v4";
+import { db } from "@/lib/db";
+import { createAuditLog } from "@/lib/audit-log";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
+import { applyChecklistChanges } from "@/lib/audit-sync";
+import {
+  canAccessAudit,
+  EDITABLE_AUDIT_STATUSES,
+  getAuditPack,
+} from "@/lib/auditor-workspace";
+
+const isoElements = [
+  "QUALITY_POLICY",
+  "QUALITY_OBJECTIVES",
+  "ORG_STRUCTURE",
+  "PROCESS_MANAGEMENT",
+  "DOCUMENTATION",
+  "TRAINING_COMPETENCE",
+  "CONTRACT_REVIEW",
+  "DOCUMENT_CONTROL",
+  "PURCHASING",
+  "CUSTOMER_PRODUCT",
+  "TRACEABILITY",
+  "PROCESS_CONTROL",
+  "INSPECTION_TESTING",
+  "NONCONFORMING_PRODUCT",
+  "CORRECTIVE_ACTION",
+  "HANDLING_STORAGE",
+  "QUALITY_RECORDS",
+  "INTERNAL_AUDITS",
+  "SERVICING",
+] as const;
+
+const fieldValuesSchema = z.object({
+  response: z
+    .enum([
+      "CONFORMING",
+      "MINOR_NONCONFORMITY",
+      "MAJOR_NONCONFORMITY",
+      "OBSERVATION",
+      "NOT_APPLICABLE",
+    ])
+    .nullable()
+    .optional(),
+  finding: z.string().max(5000).nullable().optional(),
+  severity: z
+    .enum(["OBSERVATION", "MINOR", "MAJOR", "CRITICAL"])
+    .nullable()
+    .optional(),
+  auditorNotes: z.string().max(5000).nullable().optional(),
+});
+
+const syncSchema = z.object({
+  changes: z
+    .array(
+      z.object({
+        isoElement: z.enum(isoElements),
+        questionNumber: z.number().int().min(1),
+        base: fieldValuesSchema,
+        changes: fieldValuesSchema,
+      })
+    )
+    .max(500),
+});
+
+/**
+ * POST /api/auditor/audits/[id]/sync
+ *
+ * Apply responses captured offline. Each change carries the values the
+ * auditor started from; fields changed on the server since then are returned
+ * as conflicts instead of being overwritten. Responds with the per-question
+ * results and a fresh audit pack.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_VIEW_AUDITS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const { id } = await params;
+
+    const audit = await db.audit.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        status: true,
+        auditorId: true,
+        auditorEmail: true,
+        organizationId: true,
+      },
+    });
+
+    if (!audit || !(await canAccessAudit(authResult.user, audit))) {
+      return NextResponse.json({ error: "Audit not found" }, { status: 404 });
+    }
+
+    if (!EDITABLE_AUDIT_STATUSES.includes(audit.status)) {
+      return NextResponse.json(
+        { error: "Audit is no longer open for changes" },
+        { status: 409 }
+      );
+    }
+
+    const body = await req.json();
+    const { changes } = syncSchema.parse(body);
+
+    const results = await applyChecklistChanges(id, changes);
+    const applied = results.filter((r) => r.status === "applied").length;
+    const conflicts = results.filter((r) => r.status === "conflict").length;
+
+    if (audit.status === "SCHEDULED" && changes.length > 0) {
+      await db.audit.update({
+        where: { id },
+        data: { status: "IN_PROGRESS", startedAt: new Date() },
+      });
+
+      await createAuditLog({
+        action: "AUDIT_START",
+        resourceType: "Audit",
+        resourceId: id,
+        previousState: { status: audit.status },
+        newState: { status: "IN_PROGRESS" },
+        metadata: { organizationId: audit.organizationId, source: "auditor-workspace" },
+      });
+    }
+
+    if (changes.length > 0) {
+      await createAuditLog({
+        action: "UPDATE",
+        resourceType: "AuditChecklist",
+        resourceId: id,
+        metadata: {
+          organizationId: audit.organizationId,
+          source: "auditor-workspace",
+          applied,
+          conflicts,
+        },
+      });
+    }
+
+    const pack = await getAuditPack(id);
+
+    return NextResponse.json({ results, pack });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Failed to sync audit checklist:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
+import { getAuditorAudits } from "@/lib/auditor-workspace";
+
+/**
+ * GET /api/auditor/audits
+ *
+ * Open audits assigned to the signed-in auditor across all organisations.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_VIEW_AUDITS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const audits = await getAuditorAudits(authResult.user);
+
+    return NextResponse.json({ audits });
+  } catch (error) {
+    console.error("Failed to fetch auditor audits:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
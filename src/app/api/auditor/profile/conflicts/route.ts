@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
+import { z } from "zod/v4";
+import {
+  AuditorRegistryError,
+  conflictSchema,
+  declareConflict,
+  getAuditorProfileForUser,
+} from "@/lib/auditor-registry";
+
+// Auditors can declare conflicts; only administrators can withdraw them
+export async function POST(req: NextRequest) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_VIEW_AUDITS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const profile = await getAuditorProfileForUser(authResult.user);
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: "You are not registered as an auditor" },
+        { status: 404 }
+      );
+    }
+
+    const body = await req.json();
+    const data = conflictSchema.parse(body);
+
+    const result = await declareConflict(profile.id, data, authResult.user.id);
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof AuditorRegistryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error("Failed to declare conflict:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { startOfDay } from "date-fns";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
+import { db } from "@/lib/db";
+import { getAuditorProfileForUser } from "@/lib/auditor-registry";
+
+/**
+ * GET /api/auditor/profile
+ *
+ * The signed-in auditor's registry entry: regions, upcoming unavailability
+ * and declared conflicts, plus the organisations a conflict can be declared
+ * against.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_VIEW_AUDITS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const profile = await getAuditorProfileForUser(authResult.user);
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: "You are not registered as an auditor" },
+        { status: 404 }
+      );
+    }
+
+    const [unavailability, conflicts, organizations] = await Promise.all([
+      db.auditorUnavailability.findMany({
+        where: { auditorId: profile.id, endDate: { gte: startOfDay(new Date()) } },
+        orderBy: { startDate: "asc" },
+      }),
+      db.auditorConflict.findMany({
+        where: { auditorId: profile.id },
+        include: { organization: { select: { name: true } } },
+        orderBy: { createdAt: "desc" },
+      }),
+      db.organization.findMany({
+        select: { id: true, name: true },
+        orderBy: { name: "asc" },
+      }),
+    ]);
+
+    return NextResponse.json({ profile, unavailability, conflicts, organizations });
+  } catch (error) {
+    console.error("Failed to fetch auditor profile:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
+import {
+  AuditorRegistryError,
+  getAuditorProfileForUser,
+  removeUnavailability,
+} from "@/lib/auditor-registry";
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_VIEW_AUDITS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const profile = await getAuditorProfileForUser(authResult.user);
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: "You are not registered as an auditor" },
+        { status: 404 }
+      );
+    }
+
+    const { id } = await params;
+
+    await removeUnavailability(profile.id, id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof AuditorRegistryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error("Failed to remove unavailability:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
+import { z } from "zod/v4";
+import {
+  addUnavailability,
+  getAuditorProfileForUser,
+  unavailabilitySchema,
+} from "@/lib/auditor-registry";
+
+export async function POST(req: NextRequest) {
+  try {
+    const authResult = await authorizeRequest(req, "QP_VIEW_AUDITS");
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
+    }
+
+    const profile = await getAuditorProfileForUser(authResult.user);
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: "You are not registered as an auditor" },
+        { status: 404 }
+      );
+    }
+
+    const body = await req.json();
+    const data = unavailabilitySchema.parse(body);
+
+    const period = await addUnavailability(profile.id, data, authResult.user.id);
+
+    return NextResponse.json(period, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Failed to add unavailability:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import {
+  FindingEvidenceError,
+  getChecklistEvidenceTarget,
+  removeEvidence,
+} from "@/lib/finding-evidence";
+
+/**
+ * DELETE /api/audits/[id]/checklist/[itemId]/evidence/[evidenceId]
+ *
+ * Detach evidence from an audit question. The file is kept if a CAPA
+ * still references it.
+ */
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string; itemId: string; evidenceId: string }> }
+) {
+  try {
+    const { orgId } = await auth();
+    if (!orgId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: auditId, itemId, evidenceId } = await params;
+    const target = await getChecklistEvidenceTarget(orgId, auditId, itemId, {
+      forUpdate: true,
+    });
+
+    await removeEvidence(target, evidenceId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof FindingEvidenceError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error("Failed to delete checklist evidence:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
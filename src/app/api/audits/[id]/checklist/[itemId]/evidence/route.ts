@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod/v4";
+import {
+  FindingEvidenceError,
+  getChecklistEvidenceTarget,
+  listEvidence,
+  registerEvidence,
+} from "@/lib/finding-evidence";
+
+const registerEvidenceSchema = z.object({
+  storageKey: z.string().min(1),
+  fileName: z.string().min(1).max(255),
+  mimeType: z.string().max(255),
+});
+
+/**
+ * GET /api/audits/[id]/checklist/[itemId]/evidence
+ *
+ * Evidence for one audit question, with signed preview and download URLs.
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string; itemId: string }> }
+) {
+  try {
+    const { orgId } = await auth();
+    if (!orgId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: auditId, itemId } = await params;
+    const target = await getChecklistEvidenceTarget(orgId, auditId, itemId);
+
+    return NextResponse.json({ evidence: await listEvidence(target) });
+  } catch (error) {
+    if (error instanceof FindingEvidenceError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error("Failed to fetch checklist evidence:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/audits/[id]/checklist/[itemId]/evidence
+ *
+ * Register a file uploaded to the URL from .../evidence/upload-url. The
+ * object is type-checked, size-checked and hashed before it is attached.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; itemId: string }> }
+) {
+  try {
+    const { orgId, userId } = await auth();
+    if (!orgId || !userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: auditId, itemId } = await params;
+    const target = await getChecklistEvidenceTarget(orgId, auditId, itemId, {
+      forUpdate: true,
+    });
+
+    const body = await req.json();
+    const data = registerEvidenceSchema.parse(body);
+
+    const evidence = await registerEvidence(
+      target,
+      { storageKey: data.storageKey, fileName: data.fileName, declaredType: data.mimeType },
+      userId
+    );
+
+    return NextResponse.json(evidence, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+    if (error instanceof FindingEvidenceError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error("Failed to register checklist evidence:", error);
+    return NextResponse.json(
+      { error: "Failed to save evidence" },
+      { status: 500 }
+    );
+  }
+}
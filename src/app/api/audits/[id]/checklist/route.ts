@@ -17,7 +17,6 @@ const updateChecklistItemSchema = z.object({
   finding: z.string().optional(),
   severity: z.enum(["OBSERVATION", "MINOR", "MAJOR", "CRITICAL"]).optional(),
   auditorNotes: z.string().optional(),
-  evidenceKeys: z.array(z.string()).optional(),
 });
 
 const bulkUpdateSchema = z.object({
@@ -127,7 +126,6 @@ export async function PATCH(
             finding: item.finding,
             severity: item.severity,
             auditorNotes: item.auditorNotes,
-            evidenceKeys: item.evidenceKeys,
           },
         })
       )
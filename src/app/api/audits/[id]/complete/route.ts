@@ -1,4 +1,4 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest, NextResponse, after } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { db } from "@/lib/db";
 import { z } from "zod/v4";
@@ -7,6 +7,9 @@ import {
   getAuditFrequencyMonths,
   scheduleFollowUpAudit,
 } from "@/lib/audit-scheduling";
+import { emitWebhookEvent } from "@/lib/webhooks";
+import { carryOverEvidenceToCapa } from "@/lib/finding-evidence";
+import { generateAuditReport } from "@/lib/audit-report";
 
 const completeAuditSchema = z.object({
   rating: z.enum(["PASS", "PASS_WITH_OBSERVATIONS", "CONDITIONAL_PASS", "FAIL"]),
@@ -128,6 +131,9 @@ export async function POST(
           },
         });
 
+        // Uploaded files stay linked to the finding and now the CAPA too
+        await carryOverEvidenceToCapa(nc.id, capa.id);
+
         createdCAPAs.push(capa.id);
       }
     }
@@ -182,6 +188,25 @@ export async function POST(
     // Recalculate compliance score
     await updateOrganizationComplianceScore(audit.organizationId);
 
+    // Render the report once CAPAs and the follow-up exist; a download
+    // renders it on demand if this doesn't finish
+    after(() =>
+      generateAuditReport(auditId).catch((error) =>
+        console.error(`Failed to generate audit report for ${auditId}:`, error)
+      )
+    );
+
+    await emitWebhookEvent("AUDIT_COMPLETED", {
+      organizationId: audit.organizationId,
+      organizationName: audit.organization.name,
+      auditId: audit.id,
+      auditNumber: audit.auditNumber,
+      rating: data.rating,
+      ...stats,
+      followUpRequired: needsFollowUp,
+      capaCount: createdCAPAs.length,
+    });
+
     return NextResponse.json({
       audit: updatedAudit,
       statistics: stats,
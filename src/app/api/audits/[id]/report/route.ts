@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db } from "@/lib/db";
+import { AuditReportError, getAuditReportDownload } from "@/lib/audit-report";
+
+// GET /api/audits/[id]/report - Signed download link for the audit report PDF
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { orgId } = await auth();
+    if (!orgId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: auditId } = await params;
+
+    const audit = await db.audit.findFirst({
+      where: {
+        id: auditId,
+        organization: { clerkOrgId: orgId },
+      },
+      select: {
+        id: true,
+        organizationId: true,
+        auditNumber: true,
+        status: true,
+        reportKey: true,
+      },
+    });
+
+    if (!audit) {
+      return NextResponse.json({ error: "Audit not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(await getAuditReportDownload(audit));
+  } catch (error) {
+    if (error instanceof AuditReportError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error("Failed to get audit report:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -51,6 +51,9 @@ export async function GET(
         organization: {
           select: { name: true, certificationTier: true },
         },
+        questionSet: {
+          select: { version: true, name: true },
+        },
       },
     });
 
@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { db } from "@/lib/db";
 import { z } from "zod/v4";
-import { AUDIT_QUESTIONS } from "@/lib/audit-templates";
+import { getActiveQuestionSet, selectAuditQuestions } from "@/lib/audit-question-bank";
 import type { AuditStatus } from "@prisma/client";
 
 const isoElements = [
@@ -129,6 +129,7 @@ export async function POST(req: NextRequest) {
     const data = createAuditSchema.parse(body);
 
     const auditNumber = await generateAuditNumber(organization.id);
+    const questionSet = await getActiveQuestionSet();
 
     // Create audit with checklist items
     const audit = await db.$transaction(async (tx) => {
@@ -143,13 +144,17 @@ export async function POST(req: NextRequest) {
           auditorId: data.auditorId,
           auditorName: data.auditorName,
           auditorEmail: data.auditorEmail,
+          questionSetId: questionSet.id,
         },
       });
 
-      // Create checklist items for each element
+      // Create checklist items for each element from the pinned question set
       const checklistItems = [];
-      for (const element of data.isoElements) {
-        const questions = AUDIT_QUESTIONS[element] || [];
+      const elements = selectAuditQuestions(questionSet, data.isoElements, {
+        certificationTier: organization.certificationTier,
+        auditType: data.auditType,
+      });
+      for (const { element, questions } of elements) {
         for (const question of questions) {
           checklistItems.push({
             auditId: createdAudit.id,
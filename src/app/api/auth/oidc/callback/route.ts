@@ -0,0 +1,167 @@
+/**
+ * GET /api/auth/oidc/callback
+ *
+ * Completes an OIDC sign-in started by /api/auth/oidc/login.
+ *
+ * Steps:
+ * 1. Check the returned state against the flow cookie
+ * 2. Exchange the code (with the PKCE verifier) at the token endpoint
+ * 3. Validate the ID token against the provider's JWKS, issuer, audience and nonce
+ * 4. Link the identity to an AuthUser (by ssoId, then verified email, else create)
+ * 5. Issue our own RS256 session cookie and redirect into the app
+ *
+ * Failures redirect to /sign-in?error=sso_failed; details are only written
+ * to AuthAuditLog.
+ */
+
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  oidcAuth,
+  OIDCError,
+  mapOIDCClaims,
+  linkOIDCUser,
+  parseOIDCFlowCookie,
+  clearOIDCFlowCookie,
+  createSessionCookie,
+  logAuthEvent,
+  AUTH_ACTIONS,
+  getIPFromRequest,
+} from '@/lib/auth';
+
+function redirectToSignIn(request: NextRequest, error: string): NextResponse {
+  const signInUrl = new URL('/sign-in', request.url);
+  signInUrl.searchParams.set('error', error);
+  const response = NextResponse.redirect(signInUrl);
+  response.headers.append('Set-Cookie', clearOIDCFlowCookie());
+  return response;
+}
+
+export async function GET(request: NextRequest) {
+  const ip = getIPFromRequest(request);
+  const userAgent = request.headers.get('user-agent') || undefined;
+  const { searchParams } = request.nextUrl;
+
+  // The provider reports user cancellation and its own errors via ?error=
+  const providerError = searchParams.get('error');
+  if (providerError) {
+    await logAuthEvent({
+      action: AUTH_ACTIONS.SSO_LOGIN_FAILED,
+      ipAddress: ip,
+      userAgent,
+      metadata: {
+        stage: 'authorize',
+        reason: providerError,
+        description: searchParams.get('error_description'),
+      },
+    });
+    return redirectToSignIn(request, providerError === 'access_denied' ? 'sso_cancelled' : 'sso_failed');
+  }
+
+  let identityEmail: string | undefined;
+
+  try {
+    const flow = parseOIDCFlowCookie(request.headers.get('cookie'));
+    const code = searchParams.get('code');
+    const state = searchParams.get('state');
+
+    if (!flow || !code || !state || state !== flow.state) {
+      throw new OIDCError('Missing or mismatched OIDC state', 'invalid_state');
+    }
+
+    const tokens = await oidcAuth.exchangeCode(code, flow.codeVerifier);
+    const claims = await oidcAuth.validateIdToken(tokens.idToken, flow.nonce);
+    const identity = mapOIDCClaims(claims);
+    identityEmail = identity.email;
+
+    const { user, created, linked, previousRole } = await linkOIDCUser(identity);
+
+    if (created) {
+      await logAuthEvent({
+        action: AUTH_ACTIONS.SSO_USER_PROVISIONED,
+        actorId: user.id,
+        actorEmail: user.email,
+        actorRole: user.userType,
+        ipAddress: ip,
+        userAgent,
+        resourceId: user.id,
+        newState: { userType: user.userType, companyId: user.companyId, ssoProvider: user.ssoProvider },
+      });
+    } else if (linked) {
+      await logAuthEvent({
+        action: AUTH_ACTIONS.SSO_ACCOUNT_LINKED,
+        actorId: user.id,
+        actorEmail: user.email,
+        actorRole: user.userType,
+        ipAddress: ip,
+        userAgent,
+        resourceId: user.id,
+        metadata: { ssoProvider: user.ssoProvider },
+      });
+    }
+
+    if (previousRole && previousRole !== user.userType) {
+      await logAuthEvent({
+        action: AUTH_ACTIONS.USER_ROLE_CHANGED,
+        actorId: user.id,
+        actorEmail: user.email,
+        actorRole: user.userType,
+        ipAddress: ip,
+        userAgent,
+        resourceId: user.id,
+        previousState: { userType: previousRole },
+        newState: { userType: user.userType },
+        metadata: { source: 'oidc_claims' },
+      });
+    }
+
+    const session = await oidcAuth.createSession(user.id, {
+      ipAddress: ip,
+      userAgent,
+      application: 'QUALITY_PROGRAM',
+    });
+
+    await logAuthEvent({
+      action: AUTH_ACTIONS.SSO_LOGIN_SUCCESS,
+      actorId: user.id,
+      actorEmail: user.email,
+      actorRole: user.userType,
+      ipAddress: ip,
+      userAgent,
+      resourceType: 'AuthSession',
+      resourceId: session.sessionId,
+      metadata: { ssoProvider: user.ssoProvider, companyId: user.companyId },
+    });
+
+    // Staff land in the admin area unless they asked for a specific page
+    const isRanzUser = ['RANZ_ADMIN', 'RANZ_STAFF', 'RANZ_INSPECTOR'].includes(user.userType);
+    const destination = flow.returnTo === '/dashboard' && isRanzUser ? '/admin' : flow.returnTo;
+
+    const response = NextResponse.redirect(new URL(destination, request.url));
+    response.headers.append('Set-Cookie', createSessionCookie(session.accessToken, session.expiresAt));
+    response.headers.append('Set-Cookie', clearOIDCFlowCookie());
+    return response;
+  } catch (error) {
+    if (!(error instanceof OIDCError)) {
+      console.error('[OIDC Callback Error]', error);
+    }
+
+    await logAuthEvent({
+      action: AUTH_ACTIONS.SSO_LOGIN_FAILED,
+      actorEmail: identityEmail,
+      ipAddress: ip,
+      userAgent,
+      metadata: {
+        stage: 'callback',
+        reason: error instanceof OIDCError ? error.code : 'internal_error',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+    });
+
+    return redirectToSignIn(
+      request,
+      error instanceof OIDCError && error.code === 'account_inactive' ? 'account_inactive' : 'sso_failed'
+    );
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * GET /api/auth/oidc/login
+ *
+ * Starts an OIDC sign-in with the association's identity provider.
+ * Generates state, nonce and a PKCE verifier, stores them in a short-lived
+ * HttpOnly cookie and redirects the browser to the provider.
+ *
+ * Query parameters:
+ * - redirect_url: Relative path to return to after sign-in (default: /dashboard)
+ */
+
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  oidcAuth,
+  createOIDCFlowState,
+  createOIDCFlowCookie,
+  logAuthEvent,
+  AUTH_ACTIONS,
+  getIPFromRequest,
+} from '@/lib/auth';
+
+export async function GET(request: NextRequest) {
+  try {
+    const flow = await createOIDCFlowState(
+      request.nextUrl.searchParams.get('redirect_url')
+    );
+
+    const authorizationUrl = await oidcAuth.getAuthorizationUrl(flow);
+
+    const response = NextResponse.redirect(authorizationUrl);
+    response.headers.set('Set-Cookie', createOIDCFlowCookie(flow));
+    return response;
+  } catch (error) {
+    console.error('[OIDC Login Error]', error);
+
+    await logAuthEvent({
+      action: AUTH_ACTIONS.SSO_LOGIN_FAILED,
+      ipAddress: getIPFromRequest(request),
+      userAgent: request.headers.get('user-agent') || undefined,
+      metadata: {
+        stage: 'authorize',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+    });
+
+    const signInUrl = new URL('/sign-in', request.url);
+    signInUrl.searchParams.set('error', 'sso_unavailable');
+    return NextResponse.redirect(signInUrl);
+  }
+}
@@ -13,19 +13,18 @@ export const runtime = 'nodejs';
  * - Rate limited to 3 per 24 hours per recipient
  * - Invalidates previous tokens before generating new one
  *
- * Required role: RANZ_ADMIN or RANZ_STAFF
+ * Required permission: QP_ADMIN_USERS
  */
 
 import { db } from '@/lib/db';
 import {
-  getSessionFromRequest,
-  verifyToken,
   generateActivationToken,
   sendWelcomeEmail,
   logAuthEvent,
   AUTH_ACTIONS,
   getIPFromRequest,
 } from '@/lib/auth';
+import { authorizeRequest, authorizationErrorResponse } from '@/lib/auth/rbac';
 
 /**
  * Request body for resending welcome email.
@@ -45,21 +44,9 @@ export async function POST(request: Request): Promise<Response> {
   const ip = getIPFromRequest(request);
 
   try {
-    // Authenticate admin
-    const sessionToken = getSessionFromRequest(request);
-    if (!sessionToken) {
-      return Response.json({ error: 'Not authenticated' }, { status: 401 });
-    }
-
-    const payload = await verifyToken(sessionToken);
-    if (!payload) {
-      return Response.json({ error: 'Invalid session' }, { status: 401 });
-    }
-
-    // Check admin role
-    const allowedRoles = ['RANZ_ADMIN', 'RANZ_STAFF'];
-    if (!allowedRoles.includes(payload.role as string)) {
-      return Response.json({ error: 'Insufficient permissions' }, { status: 403 });
+    const authResult = await authorizeRequest(request, 'QP_ADMIN_USERS');
+    if (!authResult.success) {
+      return authorizationErrorResponse(authResult);
     }
 
     // Parse request body
@@ -162,9 +149,9 @@ export async function POST(request: Request): Promise<Response> {
     // Log welcome email resent
     await logAuthEvent({
       action: AUTH_ACTIONS.WELCOME_EMAIL_RESENT,
-      actorId: payload.sub as string,
-      actorEmail: payload.email as string,
-      actorRole: payload.role as string,
+      actorId: authResult.user.id,
+      actorEmail: authResult.user.email,
+      actorRole: authResult.user.userType,
       ipAddress: ip,
       resourceType: 'AuthUser',
       resourceId: user.id,
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import {
+  FindingEvidenceError,
+  getCapaEvidenceTarget,
+  removeEvidence,
+} from "@/lib/finding-evidence";
+
+/**
+ * DELETE /api/capa/[id]/evidence/[evidenceId]
+ *
+ * Detach evidence from a CAPA. The file is kept if the audit question it
+ * was captured against still references it.
+ */
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string; evidenceId: string }> }
+) {
+  try {
+    const { orgId } = await auth();
+    if (!orgId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: capaId, evidenceId } = await params;
+    const target = await getCapaEvidenceTarget(orgId, capaId, { forUpdate: true });
+
+    await removeEvidence(target, evidenceId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof FindingEvidenceError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error("Failed to delete CAPA evidence:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
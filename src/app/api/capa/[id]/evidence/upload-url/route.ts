@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod/v4";
+import {
+  EVIDENCE_MIME_TYPES,
+  FindingEvidenceError,
+  createEvidenceUploadUrl,
+  getCapaEvidenceTarget,
+} from "@/lib/finding-evidence";
+
+const uploadUrlSchema = z.object({
+  fileName: z.string().min(1).max(255),
+  mimeType: z.enum(EVIDENCE_MIME_TYPES as [string, ...string[]]),
+  fileSize: z.number().int().positive(),
+});
+
+/**
+ * POST /api/capa/[id]/evidence/upload-url
+ *
+ * Returns a signed R2 URL the browser can PUT an evidence file to. The file
+ * is registered afterwards with POST .../evidence.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { orgId } = await auth();
+    if (!orgId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: capaId } = await params;
+    const target = await getCapaEvidenceTarget(orgId, capaId, { forUpdate: true });
+
+    const body = await req.json();
+    const data = uploadUrlSchema.parse(body);
+
+    return NextResponse.json(await createEvidenceUploadUrl(target, data));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+    if (error instanceof FindingEvidenceError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error("Failed to create evidence upload URL:", error);
+    return NextResponse.json(
+      { error: "Failed to create upload URL" },
+      { status: 500 }
+    );
+  }
+}
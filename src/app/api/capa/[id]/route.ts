@@ -17,7 +17,6 @@ const updateCAPASchema = z.object({
     .string()
     .transform((s) => new Date(s))
     .optional(),
-  evidenceKeys: z.array(z.string()).optional(),
 });
 
 const verifyCAPASchema = z.object({
@@ -101,10 +100,7 @@ export async function PATCH(
 
     const updatedCAPA = await db.cAPARecord.update({
       where: { id: capaId },
-      data: {
-        ...data,
-        evidenceKeys: data.evidenceKeys || capa.evidenceKeys,
-      },
+      data,
     });
 
     return NextResponse.json(updatedCAPA);
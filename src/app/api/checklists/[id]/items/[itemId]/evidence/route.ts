@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
+import type { Prisma } from "@prisma/client";
 import { db } from "@/lib/db";
-import { uploadToR2, getSignedDownloadUrl } from "@/lib/r2";
+import { uploadToR2, getSignedDownloadUrl, deleteFromR2 } from "@/lib/r2";
 import { MAX_FILE_SIZE_BYTES } from "@/types";
 
 const ALLOWED_MIME_TYPES = ["image/jpeg", "image/png", "image/webp"];
@@ -45,6 +46,39 @@ async function verifyInstanceAndItem(
   return { instance, item, error: null, status: 200 };
 }
 
+/**
+ * Write the completion only if it has not been signed: update an unsigned
+ * row, or create one. A signature landing mid-request therefore cannot be
+ * overwritten. Returns null when the completion is signed.
+ */
+async function updateUnsignedCompletion(
+  instanceId: string,
+  itemId: string,
+  data: Omit<Prisma.ChecklistItemCompletionUncheckedCreateInput, "instanceId" | "itemId">
+) {
+  const where = { instanceId, itemId, signedAt: null };
+  const { count } = await db.checklistItemCompletion.updateMany({ where, data });
+
+  if (count === 0) {
+    try {
+      return await db.checklistItemCompletion.create({
+        data: { instanceId, itemId, ...data },
+      });
+    } catch (error: unknown) {
+      if (!(error && typeof error === "object" && "code" in error && error.code === "P2002")) {
+        throw error;
+      }
+      // The row exists: it is signed, or a concurrent request just created it
+      const retry = await db.checklistItemCompletion.updateMany({ where, data });
+      if (retry.count === 0) return null;
+    }
+  }
+
+  return db.checklistItemCompletion.findUniqueOrThrow({
+    where: { instanceId_itemId: { instanceId, itemId } },
+  });
+}
+
 // --- POST: Upload photo evidence ---
 
 export async function POST(
@@ -70,6 +104,18 @@ export async function POST(
       return NextResponse.json({ error }, { status });
     }
 
+    const existing = await db.checklistItemCompletion.findUnique({
+      where: { instanceId_itemId: { instanceId, itemId } },
+      select: { signedAt: true },
+    });
+
+    if (existing?.signedAt) {
+      return NextResponse.json(
+        { error: "This item has been signed and can no longer be changed" },
+        { status: 409 }
+      );
+    }
+
     const formData = await req.formData();
     const file = formData.get("file") as File | null;
 
@@ -102,32 +148,27 @@ export async function POST(
 
     const fullKey = await uploadToR2(buffer, storageKey, file.type);
 
-    // Update completion record: set photo fields and mark as completed
-    await db.checklistItemCompletion.upsert({
-      where: {
-        instanceId_itemId: {
-          instanceId,
-          itemId,
-        },
-      },
-      create: {
-        instanceId,
-        itemId,
-        photoKey: fullKey,
-        photoFileName: fileName,
-        completed: true,
-        completedAt: new Date(),
-        completedBy: userId,
-      },
-      update: {
-        photoKey: fullKey,
-        photoFileName: fileName,
-        completed: true,
-        completedAt: new Date(),
-        completedBy: userId,
-      },
+    // Set photo fields and mark as completed, unless signed since the check above
+    const completion = await updateUnsignedCompletion(instanceId, itemId, {
+      photoKey: fullKey,
+      photoFileName: fileName,
+      completed: true,
+      completedAt: new Date(),
+      completedBy: userId,
     });
 
+    if (!completion) {
+      try {
+        await deleteFromR2(fullKey);
+      } catch (e) {
+        console.warn("Failed to delete unused checklist photo from R2:", e);
+      }
+      return NextResponse.json(
+        { error: "This item has been signed and can no longer be changed" },
+        { status: 409 }
+      );
+    }
+
     return NextResponse.json({
       success: true,
       fileName,
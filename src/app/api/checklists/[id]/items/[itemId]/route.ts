@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
+import type { Prisma } from "@prisma/client";
 import { db } from "@/lib/db";
 
 // --- Helpers ---
@@ -16,6 +17,39 @@ async function getOrgFromClerk() {
   return { organization, userId };
 }
 
+/**
+ * Write the completion only if it has not been signed: update an unsigned
+ * row, or create one. A signature landing mid-request therefore cannot be
+ * overwritten. Returns null when the completion is signed.
+ */
+async function updateUnsignedCompletion(
+  instanceId: string,
+  itemId: string,
+  data: Omit<Prisma.ChecklistItemCompletionUncheckedCreateInput, "instanceId" | "itemId">
+) {
+  const where = { instanceId, itemId, signedAt: null };
+  const { count } = await db.checklistItemCompletion.updateMany({ where, data });
+
+  if (count === 0) {
+    try {
+      return await db.checklistItemCompletion.create({
+        data: { instanceId, itemId, ...data },
+      });
+    } catch (error: unknown) {
+      if (!(error && typeof error === "object" && "code" in error && error.code === "P2002")) {
+        throw error;
+      }
+      // The row exists: it is signed, or a concurrent request just created it
+      const retry = await db.checklistItemCompletion.updateMany({ where, data });
+      if (retry.count === 0) return null;
+    }
+  }
+
+  return db.checklistItemCompletion.findUniqueOrThrow({
+    where: { instanceId_itemId: { instanceId, itemId } },
+  });
+}
+
 // --- PATCH: Toggle/update item completion ---
 
 export async function PATCH(
@@ -58,6 +92,13 @@ export async function PATCH(
       );
     }
 
+    if (item.itemType === "SIGNATURE" && typeof completed === "boolean") {
+      return NextResponse.json(
+        { error: "Signature items are completed by signing" },
+        { status: 400 }
+      );
+    }
+
     // Build the update data
     const updateData: {
       completed?: boolean;
@@ -86,21 +127,15 @@ export async function PATCH(
       updateData.notes = notes || null;
     }
 
-    // Upsert the completion record
-    const completion = await db.checklistItemCompletion.upsert({
-      where: {
-        instanceId_itemId: {
-          instanceId,
-          itemId,
-        },
-      },
-      create: {
-        instanceId,
-        itemId,
-        ...updateData,
-      },
-      update: updateData,
-    });
+    // Signed completions are locked
+    const completion = await updateUnsignedCompletion(instanceId, itemId, updateData);
+
+    if (!completion) {
+      return NextResponse.json(
+        { error: "This item has been signed and can no longer be changed" },
+        { status: 409 }
+      );
+    }
 
     // Check if all required items are now completed to auto-complete/uncomplete instance
     const allCompletions = await db.checklistItemCompletion.findMany({
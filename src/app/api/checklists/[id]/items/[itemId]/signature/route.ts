@@ -0,0 +1,310 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { createHash } from "crypto";
+import { z } from "zod/v4";
+import type { Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+import { uploadToR2, getSignedDownloadUrl, deleteFromR2 } from "@/lib/r2";
+import { createAuditLog } from "@/lib/audit-log";
+import { getIPFromRequest } from "@/lib/auth";
+
+// A drawn signature PNG is a few KB; anything larger is not from the pad
+const MAX_SIGNATURE_BYTES = 512 * 1024;
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const PNG_DATA_URL_PREFIX = "data:image/png;base64,";
+
+const signatureSchema = z.object({
+  signerName: z.string().trim().min(2).max(120),
+  signature: z.string().startsWith(PNG_DATA_URL_PREFIX),
+});
+
+// --- Helpers ---
+
+async function getOrgFromClerk() {
+  const { orgId, userId } = await auth();
+  if (!orgId || !userId) return null;
+
+  const organization = await db.organization.findUnique({
+    where: { clerkOrgId: orgId },
+  });
+
+  if (!organization) return null;
+  return { organization, userId };
+}
+
+async function verifyInstanceAndItem(
+  instanceId: string,
+  itemId: string,
+  organizationId: string
+) {
+  const instance = await db.checklistInstance.findUnique({
+    where: { id: instanceId },
+  });
+
+  if (!instance || instance.organizationId !== organizationId) {
+    return { instance: null, item: null, error: "Checklist instance not found", status: 404 };
+  }
+
+  const item = await db.checklistItem.findUnique({
+    where: { id: itemId },
+    include: { section: { include: { template: true } } },
+  });
+
+  if (!item || item.section.template.id !== instance.templateId) {
+    return { instance: null, item: null, error: "Checklist item not found", status: 404 };
+  }
+
+  return { instance, item, error: null, status: 200 };
+}
+
+function decodeSignaturePng(dataUrl: string): Buffer | null {
+  const buffer = Buffer.from(dataUrl.slice(PNG_DATA_URL_PREFIX.length), "base64");
+  if (buffer.length === 0 || buffer.length > MAX_SIGNATURE_BYTES) return null;
+  if (!buffer.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)) return null;
+  return buffer;
+}
+
+/**
+ * Sign the completion only if it has not been signed yet: update an unsigned
+ * row, or create one. Returns null when another signature got there first.
+ */
+async function signCompletion(
+  instanceId: string,
+  itemId: string,
+  data: Omit<Prisma.ChecklistItemCompletionUncheckedCreateInput, "instanceId" | "itemId">
+) {
+  const { count } = await db.checklistItemCompletion.updateMany({
+    where: { instanceId, itemId, signedAt: null },
+    data,
+  });
+
+  if (count > 0) {
+    return db.checklistItemCompletion.findUnique({
+      where: { instanceId_itemId: { instanceId, itemId } },
+    });
+  }
+
+  try {
+    return await db.checklistItemCompletion.create({
+      data: { instanceId, itemId, ...data },
+    });
+  } catch (error: unknown) {
+    // The row exists and is signed, or a concurrent request just created it
+    if (error && typeof error === "object" && "code" in error && error.code === "P2002") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// --- POST: Capture a signature and lock the completion ---
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; itemId: string }> }
+) {
+  try {
+    const ctx = await getOrgFromClerk();
+    if (!ctx) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { organization, userId } = ctx;
+    const { id: instanceId, itemId } = await params;
+
+    const { instance, item, error, status } = await verifyInstanceAndItem(
+      instanceId,
+      itemId,
+      organization.id
+    );
+
+    if (!instance || !item) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    if (item.itemType !== "SIGNATURE") {
+      return NextResponse.json(
+        { error: "Only signature items can be signed" },
+        { status: 400 }
+      );
+    }
+
+    const existing = await db.checklistItemCompletion.findUnique({
+      where: { instanceId_itemId: { instanceId, itemId } },
+    });
+
+    if (existing?.signedAt) {
+      return NextResponse.json(
+        { error: "This item has already been signed" },
+        { status: 409 }
+      );
+    }
+
+    const body = await req.json();
+    const data = signatureSchema.parse(body);
+
+    const png = decodeSignaturePng(data.signature);
+    if (!png) {
+      return NextResponse.json(
+        { error: "Signature must be a PNG image under 512KB" },
+        { status: 400 }
+      );
+    }
+
+    const signedAt = new Date();
+    const signatureHash = createHash("sha256").update(png).digest("hex");
+    const signatureKey = await uploadToR2(
+      png,
+      `checklists/${organization.id}/${instanceId}/${itemId}/signature-${signedAt.getTime()}.png`,
+      "image/png"
+    );
+
+    const signerIpAddress = getIPFromRequest(req);
+    const signerUserAgent = req.headers.get("user-agent")?.slice(0, 500) || null;
+
+    const signedData = {
+      completed: true,
+      completedAt: signedAt,
+      completedBy: userId,
+      signerName: data.signerName,
+      signatureKey,
+      signatureHash,
+      signedAt,
+      signerIpAddress,
+      signerUserAgent,
+    };
+
+    // Conditional write: of two concurrent signatures only one may land
+    const completion = await signCompletion(instanceId, itemId, signedData);
+
+    if (!completion) {
+      try {
+        await deleteFromR2(signatureKey);
+      } catch (e) {
+        console.warn("Failed to delete unused signature from R2:", e);
+      }
+      return NextResponse.json(
+        { error: "This item has already been signed" },
+        { status: 409 }
+      );
+    }
+
+    // Signing may be the last required item
+    if (!instance.completedAt) {
+      const requiredItems = await db.checklistItem.findMany({
+        where: {
+          isRequired: true,
+          section: { templateId: instance.templateId },
+        },
+        select: {
+          completions: {
+            where: { instanceId },
+            select: { completed: true },
+          },
+        },
+      });
+
+      const allRequiredDone = requiredItems.every(
+        (i) => i.completions[0]?.completed
+      );
+
+      if (allRequiredDone) {
+        await db.checklistInstance.update({
+          where: { id: instanceId },
+          data: { completedAt: new Date() },
+        });
+      }
+    }
+
+    await createAuditLog({
+      action: "APPROVE",
+      resourceType: "ChecklistItemCompletion",
+      resourceId: completion.id,
+      newState: {
+        instanceId,
+        itemId,
+        itemTitle: item.title,
+        signerName: data.signerName,
+        signedAt: signedAt.toISOString(),
+        signatureHash,
+      },
+      metadata: { organizationId: organization.id },
+      ipAddress: signerIpAddress,
+      userAgent: signerUserAgent ?? undefined,
+    });
+
+    return NextResponse.json(
+      {
+        completion,
+        url: await getSignedDownloadUrl(signatureKey),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Failed to capture checklist signature:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// --- GET: Signature image (signed URL) and signing metadata ---
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string; itemId: string }> }
+) {
+  try {
+    const ctx = await getOrgFromClerk();
+    if (!ctx) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { organization } = ctx;
+    const { id: instanceId, itemId } = await params;
+
+    const { instance, error, status } = await verifyInstanceAndItem(
+      instanceId,
+      itemId,
+      organization.id
+    );
+
+    if (!instance) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const completion = await db.checklistItemCompletion.findUnique({
+      where: { instanceId_itemId: { instanceId, itemId } },
+    });
+
+    if (!completion?.signatureKey) {
+      return NextResponse.json(
+        { error: "This item has not been signed" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      url: await getSignedDownloadUrl(completion.signatureKey),
+      signerName: completion.signerName,
+      signedAt: completion.signedAt,
+      signatureHash: completion.signatureHash,
+      signerIpAddress: completion.signerIpAddress,
+      signerUserAgent: completion.signerUserAgent,
+    });
+  } catch (error) {
+    console.error("Failed to get checklist signature:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,7 @@ import { auth } from "@clerk/nextjs/server";
 import { db } from "@/lib/db";
 import { renderToBuffer } from "@react-pdf/renderer";
 import { ProcedureDocumentPDF } from "@/components/reports/pdf/procedure-document";
+import { getObjectFromR2 } from "@/lib/r2";
 import { randomUUID } from "crypto";
 
 // --- Helpers ---
@@ -87,6 +88,21 @@ export async function GET(
       instance.completions.map((c) => [c.itemId, c])
     );
 
+    // Embed captured signatures as data URIs so the PDF is self-contained
+    const signatureImages = new Map<string, string>();
+    for (const completion of instance.completions) {
+      if (!completion.signatureKey) continue;
+      try {
+        const png = await getObjectFromR2(completion.signatureKey);
+        signatureImages.set(
+          completion.itemId,
+          `data:image/png;base64,${png.toString("base64")}`
+        );
+      } catch (e) {
+        console.warn("Failed to load checklist signature from R2:", e);
+      }
+    }
+
     // Build stats
     let totalItems = 0;
     let completedItems = 0;
@@ -111,6 +127,16 @@ export async function GET(
           completedAt: completion?.completedAt,
           completedBy: completion?.completedBy,
           hasPhoto: !!completion?.photoKey,
+          signature: completion?.signedAt
+            ? {
+                signerName: completion.signerName || "--",
+                signedAt: completion.signedAt,
+                imageDataUri: signatureImages.get(item.id) ?? null,
+                ipAddress: completion.signerIpAddress,
+                userAgent: completion.signerUserAgent,
+                hash: completion.signatureHash,
+              }
+            : null,
         };
       }),
     }));
@@ -101,6 +101,8 @@ export async function GET(
                 photoFileName: completion.photoFileName,
                 completedAt: completion.completedAt,
                 completedBy: completion.completedBy,
+                signerName: completion.signerName,
+                signedAt: completion.signedAt,
               }
             : null,
         };
@@ -376,7 +378,20 @@ export async function DELETE(
       );
     }
 
-    await db.checklistInstance.delete({ where: { id } });
+    // Signed completions are kept as a record of sign-off, so an instance
+    // with any signature cannot be deleted. Conditional, so a signature
+    // landing mid-request still blocks the delete.
+    const { count } = await db.checklistInstance.deleteMany({
+      where: { id, completions: { none: { signedAt: { not: null } } } },
+    });
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: "This checklist has signed items and cannot be deleted" },
+        { status: 409 }
+      );
+    }
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Failed to delete checklist instance:", error);
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAuditCheckpoints } from "@/lib/audit-log";
+import { verifyCronRequest } from "@/lib/cron-auth";
+
+// This endpoint should be called by a cron job (e.g., Vercel Cron)
+// Example cron: 0 1 * * * (1am daily)
+// Signs Merkle-root checkpoints over audit log entries written since the last run.
+
+export async function GET(req: NextRequest) {
+  const authError = verifyCronRequest(req);
+  if (authError) return authError;
+
+  try {
+    const result = await createAuditCheckpoints();
+
+    if (result.break) {
+      console.error(
+        `Audit chain broken between entries ${result.break.fromId} and ${result.break.toId}:`,
+        result.break.reasons
+      );
+    }
+
+    return NextResponse.json({
+      success: !result.break,
+      created: result.created,
+      entriesCovered: result.entriesCovered,
+      brokenRange: result.break
+        ? {
+            fromId: result.break.fromId.toString(),
+            toId: result.break.toId.toString(),
+            reasons: result.break.reasons,
+          }
+        : null,
+      processedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Audit checkpoint cron failed:", error);
+    return NextResponse.json(
+      { error: "Cron job failed" },
+      { status: 500 }
+    );
+  }
+}
@@ -4,12 +4,20 @@ import {
   processScheduledNotifications,
   retryFailedNotifications,
   notifyInsuranceExpiry,
+  notifyBrokerInsuranceExpiry,
   notifyCapaOverdue,
   createNotification,
   notifyAuditScheduled,
+  notifyCpdShortfall,
 } from "@/lib/notifications";
 import { verifyCronRequest } from "@/lib/cron-auth";
 import { getOrganizationsNeedingAudit, scheduleAudit } from "@/lib/audit-scheduling";
+import { emitWebhookEvent } from "@/lib/webhooks";
+import {
+  calculateCpdProgress,
+  getCpdRequirements,
+  resolveCpdRequirement,
+} from "@/lib/cpd";
 
 export async function GET(req: NextRequest) {
   const authError = verifyCronRequest(req);
@@ -20,12 +28,14 @@ export async function GET(req: NextRequest) {
       scheduledSent: 0,
       retriesSent: 0,
       insuranceAlerts: 0,
+      insuranceLapses: 0,
       capaAlerts: 0,
       documentReviewAlerts: 0,
       programmeRenewals: 0,
       auditsScheduled: 0,
       auditReminders: 0,
       credentialExpiries: 0,
+      cpdReminders: 0,
     };
 
     // 1. Process scheduled notifications
@@ -37,6 +47,9 @@ export async function GET(req: NextRequest) {
     // 3. Check for insurance expiries and send alerts
     results.insuranceAlerts = await checkInsuranceExpiries();
 
+    // 3b. Emit webhook events for policies that expired without renewal
+    results.insuranceLapses = await checkInsuranceLapses();
+
     // 4. Check for overdue CAPAs
     results.capaAlerts = await checkOverdueCAPAs();
 
@@ -55,6 +68,9 @@ export async function GET(req: NextRequest) {
     // 9. Check for credential expiries
     results.credentialExpiries = await checkCredentialExpiries();
 
+    // 10. Remind LBP holders short of CPD as their cycle ends
+    results.cpdReminders = await checkCpdShortfalls();
+
     return NextResponse.json({
       success: true,
       ...results,
@@ -153,6 +169,18 @@ async function checkInsuranceExpiries(): Promise<number> {
           ownerUserId: owner.clerkUserId,  // NEW: Link to owner user
         });
 
+        // Copy the nominated broker so they can chase the renewal
+        if (policy.brokerEmail) {
+          await notifyBrokerInsuranceExpiry({
+            organizationId: policy.organizationId,
+            businessName: policy.organization.name,
+            policyType: policyTypeLabels[policy.policyType] || policy.policyType,
+            policyNumber: policy.policyNumber,
+            daysUntilExpiry,
+            brokerEmail: policy.brokerEmail,
+          });
+        }
+
         // Mark alert as sent (same transaction)
         await tx.insurancePolicy.update({
           where: { id: policy.id },
@@ -362,6 +390,63 @@ async function checkProgrammeRenewals(): Promise<number> {
   return alertsSent;
 }
 
+async function checkInsuranceLapses(): Promise<number> {
+  const now = new Date();
+  let lapses = 0;
+
+  // Only recently expired policies, so enabling this check doesn't replay
+  // every historic expiry as a new lapse
+  const expiredPolicies = await db.insurancePolicy.findMany({
+    where: {
+      expiryDate: {
+        gte: new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000),
+        lt: now,
+      },
+      lapseAlertSent: false,
+    },
+    include: { organization: { select: { name: true } } },
+  });
+
+  for (const policy of expiredPolicies) {
+    try {
+      // A policy of the same type in force now means it was renewed, not
+      // lapsed; one that only starts later leaves a gap in cover
+      const replacement = await db.insurancePolicy.findFirst({
+        where: {
+          organizationId: policy.organizationId,
+          policyType: policy.policyType,
+          id: { not: policy.id },
+          effectiveDate: { lte: now },
+          expiryDate: { gt: now },
+        },
+        select: { id: true },
+      });
+
+      if (!replacement) {
+        await emitWebhookEvent("INSURANCE_LAPSED", {
+          organizationId: policy.organizationId,
+          organizationName: policy.organization.name,
+          policyId: policy.id,
+          policyType: policy.policyType,
+          policyNumber: policy.policyNumber,
+          insurer: policy.insurer,
+          expiryDate: policy.expiryDate.toISOString(),
+        });
+        lapses++;
+      }
+
+      await db.insurancePolicy.update({
+        where: { id: policy.id },
+        data: { lapseAlertSent: true },
+      });
+    } catch (error) {
+      console.error(`Failed to check insurance lapse for policy ${policy.id}:`, error);
+    }
+  }
+
+  return lapses;
+}
+
 async function checkOverdueCAPAs(): Promise<number> {
   const now = new Date();
   let alertsSent = 0;
@@ -608,3 +693,89 @@ async function checkCredentialExpiries(): Promise<number> {
 
   return alertsSent;
 }
+
+async function checkCpdShortfalls(): Promise<number> {
+  const now = new Date();
+  let remindersSent = 0;
+
+  const requirements = await getCpdRequirements();
+  const members = await db.organizationMember.findMany({
+    where: { lbpNumber: { not: null } },
+    select: {
+      id: true,
+      organizationId: true,
+      clerkUserId: true,
+      firstName: true,
+      lastName: true,
+      email: true,
+      lbpClass: true,
+      lbpExpiry: true,
+      createdAt: true,
+      cpdAlert90SentFor: true,
+      cpdAlert30SentFor: true,
+      organization: { select: { certificationTier: true, email: true } },
+      trainingRecords: {
+        select: { completedAt: true, cpdPoints: true, cpdCategory: true },
+      },
+    },
+  });
+
+  for (const member of members) {
+    const progress = calculateCpdProgress(
+      resolveCpdRequirement(requirements, {
+        lbpClass: member.lbpClass,
+        certificationTier: member.organization.certificationTier,
+      }),
+      member,
+      member.trainingRecords,
+      now
+    );
+
+    if (progress.met || progress.daysRemaining > 90) continue;
+
+    // Flags hold the cycle end they were sent for, so they re-arm each cycle
+    const cycleEnd = progress.cycle.end;
+    const updateData: Record<string, Date> = {};
+    if (member.cpdAlert90SentFor?.getTime() !== cycleEnd.getTime()) {
+      updateData.cpdAlert90SentFor = cycleEnd;
+    }
+    if (
+      progress.daysRemaining <= 30 &&
+      member.cpdAlert30SentFor?.getTime() !== cycleEnd.getTime()
+    ) {
+      updateData.cpdAlert30SentFor = cycleEnd;
+    }
+
+    // One reminder even when both thresholds are crossed at once
+    if (Object.keys(updateData).length === 0) continue;
+
+    try {
+      await db.$transaction(async (tx) => {
+        await notifyCpdShortfall({
+          organizationId: member.organizationId,
+          userId: member.clerkUserId,
+          memberEmail: member.email,
+          memberName: `${member.firstName} ${member.lastName}`,
+          organizationEmail: member.organization.email,
+          pointsNeeded: progress.pointsNeeded,
+          daysRemaining: progress.daysRemaining,
+          cycleEnd: new Date(cycleEnd.getTime() - 24 * 60 * 60 * 1000),
+        });
+
+        await tx.organizationMember.update({
+          where: { id: member.id },
+          data: updateData,
+        });
+      });
+
+      remindersSent++;
+    } catch (error) {
+      console.error(
+        `Failed to send CPD reminder for member ${member.id}:`,
+        error
+      );
+    }
+  }
+
+  return remindersSent;
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { processPendingReports } from "@/lib/report-generation";
+import { verifyCronRequest } from "@/lib/cron-auth";
+
+// This endpoint should be called by a cron job (e.g., Vercel Cron)
+// Example cron: */5 * * * * (every 5 minutes)
+// Picks up PDF/CSV/XLSX reports that were not generated at request time.
+
+export async function GET(req: NextRequest) {
+  const authError = verifyCronRequest(req);
+  if (authError) return authError;
+
+  try {
+    const results = await processPendingReports();
+
+    return NextResponse.json({
+      success: true,
+      ...results,
+      processedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Report generation cron failed:", error);
+    return NextResponse.json(
+      { error: "Cron job failed" },
+      { status: 500 }
+    );
+  }
+}
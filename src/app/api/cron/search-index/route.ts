@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { findDocumentsToIndex, indexDocumentContent } from "@/lib/search";
+import { verifyCronRequest } from "@/lib/cron-auth";
+
+// Documents handled per run; extraction downloads each file from R2
+const BATCH_SIZE = 25;
+
+// This endpoint should be called by a cron job (e.g., Vercel Cron)
+// Example cron: */15 * * * * (every 15 minutes)
+// Extracts text for documents that have not been indexed for search yet
+// (backfill) or whose file changed since it was last indexed.
+
+export async function GET(req: NextRequest) {
+  const authError = verifyCronRequest(req);
+  if (authError) return authError;
+
+  try {
+    const documentIds = await findDocumentsToIndex(BATCH_SIZE);
+
+    let indexed = 0;
+    for (const documentId of documentIds) {
+      if (await indexDocumentContent(documentId)) indexed++;
+    }
+
+    return NextResponse.json({
+      success: true,
+      processed: documentIds.length,
+      indexed,
+      processedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Search index cron failed:", error);
+    return NextResponse.json(
+      { error: "Cron job failed" },
+      { status: 500 }
+    );
+  }
+}
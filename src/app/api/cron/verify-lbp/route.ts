@@ -5,6 +5,7 @@ import { updateOrganizationComplianceScore } from "@/lib/compliance-v2";
 import { verifyCronRequest } from "@/lib/cron-auth";
 import { createNotification, generateMemberLBPMessage, generateOrgLBPMessage } from "@/lib/notifications";
 import { SMS_TEMPLATES } from "@/lib/sms";
+import { emitWebhookEvent } from "@/lib/webhooks";
 
 // This endpoint should be called by a cron job (e.g., Vercel Cron)
 // Example cron: 0 2 * * * (2am daily)
@@ -52,6 +53,18 @@ export async function GET(req: NextRequest) {
       for (const change of criticalChanges) {
         const member = affectedMembers.find((m) => m.id === change.memberId);
 
+        if (member) {
+          await emitWebhookEvent("LBP_STATUS_CHANGED", {
+            organizationId: member.organizationId,
+            organizationName: member.organization.name,
+            memberId: member.id,
+            memberName: `${member.firstName} ${member.lastName}`,
+            lbpNumber: change.lbpNumber,
+            previousStatus: change.oldStatus,
+            newStatus: change.newStatus,
+          });
+        }
+
         // Email notification to organization (via createNotification for audit trail)
         if (member?.organization?.email) {
           try {
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { processDueWebhookDeliveries } from "@/lib/webhooks";
+import { verifyCronRequest } from "@/lib/cron-auth";
+
+// This endpoint should be called by a cron job (e.g., Vercel Cron)
+// Example cron: */5 * * * * (every 5 minutes)
+// Retries outbound webhook deliveries whose backoff has elapsed.
+
+export async function GET(req: NextRequest) {
+  const authError = verifyCronRequest(req);
+  if (authError) return authError;
+
+  try {
+    const result = await processDueWebhookDeliveries();
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      processedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Webhook delivery cron failed:", error);
+    return NextResponse.json(
+      { error: "Cron job failed" },
+      { status: 500 }
+    );
+  }
+}
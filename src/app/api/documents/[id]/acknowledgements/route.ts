@@ -0,0 +1,259 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { OrgMemberRole } from "@prisma/client";
+import { z } from "zod/v4";
+import { db } from "@/lib/db";
+import { createAuditLog } from "@/lib/audit-log";
+import { formatVersionString } from "@/lib/document-versioning";
+import {
+  acknowledgeDocument,
+  DocumentAcknowledgementError,
+  getAcknowledgementTargets,
+  getCurrentApprovedVersion,
+  getTargetedMembers,
+  requestAcknowledgements,
+} from "@/lib/document-acknowledgement";
+
+const targetsSchema = z.object({
+  roles: z.array(z.enum(OrgMemberRole)).default([]),
+  teamIds: z.array(z.string().min(1)).default([]),
+});
+
+async function getDocument(documentId: string, orgId: string) {
+  return db.document.findFirst({
+    where: {
+      id: documentId,
+      organization: { clerkOrgId: orgId },
+      deletedAt: null,
+    },
+  });
+}
+
+// GET /api/documents/[id]/acknowledgements - Targeted staff groups and who
+// has acknowledged the current approved version
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { orgId } = await auth();
+    if (!orgId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: documentId } = await params;
+    const document = await getDocument(documentId, orgId);
+
+    if (!document) {
+      return NextResponse.json(
+        { error: "Document not found" },
+        { status: 404 }
+      );
+    }
+
+    const [targets, members, version] = await Promise.all([
+      getAcknowledgementTargets(documentId),
+      getTargetedMembers(documentId),
+      getCurrentApprovedVersion(documentId),
+    ]);
+
+    const acknowledgements = version
+      ? await db.documentAcknowledgement.findMany({
+          where: { version: { documentId, versionNumber: version.versionNumber } },
+          select: { memberId: true, acknowledgedAt: true },
+        })
+      : [];
+
+    return NextResponse.json({
+      targets,
+      versionString: version
+        ? formatVersionString(version.versionNumber, version.minorVersion)
+        : null,
+      members: members.map((m) => ({
+        id: m.id,
+        name: `${m.firstName} ${m.lastName}`.trim(),
+        role: m.role,
+        acknowledgedAt:
+          acknowledgements.find((a) => a.memberId === m.id)?.acknowledgedAt ?? null,
+      })),
+    });
+  } catch (error) {
+    console.error("Failed to fetch document acknowledgements:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/documents/[id]/acknowledgements - Replace the staff groups that
+// must read this document (owners/admins). Newly targeted staff are notified.
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { orgId, userId, orgRole } = await auth();
+    if (!orgId || !userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (orgRole !== "org:admin" && orgRole !== "org:owner") {
+      return NextResponse.json(
+        { error: "Only organisation owners or admins can set who must read documents" },
+        { status: 403 }
+      );
+    }
+
+    const { id: documentId } = await params;
+    const document = await getDocument(documentId, orgId);
+
+    if (!document) {
+      return NextResponse.json(
+        { error: "Document not found" },
+        { status: 404 }
+      );
+    }
+
+    const body = await req.json();
+    const data = targetsSchema.parse(body);
+
+    const teamCount = await db.team.count({
+      where: { id: { in: data.teamIds }, organizationId: document.organizationId },
+    });
+    if (teamCount !== new Set(data.teamIds).size) {
+      return NextResponse.json(
+        { error: "One or more teams were not found" },
+        { status: 400 }
+      );
+    }
+
+    const previousTargets = await getAcknowledgementTargets(documentId);
+    const previousMemberIds = new Set(
+      (await getTargetedMembers(documentId)).map((m) => m.id)
+    );
+
+    await db.$transaction([
+      db.documentAcknowledgementTarget.deleteMany({ where: { documentId } }),
+      db.documentAcknowledgementTarget.createMany({
+        data: [
+          ...[...new Set(data.roles)].map((role) => ({ documentId, role, createdBy: userId })),
+          ...[...new Set(data.teamIds)].map((teamId) => ({ documentId, teamId, createdBy: userId })),
+        ],
+      }),
+    ]);
+
+    const newMemberIds = (await getTargetedMembers(documentId))
+      .map((m) => m.id)
+      .filter((id) => !previousMemberIds.has(id));
+    const notified =
+      newMemberIds.length > 0
+        ? await requestAcknowledgements(documentId, { memberIds: newMemberIds })
+        : 0;
+
+    const targets = await getAcknowledgementTargets(documentId);
+
+    await createAuditLog({
+      action: "UPDATE",
+      resourceType: "DocumentAcknowledgementTarget",
+      resourceId: documentId,
+      previousState: { ...previousTargets },
+      newState: { ...targets },
+      metadata: { organizationId: document.organizationId, notified },
+    });
+
+    return NextResponse.json({ targets, notified });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+    console.error("Failed to update document acknowledgement targets:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/documents/[id]/acknowledgements - Confirm the current user has
+// read the current approved version
+export async function POST(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { orgId, userId } = await auth();
+    if (!orgId || !userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: documentId } = await params;
+    const document = await getDocument(documentId, orgId);
+
+    if (!document) {
+      return NextResponse.json(
+        { error: "Document not found" },
+        { status: 404 }
+      );
+    }
+
+    const member = await db.organizationMember.findUnique({
+      where: {
+        organizationId_clerkUserId: {
+          organizationId: document.organizationId,
+          clerkUserId: userId,
+        },
+      },
+    });
+
+    if (!member) {
+      return NextResponse.json(
+        { error: "Member not found" },
+        { status: 404 }
+      );
+    }
+
+    const { acknowledgement, version, created } = await acknowledgeDocument(
+      documentId,
+      member.id
+    );
+
+    if (!created) {
+      return NextResponse.json(acknowledgement);
+    }
+
+    await createAuditLog({
+      action: "CREATE",
+      resourceType: "DocumentAcknowledgement",
+      resourceId: acknowledgement.id,
+      newState: {
+        document: document.title,
+        version: formatVersionString(version.versionNumber, version.minorVersion),
+        member: `${member.firstName} ${member.lastName}`.trim(),
+        acknowledgedAt: acknowledgement.acknowledgedAt.toISOString(),
+      },
+      metadata: {
+        organizationId: document.organizationId,
+        documentId,
+        versionId: version.id,
+      },
+    });
+
+    return NextResponse.json(acknowledgement, { status: 201 });
+  } catch (error) {
+    if (error instanceof DocumentAcknowledgementError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error("Failed to acknowledge document:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -6,9 +6,78 @@ import {
   approveVersion,
   rejectVersion,
 } from "@/lib/document-versioning";
+import {
+  canDecideStep,
+  DocumentApprovalError,
+  getApprovalChain,
+  notifyStepApprover,
+} from "@/lib/document-approval";
 import { updateOrganizationComplianceScore } from "@/lib/compliance-v2";
 import { revalidatePath } from "next/cache";
 import { logDocumentMutation } from "@/lib/audit-log";
+import { requestAcknowledgements } from "@/lib/document-acknowledgement";
+
+// Get the approval chain for a version (latest if not specified)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { orgId, userId } = await auth();
+    if (!orgId || !userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: documentId } = await params;
+    const versionId = new URL(req.url).searchParams.get("versionId");
+
+    const document = await db.document.findFirst({
+      where: {
+        id: documentId,
+        organization: { clerkOrgId: orgId },
+      },
+    });
+
+    if (!document) {
+      return NextResponse.json(
+        { error: "Document not found" },
+        { status: 404 }
+      );
+    }
+
+    const version = await db.documentVersion.findFirst({
+      where: versionId ? { id: versionId, documentId } : { documentId },
+      orderBy: [{ versionNumber: "desc" }, { minorVersion: "desc" }],
+    });
+
+    if (!version) {
+      return NextResponse.json(
+        { error: "Version not found" },
+        { status: 404 }
+      );
+    }
+
+    const steps = await getApprovalChain(version.id);
+    const activeStep = steps.find((s) => s.status === "PENDING");
+
+    return NextResponse.json({
+      versionId: version.id,
+      status: version.status,
+      reviewCycleMonths: version.reviewCycleMonths,
+      steps,
+      canDecide:
+        version.status === "PENDING_APPROVAL" &&
+        (!activeStep ||
+          (await canDecideStep(activeStep, document.organizationId, userId))),
+    });
+  } catch (error) {
+    console.error("Failed to fetch approval chain:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
 
 // Submit document for approval
 export async function POST(
@@ -56,14 +125,35 @@ export async function POST(
         );
       }
       targetVersionId = latestVersion.id;
+    } else {
+      const version = await db.documentVersion.findFirst({
+        where: { id: targetVersionId, documentId },
+      });
+      if (!version) {
+        return NextResponse.json(
+          { error: "Version not found" },
+          { status: 404 }
+        );
+      }
     }
 
-    await submitForApproval(targetVersionId, userId);
+    const { steps } = await submitForApproval(targetVersionId, userId);
+
+    if (steps.length > 0) {
+      await notifyStepApprover(steps[0], document.organizationId, document.title);
+    }
 
     return NextResponse.json({
       message: "Document submitted for approval",
+      steps,
     });
   } catch (error) {
+    if (error instanceof DocumentApprovalError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
     console.error("Failed to submit for approval:", error);
     return NextResponse.json(
       { error: "Internal server error" },
@@ -72,7 +162,7 @@ export async function POST(
   }
 }
 
-// Approve or reject document
+// Approve or reject document (the active step, when an approval chain applies)
 export async function PUT(
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -85,7 +175,7 @@ export async function PUT(
 
     const { id: documentId } = await params;
     const body = await req.json();
-    const { versionId, action, reason } = body;
+    const { versionId, action, reason, comment } = body;
 
     if (!action || !["approve", "reject"].includes(action)) {
       return NextResponse.json(
@@ -125,23 +215,60 @@ export async function PUT(
         );
       }
       targetVersionId = pendingVersion.id;
+    } else {
+      const version = await db.documentVersion.findFirst({
+        where: { id: targetVersionId, documentId },
+      });
+      if (!version) {
+        return NextResponse.json(
+          { error: "Version not found" },
+          { status: 404 }
+        );
+      }
     }
 
     if (action === "approve") {
-      await approveVersion(targetVersionId, userId);
+      const result = await approveVersion(targetVersionId, userId, comment);
+      const { step, nextStep, completed } = result;
 
-      // Log approval to audit trail
+      // Log the approval (or this step of it) to audit trail
       await logDocumentMutation(
         "APPROVE",
         documentId,
-        { status: "PENDING_APPROVAL" },
-        { status: "APPROVED" },
-        { organizationId: document.organizationId, versionId: targetVersionId }
+        step
+          ? { status: "PENDING_APPROVAL", step: step.name, stepStatus: "PENDING" }
+          : { status: "PENDING_APPROVAL" },
+        step
+          ? {
+              status: completed ? "APPROVED" : "PENDING_APPROVAL",
+              step: step.name,
+              stepOrder: step.stepOrder,
+              stepStatus: "APPROVED",
+              decidedBy: step.decidedByName ?? step.approverName,
+              delegatedFrom: step.delegatedFromName,
+              comment: step.comment,
+              nextStep: nextStep?.name ?? null,
+            }
+          : { status: "APPROVED" },
+        {
+          organizationId: document.organizationId,
+          versionId: targetVersionId,
+          approvalStepId: step?.id,
+        }
       );
 
+      if (nextStep) {
+        await notifyStepApprover(nextStep, document.organizationId, document.title);
+        return NextResponse.json({
+          message: `${step?.name} approval recorded; awaiting ${nextStep.name}`,
+          ...result,
+        });
+      }
+
       await updateOrganizationComplianceScore(document.organizationId);
+      await requestAcknowledgements(documentId);
       revalidatePath('/dashboard');
-      return NextResponse.json({ message: "Document approved" });
+      return NextResponse.json({ message: "Document approved", ...result });
     } else {
       if (!reason) {
         return NextResponse.json(
@@ -149,20 +276,43 @@ export async function PUT(
           { status: 400 }
         );
       }
-      await rejectVersion(targetVersionId, userId, reason);
+      const result = await rejectVersion(targetVersionId, userId, reason);
+      const { step } = result;
 
       // Log rejection to audit trail
       await logDocumentMutation(
         "REJECT",
         documentId,
-        { status: "PENDING_APPROVAL" },
-        { status: "REJECTED", rejectionReason: reason },
-        { organizationId: document.organizationId, versionId: targetVersionId }
+        step
+          ? { status: "PENDING_APPROVAL", step: step.name, stepStatus: "PENDING" }
+          : { status: "PENDING_APPROVAL" },
+        step
+          ? {
+              status: "REJECTED",
+              rejectionReason: reason,
+              step: step.name,
+              stepOrder: step.stepOrder,
+              stepStatus: "REJECTED",
+              decidedBy: step.decidedByName ?? step.approverName,
+              delegatedFrom: step.delegatedFromName,
+            }
+          : { status: "REJECTED", rejectionReason: reason },
+        {
+          organizationId: document.organizationId,
+          versionId: targetVersionId,
+          approvalStepId: step?.id,
+        }
       );
 
-      return NextResponse.json({ message: "Document rejected" });
+      return NextResponse.json({ message: "Document rejected", ...result });
     }
   } catch (error) {
+    if (error instanceof DocumentApprovalError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
     console.error("Failed to process approval:", error);
     return NextResponse.json(
       { error: "Internal server error" },
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db } from "@/lib/db";
+import { getObjectFromR2 } from "@/lib/r2";
+import { createAuditLog } from "@/lib/audit-log";
+import { getMemberName } from "@/lib/document-approval";
+import {
+  buildDocumentStamp,
+  DocumentDownloadError,
+  getDownloadStatus,
+  isStampable,
+  resolveCopyType,
+  resolveDocumentDownload,
+  stampPdf,
+} from "@/lib/document-stamp";
+
+// GET /api/documents/[id]/download/file?versionId=&copy=controlled
+// Streams a PDF stamped with its issue details and the downloader's name
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { orgId, userId, orgRole } = await auth();
+    if (!orgId || !userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const searchParams = new URL(req.url).searchParams;
+
+    const organization = await db.organization.findUnique({
+      where: { clerkOrgId: orgId },
+    });
+
+    if (!organization) {
+      return NextResponse.json(
+        { error: "Organization not found" },
+        { status: 404 }
+      );
+    }
+
+    const { document, version, storageKey, fileName, mimeType } =
+      await resolveDocumentDownload(id, organization.id, searchParams.get("versionId"));
+
+    if (!isStampable(mimeType, fileName)) {
+      return NextResponse.json(
+        { error: "Only PDF documents can be stamped" },
+        { status: 400 }
+      );
+    }
+
+    const copyType = resolveCopyType(searchParams.get("copy"), {
+      isAdmin: orgRole === "org:admin" || orgRole === "org:owner",
+      status: getDownloadStatus(document, version),
+    });
+
+    const downloadedBy = (await getMemberName(organization.id, userId)) ?? "Unknown user";
+    const stamp = buildDocumentStamp(document, version, copyType, downloadedBy);
+    const original = await getObjectFromR2(storageKey);
+
+    // An unreadable PDF (e.g. encrypted) is served as stored rather than
+    // blocking access; the audit entry records that it went out unstamped.
+    // Controlled copies and non-approved versions are only valid with their
+    // stamp and watermark, so those fail closed.
+    let body: Uint8Array = original;
+    let stamped = true;
+    try {
+      body = await stampPdf(original, stamp);
+    } catch (error) {
+      console.warn(`Failed to stamp document ${document.id}:`, error);
+
+      if (copyType === "CONTROLLED" || stamp.status !== "APPROVED") {
+        return NextResponse.json(
+          {
+            error:
+              copyType === "CONTROLLED"
+                ? "This PDF cannot be stamped, so a controlled copy cannot be issued"
+                : "This PDF cannot be stamped, so this unapproved version cannot be downloaded",
+          },
+          { status: 422 }
+        );
+      }
+      stamped = false;
+    }
+
+    await createAuditLog({
+      action: "EXPORT",
+      resourceType: "Document",
+      resourceId: document.id,
+      metadata: {
+        organizationId: organization.id,
+        versionId: version?.id,
+        version: stamp.versionString,
+        status: stamp.status,
+        copyType,
+        downloadedBy,
+        fileName,
+        stamped,
+      },
+    });
+
+    return new NextResponse(Buffer.from(body), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="${fileName.replace(/[^\x20-\x7e]|"/g, "_")}"; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    if (error instanceof DocumentDownloadError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error("Failed to download document:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,18 +2,29 @@ import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { db } from "@/lib/db";
 import { getSignedDownloadUrl } from "@/lib/r2";
+import { createAuditLog } from "@/lib/audit-log";
+import {
+  DocumentDownloadError,
+  getDownloadStatus,
+  isStampable,
+  resolveCopyType,
+  resolveDocumentDownload,
+} from "@/lib/document-stamp";
 
+// GET /api/documents/[id]/download?versionId=&copy=controlled
+// PDFs are served stamped through ./file; other files get a signed URL.
 export async function GET(
-  _req: NextRequest,
+  req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const { orgId } = await auth();
-    if (!orgId) {
+    const { orgId, userId, orgRole } = await auth();
+    if (!orgId || !userId) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
     const { id } = await params;
+    const searchParams = new URL(req.url).searchParams;
 
     const organization = await db.organization.findUnique({
       where: { clerkOrgId: orgId },
@@ -26,28 +37,45 @@ export async function GET(
       );
     }
 
-    const document = await db.document.findFirst({
-      where: {
-        id,
+    const { document, version, storageKey, fileName, mimeType } =
+      await resolveDocumentDownload(id, organization.id, searchParams.get("versionId"));
+
+    if (isStampable(mimeType, fileName)) {
+      const copyType = resolveCopyType(searchParams.get("copy"), {
+        isAdmin: orgRole === "org:admin" || orgRole === "org:owner",
+        status: getDownloadStatus(document, version),
+      });
+      const fileParams = new URLSearchParams();
+      if (version) fileParams.set("versionId", version.id);
+      if (copyType === "CONTROLLED") fileParams.set("copy", "controlled");
+      return NextResponse.json({
+        url: `/api/documents/${document.id}/download/file?${fileParams}`,
+        stamped: true,
+      });
+    }
+
+    const url = await getSignedDownloadUrl(storageKey);
+
+    await createAuditLog({
+      action: "EXPORT",
+      resourceType: "Document",
+      resourceId: document.id,
+      metadata: {
         organizationId: organization.id,
+        versionId: version?.id,
+        fileName,
+        stamped: false,
       },
     });
 
-    if (!document) {
-      return NextResponse.json({ error: "Document not found" }, { status: 404 });
-    }
-
-    if (!document.storageKey) {
+    return NextResponse.json({ url, stamped: false });
+  } catch (error) {
+    if (error instanceof DocumentDownloadError) {
       return NextResponse.json(
-        { error: "Document has no file" },
-        { status: 404 }
+        { error: error.message },
+        { status: error.status }
       );
     }
-
-    const url = await getSignedDownloadUrl(document.storageKey);
-
-    return NextResponse.json({ url });
-  } catch (error) {
     console.error("Failed to get download URL:", error);
     return NextResponse.json(
       { error: "Internal server error" },
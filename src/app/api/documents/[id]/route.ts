@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { db } from "@/lib/db";
 import { deleteFromR2 } from "@/lib/r2";
+import { updateOrganizationComplianceScore } from "@/lib/compliance-v2";
 
 export async function GET(
   _req: NextRequest,
@@ -93,7 +94,7 @@ export async function DELETE(
     await db.document.delete({ where: { id } });
 
     // Update compliance score
-    await updateComplianceScore(organization.id);
+    await updateOrganizationComplianceScore(organization.id);
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -104,51 +105,3 @@ export async function DELETE(
     );
   }
 }
-
-async function updateComplianceScore(organizationId: string) {
-  const organization = await db.organization.findUnique({
-    where: { id: organizationId },
-    include: {
-      insurancePolicies: true,
-      members: true,
-      documents: true,
-    },
-  });
-
-  if (!organization) return;
-
-  const now = new Date();
-  let score = 0;
-
-  // Insurance score (40%)
-  const validPolicies = organization.insurancePolicies.filter(
-    (p) => new Date(p.expiryDate) > now
-  );
-  const hasPL = validPolicies.some((p) => p.policyType === "PUBLIC_LIABILITY");
-  const hasPI = validPolicies.some(
-    (p) => p.policyType === "PROFESSIONAL_INDEMNITY"
-  );
-  if (hasPL) score += 20;
-  if (hasPI) score += 20;
-
-  // Personnel score (30%)
-  const hasOwner = organization.members.some((m) => m.role === "OWNER");
-  const hasLBP = organization.members.some((m) => m.lbpNumber);
-  if (hasOwner) score += 15;
-  if (hasLBP) score += 15;
-
-  // Documentation score (30%)
-  const hasQP = organization.documents.some(
-    (d) => d.isoElement === "QUALITY_POLICY"
-  );
-  const hasQO = organization.documents.some(
-    (d) => d.isoElement === "QUALITY_OBJECTIVES"
-  );
-  if (hasQP) score += 15;
-  if (hasQO) score += 15;
-
-  await db.organization.update({
-    where: { id: organizationId },
-    data: { complianceScore: score },
-  });
-}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db } from "@/lib/db";
+import { compareDocumentVersions, DocumentDiffError } from "@/lib/document-diff";
+import { DocumentTextExtractionError } from "@/lib/document-text";
+
+// GET /api/documents/[id]/versions/compare?from=<versionId>&to=<versionId>
+// Both are optional: `to` defaults to the latest version and `from` to the
+// version before `to`.
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { orgId } = await auth();
+    if (!orgId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: documentId } = await params;
+    const { searchParams } = new URL(req.url);
+
+    // Verify document belongs to org
+    const document = await db.document.findFirst({
+      where: {
+        id: documentId,
+        organization: { clerkOrgId: orgId },
+      },
+    });
+
+    if (!document) {
+      return NextResponse.json(
+        { error: "Document not found" },
+        { status: 404 }
+      );
+    }
+
+    const diff = await compareDocumentVersions(documentId, {
+      fromVersionId: searchParams.get("from") || undefined,
+      toVersionId: searchParams.get("to") || undefined,
+    });
+
+    return NextResponse.json(diff);
+  } catch (error) {
+    if (error instanceof DocumentDiffError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof DocumentTextExtractionError) {
+      return NextResponse.json({ error: error.message }, { status: 422 });
+    }
+
+    console.error("Failed to compare versions:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
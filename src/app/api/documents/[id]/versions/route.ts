@@ -8,6 +8,7 @@ import {
   getVersionHistory,
 } from "@/lib/document-versioning";
 import { updateOrganizationComplianceScore } from "@/lib/compliance-v2";
+import { indexDocumentContent } from "@/lib/search";
 import { MAX_FILE_SIZE_BYTES, MAX_FILE_SIZE_MB } from "@/types";
 
 export async function GET(
@@ -129,6 +130,14 @@ export async function POST(
       isMajorVersion,
     });
 
+    // Re-index the file text for search (best-effort; the search-index cron picks up misses)
+    await indexDocumentContent(documentId, {
+      buffer,
+      mimeType: file.type,
+      fileName: file.name,
+      fileHash,
+    });
+
     // Update compliance score
     await updateOrganizationComplianceScore(document.organizationId);
 
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db } from "@/lib/db";
+import { getPendingAcknowledgementsForMember } from "@/lib/document-acknowledgement";
+
+// GET /api/documents/acknowledgements - Approved documents the current user
+// still has to read and acknowledge
+export async function GET() {
+  try {
+    const { orgId, userId } = await auth();
+    if (!orgId || !userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const member = await db.organizationMember.findFirst({
+      where: { clerkUserId: userId, organization: { clerkOrgId: orgId } },
+      select: { id: true },
+    });
+
+    if (!member) {
+      return NextResponse.json([]);
+    }
+
+    return NextResponse.json(await getPendingAcknowledgementsForMember(member.id));
+  } catch (error) {
+    console.error("Failed to fetch pending acknowledgements:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db } from "@/lib/db";
+import { createAuditLog } from "@/lib/audit-log";
+
+// DELETE /api/documents/approval-delegations/[delegationId] - End a delegation early
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ delegationId: string }> }
+) {
+  try {
+    const { orgId, userId, orgRole } = await auth();
+    if (!orgId || !userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { delegationId } = await params;
+
+    const delegation = await db.approvalDelegation.findFirst({
+      where: { id: delegationId, organization: { clerkOrgId: orgId } },
+    });
+
+    if (!delegation) {
+      return NextResponse.json(
+        { error: "Delegation not found" },
+        { status: 404 }
+      );
+    }
+
+    const isAdmin = orgRole === "org:admin" || orgRole === "org:owner";
+    if (delegation.delegatorId !== userId && !isAdmin) {
+      return NextResponse.json(
+        { error: "You can only remove your own delegations" },
+        { status: 403 }
+      );
+    }
+
+    // Steps already routed to the delegate stay with them; only new steps
+    // go back to the original approver.
+    await db.approvalDelegation.delete({ where: { id: delegation.id } });
+
+    await createAuditLog({
+      action: "DELETE",
+      resourceType: "ApprovalDelegation",
+      resourceId: delegation.id,
+      previousState: {
+        delegator: delegation.delegatorName,
+        delegate: delegation.delegateName,
+        startsAt: delegation.startsAt.toISOString(),
+        endsAt: delegation.endsAt.toISOString(),
+      },
+      metadata: { organizationId: delegation.organizationId },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to delete approval delegation:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod/v4";
+import { db } from "@/lib/db";
+import { createAuditLog } from "@/lib/audit-log";
+import { getMemberNames } from "@/lib/document-approval";
+
+const createDelegationSchema = z
+  .object({
+    delegatorId: z.string().min(1).optional(), // Defaults to the current user
+    delegateId: z.string().min(1),
+    startsAt: z.coerce.date(),
+    endsAt: z.coerce.date(),
+    reason: z.string().max(500).optional(),
+  })
+  .refine((data) => data.endsAt > data.startsAt, {
+    message: "End date must be after start date",
+    path: ["endsAt"],
+  });
+
+// GET /api/documents/approval-delegations - Current and upcoming delegations
+export async function GET() {
+  try {
+    const { orgId } = await auth();
+    if (!orgId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const organization = await db.organization.findUnique({
+      where: { clerkOrgId: orgId },
+      select: { id: true },
+    });
+
+    if (!organization) {
+      return NextResponse.json(
+        { error: "Organization not found" },
+        { status: 404 }
+      );
+    }
+
+    const delegations = await db.approvalDelegation.findMany({
+      where: {
+        organizationId: organization.id,
+        endsAt: { gt: new Date() },
+      },
+      orderBy: { startsAt: "asc" },
+    });
+
+    return NextResponse.json(delegations);
+  } catch (error) {
+    console.error("Failed to fetch approval delegations:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/documents/approval-delegations - Hand your approvals to a
+// colleague while away. Owners/admins may set up delegations for anyone.
+export async function POST(req: NextRequest) {
+  try {
+    const { orgId, userId, orgRole } = await auth();
+    if (!orgId || !userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const organization = await db.organization.findUnique({
+      where: { clerkOrgId: orgId },
+      select: { id: true },
+    });
+
+    if (!organization) {
+      return NextResponse.json(
+        { error: "Organization not found" },
+        { status: 404 }
+      );
+    }
+
+    const body = await req.json();
+    const data = createDelegationSchema.parse(body);
+    const delegatorId = data.delegatorId ?? userId;
+
+    const isAdmin = orgRole === "org:admin" || orgRole === "org:owner";
+    if (delegatorId !== userId && !isAdmin) {
+      return NextResponse.json(
+        { error: "You can only delegate your own approvals" },
+        { status: 403 }
+      );
+    }
+
+    if (delegatorId === data.delegateId) {
+      return NextResponse.json(
+        { error: "Approvals cannot be delegated to the same person" },
+        { status: 400 }
+      );
+    }
+
+    const names = await getMemberNames(organization.id, [delegatorId, data.delegateId]);
+    if (!names.has(delegatorId) || !names.has(data.delegateId)) {
+      return NextResponse.json(
+        { error: "Both people must be members of your organisation" },
+        { status: 400 }
+      );
+    }
+
+    const overlapping = await db.approvalDelegation.findFirst({
+      where: {
+        organizationId: organization.id,
+        delegatorId,
+        startsAt: { lt: data.endsAt },
+        endsAt: { gt: data.startsAt },
+      },
+    });
+    if (overlapping) {
+      return NextResponse.json(
+        { error: `${names.get(delegatorId)} already has a delegation in that period` },
+        { status: 409 }
+      );
+    }
+
+    const delegation = await db.approvalDelegation.create({
+      data: {
+        organizationId: organization.id,
+        delegatorId,
+        delegatorName: names.get(delegatorId)!,
+        delegateId: data.delegateId,
+        delegateName: names.get(data.delegateId)!,
+        startsAt: data.startsAt,
+        endsAt: data.endsAt,
+        reason: data.reason,
+        createdBy: userId,
+      },
+    });
+
+    await createAuditLog({
+      action: "CREATE",
+      resourceType: "ApprovalDelegation",
+      resourceId: delegation.id,
+      newState: {
+        delegator: delegation.delegatorName,
+        delegate: delegation.delegateName,
+        startsAt: delegation.startsAt.toISOString(),
+        endsAt: delegation.endsAt.toISOString(),
+      },
+      metadata: { organizationId: organization.id },
+    });
+
+    return NextResponse.json(delegation, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+    console.error("Failed to create approval delegation:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
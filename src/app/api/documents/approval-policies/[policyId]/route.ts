@@ -0,0 +1,189 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod/v4";
+import { db } from "@/lib/db";
+import { createAuditLog } from "@/lib/audit-log";
+import { getMemberNames, updateApprovalPolicySchema } from "@/lib/document-approval";
+
+async function getPolicyForAdmin(policyId: string) {
+  const { orgId, userId, orgRole } = await auth();
+  if (!orgId || !userId) {
+    return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+  }
+
+  if (orgRole !== "org:admin" && orgRole !== "org:owner") {
+    return {
+      error: NextResponse.json(
+        { error: "Only organisation owners or admins can manage approval policies" },
+        { status: 403 }
+      ),
+    };
+  }
+
+  const policy = await db.documentApprovalPolicy.findFirst({
+    where: { id: policyId, organization: { clerkOrgId: orgId } },
+    include: { steps: { orderBy: { stepOrder: "asc" } } },
+  });
+
+  if (!policy) {
+    return {
+      error: NextResponse.json({ error: "Approval policy not found" }, { status: 404 }),
+    };
+  }
+
+  return { policy };
+}
+
+// PATCH /api/documents/approval-policies/[policyId] - Update a policy.
+// Passing `steps` replaces the whole chain; versions already in review keep
+// the steps they were submitted with.
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ policyId: string }> }
+) {
+  try {
+    const { policyId } = await params;
+    const { policy, error } = await getPolicyForAdmin(policyId);
+    if (error) return error;
+
+    const body = await req.json();
+    const data = updateApprovalPolicySchema.parse(body);
+
+    const documentType =
+      data.documentType !== undefined ? data.documentType : policy.documentType;
+    const isoElement =
+      data.isoElement !== undefined ? data.isoElement : policy.isoElement;
+    const enabled = data.enabled ?? policy.enabled;
+
+    if (enabled) {
+      const existing = await db.documentApprovalPolicy.findFirst({
+        where: {
+          id: { not: policy.id },
+          organizationId: policy.organizationId,
+          enabled: true,
+          documentType,
+          isoElement,
+        },
+      });
+      if (existing) {
+        return NextResponse.json(
+          { error: `"${existing.name}" already covers this document type and element` },
+          { status: 409 }
+        );
+      }
+    }
+
+    let names = new Map<string, string>();
+    if (data.steps) {
+      names = await getMemberNames(
+        policy.organizationId,
+        data.steps.map((s) => s.approverId)
+      );
+      const unknown = data.steps.find((s) => !names.has(s.approverId));
+      if (unknown) {
+        return NextResponse.json(
+          { error: `The approver for "${unknown.name}" is not a member of your organisation` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const updated = await db.$transaction(async (tx) => {
+      if (data.steps) {
+        await tx.documentApprovalPolicyStep.deleteMany({
+          where: { policyId: policy.id },
+        });
+      }
+
+      return tx.documentApprovalPolicy.update({
+        where: { id: policy.id },
+        data: {
+          name: data.name,
+          documentType,
+          isoElement,
+          reviewCycleMonths: data.reviewCycleMonths,
+          enabled,
+          ...(data.steps && {
+            steps: {
+              create: data.steps.map((step, index) => ({
+                stepOrder: index + 1,
+                name: step.name,
+                approverId: step.approverId,
+                approverName: names.get(step.approverId)!,
+                dueDays: step.dueDays,
+              })),
+            },
+          }),
+        },
+        include: { steps: { orderBy: { stepOrder: "asc" } } },
+      });
+    });
+
+    const summary = (p: typeof updated) => ({
+      name: p.name,
+      documentType: p.documentType,
+      isoElement: p.isoElement,
+      reviewCycleMonths: p.reviewCycleMonths,
+      enabled: p.enabled,
+      steps: p.steps.map((s) => `${s.name}: ${s.approverName}`),
+    });
+
+    await createAuditLog({
+      action: "UPDATE",
+      resourceType: "DocumentApprovalPolicy",
+      resourceId: policy.id,
+      previousState: summary(policy),
+      newState: summary(updated),
+      metadata: { organizationId: policy.organizationId },
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+    console.error("Failed to update approval policy:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/documents/approval-policies/[policyId]
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ policyId: string }> }
+) {
+  try {
+    const { policyId } = await params;
+    const { policy, error } = await getPolicyForAdmin(policyId);
+    if (error) return error;
+
+    await db.documentApprovalPolicy.delete({ where: { id: policy.id } });
+
+    await createAuditLog({
+      action: "DELETE",
+      resourceType: "DocumentApprovalPolicy",
+      resourceId: policy.id,
+      previousState: {
+        name: policy.name,
+        documentType: policy.documentType,
+        isoElement: policy.isoElement,
+        steps: policy.steps.map((s) => `${s.name}: ${s.approverName}`),
+      },
+      metadata: { organizationId: policy.organizationId },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to delete approval policy:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
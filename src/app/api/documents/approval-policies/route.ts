@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod/v4";
+import { db } from "@/lib/db";
+import { createAuditLog } from "@/lib/audit-log";
+import { approvalPolicySchema, getMemberNames } from "@/lib/document-approval";
+
+// GET /api/documents/approval-policies - List the organisation's approval policies
+export async function GET() {
+  try {
+    const { orgId } = await auth();
+    if (!orgId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const organization = await db.organization.findUnique({
+      where: { clerkOrgId: orgId },
+      select: { id: true },
+    });
+
+    if (!organization) {
+      return NextResponse.json(
+        { error: "Organization not found" },
+        { status: 404 }
+      );
+    }
+
+    const policies = await db.documentApprovalPolicy.findMany({
+      where: { organizationId: organization.id },
+      include: { steps: { orderBy: { stepOrder: "asc" } } },
+      orderBy: [{ enabled: "desc" }, { name: "asc" }],
+    });
+
+    return NextResponse.json(policies);
+  } catch (error) {
+    console.error("Failed to fetch approval policies:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/documents/approval-policies - Create an approval policy (owners/admins)
+export async function POST(req: NextRequest) {
+  try {
+    const { orgId, userId, orgRole } = await auth();
+    if (!orgId || !userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (orgRole !== "org:admin" && orgRole !== "org:owner") {
+      return NextResponse.json(
+        { error: "Only organisation owners or admins can manage approval policies" },
+        { status: 403 }
+      );
+    }
+
+    const organization = await db.organization.findUnique({
+      where: { clerkOrgId: orgId },
+      select: { id: true },
+    });
+
+    if (!organization) {
+      return NextResponse.json(
+        { error: "Organization not found" },
+        { status: 404 }
+      );
+    }
+
+    const body = await req.json();
+    const data = approvalPolicySchema.parse(body);
+
+    // Only one enabled policy per scope, so the match is unambiguous
+    if (data.enabled) {
+      const existing = await db.documentApprovalPolicy.findFirst({
+        where: {
+          organizationId: organization.id,
+          enabled: true,
+          documentType: data.documentType,
+          isoElement: data.isoElement,
+        },
+      });
+      if (existing) {
+        return NextResponse.json(
+          { error: `"${existing.name}" already covers this document type and element` },
+          { status: 409 }
+        );
+      }
+    }
+
+    const names = await getMemberNames(
+      organization.id,
+      data.steps.map((s) => s.approverId)
+    );
+    const unknown = data.steps.find((s) => !names.has(s.approverId));
+    if (unknown) {
+      return NextResponse.json(
+        { error: `The approver for "${unknown.name}" is not a member of your organisation` },
+        { status: 400 }
+      );
+    }
+
+    const policy = await db.documentApprovalPolicy.create({
+      data: {
+        organizationId: organization.id,
+        name: data.name,
+        documentType: data.documentType,
+        isoElement: data.isoElement,
+        reviewCycleMonths: data.reviewCycleMonths,
+        enabled: data.enabled,
+        createdBy: userId,
+        steps: {
+          create: data.steps.map((step, index) => ({
+            stepOrder: index + 1,
+            name: step.name,
+            approverId: step.approverId,
+            approverName: names.get(step.approverId)!,
+            dueDays: step.dueDays,
+          })),
+        },
+      },
+      include: { steps: { orderBy: { stepOrder: "asc" } } },
+    });
+
+    await createAuditLog({
+      action: "CREATE",
+      resourceType: "DocumentApprovalPolicy",
+      resourceId: policy.id,
+      newState: {
+        name: policy.name,
+        documentType: policy.documentType,
+        isoElement: policy.isoElement,
+        reviewCycleMonths: policy.reviewCycleMonths,
+        steps: policy.steps.map((s) => `${s.name}: ${s.approverName}`),
+      },
+      metadata: { organizationId: organization.id },
+    });
+
+    return NextResponse.json(policy, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+    console.error("Failed to create approval policy:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db } from "@/lib/db";
+import { getPendingApprovalsForUser } from "@/lib/document-approval";
+import { formatVersionString } from "@/lib/document-versioning";
+
+// GET /api/documents/approvals - Approval steps waiting on the current user,
+// including steps of approvers they are standing in for
+export async function GET() {
+  try {
+    const { orgId, userId } = await auth();
+    if (!orgId || !userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const organization = await db.organization.findUnique({
+      where: { clerkOrgId: orgId },
+      select: { id: true },
+    });
+
+    if (!organization) {
+      return NextResponse.json(
+        { error: "Organization not found" },
+        { status: 404 }
+      );
+    }
+
+    const steps = await getPendingApprovalsForUser(organization.id, userId);
+
+    return NextResponse.json(
+      steps.map((step) => ({
+        id: step.id,
+        name: step.name,
+        stepOrder: step.stepOrder,
+        approverId: step.approverId,
+        approverName: step.approverName,
+        delegatedFromName: step.delegatedFromName,
+        onBehalfOf: step.approverId !== userId ? step.approverName : null,
+        dueDate: step.dueDate,
+        versionId: step.version.id,
+        versionString: formatVersionString(
+          step.version.versionNumber,
+          step.version.minorVersion
+        ),
+        submittedAt: step.version.submittedAt,
+        document: step.version.document,
+      }))
+    );
+  } catch (error) {
+    console.error("Failed to fetch pending approvals:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
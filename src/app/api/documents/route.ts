@@ -9,6 +9,7 @@ import {
 } from "@/lib/document-versioning";
 import { updateOrganizationComplianceScore } from "@/lib/compliance-v2";
 import { logDocumentMutation } from "@/lib/audit-log";
+import { indexDocumentContent } from "@/lib/search";
 import { MAX_FILE_SIZE_BYTES, MAX_FILE_SIZE_MB } from "@/types";
 import type { DocumentStatus, ISOElement, Prisma } from "@prisma/client";
 
@@ -208,6 +209,14 @@ export async function POST(req: NextRequest) {
       { organizationId: organization.id, versionId }
     );
 
+    // Index the file text for search (best-effort; the search-index cron picks up misses)
+    await indexDocumentContent(documentId, {
+      buffer,
+      mimeType: file.type,
+      fileName: file.name,
+      fileHash,
+    });
+
     // Update compliance score
     await updateOrganizationComplianceScore(organization.id);
 
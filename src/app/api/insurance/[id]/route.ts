@@ -4,6 +4,7 @@ import { db } from "@/lib/db";
 import { deleteFromR2, uploadToR2 } from "@/lib/r2";
 import { z } from "zod/v4";
 import { logInsuranceMutation } from "@/lib/audit-log";
+import { updateOrganizationComplianceScore } from "@/lib/compliance-v2";
 import { MAX_FILE_SIZE_BYTES, MAX_FILE_SIZE_MB } from "@/types";
 
 const updatePolicySchema = z.object({
@@ -52,6 +53,7 @@ export async function GET(
         id,
         organizationId: organization.id,
       },
+      omit: { verificationToken: true },
     });
 
     if (!policy) {
@@ -150,8 +152,18 @@ export async function PUT(
       certificateKey = await uploadToR2(buffer, fileName, file.type);
     }
 
+    // Details the broker confirmed no longer stand once the member edits them
+    const detailsChanged =
+      existingPolicy.policyType !== validatedData.policyType ||
+      existingPolicy.policyNumber !== validatedData.policyNumber ||
+      existingPolicy.insurer !== validatedData.insurer ||
+      Number(existingPolicy.coverageAmount) !== parseFloat(validatedData.coverageAmount) ||
+      existingPolicy.effectiveDate.getTime() !== new Date(validatedData.effectiveDate).getTime() ||
+      existingPolicy.expiryDate.getTime() !== new Date(validatedData.expiryDate).getTime();
+
     const policy = await db.insurancePolicy.update({
       where: { id },
+      omit: { verificationToken: true },
       data: {
         policyType: validatedData.policyType,
         policyNumber: validatedData.policyNumber,
@@ -164,6 +176,15 @@ export async function PUT(
         effectiveDate: new Date(validatedData.effectiveDate),
         expiryDate: new Date(validatedData.expiryDate),
         certificateKey,
+        // Extending the policy re-arms the lapse check
+        ...(new Date(validatedData.expiryDate) > new Date() && {
+          lapseAlertSent: false,
+        }),
+        ...(detailsChanged && {
+          verified: false,
+          verifiedAt: null,
+          verifiedBy: null,
+        }),
       },
     });
 
@@ -177,6 +198,7 @@ export async function PUT(
         insurer: existingPolicy.insurer,
         coverageAmount: existingPolicy.coverageAmount.toString(),
         expiryDate: existingPolicy.expiryDate.toISOString(),
+        verified: existingPolicy.verified,
       },
       {
         policyType: policy.policyType,
@@ -184,12 +206,13 @@ export async function PUT(
         insurer: policy.insurer,
         coverageAmount: policy.coverageAmount.toString(),
         expiryDate: policy.expiryDate.toISOString(),
+        verified: policy.verified,
       },
       { organizationId: organization.id }
     );
 
     // Update compliance score
-    await updateComplianceScore(organization.id);
+    await updateOrganizationComplianceScore(organization.id);
 
     return NextResponse.json(policy);
   } catch (error) {
@@ -235,6 +258,7 @@ export async function DELETE(
         id,
         organizationId: organization.id,
       },
+      omit: { verificationToken: true },
     });
 
     if (!policy) {
@@ -268,7 +292,7 @@ export async function DELETE(
     );
 
     // Update compliance score
-    await updateComplianceScore(organization.id);
+    await updateOrganizationComplianceScore(organization.id);
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -279,51 +303,3 @@ export async function DELETE(
     );
   }
 }
-
-async function updateComplianceScore(organizationId: string) {
-  const organization = await db.organization.findUnique({
-    where: { id: organizationId },
-    include: {
-      insurancePolicies: true,
-      members: true,
-      documents: true,
-    },
-  });
-
-  if (!organization) return;
-
-  const now = new Date();
-  let score = 0;
-
-  // Insurance score (40%)
-  const validPolicies = organization.insurancePolicies.filter(
-    (p) => new Date(p.expiryDate) > now
-  );
-  const hasPL = validPolicies.some((p) => p.policyType === "PUBLIC_LIABILITY");
-  const hasPI = validPolicies.some(
-    (p) => p.policyType === "PROFESSIONAL_INDEMNITY"
-  );
-  if (hasPL) score += 20;
-  if (hasPI) score += 20;
-
-  // Personnel score (30%)
-  const hasOwner = organization.members.some((m) => m.role === "OWNER");
-  const hasLBP = organization.members.some((m) => m.lbpNumber);
-  if (hasOwner) score += 15;
-  if (hasLBP) score += 15;
-
-  // Documentation score (30%)
-  const hasQP = organization.documents.some(
-    (d) => d.isoElement === "QUALITY_POLICY"
-  );
-  const hasQO = organization.documents.some(
-    (d) => d.isoElement === "QUALITY_OBJECTIVES"
-  );
-  if (hasQP) score += 15;
-  if (hasQO) score += 15;
-
-  await db.organization.update({
-    where: { id: organizationId },
-    data: { complianceScore: score },
-  });
-}
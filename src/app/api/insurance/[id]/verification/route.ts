@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db } from "@/lib/db";
+import { z } from "zod/v4";
+import {
+  InsuranceVerificationError,
+  requestBrokerVerification,
+} from "@/lib/insurance-verification";
+
+const requestVerificationSchema = z.object({
+  brokerEmail: z.email(),
+  brokerName: z.string().max(200).optional(),
+});
+
+// POST /api/insurance/[id]/verification
+// Emails the member's broker a link to confirm the policy details
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { orgId } = await auth();
+    if (!orgId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const organization = await db.organization.findUnique({
+      where: { clerkOrgId: orgId },
+    });
+
+    if (!organization) {
+      return NextResponse.json(
+        { error: "Organization not found" },
+        { status: 404 }
+      );
+    }
+
+    const body = await req.json();
+    const data = requestVerificationSchema.parse(body);
+
+    const policy = await requestBrokerVerification({
+      policyId: id,
+      organizationId: organization.id,
+      brokerEmail: data.brokerEmail,
+      brokerName: data.brokerName,
+    });
+
+    return NextResponse.json({
+      brokerEmail: policy.brokerEmail,
+      verificationRequestedAt: policy.verificationRequestedAt,
+      verificationTokenExpiresAt: policy.verificationTokenExpiresAt,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+    if (error instanceof InsuranceVerificationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error("Failed to request broker verification:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import {
+  DocumentTextExtractionError,
+  extractDocumentText,
+} from "@/lib/document-text";
+import { parseCertificateText } from "@/lib/insurance-certificate";
+import { MAX_FILE_SIZE_BYTES, MAX_FILE_SIZE_MB } from "@/types";
+
+// POST /api/insurance/certificate/extract
+// Reads a certificate of currency and returns the policy fields found in it.
+// Nothing is stored; the certificate is uploaded with the policy on save.
+export async function POST(req: NextRequest) {
+  try {
+    const { orgId } = await auth();
+    if (!orgId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const formData = await req.formData();
+    const file = formData.get("certificate") as File | null;
+
+    if (!file || file.size === 0) {
+      return NextResponse.json(
+        { error: "Certificate file is required" },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_FILE_SIZE_BYTES) {
+      return NextResponse.json(
+        { error: `Certificate file exceeds maximum size of ${MAX_FILE_SIZE_MB}MB` },
+        { status: 413 }
+      );
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const text = await extractDocumentText(buffer, file.type, file.name);
+
+    return NextResponse.json(parseCertificateText(text));
+  } catch (error) {
+    if (error instanceof DocumentTextExtractionError) {
+      return NextResponse.json({ error: error.message }, { status: 422 });
+    }
+    console.error("Failed to read insurance certificate:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
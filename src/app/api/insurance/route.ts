@@ -47,6 +47,7 @@ export async function GET() {
     const policies = await db.insurancePolicy.findMany({
       where: { organizationId: organization.id },
       orderBy: { expiryDate: "asc" },
+      omit: { verificationToken: true },
     });
 
     return NextResponse.json(policies);
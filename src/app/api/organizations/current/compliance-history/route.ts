@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db } from "@/lib/db";
+import { getComplianceHistory } from "@/lib/compliance-history";
+
+// GET - Compliance score history for the current organization
+// Query params: days (default 90, max 730)
+export async function GET(req: NextRequest) {
+  try {
+    const { userId, orgId } = await auth();
+    if (!userId || !orgId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const organization = await db.organization.findUnique({
+      where: { clerkOrgId: orgId },
+      select: { id: true },
+    });
+
+    if (!organization) {
+      return NextResponse.json({ error: "Organization not found" }, { status: 404 });
+    }
+
+    const days = parseDays(req.nextUrl.searchParams.get("days"));
+    const history = await getComplianceHistory(organization.id, { days });
+
+    return NextResponse.json(history);
+  } catch (error) {
+    console.error("Failed to fetch compliance history:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+function parseDays(value: string | null): number {
+  const days = parseInt(value || "90", 10);
+  return Number.isNaN(days) ? 90 : Math.min(Math.max(days, 1), 730);
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { db } from "@/lib/db";
 import { z } from "zod/v4";
+import { NZ_REGIONS } from "@/types";
 
 // GET - Get current organization profile
 export async function GET() {
@@ -21,6 +22,7 @@ export async function GET() {
         phone: true,
         address: true,
         city: true,
+        region: true,
         description: true,
         logoKey: true,
         nzbn: true,
@@ -45,6 +47,7 @@ const updateOrgSchema = z.object({
   phone: z.string().max(20).nullable().optional(),
   address: z.string().max(200).nullable().optional(),
   city: z.string().max(50).nullable().optional(),
+  region: z.enum(NZ_REGIONS).nullable().optional(),
   description: z.string().max(500).nullable().optional(),
 });
 
@@ -90,6 +93,7 @@ export async function PATCH(req: NextRequest) {
         phone: true,
         address: true,
         city: true,
+        region: true,
         description: true,
         logoKey: true,
         nzbn: true,
@@ -97,7 +97,7 @@ export async function GET() {
       where: { clerkOrgId: orgId },
       include: {
         members: true,
-        insurancePolicies: true,
+        insurancePolicies: { omit: { verificationToken: true } },
         documents: true,
       },
     });
@@ -74,10 +74,10 @@ export async function POST(req: NextRequest) {
       resourceType: "ProgrammeEnrolment",
       resourceId: enrolment.id,
       newState: {
-        organizationId: organization.id,
         status: "PENDING",
         appliedBy: userId,
       },
+      metadata: { organizationId: organization.id },
     });
 
     return NextResponse.json(enrolment, { status: 201 });
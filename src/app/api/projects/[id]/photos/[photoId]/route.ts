@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod/v4";
+import { db } from "@/lib/db";
+import { deleteFromR2 } from "@/lib/r2";
+import { createAuditLog } from "@/lib/audit-log";
+
+const updatePhotoSchema = z.object({
+  category: z
+    .enum([
+      "BEFORE",
+      "DURING",
+      "AFTER",
+      "MATERIALS",
+      "SAFETY",
+      "ISSUE",
+      "DETAIL",
+      "TESTIMONIAL",
+    ])
+    .optional(),
+  description: z.string().max(1000).nullable().optional(),
+  tags: z.array(z.string().trim().min(1).max(50)).max(20).optional(),
+});
+
+// --- Helpers ---
+
+async function getPhotoForOrg(projectId: string, photoId: string) {
+  const { userId, orgId } = await auth();
+  if (!userId || !orgId) return { error: "Unauthorized", status: 401 } as const;
+
+  const organization = await db.organization.findUnique({
+    where: { clerkOrgId: orgId },
+  });
+
+  if (!organization) {
+    return { error: "Organization not found", status: 404 } as const;
+  }
+
+  const photo = await db.projectPhoto.findUnique({
+    where: { id: photoId },
+    include: { project: { select: { organizationId: true } } },
+  });
+
+  if (
+    !photo ||
+    photo.projectId !== projectId ||
+    photo.project.organizationId !== organization.id
+  ) {
+    return { error: "Photo not found", status: 404 } as const;
+  }
+
+  return { photo } as const;
+}
+
+// --- PATCH: Update category, description or tags ---
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; photoId: string }> }
+) {
+  try {
+    const { id, photoId } = await params;
+    const ctx = await getPhotoForOrg(id, photoId);
+
+    if ("error" in ctx) {
+      return NextResponse.json({ error: ctx.error }, { status: ctx.status });
+    }
+
+    const body = await req.json();
+    const data = updatePhotoSchema.parse(body);
+
+    const photo = await db.projectPhoto.update({
+      where: { id: photoId },
+      data,
+    });
+
+    await createAuditLog({
+      action: "UPDATE",
+      resourceType: "ProjectPhoto",
+      resourceId: photoId,
+      previousState: {
+        category: ctx.photo.category,
+        description: ctx.photo.description,
+        tags: ctx.photo.tags,
+      },
+      newState: {
+        category: photo.category,
+        description: photo.description,
+        tags: photo.tags,
+      },
+      metadata: { organizationId: ctx.photo.project.organizationId },
+    });
+
+    return NextResponse.json(photo);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Failed to update project photo:", error);
+    return NextResponse.json(
+      { error: "Failed to update photo" },
+      { status: 500 }
+    );
+  }
+}
+
+// --- DELETE: Remove photo and its R2 objects ---
+
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string; photoId: string }> }
+) {
+  try {
+    const { id, photoId } = await params;
+    const ctx = await getPhotoForOrg(id, photoId);
+
+    if ("error" in ctx) {
+      return NextResponse.json({ error: ctx.error }, { status: ctx.status });
+    }
+
+    const { photo } = ctx;
+
+    await db.projectPhoto.delete({ where: { id: photoId } });
+
+    // Storage cleanup is best-effort once the record is gone
+    for (const key of [photo.storageKey, photo.thumbnailKey]) {
+      if (!key) continue;
+      try {
+        await deleteFromR2(key);
+      } catch (e) {
+        console.warn("Failed to delete project photo from R2:", e);
+      }
+    }
+
+    await createAuditLog({
+      action: "DELETE",
+      resourceType: "ProjectPhoto",
+      resourceId: photoId,
+      previousState: {
+        projectId: photo.projectId,
+        category: photo.category,
+        fileName: photo.fileName,
+        capturedAt: photo.capturedAt?.toISOString() ?? null,
+      },
+      metadata: { organizationId: photo.project.organizationId },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to delete project photo:", error);
+    return NextResponse.json(
+      { error: "Failed to delete photo" },
+      { status: 500 }
+    );
+  }
+}
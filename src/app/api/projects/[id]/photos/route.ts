@@ -0,0 +1,267 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod/v4";
+import { db } from "@/lib/db";
+import {
+  getObjectFromR2,
+  getObjectSizeFromR2,
+  uploadToR2,
+  deleteFromR2,
+  getSignedDownloadUrl,
+} from "@/lib/r2";
+import { addProjectPhoto, getProjectPhotoKeyPrefix } from "@/lib/projects";
+import {
+  MAX_PHOTO_SIZE_BYTES,
+  detectPhotoMimeType,
+  extractPhotoMetadata,
+  generateThumbnail,
+} from "@/lib/photo-processing";
+import { createAuditLog } from "@/lib/audit-log";
+import type { ProjectPhoto } from "@prisma/client";
+
+const PHOTO_CATEGORIES = [
+  "BEFORE",
+  "DURING",
+  "AFTER",
+  "MATERIALS",
+  "SAFETY",
+  "ISSUE",
+  "DETAIL",
+  "TESTIMONIAL",
+] as const;
+
+const registerPhotoSchema = z.object({
+  storageKey: z.string().min(1),
+  fileName: z.string().min(1).max(255),
+  category: z.enum(PHOTO_CATEGORIES),
+  description: z.string().max(1000).optional(),
+  tags: z.array(z.string().trim().min(1).max(50)).max(20).optional(),
+});
+
+// --- Helpers ---
+
+async function getProjectForOrg(projectId: string) {
+  const { userId, orgId } = await auth();
+  if (!userId || !orgId) return { error: "Unauthorized", status: 401 } as const;
+
+  const organization = await db.organization.findUnique({
+    where: { clerkOrgId: orgId },
+  });
+
+  if (!organization) {
+    return { error: "Organization not found", status: 404 } as const;
+  }
+
+  const project = await db.project.findUnique({
+    where: { id: projectId },
+    select: { id: true, organizationId: true, projectNumber: true },
+  });
+
+  if (!project || project.organizationId !== organization.id) {
+    return { error: "Project not found", status: 404 } as const;
+  }
+
+  return { userId, organization, project } as const;
+}
+
+async function withSignedUrls(photo: ProjectPhoto) {
+  const [url, thumbnailUrl] = await Promise.all([
+    getSignedDownloadUrl(photo.storageKey),
+    photo.thumbnailKey ? getSignedDownloadUrl(photo.thumbnailKey) : null,
+  ]);
+
+  return { ...photo, url, thumbnailUrl: thumbnailUrl ?? url };
+}
+
+// --- GET: List project photos ---
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const ctx = await getProjectForOrg(id);
+
+    if ("error" in ctx) {
+      return NextResponse.json({ error: ctx.error }, { status: ctx.status });
+    }
+
+    const category = req.nextUrl.searchParams.get("category");
+    const parsedCategory = z.enum(PHOTO_CATEGORIES).safeParse(category);
+
+    const photos = await db.projectPhoto.findMany({
+      where: {
+        projectId: id,
+        ...(parsedCategory.success ? { category: parsedCategory.data } : {}),
+      },
+      orderBy: [{ capturedAt: "asc" }, { uploadedAt: "asc" }],
+    });
+
+    return NextResponse.json({
+      photos: await Promise.all(photos.map(withSignedUrls)),
+    });
+  } catch (error) {
+    console.error("Failed to fetch project photos:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch project photos" },
+      { status: 500 }
+    );
+  }
+}
+
+// --- POST: Register an uploaded photo ---
+
+/**
+ * Called after the browser has PUT the file to the signed URL from
+ * /photos/upload-url. Reads the object back from R2, verifies it is a real
+ * image, extracts EXIF (GPS, capture time, device) and stores a thumbnail.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const ctx = await getProjectForOrg(id);
+
+    if ("error" in ctx) {
+      return NextResponse.json({ error: ctx.error }, { status: ctx.status });
+    }
+
+    const { userId, organization, project } = ctx;
+
+    const body = await req.json();
+    const data = registerPhotoSchema.parse(body);
+
+    // Only accept keys issued for this project by /upload-url
+    const prefix = `portal/${getProjectPhotoKeyPrefix(organization.id, project.id)}`;
+    if (!data.storageKey.startsWith(prefix) || data.storageKey.includes("..")) {
+      return NextResponse.json(
+        { error: "Invalid storage key for this project" },
+        { status: 400 }
+      );
+    }
+
+    const existing = await db.projectPhoto.findFirst({
+      where: { storageKey: data.storageKey },
+      select: { id: true },
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        { error: "Photo has already been registered" },
+        { status: 409 }
+      );
+    }
+
+    // Check the size before reading the object into memory
+    let size: number;
+    try {
+      size = await getObjectSizeFromR2(data.storageKey);
+    } catch {
+      return NextResponse.json(
+        { error: "Uploaded file not found. Please upload the photo again." },
+        { status: 400 }
+      );
+    }
+
+    if (size > MAX_PHOTO_SIZE_BYTES) {
+      await deleteFromR2(data.storageKey);
+      return NextResponse.json(
+        { error: "Photo exceeds maximum size of 25MB" },
+        { status: 400 }
+      );
+    }
+
+    let buffer: Buffer;
+    try {
+      buffer = await getObjectFromR2(data.storageKey);
+    } catch {
+      return NextResponse.json(
+        { error: "Uploaded file not found. Please upload the photo again." },
+        { status: 400 }
+      );
+    }
+
+    // The upload URL stays valid, so the object may have been replaced since
+    if (buffer.length > MAX_PHOTO_SIZE_BYTES) {
+      await deleteFromR2(data.storageKey);
+      return NextResponse.json(
+        { error: "Photo exceeds maximum size of 25MB" },
+        { status: 400 }
+      );
+    }
+
+    const mimeType = await detectPhotoMimeType(buffer);
+    if (!mimeType) {
+      await deleteFromR2(data.storageKey);
+      return NextResponse.json(
+        { error: "Invalid file type. Allowed: JPEG, PNG, WebP" },
+        { status: 400 }
+      );
+    }
+
+    const metadata = await extractPhotoMetadata(buffer);
+
+    let thumbnailKey: string | undefined;
+    try {
+      const thumbnail = await generateThumbnail(buffer);
+      thumbnailKey = await uploadToR2(
+        thumbnail,
+        `${data.storageKey.replace(/^portal\//, "").replace(/\.[^./]+$/, "")}-thumb.webp`,
+        "image/webp"
+      );
+    } catch (thumbnailError) {
+      // The gallery falls back to the original image
+      console.warn("Failed to generate photo thumbnail:", thumbnailError);
+    }
+
+    const photo = await addProjectPhoto({
+      projectId: project.id,
+      storageKey: data.storageKey,
+      thumbnailKey,
+      fileName: data.fileName,
+      fileSize: buffer.length,
+      mimeType,
+      category: data.category,
+      capturedAt: metadata.capturedAt,
+      latitude: metadata.latitude,
+      longitude: metadata.longitude,
+      deviceInfo: metadata.deviceInfo,
+      description: data.description,
+      tags: data.tags ?? [],
+      uploadedBy: userId,
+    });
+
+    await createAuditLog({
+      action: "CREATE",
+      resourceType: "ProjectPhoto",
+      resourceId: photo.id,
+      newState: {
+        projectId: project.id,
+        projectNumber: project.projectNumber,
+        category: photo.category,
+        fileName: photo.fileName,
+        capturedAt: photo.capturedAt?.toISOString() ?? null,
+        hasLocation: photo.latitude !== null,
+      },
+      metadata: { organizationId: organization.id },
+    });
+
+    return NextResponse.json(await withSignedUrls(photo), { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Failed to register project photo:", error);
+    return NextResponse.json(
+      { error: "Failed to save photo" },
+      { status: 500 }
+    );
+  }
+}
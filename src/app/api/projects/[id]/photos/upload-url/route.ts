@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { randomUUID } from "crypto";
+import { z } from "zod/v4";
+import { db } from "@/lib/db";
+import { getSignedUploadUrl } from "@/lib/r2";
+import { getProjectPhotoKeyPrefix } from "@/lib/projects";
+import {
+  PHOTO_MIME_TYPES,
+  MAX_PHOTO_SIZE_BYTES,
+  sanitizeFileName,
+} from "@/lib/photo-processing";
+
+// Signed PUT URLs are short-lived; the browser uploads immediately
+const UPLOAD_URL_EXPIRY_SECONDS = 10 * 60;
+
+const uploadUrlSchema = z.object({
+  fileName: z.string().min(1).max(255),
+  mimeType: z.enum(PHOTO_MIME_TYPES as [string, ...string[]]),
+  fileSize: z.number().int().positive().max(MAX_PHOTO_SIZE_BYTES),
+});
+
+/**
+ * POST /api/projects/[id]/photos/upload-url
+ *
+ * Returns a signed R2 URL the browser can PUT the photo to directly,
+ * avoiding the serverless request body limit. The photo is registered
+ * afterwards with POST /api/projects/[id]/photos.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId, orgId } = await auth();
+
+    if (!userId || !orgId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const organization = await db.organization.findUnique({
+      where: { clerkOrgId: orgId },
+    });
+
+    if (!organization) {
+      return NextResponse.json(
+        { error: "Organization not found" },
+        { status: 404 }
+      );
+    }
+
+    const project = await db.project.findUnique({
+      where: { id },
+      select: { id: true, organizationId: true },
+    });
+
+    if (!project || project.organizationId !== organization.id) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const body = await req.json();
+    const data = uploadUrlSchema.parse(body);
+
+    const key = `${getProjectPhotoKeyPrefix(organization.id, project.id)}${randomUUID()}-${sanitizeFileName(data.fileName)}`;
+    const uploadUrl = await getSignedUploadUrl(
+      key,
+      data.mimeType,
+      UPLOAD_URL_EXPIRY_SECONDS
+    );
+
+    return NextResponse.json({
+      uploadUrl,
+      storageKey: `portal/${key}`,
+      expiresIn: UPLOAD_URL_EXPIRY_SECONDS,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Failed to create photo upload URL:", error);
+    return NextResponse.json(
+      { error: "Failed to create upload URL" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod/v4";
+import {
+  getPolicyForVerification,
+  InsuranceVerificationError,
+  submitBrokerVerification,
+} from "@/lib/insurance-verification";
+
+// GET - Verify token and return the policy details to confirm
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const token = searchParams.get("token");
+
+    if (!token) {
+      return NextResponse.json(
+        { error: "Missing verification token" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await getPolicyForVerification(token));
+  } catch (error) {
+    if (error instanceof InsuranceVerificationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error("Failed to verify insurance verification token:", error);
+    return NextResponse.json(
+      { error: "Failed to verify token" },
+      { status: 500 }
+    );
+  }
+}
+
+const dateString = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/)
+  .transform((value) => new Date(value));
+
+const submitSchema = z
+  .object({
+    verificationToken: z.string().min(1),
+    confirmedBy: z.string().min(1).max(200),
+    policyNumber: z.string().min(1).max(100).optional(),
+    insurer: z.string().min(1).max(200).optional(),
+    coverageAmount: z.number().positive().optional(),
+    excessAmount: z.number().min(0).nullable().optional(),
+    effectiveDate: dateString.optional(),
+    expiryDate: dateString.optional(),
+    notes: z.string().max(1000).optional(),
+  })
+  .refine(
+    (data) =>
+      !data.effectiveDate || !data.expiryDate || data.expiryDate > data.effectiveDate,
+    { message: "Expiry date must be after the effective date", path: ["expiryDate"] }
+  );
+
+// POST - Broker confirms (and optionally corrects) the policy
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const { verificationToken, confirmedBy, notes, ...corrections } =
+      submitSchema.parse(body);
+
+    const { correctedFields } = await submitBrokerVerification({
+      token: verificationToken,
+      confirmedBy,
+      corrections,
+      notes,
+      ipAddress: req.headers.get("x-forwarded-for")?.split(",")[0].trim(),
+      userAgent: req.headers.get("user-agent") ?? undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      correctedFields,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.issues },
+        { status: 400 }
+      );
+    }
+    if (error instanceof InsuranceVerificationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error("Failed to submit insurance verification:", error);
+    return NextResponse.json(
+      { error: "Failed to submit verification" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
+import type { CertificationTier, Prisma } from "@prisma/client";
 import { db } from "@/lib/db";
+import { searchOrganizationIds } from "@/lib/search";
+
+// Only organizations at or above this compliance score are listed
+const MIN_PUBLIC_COMPLIANCE_SCORE = 70;
 
 export async function GET(req: NextRequest) {
   try {
@@ -10,68 +15,89 @@ export async function GET(req: NextRequest) {
     const limit = Math.min(parseInt(searchParams.get("limit") || "20"), 50);
     const offset = parseInt(searchParams.get("offset") || "0");
 
-    // Build where clause
-    const where: Record<string, unknown> = {};
+    const validTier =
+      tier && ["ACCREDITED", "CERTIFIED", "MASTER_ROOFER"].includes(tier)
+        ? (tier as CertificationTier)
+        : undefined;
 
-    // Search by name or trading name
-    if (query) {
-      where.OR = [
-        { name: { contains: query, mode: "insensitive" } },
-        { tradingName: { contains: query, mode: "insensitive" } },
-        { city: { contains: query, mode: "insensitive" } },
-      ];
-    }
+    const select = {
+      id: true,
+      name: true,
+      tradingName: true,
+      certificationTier: true,
+      city: true,
+      complianceScore: true,
+      certifiedSince: true,
+      _count: {
+        select: { members: true },
+      },
+      insurancePolicies: {
+        where: {
+          expiryDate: { gt: new Date() },
+          policyType: { in: ["PUBLIC_LIABILITY", "PROFESSIONAL_INDEMNITY"] },
+        },
+        select: { policyType: true },
+      },
+      testimonials: {
+        where: { verified: true, approved: true },
+        select: { rating: true },
+        take: 100,
+      },
+    } satisfies Prisma.OrganizationSelect;
 
-    // Filter by tier
-    if (tier && ["ACCREDITED", "CERTIFIED", "MASTER_ROOFER"].includes(tier)) {
-      where.certificationTier = tier;
-    }
+    let organizations: Prisma.OrganizationGetPayload<{ select: typeof select }>[];
+    let total: number;
 
-    // Filter by region/city
-    if (region) {
-      where.city = { contains: region, mode: "insensitive" };
-    }
+    if (query) {
+      // Full-text search, ranked by relevance (prefix matching on each word)
+      const { ids, total: matched } = await searchOrganizationIds(
+        query,
+        {
+          tier: validTier,
+          city: region || undefined,
+          minComplianceScore: MIN_PUBLIC_COMPLIANCE_SCORE,
+        },
+        limit,
+        offset
+      );
+      const found = await db.organization.findMany({
+        where: { id: { in: ids } },
+        select,
+      });
+      const byId = new Map(found.map((org) => [org.id, org]));
+      organizations = ids.flatMap((id) => byId.get(id) ?? []);
+      total = matched;
+    } else {
+      const where: Prisma.OrganizationWhereInput = {
+        // Only show organizations with a minimum compliance score
+        complianceScore: { gte: MIN_PUBLIC_COMPLIANCE_SCORE },
+      };
 
-    // Only show organizations with a minimum compliance score
-    where.complianceScore = { gte: 70 };
+      // Filter by tier
+      if (validTier) {
+        where.certificationTier = validTier;
+      }
 
-    const [organizations, total] = await Promise.all([
-      db.organization.findMany({
-        where,
-        select: {
-          id: true,
-          name: true,
-          tradingName: true,
-          certificationTier: true,
-          city: true,
-          complianceScore: true,
-          certifiedSince: true,
-          _count: {
-            select: { members: true },
-          },
-          insurancePolicies: {
-            where: {
-              expiryDate: { gt: new Date() },
-              policyType: { in: ["PUBLIC_LIABILITY", "PROFESSIONAL_INDEMNITY"] },
-            },
-            select: { policyType: true },
-          },
-          testimonials: {
-            where: { verified: true, approved: true },
-            select: { rating: true },
-            take: 100,
-          },
-        },
-        orderBy: [
-          { certificationTier: "desc" }, // Master Roofer first
-          { complianceScore: "desc" },
-          { name: "asc" },
-        ],
-        take: limit,
-        skip: offset,
-      }),
-      db.organization.count({ where }),
-    ]);
+      // Filter by region/city
+      if (region) {
+        where.city = { contains: region, mode: "insensitive" };
+      }
+
+      [organizations, total] = await Promise.all([
+        db.organization.findMany({
+          where,
+          select,
+          orderBy: [
+            { certificationTier: "desc" }, // Master Roofer first
+            { complianceScore: "desc" },
+            { name: "asc" },
+          ],
+          take: limit,
+          skip: offset,
+        }),
+        db.organization.count({ where }),
+      ]);
+    }
 
     // Transform response
     const results = organizations.map((org) => {
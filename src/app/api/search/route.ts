@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db } from "@/lib/db";
+import { authorizeRequest, authorizationErrorResponse } from "@/lib/auth/rbac";
+import {
+  searchRecords,
+  SEARCH_RESULT_TYPES,
+  type SearchResultType,
+} from "@/lib/search";
+
+// GET /api/search?q=membrane+laps&type=document,capa&limit=20&offset=0
+// Members search their own organisation. RANZ staff may pass
+// organizationId=<id> to search another organisation, or all=true to search
+// every organisation; both need QP_ADMIN_REPORTS.
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const query = searchParams.get("q")?.trim() || "";
+    const limit = Math.min(parseInt(searchParams.get("limit") || "20") || 20, 50);
+    const offset = Math.min(Math.max(parseInt(searchParams.get("offset") || "0") || 0, 0), 200);
+    const searchAll = searchParams.get("all") === "true";
+    const requestedOrgId = searchParams.get("organizationId");
+
+    // Resolve the organisation scope
+    let organizationId: string | null;
+
+    if (searchAll || requestedOrgId) {
+      const authResult = await authorizeRequest(req, "QP_ADMIN_REPORTS");
+      if (!authResult.success) {
+        return authorizationErrorResponse(authResult);
+      }
+      organizationId = searchAll ? null : requestedOrgId;
+    } else {
+      const { userId, orgId } = await auth();
+      if (!userId || !orgId) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+      const organization = await db.organization.findUnique({
+        where: { clerkOrgId: orgId },
+        select: { id: true },
+      });
+      if (!organization) {
+        return NextResponse.json(
+          { error: "Organization not found" },
+          { status: 404 }
+        );
+      }
+      organizationId = organization.id;
+    }
+
+    if (query.length < 2) {
+      return NextResponse.json(
+        { error: "Search query must be at least 2 characters" },
+        { status: 400 }
+      );
+    }
+
+    const typeParam = searchParams.get("type");
+    const types = typeParam
+      ? typeParam
+          .split(",")
+          .filter((t): t is SearchResultType =>
+            (SEARCH_RESULT_TYPES as readonly string[]).includes(t)
+          )
+      : undefined;
+
+    const response = await searchRecords(query, {
+      organizationId,
+      types,
+      limit,
+      offset,
+    });
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Search failed:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
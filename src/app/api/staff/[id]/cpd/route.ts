@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db } from "@/lib/db";
+import { getMemberCpdProgress } from "@/lib/cpd";
+
+// GET /api/staff/[id]/cpd - Progress through the member's current CPD cycle
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { orgId } = await auth();
+    if (!orgId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const organization = await db.organization.findUnique({
+      where: { clerkOrgId: orgId },
+    });
+
+    if (!organization) {
+      return NextResponse.json(
+        { error: "Organization not found" },
+        { status: 404 }
+      );
+    }
+
+    const member = await db.organizationMember.findFirst({
+      where: {
+        id,
+        organizationId: organization.id,
+      },
+      select: { id: true },
+    });
+
+    if (!member) {
+      return NextResponse.json({ error: "Member not found" }, { status: 404 });
+    }
+
+    const progress = await getMemberCpdProgress(member.id);
+
+    return NextResponse.json(progress);
+  } catch (error) {
+    console.error("Failed to calculate CPD progress:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
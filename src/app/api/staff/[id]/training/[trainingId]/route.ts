@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { db } from "@/lib/db";
 import { uploadToR2, deleteFromR2 } from "@/lib/r2";
+import { updateOrganizationComplianceScore } from "@/lib/compliance-v2";
 import { z } from "zod/v4";
 import { MAX_FILE_SIZE_BYTES, MAX_FILE_SIZE_MB } from "@/types";
 
@@ -104,6 +105,9 @@ export async function PUT(
       },
     });
 
+    // CPD points feed the personnel score
+    await updateOrganizationComplianceScore(result.organization.id);
+
     return NextResponse.json(updated);
   } catch (error) {
     console.error("Failed to update training record:", error);
@@ -142,6 +146,7 @@ export async function DELETE(
     }
 
     await db.trainingRecord.delete({ where: { id: trainingId } });
+    await updateOrganizationComplianceScore(result.organization.id);
 
     return NextResponse.json({ success: true });
   } catch (error) {
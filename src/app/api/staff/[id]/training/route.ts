@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { db } from "@/lib/db";
 import { uploadToR2 } from "@/lib/r2";
+import { updateOrganizationComplianceScore } from "@/lib/compliance-v2";
 import { z } from "zod/v4";
 import { MAX_FILE_SIZE_BYTES, MAX_FILE_SIZE_MB } from "@/types";
 
@@ -141,6 +142,9 @@ export async function POST(
       },
     });
 
+    // CPD points feed the personnel score
+    await updateOrganizationComplianceScore(organization.id);
+
     return NextResponse.json(trainingRecord, { status: 201 });
   } catch (error) {
     console.error("Failed to create training record:", error);
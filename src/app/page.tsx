@@ -4,8 +4,8 @@ import { cookies } from "next/headers";
 const AUTH_MODE = process.env.AUTH_MODE || 'clerk';
 
 export default async function Home() {
-  if (AUTH_MODE === 'custom') {
-    // In custom auth mode, check for session cookie
+  if (AUTH_MODE === 'custom' || AUTH_MODE === 'oidc') {
+    // In custom/OIDC auth mode, check for session cookie
     const cookieStore = await cookies();
     const sessionCookie = cookieStore.get('ranz_session');
 
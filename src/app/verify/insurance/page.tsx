@@ -0,0 +1,325 @@
+"use client";
+
+import { useState, useEffect, Suspense } from "react";
+import { useSearchParams } from "next/navigation";
+import { format } from "date-fns";
+import { CheckCircle, AlertCircle, ShieldCheck } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  INSURANCE_POLICY_TYPE_LABELS,
+  type InsurancePolicyType,
+} from "@/types";
+
+interface PolicyDetails {
+  businessName: string;
+  policyType: InsurancePolicyType;
+  policyNumber: string;
+  insurer: string;
+  brokerName: string | null;
+  coverageAmount: string;
+  excessAmount: string | null;
+  effectiveDate: string;
+  expiryDate: string;
+  expiresAt: string;
+}
+
+function InsuranceVerificationForm() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get("token");
+
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [correctedFields, setCorrectedFields] = useState<string[] | null>(null);
+  const [policy, setPolicy] = useState<PolicyDetails | null>(null);
+  const [confirmed, setConfirmed] = useState(false);
+
+  const [formData, setFormData] = useState({
+    confirmedBy: "",
+    policyNumber: "",
+    insurer: "",
+    coverageAmount: "",
+    excessAmount: "",
+    effectiveDate: "",
+    expiryDate: "",
+    notes: "",
+  });
+
+  useEffect(() => {
+    if (!token) return;
+
+    async function fetchPolicy(token: string) {
+      try {
+        const response = await fetch(
+          `/api/public/insurance-verification?token=${encodeURIComponent(token)}`
+        );
+        if (!response.ok) {
+          const data = await response.json();
+          throw new Error(data.error || "Failed to verify token");
+        }
+        const data: PolicyDetails = await response.json();
+        setPolicy(data);
+        setFormData((current) => ({
+          ...current,
+          confirmedBy: data.brokerName ?? "",
+          policyNumber: data.policyNumber,
+          insurer: data.insurer,
+          coverageAmount: data.coverageAmount,
+          excessAmount: data.excessAmount ?? "",
+          effectiveDate: data.effectiveDate,
+          expiryDate: data.expiryDate,
+        }));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to verify token");
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchPolicy(token);
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!confirmed) {
+      setError("Please confirm the policy details before submitting");
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/public/insurance-verification", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          verificationToken: token,
+          confirmedBy: formData.confirmedBy,
+          policyNumber: formData.policyNumber,
+          insurer: formData.insurer,
+          coverageAmount: Number(formData.coverageAmount),
+          excessAmount: formData.excessAmount ? Number(formData.excessAmount) : null,
+          effectiveDate: formData.effectiveDate,
+          expiryDate: formData.expiryDate,
+          notes: formData.notes || undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to submit verification");
+      }
+
+      const data = await response.json();
+      setCorrectedFields(data.correctedFields);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to submit verification");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!token) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center p-4">
+        <Card className="max-w-md w-full">
+          <CardContent className="pt-6 text-center">
+            <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+            <h2 className="text-lg font-semibold text-slate-900 mb-2">
+              Unable to Verify
+            </h2>
+            <p className="text-slate-600">Invalid or missing verification token</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="h-8 w-8 animate-spin rounded-full border-4 border-blue-600 border-r-transparent mx-auto" />
+          <p className="mt-4 text-slate-600">Verifying your request...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error && !policy) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center p-4">
+        <Card className="max-w-md w-full">
+          <CardContent className="pt-6 text-center">
+            <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+            <h2 className="text-lg font-semibold text-slate-900 mb-2">
+              Unable to Verify
+            </h2>
+            <p className="text-slate-600">{error}</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (correctedFields) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center p-4">
+        <Card className="max-w-md w-full">
+          <CardContent className="pt-6 text-center">
+            <CheckCircle className="h-12 w-12 text-green-500 mx-auto mb-4" />
+            <h2 className="text-lg font-semibold text-slate-900 mb-2">
+              Thank You!
+            </h2>
+            <p className="text-slate-600">
+              The policy for {policy?.businessName} is now marked as verified
+              {correctedFields.length > 0 && " with your corrections"}. You
+              will receive expiry reminders for this policy as their broker.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const field = (name: keyof typeof formData) => ({
+    id: name,
+    value: formData[name],
+    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+      setFormData({ ...formData, [name]: e.target.value }),
+  });
+
+  return (
+    <div className="min-h-screen bg-slate-50 py-12 px-4">
+      <div className="max-w-lg mx-auto">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <div className="h-12 w-12 rounded-lg bg-blue-600 flex items-center justify-center mx-auto mb-4">
+            <span className="text-white font-bold text-xl">R</span>
+          </div>
+          <h1 className="text-2xl font-bold text-slate-900">
+            Confirm Insurance Cover
+          </h1>
+          <p className="text-slate-600 mt-2">
+            {policy?.businessName} has asked you to confirm their policy for
+            their RANZ certification
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5 text-blue-600" />
+              {policy && INSURANCE_POLICY_TYPE_LABELS[policy.policyType]}
+            </CardTitle>
+            <p className="text-sm text-slate-500">
+              Check the details below against your records and correct anything
+              that is wrong.
+              {policy &&
+                ` This link expires on ${format(new Date(policy.expiresAt), "d MMMM yyyy")}.`}
+            </p>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                <div>
+                  <Label htmlFor="policyNumber">Policy Number *</Label>
+                  <Input {...field("policyNumber")} required />
+                </div>
+                <div>
+                  <Label htmlFor="insurer">Insurer *</Label>
+                  <Input {...field("insurer")} required />
+                </div>
+                <div>
+                  <Label htmlFor="coverageAmount">Cover Amount ($) *</Label>
+                  <Input {...field("coverageAmount")} type="number" min="0" step="0.01" required />
+                </div>
+                <div>
+                  <Label htmlFor="excessAmount">Excess ($)</Label>
+                  <Input {...field("excessAmount")} type="number" min="0" step="0.01" />
+                </div>
+                <div>
+                  <Label htmlFor="effectiveDate">Effective Date *</Label>
+                  <Input {...field("effectiveDate")} type="date" required />
+                </div>
+                <div>
+                  <Label htmlFor="expiryDate">Expiry Date *</Label>
+                  <Input {...field("expiryDate")} type="date" required />
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="notes">Notes (optional)</Label>
+                <Textarea
+                  {...field("notes")}
+                  placeholder="e.g., Cover increased at renewal"
+                  rows={3}
+                  maxLength={1000}
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="confirmedBy">Your name and brokerage *</Label>
+                <Input
+                  {...field("confirmedBy")}
+                  placeholder="e.g., Jo Smith, Crombie Lockwood"
+                  maxLength={200}
+                  required
+                />
+              </div>
+
+              <label className="flex items-start gap-2 text-sm text-slate-700">
+                <Checkbox
+                  checked={confirmed}
+                  onCheckedChange={(checked) => setConfirmed(checked)}
+                  className="mt-0.5"
+                />
+                I confirm this policy is current and the details above are
+                correct.
+              </label>
+
+              {error && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-600">
+                  {error}
+                </div>
+              )}
+
+              <Button type="submit" className="w-full" disabled={submitting}>
+                {submitting ? "Submitting..." : "Confirm Policy"}
+              </Button>
+
+              <p className="text-xs text-center text-slate-500">
+                Your confirmation is recorded in the business&apos;s RANZ audit
+                trail.
+              </p>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+export default function InsuranceVerificationPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen bg-slate-50 flex items-center justify-center">
+          <div className="text-center">
+            <div className="h-8 w-8 animate-spin rounded-full border-4 border-blue-600 border-r-transparent mx-auto" />
+            <p className="mt-4 text-slate-600">Loading...</p>
+          </div>
+        </div>
+      }
+    >
+      <InsuranceVerificationForm />
+    </Suspense>
+  );
+}
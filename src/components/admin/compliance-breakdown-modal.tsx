@@ -22,6 +22,11 @@ import {
   Loader2,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import type { ComplianceHistory } from "@/lib/compliance-history";
+import {
+  ComplianceTrendChart,
+  ThresholdCrossingList,
+} from "@/components/compliance/compliance-trend-chart";
 import {
   CERTIFICATION_TIER_LABELS,
   getComplianceStatusLevel,
@@ -104,25 +109,33 @@ export function ComplianceBreakdownModal({
   onClose,
 }: ComplianceBreakdownModalProps) {
   const [data, setData] = useState<ComplianceDrillDown | null>(null);
+  const [history, setHistory] = useState<ComplianceHistory | null>(null);
   const [loading, setLoading] = useState(false);
   const [downloading, setDownloading] = useState(false);
 
   useEffect(() => {
     if (!orgId) {
       setData(null);
+      setHistory(null);
       return;
     }
 
     async function fetchData() {
       setLoading(true);
       try {
-        const response = await fetch(`/api/admin/compliance/${orgId}`);
+        const [response, historyResponse] = await Promise.all([
+          fetch(`/api/admin/compliance/${orgId}`),
+          fetch(`/api/admin/compliance/${orgId}/history?days=365`),
+        ]);
         if (response.ok) {
           const result = await response.json();
           setData(result);
         } else {
           console.error("Failed to fetch compliance data:", response.status);
         }
+        if (historyResponse.ok) {
+          setHistory(await historyResponse.json());
+        }
       } catch (error) {
         console.error("Failed to fetch compliance data:", error);
       } finally {
@@ -251,6 +264,26 @@ export function ComplianceBreakdownModal({
               />
             </div>
 
+            {/* Score History */}
+            {history && (
+              <div className="border-t pt-4">
+                <h3 className="text-sm font-medium text-slate-900 mb-3">
+                  Score History (12 months)
+                </h3>
+                <ComplianceTrendChart
+                  points={history.points}
+                  threshold={history.threshold}
+                  showDimensions
+                  height={220}
+                />
+                {history.crossings.length > 0 && (
+                  <div className="mt-3 max-h-48 overflow-y-auto">
+                    <ThresholdCrossingList crossings={history.crossings} />
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Issues Section */}
             {data.issues.length > 0 && (
               <div className="border-t pt-4">
@@ -0,0 +1,160 @@
+"use client";
+
+import { useState } from "react";
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  AUDIT_TYPE_LABELS,
+  CERTIFICATION_TIER_LABELS,
+  type AuditType,
+  type CertificationTier,
+  type ISOElement,
+} from "@/types";
+
+export interface BankQuestion {
+  isoElement: ISOElement;
+  questionNumber: number;
+  questionText: string;
+  guidance: string | null;
+  evidenceRequired: string[];
+  certificationTiers: CertificationTier[];
+  auditTypes: AuditType[];
+}
+
+const TIERS = Object.keys(CERTIFICATION_TIER_LABELS) as CertificationTier[];
+const AUDIT_TYPES = Object.keys(AUDIT_TYPE_LABELS) as AuditType[];
+
+function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+}
+
+/** Tier and audit-type badges; nothing is shown for a question that applies to every audit. */
+export function ApplicabilityBadges({ question }: { question: BankQuestion }) {
+  if (question.certificationTiers.length === 0 && question.auditTypes.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {question.certificationTiers.map((tier) => (
+        <Badge key={tier} variant="secondary">
+          {CERTIFICATION_TIER_LABELS[tier]}
+        </Badge>
+      ))}
+      {question.auditTypes.map((type) => (
+        <Badge key={type} variant="outline">
+          {AUDIT_TYPE_LABELS[type]}
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
+interface QuestionEditorProps {
+  question: BankQuestion;
+  onChange: (question: BankQuestion) => void;
+  onRemove: () => void;
+}
+
+export function QuestionEditor({ question, onChange, onRemove }: QuestionEditorProps) {
+  // Edited as free text and split on blur so typing a comma isn't swallowed
+  const [evidence, setEvidence] = useState(question.evidenceRequired.join(", "));
+
+  return (
+    <div className="rounded-lg border border-slate-200 p-4 space-y-3">
+      <div className="flex items-start gap-3">
+        <Input
+          type="number"
+          min={1}
+          value={question.questionNumber}
+          onChange={(e) =>
+            onChange({ ...question, questionNumber: parseInt(e.target.value, 10) || 0 })
+          }
+          className="w-20"
+          aria-label="Question number"
+        />
+        <Textarea
+          value={question.questionText}
+          onChange={(e) => onChange({ ...question, questionText: e.target.value })}
+          placeholder="Question"
+          rows={2}
+          className="flex-1"
+        />
+        <Button size="icon" variant="ghost" onClick={onRemove} aria-label="Remove question">
+          <Trash2 className="h-4 w-4 text-red-500" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs text-slate-500 mb-1">Guidance</label>
+          <Textarea
+            value={question.guidance ?? ""}
+            onChange={(e) => onChange({ ...question, guidance: e.target.value || null })}
+            rows={2}
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-slate-500 mb-1">
+            Evidence required (comma separated)
+          </label>
+          <Input
+            value={evidence}
+            onChange={(e) => setEvidence(e.target.value)}
+            onBlur={() =>
+              onChange({
+                ...question,
+                evidenceRequired: evidence
+                  .split(",")
+                  .map((item) => item.trim())
+                  .filter(Boolean),
+              })
+            }
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-x-6 gap-y-2 text-sm text-slate-600">
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="text-xs text-slate-500">Tiers:</span>
+          {TIERS.map((tier) => (
+            <label key={tier} className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={question.certificationTiers.includes(tier)}
+                onChange={() =>
+                  onChange({
+                    ...question,
+                    certificationTiers: toggle(question.certificationTiers, tier),
+                  })
+                }
+              />
+              {CERTIFICATION_TIER_LABELS[tier]}
+            </label>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="text-xs text-slate-500">Audit types:</span>
+          {AUDIT_TYPES.map((type) => (
+            <label key={type} className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={question.auditTypes.includes(type)}
+                onChange={() =>
+                  onChange({ ...question, auditTypes: toggle(question.auditTypes, type) })
+                }
+              />
+              {AUDIT_TYPE_LABELS[type]}
+            </label>
+          ))}
+        </div>
+      </div>
+      <p className="text-xs text-slate-400">
+        Leave tiers or audit types unticked to ask the question in every audit.
+      </p>
+    </div>
+  );
+}
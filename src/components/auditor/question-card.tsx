@@ -0,0 +1,282 @@
+"use client";
+
+import { useEffect, useMemo, useRef } from "react";
+import { AlertTriangle, Camera, CheckCircle, ImageIcon, Info, X } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { AUDIT_RESPONSE_LABELS, FINDING_SEVERITY_LABELS } from "@/types";
+import type { AuditResponse, FindingSeverity } from "@/types";
+import type { SyncedField } from "@/lib/audit-sync";
+import type { AuditPackQuestion } from "@/lib/auditor-workspace";
+import type { AuditDraft, OfflinePhoto } from "@/lib/offline-audit";
+
+const FIELD_LABELS: Record<SyncedField, string> = {
+  response: "Response",
+  finding: "Finding",
+  severity: "Severity",
+  auditorNotes: "Auditor notes",
+};
+
+// Responses that record something the organisation has to act on
+const FINDING_RESPONSES: AuditResponse[] = [
+  "MINOR_NONCONFORMITY",
+  "MAJOR_NONCONFORMITY",
+  "OBSERVATION",
+];
+
+const selectClass =
+  "w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none disabled:bg-slate-50";
+
+function displayValue(field: SyncedField, value: string | null): string {
+  if (value === null || value === "") return "(empty)";
+  if (field === "response") return AUDIT_RESPONSE_LABELS[value as AuditResponse];
+  if (field === "severity") return FINDING_SEVERITY_LABELS[value as FindingSeverity];
+  return value;
+}
+
+function PhotoThumb({ photo, onRemove }: { photo: OfflinePhoto; onRemove?: () => void }) {
+  const url = useMemo(() => URL.createObjectURL(photo.blob), [photo.blob]);
+
+  useEffect(() => () => URL.revokeObjectURL(url), [url]);
+
+  return (
+    <div className="relative h-20 w-20 rounded-md overflow-hidden border border-slate-200">
+      {/* eslint-disable-next-line @next/next/no-img-element */}
+      <img src={url} alt={photo.name} className="h-full w-full object-cover" />
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          className="absolute top-1 right-1 rounded-full bg-slate-900/70 p-0.5 text-white hover:bg-slate-900"
+          aria-label="Remove photo"
+        >
+          <X className="h-3 w-3" />
+        </button>
+      )}
+    </div>
+  );
+}
+
+interface QuestionCardProps {
+  question: AuditPackQuestion;
+  draft?: AuditDraft;
+  photos: OfflinePhoto[];
+  editable: boolean;
+  onFieldChange: (field: SyncedField, value: string | null) => void;
+  onAddPhoto: (file: File) => void;
+  onRemovePhoto: (clientId: string) => void;
+  onResolveConflict: (field: SyncedField, keep: "mine" | "server") => void;
+}
+
+export function QuestionCard({
+  question,
+  draft,
+  photos,
+  editable,
+  onFieldChange,
+  onAddPhoto,
+  onRemovePhoto,
+  onResolveConflict,
+}: QuestionCardProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  function value(field: SyncedField): string | null {
+    if (draft && field in draft.changes) return draft.changes[field] ?? null;
+    return question[field];
+  }
+
+  const response = value("response") as AuditResponse | null;
+  const hasChanges = !!draft && Object.keys(draft.changes).length > 0;
+
+  return (
+    <Card className={draft?.conflicts.length ? "border-red-300" : undefined}>
+      <CardContent className="p-4 space-y-4">
+        <div className="flex items-start justify-between gap-3">
+          <div className="space-y-1">
+            <p className="text-sm font-medium text-slate-500">
+              Question {question.questionNumber}
+            </p>
+            <p className="text-slate-900">{question.questionText}</p>
+          </div>
+          {hasChanges || photos.length > 0 ? (
+            <Badge variant="warning" className="shrink-0">Unsynced</Badge>
+          ) : response ? (
+            <CheckCircle className="h-5 w-5 text-green-600 shrink-0" />
+          ) : null}
+        </div>
+
+        {question.guidance && (
+          <div className="flex gap-2 p-3 bg-blue-50 rounded-lg text-sm text-blue-900">
+            <Info className="h-4 w-4 mt-0.5 shrink-0" />
+            <span>{question.guidance}</span>
+          </div>
+        )}
+
+        {question.evidenceRequired.length > 0 && (
+          <div className="text-sm">
+            <p className="font-medium text-slate-700 mb-1">Evidence required</p>
+            <ul className="list-disc pl-5 text-slate-600 space-y-0.5">
+              {question.evidenceRequired.map((item) => (
+                <li key={item}>{item}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Conflicts from the last sync */}
+        {draft?.conflicts.map((conflict) => (
+          <div
+            key={conflict.field}
+            className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm space-y-2"
+          >
+            <div className="flex items-center gap-2 font-medium text-red-800">
+              <AlertTriangle className="h-4 w-4" />
+              {FIELD_LABELS[conflict.field]} was changed by someone else while you were
+              offline
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-slate-700">
+              <div>
+                <span className="text-slate-500">Server: </span>
+                {displayValue(conflict.field, conflict.serverValue)}
+              </div>
+              <div>
+                <span className="text-slate-500">Yours: </span>
+                {displayValue(conflict.field, conflict.clientValue)}
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => onResolveConflict(conflict.field, "mine")}
+              >
+                Keep mine
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => onResolveConflict(conflict.field, "server")}
+              >
+                Use server
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Response</label>
+            <select
+              className={selectClass}
+              value={response ?? ""}
+              disabled={!editable}
+              onChange={(e) => onFieldChange("response", e.target.value || null)}
+            >
+              <option value="">Not answered</option>
+              {(Object.keys(AUDIT_RESPONSE_LABELS) as AuditResponse[]).map((option) => (
+                <option key={option} value={option}>
+                  {AUDIT_RESPONSE_LABELS[option]}
+                </option>
+              ))}
+            </select>
+          </div>
+          {response && FINDING_RESPONSES.includes(response) && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Severity</label>
+              <select
+                className={selectClass}
+                value={value("severity") ?? ""}
+                disabled={!editable}
+                onChange={(e) => onFieldChange("severity", e.target.value || null)}
+              >
+                <option value="">Select severity</option>
+                {(Object.keys(FINDING_SEVERITY_LABELS) as FindingSeverity[]).map((option) => (
+                  <option key={option} value={option}>
+                    {FINDING_SEVERITY_LABELS[option]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+
+        {response && FINDING_RESPONSES.includes(response) && (
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Finding</label>
+            {/* Saved on blur; remounts when the stored value changes */}
+            <Textarea
+              key={`finding:${value("finding") ?? ""}`}
+              defaultValue={value("finding") ?? ""}
+              disabled={!editable}
+              rows={3}
+              placeholder="Describe what was observed and the requirement it relates to"
+              onBlur={(e) => {
+                const next = e.target.value.trim() || null;
+                if (next !== value("finding")) onFieldChange("finding", next);
+              }}
+            />
+          </div>
+        )}
+
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">Auditor notes</label>
+          <Textarea
+            key={`notes:${value("auditorNotes") ?? ""}`}
+            defaultValue={value("auditorNotes") ?? ""}
+            disabled={!editable}
+            rows={2}
+            placeholder="Notes for the audit report (optional)"
+            onBlur={(e) => {
+              const next = e.target.value.trim() || null;
+              if (next !== value("auditorNotes")) onFieldChange("auditorNotes", next);
+            }}
+          />
+        </div>
+
+        {/* Photo evidence */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="flex items-center gap-1 text-sm text-slate-500">
+              <ImageIcon className="h-4 w-4" />
+              {question.evidenceKeys.length} photo
+              {question.evidenceKeys.length === 1 ? "" : "s"} on file
+            </span>
+            {editable && (
+              <>
+                <input
+                  ref={fileInput}
+                  type="file"
+                  accept="image/*"
+                  capture="environment"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) onAddPhoto(file);
+                    e.target.value = "";
+                  }}
+                />
+                <Button size="sm" variant="outline" onClick={() => fileInput.current?.click()}>
+                  <Camera className="h-4 w-4 mr-2" />
+                  Add photo
+                </Button>
+              </>
+            )}
+          </div>
+          {photos.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {photos.map((photo) => (
+                <PhotoThumb
+                  key={photo.clientId}
+                  photo={photo}
+                  onRemove={photo.uploadedKey ? undefined : () => onRemovePhoto(photo.clientId)}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,269 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import {
+  Download,
+  Eye,
+  FileText,
+  Loader2,
+  Paperclip,
+  Trash2,
+  Upload,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface Evidence {
+  id: string;
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+  sha256: string;
+  uploadedAt: string;
+  url: string;
+  downloadUrl: string;
+}
+
+interface EvidencePanelProps {
+  /** Evidence collection route, e.g. /api/capa/[id]/evidence */
+  endpoint: string;
+  editable: boolean;
+}
+
+const PHOTO_TYPES = ["image/jpeg", "image/png", "image/webp"];
+const DOCUMENT_TYPES = [
+  "application/pdf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+];
+const ACCEPTED_TYPES = [...PHOTO_TYPES, ...DOCUMENT_TYPES].join(",");
+const MAX_PHOTO_SIZE_BYTES = 25 * 1024 * 1024;
+const MAX_DOCUMENT_SIZE_BYTES = 50 * 1024 * 1024;
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+async function uploadEvidence(endpoint: string, file: File) {
+  // 1. Signed URL for a direct browser upload to R2
+  const urlRes = await fetch(`${endpoint}/upload-url`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      fileName: file.name,
+      mimeType: file.type,
+      fileSize: file.size,
+    }),
+  });
+  if (!urlRes.ok) {
+    const data = await urlRes.json().catch(() => ({}));
+    throw new Error(data.error || "Failed to prepare upload");
+  }
+  const { uploadUrl, storageKey } = await urlRes.json();
+
+  // 2. Upload the file
+  const putRes = await fetch(uploadUrl, {
+    method: "PUT",
+    headers: { "Content-Type": file.type },
+    body: file,
+  });
+  if (!putRes.ok) {
+    throw new Error("Upload to storage failed");
+  }
+
+  // 3. Register: server checks the type and size and records a hash
+  const registerRes = await fetch(endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ storageKey, fileName: file.name, mimeType: file.type }),
+  });
+  if (!registerRes.ok) {
+    const data = await registerRes.json().catch(() => ({}));
+    throw new Error(data.error || "Failed to save evidence");
+  }
+}
+
+export function EvidencePanel({ endpoint, editable }: EvidencePanelProps) {
+  const [evidence, setEvidence] = useState<Evidence[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState<{ done: number; total: number } | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const fetchEvidence = useCallback(async () => {
+    try {
+      const res = await fetch(endpoint);
+      if (res.ok) {
+        const data = await res.json();
+        setEvidence(data.evidence);
+      }
+    } catch (error) {
+      console.error("Failed to fetch evidence:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [endpoint]);
+
+  useEffect(() => {
+    fetchEvidence();
+  }, [fetchEvidence]);
+
+  const handleFiles = async (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return;
+
+    const files = Array.from(fileList);
+    const failures: string[] = [];
+    setErrors([]);
+    setUploading({ done: 0, total: files.length });
+
+    for (const [index, file] of files.entries()) {
+      try {
+        const isPhoto = PHOTO_TYPES.includes(file.type);
+        if (!isPhoto && !DOCUMENT_TYPES.includes(file.type)) {
+          throw new Error("Only photos (JPEG, PNG, WebP), PDF, Word and Excel files are supported");
+        }
+        if (file.size > (isPhoto ? MAX_PHOTO_SIZE_BYTES : MAX_DOCUMENT_SIZE_BYTES)) {
+          throw new Error(`File exceeds maximum size of ${isPhoto ? 25 : 50}MB`);
+        }
+        await uploadEvidence(endpoint, file);
+      } catch (error) {
+        failures.push(`${file.name}: ${error instanceof Error ? error.message : "Upload failed"}`);
+      }
+      setUploading({ done: index + 1, total: files.length });
+    }
+
+    setUploading(null);
+    setErrors(failures);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+    fetchEvidence();
+  };
+
+  const handleDelete = async (item: Evidence) => {
+    if (!confirm(`Remove ${item.fileName}?`)) return;
+
+    const res = await fetch(`${endpoint}/${item.id}`, { method: "DELETE" });
+    if (res.ok) {
+      setEvidence((prev) => prev.filter((e) => e.id !== item.id));
+    } else {
+      const data = await res.json().catch(() => ({}));
+      setErrors([data.error || "Failed to remove evidence"]);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-1 text-sm font-medium text-slate-700">
+          <Paperclip className="h-4 w-4" />
+          Evidence ({evidence.length})
+        </span>
+        {editable && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={ACCEPTED_TYPES}
+              className="hidden"
+              onChange={(e) => handleFiles(e.target.files)}
+            />
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={uploading !== null}
+              onClick={() => fileInputRef.current?.click()}
+            >
+              {uploading ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Uploading {uploading.done}/{uploading.total}
+                </>
+              ) : (
+                <>
+                  <Upload className="h-4 w-4 mr-2" />
+                  Add evidence
+                </>
+              )}
+            </Button>
+          </>
+        )}
+      </div>
+
+      {errors.length > 0 && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-800 text-sm space-y-1">
+          {errors.map((error) => (
+            <p key={error}>{error}</p>
+          ))}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="h-16 bg-slate-100 rounded animate-pulse" />
+      ) : evidence.length === 0 ? (
+        <p className="text-sm text-slate-400">No evidence attached</p>
+      ) : (
+        <ul className="space-y-2">
+          {evidence.map((item) => {
+            const isPhoto = PHOTO_TYPES.includes(item.mimeType);
+            const canPreview = isPhoto || item.mimeType === "application/pdf";
+            return (
+              <li
+                key={item.id}
+                className="flex items-center gap-3 p-2 border border-slate-200 rounded-lg"
+              >
+                {isPhoto ? (
+                  <a href={item.url} target="_blank" rel="noopener noreferrer">
+                    {/* eslint-disable-next-line @next/next/no-img-element */}
+                    <img
+                      src={item.url}
+                      alt={item.fileName}
+                      className="h-12 w-12 rounded object-cover"
+                    />
+                  </a>
+                ) : (
+                  <div className="h-12 w-12 rounded bg-slate-100 flex items-center justify-center">
+                    <FileText className="h-5 w-5 text-slate-500" />
+                  </div>
+                )}
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-medium text-slate-900 truncate">{item.fileName}</p>
+                  <p className="text-xs text-slate-500">
+                    {formatFileSize(item.fileSize)} &middot;{" "}
+                    {new Date(item.uploadedAt).toLocaleDateString("en-NZ")} &middot;{" "}
+                    <span title={`SHA-256 ${item.sha256}`} className="font-mono">
+                      {item.sha256.slice(0, 12)}
+                    </span>
+                  </p>
+                </div>
+                <div className="flex items-center gap-1">
+                  {canPreview && (
+                    <Button size="icon" variant="ghost" asChild>
+                      <a href={item.url} target="_blank" rel="noopener noreferrer" aria-label="Preview">
+                        <Eye className="h-4 w-4" />
+                      </a>
+                    </Button>
+                  )}
+                  <Button size="icon" variant="ghost" asChild>
+                    <a href={item.downloadUrl} aria-label="Download">
+                      <Download className="h-4 w-4" />
+                    </a>
+                  </Button>
+                  {editable && (
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => handleDelete(item)}
+                      aria-label="Remove"
+                    >
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
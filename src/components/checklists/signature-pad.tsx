@@ -0,0 +1,153 @@
+"use client";
+
+import { useRef, useState, useEffect } from "react";
+import { Eraser, Loader2, PenLine } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface SignaturePadProps {
+  itemId: string;
+  submitting: boolean;
+  onSubmit: (signerName: string, signature: string) => void;
+}
+
+const CANVAS_HEIGHT = 160;
+
+/**
+ * Canvas signature capture for SIGNATURE checklist items. Works with mouse,
+ * pen and touch via pointer events. The drawn signature is exported as a
+ * PNG data URL; the server stores it in R2 and locks the completion.
+ */
+export function SignaturePad({ itemId, submitting, onSubmit }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+  const [signerName, setSignerName] = useState("");
+  const [hasStrokes, setHasStrokes] = useState(false);
+
+  // Size the backing store for the device pixel ratio so strokes stay sharp
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = canvas.offsetWidth * ratio;
+    canvas.height = CANVAS_HEIGHT * ratio;
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    ctx.scale(ratio, ratio);
+    ctx.lineWidth = 2;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    ctx.strokeStyle = "#0f172a";
+  }, []);
+
+  function getPoint(e: React.PointerEvent<HTMLCanvasElement>) {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  }
+
+  function handlePointerDown(e: React.PointerEvent<HTMLCanvasElement>) {
+    const ctx = e.currentTarget.getContext("2d");
+    if (!ctx || submitting) return;
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawingRef.current = true;
+    const { x, y } = getPoint(e);
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+  }
+
+  function handlePointerMove(e: React.PointerEvent<HTMLCanvasElement>) {
+    if (!drawingRef.current) return;
+    const ctx = e.currentTarget.getContext("2d");
+    if (!ctx) return;
+
+    const { x, y } = getPoint(e);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+    if (!hasStrokes) setHasStrokes(true);
+  }
+
+  function handlePointerUp(e: React.PointerEvent<HTMLCanvasElement>) {
+    drawingRef.current = false;
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      e.currentTarget.releasePointerCapture(e.pointerId);
+    }
+  }
+
+  function handleClear() {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.restore();
+    setHasStrokes(false);
+  }
+
+  function handleSubmit() {
+    const canvas = canvasRef.current;
+    if (!canvas || !hasStrokes || signerName.trim().length < 2) return;
+    onSubmit(signerName.trim(), canvas.toDataURL("image/png"));
+  }
+
+  return (
+    <div className="mt-2 space-y-2 max-w-md">
+      <div className="space-y-1">
+        <Label htmlFor={`signer-name-${itemId}`} className="text-xs">
+          Signer name
+        </Label>
+        <Input
+          id={`signer-name-${itemId}`}
+          value={signerName}
+          onChange={(e) => setSignerName(e.target.value)}
+          placeholder="Full name"
+          disabled={submitting}
+        />
+      </div>
+      <canvas
+        ref={canvasRef}
+        className="w-full rounded-md border border-dashed border-slate-300 bg-white touch-none cursor-crosshair"
+        style={{ height: CANVAS_HEIGHT }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+      />
+      <p className="text-xs text-slate-500">
+        Sign above. Once submitted the signature is locked and cannot be
+        changed.
+      </p>
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={handleClear}
+          disabled={submitting || !hasStrokes}
+        >
+          <Eraser className="h-3.5 w-3.5 mr-1" />
+          Clear
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          onClick={handleSubmit}
+          disabled={submitting || !hasStrokes || signerName.trim().length < 2}
+          className="bg-purple-600 hover:bg-purple-700"
+        >
+          {submitting ? (
+            <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />
+          ) : (
+            <PenLine className="h-3.5 w-3.5 mr-1" />
+          )}
+          Sign
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+"use client";
+
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer,
+} from "recharts";
+import { format } from "date-fns";
+import { TrendingDown, TrendingUp } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type {
+  ComplianceTrendPoint,
+  ThresholdCrossing,
+} from "@/lib/compliance-history";
+
+interface ComplianceTrendChartProps {
+  points: ComplianceTrendPoint[];
+  threshold: number;
+  showDimensions?: boolean;
+  height?: number;
+}
+
+const SERIES = [
+  { key: "overallScore", name: "Overall", color: "#3b82f6", width: 2 },
+  { key: "documentation", name: "Documentation", color: "#8b5cf6", width: 1 },
+  { key: "insurance", name: "Insurance", color: "#10b981", width: 1 },
+  { key: "personnel", name: "Personnel", color: "#f59e0b", width: 1 },
+  { key: "audit", name: "Audits", color: "#64748b", width: 1 },
+] as const;
+
+const DIMENSION_LABELS: Record<string, string> = {
+  documentation: "Documentation",
+  insurance: "Insurance",
+  personnel: "Personnel",
+  audit: "Audits",
+};
+
+/**
+ * Format date for chart axis display.
+ */
+function formatDate(dateString: string): string {
+  try {
+    return format(new Date(dateString), "MMM d");
+  } catch {
+    return dateString;
+  }
+}
+
+/**
+ * Tooltip payload type.
+ */
+interface TooltipPayloadItem {
+  value?: number;
+  name?: string;
+  color?: string;
+}
+
+function TrendTooltip({
+  active,
+  payload,
+  label,
+}: {
+  active?: boolean;
+  payload?: TooltipPayloadItem[];
+  label?: string;
+}) {
+  if (!active || !payload || payload.length === 0) {
+    return null;
+  }
+
+  return (
+    <div
+      style={{
+        backgroundColor: "white",
+        border: "1px solid #e2e8f0",
+        borderRadius: "8px",
+        boxShadow: "0 4px 6px -1px rgb(0 0 0 / 0.1)",
+        padding: "8px 12px",
+      }}
+    >
+      <p className="text-sm text-slate-600">
+        {label ? format(new Date(label), "PPp") : ""}
+      </p>
+      {payload.map((item) => (
+        <p key={item.name} className="text-sm font-medium" style={{ color: item.color }}>
+          {item.name}: {item.value ?? 0}%
+        </p>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * ComplianceTrendChart plots compliance snapshots over time with the at-risk
+ * threshold marked.
+ */
+export function ComplianceTrendChart({
+  points,
+  threshold,
+  showDimensions = false,
+  height = 260,
+}: ComplianceTrendChartProps) {
+  if (points.length === 0) {
+    return (
+      <div
+        className="flex items-center justify-center text-sm text-slate-400"
+        style={{ height }}
+      >
+        No score history recorded for this period
+      </div>
+    );
+  }
+
+  const series = showDimensions ? SERIES : SERIES.slice(0, 1);
+
+  return (
+    <ResponsiveContainer width="100%" height={height}>
+      <LineChart data={points} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+        <XAxis
+          dataKey="calculatedAt"
+          tickFormatter={formatDate}
+          tick={{ fontSize: 12, fill: "#64748b" }}
+          tickLine={{ stroke: "#cbd5e1" }}
+          minTickGap={24}
+        />
+        <YAxis
+          domain={[0, 100]}
+          tick={{ fontSize: 12, fill: "#64748b" }}
+          tickLine={{ stroke: "#cbd5e1" }}
+          allowDecimals={false}
+        />
+        <ReferenceLine
+          y={threshold}
+          stroke="#ef4444"
+          strokeDasharray="4 4"
+          label={{ value: `${threshold}%`, position: "right", fontSize: 11, fill: "#ef4444" }}
+        />
+        <Tooltip
+          content={({ active, payload, label }) => (
+            <TrendTooltip
+              active={active}
+              payload={payload as TooltipPayloadItem[]}
+              label={label as string}
+            />
+          )}
+        />
+        {series.map((s) => (
+          <Line
+            key={s.key}
+            type="monotone"
+            dataKey={s.key}
+            stroke={s.color}
+            strokeWidth={s.width}
+            dot={points.length <= 60 ? { fill: s.color, strokeWidth: 0, r: 2 } : false}
+            activeDot={{ r: 4, stroke: s.color, strokeWidth: 2 }}
+            name={s.name}
+          />
+        ))}
+      </LineChart>
+    </ResponsiveContainer>
+  );
+}
+
+/**
+ * ThresholdCrossingList explains each point where the score fell below or
+ * recovered above the threshold.
+ */
+export function ThresholdCrossingList({
+  crossings,
+}: {
+  crossings: ThresholdCrossing[];
+}) {
+  if (crossings.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      {[...crossings].reverse().map((crossing) => {
+        const dropped = crossing.direction === "dropped_below";
+        return (
+          <div
+            key={crossing.calculatedAt}
+            className={cn(
+              "flex items-start gap-3 rounded-lg border p-3",
+              dropped ? "border-red-200 bg-red-50" : "border-green-200 bg-green-50"
+            )}
+          >
+            {dropped ? (
+              <TrendingDown className="h-4 w-4 mt-0.5 text-red-600 shrink-0" />
+            ) : (
+              <TrendingUp className="h-4 w-4 mt-0.5 text-green-600 shrink-0" />
+            )}
+            <div className="flex-1 min-w-0 text-sm">
+              <p className={cn("font-medium", dropped ? "text-red-900" : "text-green-900")}>
+                {dropped ? "Dropped below" : "Recovered above"} {crossing.threshold}%
+                {" "}on {format(new Date(crossing.calculatedAt), "PPP")} (
+                {crossing.previousScore}% → {crossing.score}%)
+              </p>
+              {crossing.dimensionChanges.length > 0 && (
+                <p className="text-xs text-slate-700 mt-1">
+                  {crossing.dimensionChanges
+                    .map(
+                      (c) => `${DIMENSION_LABELS[c.dimension]} ${c.from}% → ${c.to}%`
+                    )
+                    .join(", ")}
+                </p>
+              )}
+              {crossing.newIssueCodes.length > 0 && (
+                <p className="text-xs text-slate-600 mt-1">
+                  New issues: {crossing.newIssueCodes.join(", ")}
+                </p>
+              )}
+              {crossing.resolvedIssueCodes.length > 0 && (
+                <p className="text-xs text-slate-600 mt-1">
+                  Resolved: {crossing.resolvedIssueCodes.join(", ")}
+                </p>
+              )}
+              {crossing.policyChanged && (
+                <p className="text-xs text-slate-600 mt-1">
+                  Scoring policy changed between these calculations
+                </p>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
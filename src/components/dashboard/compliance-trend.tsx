@@ -0,0 +1,109 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { ComplianceHistory } from "@/lib/compliance-history";
+import {
+  ComplianceTrendChart,
+  ThresholdCrossingList,
+} from "@/components/compliance/compliance-trend-chart";
+
+const RANGES = [
+  { days: 30, label: "30 days" },
+  { days: 90, label: "90 days" },
+  { days: 365, label: "12 months" },
+];
+
+export function ComplianceTrend() {
+  const [days, setDays] = useState(90);
+  const [history, setHistory] = useState<ComplianceHistory | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [showDimensions, setShowDimensions] = useState(false);
+
+  useEffect(() => {
+    async function fetchHistory() {
+      try {
+        const response = await fetch(
+          `/api/organizations/current/compliance-history?days=${days}`
+        );
+        if (response.ok) {
+          setHistory(await response.json());
+        }
+      } catch (error) {
+        console.error("Failed to fetch compliance history:", error);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchHistory();
+  }, [days]);
+
+  const selectRange = (value: number) => {
+    if (value === days) return;
+    setLoading(true);
+    setDays(value);
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-6">
+      <div className="flex flex-wrap items-start justify-between gap-3 mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-900">
+            Compliance Trend
+          </h2>
+          <p className="text-sm text-slate-500">
+            Your score each time it was recalculated
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-1.5 text-xs text-slate-600">
+            <input
+              type="checkbox"
+              checked={showDimensions}
+              onChange={(e) => setShowDimensions(e.target.checked)}
+            />
+            Show dimensions
+          </label>
+          <div className="flex rounded-lg border border-slate-200 p-0.5">
+            {RANGES.map((range) => (
+              <button
+                key={range.days}
+                type="button"
+                onClick={() => selectRange(range.days)}
+                className={cn(
+                  "px-2.5 py-1 text-xs rounded-md",
+                  days === range.days
+                    ? "bg-slate-900 text-white"
+                    : "text-slate-600 hover:bg-slate-100"
+                )}
+              >
+                {range.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-[260px]">
+          <Loader2 className="h-6 w-6 animate-spin text-slate-400" />
+        </div>
+      ) : history ? (
+        <div className="space-y-4">
+          <ComplianceTrendChart
+            points={history.points}
+            threshold={history.threshold}
+            showDimensions={showDimensions}
+          />
+          <ThresholdCrossingList crossings={history.crossings} />
+        </div>
+      ) : (
+        <div className="flex items-center justify-center h-[260px] text-sm text-slate-400">
+          Score history is unavailable
+        </div>
+      )}
+    </div>
+  );
+}
@@ -92,12 +92,13 @@ function formatInsuranceDetails(insurance: ComplianceBreakdown["insurance"]): st
 }
 
 function formatPersonnelDetails(personnel: ComplianceBreakdown["personnel"]): string {
-  const { lbpVerifiedCount } = personnel.details;
+  const { lbpVerifiedCount, cpdShortfallCount } = personnel.details;
 
   if (lbpVerifiedCount === 0) {
     return "No verified LBPs";
   }
-  return `${lbpVerifiedCount} verified LBP${lbpVerifiedCount !== 1 ? "s" : ""}`;
+  const cpd = cpdShortfallCount > 0 ? ` · ${cpdShortfallCount} short of CPD` : "";
+  return `${lbpVerifiedCount} verified LBP${lbpVerifiedCount !== 1 ? "s" : ""}${cpd}`;
 }
 
 function formatDocumentationDetails(documentation: ComplianceBreakdown["documentation"]): string {
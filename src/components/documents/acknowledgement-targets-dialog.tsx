@@ -0,0 +1,190 @@
+"use client";
+
+import { useEffect, useState, useTransition } from "react";
+import { format } from "date-fns";
+import { Check, Clock } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { LoadingButton } from "@/components/ui/loading-button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { ORG_MEMBER_ROLE_LABELS, type OrgMemberRole } from "@/types";
+
+interface AcknowledgementStatus {
+  targets: { roles: OrgMemberRole[]; teamIds: string[] };
+  versionString: string | null;
+  members: {
+    id: string;
+    name: string;
+    acknowledgedAt: string | null;
+  }[];
+}
+
+interface AcknowledgementTargetsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  documentId: string;
+  documentTitle: string;
+}
+
+export function AcknowledgementTargetsDialog({
+  open,
+  onOpenChange,
+  documentId,
+  documentTitle,
+}: AcknowledgementTargetsDialogProps) {
+  const [status, setStatus] = useState<AcknowledgementStatus | null>(null);
+  const [teams, setTeams] = useState<{ id: string; name: string }[]>([]);
+  const [roles, setRoles] = useState<OrgMemberRole[]>([]);
+  const [teamIds, setTeamIds] = useState<string[]>([]);
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    async function fetchData() {
+      try {
+        const [statusResponse, teamsResponse] = await Promise.all([
+          fetch(`/api/documents/${documentId}/acknowledgements`),
+          fetch("/api/teams"),
+        ]);
+        if (statusResponse.ok) {
+          const data: AcknowledgementStatus = await statusResponse.json();
+          setStatus(data);
+          setRoles(data.targets.roles);
+          setTeamIds(data.targets.teamIds);
+        }
+        if (teamsResponse.ok) {
+          const data = await teamsResponse.json();
+          setTeams(data.teams);
+        }
+      } catch (err) {
+        console.error("Failed to fetch acknowledgement settings:", err);
+      }
+    }
+
+    fetchData();
+  }, [open, documentId]);
+
+  const toggle = <T,>(list: T[], value: T, checked: boolean) =>
+    checked ? [...list, value] : list.filter((v) => v !== value);
+
+  const handleSave = () => {
+    startTransition(async () => {
+      setError(null);
+      try {
+        const response = await fetch(`/api/documents/${documentId}/acknowledgements`, {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ roles, teamIds }),
+        });
+
+        if (!response.ok) {
+          const data = await response.json();
+          throw new Error(data.error || "Failed to save required reading");
+        }
+
+        onOpenChange(false);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "An error occurred");
+      }
+    });
+  };
+
+  const acknowledgedCount = status?.members.filter((m) => m.acknowledgedAt).length ?? 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Required Reading</DialogTitle>
+          <DialogDescription>
+            Choose who must read and acknowledge &quot;{documentTitle}&quot;.
+            They are asked again whenever a new major version is approved.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label>Roles</Label>
+            {(Object.keys(ORG_MEMBER_ROLE_LABELS) as OrgMemberRole[]).map((role) => (
+              <label key={role} className="flex items-center gap-2 text-sm text-slate-700">
+                <Checkbox
+                  checked={roles.includes(role)}
+                  onCheckedChange={(checked) => setRoles(toggle(roles, role, checked))}
+                />
+                {ORG_MEMBER_ROLE_LABELS[role]}
+              </label>
+            ))}
+          </div>
+
+          {teams.length > 0 && (
+            <div className="space-y-2">
+              <Label>Teams</Label>
+              {teams.map((team) => (
+                <label key={team.id} className="flex items-center gap-2 text-sm text-slate-700">
+                  <Checkbox
+                    checked={teamIds.includes(team.id)}
+                    onCheckedChange={(checked) => setTeamIds(toggle(teamIds, team.id, checked))}
+                  />
+                  {team.name}
+                </label>
+              ))}
+            </div>
+          )}
+
+          {status && status.members.length > 0 && (
+            <div className="space-y-2">
+              <Label>
+                {status.versionString
+                  ? `Acknowledged v${status.versionString}: ${acknowledgedCount} of ${status.members.length}`
+                  : "Not yet approved"}
+              </Label>
+              <ul className="max-h-48 overflow-y-auto rounded-lg border border-slate-200 divide-y divide-slate-100">
+                {status.members.map((member) => (
+                  <li key={member.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                    <span className="text-slate-700">{member.name}</span>
+                    {member.acknowledgedAt ? (
+                      <span className="flex items-center gap-1 text-green-600">
+                        <Check className="h-4 w-4" />
+                        {format(new Date(member.acknowledgedAt), "d MMM yyyy")}
+                      </span>
+                    ) : (
+                      <span className="flex items-center gap-1 text-amber-600">
+                        <Clock className="h-4 w-4" />
+                        Outstanding
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded text-red-600 text-sm">
+              {error}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isPending}>
+            Cancel
+          </Button>
+          <LoadingButton onClick={handleSave} loading={isPending} loadingText="Saving...">
+            Save
+          </LoadingButton>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
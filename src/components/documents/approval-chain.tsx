@@ -0,0 +1,73 @@
+"use client";
+
+import { format, isPast } from "date-fns";
+import { Check, Circle, Clock, Minus, X } from "lucide-react";
+
+export type ApprovalStepStatus = "WAITING" | "PENDING" | "APPROVED" | "REJECTED" | "CANCELLED";
+
+export interface ApprovalChainStep {
+  id: string;
+  stepOrder: number;
+  name: string;
+  approverName: string;
+  delegatedFromName: string | null;
+  status: ApprovalStepStatus;
+  dueDate: string | null;
+  decidedByName: string | null;
+  decidedAt: string | null;
+  comment: string | null;
+}
+
+const statusIcon: Record<ApprovalStepStatus, { icon: typeof Check; className: string }> = {
+  WAITING: { icon: Circle, className: "text-slate-300" },
+  PENDING: { icon: Clock, className: "text-amber-500" },
+  APPROVED: { icon: Check, className: "text-green-600" },
+  REJECTED: { icon: X, className: "text-red-600" },
+  CANCELLED: { icon: Minus, className: "text-slate-400" },
+};
+
+export function ApprovalChain({ steps }: { steps: ApprovalChainStep[] }) {
+  if (steps.length === 0) return null;
+
+  return (
+    <ol className="space-y-3">
+      {steps.map((step) => {
+        const { icon: Icon, className } = statusIcon[step.status];
+        const overdue =
+          step.status === "PENDING" && step.dueDate && isPast(new Date(step.dueDate));
+
+        return (
+          <li key={step.id} className="flex gap-3">
+            <Icon className={`h-5 w-5 mt-0.5 shrink-0 ${className}`} />
+            <div className="min-w-0 text-sm">
+              <div className="font-medium text-slate-900">
+                {step.stepOrder}. {step.name}
+              </div>
+              <div className="text-slate-600">
+                {step.approverName}
+                {step.delegatedFromName && (
+                  <span className="text-slate-500"> (on behalf of {step.delegatedFromName})</span>
+                )}
+              </div>
+              {step.status === "PENDING" && step.dueDate && (
+                <div className={overdue ? "text-red-600" : "text-slate-500"}>
+                  {overdue ? "Overdue since" : "Due"} {format(new Date(step.dueDate), "d MMM yyyy")}
+                </div>
+              )}
+              {step.decidedAt && (
+                <div className="text-slate-500">
+                  {step.status === "APPROVED" ? "Approved" : "Rejected"} by{" "}
+                  {step.decidedByName ?? step.approverName} on{" "}
+                  {format(new Date(step.decidedAt), "d MMM yyyy")}
+                </div>
+              )}
+              {step.comment && (
+                <div className="mt-1 text-slate-600 italic">&ldquo;{step.comment}&rdquo;</div>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useTransition } from "react";
+import { useEffect, useState, useTransition } from "react";
 import {
   Dialog,
   DialogContent,
@@ -13,7 +13,15 @@ import { Button } from "@/components/ui/button";
 import { LoadingButton } from "@/components/ui/loading-button";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
-import { Check, X } from "lucide-react";
+import { Check, GitCompare, X } from "lucide-react";
+import { DocumentDiffView } from "./document-diff-view";
+import { ApprovalChain, type ApprovalChainStep } from "./approval-chain";
+
+interface ApprovalChainState {
+  versionId: string;
+  steps: ApprovalChainStep[];
+  canDecide: boolean;
+}
 
 interface ApprovalDialogProps {
   open: boolean;
@@ -36,6 +44,21 @@ export function ApprovalDialog({
   const [reason, setReason] = useState("");
   const [isPending, startTransition] = useTransition();
   const [error, setError] = useState<string | null>(null);
+  const [showChanges, setShowChanges] = useState(false);
+  const [comment, setComment] = useState("");
+  const [chain, setChain] = useState<ApprovalChainState | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const query = versionId ? `?versionId=${versionId}` : "";
+    fetch(`/api/documents/${documentId}/approve${query}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then(setChain)
+      .catch((err) => console.error("Failed to fetch approval chain:", err));
+  }, [open, documentId, versionId]);
+
+  const activeStep = chain?.steps.find((step) => step.status === "PENDING");
 
   const handleSubmit = async () => {
     if (!action) return;
@@ -56,6 +79,7 @@ export function ApprovalDialog({
             action,
             versionId,
             reason: action === "reject" ? reason : undefined,
+            comment: action === "approve" && comment.trim() ? comment : undefined,
           }),
         });
 
@@ -75,21 +99,55 @@ export function ApprovalDialog({
   const handleClose = () => {
     setAction(null);
     setReason("");
+    setComment("");
     setError(null);
+    setShowChanges(false);
     onOpenChange(false);
   };
 
   return (
     <Dialog open={open} onOpenChange={handleClose}>
-      <DialogContent className="sm:max-w-[425px]">
+      <DialogContent className={showChanges ? "sm:max-w-5xl" : "sm:max-w-[425px]"}>
         <DialogHeader>
           <DialogTitle>Review Document</DialogTitle>
           <DialogDescription>
-            Approve or reject &quot;{documentTitle}&quot;
+            {activeStep
+              ? `${activeStep.name} step for "${documentTitle}"`
+              : `Approve or reject "${documentTitle}"`}
           </DialogDescription>
         </DialogHeader>
 
-        {!action ? (
+        {chain && chain.steps.length > 0 && (
+          <div className="rounded-lg border border-slate-200 p-4">
+            <ApprovalChain steps={chain.steps} />
+          </div>
+        )}
+
+        <Button
+          variant="outline"
+          size="sm"
+          className="self-start"
+          onClick={() => setShowChanges(!showChanges)}
+        >
+          <GitCompare className="h-4 w-4 mr-2" />
+          {showChanges ? "Hide changes" : "Compare with previous version"}
+        </Button>
+
+        {showChanges && (
+          <DocumentDiffView
+            documentId={documentId}
+            toVersionId={versionId}
+            maxHeight={360}
+          />
+        )}
+
+        {chain && !chain.canDecide ? (
+          <div className="p-3 bg-amber-50 border border-amber-200 rounded text-amber-700 text-sm">
+            {activeStep
+              ? `Waiting on ${activeStep.approverName} to review the ${activeStep.name} step.`
+              : "This version is not awaiting approval."}
+          </div>
+        ) : !action ? (
           <div className="flex gap-4 py-4">
             <Button
               className="flex-1 bg-green-600 hover:bg-green-700"
@@ -115,9 +173,19 @@ export function ApprovalDialog({
                   <Check className="h-6 w-6 text-green-600" />
                 </div>
                 <p className="text-slate-600">
-                  This document will be marked as approved and made available
-                  for use.
+                  {chain?.steps.some((step) => step.status === "WAITING")
+                    ? "Your approval will be recorded and the document passed to the next approver."
+                    : "This document will be marked as approved and made available for use."}
                 </p>
+                <div className="space-y-2 mt-4 text-left">
+                  <Label htmlFor="comment">Comment (optional)</Label>
+                  <Textarea
+                    id="comment"
+                    value={comment}
+                    onChange={(e) => setComment(e.target.value)}
+                    rows={3}
+                  />
+                </div>
               </div>
             ) : (
               <div className="space-y-4">
@@ -233,8 +301,9 @@ export function SubmitApprovalDialog({
 
         <div className="py-4">
           <p className="text-slate-600 text-sm">
-            Once submitted, this document will be reviewed by an administrator.
-            You will be notified when the review is complete.
+            Once submitted, this document will be routed through your
+            organisation&apos;s approval chain for its type and ISO element,
+            or reviewed by an administrator if no chain is configured.
           </p>
 
           {error && (
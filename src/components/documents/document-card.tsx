@@ -7,6 +7,8 @@ import {
   MoreVertical,
   Trash2,
   ExternalLink,
+  BookOpenCheck,
+  Stamp,
 } from "lucide-react";
 import { formatDate } from "@/lib/utils";
 import { Badge } from "@/components/ui/badge";
@@ -38,12 +40,16 @@ interface DocumentCardProps {
   };
   onDelete?: (id: string) => void;
   onDownload?: (id: string) => void;
+  onManageReading?: (id: string) => void;
+  onDownloadControlled?: (id: string) => void;
 }
 
 export function DocumentCard({
   document,
   onDelete,
   onDownload,
+  onManageReading,
+  onDownloadControlled,
 }: DocumentCardProps) {
   const formatFileSize = (bytes?: number | null) => {
     if (!bytes) return "";
@@ -91,6 +97,20 @@ export function DocumentCard({
                   Download
                 </DropdownMenuItem>
               )}
+              {document.storageKey &&
+                onDownloadControlled &&
+                document.fileName?.toLowerCase().endsWith(".pdf") && (
+                  <DropdownMenuItem onClick={() => onDownloadControlled(document.id)}>
+                    <Stamp className="h-4 w-4 mr-2" />
+                    Issue controlled copy
+                  </DropdownMenuItem>
+                )}
+              {onManageReading && (
+                <DropdownMenuItem onClick={() => onManageReading(document.id)}>
+                  <BookOpenCheck className="h-4 w-4 mr-2" />
+                  Required reading
+                </DropdownMenuItem>
+              )}
               {onDelete && (
                 <DropdownMenuItem
                   onClick={() => onDelete(document.id)}
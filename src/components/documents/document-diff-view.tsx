@@ -0,0 +1,248 @@
+"use client";
+
+import { Fragment, useEffect, useState } from "react";
+import { AlertCircle, ArrowRight, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type {
+  DiffLine,
+  DiffRow,
+  DocumentVersionDiff,
+} from "@/lib/document-diff";
+
+// Unchanged lines kept around each change; longer unchanged runs collapse
+const CONTEXT_LINES = 3;
+
+interface DocumentDiffViewProps {
+  documentId: string;
+  toVersionId?: string; // Defaults to the latest version
+  fromVersionId?: string; // Defaults to the version before toVersionId
+  maxHeight?: number;
+}
+
+type Block =
+  | { kind: "rows"; rows: DiffRow[] }
+  | { kind: "collapsed"; id: number; rows: DiffRow[] };
+
+function buildBlocks(rows: DiffRow[]): Block[] {
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < rows.length) {
+    if (rows[i].type !== "unchanged") {
+      const start = i;
+      while (i < rows.length && rows[i].type !== "unchanged") i++;
+      blocks.push({ kind: "rows", rows: rows.slice(start, i) });
+      continue;
+    }
+
+    const start = i;
+    while (i < rows.length && rows[i].type === "unchanged") i++;
+    const run = rows.slice(start, i);
+    const head = start === 0 ? 0 : CONTEXT_LINES;
+    const tail = i === rows.length ? 0 : CONTEXT_LINES;
+
+    if (run.length <= head + tail + 1) {
+      blocks.push({ kind: "rows", rows: run });
+    } else {
+      blocks.push({ kind: "rows", rows: run.slice(0, head) });
+      blocks.push({ kind: "collapsed", id: start, rows: run.slice(head, run.length - tail) });
+      blocks.push({ kind: "rows", rows: run.slice(run.length - tail) });
+    }
+  }
+
+  return blocks;
+}
+
+function LineCell({
+  line,
+  side,
+  type,
+}: {
+  line: DiffLine | null;
+  side: "left" | "right";
+  type: DiffRow["type"];
+}) {
+  const background =
+    line === null
+      ? "bg-slate-50"
+      : type === "unchanged"
+        ? ""
+        : side === "left"
+          ? "bg-red-50"
+          : "bg-green-50";
+
+  return (
+    <>
+      <td
+        className={cn(
+          "w-10 select-none border-r border-slate-100 px-2 text-right align-top text-slate-400",
+          side === "right" && "border-l border-slate-200",
+          background
+        )}
+      >
+        {line?.lineNumber}
+      </td>
+      <td className={cn("whitespace-pre-wrap break-words px-2 align-top", background)}>
+        {line?.segments
+          ? line.segments.map((segment, i) => (
+              <span
+                key={i}
+                className={cn(
+                  segment.change === "removed" && "bg-red-200 line-through decoration-red-400",
+                  segment.change === "added" && "bg-green-200"
+                )}
+              >
+                {segment.text}
+              </span>
+            ))
+          : line?.text}
+      </td>
+    </>
+  );
+}
+
+/**
+ * DocumentDiffView shows two versions of a document side by side, older on
+ * the left, with changed words highlighted and unchanged runs collapsed.
+ */
+export function DocumentDiffView({
+  documentId,
+  toVersionId,
+  fromVersionId,
+  maxHeight = 480,
+}: DocumentDiffViewProps) {
+  const [diff, setDiff] = useState<DocumentVersionDiff | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+
+  useEffect(() => {
+    async function fetchDiff() {
+      setLoading(true);
+      setError(null);
+      try {
+        const params = new URLSearchParams();
+        if (toVersionId) params.set("to", toVersionId);
+        if (fromVersionId) params.set("from", fromVersionId);
+
+        const response = await fetch(
+          `/api/documents/${documentId}/versions/compare?${params}`
+        );
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to compare versions");
+        }
+        setDiff(data);
+        setExpanded(new Set());
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "An error occurred");
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchDiff();
+  }, [documentId, toVersionId, fromVersionId]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8 text-sm text-slate-500">
+        <Loader2 className="h-5 w-5 animate-spin mr-2" />
+        Comparing versions...
+      </div>
+    );
+  }
+
+  if (error || !diff) {
+    return (
+      <div className="flex items-center gap-2 rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+        <AlertCircle className="h-4 w-4 shrink-0" />
+        {error}
+      </div>
+    );
+  }
+
+  const { stats } = diff;
+  const changed = stats.added + stats.removed + stats.modified > 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+        <div className="flex items-center gap-2 font-medium text-slate-700">
+          <span>v{diff.from.versionString}</span>
+          <ArrowRight className="h-4 w-4 text-slate-400" />
+          <span>v{diff.to.versionString}</span>
+        </div>
+        <div className="flex gap-3 text-xs">
+          <span className="text-green-700">+{stats.added} added</span>
+          <span className="text-red-700">-{stats.removed} removed</span>
+          <span className="text-amber-700">~{stats.modified} changed</span>
+        </div>
+      </div>
+
+      {diff.to.changeNotes && (
+        <div className="text-sm text-slate-600 bg-slate-50 rounded p-2 border border-slate-100">
+          <span className="font-medium">Change notes:</span> {diff.to.changeNotes}
+        </div>
+      )}
+
+      {!changed ? (
+        <p className="rounded-lg border border-slate-200 p-4 text-center text-sm text-slate-500">
+          {diff.identical
+            ? "The files are identical."
+            : "The text is unchanged; only formatting or layout differs."}
+        </p>
+      ) : (
+        <div
+          className="overflow-auto rounded-lg border border-slate-200"
+          style={{ maxHeight }}
+        >
+          <table className="w-full table-fixed font-mono text-xs leading-5">
+            <colgroup>
+              <col className="w-10" />
+              <col />
+              <col className="w-10" />
+              <col />
+            </colgroup>
+            <thead className="sticky top-0 bg-white">
+              <tr className="border-b border-slate-200 text-left font-sans text-slate-500">
+                <th colSpan={2} className="px-2 py-1 font-medium">
+                  v{diff.from.versionString} · {diff.from.fileName}
+                </th>
+                <th colSpan={2} className="border-l border-slate-200 px-2 py-1 font-medium">
+                  v{diff.to.versionString} · {diff.to.fileName}
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {buildBlocks(diff.rows).map((block, index) =>
+                block.kind === "collapsed" && !expanded.has(block.id) ? (
+                  <tr key={`c${block.id}`}>
+                    <td colSpan={4} className="bg-slate-50 py-1 text-center font-sans">
+                      <button
+                        type="button"
+                        className="text-blue-600 hover:underline"
+                        onClick={() => setExpanded(new Set(expanded).add(block.id))}
+                      >
+                        Show {block.rows.length} unchanged lines
+                      </button>
+                    </td>
+                  </tr>
+                ) : (
+                  <Fragment key={index}>
+                    {block.rows.map((row, i) => (
+                      <tr key={i}>
+                        <LineCell line={row.left} side="left" type={row.type} />
+                        <LineCell line={row.right} side="right" type={row.type} />
+                      </tr>
+                    ))}
+                  </Fragment>
+                )
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 import { useState } from "react";
 import { useRouter } from "next/navigation";
 import { DocumentCard } from "./document-card";
+import { AcknowledgementTargetsDialog } from "./acknowledgement-targets-dialog";
 import {
   Dialog,
   DialogContent,
@@ -28,11 +29,13 @@ interface Document {
 
 interface DocumentListProps {
   documents: Document[];
+  isAdmin?: boolean;
 }
 
-export function DocumentList({ documents }: DocumentListProps) {
+export function DocumentList({ documents, isAdmin }: DocumentListProps) {
   const router = useRouter();
   const [deleteId, setDeleteId] = useState<string | null>(null);
+  const [readingDoc, setReadingDoc] = useState<Document | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
 
   const handleDelete = async () => {
@@ -55,9 +58,11 @@ export function DocumentList({ documents }: DocumentListProps) {
     }
   };
 
-  const handleDownload = async (id: string) => {
+  const handleDownload = async (id: string, copy?: "controlled") => {
     try {
-      const res = await fetch(`/api/documents/${id}/download`);
+      const res = await fetch(
+        `/api/documents/${id}/download${copy ? `?copy=${copy}` : ""}`
+      );
       if (res.ok) {
         const { url } = await res.json();
         window.open(url, "_blank");
@@ -79,7 +84,11 @@ export function DocumentList({ documents }: DocumentListProps) {
             key={doc.id}
             document={doc}
             onDelete={(id) => setDeleteId(id)}
-            onDownload={handleDownload}
+            onDownload={(id) => handleDownload(id)}
+            onDownloadControlled={
+              isAdmin ? (id) => handleDownload(id, "controlled") : undefined
+            }
+            onManageReading={isAdmin ? () => setReadingDoc(doc) : undefined}
           />
         ))}
       </div>
@@ -111,6 +120,15 @@ export function DocumentList({ documents }: DocumentListProps) {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {readingDoc && (
+        <AcknowledgementTargetsDialog
+          open
+          onOpenChange={(open) => !open && setReadingDoc(null)}
+          documentId={readingDoc.id}
+          documentTitle={readingDoc.title}
+        />
+      )}
     </>
   );
 }
@@ -0,0 +1,114 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { BookOpenCheck, ExternalLink } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { LoadingButton } from "@/components/ui/loading-button";
+
+interface PendingAcknowledgement {
+  documentId: string;
+  title: string;
+  documentNumber: string;
+  versionString: string;
+}
+
+export function PendingAcknowledgements() {
+  const [pending, setPending] = useState<PendingAcknowledgement[]>([]);
+  const [opened, setOpened] = useState<Set<string>>(new Set());
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchPending() {
+      try {
+        const response = await fetch("/api/documents/acknowledgements");
+        if (response.ok) {
+          setPending(await response.json());
+        }
+      } catch (err) {
+        console.error("Failed to fetch pending acknowledgements:", err);
+      }
+    }
+
+    fetchPending();
+  }, []);
+
+  const handleOpen = async (documentId: string) => {
+    try {
+      const response = await fetch(`/api/documents/${documentId}/download`);
+      if (response.ok) {
+        const { url } = await response.json();
+        window.open(url, "_blank");
+        setOpened((prev) => new Set(prev).add(documentId));
+      }
+    } catch (err) {
+      console.error("Failed to get download URL:", err);
+    }
+  };
+
+  const handleAcknowledge = async (documentId: string) => {
+    setSavingId(documentId);
+    setError(null);
+    try {
+      const response = await fetch(`/api/documents/${documentId}/acknowledgements`, {
+        method: "POST",
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to record acknowledgement");
+      }
+      setPending((prev) => prev.filter((p) => p.documentId !== documentId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  if (pending.length === 0) return null;
+
+  return (
+    <div className="bg-blue-50 rounded-xl border border-blue-200 p-4">
+      <div className="flex items-center gap-2 mb-1">
+        <BookOpenCheck className="h-5 w-5 text-blue-600" />
+        <h2 className="font-semibold text-slate-900">
+          Required reading ({pending.length})
+        </h2>
+      </div>
+      <p className="text-sm text-slate-600 mb-3">
+        Open each document, read it, then confirm you have understood it.
+      </p>
+      <ul className="divide-y divide-blue-200">
+        {pending.map((item) => (
+          <li key={item.documentId} className="flex items-center justify-between gap-4 py-2">
+            <div className="min-w-0 text-sm font-medium text-slate-900 truncate">
+              {item.documentNumber} · {item.title}{" "}
+              <span className="font-normal text-slate-500">v{item.versionString}</span>
+            </div>
+            <div className="flex gap-2 shrink-0">
+              <Button size="sm" variant="outline" onClick={() => handleOpen(item.documentId)}>
+                <ExternalLink className="h-4 w-4 mr-2" />
+                Open
+              </Button>
+              <LoadingButton
+                size="sm"
+                onClick={() => handleAcknowledge(item.documentId)}
+                loading={savingId === item.documentId}
+                loadingText="Saving..."
+                disabled={!opened.has(item.documentId)}
+                title={opened.has(item.documentId) ? undefined : "Open the document first"}
+              >
+                I have read this
+              </LoadingButton>
+            </div>
+          </li>
+        ))}
+      </ul>
+      {error && (
+        <div className="mt-3 p-3 bg-red-50 border border-red-200 rounded text-red-600 text-sm">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
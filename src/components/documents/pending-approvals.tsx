@@ -0,0 +1,97 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { format, isPast } from "date-fns";
+import { ClipboardCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ApprovalDialog } from "./approval-dialog";
+
+interface PendingApproval {
+  id: string;
+  name: string;
+  onBehalfOf: string | null;
+  dueDate: string | null;
+  versionId: string;
+  versionString: string;
+  document: { id: string; title: string; documentNumber: string | null };
+}
+
+export function PendingApprovals() {
+  const router = useRouter();
+  const [approvals, setApprovals] = useState<PendingApproval[]>([]);
+  const [reviewing, setReviewing] = useState<PendingApproval | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    async function fetchApprovals() {
+      try {
+        const response = await fetch("/api/documents/approvals");
+        if (response.ok) {
+          setApprovals(await response.json());
+        }
+      } catch (error) {
+        console.error("Failed to fetch pending approvals:", error);
+      }
+    }
+
+    fetchApprovals();
+  }, [reloadKey]);
+
+  if (approvals.length === 0) return null;
+
+  return (
+    <div className="bg-amber-50 rounded-xl border border-amber-200 p-4">
+      <div className="flex items-center gap-2 mb-3">
+        <ClipboardCheck className="h-5 w-5 text-amber-600" />
+        <h2 className="font-semibold text-slate-900">
+          Awaiting your approval ({approvals.length})
+        </h2>
+      </div>
+      <ul className="divide-y divide-amber-200">
+        {approvals.map((approval) => {
+          const overdue = approval.dueDate && isPast(new Date(approval.dueDate));
+          return (
+            <li key={approval.id} className="flex items-center justify-between gap-4 py-2">
+              <div className="min-w-0 text-sm">
+                <div className="font-medium text-slate-900 truncate">
+                  {approval.document.documentNumber && `${approval.document.documentNumber} · `}
+                  {approval.document.title}{" "}
+                  <span className="text-slate-500">v{approval.versionString}</span>
+                </div>
+                <div className="text-slate-600">
+                  {approval.name}
+                  {approval.onBehalfOf && ` (on behalf of ${approval.onBehalfOf})`}
+                  {approval.dueDate && (
+                    <span className={overdue ? "text-red-600" : undefined}>
+                      {" · "}
+                      {overdue ? "Overdue since" : "Due"}{" "}
+                      {format(new Date(approval.dueDate), "d MMM yyyy")}
+                    </span>
+                  )}
+                </div>
+              </div>
+              <Button size="sm" onClick={() => setReviewing(approval)}>
+                Review
+              </Button>
+            </li>
+          );
+        })}
+      </ul>
+
+      {reviewing && (
+        <ApprovalDialog
+          open
+          onOpenChange={(open) => !open && setReviewing(null)}
+          documentId={reviewing.document.id}
+          documentTitle={reviewing.document.title}
+          versionId={reviewing.versionId}
+          onSuccess={() => {
+            setReloadKey((key) => key + 1);
+            router.refresh();
+          }}
+        />
+      )}
+    </div>
+  );
+}
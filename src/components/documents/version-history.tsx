@@ -2,9 +2,18 @@
 
 import { useState, useEffect } from "react";
 import { formatDistanceToNow } from "date-fns";
-import { FileText, Check, X, Clock, AlertCircle, Download } from "lucide-react";
+import {
+  FileText,
+  Check,
+  X,
+  Clock,
+  AlertCircle,
+  Download,
+  GitCompare,
+} from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { DocumentDiffView } from "./document-diff-view";
 import {
   DOCUMENT_VERSION_STATUS_LABELS,
   type DocumentVersionStatus,
@@ -73,6 +82,8 @@ export function VersionHistory({
   const [versions, setVersions] = useState<Version[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Version whose changes against its predecessor are expanded
+  const [comparingId, setComparingId] = useState<string | null>(null);
 
   useEffect(() => {
     async function fetchVersions() {
@@ -129,6 +140,7 @@ export function VersionHistory({
       {versions.map((version, index) => {
         const config = statusConfig[version.status];
         const isLatest = index === 0;
+        const previous = versions[index + 1];
 
         return (
           <div
@@ -170,6 +182,18 @@ export function VersionHistory({
                 </div>
               </div>
               <div className="flex gap-2">
+                {previous && (
+                  <Button
+                    variant={comparingId === version.id ? "default" : "outline"}
+                    size="sm"
+                    title={`Compare with v${previous.versionString}`}
+                    onClick={() =>
+                      setComparingId(comparingId === version.id ? null : version.id)
+                    }
+                  >
+                    <GitCompare className="h-4 w-4" />
+                  </Button>
+                )}
                 {onDownload && (
                   <Button
                     variant="outline"
@@ -204,6 +228,16 @@ export function VersionHistory({
                 {version.rejectionReason}
               </div>
             )}
+
+            {previous && comparingId === version.id && (
+              <div className="mt-3 bg-white rounded p-3 border border-slate-100">
+                <DocumentDiffView
+                  documentId={documentId}
+                  fromVersionId={previous.id}
+                  toVersionId={version.id}
+                />
+              </div>
+            )}
           </div>
         );
       })}
@@ -0,0 +1,123 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { LoadingButton } from "@/components/ui/loading-button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface BrokerVerificationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  policy: {
+    id: string;
+    policyNumber: string;
+    brokerName?: string | null;
+    brokerEmail?: string | null;
+  };
+}
+
+export function BrokerVerificationDialog({
+  open,
+  onOpenChange,
+  policy,
+}: BrokerVerificationDialogProps) {
+  const router = useRouter();
+  const [brokerName, setBrokerName] = useState(policy.brokerName ?? "");
+  const [brokerEmail, setBrokerEmail] = useState(policy.brokerEmail ?? "");
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSend = () => {
+    startTransition(async () => {
+      setError(null);
+      try {
+        const response = await fetch(`/api/insurance/${policy.id}/verification`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            brokerEmail,
+            brokerName: brokerName || undefined,
+          }),
+        });
+
+        if (!response.ok) {
+          const data = await response.json();
+          throw new Error(data.error || "Failed to send verification request");
+        }
+
+        onOpenChange(false);
+        router.refresh();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "An error occurred");
+      }
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle>Verify with Broker</DialogTitle>
+          <DialogDescription>
+            We&apos;ll email your broker a link to confirm policy{" "}
+            {policy.policyNumber}. Once they confirm it, the policy is marked
+            verified. Your broker will also receive expiry reminders for it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div>
+            <Label htmlFor="brokerName">Broker Name</Label>
+            <Input
+              id="brokerName"
+              value={brokerName}
+              onChange={(e) => setBrokerName(e.target.value)}
+              placeholder="e.g., Crombie Lockwood"
+            />
+          </div>
+          <div>
+            <Label htmlFor="brokerEmail">Broker Email *</Label>
+            <Input
+              id="brokerEmail"
+              type="email"
+              value={brokerEmail}
+              onChange={(e) => setBrokerEmail(e.target.value)}
+              placeholder="e.g., jo.smith@broker.co.nz"
+              required
+            />
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded text-red-600 text-sm">
+              {error}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isPending}>
+            Cancel
+          </Button>
+          <LoadingButton
+            onClick={handleSend}
+            loading={isPending}
+            loadingText="Sending..."
+            disabled={!brokerEmail}
+          >
+            Send Request
+          </LoadingButton>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,129 @@
+import { AlertTriangle, CheckCircle, Layers } from "lucide-react";
+import { cn, formatCurrency, formatDate } from "@/lib/utils";
+import { Badge } from "@/components/ui/badge";
+import { INSURANCE_POLICY_TYPE_LABELS, CERTIFICATION_TIER_LABELS } from "@/types";
+import type { CoverageIssue, CoverageTimeline as Timeline } from "@/lib/insurance-coverage";
+
+interface CoverageTimelineProps {
+  timeline: Timeline;
+}
+
+const ISSUE_STYLES: Record<CoverageIssue["kind"], string> = {
+  GAP: "bg-red-400",
+  UNDERINSURED: "bg-yellow-400",
+  OVERLAP: "bg-purple-400",
+};
+
+function describeIssue(issue: CoverageIssue): string {
+  const policyType = INSURANCE_POLICY_TYPE_LABELS[issue.policyType];
+  switch (issue.kind) {
+    case "GAP":
+      return `No ${policyType} cover`;
+    case "OVERLAP":
+      return `${issue.policyIds.length} ${policyType} policies overlapping`;
+    case "UNDERINSURED":
+      return `${policyType} cover of ${formatCurrency(issue.actualCoverage ?? 0)} below the ${formatCurrency(issue.requiredCoverage ?? 0)} required for ${CERTIFICATION_TIER_LABELS[issue.tier!]}`;
+  }
+}
+
+export function CoverageTimeline({ timeline }: CoverageTimelineProps) {
+  const start = Date.parse(timeline.from);
+  const span = Math.max(1, Date.parse(timeline.to) - start);
+
+  // Position a date range as a percentage of the period
+  const position = (from: string, to: string) => {
+    const left = Math.max(0, (Date.parse(from) - start) / span) * 100;
+    const right = Math.min(1, (Date.parse(to) - start) / span) * 100;
+    return { left: `${left}%`, width: `${Math.max(right - left, 0.5)}%` };
+  };
+
+  const types = timeline.types.filter((t) => t.required || t.policies.length > 0);
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-6">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-900">Coverage History</h2>
+          <p className="text-sm text-slate-500">
+            {formatDate(timeline.from)} to {formatDate(timeline.to)}
+          </p>
+        </div>
+        {timeline.continuousCover ? (
+          <Badge variant="success">Continuous cover</Badge>
+        ) : (
+          <Badge variant="destructive">Cover interrupted</Badge>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        {types.map((type) => (
+          <div key={type.policyType} className="grid grid-cols-[12rem_1fr] items-center gap-4">
+            <div className="text-sm">
+              <p className="font-medium text-slate-700 truncate">
+                {INSURANCE_POLICY_TYPE_LABELS[type.policyType]}
+              </p>
+              <p className="text-xs text-slate-400">
+                {type.required ? "Required" : "Optional"}
+              </p>
+            </div>
+            <div className="relative h-6 rounded bg-slate-100 overflow-hidden">
+              {type.policies.map((policy) => (
+                <div
+                  key={policy.id}
+                  className="absolute top-1 bottom-1 rounded-sm bg-blue-500/70"
+                  style={position(policy.effectiveDate, policy.expiryDate)}
+                  title={`${policy.insurer} ${policy.policyNumber}: ${formatCurrency(policy.coverageAmount)}`}
+                />
+              ))}
+              {type.issues.map((issue) => (
+                <div
+                  key={`${issue.kind}-${issue.from}`}
+                  className={cn("absolute bottom-0 h-1.5", ISSUE_STYLES[issue.kind])}
+                  style={position(issue.from, issue.to)}
+                  title={describeIssue(issue)}
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-4 pt-4 border-t border-slate-100">
+        {timeline.issues.length === 0 ? (
+          <p className="flex items-center gap-2 text-sm text-slate-600">
+            <CheckCircle className="h-4 w-4 text-green-600" />
+            Required cover was held at the required amount throughout this period.
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {timeline.issues.map((issue) => (
+              <li
+                key={`${issue.policyType}-${issue.kind}-${issue.from}`}
+                className="flex items-start gap-2 text-sm"
+              >
+                {issue.kind === "OVERLAP" ? (
+                  <Layers className="h-4 w-4 mt-0.5 text-purple-600 shrink-0" />
+                ) : (
+                  <AlertTriangle
+                    className={cn(
+                      "h-4 w-4 mt-0.5 shrink-0",
+                      issue.kind === "GAP" ? "text-red-600" : "text-yellow-600"
+                    )}
+                  />
+                )}
+                <span className="text-slate-700">
+                  {describeIssue(issue)}
+                  <span className="text-slate-500">
+                    {" "}
+                    &middot; {formatDate(issue.from)} to {formatDate(issue.to)} ({issue.days}{" "}
+                    {issue.days === 1 ? "day" : "days"})
+                  </span>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
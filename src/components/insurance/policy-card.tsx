@@ -1,7 +1,7 @@
 "use client";
 
 import Link from "next/link";
-import { Shield, Calendar, DollarSign, MoreVertical, Pencil, Trash2 } from "lucide-react";
+import { Shield, Calendar, DollarSign, MoreVertical, Pencil, Trash2, MailCheck } from "lucide-react";
 import { formatCurrency, formatDate, daysUntil, cn } from "@/lib/utils";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -22,15 +22,21 @@ interface PolicyCardProps {
     coverageAmount: string | number;
     expiryDate: Date | string;
     verified: boolean;
+    verificationTokenExpiresAt?: Date | string | null;
   };
   onDelete?: (id: string) => void;
+  onRequestVerification?: (id: string) => void;
 }
 
-export function PolicyCard({ policy, onDelete }: PolicyCardProps) {
+export function PolicyCard({ policy, onDelete, onRequestVerification }: PolicyCardProps) {
   const days = daysUntil(policy.expiryDate);
   const isExpired = days < 0;
   const isExpiringSoon = days >= 0 && days <= 30;
   const isExpiringMedium = days > 30 && days <= 60;
+  const isAwaitingBroker =
+    !policy.verified &&
+    !!policy.verificationTokenExpiresAt &&
+    new Date(policy.verificationTokenExpiresAt) > new Date();
 
   const getStatusBadge = () => {
     if (isExpired) {
@@ -45,6 +51,9 @@ export function PolicyCard({ policy, onDelete }: PolicyCardProps) {
     if (policy.verified) {
       return <Badge variant="success">Verified</Badge>;
     }
+    if (isAwaitingBroker) {
+      return <Badge variant="secondary">Awaiting broker</Badge>;
+    }
     return <Badge variant="secondary">Active</Badge>;
   };
 
@@ -107,6 +116,12 @@ export function PolicyCard({ policy, onDelete }: PolicyCardProps) {
                   Edit
                 </Link>
               </DropdownMenuItem>
+              {onRequestVerification && !isExpired && (
+                <DropdownMenuItem onClick={() => onRequestVerification(policy.id)}>
+                  <MailCheck className="h-4 w-4 mr-2" />
+                  Verify with broker
+                </DropdownMenuItem>
+              )}
               {onDelete && (
                 <DropdownMenuItem
                   onClick={() => onDelete(policy.id)}
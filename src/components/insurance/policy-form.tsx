@@ -2,11 +2,12 @@
 
 import { useState } from "react";
 import { useRouter } from "next/navigation";
-import { Upload } from "lucide-react";
+import { AlertTriangle, FileSearch, Loader2, Upload } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { LoadingButton } from "@/components/ui/loading-button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Select,
   SelectContent,
@@ -18,6 +19,10 @@ import {
   INSURANCE_POLICY_TYPE_LABELS,
   type InsurancePolicyType,
 } from "@/types";
+import {
+  CERTIFICATE_CONFIDENCE_THRESHOLD,
+  type CertificateExtraction,
+} from "@/lib/insurance-certificate";
 
 interface PolicyFormData {
   policyType: InsurancePolicyType;
@@ -41,6 +46,20 @@ const POLICY_TYPES = Object.entries(INSURANCE_POLICY_TYPE_LABELS) as [
   string,
 ][];
 
+type PrefilledField = keyof PolicyFormData;
+
+function PrefillHint({ confidence }: { confidence?: number }) {
+  if (confidence === undefined) return null;
+  return confidence >= CERTIFICATE_CONFIDENCE_THRESHOLD ? (
+    <p className="mt-1 text-xs text-slate-500">Read from certificate</p>
+  ) : (
+    <p className="mt-1 flex items-center gap-1 text-xs text-amber-600">
+      <AlertTriangle className="h-3 w-3" />
+      Read from certificate, please check
+    </p>
+  );
+}
+
 export function PolicyForm({ initialData, onSubmit, isLoading }: PolicyFormProps) {
   const router = useRouter();
   const [file, setFile] = useState<File | null>(null);
@@ -54,28 +73,158 @@ export function PolicyForm({ initialData, onSubmit, isLoading }: PolicyFormProps
     effectiveDate: initialData?.effectiveDate || "",
     expiryDate: initialData?.expiryDate || "",
   });
+  // Confidence of each field prefilled from the certificate; editing a
+  // field removes it, as the member has then set the value themselves
+  const [prefilled, setPrefilled] = useState<Partial<Record<PrefilledField, number>>>({});
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [isReading, setIsReading] = useState(false);
+  const [readError, setReadError] = useState<string | null>(null);
+  const [confirmed, setConfirmed] = useState(false);
+
+  const hasPrefilled = Object.keys(prefilled).length > 0;
+
+  const updateField = <K extends PrefilledField>(field: K, value: PolicyFormData[K]) => {
+    setFormData((current) => ({ ...current, [field]: value }));
+    setPrefilled((current) => {
+      const next = { ...current };
+      delete next[field];
+      return next;
+    });
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     await onSubmit(formData, file || undefined);
   };
 
+  const readCertificate = async (selectedFile: File) => {
+    setIsReading(true);
+    setReadError(null);
+    try {
+      const body = new FormData();
+      body.append("certificate", selectedFile);
+      const response = await fetch("/api/insurance/certificate/extract", {
+        method: "POST",
+        body,
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to read certificate");
+      }
+
+      const { fields, warnings }: CertificateExtraction = await response.json();
+      const values: Partial<PolicyFormData> = {};
+      const confidence: Partial<Record<PrefilledField, number>> = {};
+      for (const [key, field] of Object.entries(fields)) {
+        if (!field) continue;
+        const name = key as PrefilledField;
+        values[name] = String(field.value) as never;
+        confidence[name] = field.confidence;
+      }
+
+      if (Object.keys(values).length === 0) {
+        setReadError("No policy details were found in this certificate; enter them below.");
+        return;
+      }
+
+      setFormData((current) => ({ ...current, ...values }));
+      setPrefilled(confidence);
+      setWarnings(warnings);
+      setConfirmed(false);
+    } catch (err) {
+      setReadError(err instanceof Error ? err.message : "Failed to read certificate");
+    } finally {
+      setIsReading(false);
+    }
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0];
     if (selectedFile) {
       setFile(selectedFile);
+      readCertificate(selectedFile);
     }
   };
 
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
       <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+        <div className="sm:col-span-2">
+          <Label htmlFor="certificate">Certificate of Insurance (PDF)</Label>
+          <div className="mt-1">
+            <label
+              htmlFor="certificate"
+              className="flex flex-col items-center justify-center w-full h-32 border-2 border-dashed border-slate-300 rounded-lg cursor-pointer bg-slate-50 hover:bg-slate-100 transition-colors"
+            >
+              {file ? (
+                <div className="flex items-center gap-2 text-sm text-slate-600">
+                  {isReading ? (
+                    <Loader2 className="h-5 w-5 animate-spin" />
+                  ) : (
+                    <Upload className="h-5 w-5" />
+                  )}
+                  <span>{isReading ? "Reading certificate..." : file.name}</span>
+                </div>
+              ) : (
+                <div className="flex flex-col items-center justify-center py-4">
+                  <Upload className="h-8 w-8 text-slate-400 mb-2" />
+                  <p className="text-sm text-slate-600">
+                    Click to upload or drag and drop
+                  </p>
+                  <p className="text-xs text-slate-400">
+                    PDF up to 10MB. Policy details are filled in from the
+                    certificate for you to check.
+                  </p>
+                </div>
+              )}
+              <input
+                id="certificate"
+                type="file"
+                accept=".pdf"
+                className="hidden"
+                onChange={handleFileChange}
+              />
+            </label>
+          </div>
+          {readError && (
+            <p className="mt-2 text-sm text-red-600">{readError}</p>
+          )}
+        </div>
+
+        {hasPrefilled && (
+          <div className="sm:col-span-2 rounded-lg border border-blue-200 bg-blue-50 p-4 text-sm">
+            <div className="flex items-start gap-2 text-blue-800">
+              <FileSearch className="h-4 w-4 mt-0.5 shrink-0" />
+              <p>
+                Details below were read from the certificate. Check each one
+                against the certificate, especially fields marked for
+                checking, before saving.
+              </p>
+            </div>
+            {warnings.length > 0 && (
+              <ul className="mt-2 ml-6 list-disc text-amber-700">
+                {warnings.map((warning) => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+            )}
+            <label className="mt-3 flex items-center gap-2 text-slate-700">
+              <Checkbox
+                checked={confirmed}
+                onCheckedChange={(checked) => setConfirmed(checked)}
+              />
+              I have checked these details against the certificate
+            </label>
+          </div>
+        )}
+
         <div className="sm:col-span-2">
           <Label htmlFor="policyType">Policy Type *</Label>
           <Select
             value={formData.policyType}
             onValueChange={(value: InsurancePolicyType) =>
-              setFormData({ ...formData, policyType: value })
+              updateField("policyType", value)
             }
           >
             <SelectTrigger>
@@ -89,6 +238,7 @@ export function PolicyForm({ initialData, onSubmit, isLoading }: PolicyFormProps
               ))}
             </SelectContent>
           </Select>
+          <PrefillHint confidence={prefilled.policyType} />
         </div>
 
         <div>
@@ -97,11 +247,12 @@ export function PolicyForm({ initialData, onSubmit, isLoading }: PolicyFormProps
             id="policyNumber"
             value={formData.policyNumber}
             onChange={(e) =>
-              setFormData({ ...formData, policyNumber: e.target.value })
+              updateField("policyNumber", e.target.value)
             }
             placeholder="e.g., POL-12345"
             required
           />
+          <PrefillHint confidence={prefilled.policyNumber} />
         </div>
 
         <div>
@@ -110,11 +261,12 @@ export function PolicyForm({ initialData, onSubmit, isLoading }: PolicyFormProps
             id="insurer"
             value={formData.insurer}
             onChange={(e) =>
-              setFormData({ ...formData, insurer: e.target.value })
+              updateField("insurer", e.target.value)
             }
             placeholder="e.g., Vero Insurance"
             required
           />
+          <PrefillHint confidence={prefilled.insurer} />
         </div>
 
         <div>
@@ -123,10 +275,11 @@ export function PolicyForm({ initialData, onSubmit, isLoading }: PolicyFormProps
             id="brokerName"
             value={formData.brokerName}
             onChange={(e) =>
-              setFormData({ ...formData, brokerName: e.target.value })
+              updateField("brokerName", e.target.value)
             }
             placeholder="e.g., Crombie Lockwood"
           />
+          <PrefillHint confidence={prefilled.brokerName} />
         </div>
 
         <div>
@@ -138,11 +291,12 @@ export function PolicyForm({ initialData, onSubmit, isLoading }: PolicyFormProps
             step="0.01"
             value={formData.coverageAmount}
             onChange={(e) =>
-              setFormData({ ...formData, coverageAmount: e.target.value })
+              updateField("coverageAmount", e.target.value)
             }
             placeholder="e.g., 2000000"
             required
           />
+          <PrefillHint confidence={prefilled.coverageAmount} />
         </div>
 
         <div>
@@ -154,10 +308,11 @@ export function PolicyForm({ initialData, onSubmit, isLoading }: PolicyFormProps
             step="0.01"
             value={formData.excessAmount}
             onChange={(e) =>
-              setFormData({ ...formData, excessAmount: e.target.value })
+              updateField("excessAmount", e.target.value)
             }
             placeholder="e.g., 1000"
           />
+          <PrefillHint confidence={prefilled.excessAmount} />
         </div>
 
         <div>
@@ -167,10 +322,11 @@ export function PolicyForm({ initialData, onSubmit, isLoading }: PolicyFormProps
             type="date"
             value={formData.effectiveDate}
             onChange={(e) =>
-              setFormData({ ...formData, effectiveDate: e.target.value })
+              updateField("effectiveDate", e.target.value)
             }
             required
           />
+          <PrefillHint confidence={prefilled.effectiveDate} />
         </div>
 
         <div>
@@ -180,43 +336,13 @@ export function PolicyForm({ initialData, onSubmit, isLoading }: PolicyFormProps
             type="date"
             value={formData.expiryDate}
             onChange={(e) =>
-              setFormData({ ...formData, expiryDate: e.target.value })
+              updateField("expiryDate", e.target.value)
             }
             required
           />
+          <PrefillHint confidence={prefilled.expiryDate} />
         </div>
 
-        <div className="sm:col-span-2">
-          <Label htmlFor="certificate">Certificate of Insurance (PDF)</Label>
-          <div className="mt-1">
-            <label
-              htmlFor="certificate"
-              className="flex flex-col items-center justify-center w-full h-32 border-2 border-dashed border-slate-300 rounded-lg cursor-pointer bg-slate-50 hover:bg-slate-100 transition-colors"
-            >
-              {file ? (
-                <div className="flex items-center gap-2 text-sm text-slate-600">
-                  <Upload className="h-5 w-5" />
-                  <span>{file.name}</span>
-                </div>
-              ) : (
-                <div className="flex flex-col items-center justify-center py-4">
-                  <Upload className="h-8 w-8 text-slate-400 mb-2" />
-                  <p className="text-sm text-slate-600">
-                    Click to upload or drag and drop
-                  </p>
-                  <p className="text-xs text-slate-400">PDF up to 10MB</p>
-                </div>
-              )}
-              <input
-                id="certificate"
-                type="file"
-                accept=".pdf"
-                className="hidden"
-                onChange={handleFileChange}
-              />
-            </label>
-          </div>
-        </div>
       </div>
 
       <div className="flex justify-end gap-3">
@@ -232,6 +358,7 @@ export function PolicyForm({ initialData, onSubmit, isLoading }: PolicyFormProps
           type="submit"
           loading={isLoading}
           loadingText="Saving..."
+          disabled={isReading || (hasPrefilled && !confirmed)}
         >
           {initialData?.id ? "Update Policy" : "Add Policy"}
         </LoadingButton>
@@ -3,6 +3,7 @@
 import { useState } from "react";
 import { useRouter } from "next/navigation";
 import { PolicyCard } from "./policy-card";
+import { BrokerVerificationDialog } from "./broker-verification-dialog";
 import {
   Dialog,
   DialogContent,
@@ -22,6 +23,9 @@ interface Policy {
   coverageAmount: string | number;
   expiryDate: Date | string;
   verified: boolean;
+  brokerName?: string | null;
+  brokerEmail?: string | null;
+  verificationTokenExpiresAt?: Date | string | null;
 }
 
 interface PolicyListProps {
@@ -32,6 +36,8 @@ export function PolicyList({ policies }: PolicyListProps) {
   const router = useRouter();
   const [deleteId, setDeleteId] = useState<string | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [verifyId, setVerifyId] = useState<string | null>(null);
+  const verifyPolicy = policies.find((p) => p.id === verifyId);
 
   const handleDelete = async () => {
     if (!deleteId) return;
@@ -65,10 +71,20 @@ export function PolicyList({ policies }: PolicyListProps) {
             key={policy.id}
             policy={policy}
             onDelete={(id) => setDeleteId(id)}
+            onRequestVerification={(id) => setVerifyId(id)}
           />
         ))}
       </div>
 
+      {verifyPolicy && (
+        <BrokerVerificationDialog
+          key={verifyPolicy.id}
+          open
+          onOpenChange={(open) => !open && setVerifyId(null)}
+          policy={verifyPolicy}
+        />
+      )}
+
       <Dialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
         <DialogContent>
           <DialogHeader>
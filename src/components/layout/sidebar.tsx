@@ -21,6 +21,7 @@ import {
   GraduationCap,
   HelpCircle,
   ChevronRight,
+  Search,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 
@@ -34,6 +35,7 @@ function isNavGroup(entry: NavEntry): entry is NavGroup {
 
 const navigation: NavEntry[] = [
   { name: "Dashboard", href: "/dashboard", icon: LayoutDashboard },
+  { name: "Search", href: "/find", icon: Search },
   { name: "Insurance", href: "/insurance", icon: Shield },
   {
     name: "People",
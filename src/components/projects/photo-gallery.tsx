@@ -0,0 +1,423 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import {
+  Camera,
+  Upload,
+  MapPin,
+  Clock,
+  Smartphone,
+  Trash2,
+  Loader2,
+  ImageOff,
+} from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { PHOTO_CATEGORY_LABELS, type PhotoCategory } from "@/types";
+
+interface ProjectPhoto {
+  id: string;
+  fileName: string;
+  category: PhotoCategory;
+  capturedAt: string | null;
+  uploadedAt: string;
+  latitude: number | null;
+  longitude: number | null;
+  deviceInfo: string | null;
+  description: string | null;
+  tags: string[];
+  url: string;
+  thumbnailUrl: string;
+}
+
+interface PhotoGalleryProps {
+  projectId: string;
+}
+
+const ACCEPTED_TYPES = "image/jpeg,image/png,image/webp";
+const MAX_PHOTO_SIZE_BYTES = 25 * 1024 * 1024;
+
+function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString("en-NZ", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+async function uploadPhoto(
+  projectId: string,
+  file: File,
+  category: PhotoCategory,
+  description: string
+): Promise<void> {
+  // 1. Signed URL for a direct browser -> R2 upload
+  const urlRes = await fetch(`/api/projects/${projectId}/photos/upload-url`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      fileName: file.name,
+      mimeType: file.type,
+      fileSize: file.size,
+    }),
+  });
+  if (!urlRes.ok) {
+    const data = await urlRes.json().catch(() => ({}));
+    throw new Error(data.error || "Failed to prepare upload");
+  }
+  const { uploadUrl, storageKey } = await urlRes.json();
+
+  // 2. Upload the original
+  const putRes = await fetch(uploadUrl, {
+    method: "PUT",
+    headers: { "Content-Type": file.type },
+    body: file,
+  });
+  if (!putRes.ok) {
+    throw new Error("Upload to storage failed");
+  }
+
+  // 3. Register: server extracts EXIF and builds the thumbnail
+  const registerRes = await fetch(`/api/projects/${projectId}/photos`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      storageKey,
+      fileName: file.name,
+      category,
+      description: description || undefined,
+    }),
+  });
+  if (!registerRes.ok) {
+    const data = await registerRes.json().catch(() => ({}));
+    throw new Error(data.error || "Failed to save photo");
+  }
+}
+
+export function PhotoGallery({ projectId }: PhotoGalleryProps) {
+  const [photos, setPhotos] = useState<ProjectPhoto[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [categoryFilter, setCategoryFilter] = useState<PhotoCategory | "all">("all");
+  const [uploadCategory, setUploadCategory] = useState<PhotoCategory>("BEFORE");
+  const [uploadDescription, setUploadDescription] = useState("");
+  const [uploading, setUploading] = useState<{ done: number; total: number } | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [selected, setSelected] = useState<ProjectPhoto | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const fetchPhotos = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/projects/${projectId}/photos`);
+      if (res.ok) {
+        const data = await res.json();
+        setPhotos(data.photos);
+      }
+    } catch (error) {
+      console.error("Failed to fetch project photos:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchPhotos();
+  }, [fetchPhotos]);
+
+  const handleFiles = async (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return;
+
+    const files = Array.from(fileList);
+    const failures: string[] = [];
+    setErrors([]);
+    setUploading({ done: 0, total: files.length });
+
+    // Sequential keeps mobile connections on site from stalling
+    for (const [index, file] of files.entries()) {
+      try {
+        if (!ACCEPTED_TYPES.split(",").includes(file.type)) {
+          throw new Error("Only JPEG, PNG and WebP photos are supported");
+        }
+        if (file.size > MAX_PHOTO_SIZE_BYTES) {
+          throw new Error("Photo exceeds maximum size of 25MB");
+        }
+        await uploadPhoto(projectId, file, uploadCategory, uploadDescription);
+      } catch (error) {
+        failures.push(`${file.name}: ${error instanceof Error ? error.message : "Upload failed"}`);
+      }
+      setUploading({ done: index + 1, total: files.length });
+    }
+
+    setUploading(null);
+    setErrors(failures);
+    setUploadDescription("");
+    if (fileInputRef.current) fileInputRef.current.value = "";
+    fetchPhotos();
+  };
+
+  const handleCategoryChange = async (photo: ProjectPhoto, category: PhotoCategory) => {
+    const res = await fetch(`/api/projects/${projectId}/photos/${photo.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ category }),
+    });
+    if (res.ok) {
+      setPhotos((prev) => prev.map((p) => (p.id === photo.id ? { ...p, category } : p)));
+      setSelected((prev) => (prev?.id === photo.id ? { ...prev, category } : prev));
+    }
+  };
+
+  const handleDelete = async (photo: ProjectPhoto) => {
+    if (!confirm(`Delete ${photo.fileName}?`)) return;
+
+    const res = await fetch(`/api/projects/${projectId}/photos/${photo.id}`, {
+      method: "DELETE",
+    });
+    if (res.ok) {
+      setPhotos((prev) => prev.filter((p) => p.id !== photo.id));
+      setSelected(null);
+    }
+  };
+
+  const visiblePhotos =
+    categoryFilter === "all" ? photos : photos.filter((p) => p.category === categoryFilter);
+
+  const categoryCounts = photos.reduce(
+    (acc, p) => {
+      acc[p.category] = (acc[p.category] || 0) + 1;
+      return acc;
+    },
+    {} as Record<string, number>
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <Camera className="h-5 w-5" />
+          Photos ({photos.length})
+        </CardTitle>
+        <Select
+          value={categoryFilter}
+          onValueChange={(v) => setCategoryFilter(v as PhotoCategory | "all")}
+        >
+          <SelectTrigger className="w-44">
+            <SelectValue placeholder="All categories" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All categories</SelectItem>
+            {Object.entries(PHOTO_CATEGORY_LABELS).map(([key, label]) => (
+              <SelectItem key={key} value={key}>
+                {label} ({categoryCounts[key] || 0})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Upload */}
+        <div className="rounded-lg border border-dashed border-slate-300 p-4 space-y-3">
+          <div className="grid gap-3 md:grid-cols-[200px_1fr]">
+            <div>
+              <Label>Category</Label>
+              <Select
+                value={uploadCategory}
+                onValueChange={(v) => setUploadCategory(v as PhotoCategory)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PHOTO_CATEGORY_LABELS).map(([key, label]) => (
+                    <SelectItem key={key} value={key}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="photoDescription">Description (optional)</Label>
+              <Textarea
+                id="photoDescription"
+                value={uploadDescription}
+                onChange={(e) => setUploadDescription(e.target.value)}
+                placeholder="e.g. Flashing detail at north-east valley"
+                rows={1}
+              />
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ACCEPTED_TYPES}
+              multiple
+              className="hidden"
+              onChange={(e) => handleFiles(e.target.files)}
+            />
+            <Button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={uploading !== null}
+            >
+              {uploading ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Uploading {uploading.done}/{uploading.total}
+                </>
+              ) : (
+                <>
+                  <Upload className="h-4 w-4 mr-2" />
+                  Upload Photos
+                </>
+              )}
+            </Button>
+            <p className="text-xs text-slate-500">
+              JPEG, PNG or WebP up to 25MB. GPS, capture time and device are read from the photo.
+            </p>
+          </div>
+          {errors.length > 0 && (
+            <div className="rounded-md bg-red-50 p-3 text-sm text-red-700 space-y-1">
+              {errors.map((error) => (
+                <p key={error}>{error}</p>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Gallery */}
+        {loading ? (
+          <p className="text-center text-slate-500 py-8">Loading photos...</p>
+        ) : visiblePhotos.length === 0 ? (
+          <div className="text-center py-8">
+            <ImageOff className="h-10 w-10 mx-auto text-slate-300" />
+            <p className="text-slate-500 mt-2">No photos yet</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+            {visiblePhotos.map((photo) => (
+              <button
+                key={photo.id}
+                type="button"
+                onClick={() => setSelected(photo)}
+                className="group text-left rounded-lg overflow-hidden border border-slate-200 hover:border-slate-400 transition-colors"
+              >
+                <div className="aspect-square bg-slate-100">
+                  {/* Signed R2 URLs expire, so next/image caching is not used */}
+                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                  <img
+                    src={photo.thumbnailUrl}
+                    alt={photo.description || photo.fileName}
+                    loading="lazy"
+                    className="h-full w-full object-cover"
+                  />
+                </div>
+                <div className="p-2 space-y-1">
+                  <Badge variant="secondary">{PHOTO_CATEGORY_LABELS[photo.category]}</Badge>
+                  <p className="text-xs text-slate-500 flex items-center gap-1">
+                    <Clock className="h-3 w-3" />
+                    {formatDateTime(photo.capturedAt ?? photo.uploadedAt)}
+                  </p>
+                  {photo.latitude !== null && (
+                    <p className="text-xs text-slate-500 flex items-center gap-1">
+                      <MapPin className="h-3 w-3" />
+                      Located
+                    </p>
+                  )}
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      {/* Photo detail */}
+      <Dialog open={selected !== null} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-3xl">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{selected.fileName}</DialogTitle>
+              </DialogHeader>
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img
+                src={selected.url}
+                alt={selected.description || selected.fileName}
+                className="max-h-[60vh] w-full object-contain rounded-md bg-slate-100"
+              />
+              {selected.description && (
+                <p className="text-sm text-slate-700">{selected.description}</p>
+              )}
+              <div className="grid gap-2 text-sm text-slate-600 sm:grid-cols-2">
+                <p className="flex items-center gap-2">
+                  <Clock className="h-4 w-4" />
+                  {selected.capturedAt
+                    ? `Captured ${formatDateTime(selected.capturedAt)}`
+                    : `Uploaded ${formatDateTime(selected.uploadedAt)} (no capture time)`}
+                </p>
+                <p className="flex items-center gap-2">
+                  <MapPin className="h-4 w-4" />
+                  {selected.latitude !== null && selected.longitude !== null ? (
+                    <a
+                      href={`https://www.google.com/maps?q=${selected.latitude},${selected.longitude}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-600 hover:underline"
+                    >
+                      {selected.latitude.toFixed(5)}, {selected.longitude.toFixed(5)}
+                    </a>
+                  ) : (
+                    "No GPS data"
+                  )}
+                </p>
+                <p className="flex items-center gap-2">
+                  <Smartphone className="h-4 w-4" />
+                  {selected.deviceInfo || "Unknown device"}
+                </p>
+              </div>
+              <div className="flex items-center justify-between gap-3 pt-2">
+                <Select
+                  value={selected.category}
+                  onValueChange={(v) => handleCategoryChange(selected, v as PhotoCategory)}
+                >
+                  <SelectTrigger className="w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(PHOTO_CATEGORY_LABELS).map(([key, label]) => (
+                      <SelectItem key={key} value={key}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="destructive" onClick={() => handleDelete(selected)}>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete
+                </Button>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
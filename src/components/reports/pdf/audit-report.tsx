@@ -0,0 +1,453 @@
+import React from "react";
+import {
+  Document,
+  Page,
+  Text,
+  View,
+  Image,
+  StyleSheet,
+} from "@react-pdf/renderer";
+import type { AuditReportData } from "@/lib/audit-report";
+import {
+  AUDIT_RATING_LABELS,
+  AUDIT_RESPONSE_LABELS,
+  AUDIT_TYPE_LABELS,
+  CAPA_STATUS_LABELS,
+  FINDING_SEVERITY_LABELS,
+  ISO_ELEMENT_LABELS,
+} from "@/types";
+import type { AuditResponse, FindingSeverity } from "@/types";
+
+// --- Styles ---
+
+const styles = StyleSheet.create({
+  page: {
+    padding: 40,
+    paddingBottom: 70,
+    fontSize: 10,
+    fontFamily: "Helvetica",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    borderBottomWidth: 2,
+    borderBottomColor: "#000",
+    paddingBottom: 10,
+    marginBottom: 20,
+  },
+  logo: {
+    fontSize: 20,
+    fontWeight: "bold",
+  },
+  logoSubtitle: {
+    fontSize: 8,
+    color: "#666",
+  },
+  headerRight: {
+    textAlign: "right",
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "bold",
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 9,
+    color: "#666",
+  },
+  detailsGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginBottom: 10,
+  },
+  detailItem: {
+    width: "33%",
+    marginBottom: 8,
+    paddingRight: 8,
+  },
+  label: {
+    fontWeight: "bold",
+    marginBottom: 2,
+    fontSize: 9,
+    color: "#555",
+  },
+  statsRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 6,
+  },
+  statBox: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    padding: 8,
+    alignItems: "center",
+  },
+  statValue: {
+    fontSize: 16,
+    fontWeight: "bold",
+  },
+  statLabel: {
+    fontSize: 8,
+    color: "#666",
+  },
+  section: {
+    marginTop: 16,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: "bold",
+    marginBottom: 6,
+    color: "#000",
+    borderBottomWidth: 1,
+    borderBottomColor: "#333",
+    paddingBottom: 4,
+  },
+  subsectionTitle: {
+    fontSize: 11,
+    fontWeight: "bold",
+    marginTop: 8,
+    marginBottom: 4,
+  },
+  paragraph: {
+    fontSize: 10,
+    lineHeight: 1.4,
+  },
+  finding: {
+    marginBottom: 6,
+    paddingLeft: 8,
+    borderLeftWidth: 2,
+    borderLeftColor: "#cbd5e1",
+  },
+  findingRef: {
+    fontSize: 8,
+    color: "#666",
+    marginBottom: 2,
+  },
+  tableHeader: {
+    flexDirection: "row",
+    backgroundColor: "#f1f5f9",
+    borderBottomWidth: 1,
+    borderBottomColor: "#cbd5e1",
+    paddingVertical: 5,
+    paddingHorizontal: 4,
+  },
+  tableRow: {
+    flexDirection: "row",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+    paddingVertical: 4,
+    paddingHorizontal: 4,
+  },
+  cell: {
+    flex: 1,
+    fontSize: 8,
+    paddingRight: 4,
+  },
+  cellWide: {
+    flex: 3,
+    fontSize: 8,
+    paddingRight: 4,
+  },
+  headerText: {
+    fontWeight: "bold",
+    fontSize: 8,
+    color: "#475569",
+  },
+  question: {
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+    paddingVertical: 6,
+  },
+  questionRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  questionText: {
+    flex: 1,
+    fontSize: 9,
+    paddingRight: 8,
+  },
+  response: {
+    fontSize: 8,
+    fontWeight: "bold",
+  },
+  questionFinding: {
+    fontSize: 9,
+    color: "#333",
+    marginTop: 3,
+  },
+  thumbnails: {
+    flexDirection: "row",
+    gap: 6,
+    marginTop: 6,
+  },
+  thumbnail: {
+    width: 120,
+    height: 90,
+    objectFit: "cover",
+  },
+  attachments: {
+    fontSize: 8,
+    color: "#666",
+    marginTop: 3,
+  },
+  emptyText: {
+    fontSize: 9,
+    color: "#666",
+    fontStyle: "italic",
+  },
+  footer: {
+    position: "absolute",
+    bottom: 30,
+    left: 40,
+    right: 40,
+    fontSize: 8,
+    color: "#999",
+    borderTopWidth: 1,
+    borderTopColor: "#ccc",
+    paddingTop: 10,
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+});
+
+const RESPONSE_COLORS: Record<AuditResponse, string> = {
+  CONFORMING: "#15803d",
+  MINOR_NONCONFORMITY: "#a16207",
+  MAJOR_NONCONFORMITY: "#b91c1c",
+  OBSERVATION: "#1d4ed8",
+  NOT_APPLICABLE: "#64748b",
+};
+
+const SEVERITY_COLORS: Record<FindingSeverity, string> = {
+  CRITICAL: "#7f1d1d",
+  MAJOR: "#b91c1c",
+  MINOR: "#a16207",
+  OBSERVATION: "#1d4ed8",
+};
+
+// --- Helpers ---
+
+function formatDate(date: Date | null): string {
+  return date ? date.toLocaleDateString("en-NZ") : "--";
+}
+
+// --- Component ---
+
+export function AuditReportPDF({
+  audit,
+  organization,
+  elements,
+  findingGroups,
+  capas,
+  followUp,
+  generatedAt,
+}: AuditReportData) {
+  const details = [
+    { label: "Organisation", value: organization.tradingName || organization.name },
+    { label: "NZBN", value: organization.nzbn || "--" },
+    { label: "Audit Type", value: AUDIT_TYPE_LABELS[audit.auditType] },
+    { label: "Audit Date", value: formatDate(audit.scheduledDate) },
+    { label: "Completed", value: formatDate(audit.completedAt) },
+    { label: "Auditor", value: audit.auditorName || "--" },
+    { label: "Rating", value: audit.rating ? AUDIT_RATING_LABELS[audit.rating] : "--" },
+    {
+      label: "Question Set",
+      value: audit.questionSetVersion === 0 ? "Built-in" : `v${audit.questionSetVersion}`,
+    },
+  ];
+
+  return (
+    <Document title={`Audit Report ${audit.auditNumber}`}>
+      <Page size="A4" style={styles.page}>
+        {/* Header */}
+        <View style={styles.header} fixed>
+          <View>
+            <Text style={styles.logo}>RANZ</Text>
+            <Text style={styles.logoSubtitle}>
+              Roofing Association of New Zealand
+            </Text>
+          </View>
+          <View style={styles.headerRight}>
+            <Text style={styles.title}>Audit Report</Text>
+            <Text style={styles.subtitle}>{audit.auditNumber}</Text>
+          </View>
+        </View>
+
+        {/* Details */}
+        <View style={styles.detailsGrid}>
+          {details.map((detail) => (
+            <View key={detail.label} style={styles.detailItem}>
+              <Text style={styles.label}>{detail.label}</Text>
+              <Text>{detail.value}</Text>
+            </View>
+          ))}
+        </View>
+
+        <View>
+          <Text style={styles.label}>Scope</Text>
+          <Text style={styles.paragraph}>
+            {audit.scope ? `${audit.scope}. ` : ""}
+            {audit.isoElements.map((element) => ISO_ELEMENT_LABELS[element]).join(", ")}
+          </Text>
+        </View>
+
+        <View style={styles.statsRow}>
+          {[
+            { label: "Conforming", value: audit.conformingCount },
+            { label: "Major", value: audit.majorNonconformities },
+            { label: "Minor", value: audit.minorNonconformities },
+            { label: "Observations", value: audit.observations },
+          ].map((stat) => (
+            <View key={stat.label} style={styles.statBox}>
+              <Text style={styles.statValue}>{stat.value}</Text>
+              <Text style={styles.statLabel}>{stat.label}</Text>
+            </View>
+          ))}
+        </View>
+
+        {/* Summary */}
+        {audit.summary && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Summary</Text>
+            <Text style={styles.paragraph}>{audit.summary}</Text>
+          </View>
+        )}
+
+        {/* Findings */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle} minPresenceAhead={40}>
+            Findings
+          </Text>
+          {findingGroups.length === 0 ? (
+            <Text style={styles.emptyText}>No nonconformities or observations were raised.</Text>
+          ) : (
+            findingGroups.map((group) => (
+              <View key={group.severity}>
+                <Text
+                  style={[styles.subsectionTitle, { color: SEVERITY_COLORS[group.severity] }]}
+                  minPresenceAhead={30}
+                >
+                  {FINDING_SEVERITY_LABELS[group.severity]} ({group.findings.length})
+                </Text>
+                {group.findings.map((finding) => (
+                  <View
+                    key={`${finding.element}-${finding.questionNumber}`}
+                    style={styles.finding}
+                    wrap={false}
+                  >
+                    <Text style={styles.findingRef}>
+                      {ISO_ELEMENT_LABELS[finding.element]} Q{finding.questionNumber}:{" "}
+                      {finding.questionText}
+                    </Text>
+                    <Text style={styles.paragraph}>{finding.finding || "No details recorded"}</Text>
+                  </View>
+                ))}
+              </View>
+            ))
+          )}
+        </View>
+
+        {/* Corrective actions */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle} minPresenceAhead={40}>
+            Corrective Action Plan
+          </Text>
+          {capas.length === 0 ? (
+            <Text style={styles.emptyText}>No corrective actions were raised.</Text>
+          ) : (
+            <>
+              <View style={styles.tableHeader} wrap={false}>
+                <Text style={[styles.cell, styles.headerText]}>CAPA</Text>
+                <Text style={[styles.cellWide, styles.headerText]}>Action</Text>
+                <Text style={[styles.cell, styles.headerText]}>Severity</Text>
+                <Text style={[styles.cell, styles.headerText]}>Due</Text>
+                <Text style={[styles.cell, styles.headerText]}>Status</Text>
+              </View>
+              {capas.map((capa) => (
+                <View key={capa.capaNumber} style={styles.tableRow} wrap={false}>
+                  <Text style={styles.cell}>{capa.capaNumber}</Text>
+                  <Text style={styles.cellWide}>{capa.title}</Text>
+                  <Text style={styles.cell}>{FINDING_SEVERITY_LABELS[capa.severity]}</Text>
+                  <Text style={styles.cell}>{formatDate(capa.dueDate)}</Text>
+                  <Text style={styles.cell}>{CAPA_STATUS_LABELS[capa.status]}</Text>
+                </View>
+              ))}
+            </>
+          )}
+        </View>
+
+        {/* Follow-up */}
+        <View style={styles.section} wrap={false}>
+          <Text style={styles.sectionTitle}>Follow-up</Text>
+          <Text style={styles.paragraph}>
+            {followUp
+              ? `A follow-up audit (${followUp.auditNumber}) is scheduled for ${formatDate(followUp.scheduledDate)}. Corrective actions should be closed before this date.`
+              : "No follow-up audit is required."}
+          </Text>
+        </View>
+
+        {/* Responses */}
+        {elements.map(({ element, questions }) => (
+          <View key={element} style={styles.section}>
+            <Text style={styles.sectionTitle} minPresenceAhead={40}>
+              {ISO_ELEMENT_LABELS[element]}
+            </Text>
+            {questions.length === 0 ? (
+              <Text style={styles.emptyText}>No questions recorded</Text>
+            ) : (
+              questions.map((question) => (
+                <View key={question.questionNumber} style={styles.question} wrap={false}>
+                  <View style={styles.questionRow}>
+                    <Text style={styles.questionText}>
+                      {question.questionNumber}. {question.questionText}
+                    </Text>
+                    <Text
+                      style={[
+                        styles.response,
+                        question.response ? { color: RESPONSE_COLORS[question.response] } : {},
+                      ]}
+                    >
+                      {question.response ? AUDIT_RESPONSE_LABELS[question.response] : "Not answered"}
+                    </Text>
+                  </View>
+                  {question.finding && (
+                    <Text style={styles.questionFinding}>{question.finding}</Text>
+                  )}
+                  {question.thumbnails.length > 0 && (
+                    <View style={styles.thumbnails}>
+                      {question.thumbnails.map((src, index) => (
+                        // eslint-disable-next-line jsx-a11y/alt-text -- react-pdf Image has no alt
+                        <Image key={index} src={src} style={styles.thumbnail} />
+                      ))}
+                    </View>
+                  )}
+                  {question.attachments.length > 0 && (
+                    <Text style={styles.attachments}>
+                      Evidence on file: {question.attachments.join(", ")}
+                    </Text>
+                  )}
+                </View>
+              ))
+            )}
+          </View>
+        ))}
+
+        {/* Footer */}
+        <View style={styles.footer} fixed>
+          <Text>
+            Generated: {generatedAt.toLocaleDateString("en-NZ")}{" "}
+            {generatedAt.toLocaleTimeString("en-NZ")}
+          </Text>
+          <Text>{organization.name}</Text>
+          <Text
+            render={({ pageNumber, totalPages }) =>
+              `Page ${pageNumber} of ${totalPages}`
+            }
+          />
+        </View>
+      </Page>
+    </Document>
+  );
+}
@@ -7,6 +7,8 @@ import {
   StyleSheet,
 } from "@react-pdf/renderer";
 import type { ComplianceResult } from "@/lib/compliance-v2";
+import type { CoverageIssue, CoverageTimeline } from "@/lib/insurance-coverage";
+import { INSURANCE_POLICY_TYPE_LABELS } from "@/types";
 
 // Styles for PDF components
 const styles = StyleSheet.create({
@@ -159,6 +161,19 @@ const styles = StyleSheet.create({
     justifyContent: "space-between",
     marginBottom: 5,
   },
+  coverageRow: {
+    flexDirection: "row",
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+    fontSize: 10,
+  },
+  coverageType: {
+    width: "40%",
+  },
+  coverageCell: {
+    width: "20%",
+  },
   badge: {
     backgroundColor: "#dbeafe",
     color: "#1e40af",
@@ -178,6 +193,7 @@ export interface ComplianceReportPDFProps {
     certificationTier: string;
   };
   complianceResult: ComplianceResult;
+  coverageTimeline?: CoverageTimeline;
   generatedAt: Date;
   reportId: string;
 }
@@ -214,9 +230,49 @@ function getSeverityIcon(severity: string): string {
   }
 }
 
+function formatDay(day: string): string {
+  return new Date(day).toLocaleDateString("en-NZ", { timeZone: "UTC" });
+}
+
+function formatAmount(amount: number): string {
+  return `$${amount.toLocaleString("en-NZ")}`;
+}
+
+function describeCoverageIssue(issue: CoverageIssue): string {
+  const policyType = INSURANCE_POLICY_TYPE_LABELS[issue.policyType];
+  switch (issue.kind) {
+    case "GAP":
+      return `No ${policyType} cover`;
+    case "OVERLAP":
+      return `${issue.policyIds.length} ${policyType} policies overlapping`;
+    case "UNDERINSURED":
+      return `${policyType} cover of ${formatAmount(issue.actualCoverage ?? 0)} below the ${formatAmount(issue.requiredCoverage ?? 0)} required for ${formatTier(issue.tier ?? "")}`;
+  }
+}
+
+function ReportFooter({ generatedAt, reportId }: { generatedAt: Date; reportId: string }) {
+  return (
+    <View style={styles.footer}>
+      <View style={styles.footerRow}>
+        <Text>Roofing Association of New Zealand</Text>
+        <Text>Report ID: {reportId}</Text>
+      </View>
+      <View style={styles.footerRow}>
+        <Text>Generated: {generatedAt.toISOString()}</Text>
+        <Text>Valid for 30 days from generation date</Text>
+      </View>
+      <Text style={{ marginTop: 5, fontSize: 7 }}>
+        This report is generated from real-time compliance data. For the most current
+        information, visit the RANZ Certified Business Portal.
+      </Text>
+    </View>
+  );
+}
+
 export function ComplianceReportPDF({
   organization,
   complianceResult,
+  coverageTimeline,
   generatedAt,
   reportId,
 }: ComplianceReportPDFProps) {
@@ -367,21 +423,73 @@ export function ComplianceReportPDF({
         )}
 
         {/* Footer */}
-        <View style={styles.footer}>
-          <View style={styles.footerRow}>
-            <Text>Roofing Association of New Zealand</Text>
-            <Text>Report ID: {reportId}</Text>
-          </View>
-          <View style={styles.footerRow}>
-            <Text>Generated: {generatedAt.toISOString()}</Text>
-            <Text>Valid for 30 days from generation date</Text>
-          </View>
-          <Text style={{ marginTop: 5, fontSize: 7 }}>
-            This report is generated from real-time compliance data. For the most current
-            information, visit the RANZ Certified Business Portal.
-          </Text>
-        </View>
+        <ReportFooter generatedAt={generatedAt} reportId={reportId} />
       </Page>
+
+      {coverageTimeline && (
+        <Page size="A4" style={styles.page}>
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Insurance Coverage History</Text>
+            <Text style={{ fontSize: 10, color: "#666", marginBottom: 8 }}>
+              {formatDay(coverageTimeline.from)} to {formatDay(coverageTimeline.to)} (
+              {coverageTimeline.periodDays} days):{" "}
+              {coverageTimeline.continuousCover
+                ? "required cover held continuously at the required amount"
+                : "required cover was interrupted or below the required amount"}
+            </Text>
+
+            <View style={[styles.coverageRow, { fontWeight: "bold" }]}>
+              <Text style={styles.coverageType}>Policy Type</Text>
+              <Text style={styles.coverageCell}>Policies</Text>
+              <Text style={styles.coverageCell}>Days Covered</Text>
+              <Text style={styles.coverageCell}>Status</Text>
+            </View>
+            {coverageTimeline.types
+              .filter((type) => type.required || type.policies.length > 0)
+              .map((type) => (
+                <View key={type.policyType} style={styles.coverageRow}>
+                  <Text style={styles.coverageType}>
+                    {INSURANCE_POLICY_TYPE_LABELS[type.policyType]}
+                    {type.required ? "" : " (optional)"}
+                  </Text>
+                  <Text style={styles.coverageCell}>{type.policies.length}</Text>
+                  <Text style={styles.coverageCell}>
+                    {type.coveredDays} / {coverageTimeline.periodDays}
+                  </Text>
+                  <Text
+                    style={[
+                      styles.coverageCell,
+                      { color: type.continuous ? "#22c55e" : "#ef4444" },
+                    ]}
+                  >
+                    {type.continuous ? "Continuous" : "Interrupted"}
+                  </Text>
+                </View>
+              ))}
+          </View>
+
+          {coverageTimeline.issues.length > 0 && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Coverage Gaps and Overlaps</Text>
+              {coverageTimeline.issues.slice(0, 20).map((issue, index) => (
+                <View key={index} style={styles.issueRow}>
+                  <Text style={styles.issueMessage}>{describeCoverageIssue(issue)}</Text>
+                  <Text style={styles.issueAction}>
+                    {formatDay(issue.from)} to {formatDay(issue.to)} ({issue.days} days)
+                  </Text>
+                </View>
+              ))}
+              {coverageTimeline.issues.length > 20 && (
+                <Text style={{ marginTop: 8, fontSize: 9, color: "#666" }}>
+                  ... and {coverageTimeline.issues.length - 20} more
+                </Text>
+              )}
+            </View>
+          )}
+
+          <ReportFooter generatedAt={generatedAt} reportId={reportId} />
+        </Page>
+      )}
     </Document>
   );
 }
@@ -0,0 +1,241 @@
+import React from "react";
+import {
+  Document,
+  Page,
+  Text,
+  View,
+  StyleSheet,
+} from "@react-pdf/renderer";
+import type { ReportTable } from "@/lib/report-generation";
+
+// --- Types ---
+
+export interface GeneratedReportPDFProps {
+  title: string;
+  parameters: Array<{ label: string; value: string }>;
+  tables: ReportTable[];
+  generatedAt: Date;
+  reportId: string;
+}
+
+// --- Styles ---
+
+const styles = StyleSheet.create({
+  page: {
+    padding: 40,
+    paddingBottom: 70,
+    fontSize: 10,
+    fontFamily: "Helvetica",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    borderBottomWidth: 2,
+    borderBottomColor: "#000",
+    paddingBottom: 10,
+    marginBottom: 20,
+  },
+  logo: {
+    fontSize: 20,
+    fontWeight: "bold",
+  },
+  logoSubtitle: {
+    fontSize: 8,
+    color: "#666",
+  },
+  headerRight: {
+    textAlign: "right",
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "bold",
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 9,
+    color: "#666",
+  },
+  parameters: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 10,
+    marginBottom: 10,
+  },
+  parameterItem: {
+    marginRight: 16,
+  },
+  cellLabel: {
+    fontWeight: "bold",
+    marginBottom: 2,
+    fontSize: 9,
+    color: "#555",
+  },
+  section: {
+    marginTop: 16,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: "bold",
+    marginBottom: 6,
+    color: "#000",
+    borderBottomWidth: 1,
+    borderBottomColor: "#333",
+    paddingBottom: 4,
+  },
+  tableHeader: {
+    flexDirection: "row",
+    backgroundColor: "#f1f5f9",
+    borderBottomWidth: 1,
+    borderBottomColor: "#cbd5e1",
+    paddingVertical: 5,
+    paddingHorizontal: 4,
+  },
+  tableRow: {
+    flexDirection: "row",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+    paddingVertical: 4,
+    paddingHorizontal: 4,
+  },
+  tableRowAlt: {
+    flexDirection: "row",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+    paddingVertical: 4,
+    paddingHorizontal: 4,
+    backgroundColor: "#fafafa",
+  },
+  cell: {
+    flex: 1,
+    fontSize: 8,
+    paddingRight: 4,
+  },
+  headerText: {
+    fontWeight: "bold",
+    fontSize: 8,
+    color: "#475569",
+  },
+  emptyText: {
+    fontSize: 9,
+    color: "#666",
+    fontStyle: "italic",
+  },
+  footer: {
+    position: "absolute",
+    bottom: 30,
+    left: 40,
+    right: 40,
+    fontSize: 8,
+    color: "#999",
+    borderTopWidth: 1,
+    borderTopColor: "#ccc",
+    paddingTop: 10,
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+});
+
+// --- Helpers ---
+
+function formatCell(value: string | number | null): string {
+  if (value === null || value === "") return "--";
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? String(value) : value.toFixed(1);
+  }
+  return value;
+}
+
+// --- Component ---
+
+export function GeneratedReportPDF({
+  title,
+  parameters,
+  tables,
+  generatedAt,
+  reportId,
+}: GeneratedReportPDFProps) {
+  // Wide tables (e.g. the member directory) need landscape to stay legible
+  const maxColumns = Math.max(0, ...tables.map((t) => t.columns.length));
+  const orientation = maxColumns > 6 ? "landscape" : "portrait";
+
+  return (
+    <Document title={title}>
+      <Page size="A4" orientation={orientation} style={styles.page}>
+        {/* Header */}
+        <View style={styles.header} fixed>
+          <View>
+            <Text style={styles.logo}>RANZ</Text>
+            <Text style={styles.logoSubtitle}>
+              Roofing Association of New Zealand
+            </Text>
+          </View>
+          <View style={styles.headerRight}>
+            <Text style={styles.title}>{title}</Text>
+            <Text style={styles.subtitle}>
+              Generated: {generatedAt.toLocaleDateString("en-NZ")}{" "}
+              {generatedAt.toLocaleTimeString("en-NZ")}
+            </Text>
+          </View>
+        </View>
+
+        {/* Parameters */}
+        {parameters.length > 0 && (
+          <View style={styles.parameters}>
+            {parameters.map((param) => (
+              <View key={param.label} style={styles.parameterItem}>
+                <Text style={styles.cellLabel}>{param.label}</Text>
+                <Text>{param.value}</Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {/* Tables */}
+        {tables.map((table) => (
+          <View key={table.title} style={styles.section}>
+            <Text style={styles.sectionTitle} minPresenceAhead={40}>
+              {table.title}
+            </Text>
+            {table.rows.length === 0 ? (
+              <Text style={styles.emptyText}>No records</Text>
+            ) : (
+              <>
+                <View style={styles.tableHeader} wrap={false}>
+                  {table.columns.map((column) => (
+                    <Text key={column} style={[styles.cell, styles.headerText]}>
+                      {column}
+                    </Text>
+                  ))}
+                </View>
+                {table.rows.map((row, rowIndex) => (
+                  <View
+                    key={rowIndex}
+                    style={rowIndex % 2 === 0 ? styles.tableRow : styles.tableRowAlt}
+                    wrap={false}
+                  >
+                    {row.map((value, cellIndex) => (
+                      <Text key={cellIndex} style={styles.cell}>
+                        {formatCell(value)}
+                      </Text>
+                    ))}
+                  </View>
+                ))}
+              </>
+            )}
+          </View>
+        ))}
+
+        {/* Footer */}
+        <View style={styles.footer} fixed>
+          <Text>Roofing Association of New Zealand</Text>
+          <Text>Report ID: {reportId}</Text>
+          <Text
+            render={({ pageNumber, totalPages }) =>
+              `Page ${pageNumber} of ${totalPages}`
+            }
+          />
+        </View>
+      </Page>
+    </Document>
+  );
+}
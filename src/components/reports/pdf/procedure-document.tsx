@@ -4,6 +4,7 @@ import {
   Page,
   Text,
   View,
+  Image,
   StyleSheet,
 } from "@react-pdf/renderer";
 
@@ -35,6 +36,14 @@ export interface ProcedureDocumentProps {
       completedAt?: Date | null;
       completedBy?: string | null;
       hasPhoto: boolean;
+      signature?: {
+        signerName: string;
+        signedAt: Date;
+        imageDataUri: string | null;
+        ipAddress?: string | null;
+        userAgent?: string | null;
+        hash?: string | null;
+      } | null;
     }>;
   }>;
   project: {
@@ -187,6 +196,28 @@ const styles = StyleSheet.create({
     fontSize: 8,
     color: "#475569",
   },
+  // Signatures
+  signatureBlock: {
+    flexDirection: "row",
+    marginTop: 12,
+    padding: 10,
+    borderWidth: 1,
+    borderColor: "#e2e8f0",
+    borderRadius: 4,
+  },
+  signatureImage: {
+    width: 160,
+    height: 60,
+    objectFit: "contain",
+    borderBottomWidth: 1,
+    borderBottomColor: "#333",
+    marginRight: 15,
+  },
+  signatureDetails: {
+    flex: 1,
+    fontSize: 8,
+    color: "#475569",
+  },
   // ISO statement
   isoSection: {
     marginTop: 30,
@@ -259,6 +290,7 @@ function getNotesText(item: {
   textValue?: string | null;
   notes?: string | null;
   hasPhoto: boolean;
+  signature?: { signerName: string } | null;
 }): string {
   const parts: string[] = [];
   if (item.itemType === "TEXT_INPUT" && item.textValue) {
@@ -267,6 +299,9 @@ function getNotesText(item: {
   if (item.itemType === "PHOTO_REQUIRED") {
     parts.push(item.hasPhoto ? "Photo attached" : "No photo");
   }
+  if (item.itemType === "SIGNATURE") {
+    parts.push(item.signature ? `Signed by ${item.signature.signerName}` : "Not signed");
+  }
   if (item.notes) {
     parts.push(item.notes);
   }
@@ -482,6 +517,40 @@ export function ProcedureDocumentPDF({
             </View>
           ))}
 
+          {/* Signatures */}
+          {section.items.map((item, itemIndex) =>
+            item.signature ? (
+              <View key={`sig-${itemIndex}`} style={styles.signatureBlock} wrap={false}>
+                {item.signature.imageDataUri ? (
+                  // eslint-disable-next-line jsx-a11y/alt-text -- react-pdf Image has no alt
+                  <Image src={item.signature.imageDataUri} style={styles.signatureImage} />
+                ) : (
+                  <View style={styles.signatureImage} />
+                )}
+                <View style={styles.signatureDetails}>
+                  <Text style={styles.cellLabel}>
+                    {itemIndex + 1}. {item.title}
+                  </Text>
+                  <Text>Signed by: {item.signature.signerName}</Text>
+                  <Text>
+                    Signed at: {new Date(item.signature.signedAt).toLocaleString("en-NZ")}
+                  </Text>
+                  {item.signature.ipAddress && (
+                    <Text>IP address: {item.signature.ipAddress}</Text>
+                  )}
+                  {item.signature.userAgent && (
+                    <Text>Device: {item.signature.userAgent}</Text>
+                  )}
+                  {item.signature.hash && (
+                    <Text style={{ fontSize: 6, color: "#94a3b8", marginTop: 2 }}>
+                      SHA-256: {item.signature.hash}
+                    </Text>
+                  )}
+                </View>
+              </View>
+            ) : null
+          )}
+
           {/* Footer */}
           <View style={styles.footer}>
             <View style={styles.footerRow}>
@@ -0,0 +1,261 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { Trash2 } from "lucide-react";
+
+interface MemberOption {
+  clerkUserId: string;
+  name: string;
+}
+
+interface ApprovalDelegation {
+  id: string;
+  delegatorId: string;
+  delegatorName: string;
+  delegateName: string;
+  startsAt: string;
+  endsAt: string;
+  reason: string | null;
+}
+
+interface ApprovalDelegationSettingsProps {
+  members: MemberOption[];
+  currentUserId: string;
+  isAdmin: boolean;
+}
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500";
+
+export function ApprovalDelegationSettings({
+  members,
+  currentUserId,
+  isAdmin,
+}: ApprovalDelegationSettingsProps) {
+  const [delegations, setDelegations] = useState<ApprovalDelegation[]>([]);
+  const [delegatorId, setDelegatorId] = useState(currentUserId);
+  const [delegateId, setDelegateId] = useState("");
+  const [startsAt, setStartsAt] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [endsAt, setEndsAt] = useState("");
+  const [reason, setReason] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  const fetchDelegations = async () => {
+    try {
+      const response = await fetch("/api/documents/approval-delegations");
+      if (response.ok) {
+        setDelegations(await response.json());
+      }
+    } catch (error) {
+      console.error("Failed to fetch approval delegations:", error);
+    }
+  };
+
+  useEffect(() => {
+    fetchDelegations();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setMessage(null);
+
+    try {
+      // Dates are whole days: cover from the start of the first day to the
+      // end of the last one in the user's timezone
+      const response = await fetch("/api/documents/approval-delegations", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          delegatorId,
+          delegateId,
+          startsAt: new Date(`${startsAt}T00:00:00`).toISOString(),
+          endsAt: new Date(`${endsAt}T23:59:59`).toISOString(),
+          reason: reason || undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to create delegation");
+      }
+
+      setMessage({ type: "success", text: "Delegation saved" });
+      setDelegateId("");
+      setEndsAt("");
+      setReason("");
+      await fetchDelegations();
+    } catch (error) {
+      setMessage({
+        type: "error",
+        text: error instanceof Error ? error.message : "Failed to create delegation",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRemove = async (delegation: ApprovalDelegation) => {
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/documents/approval-delegations/${delegation.id}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to remove delegation");
+      }
+      await fetchDelegations();
+    } catch (error) {
+      setMessage({
+        type: "error",
+        text: error instanceof Error ? error.message : "Failed to remove delegation",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-gray-500">
+        While you are away, document approvals assigned to you are sent to your
+        delegate instead.
+      </p>
+
+      {delegations.length > 0 && (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+          {delegations.map((delegation) => (
+            <li key={delegation.id} className="flex items-center justify-between gap-4 p-3 text-sm">
+              <div>
+                <div className="text-gray-900">
+                  {delegation.delegatorName} → {delegation.delegateName}
+                </div>
+                <div className="text-gray-500">
+                  {format(new Date(delegation.startsAt), "d MMM yyyy")} –{" "}
+                  {format(new Date(delegation.endsAt), "d MMM yyyy")}
+                  {delegation.reason && ` · ${delegation.reason}`}
+                </div>
+              </div>
+              {(isAdmin || delegation.delegatorId === currentUserId) && (
+                <button
+                  type="button"
+                  onClick={() => handleRemove(delegation)}
+                  className="p-1 text-gray-500 hover:text-red-600"
+                  title="Remove delegation"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {isAdmin && (
+            <div>
+              <label htmlFor="delegator" className="block text-sm font-medium text-gray-700 mb-1">
+                Approvals Of
+              </label>
+              <select
+                id="delegator"
+                value={delegatorId}
+                onChange={(e) => setDelegatorId(e.target.value)}
+                className={inputClass}
+              >
+                {members.map((member) => (
+                  <option key={member.clerkUserId} value={member.clerkUserId}>
+                    {member.clerkUserId === currentUserId ? `${member.name} (you)` : member.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div>
+            <label htmlFor="delegate" className="block text-sm font-medium text-gray-700 mb-1">
+              Delegate To *
+            </label>
+            <select
+              id="delegate"
+              value={delegateId}
+              onChange={(e) => setDelegateId(e.target.value)}
+              required
+              className={inputClass}
+            >
+              <option value="">Select a colleague</option>
+              {members
+                .filter((member) => member.clerkUserId !== delegatorId)
+                .map((member) => (
+                  <option key={member.clerkUserId} value={member.clerkUserId}>
+                    {member.name}
+                  </option>
+                ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="startsAt" className="block text-sm font-medium text-gray-700 mb-1">
+              From *
+            </label>
+            <input
+              id="startsAt"
+              type="date"
+              value={startsAt}
+              onChange={(e) => setStartsAt(e.target.value)}
+              required
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="endsAt" className="block text-sm font-medium text-gray-700 mb-1">
+              Until *
+            </label>
+            <input
+              id="endsAt"
+              type="date"
+              value={endsAt}
+              min={startsAt}
+              onChange={(e) => setEndsAt(e.target.value)}
+              required
+              className={inputClass}
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label htmlFor="delegationReason" className="block text-sm font-medium text-gray-700 mb-1">
+              Reason
+            </label>
+            <input
+              id="delegationReason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={500}
+              className={inputClass}
+              placeholder="e.g. Annual leave"
+            />
+          </div>
+        </div>
+
+        {message && (
+          <div
+            className={`p-3 rounded-lg text-sm ${
+              message.type === "success"
+                ? "bg-green-50 border border-green-200 text-green-700"
+                : "bg-red-50 border border-red-200 text-red-700"
+            }`}
+          >
+            {message.text}
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full md:w-auto px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSubmitting ? "Saving..." : "Delegate Approvals"}
+        </button>
+      </form>
+    </div>
+  );
+}
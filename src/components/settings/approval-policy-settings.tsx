@@ -0,0 +1,492 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { ArrowDown, ArrowUp, ChevronRight, Pencil, Plus, Trash2, X } from "lucide-react";
+import {
+  DOCUMENT_TYPE_LABELS,
+  ISO_ELEMENT_LABELS,
+  type DocumentType,
+  type ISOElement,
+} from "@/types";
+
+interface ApproverOption {
+  clerkUserId: string;
+  name: string;
+}
+
+interface PolicyStep {
+  name: string;
+  approverId: string;
+  approverName?: string;
+  dueDays: number;
+}
+
+interface ApprovalPolicy {
+  id: string;
+  name: string;
+  documentType: DocumentType | null;
+  isoElement: ISOElement | null;
+  reviewCycleMonths: number;
+  enabled: boolean;
+  steps: PolicyStep[];
+}
+
+type PolicyForm = Omit<ApprovalPolicy, "id">;
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500";
+
+const emptyForm: PolicyForm = {
+  name: "",
+  documentType: null,
+  isoElement: null,
+  reviewCycleMonths: 12,
+  enabled: true,
+  steps: [],
+};
+
+function describeScope(policy: Pick<ApprovalPolicy, "documentType" | "isoElement">) {
+  const type = policy.documentType
+    ? DOCUMENT_TYPE_LABELS[policy.documentType]
+    : "All document types";
+  return policy.isoElement ? `${type} · ${ISO_ELEMENT_LABELS[policy.isoElement]}` : type;
+}
+
+function describeCycle(months: number) {
+  if (months % 12 === 0) {
+    const years = months / 12;
+    return years === 1 ? "Reviewed yearly" : `Reviewed every ${years} years`;
+  }
+  return `Reviewed every ${months} months`;
+}
+
+export function ApprovalPolicySettings({ members }: { members: ApproverOption[] }) {
+  const [policies, setPolicies] = useState<ApprovalPolicy[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | "new" | null>(null);
+  const [form, setForm] = useState<PolicyForm>(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  const fetchPolicies = async () => {
+    try {
+      const response = await fetch("/api/documents/approval-policies");
+      if (!response.ok) throw new Error("Failed to fetch approval policies");
+      setPolicies(await response.json());
+    } catch (error) {
+      console.error("Failed to fetch approval policies:", error);
+      setMessage({ type: "error", text: "Failed to load approval policies" });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchPolicies();
+  }, []);
+
+  const startEdit = (policy?: ApprovalPolicy) => {
+    setMessage(null);
+    if (policy) {
+      const { id, ...rest } = policy;
+      setEditingId(id);
+      setForm(rest);
+    } else {
+      setEditingId("new");
+      setForm({
+        ...emptyForm,
+        steps: [{ name: "Reviewer", approverId: members[0]?.clerkUserId ?? "", dueDays: 5 }],
+      });
+    }
+  };
+
+  const updateStep = (index: number, changes: Partial<PolicyStep>) => {
+    setForm((prev) => ({
+      ...prev,
+      steps: prev.steps.map((step, i) => (i === index ? { ...step, ...changes } : step)),
+    }));
+  };
+
+  const moveStep = (index: number, offset: -1 | 1) => {
+    setForm((prev) => {
+      const steps = [...prev.steps];
+      [steps[index], steps[index + offset]] = [steps[index + offset], steps[index]];
+      return { ...prev, steps };
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setMessage(null);
+
+    try {
+      const response = await fetch(
+        editingId === "new"
+          ? "/api/documents/approval-policies"
+          : `/api/documents/approval-policies/${editingId}`,
+        {
+          method: editingId === "new" ? "POST" : "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            ...form,
+            steps: form.steps.map(({ name, approverId, dueDays }) => ({
+              name,
+              approverId,
+              dueDays,
+            })),
+          }),
+        }
+      );
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to save approval policy");
+      }
+
+      setMessage({ type: "success", text: `Saved "${form.name}"` });
+      setEditingId(null);
+      await fetchPolicies();
+    } catch (error) {
+      setMessage({
+        type: "error",
+        text: error instanceof Error ? error.message : "Failed to save approval policy",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (policy: ApprovalPolicy) => {
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/documents/approval-policies/${policy.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ enabled: !policy.enabled }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to update approval policy");
+      }
+      await fetchPolicies();
+    } catch (error) {
+      setMessage({
+        type: "error",
+        text: error instanceof Error ? error.message : "Failed to update approval policy",
+      });
+    }
+  };
+
+  const handleDelete = async (policy: ApprovalPolicy) => {
+    if (!window.confirm(`Delete the "${policy.name}" approval policy? Documents already in review keep their current approvers.`)) {
+      return;
+    }
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/documents/approval-policies/${policy.id}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) throw new Error("Failed to delete approval policy");
+      await fetchPolicies();
+    } catch (error) {
+      setMessage({
+        type: "error",
+        text: error instanceof Error ? error.message : "Failed to delete approval policy",
+      });
+    }
+  };
+
+  if (isLoading) {
+    return <div className="animate-pulse h-24 bg-gray-100 rounded-lg" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-500">
+        Route documents through reviewers in order before they are approved, and
+        set how often they must be reviewed. The most specific policy applies;
+        documents with no policy can be approved by any member and are reviewed
+        yearly.
+      </p>
+
+      {message && (
+        <div
+          className={`p-3 rounded-lg text-sm ${
+            message.type === "success"
+              ? "bg-green-50 border border-green-200 text-green-700"
+              : "bg-red-50 border border-red-200 text-red-700"
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      {policies.length === 0 && editingId === null && (
+        <p className="text-sm text-gray-500 italic">No approval policies yet.</p>
+      )}
+
+      <div className="space-y-3">
+        {policies.map((policy) =>
+          editingId === policy.id ? null : (
+            <div
+              key={policy.id}
+              className={`border border-gray-200 rounded-lg p-4 ${policy.enabled ? "" : "opacity-60"}`}
+            >
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <div className="font-medium text-gray-900">
+                    {policy.name}
+                    {!policy.enabled && (
+                      <span className="ml-2 text-xs font-normal text-gray-500">(disabled)</span>
+                    )}
+                  </div>
+                  <div className="text-sm text-gray-500">
+                    {describeScope(policy)} · {describeCycle(policy.reviewCycleMonths)}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <button
+                    type="button"
+                    onClick={() => handleToggle(policy)}
+                    className="text-sm text-blue-600 hover:underline"
+                  >
+                    {policy.enabled ? "Disable" : "Enable"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => startEdit(policy)}
+                    className="p-1 text-gray-500 hover:text-gray-700"
+                    title="Edit"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(policy)}
+                    className="p-1 text-gray-500 hover:text-red-600"
+                    title="Delete"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+              <div className="mt-2 flex flex-wrap items-center gap-1 text-sm text-gray-700">
+                {policy.steps.length === 0 ? (
+                  <span className="text-gray-500">Any member can approve</span>
+                ) : (
+                  policy.steps.map((step, i) => (
+                    <span key={i} className="flex items-center gap-1">
+                      {i > 0 && <ChevronRight className="h-3 w-3 text-gray-400" />}
+                      <span className="rounded bg-gray-100 px-2 py-0.5">
+                        {step.name}: {step.approverName} ({step.dueDays}d)
+                      </span>
+                    </span>
+                  ))
+                )}
+              </div>
+            </div>
+          )
+        )}
+      </div>
+
+      {editingId !== null ? (
+        <form onSubmit={handleSave} className="border border-blue-200 rounded-lg p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="md:col-span-2">
+              <label htmlFor="policyName" className="block text-sm font-medium text-gray-700 mb-1">
+                Policy Name *
+              </label>
+              <input
+                id="policyName"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                required
+                className={inputClass}
+                placeholder="e.g. Procedures"
+              />
+            </div>
+            <div>
+              <label htmlFor="documentType" className="block text-sm font-medium text-gray-700 mb-1">
+                Document Type
+              </label>
+              <select
+                id="documentType"
+                value={form.documentType ?? ""}
+                onChange={(e) =>
+                  setForm({ ...form, documentType: (e.target.value || null) as DocumentType | null })
+                }
+                className={inputClass}
+              >
+                <option value="">Any type</option>
+                {Object.entries(DOCUMENT_TYPE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="isoElement" className="block text-sm font-medium text-gray-700 mb-1">
+                ISO Element
+              </label>
+              <select
+                id="isoElement"
+                value={form.isoElement ?? ""}
+                onChange={(e) =>
+                  setForm({ ...form, isoElement: (e.target.value || null) as ISOElement | null })
+                }
+                className={inputClass}
+              >
+                <option value="">Any element</option>
+                {Object.entries(ISO_ELEMENT_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="reviewCycle" className="block text-sm font-medium text-gray-700 mb-1">
+                Review Cycle (months) *
+              </label>
+              <input
+                id="reviewCycle"
+                type="number"
+                min={1}
+                max={60}
+                value={form.reviewCycleMonths}
+                onChange={(e) => setForm({ ...form, reviewCycleMonths: Number(e.target.value) })}
+                required
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className="text-sm font-medium text-gray-700 mb-2">Approval Steps (in order)</div>
+            <div className="space-y-2">
+              {form.steps.map((step, index) => (
+                <div key={index} className="flex flex-wrap items-center gap-2">
+                  <span className="w-6 text-sm text-gray-500">{index + 1}.</span>
+                  <input
+                    value={step.name}
+                    onChange={(e) => updateStep(index, { name: e.target.value })}
+                    required
+                    aria-label="Step name"
+                    placeholder="Step name"
+                    className={`${inputClass} flex-1 min-w-[140px]`}
+                  />
+                  <select
+                    value={step.approverId}
+                    onChange={(e) => updateStep(index, { approverId: e.target.value })}
+                    required
+                    aria-label="Approver"
+                    className={`${inputClass} flex-1 min-w-[160px]`}
+                  >
+                    <option value="" disabled>
+                      Select approver
+                    </option>
+                    {members.map((member) => (
+                      <option key={member.clerkUserId} value={member.clerkUserId}>
+                        {member.name}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    min={1}
+                    max={90}
+                    value={step.dueDays}
+                    onChange={(e) => updateStep(index, { dueDays: Number(e.target.value) })}
+                    aria-label="Days to decide"
+                    title="Days to decide"
+                    className={`${inputClass} w-20`}
+                  />
+                  <span className="text-sm text-gray-500">days</span>
+                  <button
+                    type="button"
+                    onClick={() => moveStep(index, -1)}
+                    disabled={index === 0}
+                    className="p-1 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                    title="Move up"
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => moveStep(index, 1)}
+                    disabled={index === form.steps.length - 1}
+                    className="p-1 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                    title="Move down"
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setForm({ ...form, steps: form.steps.filter((_, i) => i !== index) })
+                    }
+                    className="p-1 text-gray-500 hover:text-red-600"
+                    title="Remove step"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() =>
+                setForm({
+                  ...form,
+                  steps: [
+                    ...form.steps,
+                    { name: "", approverId: members[0]?.clerkUserId ?? "", dueDays: 5 },
+                  ],
+                })
+              }
+              disabled={form.steps.length >= 10}
+              className="mt-2 inline-flex items-center gap-1 text-sm text-blue-600 hover:underline disabled:opacity-50"
+            >
+              <Plus className="h-4 w-4" />
+              Add step
+            </button>
+            {form.steps.length === 0 && (
+              <p className="mt-1 text-xs text-gray-500">
+                Without steps, any member can approve; the review cycle still applies.
+              </p>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setEditingId(null)}
+              disabled={isSaving}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving ? "Saving..." : "Save Policy"}
+            </button>
+          </div>
+        </form>
+      ) : (
+        <button
+          type="button"
+          onClick={() => startEdit()}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+        >
+          <Plus className="h-4 w-4" />
+          Add Approval Policy
+        </button>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useState } from "react";
 import { LogoUpload } from "./logo-upload";
+import { NZ_REGIONS } from "@/types";
 
 interface OrganizationData {
   id: string;
@@ -11,6 +12,7 @@ interface OrganizationData {
   phone: string | null;
   address: string | null;
   city: string | null;
+  region: string | null;
   description: string | null;
   logoKey: string | null;
 }
@@ -31,6 +33,7 @@ export function OrganizationProfileForm({
     phone: organization.phone || "",
     address: organization.address || "",
     city: organization.city || "",
+    region: organization.region || "",
     description: organization.description || "",
   });
   const [logoUrl, setLogoUrl] = useState(initialLogoUrl);
@@ -38,7 +41,7 @@ export function OrganizationProfileForm({
   const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
 
   const handleChange = (
-    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
   ) => {
     const { name, value } = e.target;
     setFormData((prev) => ({ ...prev, [name]: value }));
@@ -60,6 +63,7 @@ export function OrganizationProfileForm({
           phone: formData.phone || null,
           address: formData.address || null,
           city: formData.city || null,
+          region: formData.region || null,
           description: formData.description || null,
         }),
       });
@@ -180,6 +184,27 @@ export function OrganizationProfileForm({
             className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
           />
         </div>
+
+        <div>
+          <label htmlFor="region" className="block text-sm font-medium text-gray-700 mb-1">
+            Region
+          </label>
+          <select
+            id="region"
+            name="region"
+            value={formData.region}
+            onChange={handleChange}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="">Not set</option>
+            {NZ_REGIONS.map((region) => (
+              <option key={region} value={region}>
+                {region}
+              </option>
+            ))}
+          </select>
+          <p className="text-sm text-gray-500 mt-1">Used to match you with a local auditor</p>
+        </div>
       </div>
 
       <div>
@@ -3,18 +3,10 @@
 import { useState, useEffect } from "react";
 import { Loader2, TrendingUp } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { formatDate } from "@/lib/utils";
+import { CPD_CATEGORY_LABELS, type CPDCategory } from "@/types";
 
-const CPD_TARGET = 20;
-
-const CPD_CATEGORY_LABELS: Record<string, string> = {
-  TECHNICAL: "Technical",
-  PEER_REVIEW: "Peer Review",
-  INDUSTRY_EVENT: "Industry Event",
-  SELF_STUDY: "Self Study",
-  OTHER: "Other",
-};
-
-const CPD_CATEGORY_COLORS: Record<string, { bg: string; bar: string; text: string }> = {
+const CPD_CATEGORY_COLORS: Record<CPDCategory, { bg: string; bar: string; text: string }> = {
   TECHNICAL: {
     bg: "bg-blue-100",
     bar: "bg-blue-500",
@@ -42,14 +34,18 @@ const CPD_CATEGORY_COLORS: Record<string, { bg: string; bar: string; text: strin
   },
 };
 
-interface TrainingRecord {
-  id: string;
-  courseName: string;
-  provider: string;
-  completedAt: string;
-  cpdPoints: number;
-  cpdCategory: string;
-  notes: string | null;
+// Shape of GET /api/staff/[id]/cpd (CpdProgress from lib/cpd, serialized)
+interface CpdProgressData {
+  requirement: { name: string; cycleMonths: number; maxCarryOverPoints: number };
+  cycle: { start: string; end: string };
+  daysRemaining: number;
+  earnedPoints: number;
+  carriedOverPoints: number;
+  totalPoints: number;
+  requiredPoints: number;
+  categories: { category: CPDCategory; points: number; required: number }[];
+  pointsNeeded: number;
+  met: boolean;
 }
 
 interface CpdProgressProps {
@@ -57,49 +53,26 @@ interface CpdProgressProps {
 }
 
 export function CpdProgress({ memberId }: CpdProgressProps) {
-  const [records, setRecords] = useState<TrainingRecord[]>([]);
+  const [progress, setProgress] = useState<CpdProgressData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
-    const fetchRecords = async () => {
+    const fetchProgress = async () => {
       try {
         setIsLoading(true);
-        const res = await fetch(`/api/staff/${memberId}/training`);
-        if (!res.ok) throw new Error("Failed to fetch training records");
-        const data = await res.json();
-        setRecords(data);
+        const res = await fetch(`/api/staff/${memberId}/cpd`);
+        if (!res.ok) throw new Error("Failed to fetch CPD progress");
+        setProgress(await res.json());
       } catch (err) {
-        console.error("Failed to fetch training records:", err);
+        console.error("Failed to fetch CPD progress:", err);
       } finally {
         setIsLoading(false);
       }
     };
 
-    fetchRecords();
+    fetchProgress();
   }, [memberId]);
 
-  const currentYear = new Date().getFullYear();
-  const yearStart = new Date(currentYear, 0, 1).toISOString();
-
-  const currentYearRecords = records.filter(
-    (record) => record.completedAt >= yearStart
-  );
-
-  const totalPoints = currentYearRecords.reduce(
-    (sum, record) => sum + record.cpdPoints,
-    0
-  );
-
-  const progressPercent = Math.min((totalPoints / CPD_TARGET) * 100, 100);
-
-  const categoryBreakdown = currentYearRecords.reduce<Record<string, number>>(
-    (acc, record) => {
-      acc[record.cpdCategory] = (acc[record.cpdCategory] || 0) + record.cpdPoints;
-      return acc;
-    },
-    {}
-  );
-
   if (isLoading) {
     return (
       <Card>
@@ -110,13 +83,31 @@ export function CpdProgress({ memberId }: CpdProgressProps) {
     );
   }
 
+  if (!progress) {
+    return null;
+  }
+
+  const { totalPoints, requiredPoints } = progress;
+  const progressPercent =
+    requiredPoints > 0 ? Math.min((totalPoints / requiredPoints) * 100, 100) : 100;
+  // Show categories with points or a minimum to meet
+  const categories = progress.categories
+    .filter((c) => c.points > 0 || c.required > 0)
+    .sort((a, b) => b.points - a.points);
+  // The cycle end is exclusive, so its last day is the day before
+  const lastDay = new Date(new Date(progress.cycle.end).getTime() - 24 * 60 * 60 * 1000);
+
   return (
     <Card>
       <CardHeader className="pb-3">
         <CardTitle className="flex items-center gap-2 text-base">
           <TrendingUp className="h-4 w-4 text-slate-500" />
-          CPD Progress {currentYear}
+          CPD Progress
         </CardTitle>
+        <p className="text-xs text-slate-500">
+          {formatDate(progress.cycle.start)} to {formatDate(lastDay)} &middot;{" "}
+          {progress.requirement.name}
+        </p>
       </CardHeader>
       <CardContent className="space-y-4">
         <div>
@@ -125,61 +116,75 @@ export function CpdProgress({ memberId }: CpdProgressProps) {
               {totalPoints}
             </span>
             <span className="text-sm text-slate-500">
-              / {CPD_TARGET} points this year
+              / {requiredPoints} points this cycle
             </span>
           </div>
 
           <div className="w-full h-3 bg-slate-100 rounded-full overflow-hidden">
             <div
               className={`h-full rounded-full transition-all duration-500 ${
-                totalPoints >= CPD_TARGET ? "bg-green-500" : "bg-blue-500"
+                progress.met ? "bg-green-500" : "bg-blue-500"
               }`}
               style={{ width: `${progressPercent}%` }}
             />
           </div>
 
           <p className="text-xs text-slate-400 mt-1.5">
-            {totalPoints >= CPD_TARGET
-              ? "Target reached"
-              : `${CPD_TARGET - totalPoints} point${
-                  CPD_TARGET - totalPoints !== 1 ? "s" : ""
-                } remaining`}
+            {progress.met
+              ? "Requirement met"
+              : `${progress.pointsNeeded} point${
+                  progress.pointsNeeded !== 1 ? "s" : ""
+                } needed in ${progress.daysRemaining} day${
+                  progress.daysRemaining !== 1 ? "s" : ""
+                }`}
           </p>
+          {progress.carriedOverPoints > 0 && (
+            <p className="text-xs text-slate-400">
+              Includes {progress.carriedOverPoints} point
+              {progress.carriedOverPoints !== 1 ? "s" : ""} carried over from
+              the previous cycle
+            </p>
+          )}
         </div>
 
-        {Object.keys(categoryBreakdown).length > 0 && (
+        {categories.length > 0 && (
           <div className="border-t border-slate-100 pt-3 space-y-2">
             <p className="text-xs font-medium text-slate-500 uppercase tracking-wider">
               By Category
             </p>
-            {Object.entries(categoryBreakdown)
-              .sort(([, a], [, b]) => b - a)
-              .map(([category, points]) => {
-                const colors =
-                  CPD_CATEGORY_COLORS[category] || CPD_CATEGORY_COLORS.OTHER;
-                const categoryPercent = (points / CPD_TARGET) * 100;
-
-                return (
-                  <div key={category} className="space-y-1">
-                    <div className="flex items-center justify-between">
-                      <span className={`text-xs font-medium ${colors.text}`}>
-                        {CPD_CATEGORY_LABELS[category] || category}
-                      </span>
-                      <span className="text-xs text-slate-500">
-                        {points} pt{points !== 1 ? "s" : ""}
-                      </span>
-                    </div>
-                    <div className="w-full h-1.5 bg-slate-100 rounded-full overflow-hidden">
-                      <div
-                        className={`h-full rounded-full ${colors.bar}`}
-                        style={{
-                          width: `${Math.min(categoryPercent, 100)}%`,
-                        }}
-                      />
-                    </div>
+            {categories.map(({ category, points, required }) => {
+              const colors =
+                CPD_CATEGORY_COLORS[category] || CPD_CATEGORY_COLORS.OTHER;
+              const target = required > 0 ? required : requiredPoints;
+              const categoryPercent = target > 0 ? (points / target) * 100 : 100;
+
+              return (
+                <div key={category} className="space-y-1">
+                  <div className="flex items-center justify-between">
+                    <span className={`text-xs font-medium ${colors.text}`}>
+                      {CPD_CATEGORY_LABELS[category] || category}
+                    </span>
+                    <span
+                      className={`text-xs ${
+                        points < required ? "text-amber-600" : "text-slate-500"
+                      }`}
+                    >
+                      {required > 0
+                        ? `${points} / ${required} pts`
+                        : `${points} pt${points !== 1 ? "s" : ""}`}
+                    </span>
+                  </div>
+                  <div className="w-full h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                    <div
+                      className={`h-full rounded-full ${colors.bar}`}
+                      style={{
+                        width: `${Math.min(categoryPercent, 100)}%`,
+                      }}
+                    />
                   </div>
-                );
-              })}
+                </div>
+              );
+            })}
           </div>
         )}
       </CardContent>
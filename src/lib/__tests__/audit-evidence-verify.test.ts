@@ -0,0 +1,215 @@
+import type { AuditLogInput } from '../audit-log';
+import { computeAuditEntryHash, computeMerkleProof, computeMerkleRoot } from '../audit-hash';
+import {
+  EVIDENCE_BUNDLE_FORMAT,
+  EVIDENCE_BUNDLE_VERSION,
+  EVIDENCE_TOKEN_TYPE,
+  digestOf,
+  verifyEvidenceBundle,
+  type EvidenceBundle,
+  type EvidenceCheckpoint,
+  type EvidenceEntry,
+} from '../audit-evidence-verify';
+
+// jose is ESM-only; stand in with tokens of the form "<typ>.<claims>.ok"
+jest.mock('jose', () => ({
+  importSPKI: jest.fn(async (pem: string) => {
+    if (!pem.includes('PUBLIC KEY')) throw new Error('Not a PEM');
+    return {};
+  }),
+  jwtVerify: jest.fn(async (token: string, _key: unknown, options: { typ: string }) => {
+    const [typ, claims, signature] = token.split('.');
+    if (typ !== options.typ || signature !== 'ok') throw new Error('Invalid signature');
+    return { payload: JSON.parse(Buffer.from(claims, 'base64url').toString()) };
+  }),
+}));
+
+const PUBLIC_KEY = '-----BEGIN PUBLIC KEY-----\nMIIB\n-----END PUBLIC KEY-----';
+
+function sign(claims: Record<string, unknown>, typ: string): string {
+  const body = Buffer.from(JSON.stringify({ ...claims, iat: 1, iss: 'ranz' })).toString('base64url');
+  return `${typ}.${body}.ok`;
+}
+
+function entry(id: number, previousHash: string | null): EvidenceEntry {
+  const fields = {
+    eventId: `event-${id}`,
+    actorId: 'user-1',
+    action: 'UPDATE',
+    resourceType: 'Document',
+    resourceId: `doc-${id}`,
+    timestamp: new Date(Date.UTC(2026, 9, id)),
+    previousHash,
+    previousState: null,
+    newState: { status: 'APPROVED' },
+    metadata: { organizationId: 'org-1' },
+  };
+
+  return {
+    ...fields,
+    id: String(id),
+    actorEmail: 'user@example.nz',
+    actorRole: 'org:member',
+    ipAddress: null,
+    userAgent: null,
+    timestamp: fields.timestamp.toISOString(),
+    hash: computeAuditEntryHash(fields),
+  };
+}
+
+/**
+ * Chain of three entries; the bundle exports 2 and 3. A checkpoint covers
+ * 1-2, so entry 2 has a Merkle proof and entry 3 only its chain links.
+ */
+function buildBundle(): EvidenceBundle {
+  const first = entry(1, null);
+  const second = entry(2, first.hash);
+  const third = entry(3, second.hash);
+
+  const checkpointFields = {
+    fromId: '1',
+    toId: '2',
+    entryCount: 2,
+    fromTimestamp: first.timestamp,
+    toTimestamp: second.timestamp,
+    previousHash: null,
+    lastHash: second.hash,
+    merkleRoot: computeMerkleRoot([first.hash, second.hash]),
+  };
+  const checkpoint: EvidenceCheckpoint = {
+    ...checkpointFields,
+    signature: sign(checkpointFields, 'audit-checkpoint+jwt'),
+  };
+
+  const entries = [second, third];
+  const links = [
+    {
+      entryId: '2',
+      predecessor: { id: '1', hash: first.hash },
+      successor: { id: '3', previousHash: third.previousHash },
+    },
+    { entryId: '3', predecessor: { id: '2', hash: second.hash }, successor: null },
+  ];
+  const inclusionProofs = [
+    { entryId: '2', checkpointIndex: 0, proof: computeMerkleProof([first.hash, second.hash], 1) },
+  ];
+
+  return seal({
+    manifest: {
+      format: EVIDENCE_BUNDLE_FORMAT,
+      version: EVIDENCE_BUNDLE_VERSION,
+      bundleId: 'bundle-1',
+      generatedAt: '2026-10-19T00:00:00.000Z',
+      generatedBy: 'admin@example.nz',
+      scope: { type: 'organization', organizationId: 'org-1' },
+      window: { from: '2026-10-01T00:00:00.000Z', to: '2026-10-31T00:00:00.000Z' },
+      entryCount: 2,
+      firstEntryId: '2',
+      lastEntryId: '3',
+      hashAlgorithm: 'SHA-256',
+      entriesDigest: '',
+      linksDigest: '',
+      checkpointsDigest: '',
+      proofsDigest: '',
+      keyId: 'ranz-auth-key-1',
+    },
+    signature: '',
+    entries,
+    links,
+    checkpoints: [checkpoint],
+    inclusionProofs,
+    publicKey: PUBLIC_KEY,
+  });
+}
+
+// Recompute the digests and signature, as the exporter would
+function seal(bundle: EvidenceBundle): EvidenceBundle {
+  const manifest = {
+    ...bundle.manifest,
+    entriesDigest: digestOf(bundle.entries),
+    linksDigest: digestOf(bundle.links),
+    checkpointsDigest: digestOf(bundle.checkpoints),
+    proofsDigest: digestOf(bundle.inclusionProofs),
+  };
+  return { ...bundle, manifest, signature: sign({ ...manifest }, EVIDENCE_TOKEN_TYPE) };
+}
+
+describe('verifyEvidenceBundle', () => {
+  it('accepts an untouched bundle', async () => {
+    const result = await verifyEvidenceBundle(buildBundle(), PUBLIC_KEY);
+
+    expect(result).toEqual({
+      valid: true,
+      errors: [],
+      entriesVerified: 2,
+      entriesWithCheckpointProof: 1,
+      entriesWithLinksOnly: 1,
+    });
+  });
+
+  it('rejects an edited manifest that was not re-signed', async () => {
+    const bundle = buildBundle();
+    bundle.manifest.scope = { type: 'organization', organizationId: 'org-2' };
+
+    const result = await verifyEvidenceBundle(bundle, PUBLIC_KEY);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain('Manifest differs from the signed manifest');
+  });
+
+  it('rejects an edited entry even when the digests are recomputed', async () => {
+    const bundle = buildBundle();
+    bundle.entries[1].newState = { status: 'REJECTED' };
+
+    const result = await verifyEvidenceBundle(seal(bundle), PUBLIC_KEY);
+
+    expect(result.errors).toEqual(['Entry 3 content does not match its hash']);
+    expect(result.entriesVerified).toBe(1);
+  });
+
+  it('rejects an entry whose neighbours do not link to it', async () => {
+    const bundle = buildBundle();
+    bundle.links[0].successor = { id: '3', previousHash: 'f'.repeat(64) };
+
+    const result = await verifyEvidenceBundle(seal(bundle), PUBLIC_KEY);
+
+    expect(result.errors).toEqual(['Entry 2 successor 3 does not link back to it']);
+  });
+
+  it('rejects a Merkle proof that does not lead to the checkpoint root', async () => {
+    const bundle = buildBundle();
+    bundle.inclusionProofs[0].proof = [{ position: 'left', hash: 'a'.repeat(64) }];
+
+    const result = await verifyEvidenceBundle(seal(bundle), PUBLIC_KEY);
+
+    expect(result.errors).toEqual(['Entry 2 is not proven to be in its checkpoint']);
+  });
+
+  it('rejects a bundle with a forged checkpoint signature', async () => {
+    const bundle = buildBundle();
+    bundle.checkpoints[0].signature = 'audit-checkpoint+jwt.e30.forged';
+
+    const result = await verifyEvidenceBundle(seal(bundle), PUBLIC_KEY);
+
+    expect(result.errors).toEqual([
+      'Checkpoint 0 (entries 1-2) signature is invalid',
+      'Entry 2 is not proven to be in its checkpoint',
+    ]);
+  });
+});
+
+describe('organization scope', () => {
+  it('requires organization-owned audit entries to name their organization', () => {
+    // @ts-expect-error Document entries must carry metadata.organizationId
+    const missing: AuditLogInput = { action: 'UPDATE', resourceType: 'Document', resourceId: 'doc-1' };
+    const scoped: AuditLogInput = {
+      action: 'UPDATE',
+      resourceType: 'Document',
+      resourceId: 'doc-1',
+      metadata: { organizationId: 'org-1' },
+    };
+    const global: AuditLogInput = { action: 'UPDATE', resourceType: 'ScoringPolicy', resourceId: 'policy-1' };
+
+    expect([missing, scoped, global]).toHaveLength(3);
+  });
+});
@@ -0,0 +1,88 @@
+import {
+  diffQuestionSets,
+  selectAuditQuestions,
+  type BankQuestion,
+  type ResolvedQuestionSet,
+} from '../audit-question-bank';
+
+jest.mock('../db', () => ({ db: {} }));
+
+function question(overrides: Partial<BankQuestion>): BankQuestion {
+  return {
+    isoElement: 'QUALITY_POLICY',
+    questionNumber: 1,
+    questionText: 'Is there a documented quality policy?',
+    guidance: null,
+    evidenceRequired: [],
+    certificationTiers: [],
+    auditTypes: [],
+    ...overrides,
+  };
+}
+
+function questionSet(version: number, questions: BankQuestion[]): ResolvedQuestionSet {
+  return { id: `set-${version}`, version, name: `Version ${version}`, questions };
+}
+
+describe('selectAuditQuestions', () => {
+  const set = questionSet(1, [
+    question({ questionNumber: 2, questionText: 'Is the policy reviewed annually?' }),
+    question({ questionNumber: 1 }),
+    question({
+      questionNumber: 3,
+      questionText: 'Has the Master Roofer mentoring plan been delivered?',
+      certificationTiers: ['MASTER_ROOFER'],
+      auditTypes: ['RECERTIFICATION'],
+    }),
+  ]);
+
+  it('adds tier and audit-type questions only where both match', () => {
+    const recert = selectAuditQuestions(set, ['QUALITY_POLICY'], {
+      certificationTier: 'MASTER_ROOFER',
+      auditType: 'RECERTIFICATION',
+    });
+    const surveillance = selectAuditQuestions(set, ['QUALITY_POLICY'], {
+      certificationTier: 'MASTER_ROOFER',
+      auditType: 'SURVEILLANCE',
+    });
+
+    expect(recert[0].questions.map((q) => q.questionNumber)).toEqual([1, 2, 3]);
+    expect(surveillance[0].questions.map((q) => q.questionNumber)).toEqual([1, 2]);
+  });
+
+  it('returns an empty list for elements with no questions', () => {
+    const result = selectAuditQuestions(set, ['SERVICING'], {
+      certificationTier: 'CERTIFIED',
+      auditType: 'SURVEILLANCE',
+    });
+
+    expect(result).toEqual([{ element: 'SERVICING', questions: [] }]);
+  });
+});
+
+describe('diffQuestionSets', () => {
+  it('reports added, removed and changed questions by element and number', () => {
+    const before = questionSet(1, [
+      question({ questionNumber: 1 }),
+      question({ questionNumber: 2, questionText: 'Is the policy displayed?' }),
+      question({ isoElement: 'SERVICING', questionNumber: 1, questionText: 'Are warranties tracked?' }),
+    ]);
+    const after = questionSet(2, [
+      question({ questionNumber: 1 }),
+      question({
+        questionNumber: 2,
+        questionText: 'Is the policy displayed on site?',
+        certificationTiers: ['MASTER_ROOFER'],
+      }),
+      question({ questionNumber: 3, questionText: 'Is the policy signed by a director?' }),
+    ]);
+
+    const diff = diffQuestionSets(before, after);
+
+    expect(diff.added.map((q) => q.questionNumber)).toEqual([3]);
+    expect(diff.removed.map((q) => q.isoElement)).toEqual(['SERVICING']);
+    expect(diff.changed).toHaveLength(1);
+    expect(diff.changed[0].fields).toEqual(['questionText', 'certificationTiers']);
+    expect(diff.unchanged).toBe(1);
+  });
+});
@@ -0,0 +1,39 @@
+import { groupFindingsBySeverity } from '../audit-report';
+
+jest.mock('../db', () => ({ db: {} }));
+jest.mock('../r2', () => ({}));
+jest.mock('../audit-log', () => ({ createAuditLog: jest.fn() }));
+jest.mock('../photo-processing', () => ({ PHOTO_MIME_TYPES: [], generateThumbnail: jest.fn() }));
+jest.mock('@react-pdf/renderer', () => ({}));
+jest.mock('@/components/reports/pdf/audit-report', () => ({}));
+
+function item(
+  questionNumber: number,
+  response: 'CONFORMING' | 'MINOR_NONCONFORMITY' | 'MAJOR_NONCONFORMITY' | 'OBSERVATION' | null,
+  severity: 'OBSERVATION' | 'MINOR' | 'MAJOR' | 'CRITICAL' | null = null
+) {
+  return {
+    isoElement: 'QUALITY_POLICY' as const,
+    questionNumber,
+    questionText: `Question ${questionNumber}`,
+    response,
+    finding: response ? `Finding ${questionNumber}` : null,
+    severity,
+  };
+}
+
+describe('groupFindingsBySeverity', () => {
+  it('groups findings most severe first and skips conforming or unanswered questions', () => {
+    const groups = groupFindingsBySeverity([
+      item(1, 'CONFORMING'),
+      item(2, 'OBSERVATION'),
+      item(3, 'MINOR_NONCONFORMITY'),
+      item(4, 'MAJOR_NONCONFORMITY', 'CRITICAL'),
+      item(5, null),
+      item(6, 'MINOR_NONCONFORMITY'),
+    ]);
+
+    expect(groups.map((g) => g.severity)).toEqual(['CRITICAL', 'MINOR', 'OBSERVATION']);
+    expect(groups[1].findings.map((f) => f.questionNumber)).toEqual([3, 6]);
+  });
+});
@@ -0,0 +1,106 @@
+import { db } from '../db';
+import { applyChecklistChanges, mergeChecklistChange } from '../audit-sync';
+
+jest.mock('../db', () => ({
+  db: {
+    audit: { findUniqueOrThrow: jest.fn() },
+    auditChecklist: { createMany: jest.fn(), findMany: jest.fn(), update: jest.fn() },
+    $transaction: jest.fn(),
+  },
+}));
+
+const UNANSWERED = {
+  response: null,
+  finding: null,
+  severity: null,
+  auditorNotes: null,
+};
+
+describe('mergeChecklistChange', () => {
+  it('applies fields the server has not touched since the auditor went offline', () => {
+    const { data, conflicts } = mergeChecklistChange(UNANSWERED, {
+      base: { response: null, finding: null },
+      changes: { response: 'MINOR_NONCONFORMITY', finding: 'No document register' },
+    });
+
+    expect(conflicts).toEqual([]);
+    expect(data).toEqual({
+      response: 'MINOR_NONCONFORMITY',
+      finding: 'No document register',
+    });
+  });
+
+  it('reports a conflict when the server value moved on, and still applies the rest', () => {
+    const current = { ...UNANSWERED, response: 'CONFORMING' as const };
+
+    const { data, conflicts } = mergeChecklistChange(current, {
+      base: { response: null, auditorNotes: null },
+      changes: { response: 'OBSERVATION', auditorNotes: 'Register kept on site' },
+    });
+
+    expect(conflicts).toEqual([
+      { field: 'response', serverValue: 'CONFORMING', clientValue: 'OBSERVATION' },
+    ]);
+    expect(data).toEqual({ auditorNotes: 'Register kept on site' });
+  });
+
+  it('treats identical edits on both sides as already applied', () => {
+    const current = { ...UNANSWERED, response: 'CONFORMING' as const };
+
+    const { data, conflicts } = mergeChecklistChange(current, {
+      base: { response: null },
+      changes: { response: 'CONFORMING' },
+    });
+
+    expect(conflicts).toEqual([]);
+    expect(data).toEqual({});
+  });
+});
+
+describe('applyChecklistChanges', () => {
+  // Scheduled audits are created without checklist rows
+  const scheduledAudit = {
+    auditType: 'SURVEILLANCE',
+    isoElements: ['QUALITY_POLICY'],
+    questionSetId: null,
+    organization: { certificationTier: 'ACCREDITED' },
+    checklist: [],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.mocked(db.audit.findUniqueOrThrow).mockResolvedValue(scheduledAudit as never);
+    jest.mocked(db.auditChecklist.findMany).mockImplementation((() => {
+      const { data } = jest.mocked(db.auditChecklist.createMany).mock.calls[0][0]!;
+      const created = [data].flat().map((row, i) => ({ ...UNANSWERED, ...row, id: `row-${i}` }));
+      return Promise.resolve(created);
+    }) as never);
+  });
+
+  it('creates missing rows from the pinned question set before applying answers', async () => {
+    const results = await applyChecklistChanges('audit-1', [
+      {
+        isoElement: 'QUALITY_POLICY',
+        questionNumber: 1,
+        base: { response: null },
+        changes: { response: 'CONFORMING' },
+      },
+      {
+        isoElement: 'PURCHASING',
+        questionNumber: 1,
+        base: { response: null },
+        changes: { response: 'CONFORMING' },
+      },
+    ]);
+
+    expect(db.auditChecklist.createMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ auditId: 'audit-1', isoElement: 'QUALITY_POLICY', questionNumber: 1 })],
+      skipDuplicates: true,
+    });
+    expect(db.auditChecklist.update).toHaveBeenCalledWith({
+      where: { id: 'row-0' },
+      data: { response: 'CONFORMING' },
+    });
+    expect(results.map((r) => r.status)).toEqual(['applied', 'not_found']);
+  });
+});
@@ -0,0 +1,82 @@
+import { db } from '../db';
+import { autoAssignAuditor, getAuditorCandidates } from '../auditor-registry';
+
+jest.mock('../db', () => ({
+  db: {
+    audit: { findUnique: jest.fn(), findMany: jest.fn(), groupBy: jest.fn(), update: jest.fn() },
+    auditorProfile: { findMany: jest.fn(), findUniqueOrThrow: jest.fn() },
+  },
+}));
+
+jest.mock('../audit-log', () => ({ createAuditLog: jest.fn() }));
+jest.mock('../auth', () => ({ getAuthMode: () => 'custom' }));
+
+const AUDIT = {
+  id: 'audit-1',
+  organizationId: 'org-1',
+  auditType: 'SURVEILLANCE',
+  scheduledDate: new Date('2026-11-10T00:00:00Z'),
+  organization: { region: 'Canterbury' },
+};
+
+function profile(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    regions: ['Canterbury'],
+    maxAuditsPerMonth: 4,
+    authUser: {
+      firstName: id,
+      lastName: 'Auditor',
+      email: `${id}@example.nz`,
+      userType: 'RANZ_INSPECTOR',
+    },
+    unavailability: [],
+    conflicts: [],
+    ...overrides,
+  };
+}
+
+describe('getAuditorCandidates', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.mocked(db.audit.findUnique).mockResolvedValue(AUDIT as never);
+  });
+
+  it('blocks conflicts and leave, warns on region, capacity and rotation', async () => {
+    jest.mocked(db.auditorProfile.findMany).mockResolvedValue([
+      profile('conflicted', { conflicts: [{ reason: 'Former employer' }] }),
+      profile('away', { unavailability: [{ reason: 'Leave' }] }),
+      profile('busy'),
+      profile('remote', { regions: ['Otago'] }),
+      profile('previous'),
+      profile('free'),
+    ] as never);
+    jest.mocked(db.audit.groupBy).mockResolvedValue([
+      { auditorProfileId: 'busy', _count: { _all: 4 } },
+      { auditorProfileId: 'free', _count: { _all: 1 } },
+    ] as never);
+    jest.mocked(db.audit.findMany).mockResolvedValue([{ auditorProfileId: 'previous' }] as never);
+
+    const candidates = await getAuditorCandidates('audit-1');
+    const byId = Object.fromEntries(candidates.map((c) => [c.auditorId, c]));
+
+    expect(candidates[0].auditorId).toBe('free');
+    expect(candidates.slice(-2).map((c) => c.auditorId).sort()).toEqual(['away', 'conflicted']);
+    expect(byId.conflicted.blockers).toEqual(['Declared conflict of interest: Former employer']);
+    expect(byId.away.blockers).toEqual(['Unavailable on this date (Leave)']);
+    expect(byId.busy.warnings).toEqual(['At capacity (4/4 audits this month)']);
+    expect(byId.remote.warnings).toEqual(['Does not cover Canterbury']);
+    expect(byId.previous.warnings).toEqual(['Audited this business last cycle']);
+  });
+
+  it('leaves the audit unassigned when every auditor has a warning', async () => {
+    jest.mocked(db.auditorProfile.findMany).mockResolvedValue([
+      profile('remote', { regions: ['Otago'] }),
+    ] as never);
+    jest.mocked(db.audit.groupBy).mockResolvedValue([] as never);
+    jest.mocked(db.audit.findMany).mockResolvedValue([] as never);
+
+    expect(await autoAssignAuditor('audit-1')).toBeNull();
+    expect(db.audit.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,51 @@
+import { db } from '../db';
+import { canAccessAudit } from '../auditor-workspace';
+import type { AuthenticatedUser, AuthUserRole } from '../auth/types';
+
+jest.mock('../db', () => ({
+  db: { auditorConflict: { findFirst: jest.fn() } },
+}));
+
+function user(userType: AuthUserRole): AuthenticatedUser {
+  return {
+    id: 'user-1',
+    email: 'auditor@example.nz',
+    firstName: 'Audi',
+    lastName: 'Tor',
+    userType,
+    status: 'ACTIVE',
+    mustChangePassword: false,
+  };
+}
+
+const AUDIT = { auditorId: 'someone-else', auditorEmail: null, organizationId: 'org-1' };
+
+describe('canAccessAudit', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.mocked(db.auditorConflict.findFirst).mockResolvedValue(null);
+  });
+
+  it('limits unassigned access to RANZ admins', async () => {
+    expect(await canAccessAudit(user('RANZ_INSPECTOR'), AUDIT)).toBe(false);
+    expect(await canAccessAudit(user('RANZ_ADMIN'), AUDIT)).toBe(true);
+  });
+
+  it('matches assignments by user ID or auditor email', async () => {
+    const inspector = user('EXTERNAL_INSPECTOR');
+
+    expect(await canAccessAudit(inspector, { ...AUDIT, auditorId: 'user-1' })).toBe(true);
+    expect(
+      await canAccessAudit(inspector, { ...AUDIT, auditorId: null, auditorEmail: 'Auditor@Example.nz' })
+    ).toBe(true);
+  });
+
+  it('refuses an auditor with a declared conflict with the organisation', async () => {
+    jest.mocked(db.auditorConflict.findFirst).mockResolvedValue({ id: 'conflict-1' } as never);
+
+    expect(await canAccessAudit(user('RANZ_INSPECTOR'), { ...AUDIT, auditorId: 'user-1' })).toBe(false);
+    expect(db.auditorConflict.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: expect.objectContaining({ organizationId: 'org-1' }) })
+    );
+  });
+});
@@ -0,0 +1,200 @@
+import { db } from '../db';
+import { calculateCpdProgress } from '../cpd';
+import { calculateComplianceScore, previewScoringPolicyImpact } from '../compliance-v2';
+import { DEFAULT_SCORING_RULES, type ResolvedScoringPolicy } from '../scoring-policy';
+import { ALL_ISO_ELEMENTS } from '@/types';
+
+jest.mock('../db', () => ({
+  db: {
+    organization: { findUnique: jest.fn(), findMany: jest.fn() },
+    cAPARecord: { findMany: jest.fn() },
+    scoringPolicy: { findFirst: jest.fn() },
+  },
+}));
+jest.mock('../clerk-sync', () => ({ syncOrgMetadataToClerk: jest.fn() }));
+jest.mock('../compliance-history', () => ({ recordComplianceSnapshot: jest.fn() }));
+jest.mock('../cpd', () => ({
+  getCpdRequirements: jest.fn(async () => []),
+  resolveCpdRequirement: jest.fn(),
+  calculateCpdProgress: jest.fn(),
+}));
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function cpdProgress(metLastCycle: boolean) {
+  return { met: true, daysRemaining: 365, previousCycle: { assessed: true, met: metLastCycle } } as never;
+}
+
+function member(id: string, role: string) {
+  return {
+    id,
+    role,
+    lbpNumber: `BP${id}`,
+    lbpVerified: true,
+    lbpStatus: 'CURRENT',
+    lbpExpiry: new Date(Date.now() + 365 * DAY),
+    lbpClass: null,
+    trainingRecords: [],
+  };
+}
+
+function policy(policyType: string, coverageAmount: number) {
+  return { policyType, coverageAmount, expiryDate: new Date(Date.now() + 365 * DAY) };
+}
+
+/**
+ * Meets every requirement: all elements assessed compliant, Master Roofer
+ * cover, two verified LBP holders and a recent passed audit. Scores 100.
+ */
+function organization(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'org-1',
+    name: 'Acme Roofing',
+    certificationTier: 'CERTIFIED',
+    assessments: ALL_ISO_ELEMENTS.map((isoElement) => ({ isoElement, score: 100, status: 'COMPLIANT' })),
+    documents: [],
+    insurancePolicies: [
+      policy('PUBLIC_LIABILITY', 5_000_000),
+      policy('PROFESSIONAL_INDEMNITY', 2_000_000),
+      policy('STATUTORY_LIABILITY', 1_000_000),
+    ],
+    members: [member('1', 'OWNER'), member('2', 'ADMIN')],
+    audits: [{ rating: 'PASS', completedAt: new Date(Date.now() - 30 * DAY) }],
+    ...overrides,
+  };
+}
+
+function scoringPolicy(version: number, rules: Partial<ResolvedScoringPolicy['rules']> = {}) {
+  return {
+    id: `policy-${version}`,
+    version,
+    name: `Version ${version}`,
+    effectiveFrom: null,
+    rules: { ...DEFAULT_SCORING_RULES, ...rules },
+  };
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.mocked(db.organization.findUnique).mockResolvedValue(organization() as never);
+  jest.mocked(db.cAPARecord.findMany).mockResolvedValue([]);
+  jest.mocked(db.scoringPolicy.findFirst).mockResolvedValue(null);
+  jest.mocked(calculateCpdProgress).mockReturnValue(cpdProgress(true));
+});
+
+describe('calculateComplianceScore', () => {
+  it('scores a fully compliant organization under the built-in rules', async () => {
+    const result = await calculateComplianceScore('org-1');
+
+    expect(result.overallScore).toBe(100);
+    expect(result.policyVersion).toBe(0);
+    expect(result.tierEligibility).toMatchObject({
+      currentTier: 'CERTIFIED',
+      nextTier: 'MASTER_ROOFER',
+      eligibleForUpgrade: true,
+      qualifiedTier: 'MASTER_ROOFER',
+    });
+  });
+
+  it('weights categories by the policy it is given and records its version', async () => {
+    jest.mocked(db.organization.findUnique).mockResolvedValue(organization({ audits: [] }) as never);
+
+    const builtIn = await calculateComplianceScore('org-1');
+    const auditHeavy = await calculateComplianceScore(
+      'org-1',
+      scoringPolicy(3, {
+        categoryWeights: { documentation: 0.25, insurance: 0.15, personnel: 0.1, audit: 0.5 },
+      })
+    );
+
+    // No audit on record scores the audit category 50
+    expect(builtIn.overallScore).toBe(95);
+    expect(auditHeavy.overallScore).toBe(75);
+    expect(auditHeavy.policyVersion).toBe(3);
+    expect(auditHeavy.tierEligibility.qualifiedTier).toBe('CERTIFIED');
+  });
+
+  it('stops at the first tier whose requirements fail, even if a higher one is met', async () => {
+    const result = await calculateComplianceScore(
+      'org-1',
+      scoringPolicy(2, {
+        tiers: {
+          ...DEFAULT_SCORING_RULES.tiers,
+          CERTIFIED: { minScore: 70, minVerifiedLbp: 3, allowCriticalIssues: false },
+        },
+      })
+    );
+
+    expect(result.tierEligibility.qualifiedTier).toBe('ACCREDITED');
+    expect(result.tierEligibility.blockers).toEqual([]);
+  });
+
+  it('deducts the CPD shortfall penalty set by the policy', async () => {
+    jest.mocked(calculateCpdProgress).mockReturnValue(cpdProgress(false));
+
+    const builtIn = await calculateComplianceScore('org-1');
+    const lenient = await calculateComplianceScore('org-1', scoringPolicy(5, { cpdShortfallPenalty: 0 }));
+
+    expect(builtIn.breakdown.personnel.score).toBe(90);
+    expect(builtIn.issues.map((i) => i.code)).toContain('PERS_CPD_SHORTFALL');
+    expect(lenient.breakdown.personnel.score).toBe(100);
+  });
+
+  it('does not qualify an organization with critical issues for a higher tier', async () => {
+    jest.mocked(db.organization.findUnique).mockResolvedValue(
+      organization({ insurancePolicies: [policy('PUBLIC_LIABILITY', 5_000_000)] }) as never
+    );
+
+    const result = await calculateComplianceScore('org-1');
+
+    expect(result.issues.filter((i) => i.severity === 'critical').map((i) => i.code)).toEqual([
+      'INS_MISSING_PROFESSIONAL_INDEMNITY',
+      'INS_MISSING_STATUTORY_LIABILITY',
+    ]);
+    expect(result.tierEligibility.qualifiedTier).toBe('ACCREDITED');
+    expect(result.tierEligibility.blockers).toContain('2 critical issue(s) must be resolved');
+  });
+});
+
+describe('previewScoringPolicyImpact', () => {
+  it('reports organizations whose qualified tier would change under a draft', async () => {
+    const orgs = {
+      'org-1': organization(),
+      'org-2': organization({ id: 'org-2', name: 'Best Roofs', certificationTier: 'MASTER_ROOFER', audits: [] }),
+    };
+    jest.mocked(db.organization.findMany).mockResolvedValue([{ id: 'org-1' }, { id: 'org-2' }] as never);
+    jest
+      .mocked(db.organization.findUnique)
+      .mockImplementation((({ where }: { where: { id: keyof typeof orgs } }) =>
+        Promise.resolve(orgs[where.id])) as never);
+
+    const draft = scoringPolicy(4, {
+      tiers: {
+        ...DEFAULT_SCORING_RULES.tiers,
+        MASTER_ROOFER: { minScore: 96, minVerifiedLbp: 2, allowCriticalIssues: false },
+      },
+    });
+
+    const preview = await previewScoringPolicyImpact(draft);
+
+    expect(preview).toEqual({
+      activePolicyVersion: 0,
+      draftPolicyVersion: 4,
+      organizationsEvaluated: 2,
+      tierChanges: { total: 1, upgrades: 0, downgrades: 1 },
+      belowCertifiedTier: 1,
+      averageScoreDelta: 0,
+      changes: [
+        {
+          organizationId: 'org-2',
+          organizationName: 'Best Roofs',
+          certificationTier: 'MASTER_ROOFER',
+          currentScore: 95,
+          draftScore: 95,
+          currentQualifiedTier: 'MASTER_ROOFER',
+          draftQualifiedTier: 'CERTIFIED',
+        },
+      ],
+    });
+  });
+});
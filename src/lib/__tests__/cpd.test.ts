@@ -0,0 +1,106 @@
+import {
+  calculateCpdProgress,
+  DEFAULT_CPD_REQUIREMENT,
+  getCpdCycle,
+  resolveCpdRequirement,
+  type ResolvedCpdRequirement,
+} from '../cpd';
+
+jest.mock('../db', () => ({ db: {} }));
+
+const TWO_YEAR: ResolvedCpdRequirement = {
+  ...DEFAULT_CPD_REQUIREMENT,
+  id: 'two-year',
+  name: 'Two-year LBP cycle',
+  cycleMonths: 24,
+  cycleAnchor: 'LBP_EXPIRY',
+  minPoints: 40,
+  categoryMinimums: { TECHNICAL: 10 },
+  maxCarryOverPoints: 10,
+};
+
+const member = {
+  lbpClass: 'ROOFING' as const,
+  lbpExpiry: new Date('2027-03-15'),
+  createdAt: new Date('2020-01-01'),
+};
+
+function record(completedAt: string, cpdPoints: number, cpdCategory = 'TECHNICAL') {
+  return {
+    completedAt: new Date(completedAt),
+    cpdPoints,
+    cpdCategory: cpdCategory as 'TECHNICAL',
+  };
+}
+
+describe('getCpdCycle', () => {
+  it('ends cycles on the LBP expiry anniversary', () => {
+    const cycle = getCpdCycle(TWO_YEAR, member, new Date('2026-10-19'));
+
+    expect(cycle.start.toISOString().slice(0, 10)).toBe('2025-03-15');
+    expect(cycle.end.toISOString().slice(0, 10)).toBe('2027-03-15');
+  });
+
+  it('uses calendar years for the built-in default', () => {
+    const cycle = getCpdCycle(DEFAULT_CPD_REQUIREMENT, member, new Date('2026-10-19'));
+
+    expect(cycle.start.toISOString().slice(0, 10)).toBe('2026-01-01');
+    expect(cycle.end.toISOString().slice(0, 10)).toBe('2027-01-01');
+  });
+});
+
+describe('resolveCpdRequirement', () => {
+  it('prefers the most specific matching requirement', () => {
+    const byClass = { ...TWO_YEAR, id: 'class', lbpClass: 'ROOFING' as const };
+    const byTier = { ...TWO_YEAR, id: 'tier', certificationTier: 'CERTIFIED' as const };
+    const other = { ...TWO_YEAR, id: 'other', lbpClass: 'CARPENTRY' as const };
+
+    expect(
+      resolveCpdRequirement([byTier, other, byClass, TWO_YEAR], {
+        lbpClass: 'ROOFING',
+        certificationTier: 'CERTIFIED',
+      }).id
+    ).toBe('class');
+    expect(
+      resolveCpdRequirement([other], {
+        lbpClass: 'ROOFING',
+        certificationTier: 'CERTIFIED',
+      })
+    ).toBe(DEFAULT_CPD_REQUIREMENT);
+  });
+});
+
+describe('calculateCpdProgress', () => {
+  it('carries over surplus points up to the limit', () => {
+    const progress = calculateCpdProgress(
+      TWO_YEAR,
+      member,
+      [
+        record('2024-01-10', 55), // Previous cycle: 15 over
+        record('2025-06-01', 12),
+        record('2026-02-01', 15, 'SELF_STUDY'),
+      ],
+      new Date('2026-10-19')
+    );
+
+    expect(progress.earnedPoints).toBe(27);
+    expect(progress.carriedOverPoints).toBe(10);
+    expect(progress.totalPoints).toBe(37);
+    expect(progress.pointsNeeded).toBe(3);
+    expect(progress.met).toBe(false);
+    expect(progress.previousCycle.met).toBe(true);
+  });
+
+  it('counts unmet category minimums as points needed', () => {
+    const progress = calculateCpdProgress(
+      TWO_YEAR,
+      member,
+      [record('2025-06-01', 45, 'INDUSTRY_EVENT'), record('2025-07-01', 4)],
+      new Date('2026-10-19')
+    );
+
+    expect(progress.totalPoints).toBe(49);
+    expect(progress.pointsNeeded).toBe(6);
+    expect(progress.previousCycle).toMatchObject({ met: false, assessed: true });
+  });
+});
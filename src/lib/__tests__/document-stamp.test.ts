@@ -0,0 +1,152 @@
+/**
+ * @jest-environment node
+ */
+
+import { PDFDocument, PDFPage } from 'pdf-lib';
+import type { Document, DocumentVersion } from '@prisma/client';
+import {
+  buildDocumentStamp,
+  getDownloadStatus,
+  resolveCopyType,
+  stampPdf,
+  type DocumentStamp,
+} from '../document-stamp';
+
+jest.mock('../db', () => ({ db: {} }));
+jest.mock('../document-versioning', () => ({
+  formatVersionString: (major: number, minor: number) => `${major}.${minor}`,
+}));
+
+const APPROVED_AT = new Date('2026-03-01T00:00:00.000Z');
+
+const document = {
+  id: 'doc-1',
+  documentNumber: 'QM-001',
+  status: 'APPROVED',
+  approvedAt: APPROVED_AT,
+  currentVersion: 3,
+} as Document;
+
+function version(status: DocumentVersion['status']): DocumentVersion {
+  return {
+    id: 'version-1',
+    documentId: 'doc-1',
+    versionNumber: 2,
+    minorVersion: 1,
+    status,
+    reviewedAt: APPROVED_AT,
+  } as DocumentVersion;
+}
+
+describe('resolveCopyType', () => {
+  it('issues uncontrolled copies unless a controlled copy is asked for', () => {
+    expect(resolveCopyType(null, { isAdmin: false, status: 'DRAFT' })).toBe('UNCONTROLLED');
+    expect(resolveCopyType('uncontrolled', { isAdmin: true, status: 'APPROVED' })).toBe('UNCONTROLLED');
+  });
+
+  it('issues a controlled copy of the approved version to an admin', () => {
+    expect(resolveCopyType('controlled', { isAdmin: true, status: 'APPROVED' })).toBe('CONTROLLED');
+  });
+
+  it('refuses controlled copies to members who are not admins', () => {
+    expect(() => resolveCopyType('controlled', { isAdmin: false, status: 'APPROVED' })).toThrow(
+      expect.objectContaining({ status: 403 })
+    );
+  });
+
+  it.each(['SUPERSEDED', 'DRAFT', 'PENDING_APPROVAL', 'REJECTED'] as const)(
+    'refuses a controlled copy of a %s version',
+    (status) => {
+      expect(() => resolveCopyType('controlled', { isAdmin: true, status })).toThrow(
+        'Controlled copies can only be issued for the approved version'
+      );
+    }
+  );
+
+  it('rejects unknown copy types', () => {
+    expect(() => resolveCopyType('master', { isAdmin: true, status: 'APPROVED' })).toThrow(
+      expect.objectContaining({ status: 400 })
+    );
+  });
+});
+
+describe('getDownloadStatus', () => {
+  it('uses the version status, or the document status for files without versions', () => {
+    expect(getDownloadStatus(document, version('SUPERSEDED'))).toBe('SUPERSEDED');
+    expect(getDownloadStatus(document, null)).toBe('APPROVED');
+    expect(getDownloadStatus({ ...document, status: 'PENDING_APPROVAL' } as Document, null)).toBe('DRAFT');
+  });
+});
+
+describe('buildDocumentStamp', () => {
+  it('keeps the approval date on superseded versions', () => {
+    const stamp = buildDocumentStamp(document, version('SUPERSEDED'), 'UNCONTROLLED', 'Jo Bloggs');
+
+    expect(stamp).toMatchObject({
+      documentNumber: 'QM-001',
+      versionString: '2.1',
+      status: 'SUPERSEDED',
+      approvedAt: APPROVED_AT,
+      copyType: 'UNCONTROLLED',
+      downloadedBy: 'Jo Bloggs',
+    });
+  });
+
+  it('shows no approval date on versions that were never approved', () => {
+    const stamp = buildDocumentStamp(document, version('REJECTED'), 'UNCONTROLLED', 'Jo Bloggs');
+
+    expect(stamp.approvedAt).toBeNull();
+  });
+
+  it('falls back to the document for files uploaded before versioning', () => {
+    const stamp = buildDocumentStamp(document, null, 'CONTROLLED', 'Jo Bloggs');
+
+    expect(stamp).toMatchObject({ versionString: '3.0', status: 'APPROVED', approvedAt: APPROVED_AT });
+  });
+});
+
+describe('stampPdf', () => {
+  async function pdfWithPages(count: number): Promise<Uint8Array> {
+    const pdf = await PDFDocument.create();
+    for (let i = 0; i < count; i++) pdf.addPage([595, 842]);
+    return pdf.save();
+  }
+
+  function stamp(status: DocumentStamp['status']): DocumentStamp {
+    return {
+      documentNumber: 'QM-001',
+      versionString: '2.1',
+      status,
+      approvedAt: APPROVED_AT,
+      copyType: 'UNCONTROLLED',
+      downloadedBy: 'Jo Bloggs',
+      downloadedAt: new Date('2026-10-19T00:00:00.000Z'),
+    };
+  }
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('stamps every page and keeps the page count', async () => {
+    const drawText = jest.spyOn(PDFPage.prototype, 'drawText');
+
+    const stamped = await PDFDocument.load(await stampPdf(await pdfWithPages(3), stamp('APPROVED')));
+
+    expect(stamped.getPageCount()).toBe(3);
+    const texts = drawText.mock.calls.map(([text]) => text);
+    expect(texts.filter((text) => text === 'UNCONTROLLED WHEN PRINTED')).toHaveLength(3);
+    expect(texts).not.toContain('SUPERSEDED');
+  });
+
+  it('watermarks superseded versions', async () => {
+    const drawText = jest.spyOn(PDFPage.prototype, 'drawText');
+
+    await stampPdf(await pdfWithPages(2), stamp('SUPERSEDED'));
+
+    const texts = drawText.mock.calls.map(([text]) => text);
+    expect(texts.filter((text) => text === 'SUPERSEDED')).toHaveLength(2);
+  });
+
+  it('throws on a file that is not a PDF', async () => {
+    await expect(stampPdf(new TextEncoder().encode('not a pdf'), stamp('APPROVED'))).rejects.toThrow();
+  });
+});
@@ -0,0 +1,117 @@
+import { db } from '../db';
+import { deleteFromR2 } from '../r2';
+import { createAuditLog } from '../audit-log';
+import { detectPhotoMimeType } from '../photo-processing';
+import { detectEvidenceMimeType, removeEvidence } from '../finding-evidence';
+
+jest.mock('../db', () => ({
+  db: {
+    findingEvidence: { findUnique: jest.fn(), update: jest.fn(), delete: jest.fn() },
+    auditChecklist: { findUniqueOrThrow: jest.fn(), update: jest.fn() },
+    $transaction: jest.fn(),
+  },
+}));
+
+jest.mock('../r2', () => ({ deleteFromR2: jest.fn() }));
+jest.mock('../audit-log', () => ({ createAuditLog: jest.fn() }));
+jest.mock('../photo-processing', () => ({
+  MAX_PHOTO_SIZE_BYTES: 25 * 1024 * 1024,
+  PHOTO_MIME_TYPES: ['image/jpeg', 'image/png', 'image/webp'],
+  detectPhotoMimeType: jest.fn(),
+  sanitizeFileName: (name: string) => name,
+}));
+
+const DOCX = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const ZIP_HEADER = Buffer.from([0x50, 0x4b, 0x03, 0x04, 0x14, 0x00]);
+
+const TARGET = {
+  type: 'checklist' as const,
+  organizationId: 'org-1',
+  auditId: 'audit-1',
+  checklistId: 'item-1',
+};
+
+describe('detectEvidenceMimeType', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.mocked(detectPhotoMimeType).mockResolvedValue(null);
+  });
+
+  it('recognises PDFs by signature whatever the browser declared', async () => {
+    expect(await detectEvidenceMimeType(Buffer.from('%PDF-1.7\n'), 'image/png')).toBe(
+      'application/pdf'
+    );
+  });
+
+  it('only accepts a ZIP container when it was declared as an Office file', async () => {
+    expect(await detectEvidenceMimeType(ZIP_HEADER, DOCX)).toBe(DOCX);
+    expect(await detectEvidenceMimeType(ZIP_HEADER, 'application/zip')).toBeNull();
+  });
+
+  it('falls back to image decoding and rejects anything else', async () => {
+    expect(await detectEvidenceMimeType(Buffer.from('MZ\x90\x00'), 'application/pdf')).toBeNull();
+    expect(detectPhotoMimeType).toHaveBeenCalled();
+  });
+});
+
+describe('removeEvidence', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.mocked(db.$transaction).mockImplementation(((run: (tx: typeof db) => unknown) =>
+      run(db)) as never);
+    jest.mocked(db.auditChecklist.findUniqueOrThrow).mockResolvedValue({
+      evidenceKeys: ['portal/evidence/a.jpg', 'portal/evidence/b.pdf'],
+    } as never);
+  });
+
+  it('keeps the file when a CAPA still references it', async () => {
+    jest.mocked(db.findingEvidence.findUnique).mockResolvedValue({
+      id: 'ev-1',
+      organizationId: 'org-1',
+      checklistId: 'item-1',
+      capaId: 'capa-1',
+      storageKey: 'portal/evidence/a.jpg',
+    } as never);
+
+    await removeEvidence(TARGET, 'ev-1');
+
+    expect(db.auditChecklist.update).toHaveBeenCalledWith({
+      where: { id: 'item-1' },
+      data: { evidenceKeys: ['portal/evidence/b.pdf'] },
+    });
+    expect(db.findingEvidence.update).toHaveBeenCalledWith({
+      where: { id: 'ev-1' },
+      data: { checklistId: null },
+    });
+    expect(db.findingEvidence.delete).not.toHaveBeenCalled();
+    expect(deleteFromR2).not.toHaveBeenCalled();
+  });
+
+  it('deletes the file once nothing links to it', async () => {
+    jest.mocked(db.findingEvidence.findUnique).mockResolvedValue({
+      id: 'ev-1',
+      organizationId: 'org-1',
+      checklistId: 'item-1',
+      capaId: null,
+      storageKey: 'portal/evidence/a.jpg',
+    } as never);
+
+    await removeEvidence(TARGET, 'ev-1');
+
+    expect(db.findingEvidence.delete).toHaveBeenCalledWith({ where: { id: 'ev-1' } });
+    expect(deleteFromR2).toHaveBeenCalledWith('portal/evidence/a.jpg');
+    expect(createAuditLog).toHaveBeenCalledWith(
+      expect.objectContaining({ metadata: { organizationId: 'org-1', fileDeleted: true } })
+    );
+  });
+
+  it('refuses evidence attached to a different question', async () => {
+    jest.mocked(db.findingEvidence.findUnique).mockResolvedValue({
+      id: 'ev-2',
+      checklistId: 'item-9',
+      capaId: null,
+    } as never);
+
+    await expect(removeEvidence(TARGET, 'ev-2')).rejects.toMatchObject({ status: 404 });
+  });
+});
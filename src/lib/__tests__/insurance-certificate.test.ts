@@ -0,0 +1,90 @@
+import {
+  CERTIFICATE_CONFIDENCE_THRESHOLD,
+  findAmounts,
+  findDates,
+  parseCertificateText,
+} from '../insurance-certificate';
+
+const VERO_CERTIFICATE = `
+CERTIFICATE OF CURRENCY
+Insurer: Vero Insurance New Zealand Limited
+Insured: Kiwi Roofing Limited
+Policy Number: PL-0123456 Class of Insurance: Public Liability
+Period of Insurance: 4.00pm 1 April 2026 to 4.00pm 1 April 2027
+Limit of Indemnity: $2,000,000 any one occurrence
+Excess: $1,000 each and every claim
+Broker: Crombie Lockwood (NZ) Limited
+`;
+
+const QBE_CERTIFICATE = `
+QBE Insurance (International) Limited
+Certificate of Currency - Contract Works
+Policy No.
+QBE123/456
+Period of Cover 01/07/2026 - 30/06/2027
+Limit of Liability NZ$5m
+Deductible Nil
+`;
+
+describe('parseCertificateText', () => {
+  it('reads a labelled Vero certificate', () => {
+    const { insurerProfile, fields, warnings } = parseCertificateText(VERO_CERTIFICATE);
+
+    expect(insurerProfile).toBe('vero');
+    expect(fields.insurer?.value).toBe('Vero Insurance New Zealand Limited');
+    expect(fields.policyType?.value).toBe('PUBLIC_LIABILITY');
+    expect(fields.policyNumber?.value).toBe('PL-0123456');
+    expect(fields.coverageAmount?.value).toBe(2_000_000);
+    expect(fields.excessAmount?.value).toBe(1_000);
+    expect(fields.effectiveDate?.value).toBe('2026-04-01');
+    expect(fields.expiryDate?.value).toBe('2027-04-01');
+    expect(fields.brokerName?.value).toBe('Crombie Lockwood');
+    expect(warnings).toEqual([]);
+
+    for (const field of Object.values(fields)) {
+      expect(field.confidence).toBeGreaterThanOrEqual(CERTIFICATE_CONFIDENCE_THRESHOLD);
+    }
+  });
+
+  it('reads values on the line after their label and nil excesses', () => {
+    const { insurerProfile, fields } = parseCertificateText(QBE_CERTIFICATE);
+
+    expect(insurerProfile).toBe('qbe');
+    expect(fields.policyType?.value).toBe('CONTRACT_WORKS');
+    expect(fields.policyNumber?.value).toBe('QBE123/456');
+    expect(fields.coverageAmount?.value).toBe(5_000_000);
+    expect(fields.excessAmount?.value).toBe(0);
+    expect(fields.effectiveDate?.value).toBe('2026-07-01');
+    expect(fields.expiryDate?.value).toBe('2027-06-30');
+    expect(fields.insurer!.confidence).toBeLessThan(0.95);
+  });
+
+  it('flags guesses and inconsistent values with low confidence', () => {
+    const { fields, warnings } = parseCertificateText(`
+      This certifies cover under public liability and statutory liability.
+      Policy Period: 1/04/2027 to 1/04/2026
+      Total cover $1,000,000
+    `);
+
+    expect(fields.policyType?.confidence).toBeLessThan(CERTIFICATE_CONFIDENCE_THRESHOLD);
+    expect(fields.coverageAmount?.confidence).toBeLessThan(CERTIFICATE_CONFIDENCE_THRESHOLD);
+    expect(fields.expiryDate?.confidence).toBeLessThan(CERTIFICATE_CONFIDENCE_THRESHOLD);
+    expect(fields.insurer).toBeUndefined();
+    expect(warnings).toHaveLength(2);
+  });
+});
+
+describe('findDates', () => {
+  it('reads NZ day-first and written dates', () => {
+    expect(findDates('12/03/2026, 5 Mar 2026, 2026-03-05, March 5, 2026').map((d) => d.value))
+      .toEqual(['2026-03-12', '2026-03-05', '2026-03-05', '2026-03-05']);
+    expect(findDates('31/02/2026')).toEqual([]);
+  });
+});
+
+describe('findAmounts', () => {
+  it('reads dollar amounts with separators and multipliers', () => {
+    expect(findAmounts('$2,000,000 and NZ$1.5m and $250k and $500.50').map((a) => a.value))
+      .toEqual([2_000_000, 1_500_000, 250_000, 500.5]);
+  });
+});
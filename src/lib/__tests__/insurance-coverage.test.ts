@@ -0,0 +1,110 @@
+import { analyzeCoverageTimeline } from '../insurance-coverage';
+
+jest.mock('../db', () => ({ db: {} }));
+
+let nextId = 0;
+
+function policy(
+  policyType: string,
+  effectiveDate: string,
+  expiryDate: string,
+  coverageAmount = 2_000_000
+) {
+  return {
+    id: `policy-${++nextId}`,
+    policyType,
+    policyNumber: `P-${nextId}`,
+    insurer: 'Vero',
+    coverageAmount,
+    effectiveDate: new Date(effectiveDate),
+    expiryDate: new Date(expiryDate),
+    verified: true,
+  } as unknown as Parameters<typeof analyzeCoverageTimeline>[0][number];
+}
+
+const REQUIRED_COVER = [
+  policy('PROFESSIONAL_INDEMNITY', '2025-01-01', '2027-01-01', 1_000_000),
+  policy('STATUTORY_LIABILITY', '2025-01-01', '2027-01-01', 1_000_000),
+];
+
+const PERIOD = {
+  from: new Date('2026-01-01'),
+  to: new Date('2026-12-31'),
+  currentTier: 'CERTIFIED' as const,
+};
+
+describe('analyzeCoverageTimeline', () => {
+  it('treats a renewal on the expiry date as continuous cover', () => {
+    const timeline = analyzeCoverageTimeline(
+      [
+        ...REQUIRED_COVER,
+        policy('PUBLIC_LIABILITY', '2025-07-01', '2026-07-01'),
+        policy('PUBLIC_LIABILITY', '2026-07-01', '2027-07-01'),
+      ],
+      [],
+      PERIOD
+    );
+
+    expect(timeline.issues).toEqual([]);
+    expect(timeline.continuousCover).toBe(true);
+  });
+
+  it('reports gaps and overlaps between policies', () => {
+    const timeline = analyzeCoverageTimeline(
+      [
+        ...REQUIRED_COVER,
+        policy('PUBLIC_LIABILITY', '2025-07-01', '2026-03-01'),
+        policy('PUBLIC_LIABILITY', '2026-03-15', '2026-10-01'),
+        policy('PUBLIC_LIABILITY', '2026-09-01', '2027-09-01'),
+      ],
+      [],
+      PERIOD
+    );
+    const publicLiability = timeline.types.find(
+      (t) => t.policyType === 'PUBLIC_LIABILITY'
+    )!;
+
+    expect(publicLiability.issues).toMatchObject([
+      { kind: 'GAP', from: '2026-03-01', to: '2026-03-15', days: 14 },
+      { kind: 'OVERLAP', from: '2026-09-01', to: '2026-10-01', days: 30 },
+    ]);
+    expect(publicLiability.continuous).toBe(false);
+    expect(timeline.continuousCover).toBe(false);
+  });
+
+  it('checks cover against the tier held at the time', () => {
+    const timeline = analyzeCoverageTimeline(
+      [...REQUIRED_COVER, policy('PUBLIC_LIABILITY', '2025-07-01', '2027-07-01')],
+      [
+        { tier: 'CERTIFIED', from: new Date(0) },
+        { tier: 'MASTER_ROOFER', from: new Date('2026-06-01') },
+      ],
+      PERIOD
+    );
+
+    expect(
+      timeline.issues.find((i) => i.policyType === 'PUBLIC_LIABILITY')
+    ).toMatchObject({
+      kind: 'UNDERINSURED',
+      from: '2026-06-01',
+      to: '2026-12-31',
+      tier: 'MASTER_ROOFER',
+      requiredCoverage: 5_000_000,
+      actualCoverage: 2_000_000,
+    });
+  });
+
+  it('does not require optional policy types', () => {
+    const timeline = analyzeCoverageTimeline(
+      [...REQUIRED_COVER, policy('PUBLIC_LIABILITY', '2025-07-01', '2027-07-01')],
+      [],
+      PERIOD
+    );
+    const motorVehicle = timeline.types.find(
+      (t) => t.policyType === 'MOTOR_VEHICLE'
+    )!;
+
+    expect(motorVehicle.required).toBe(false);
+    expect(motorVehicle.issues).toEqual([]);
+  });
+});
@@ -0,0 +1,105 @@
+import { db } from '../db';
+import { createAuditLog } from '../audit-log';
+import {
+  InsuranceVerificationError,
+  requestBrokerVerification,
+  submitBrokerVerification,
+} from '../insurance-verification';
+
+jest.mock('../db', () => ({
+  db: {
+    insurancePolicy: {
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    organizationMember: { findFirst: jest.fn() },
+  },
+}));
+jest.mock('../audit-log', () => ({ createAuditLog: jest.fn() }));
+jest.mock('../notifications', () => ({ notifyInsuranceVerificationRequest: jest.fn() }));
+jest.mock('../compliance-v2', () => ({ updateOrganizationComplianceScore: jest.fn() }));
+
+const policy = {
+  id: 'policy-1',
+  organizationId: 'org-1',
+  organization: { name: 'Acme Roofing', email: 'Office@Acme.nz' },
+};
+
+function request(brokerEmail: string) {
+  return requestBrokerVerification({
+    policyId: 'policy-1',
+    organizationId: 'org-1',
+    brokerEmail,
+  });
+}
+
+describe('requestBrokerVerification', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.mocked(db.insurancePolicy.findFirst).mockResolvedValue(policy as never);
+    jest.mocked(db.organizationMember.findFirst).mockResolvedValue(null);
+  });
+
+  it('refuses the business email as the broker', async () => {
+    await expect(request(' office@acme.nz')).rejects.toBeInstanceOf(InsuranceVerificationError);
+    expect(db.insurancePolicy.update).not.toHaveBeenCalled();
+  });
+
+  it('refuses a staff member email as the broker', async () => {
+    jest.mocked(db.organizationMember.findFirst).mockResolvedValue({ id: 'member-1' } as never);
+
+    await expect(request('Jo@Acme.nz')).rejects.toThrow('must not belong to your business');
+    expect(db.organizationMember.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { organizationId: 'org-1', email: { equals: 'jo@acme.nz', mode: 'insensitive' } },
+      })
+    );
+    expect(db.insurancePolicy.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('submitBrokerVerification', () => {
+  const pending = {
+    ...policy,
+    policyNumber: 'PL-1',
+    insurer: 'Vero',
+    coverageAmount: 2_000_000,
+    excessAmount: null,
+    effectiveDate: new Date('2026-07-01'),
+    expiryDate: new Date('2027-07-01'),
+    verified: false,
+    brokerEmail: 'broker@example.nz',
+    verificationTokenExpiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+  };
+
+  function submit(corrections = {}) {
+    return submitBrokerVerification({ token: 'token-1', confirmedBy: 'Sam Broker', corrections });
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.mocked(db.insurancePolicy.findUnique).mockResolvedValue(pending as never);
+    jest.mocked(db.insurancePolicy.updateMany).mockResolvedValue({ count: 1 });
+    jest.mocked(db.insurancePolicy.findUniqueOrThrow).mockResolvedValue(pending as never);
+  });
+
+  it('only applies the submission that still holds the token', async () => {
+    jest.mocked(db.insurancePolicy.updateMany).mockResolvedValueOnce({ count: 0 });
+
+    await expect(submit()).rejects.toMatchObject({ status: 404 });
+    expect(db.insurancePolicy.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'policy-1', verificationToken: 'token-1' } })
+    );
+    expect(createAuditLog).not.toHaveBeenCalled();
+  });
+
+  it('refuses a corrected expiry before the stored effective date', async () => {
+    await expect(submit({ expiryDate: new Date('2026-06-01') })).rejects.toThrow(
+      'Expiry date must be after the effective date'
+    );
+    expect(db.insurancePolicy.updateMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,134 @@
+import { db } from '../db';
+import { getOIDCConfig, linkOIDCUser, mapOIDCClaims, sanitizeReturnTo } from '../auth/providers/oidc';
+
+jest.mock('../db', () => ({
+  db: {
+    authUser: { findUnique: jest.fn(), update: jest.fn(), create: jest.fn() },
+    authCompany: { findUnique: jest.fn() },
+  },
+}));
+
+jest.mock('jose', () => ({ createRemoteJWKSet: jest.fn(), jwtVerify: jest.fn(), base64url: {} }));
+jest.mock('../auth/jwt', () => ({}));
+jest.mock('../auth/session', () => ({}));
+
+const ORIGIN = 'https://portal.ranz.co.nz';
+
+describe('sanitizeReturnTo', () => {
+  it('keeps same-origin paths with query and hash', () => {
+    expect(sanitizeReturnTo('/audits/1?tab=findings#q3', ORIGIN)).toBe('/audits/1?tab=findings#q3');
+  });
+
+  it.each([
+    null,
+    '',
+    'https://evil.com',
+    '//evil.com/x',
+    '/\\evil.com',
+    '/\t/evil.com/x',
+    '/\n/evil.com',
+    '/\u0000/evil.com',
+  ])('falls back to the dashboard for %j', (returnTo) => {
+    expect(sanitizeReturnTo(returnTo, ORIGIN)).toBe('/dashboard');
+  });
+});
+
+describe('mapOIDCClaims', () => {
+  const claims = { sub: 'sso-1', email: 'Jo@Example.nz ', name: 'Jo Bloggs', role: ['inspector', 'admin'] };
+
+  it('maps the configured claims and picks the most privileged role', () => {
+    const identity = mapOIDCClaims({ ...claims, email_verified: true }, getOIDCConfig());
+
+    expect(identity).toMatchObject({
+      ssoId: 'sso-1',
+      email: 'jo@example.nz',
+      emailVerified: true,
+      firstName: 'Jo',
+      lastName: 'Bloggs',
+      role: 'RANZ_ADMIN',
+    });
+  });
+
+  it('only trusts a missing email_verified claim when configured to', () => {
+    const config = getOIDCConfig();
+
+    expect(mapOIDCClaims(claims, config).emailVerified).toBe(false);
+    expect(mapOIDCClaims(claims, { ...config, trustMissingEmailVerified: true }).emailVerified).toBe(true);
+    expect(
+      mapOIDCClaims({ ...claims, email_verified: false }, { ...config, trustMissingEmailVerified: true })
+        .emailVerified
+    ).toBe(false);
+  });
+});
+
+describe('linkOIDCUser', () => {
+  const identity = {
+    ssoId: 'sso-1',
+    email: 'jo@example.nz',
+    emailVerified: true,
+    firstName: 'Jo',
+    lastName: 'Bloggs',
+    role: 'RANZ_ADMIN' as const,
+    companyId: undefined,
+  };
+  const existing = {
+    id: 'user-1',
+    ssoId: null,
+    status: 'ACTIVE',
+    userType: 'MEMBER_COMPANY_USER',
+    passwordHash: 'hash',
+    mustChangePassword: false,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.mocked(db.authUser.update).mockImplementation((args) => ({ id: 'user-1', ...args.data }) as never);
+  });
+
+  it('does not link an existing account by an unverified email', async () => {
+    jest.mocked(db.authUser.findUnique).mockResolvedValueOnce(null).mockResolvedValueOnce(existing as never);
+
+    await expect(linkOIDCUser({ ...identity, emailVerified: false })).rejects.toMatchObject({
+      code: 'email_not_verified',
+    });
+    expect(db.authUser.update).not.toHaveBeenCalled();
+  });
+
+  it('does not relink an account that belongs to another SSO identity', async () => {
+    jest
+      .mocked(db.authUser.findUnique)
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ ...existing, ssoId: 'sso-2' } as never);
+
+    await expect(linkOIDCUser(identity)).rejects.toMatchObject({ code: 'account_conflict' });
+  });
+
+  it('links an account by verified email and applies the role claim', async () => {
+    jest.mocked(db.authUser.findUnique).mockResolvedValueOnce(null).mockResolvedValueOnce(existing as never);
+
+    const result = await linkOIDCUser(identity);
+
+    expect(result).toMatchObject({ created: false, linked: true, previousRole: 'MEMBER_COMPANY_USER' });
+    expect(db.authUser.update).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ ssoId: 'sso-1', userType: 'RANZ_ADMIN' }) })
+    );
+  });
+
+  it('signs in an already linked account without checking the email', async () => {
+    jest.mocked(db.authUser.findUnique).mockResolvedValueOnce({ ...existing, ssoId: 'sso-1' } as never);
+
+    const result = await linkOIDCUser({ ...identity, emailVerified: false });
+
+    expect(result).toMatchObject({ linked: false });
+    expect(db.authUser.findUnique).toHaveBeenCalledTimes(1);
+  });
+
+  it('provisions a new user when nothing matches', async () => {
+    jest.mocked(db.authUser.findUnique).mockResolvedValue(null);
+    jest.mocked(db.authUser.create).mockResolvedValue({ id: 'user-2' } as never);
+
+    const result = await linkOIDCUser({ ...identity, emailVerified: false });
+
+    expect(result).toMatchObject({ created: true, linked: false });
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * @jest-environment node
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { db } from '../db';
+import { getAuthMode, getCurrentUser } from '../auth/index';
+import {
+  authorizeRequest,
+  roleHasPermission,
+  ROLE_PERMISSIONS,
+} from '../auth/rbac';
+import type { AuthenticatedUser, AuthUserRole, AuthUserStatusType } from '../auth/types';
+
+jest.mock('../db', () => ({
+  db: { authUserPermission: { findFirst: jest.fn() } },
+}));
+
+jest.mock('../auth/index', () => ({
+  getAuthMode: jest.fn(),
+  getCurrentUser: jest.fn(),
+}));
+
+const API_ROOT = path.join(__dirname, '../../app/api');
+
+// Route trees where every handler is guarded by the policy layer
+const GUARDED_TREES = ['admin', 'auditor'];
+
+// Individual routes outside those trees that are guarded by the policy layer.
+// /api/search only checks it for its cross-organisation modes.
+const EXTRA_ROUTES = ['auth/resend-welcome', 'search'];
+
+const ROLES = Object.keys(ROLE_PERMISSIONS) as AuthUserRole[];
+
+function findRouteFiles(dir: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) return findRouteFiles(fullPath);
+    return entry.name === 'route.ts' ? [fullPath] : [];
+  });
+}
+
+interface DeclaredHandler {
+  route: string;
+  method: string;
+  permission: string | null;
+}
+
+/**
+ * Read each exported handler and the permission it passes to authorizeRequest.
+ */
+function declaredHandlers(): DeclaredHandler[] {
+  const files = [
+    ...GUARDED_TREES.flatMap((tree) => findRouteFiles(path.join(API_ROOT, tree))),
+    ...EXTRA_ROUTES.map((route) => path.join(API_ROOT, route, 'route.ts')),
+  ].sort();
+
+  return files.flatMap((file) => {
+    const source = fs.readFileSync(file, 'utf8');
+    const route =
+      '/api/' + path.relative(API_ROOT, path.dirname(file)).split(path.sep).join('/');
+    // Any exported handler form counts; only the authorizeRequest call declares access
+    const handlers = source
+      .split(/^export (?:async function |function |const )(?=(?:GET|POST|PUT|PATCH|DELETE)\b)/m)
+      .slice(1);
+
+    return handlers.map((handler) => {
+      const method = handler.match(/^\w+/)![0];
+      const declared = handler.match(/authorizeRequest\(\s*\w+,\s*['"](\w+)['"]\s*\)/);
+      return { route, method, permission: declared ? declared[1] : null };
+    });
+  });
+}
+
+function user(
+  userType: AuthUserRole,
+  status: AuthUserStatusType = 'ACTIVE'
+): AuthenticatedUser {
+  return {
+    id: 'user-1',
+    email: 'someone@example.co.nz',
+    firstName: 'Some',
+    lastName: 'One',
+    userType,
+    status,
+    mustChangePassword: false,
+  };
+}
+
+const request = new Request('http://localhost/api/admin/stats');
+
+describe('roleHasPermission', () => {
+  it('denies roles it does not know', () => {
+    expect(roleHasPermission('RANZ_ADMIN', 'QP_ADMIN_SETTINGS')).toBe(true);
+    expect(roleHasPermission('ranz:admin', 'QP_ADMIN_SETTINGS')).toBe(false);
+    expect(roleHasPermission('constructor', 'QP_VIEW_DASHBOARD')).toBe(false);
+  });
+});
+
+describe('authorizeRequest', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.mocked(getAuthMode).mockReturnValue('custom');
+    jest.mocked(db.authUserPermission.findFirst).mockResolvedValue(null);
+  });
+
+  it('rejects anonymous and inactive users', async () => {
+    jest.mocked(getCurrentUser).mockResolvedValueOnce(null);
+    expect(await authorizeRequest(request, 'QP_ADMIN_REPORTS')).toMatchObject({ status: 401 });
+
+    jest.mocked(getCurrentUser).mockResolvedValueOnce(user('RANZ_ADMIN', 'SUSPENDED'));
+    expect(await authorizeRequest(request, 'QP_ADMIN_REPORTS')).toMatchObject({ status: 403 });
+  });
+
+  it('accepts role grants and explicit custom-auth grants', async () => {
+    jest.mocked(getCurrentUser).mockResolvedValue(user('MEMBER_COMPANY_ADMIN'));
+
+    expect(await authorizeRequest(request, 'QP_MANAGE_DOCUMENTS')).toMatchObject({
+      success: true,
+    });
+    expect(await authorizeRequest(request, 'QP_ADMIN_REPORTS')).toMatchObject({ status: 403 });
+
+    jest.mocked(db.authUserPermission.findFirst).mockResolvedValueOnce({ id: 'grant-1' } as never);
+    expect(await authorizeRequest(request, 'QP_ADMIN_REPORTS')).toMatchObject({ success: true });
+  });
+
+  it('only counts global grants, not grants scoped to the user company', async () => {
+    jest.mocked(getCurrentUser).mockResolvedValue({ ...user('MEMBER_COMPANY_ADMIN'), companyId: 'company-1' });
+
+    await authorizeRequest(request, 'QP_ADMIN_REPORTS');
+
+    expect(db.authUserPermission.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ permission: 'QP_ADMIN_REPORTS', companyId: null }),
+      })
+    );
+  });
+
+  it('ignores the grant table for Clerk identities', async () => {
+    jest.mocked(getAuthMode).mockReturnValue('clerk');
+    jest.mocked(getCurrentUser).mockResolvedValue(user('MEMBER_COMPANY_USER'));
+
+    expect(await authorizeRequest(request, 'QP_ADMIN_REPORTS')).toMatchObject({ status: 403 });
+    expect(db.authUserPermission.findFirst).not.toHaveBeenCalled();
+  });
+});
+
+describe('route access matrix', () => {
+  const handlers = declaredHandlers();
+
+  it('declares a permission on every guarded route handler', () => {
+    const undeclared = handlers
+      .filter((handler) => !handler.permission)
+      .map((handler) => `${handler.method} ${handler.route}`);
+
+    expect(handlers.length).toBeGreaterThan(0);
+    expect(undeclared).toEqual([]);
+  });
+
+  it('matches the reviewed role x route matrix', () => {
+    const rows = handlers.map((handler) => {
+      const allowed = ROLES.filter(
+        (role) => handler.permission && roleHasPermission(role, handler.permission as never)
+      );
+      return `${handler.method.padEnd(6)} ${handler.route} [${handler.permission}] ${allowed.join(', ')}`;
+    });
+
+    expect(rows.join('\n')).toMatchSnapshot();
+  });
+});
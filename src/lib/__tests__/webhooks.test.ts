@@ -0,0 +1,117 @@
+/**
+ * @jest-environment node
+ */
+
+import { createHmac } from 'crypto';
+import { db } from '../db';
+import {
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_SIGNATURE_HEADER,
+  attemptWebhookDelivery,
+  calculateWebhookRetryTime,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from '../webhooks';
+
+jest.mock('../db', () => ({
+  db: {
+    webhookDelivery: { updateMany: jest.fn(), findUniqueOrThrow: jest.fn(), update: jest.fn() },
+  },
+}));
+
+const SECRET = 'whsec_test';
+const BODY = '{"id":"event-1","type":"CERTIFICATION_CHANGED"}';
+const TIMESTAMP = 1_790_000_000;
+
+describe('signWebhookPayload', () => {
+  it('signs "<timestamp>.<body>" with HMAC-SHA256 in the documented header format', () => {
+    const digest = createHmac('sha256', SECRET).update(`${TIMESTAMP}.${BODY}`).digest('hex');
+
+    expect(signWebhookPayload(SECRET, BODY, TIMESTAMP)).toBe(`t=${TIMESTAMP},v1=${digest}`);
+  });
+});
+
+describe('verifyWebhookSignature', () => {
+  const header = signWebhookPayload(SECRET, BODY, TIMESTAMP);
+  const now = TIMESTAMP * 1000;
+
+  it('accepts a signature it produced', () => {
+    expect(verifyWebhookSignature(SECRET, BODY, header, now)).toBe(true);
+  });
+
+  it.each([
+    ['a changed body', SECRET, `${BODY} `, header],
+    ['another secret', 'whsec_other', BODY, header],
+    ['a missing digest', SECRET, BODY, `t=${TIMESTAMP}`],
+    ['a malformed timestamp', SECRET, BODY, header.replace(`t=${TIMESTAMP}`, 't=soon')],
+  ])('rejects %s', (_case, secret, body, signature) => {
+    expect(verifyWebhookSignature(secret, body, signature, now)).toBe(false);
+  });
+
+  it('rejects a signature more than five minutes old', () => {
+    expect(verifyWebhookSignature(SECRET, BODY, header, now + 5 * 60 * 1000)).toBe(true);
+    expect(verifyWebhookSignature(SECRET, BODY, header, now + 5 * 60 * 1000 + 1000)).toBe(false);
+  });
+});
+
+describe('calculateWebhookRetryTime', () => {
+  const failedAt = new Date('2026-10-19T00:00:00.000Z');
+
+  it('doubles from one minute and caps at six hours', () => {
+    const delays = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10].map(
+      (attempt) => (calculateWebhookRetryTime(attempt, failedAt).getTime() - failedAt.getTime()) / 60_000
+    );
+
+    expect(delays).toEqual([1, 2, 4, 8, 16, 32, 64, 128, 256, 360]);
+  });
+});
+
+describe('attemptWebhookDelivery', () => {
+  const delivery = {
+    id: 'delivery-1',
+    attemptCount: 0,
+    endpoint: { url: 'https://hooks.example.nz/ranz', secret: SECRET },
+    event: {
+      id: 'event-1',
+      type: 'CERTIFICATION_CHANGED',
+      organizationId: 'org-1',
+      data: {},
+      createdAt: new Date('2026-10-19T00:00:00.000Z'),
+    },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.mocked(db.webhookDelivery.updateMany).mockResolvedValue({ count: 1 });
+    jest.mocked(db.webhookDelivery.findUniqueOrThrow).mockResolvedValue(delivery as never);
+    global.fetch = jest.fn().mockResolvedValue(new Response('nope', { status: 500 }));
+  });
+
+  it('sends a signature the receiver can verify', async () => {
+    await attemptWebhookDelivery('delivery-1');
+
+    const [, init] = jest.mocked(global.fetch).mock.calls[0];
+    const headers = init!.headers as Record<string, string>;
+    expect(verifyWebhookSignature(SECRET, init!.body as string, headers[WEBHOOK_SIGNATURE_HEADER])).toBe(true);
+  });
+
+  it('schedules a retry after a failed attempt', async () => {
+    const result = await attemptWebhookDelivery('delivery-1');
+
+    const { data } = jest.mocked(db.webhookDelivery.update).mock.calls[0][0];
+    expect(result).toMatchObject({ success: false, responseStatus: 500 });
+    expect(data).toMatchObject({ status: 'PENDING', attemptCount: 1 });
+    expect((data.nextAttemptAt as Date).getTime() - (data.lastAttemptAt as Date).getTime()).toBe(60_000);
+  });
+
+  it('gives up after the last attempt', async () => {
+    jest
+      .mocked(db.webhookDelivery.findUniqueOrThrow)
+      .mockResolvedValue({ ...delivery, attemptCount: WEBHOOK_MAX_ATTEMPTS - 1 } as never);
+
+    await attemptWebhookDelivery('delivery-1');
+
+    const { data } = jest.mocked(db.webhookDelivery.update).mock.calls[0][0];
+    expect(data).toMatchObject({ status: 'FAILED', attemptCount: WEBHOOK_MAX_ATTEMPTS, nextAttemptAt: null });
+  });
+});
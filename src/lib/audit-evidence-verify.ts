@@ -0,0 +1,283 @@
+import { createHash } from "crypto";
+import { importSPKI, jwtVerify } from "jose";
+import {
+  auditEntryHashMatches,
+  canonicalJson,
+  verifyMerkleProof,
+  type MerkleProofStep,
+} from "./audit-hash";
+
+/**
+ * Offline verification of audit evidence bundles (see audit-evidence.ts).
+ *
+ * Deliberately has no database, environment or auth imports: an external
+ * auditor can run verifyEvidenceBundle() with nothing but the bundle file and
+ * RANZ's published public key, e.g. via scripts/verify-evidence-bundle.ts.
+ */
+
+// ============================================================================
+// Bundle Format
+// ============================================================================
+
+export const EVIDENCE_BUNDLE_FORMAT = "ranz-audit-evidence";
+export const EVIDENCE_BUNDLE_VERSION = 1;
+export const EVIDENCE_TOKEN_TYPE = "audit-evidence+jwt";
+const CHECKPOINT_TOKEN_TYPE = "audit-checkpoint+jwt";
+
+export type EvidenceScope =
+  | { type: "organization"; organizationId: string }
+  | { type: "resource"; resourceType: string; resourceId: string };
+
+export interface EvidenceEntry {
+  id: string;
+  eventId: string;
+  actorId: string;
+  actorEmail: string;
+  actorRole: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  action: string;
+  resourceType: string;
+  resourceId: string;
+  previousState: unknown;
+  newState: unknown;
+  metadata: unknown;
+  hash: string;
+  previousHash: string | null;
+  timestamp: string;
+}
+
+// Neighbouring chain entries proving an exported entry sits in the chain
+export interface EvidenceLink {
+  entryId: string;
+  predecessor: { id: string; hash: string } | null; // null = genesis entry
+  successor: { id: string; previousHash: string | null } | null; // null = chain head at export
+}
+
+export interface EvidenceCheckpoint {
+  fromId: string;
+  toId: string;
+  entryCount: number;
+  fromTimestamp: string;
+  toTimestamp: string;
+  previousHash: string | null;
+  lastHash: string;
+  merkleRoot: string;
+  signature: string;
+}
+
+// Merkle inclusion proof of an entry hash in a signed checkpoint
+export interface EvidenceInclusionProof {
+  entryId: string;
+  checkpointIndex: number; // Index into bundle.checkpoints
+  proof: MerkleProofStep[];
+}
+
+export interface EvidenceManifest {
+  format: string;
+  version: number;
+  bundleId: string;
+  generatedAt: string;
+  generatedBy: string;
+  scope: EvidenceScope;
+  window: { from: string; to: string };
+  entryCount: number;
+  firstEntryId: string | null;
+  lastEntryId: string | null;
+  hashAlgorithm: "SHA-256";
+  entriesDigest: string;
+  linksDigest: string;
+  checkpointsDigest: string;
+  proofsDigest: string;
+  keyId: string;
+}
+
+export interface EvidenceBundle {
+  manifest: EvidenceManifest;
+  signature: string; // RS256 JWT whose claims are the manifest
+  entries: EvidenceEntry[];
+  links: EvidenceLink[];
+  checkpoints: EvidenceCheckpoint[];
+  inclusionProofs: EvidenceInclusionProof[];
+  publicKey: string | null; // Convenience copy; verify against an independently obtained key
+}
+
+export interface EvidenceVerificationResult {
+  valid: boolean;
+  errors: string[];
+  entriesVerified: number;
+  entriesWithCheckpointProof: number;
+  entriesWithLinksOnly: number;
+}
+
+export function digestOf(value: unknown): string {
+  return createHash("sha256").update(canonicalJson(value)).digest("hex");
+}
+
+// ============================================================================
+// Verification
+// ============================================================================
+
+/**
+ * Checks a bundle end to end:
+ * 1. Manifest signature (RS256) and that the signed claims equal the manifest
+ * 2. Digests of entries, links, checkpoints and proofs match the manifest
+ * 3. Every entry hash recomputes from its contents
+ * 4. Each entry links to its predecessor and successor in the chain
+ * 5. Checkpoint signatures, and Merkle inclusion of each checkpointed entry
+ */
+export async function verifyEvidenceBundle(
+  bundle: EvidenceBundle,
+  publicKeyPem: string
+): Promise<EvidenceVerificationResult> {
+  const errors: string[] = [];
+  const result: EvidenceVerificationResult = {
+    valid: false,
+    errors,
+    entriesVerified: 0,
+    entriesWithCheckpointProof: 0,
+    entriesWithLinksOnly: 0,
+  };
+
+  const { manifest } = bundle;
+
+  if (manifest?.format !== EVIDENCE_BUNDLE_FORMAT || manifest.version !== EVIDENCE_BUNDLE_VERSION) {
+    errors.push(`Unsupported bundle format ${manifest?.format} v${manifest?.version}`);
+    return result;
+  }
+
+  let publicKey: CryptoKey;
+  try {
+    publicKey = await importSPKI(publicKeyPem.replace(/\\n/g, "\n"), "RS256");
+  } catch {
+    errors.push("Public key could not be read (expected SPKI PEM)");
+    return result;
+  }
+
+  // 1. Manifest signature
+  const signedManifest = await verifySigned(bundle.signature, publicKey, EVIDENCE_TOKEN_TYPE);
+  if (!signedManifest) {
+    errors.push("Manifest signature is invalid");
+  } else {
+    // Registered claims added at signing time are not part of the manifest
+    const claims = Object.fromEntries(
+      Object.entries(signedManifest).filter(([key]) => key !== "iat" && key !== "iss")
+    );
+    if (canonicalJson(claims) !== canonicalJson(manifest)) {
+      errors.push("Manifest differs from the signed manifest");
+    }
+  }
+
+  // 2. Digests
+  const digests: Array<[string, unknown, string]> = [
+    ["entries", bundle.entries, manifest.entriesDigest],
+    ["links", bundle.links, manifest.linksDigest],
+    ["checkpoints", bundle.checkpoints, manifest.checkpointsDigest],
+    ["inclusion proofs", bundle.inclusionProofs, manifest.proofsDigest],
+  ];
+  for (const [label, value, expected] of digests) {
+    if (digestOf(value) !== expected) {
+      errors.push(`Digest of ${label} does not match the manifest`);
+    }
+  }
+
+  if (bundle.entries.length !== manifest.entryCount) {
+    errors.push(`Manifest lists ${manifest.entryCount} entries, bundle has ${bundle.entries.length}`);
+  }
+
+  // 5a. Checkpoint signatures
+  const checkpointValid = await Promise.all(
+    bundle.checkpoints.map(async (checkpoint, index) => {
+      const claims = await verifySigned(checkpoint.signature, publicKey, CHECKPOINT_TOKEN_TYPE);
+      const ok =
+        !!claims &&
+        Object.entries(checkpoint).every(
+          ([key, value]) => key === "signature" || claims[key] === value
+        );
+      if (!ok) {
+        errors.push(`Checkpoint ${index} (entries ${checkpoint.fromId}-${checkpoint.toId}) signature is invalid`);
+      }
+      return ok;
+    })
+  );
+
+  const linksByEntry = new Map(bundle.links.map((link) => [link.entryId, link]));
+  const proofsByEntry = new Map(bundle.inclusionProofs.map((proof) => [proof.entryId, proof]));
+
+  let previousId: bigint | null = null;
+  for (const entry of bundle.entries) {
+    const entryErrors: string[] = [];
+    const id = BigInt(entry.id);
+
+    if (previousId !== null && id <= previousId) {
+      entryErrors.push(`Entry ${entry.id} is out of chain order`);
+    }
+    previousId = id;
+
+    // 3. Content hash
+    if (!auditEntryHashMatches({ ...entry, timestamp: new Date(entry.timestamp) })) {
+      entryErrors.push(`Entry ${entry.id} content does not match its hash`);
+    }
+
+    // 4. Chain links
+    const link = linksByEntry.get(entry.id);
+    if (!link) {
+      entryErrors.push(`Entry ${entry.id} has no chain links`);
+    } else {
+      if (link.predecessor === null ? entry.previousHash !== null : link.predecessor.hash !== entry.previousHash) {
+        entryErrors.push(`Entry ${entry.id} does not link to its predecessor`);
+      }
+      if (link.predecessor && BigInt(link.predecessor.id) >= id) {
+        entryErrors.push(`Entry ${entry.id} predecessor ${link.predecessor.id} is not earlier in the chain`);
+      }
+      if (link.successor) {
+        if (link.successor.previousHash !== entry.hash) {
+          entryErrors.push(`Entry ${entry.id} successor ${link.successor.id} does not link back to it`);
+        }
+        if (BigInt(link.successor.id) <= id) {
+          entryErrors.push(`Entry ${entry.id} successor ${link.successor.id} is not later in the chain`);
+        }
+      }
+    }
+
+    // 5b. Merkle inclusion in a signed checkpoint
+    const inclusion = proofsByEntry.get(entry.id);
+    if (inclusion) {
+      const checkpoint = bundle.checkpoints[inclusion.checkpointIndex];
+      if (
+        !checkpoint ||
+        !checkpointValid[inclusion.checkpointIndex] ||
+        id < BigInt(checkpoint.fromId) ||
+        id > BigInt(checkpoint.toId) ||
+        !verifyMerkleProof(entry.hash, inclusion.proof, checkpoint.merkleRoot)
+      ) {
+        entryErrors.push(`Entry ${entry.id} is not proven to be in its checkpoint`);
+      } else {
+        result.entriesWithCheckpointProof++;
+      }
+    } else {
+      result.entriesWithLinksOnly++;
+    }
+
+    if (entryErrors.length === 0) {
+      result.entriesVerified++;
+    }
+    errors.push(...entryErrors);
+  }
+
+  result.valid = errors.length === 0;
+  return result;
+}
+
+async function verifySigned(
+  token: string,
+  publicKey: CryptoKey,
+  type: string
+): Promise<Record<string, unknown> | null> {
+  try {
+    const { payload } = await jwtVerify(token, publicKey, { typ: type });
+    return payload;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,239 @@
+import { randomUUID } from "crypto";
+import type { AuditLog, Prisma } from "@prisma/client";
+import { db } from "./db";
+import { signStatement } from "./auth/jwt";
+import { computeMerkleProof } from "./audit-hash";
+import {
+  EVIDENCE_BUNDLE_FORMAT,
+  EVIDENCE_BUNDLE_VERSION,
+  EVIDENCE_TOKEN_TYPE,
+  digestOf,
+  type EvidenceBundle,
+  type EvidenceCheckpoint,
+  type EvidenceEntry,
+  type EvidenceInclusionProof,
+  type EvidenceLink,
+  type EvidenceManifest,
+  type EvidenceScope,
+} from "./audit-evidence-verify";
+
+// Bundles are built in memory and returned in one response
+export const MAX_EVIDENCE_ENTRIES = 5000;
+
+export class EvidenceTooLargeError extends Error {
+  constructor(public readonly entryCount: number) {
+    super(
+      `${entryCount} audit entries match; narrow the date range to at most ${MAX_EVIDENCE_ENTRIES}`
+    );
+    this.name = "EvidenceTooLargeError";
+  }
+}
+
+/**
+ * Builds a self-contained, signed evidence bundle of the audit log entries
+ * for one organization or resource in a date range.
+ *
+ * Alongside the entries it carries, per entry, the neighbouring chain links
+ * and (for checkpointed entries) a Merkle inclusion proof against the signed
+ * checkpoint, so verifyEvidenceBundle() can check it without database access.
+ */
+export async function buildEvidenceBundle(options: {
+  scope: EvidenceScope;
+  from: Date;
+  to: Date;
+  generatedBy: string;
+}): Promise<EvidenceBundle> {
+  const where: Prisma.AuditLogWhereInput = {
+    timestamp: { gte: options.from, lte: options.to },
+    ...scopeFilter(options.scope),
+  };
+
+  const count = await db.auditLog.count({ where });
+  if (count > MAX_EVIDENCE_ENTRIES) {
+    throw new EvidenceTooLargeError(count);
+  }
+
+  const rows = await db.auditLog.findMany({
+    where,
+    orderBy: { id: "asc" },
+  });
+
+  const links = await buildLinks(rows);
+
+  const { checkpoints, inclusionProofs } = await buildInclusionProofs(rows);
+
+  const entries = rows.map(toEvidenceEntry);
+  const keyId = process.env.JWT_KEY_ID || "ranz-auth-key-1";
+
+  const manifest: EvidenceManifest = {
+    format: EVIDENCE_BUNDLE_FORMAT,
+    version: EVIDENCE_BUNDLE_VERSION,
+    bundleId: randomUUID(),
+    generatedAt: new Date().toISOString(),
+    generatedBy: options.generatedBy,
+    scope: options.scope,
+    window: { from: options.from.toISOString(), to: options.to.toISOString() },
+    entryCount: entries.length,
+    firstEntryId: entries[0]?.id ?? null,
+    lastEntryId: entries[entries.length - 1]?.id ?? null,
+    hashAlgorithm: "SHA-256",
+    entriesDigest: digestOf(entries),
+    linksDigest: digestOf(links),
+    checkpointsDigest: digestOf(checkpoints),
+    proofsDigest: digestOf(inclusionProofs),
+    keyId,
+  };
+
+  const { token } = await signStatement(
+    manifest as unknown as Record<string, unknown>,
+    EVIDENCE_TOKEN_TYPE
+  );
+
+  return {
+    manifest,
+    signature: token,
+    entries,
+    links,
+    checkpoints,
+    inclusionProofs,
+    publicKey: process.env.JWT_PUBLIC_KEY?.replace(/\\n/g, "\n") ?? null,
+  };
+}
+
+function scopeFilter(scope: EvidenceScope): Prisma.AuditLogWhereInput {
+  if (scope.type === "resource") {
+    return { resourceType: scope.resourceType, resourceId: scope.resourceId };
+  }
+
+  // createAuditLog requires organization-owned resources to record the
+  // organization in metadata (see GLOBAL_AUDIT_RESOURCE_TYPES)
+  return {
+    OR: [
+      { resourceType: "Organization", resourceId: scope.organizationId },
+      { metadata: { path: ["organizationId"], equals: scope.organizationId } },
+    ],
+  };
+}
+
+async function buildLinks(rows: AuditLog[]): Promise<EvidenceLink[]> {
+  // Ids are autoincrement, so neighbours are almost always id - 1 and id + 1;
+  // fetch those in one query and only look further on sequence gaps
+  const neighbourIds = rows.flatMap((row) => [row.id - BigInt(1), row.id + BigInt(1)]);
+  const neighbours = await db.auditLog.findMany({
+    where: { id: { in: neighbourIds } },
+    select: { id: true, hash: true, previousHash: true },
+  });
+  const byId = new Map(neighbours.map((n) => [n.id, n]));
+
+  const links: EvidenceLink[] = [];
+  for (const row of rows) {
+    const predecessor =
+      byId.get(row.id - BigInt(1)) ??
+      (await db.auditLog.findFirst({
+        where: { id: { lt: row.id } },
+        orderBy: { id: "desc" },
+        select: { id: true, hash: true, previousHash: true },
+      }));
+    const successor =
+      byId.get(row.id + BigInt(1)) ??
+      (await db.auditLog.findFirst({
+        where: { id: { gt: row.id } },
+        orderBy: { id: "asc" },
+        select: { id: true, hash: true, previousHash: true },
+      }));
+
+    links.push({
+      entryId: row.id.toString(),
+      predecessor: predecessor
+        ? { id: predecessor.id.toString(), hash: predecessor.hash }
+        : null,
+      successor: successor
+        ? { id: successor.id.toString(), previousHash: successor.previousHash }
+        : null,
+    });
+  }
+
+  return links;
+}
+
+async function buildInclusionProofs(rows: AuditLog[]): Promise<{
+  checkpoints: EvidenceCheckpoint[];
+  inclusionProofs: EvidenceInclusionProof[];
+}> {
+  const checkpoints: EvidenceCheckpoint[] = [];
+  const inclusionProofs: EvidenceInclusionProof[] = [];
+
+  if (rows.length === 0) {
+    return { checkpoints, inclusionProofs };
+  }
+
+  const covering = await db.auditLogCheckpoint.findMany({
+    where: {
+      toId: { gte: rows[0].id },
+      fromId: { lte: rows[rows.length - 1].id },
+    },
+    orderBy: { fromId: "asc" },
+  });
+
+  for (const checkpoint of covering) {
+    const inRange = rows.filter(
+      (row) => row.id >= checkpoint.fromId && row.id <= checkpoint.toId
+    );
+    if (inRange.length === 0) continue;
+
+    // Leaves of the whole checkpoint are needed to derive the sibling path
+    const leaves = await db.auditLog.findMany({
+      where: { id: { gte: checkpoint.fromId, lte: checkpoint.toId } },
+      orderBy: { id: "asc" },
+      select: { id: true, hash: true },
+    });
+    const hashes = leaves.map((leaf) => leaf.hash);
+    const indexById = new Map(leaves.map((leaf, i) => [leaf.id, i]));
+
+    const checkpointIndex = checkpoints.length;
+    checkpoints.push({
+      fromId: checkpoint.fromId.toString(),
+      toId: checkpoint.toId.toString(),
+      entryCount: checkpoint.entryCount,
+      fromTimestamp: checkpoint.fromTimestamp.toISOString(),
+      toTimestamp: checkpoint.toTimestamp.toISOString(),
+      previousHash: checkpoint.previousHash,
+      lastHash: checkpoint.lastHash,
+      merkleRoot: checkpoint.merkleRoot,
+      signature: checkpoint.signature,
+    });
+
+    for (const row of inRange) {
+      const index = indexById.get(row.id);
+      if (index === undefined) continue;
+      inclusionProofs.push({
+        entryId: row.id.toString(),
+        checkpointIndex,
+        proof: computeMerkleProof(hashes, index),
+      });
+    }
+  }
+
+  return { checkpoints, inclusionProofs };
+}
+
+function toEvidenceEntry(row: AuditLog): EvidenceEntry {
+  return {
+    id: row.id.toString(),
+    eventId: row.eventId,
+    actorId: row.actorId,
+    actorEmail: row.actorEmail,
+    actorRole: row.actorRole,
+    ipAddress: row.ipAddress,
+    userAgent: row.userAgent,
+    action: row.action,
+    resourceType: row.resourceType,
+    resourceId: row.resourceId,
+    previousState: row.previousState,
+    newState: row.newState,
+    metadata: row.metadata,
+    hash: row.hash,
+    previousHash: row.previousHash,
+    timestamp: row.timestamp.toISOString(),
+  };
+}
@@ -0,0 +1,162 @@
+import { createHash } from "crypto";
+
+/**
+ * Pure hashing primitives for the audit log hash chain. Kept free of database
+ * and auth imports so exported evidence bundles can be verified offline with
+ * the same code that wrote the chain.
+ */
+
+export interface HashableEntry {
+  eventId: string;
+  actorId: string;
+  action: string;
+  resourceType: string;
+  resourceId: string;
+  timestamp: Date;
+  previousHash: string | null;
+  previousState: unknown;
+  newState: unknown;
+  metadata: unknown;
+}
+
+/**
+ * JSON with object keys sorted at every level. Postgres jsonb does not keep
+ * key order, so hashing JSON.stringify output of the caller's object cannot
+ * be reproduced from the stored row.
+ */
+export function canonicalJson(value: unknown): string {
+  // Round-trip first so Dates, undefined fields etc. match what jsonb stores
+  const plain = value === undefined ? null : JSON.parse(JSON.stringify(value));
+  return JSON.stringify(sortKeys(plain));
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, sortKeys((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+/**
+ * SHA-256 over the pipe-delimited entry fields. `legacy` reproduces the
+ * original serialization (JSON.stringify as returned by the database) so
+ * entries written before canonical hashing still verify.
+ */
+export function computeAuditEntryHash(entry: HashableEntry, legacy = false): string {
+  const serialize = legacy
+    ? (value: unknown) => JSON.stringify(value ?? null)
+    : canonicalJson;
+
+  const hashInput = [
+    entry.eventId,
+    entry.actorId,
+    entry.action,
+    entry.resourceType,
+    entry.resourceId,
+    entry.timestamp.toISOString(),
+    entry.previousHash || "genesis",
+    serialize(entry.previousState ?? null),
+    serialize(entry.newState ?? null),
+    serialize(entry.metadata ?? null),
+  ].join("|");
+
+  return createHash("sha256").update(hashInput).digest("hex");
+}
+
+export function auditEntryHashMatches(entry: HashableEntry & { hash: string }): boolean {
+  return (
+    entry.hash === computeAuditEntryHash(entry) ||
+    entry.hash === computeAuditEntryHash(entry, true)
+  );
+}
+
+/**
+ * Merkle root over entry hashes in chain order. Leaves and nodes are
+ * domain-separated (0x00 / 0x01 prefix, as in RFC 6962) and an odd node is
+ * promoted to the next level unchanged.
+ */
+export function computeMerkleRoot(hashes: string[]): string {
+  if (hashes.length === 0) {
+    return createHash("sha256").update("").digest("hex");
+  }
+
+  let level: Buffer[] = hashes.map(merkleLeaf);
+
+  while (level.length > 1) {
+    const next: Buffer[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      if (i + 1 === level.length) {
+        next.push(level[i]);
+      } else {
+        next.push(merkleNode(level[i], level[i + 1]));
+      }
+    }
+    level = next;
+  }
+
+  return level[0].toString("hex");
+}
+
+export interface MerkleProofStep {
+  position: "left" | "right"; // Side the sibling sits on
+  hash: string;
+}
+
+/**
+ * Sibling path from the leaf at `index` to the root of computeMerkleRoot().
+ * Levels where the node is promoted without a sibling contribute no step.
+ */
+export function computeMerkleProof(hashes: string[], index: number): MerkleProofStep[] {
+  const proof: MerkleProofStep[] = [];
+  let level: Buffer[] = hashes.map(merkleLeaf);
+  let position = index;
+
+  while (level.length > 1) {
+    const sibling = position % 2 === 0 ? position + 1 : position - 1;
+    if (sibling < level.length) {
+      proof.push({
+        position: sibling < position ? "left" : "right",
+        hash: level[sibling].toString("hex"),
+      });
+    }
+
+    const next: Buffer[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 === level.length ? level[i] : merkleNode(level[i], level[i + 1]));
+    }
+    level = next;
+    position = Math.floor(position / 2);
+  }
+
+  return proof;
+}
+
+export function verifyMerkleProof(
+  leafHash: string,
+  proof: MerkleProofStep[],
+  root: string
+): boolean {
+  let node = merkleLeaf(leafHash);
+  for (const step of proof) {
+    const sibling = Buffer.from(step.hash, "hex");
+    node = step.position === "left" ? merkleNode(sibling, node) : merkleNode(node, sibling);
+  }
+  return node.toString("hex") === root;
+}
+
+function merkleLeaf(hash: string): Buffer {
+  return createHash("sha256")
+    .update(Buffer.concat([Buffer.from([0]), Buffer.from(hash, "hex")]))
+    .digest();
+}
+
+function merkleNode(left: Buffer, right: Buffer): Buffer {
+  return createHash("sha256")
+    .update(Buffer.concat([Buffer.from([1]), left, right]))
+    .digest();
+}
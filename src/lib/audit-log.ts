@@ -1,19 +1,77 @@
 import { db } from "./db";
 import { auth } from "@clerk/nextjs/server";
 import { AuditAction, Prisma } from "@prisma/client";
-import { createHash, randomUUID } from "crypto";
+import { randomUUID } from "crypto";
+import { signStatement, verifyStatement } from "./auth/jwt";
+import {
+  auditEntryHashMatches,
+  computeAuditEntryHash,
+  computeMerkleRoot,
+} from "./audit-hash";
 
-interface AuditLogInput {
+/**
+ * Programme-wide resources that belong to no single organization. Every
+ * other resource type must name its organization in metadata, which is how
+ * organization-scoped evidence bundles find its entries.
+ */
+export const GLOBAL_AUDIT_RESOURCE_TYPES = [
+  "AuditEvidenceBundle", // Resource-scoped exports can span organizations
+  "AuditQuestionSet",
+  "AuditorProfile",
+  "AuditorUnavailability",
+  "CPDRequirement",
+  "ChecklistItem",
+  "ChecklistSection",
+  "ChecklistTemplate",
+  "MemberDirectory",
+  "MicroCredentialDefinition",
+  "Report", // Programme-wide admin reports
+  "ScoringPolicy",
+  "WebhookDelivery",
+  "WebhookEndpoint",
+] as const;
+
+type GlobalAuditResourceType = (typeof GLOBAL_AUDIT_RESOURCE_TYPES)[number];
+
+interface AuditLogBase {
   action: AuditAction;
-  resourceType: string;
   resourceId: string;
   previousState?: Record<string, unknown> | null;
   newState?: Record<string, unknown> | null;
-  metadata?: Record<string, unknown> | null;
   ipAddress?: string;
   userAgent?: string;
 }
 
+export type AuditLogInput = AuditLogBase &
+  (
+    | {
+        resourceType: GlobalAuditResourceType;
+        metadata?: Record<string, unknown> | null;
+      }
+    | {
+        resourceType: string;
+        metadata: { organizationId: string } & Record<string, unknown>;
+      }
+  );
+
+// Key for the Postgres advisory lock that serializes chain appends
+const AUDIT_CHAIN_LOCK_KEY = 0x52414e5a; // "RANZ"
+
+// Rows fetched per query when walking the chain
+const VERIFY_BATCH_SIZE = 1000;
+
+// Upper bound on entries covered by one checkpoint (bounds Merkle memory use)
+export const CHECKPOINT_MAX_ENTRIES = 10_000;
+
+export const CHECKPOINT_TOKEN_TYPE = "audit-checkpoint+jwt";
+
+// Stop collecting broken ranges after this many; the report is already damning
+const MAX_REPORTED_BREAKS = 100;
+
+// ============================================================================
+// Writing
+// ============================================================================
+
 /**
  * Creates tamper-evident audit log entry with SHA-256 hash chain.
  *
@@ -21,6 +79,8 @@ interface AuditLogInput {
  * - Each entry computes SHA-256 of: eventId + actor + action + resource + timestamp + previousHash + states
  * - previousHash links to most recent entry, creating mathematical dependency
  * - Tampering with any entry breaks the chain for all subsequent entries
+ * - Appends hold a transaction-scoped advisory lock so concurrent writers
+ *   cannot both chain to the same previous entry and fork the chain
  */
 export async function createAuditLog(input: AuditLogInput): Promise<void> {
   try {
@@ -42,52 +102,53 @@ export async function createAuditLog(input: AuditLogInput): Promise<void> {
       actorId = "system:cron";
     }
 
-    // Fetch most recent audit log entry to chain to
-    const previousEntry = await db.auditLog.findFirst({
-      orderBy: { id: "desc" },
-      select: { hash: true },
-    });
+    await db.$transaction(async (tx) => {
+      // Released automatically on commit/rollback
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(${AUDIT_CHAIN_LOCK_KEY})`;
+
+      // Fetch most recent audit log entry to chain to
+      const previousEntry = await tx.auditLog.findFirst({
+        orderBy: { id: "desc" },
+        select: { hash: true },
+      });
 
-    const eventId = randomUUID();
-    const timestamp = new Date();
-    const previousHash = previousEntry?.hash || null;
-
-    // Compute SHA-256 hash linking this entry to previous
-    // CRITICAL: Use consistent serialization (pipe-delimited, ISO dates)
-    const hashInput = [
-      eventId,
-      actorId,
-      input.action,
-      input.resourceType,
-      input.resourceId,
-      timestamp.toISOString(),
-      previousHash || "genesis",
-      JSON.stringify(input.previousState || null),
-      JSON.stringify(input.newState || null),
-      JSON.stringify(input.metadata || null),
-    ].join("|");
-
-    const hash = createHash("sha256").update(hashInput).digest("hex");
-
-    // Write audit log entry (immutable - never UPDATE or DELETE)
-    await db.auditLog.create({
-      data: {
+      const eventId = randomUUID();
+      const timestamp = new Date();
+      const previousHash = previousEntry?.hash || null;
+
+      const hash = computeAuditEntryHash({
         eventId,
         actorId,
-        actorEmail,
-        actorRole,
-        ipAddress: input.ipAddress || null,
-        userAgent: input.userAgent || null,
         action: input.action,
         resourceType: input.resourceType,
         resourceId: input.resourceId,
-        previousState: input.previousState ? (input.previousState as Prisma.InputJsonValue) : Prisma.DbNull,
-        newState: input.newState ? (input.newState as Prisma.InputJsonValue) : Prisma.DbNull,
-        metadata: input.metadata ? (input.metadata as Prisma.InputJsonValue) : Prisma.DbNull,
-        hash,
-        previousHash,
         timestamp,
-      },
+        previousHash,
+        previousState: input.previousState || null,
+        newState: input.newState || null,
+        metadata: input.metadata || null,
+      });
+
+      // Write audit log entry (immutable - never UPDATE or DELETE)
+      await tx.auditLog.create({
+        data: {
+          eventId,
+          actorId,
+          actorEmail,
+          actorRole,
+          ipAddress: input.ipAddress || null,
+          userAgent: input.userAgent || null,
+          action: input.action,
+          resourceType: input.resourceType,
+          resourceId: input.resourceId,
+          previousState: input.previousState ? (input.previousState as Prisma.InputJsonValue) : Prisma.DbNull,
+          newState: input.newState ? (input.newState as Prisma.InputJsonValue) : Prisma.DbNull,
+          metadata: input.metadata ? (input.metadata as Prisma.InputJsonValue) : Prisma.DbNull,
+          hash,
+          previousHash,
+          timestamp,
+        },
+      });
     });
   } catch (error) {
     // Log but don't throw - audit logging failure shouldn't break application
@@ -95,80 +156,435 @@ export async function createAuditLog(input: AuditLogInput): Promise<void> {
   }
 }
 
+// ============================================================================
+// Verification
+// ============================================================================
+
+export interface AuditChainBreak {
+  fromId: bigint;
+  toId: bigint;
+  fromTimestamp: Date;
+  toTimestamp: Date;
+  reasons: string[];
+}
+
+export interface AuditCheckpointFailure {
+  checkpointId: string;
+  fromId: bigint;
+  toId: bigint;
+  reason: string;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  totalEntries: number;
+  firstId?: bigint;
+  lastId?: bigint;
+  brokenAt?: bigint; // First entry of the first broken range
+  message?: string;
+  brokenRanges: AuditChainBreak[];
+  checkpointsVerified: number;
+  checkpointFailures: AuditCheckpointFailure[];
+  uncheckpointedEntries: number; // Covered by chain linkage only
+}
+
+type CheckpointRow = Prisma.AuditLogCheckpointGetPayload<object>;
+
 /**
- * Verifies integrity of entire audit log hash chain.
+ * Verifies integrity of the audit log hash chain, either in full or for the
+ * entries in a time window.
  *
  * Verification Process:
- * 1. Fetch all entries in chronological order
- * 2. For each entry, verify previousHash matches actual previous entry's hash
+ * 1. Walk entries in id order in batches (never the whole table in memory)
+ * 2. For each entry, verify previousHash matches the preceding entry's hash
  * 3. Recompute hash from entry data and compare to stored hash
- * 4. Any mismatch indicates tampering
+ * 4. For each checkpoint in range, verify its signature and recompute its
+ *    Merkle root, entry count and last hash
+ * 5. Report every broken range rather than stopping at the first
+ *
+ * A window is widened to whole checkpoints so their roots can be recomputed.
+ * The first entry is anchored to the signed previousHash of its checkpoint,
+ * or to the stored hash of the preceding entry when it is not checkpointed.
  */
-export async function verifyAuditChain(): Promise<{
-  valid: boolean;
-  brokenAt?: bigint;
-  message?: string;
-  totalEntries?: number;
-}> {
+export async function verifyAuditChain(window?: {
+  from?: Date;
+  to?: Date;
+}): Promise<AuditChainVerification> {
   try {
-    const entries = await db.auditLog.findMany({
+    if (!window?.from && !window?.to) {
+      return await verifyEntryRange({ anchorHash: null, checkContinuity: true });
+    }
+
+    const [first, last] = await Promise.all([
+      db.auditLog.findFirst({
+        where: window.from ? { timestamp: { gte: window.from } } : {},
+        orderBy: { id: "asc" },
+        select: { id: true },
+      }),
+      db.auditLog.findFirst({
+        where: window.to ? { timestamp: { lte: window.to } } : {},
+        orderBy: { id: "desc" },
+        select: { id: true },
+      }),
+    ]);
+
+    if (!first || !last || first.id > last.id) {
+      return emptyVerification();
+    }
+
+    const [startCheckpoint, endCheckpoint] = await Promise.all([
+      db.auditLogCheckpoint.findFirst({
+        where: { fromId: { lte: first.id }, toId: { gte: first.id } },
+      }),
+      db.auditLogCheckpoint.findFirst({
+        where: { fromId: { lte: last.id }, toId: { gte: last.id } },
+      }),
+    ]);
+
+    const fromId = startCheckpoint?.fromId ?? first.id;
+    const toId = endCheckpoint?.toId ?? last.id;
+
+    let anchorHash: string | null;
+    if (startCheckpoint) {
+      anchorHash = startCheckpoint.previousHash;
+    } else {
+      const preceding = await db.auditLog.findFirst({
+        where: { id: { lt: fromId } },
+        orderBy: { id: "desc" },
+        select: { hash: true },
+      });
+      anchorHash = preceding?.hash ?? null;
+    }
+
+    return await verifyEntryRange({ fromId, toId, anchorHash, checkContinuity: false });
+  } catch (error) {
+    console.error("Failed to verify audit chain:", error);
+    return {
+      ...emptyVerification(),
+      valid: false,
+      message: `Verification failed: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
+
+async function verifyEntryRange(options: {
+  fromId?: bigint;
+  toId?: bigint;
+  anchorHash: string | null;
+  checkContinuity: boolean;
+}): Promise<AuditChainVerification> {
+  const result = emptyVerification();
+
+  const checkpoints = await db.auditLogCheckpoint.findMany({
+    where: {
+      ...(options.fromId !== undefined && { fromId: { gte: options.fromId } }),
+      ...(options.toId !== undefined && { toId: { lte: options.toId } }),
+    },
+    orderBy: { fromId: "asc" },
+  });
+
+  for (let i = 0; i < checkpoints.length; i++) {
+    const reason = await checkCheckpointSignature(checkpoints[i]);
+    if (reason) {
+      addCheckpointFailure(result, checkpoints[i], reason);
+    }
+    if (
+      options.checkContinuity &&
+      i > 0 &&
+      checkpoints[i].previousHash !== checkpoints[i - 1].lastHash
+    ) {
+      addCheckpointFailure(
+        result,
+        checkpoints[i],
+        "Does not continue from the previous checkpoint (a checkpoint may have been removed)"
+      );
+    }
+  }
+
+  let expectedPreviousHash = options.anchorHash;
+  let previous: { id: bigint; timestamp: Date } | null = null;
+  let cursor = options.fromId !== undefined ? options.fromId - BigInt(1) : undefined;
+
+  // Leaves of the checkpoint currently being walked
+  let checkpointIndex = 0;
+  let leaves: string[] = [];
+
+  const finishCheckpoint = () => {
+    const checkpoint = checkpoints[checkpointIndex];
+    if (leaves.length !== checkpoint.entryCount) {
+      addCheckpointFailure(
+        result,
+        checkpoint,
+        `Expected ${checkpoint.entryCount} entries, found ${leaves.length}`
+      );
+    } else if (computeMerkleRoot(leaves) !== checkpoint.merkleRoot) {
+      addCheckpointFailure(result, checkpoint, "Merkle root does not match entries");
+    } else if (leaves[leaves.length - 1] !== checkpoint.lastHash) {
+      addCheckpointFailure(result, checkpoint, "Last entry hash does not match");
+    } else if (!result.checkpointFailures.some((f) => f.checkpointId === checkpoint.id)) {
+      result.checkpointsVerified++;
+    }
+    leaves = [];
+    checkpointIndex++;
+  };
+
+  while (true) {
+    const batch = await db.auditLog.findMany({
+      where: {
+        id: {
+          ...(cursor !== undefined && { gt: cursor }),
+          ...(options.toId !== undefined && { lte: options.toId }),
+        },
+      },
       orderBy: { id: "asc" },
+      take: VERIFY_BATCH_SIZE,
     });
 
-    if (entries.length === 0) {
-      return { valid: true, totalEntries: 0 };
+    if (batch.length === 0) break;
+
+    for (const entry of batch) {
+      result.totalEntries++;
+      result.firstId ??= entry.id;
+      result.lastId = entry.id;
+
+      // Close checkpoints whose range ended before this entry
+      while (
+        checkpointIndex < checkpoints.length &&
+        checkpoints[checkpointIndex].toId < entry.id
+      ) {
+        finishCheckpoint();
+      }
+
+      const checkpoint = checkpoints[checkpointIndex];
+      if (checkpoint && entry.id >= checkpoint.fromId) {
+        if (entry.id === checkpoint.fromId && entry.previousHash !== checkpoint.previousHash) {
+          addCheckpointFailure(result, checkpoint, "First entry does not link to the signed previous hash");
+        }
+        leaves.push(entry.hash);
+      } else {
+        result.uncheckpointedEntries++;
+      }
+
+      const reasons: string[] = [];
+      if (entry.previousHash !== expectedPreviousHash) {
+        reasons.push(
+          `Entry ${entry.id} previousHash ${entry.previousHash ?? "null"} does not match preceding hash ${expectedPreviousHash ?? "null"}`
+        );
+      }
+      if (!auditEntryHashMatches(entry)) {
+        reasons.push(`Entry ${entry.id} content does not match its stored hash`);
+      }
+
+      if (reasons.length > 0) {
+        // A linkage failure means either side of the link may have been altered
+        const linkFailed = entry.previousHash !== expectedPreviousHash;
+        const start = linkFailed && previous ? previous : entry;
+        addBreak(result, start, entry, reasons);
+      }
+
+      expectedPreviousHash = entry.hash;
+      previous = { id: entry.id, timestamp: entry.timestamp };
     }
 
+    cursor = batch[batch.length - 1].id;
+    if (batch.length < VERIFY_BATCH_SIZE) break;
+  }
+
+  while (checkpointIndex < checkpoints.length) {
+    finishCheckpoint();
+  }
+
+  result.valid =
+    result.brokenRanges.length === 0 && result.checkpointFailures.length === 0;
+
+  if (!result.valid) {
+    const firstBreak = result.brokenRanges[0];
+    result.brokenAt = firstBreak?.fromId;
+    result.message = firstBreak
+      ? `Hash chain broken in ${result.brokenRanges.length} range(s), first at entries ${firstBreak.fromId}-${firstBreak.toId}: ${firstBreak.reasons[0]}`
+      : `${result.checkpointFailures.length} checkpoint(s) failed verification: ${result.checkpointFailures[0].reason}`;
+  }
+
+  return result;
+}
+
+async function checkCheckpointSignature(checkpoint: CheckpointRow): Promise<string | null> {
+  const claims = await verifyStatement(checkpoint.signature, CHECKPOINT_TOKEN_TYPE);
+  if (!claims) {
+    return "Signature is invalid";
+  }
+
+  const expected = checkpointClaims(checkpoint);
+  const mismatched = Object.keys(expected).filter(
+    (key) => claims[key] !== expected[key as keyof typeof expected]
+  );
+
+  return mismatched.length > 0
+    ? `Stored fields differ from signed values: ${mismatched.join(", ")}`
+    : null;
+}
+
+function checkpointClaims(checkpoint: {
+  fromId: bigint;
+  toId: bigint;
+  entryCount: number;
+  fromTimestamp: Date;
+  toTimestamp: Date;
+  previousHash: string | null;
+  lastHash: string;
+  merkleRoot: string;
+}) {
+  return {
+    fromId: checkpoint.fromId.toString(),
+    toId: checkpoint.toId.toString(),
+    entryCount: checkpoint.entryCount,
+    fromTimestamp: checkpoint.fromTimestamp.toISOString(),
+    toTimestamp: checkpoint.toTimestamp.toISOString(),
+    previousHash: checkpoint.previousHash,
+    lastHash: checkpoint.lastHash,
+    merkleRoot: checkpoint.merkleRoot,
+  };
+}
+
+function addBreak(
+  result: AuditChainVerification,
+  start: { id: bigint; timestamp: Date },
+  end: { id: bigint; timestamp: Date },
+  reasons: string[]
+) {
+  const last = result.brokenRanges[result.brokenRanges.length - 1];
+
+  // Extend the current range when breaks are adjacent
+  if (last && last.toId >= start.id) {
+    last.toId = end.id;
+    last.toTimestamp = end.timestamp;
+    last.reasons.push(...reasons);
+    return;
+  }
+
+  if (result.brokenRanges.length >= MAX_REPORTED_BREAKS) return;
+
+  result.brokenRanges.push({
+    fromId: start.id,
+    toId: end.id,
+    fromTimestamp: start.timestamp,
+    toTimestamp: end.timestamp,
+    reasons,
+  });
+}
+
+function addCheckpointFailure(
+  result: AuditChainVerification,
+  checkpoint: CheckpointRow,
+  reason: string
+) {
+  result.checkpointFailures.push({
+    checkpointId: checkpoint.id,
+    fromId: checkpoint.fromId,
+    toId: checkpoint.toId,
+    reason,
+  });
+}
+
+function emptyVerification(): AuditChainVerification {
+  return {
+    valid: true,
+    totalEntries: 0,
+    brokenRanges: [],
+    checkpointsVerified: 0,
+    checkpointFailures: [],
+    uncheckpointedEntries: 0,
+  };
+}
+
+// ============================================================================
+// Checkpoints
+// ============================================================================
+
+/**
+ * Checkpoints every entry written since the last checkpoint, in ranges of at
+ * most CHECKPOINT_MAX_ENTRIES. Each range is verified before it is signed so
+ * a checkpoint never vouches for a broken chain; on a break, checkpointing
+ * stops and the break is returned.
+ */
+export async function createAuditCheckpoints(maxCheckpoints = 50): Promise<{
+  created: number;
+  entriesCovered: number;
+  break?: AuditChainBreak;
+}> {
+  let created = 0;
+  let entriesCovered = 0;
+
+  const latest = await db.auditLogCheckpoint.findFirst({
+    orderBy: { toId: "desc" },
+  });
+  let afterId = latest?.toId ?? BigInt(0);
+  let expectedPreviousHash = latest?.lastHash ?? null;
+
+  while (created < maxCheckpoints) {
+    const entries = await db.auditLog.findMany({
+      where: { id: { gt: afterId } },
+      orderBy: { id: "asc" },
+      take: CHECKPOINT_MAX_ENTRIES,
+    });
+
+    if (entries.length === 0) break;
+
     for (let i = 0; i < entries.length; i++) {
       const entry = entries[i];
-      const expectedPreviousHash = i > 0 ? entries[i - 1].hash : null;
-
-      // Check chain linkage
+      const reasons: string[] = [];
       if (entry.previousHash !== expectedPreviousHash) {
-        return {
-          valid: false,
-          brokenAt: entry.id,
-          message: `Hash chain broken at entry ${entry.id}: expected previousHash ${expectedPreviousHash}, got ${entry.previousHash}`,
-          totalEntries: entries.length,
-        };
+        reasons.push(`Entry ${entry.id} does not link to the preceding entry`);
       }
-
-      // Recompute hash to detect tampering
-      const hashInput = [
-        entry.eventId,
-        entry.actorId,
-        entry.action,
-        entry.resourceType,
-        entry.resourceId,
-        entry.timestamp.toISOString(),
-        entry.previousHash || "genesis",
-        JSON.stringify(entry.previousState),
-        JSON.stringify(entry.newState),
-        JSON.stringify(entry.metadata),
-      ].join("|");
-
-      const recomputedHash = createHash("sha256")
-        .update(hashInput)
-        .digest("hex");
-
-      if (entry.hash !== recomputedHash) {
+      if (!auditEntryHashMatches(entry)) {
+        reasons.push(`Entry ${entry.id} content does not match its stored hash`);
+      }
+      if (reasons.length > 0) {
+        const start = i > 0 ? entries[i - 1] : entry;
         return {
-          valid: false,
-          brokenAt: entry.id,
-          message: `Entry ${entry.id} tampered - stored hash doesn't match recomputed hash`,
-          totalEntries: entries.length,
+          created,
+          entriesCovered,
+          break: {
+            fromId: start.id,
+            toId: entry.id,
+            fromTimestamp: start.timestamp,
+            toTimestamp: entry.timestamp,
+            reasons,
+          },
         };
       }
+      expectedPreviousHash = entry.hash;
     }
 
-    return { valid: true, totalEntries: entries.length };
-  } catch (error) {
-    console.error("Failed to verify audit chain:", error);
-    return {
-      valid: false,
-      message: `Verification failed: ${error instanceof Error ? error.message : String(error)}`,
+    const first = entries[0];
+    const last = entries[entries.length - 1];
+
+    const fields = {
+      fromId: first.id,
+      toId: last.id,
+      entryCount: entries.length,
+      fromTimestamp: first.timestamp,
+      toTimestamp: last.timestamp,
+      previousHash: first.previousHash,
+      lastHash: last.hash,
+      merkleRoot: computeMerkleRoot(entries.map((e) => e.hash)),
     };
+
+    const { token, keyId } = await signStatement(
+      checkpointClaims(fields),
+      CHECKPOINT_TOKEN_TYPE
+    );
+
+    await db.auditLogCheckpoint.create({
+      data: { ...fields, signature: token, keyId },
+    });
+
+    created++;
+    entriesCovered += entries.length;
+    afterId = last.id;
   }
+
+  return { created, entriesCovered };
 }
 
 /**
@@ -179,7 +595,7 @@ export async function logInsuranceMutation(
   policyId: string,
   previousState: Record<string, unknown> | null,
   newState: Record<string, unknown> | null,
-  metadata?: { organizationId: string; certificateUploaded?: boolean }
+  metadata: { organizationId: string; certificateUploaded?: boolean }
 ): Promise<void> {
   await createAuditLog({
     action,
@@ -199,7 +615,7 @@ export async function logDocumentMutation(
   documentId: string,
   previousState: Record<string, unknown> | null,
   newState: Record<string, unknown> | null,
-  metadata?: { organizationId?: string; versionId?: string }
+  metadata: { organizationId: string; versionId?: string; approvalStepId?: string }
 ): Promise<void> {
   await createAuditLog({
     action,
@@ -219,7 +635,7 @@ export async function logMemberMutation(
   memberId: string,
   previousState: Record<string, unknown> | null,
   newState: Record<string, unknown> | null,
-  metadata?: { organizationId?: string; lbpVerification?: boolean }
+  metadata: { organizationId: string; lbpVerification?: boolean }
 ): Promise<void> {
   await createAuditLog({
     action,
@@ -0,0 +1,278 @@
+import { z } from "zod/v4";
+import {
+  AuditType,
+  CertificationTier,
+  ISOElement,
+  type AuditQuestionBankItem,
+  type AuditQuestionSet,
+} from "@prisma/client";
+import { db } from "./db";
+import { AUDIT_QUESTIONS } from "./audit-templates";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BankQuestion {
+  isoElement: ISOElement;
+  questionNumber: number;
+  questionText: string;
+  guidance: string | null;
+  evidenceRequired: string[];
+  certificationTiers: CertificationTier[]; // empty = any tier
+  auditTypes: AuditType[]; // empty = any audit type
+}
+
+export interface ResolvedQuestionSet {
+  id: string | null;
+  version: number;
+  name: string;
+  questions: BankQuestion[];
+}
+
+export interface QuestionContext {
+  certificationTier: CertificationTier;
+  auditType: AuditType;
+}
+
+export type QuestionField = Exclude<keyof BankQuestion, "isoElement" | "questionNumber">;
+
+export interface QuestionSetDiff {
+  added: BankQuestion[];
+  removed: BankQuestion[];
+  changed: { before: BankQuestion; after: BankQuestion; fields: QuestionField[] }[];
+  unchanged: number;
+}
+
+// ============================================================================
+// Built-in Questions
+// ============================================================================
+
+export const BUILT_IN_QUESTION_SET_VERSION = 0;
+
+/**
+ * The questions the platform shipped with (AUDIT_QUESTIONS). Used until a
+ * question set is published, and for audits created before versioning.
+ */
+export function getBuiltInQuestionSet(): ResolvedQuestionSet {
+  const questions = (Object.keys(AUDIT_QUESTIONS) as ISOElement[]).flatMap((element) =>
+    AUDIT_QUESTIONS[element].map((question) => ({
+      isoElement: element,
+      questionNumber: question.questionNumber,
+      questionText: question.questionText,
+      guidance: question.guidance ?? null,
+      evidenceRequired: question.evidenceRequired ?? [],
+      certificationTiers: [],
+      auditTypes: [],
+    }))
+  );
+
+  return {
+    id: null,
+    version: BUILT_IN_QUESTION_SET_VERSION,
+    name: "Built-in questions",
+    questions,
+  };
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+export const bankQuestionSchema = z.object({
+  isoElement: z.enum(ISOElement),
+  questionNumber: z.number().int().min(1).max(999),
+  questionText: z.string().trim().min(5).max(1000),
+  guidance: z.string().trim().max(2000).nullable(),
+  evidenceRequired: z.array(z.string().trim().min(1).max(200)).max(20),
+  certificationTiers: z.array(z.enum(CertificationTier)),
+  auditTypes: z.array(z.enum(AuditType)),
+});
+
+export const bankQuestionsSchema = z
+  .array(bankQuestionSchema)
+  .max(1000)
+  .refine(
+    (questions) =>
+      new Set(questions.map(questionKey)).size === questions.length,
+    { message: "Question numbers must be unique within each element" }
+  );
+
+// ============================================================================
+// Question Set Resolution
+// ============================================================================
+
+function questionKey(question: Pick<BankQuestion, "isoElement" | "questionNumber">): string {
+  return `${question.isoElement}:${question.questionNumber}`;
+}
+
+function toBankQuestion(item: AuditQuestionBankItem): BankQuestion {
+  return {
+    isoElement: item.isoElement,
+    questionNumber: item.questionNumber,
+    questionText: item.questionText,
+    guidance: item.guidance,
+    evidenceRequired: item.evidenceRequired,
+    certificationTiers: item.certificationTiers,
+    auditTypes: item.auditTypes,
+  };
+}
+
+export function toResolvedQuestionSet(
+  set: AuditQuestionSet & { questions: AuditQuestionBankItem[] }
+): ResolvedQuestionSet {
+  return {
+    id: set.id,
+    version: set.version,
+    name: set.name,
+    questions: set.questions.map(toBankQuestion),
+  };
+}
+
+const questionOrder = [{ isoElement: "asc" as const }, { questionNumber: "asc" as const }];
+
+/**
+ * Returns the question set new audits are built from: the latest published
+ * version, or the built-in questions if none has been published.
+ */
+export async function getActiveQuestionSet(): Promise<ResolvedQuestionSet> {
+  const set = await db.auditQuestionSet.findFirst({
+    where: { status: "PUBLISHED" },
+    orderBy: { version: "desc" },
+    include: { questions: { orderBy: questionOrder } },
+  });
+
+  return set ? toResolvedQuestionSet(set) : getBuiltInQuestionSet();
+}
+
+/**
+ * Returns the question set an audit is pinned to. A null ID is the built-in
+ * set, which covers audits created before question sets existed.
+ */
+export async function getQuestionSet(id: string | null): Promise<ResolvedQuestionSet> {
+  if (!id) return getBuiltInQuestionSet();
+
+  const set = await db.auditQuestionSet.findUniqueOrThrow({
+    where: { id },
+    include: { questions: { orderBy: questionOrder } },
+  });
+
+  return toResolvedQuestionSet(set);
+}
+
+export async function findQuestionSet(id: string): Promise<ResolvedQuestionSet | null> {
+  const set = await db.auditQuestionSet.findUnique({
+    where: { id },
+    include: { questions: { orderBy: questionOrder } },
+  });
+
+  return set ? toResolvedQuestionSet(set) : null;
+}
+
+/**
+ * The latest version published before the given one, or the built-in
+ * questions if there is none. This is what a new version is compared to.
+ */
+export async function getPreviousQuestionSet(version: number): Promise<ResolvedQuestionSet> {
+  const set = await db.auditQuestionSet.findFirst({
+    where: { status: "PUBLISHED", version: { lt: version } },
+    orderBy: { version: "desc" },
+    include: { questions: { orderBy: questionOrder } },
+  });
+
+  return set ? toResolvedQuestionSet(set) : getBuiltInQuestionSet();
+}
+
+export async function getNextQuestionSetVersion(): Promise<number> {
+  const latest = await db.auditQuestionSet.findFirst({
+    orderBy: { version: "desc" },
+    select: { version: true },
+  });
+
+  return (latest?.version ?? BUILT_IN_QUESTION_SET_VERSION) + 1;
+}
+
+// ============================================================================
+// Question Selection
+// ============================================================================
+
+export function questionApplies(question: BankQuestion, context: QuestionContext): boolean {
+  return (
+    (question.certificationTiers.length === 0 ||
+      question.certificationTiers.includes(context.certificationTier)) &&
+    (question.auditTypes.length === 0 || question.auditTypes.includes(context.auditType))
+  );
+}
+
+/**
+ * Questions for each audited element that apply to the organisation's tier
+ * and the audit type, in element then question-number order.
+ */
+export function selectAuditQuestions(
+  set: ResolvedQuestionSet,
+  elements: ISOElement[],
+  context: QuestionContext
+): { element: ISOElement; questions: BankQuestion[] }[] {
+  return elements.map((element) => ({
+    element,
+    questions: set.questions
+      .filter((q) => q.isoElement === element && questionApplies(q, context))
+      .sort((a, b) => a.questionNumber - b.questionNumber),
+  }));
+}
+
+// ============================================================================
+// Version Diff
+// ============================================================================
+
+const COMPARED_FIELDS: QuestionField[] = [
+  "questionText",
+  "guidance",
+  "evidenceRequired",
+  "certificationTiers",
+  "auditTypes",
+];
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, i) => value === b[i]);
+  }
+  return a === b;
+}
+
+/**
+ * Compare two question sets. Questions are matched on element and question
+ * number, so renumbering a question shows as one removal and one addition.
+ */
+export function diffQuestionSets(
+  from: ResolvedQuestionSet,
+  to: ResolvedQuestionSet
+): QuestionSetDiff {
+  const before = new Map(from.questions.map((q) => [questionKey(q), q]));
+  const after = new Map(to.questions.map((q) => [questionKey(q), q]));
+
+  const diff: QuestionSetDiff = { added: [], removed: [], changed: [], unchanged: 0 };
+
+  for (const [key, question] of after) {
+    const previous = before.get(key);
+    if (!previous) {
+      diff.added.push(question);
+      continue;
+    }
+
+    const fields = COMPARED_FIELDS.filter(
+      (field) => !sameValue(previous[field], question[field])
+    );
+    if (fields.length > 0) {
+      diff.changed.push({ before: previous, after: question, fields });
+    } else {
+      diff.unchanged++;
+    }
+  }
+
+  for (const [key, question] of before) {
+    if (!after.has(key)) diff.removed.push(question);
+  }
+
+  return diff;
+}
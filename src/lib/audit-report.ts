@@ -0,0 +1,326 @@
+import { renderToBuffer } from "@react-pdf/renderer";
+import type {
+  AuditRating,
+  AuditResponse,
+  AuditType,
+  CAPAStatus,
+  FindingSeverity,
+  ISOElement,
+} from "@prisma/client";
+import { db } from "./db";
+import { getObjectFromR2, getSignedDownloadUrl, uploadToR2 } from "./r2";
+import { createAuditLog } from "./audit-log";
+import { PHOTO_MIME_TYPES, generateThumbnail } from "./photo-processing";
+import { AuditReportPDF } from "@/components/reports/pdf/audit-report";
+
+/**
+ * Formal audit report sent to the member once an audit is completed.
+ *
+ * The PDF is rendered after the completion response is sent and stored in
+ * R2; if that render never finished, the first download renders it instead.
+ */
+
+// Photos are embedded, so cap them to keep the PDF (and the render) small
+const MAX_THUMBNAILS_PER_QUESTION = 3;
+const MAX_THUMBNAILS_PER_REPORT = 60;
+
+const SEVERITY_ORDER: FindingSeverity[] = ["CRITICAL", "MAJOR", "MINOR", "OBSERVATION"];
+
+const RESPONSE_SEVERITY: Partial<Record<AuditResponse, FindingSeverity>> = {
+  MAJOR_NONCONFORMITY: "MAJOR",
+  MINOR_NONCONFORMITY: "MINOR",
+  OBSERVATION: "OBSERVATION",
+};
+
+export class AuditReportError extends Error {
+  constructor(
+    message: string,
+    public status: 404 | 409 = 409
+  ) {
+    super(message);
+    this.name = "AuditReportError";
+  }
+}
+
+export interface AuditReportQuestion {
+  questionNumber: number;
+  questionText: string;
+  response: AuditResponse | null;
+  finding: string | null;
+  severity: FindingSeverity | null;
+  thumbnails: string[]; // JPEG data URIs
+  attachments: string[]; // File names of evidence that isn't embedded
+}
+
+export interface AuditReportElement {
+  element: ISOElement;
+  questions: AuditReportQuestion[];
+}
+
+export interface AuditReportFinding {
+  element: ISOElement;
+  questionNumber: number;
+  questionText: string;
+  finding: string | null;
+}
+
+export interface AuditReportFindingGroup {
+  severity: FindingSeverity;
+  findings: AuditReportFinding[];
+}
+
+export interface AuditReportData {
+  audit: {
+    id: string;
+    organizationId: string;
+    auditNumber: string;
+    auditType: AuditType;
+    scope: string | null;
+    isoElements: ISOElement[];
+    scheduledDate: Date;
+    completedAt: Date | null;
+    auditorName: string | null;
+    rating: AuditRating | null;
+    summary: string | null;
+    conformingCount: number;
+    minorNonconformities: number;
+    majorNonconformities: number;
+    observations: number;
+    questionSetVersion: number;
+  };
+  organization: {
+    name: string;
+    tradingName: string | null;
+    nzbn: string | null;
+  };
+  elements: AuditReportElement[];
+  findingGroups: AuditReportFindingGroup[];
+  capas: {
+    capaNumber: string;
+    title: string;
+    severity: FindingSeverity;
+    status: CAPAStatus;
+    dueDate: Date;
+  }[];
+  followUp: { auditNumber: string; scheduledDate: Date } | null;
+  generatedAt: Date;
+}
+
+interface ReportChecklistItem {
+  isoElement: ISOElement;
+  questionNumber: number;
+  questionText: string;
+  response: AuditResponse | null;
+  finding: string | null;
+  severity: FindingSeverity | null;
+}
+
+/**
+ * Severity of a checklist answer as a finding: the auditor's classification
+ * if given, otherwise implied by the response. Conforming and not-applicable
+ * answers are not findings.
+ */
+export function getFindingSeverity(item: ReportChecklistItem): FindingSeverity | null {
+  if (!item.response || !RESPONSE_SEVERITY[item.response]) return null;
+  return item.severity ?? RESPONSE_SEVERITY[item.response]!;
+}
+
+/** Findings grouped most severe first; empty severities are left out. */
+export function groupFindingsBySeverity(items: ReportChecklistItem[]): AuditReportFindingGroup[] {
+  const groups = new Map<FindingSeverity, AuditReportFinding[]>();
+
+  for (const item of items) {
+    const severity = getFindingSeverity(item);
+    if (!severity) continue;
+
+    groups.set(severity, [
+      ...(groups.get(severity) ?? []),
+      {
+        element: item.isoElement,
+        questionNumber: item.questionNumber,
+        questionText: item.questionText,
+        finding: item.finding,
+      },
+    ]);
+  }
+
+  return SEVERITY_ORDER.filter((severity) => groups.has(severity)).map((severity) => ({
+    severity,
+    findings: groups.get(severity)!,
+  }));
+}
+
+async function loadThumbnail(storageKey: string): Promise<string | null> {
+  try {
+    const jpeg = await generateThumbnail(await getObjectFromR2(storageKey), "jpeg");
+    return `data:image/jpeg;base64,${jpeg.toString("base64")}`;
+  } catch (error) {
+    console.warn(`Failed to load evidence thumbnail ${storageKey}:`, error);
+    return null;
+  }
+}
+
+export async function getAuditReportData(auditId: string): Promise<AuditReportData> {
+  const audit = await db.audit.findUnique({
+    where: { id: auditId },
+    include: {
+      organization: { select: { name: true, tradingName: true, nzbn: true } },
+      questionSet: { select: { version: true } },
+      checklist: {
+        orderBy: [{ isoElement: "asc" }, { questionNumber: "asc" }],
+        include: {
+          evidence: {
+            orderBy: { uploadedAt: "asc" },
+            select: { storageKey: true, fileName: true, mimeType: true },
+          },
+        },
+      },
+      capaRecords: {
+        orderBy: { dueDate: "asc" },
+        select: { capaNumber: true, title: true, severity: true, status: true, dueDate: true },
+      },
+    },
+  });
+
+  if (!audit) {
+    throw new AuditReportError("Audit not found", 404);
+  }
+
+  if (audit.status !== "COMPLETED") {
+    throw new AuditReportError("The audit report is available once the audit is completed");
+  }
+
+  // scheduleFollowUpAudit links the new audit back to this one
+  const followUp = await db.audit.findFirst({
+    where: { followUpAuditId: audit.id, status: { not: "CANCELLED" } },
+    orderBy: { scheduledDate: "asc" },
+    select: { auditNumber: true, scheduledDate: true },
+  });
+
+  // Sequential on purpose: each photo is decoded in full before shrinking
+  let embedded = 0;
+  const elements: AuditReportElement[] = [];
+
+  for (const element of audit.isoElements) {
+    const questions: AuditReportQuestion[] = [];
+
+    for (const item of audit.checklist.filter((c) => c.isoElement === element)) {
+      const thumbnails: string[] = [];
+      const attachments: string[] = [];
+
+      for (const file of item.evidence) {
+        const embeddable =
+          PHOTO_MIME_TYPES.includes(file.mimeType) &&
+          thumbnails.length < MAX_THUMBNAILS_PER_QUESTION &&
+          embedded < MAX_THUMBNAILS_PER_REPORT;
+        const thumbnail = embeddable ? await loadThumbnail(file.storageKey) : null;
+
+        if (thumbnail) {
+          thumbnails.push(thumbnail);
+          embedded++;
+        } else {
+          attachments.push(file.fileName);
+        }
+      }
+
+      questions.push({
+        questionNumber: item.questionNumber,
+        questionText: item.questionText,
+        response: item.response,
+        finding: item.finding,
+        severity: getFindingSeverity(item),
+        thumbnails,
+        attachments,
+      });
+    }
+
+    elements.push({ element, questions });
+  }
+
+  return {
+    audit: {
+      id: audit.id,
+      organizationId: audit.organizationId,
+      auditNumber: audit.auditNumber,
+      auditType: audit.auditType,
+      scope: audit.scope,
+      isoElements: audit.isoElements,
+      scheduledDate: audit.scheduledDate,
+      completedAt: audit.completedAt,
+      auditorName: audit.auditorName,
+      rating: audit.rating,
+      summary: audit.summary,
+      conformingCount: audit.conformingCount,
+      minorNonconformities: audit.minorNonconformities,
+      majorNonconformities: audit.majorNonconformities,
+      observations: audit.observations,
+      questionSetVersion: audit.questionSet?.version ?? 0,
+    },
+    organization: audit.organization,
+    elements,
+    findingGroups: groupFindingsBySeverity(audit.checklist),
+    capas: audit.capaRecords,
+    followUp,
+    generatedAt: new Date(),
+  };
+}
+
+/**
+ * Render the audit report and store it in R2, replacing any earlier copy.
+ * Returns the storage key.
+ */
+export async function generateAuditReport(auditId: string): Promise<string> {
+  const data = await getAuditReportData(auditId);
+  const { organizationId, auditNumber } = data.audit;
+
+  const pdf = await renderToBuffer(AuditReportPDF(data));
+
+  const reportKey = await uploadToR2(
+    Buffer.from(pdf),
+    `audit-reports/${organizationId}/${auditNumber}.pdf`,
+    "application/pdf"
+  );
+
+  await db.audit.update({
+    where: { id: auditId },
+    data: { reportKey, reportGeneratedAt: data.generatedAt },
+  });
+
+  await createAuditLog({
+    action: "CREATE",
+    resourceType: "AuditReport",
+    resourceId: auditId,
+    metadata: { organizationId, auditNumber, reportKey },
+  });
+
+  return reportKey;
+}
+
+/**
+ * Signed download link for a completed audit's report, rendering it first if
+ * the post-completion render never finished.
+ */
+export async function getAuditReportDownload(audit: {
+  id: string;
+  organizationId: string;
+  auditNumber: string;
+  status: string;
+  reportKey: string | null;
+}): Promise<{ url: string; fileName: string }> {
+  if (audit.status !== "COMPLETED") {
+    throw new AuditReportError("The audit report is available once the audit is completed");
+  }
+
+  const reportKey = audit.reportKey ?? (await generateAuditReport(audit.id));
+  const fileName = `${audit.auditNumber}-audit-report.pdf`;
+  const url = await getSignedDownloadUrl(reportKey, 3600, fileName);
+
+  await createAuditLog({
+    action: "EXPORT",
+    resourceType: "AuditReport",
+    resourceId: audit.id,
+    metadata: { organizationId: audit.organizationId, auditNumber: audit.auditNumber },
+  });
+
+  return { url, fileName };
+}
@@ -1,4 +1,6 @@
 import { db } from "@/lib/db";
+import { getActiveQuestionSet } from "@/lib/audit-question-bank";
+import { autoAssignAuditor } from "@/lib/auditor-registry";
 import type { CertificationTier } from "@prisma/client";
 import { ALL_ISO_ELEMENTS } from "@/types";
 
@@ -83,9 +85,22 @@ export async function getOrganizationsNeedingAudit() {
   return needingAudit;
 }
 
+/**
+ * Pick an auditor from the registry for a newly scheduled audit. Scheduling
+ * never fails on this; unassigned audits are left for an administrator.
+ */
+async function tryAutoAssignAuditor(auditId: string) {
+  try {
+    await autoAssignAuditor(auditId);
+  } catch (error) {
+    console.error(`Failed to auto-assign an auditor to audit ${auditId}:`, error);
+  }
+}
+
 /**
  * Schedule an audit for an organization.
- * Creates an audit record with SCHEDULED status, 30 days from now.
+ * Creates an audit record with SCHEDULED status, 30 days from now, and
+ * assigns an auditor when one qualifies.
  */
 export async function scheduleAudit(organizationId: string) {
   // Determine audit type: INITIAL_CERTIFICATION if no completed audits, otherwise SURVEILLANCE
@@ -113,6 +128,8 @@ export async function scheduleAudit(organizationId: string) {
   const scheduledDate = new Date();
   scheduledDate.setDate(scheduledDate.getDate() + 30);
 
+  const questionSet = await getActiveQuestionSet();
+
   const audit = await db.audit.create({
     data: {
       organizationId,
@@ -121,6 +138,7 @@ export async function scheduleAudit(organizationId: string) {
       status: "SCHEDULED",
       scheduledDate,
       isoElements: ALL_ISO_ELEMENTS,
+      questionSetId: questionSet.id,
       scope: `${auditType === "INITIAL_CERTIFICATION" ? "Initial certification" : "Surveillance"} audit - all 19 ISO elements`,
     },
   });
@@ -131,6 +149,8 @@ export async function scheduleAudit(organizationId: string) {
     data: { nextAuditDue: scheduledDate },
   });
 
+  await tryAutoAssignAuditor(audit.id);
+
   return audit;
 }
 
@@ -191,6 +211,8 @@ export async function scheduleFollowUpAudit(
   const scheduledDate = new Date(baseDate);
   scheduledDate.setDate(scheduledDate.getDate() + 90);
 
+  const questionSet = await getActiveQuestionSet();
+
   const audit = await db.audit.create({
     data: {
       organizationId,
@@ -201,8 +223,11 @@ export async function scheduleFollowUpAudit(
       isoElements: scopeElements,
       scope: `Follow-up audit for ${sourceAudit.auditNumber} — ${ncElements.length} element${ncElements.length !== 1 ? "s" : ""} with non-conformities`,
       followUpAuditId: sourceAuditId,
+      questionSetId: questionSet.id,
     },
   });
 
+  await tryAutoAssignAuditor(audit.id);
+
   return audit;
 }
@@ -0,0 +1,201 @@
+import type {
+  AuditResponse,
+  FindingSeverity,
+  ISOElement,
+} from "@prisma/client";
+import { db } from "./db";
+import { getQuestionSet, questionApplies } from "./audit-question-bank";
+
+/**
+ * Checklist fields the auditor workspace edits offline. Evidence keys are
+ * not synced: the evidence upload records them once the photo is stored.
+ */
+export const SYNCED_FIELDS = [
+  "response",
+  "finding",
+  "severity",
+  "auditorNotes",
+] as const;
+
+export type SyncedField = (typeof SYNCED_FIELDS)[number];
+
+export interface ChecklistFieldValues {
+  response: AuditResponse | null;
+  finding: string | null;
+  severity: FindingSeverity | null;
+  auditorNotes: string | null;
+}
+
+/**
+ * One question's offline edits. `base` holds the server values the auditor
+ * started from, so the server can tell their edit apart from someone else's.
+ */
+export interface ChecklistChange {
+  isoElement: ISOElement;
+  questionNumber: number;
+  base: Partial<ChecklistFieldValues>;
+  changes: Partial<ChecklistFieldValues>;
+}
+
+export interface FieldConflict {
+  field: SyncedField;
+  serverValue: string | null;
+  clientValue: string | null;
+}
+
+export interface ChecklistChangeResult {
+  isoElement: ISOElement;
+  questionNumber: number;
+  status: "applied" | "conflict" | "not_found";
+  conflicts: FieldConflict[];
+}
+
+/**
+ * Three-way merge of one offline change into the current checklist row.
+ *
+ * A field is applied when the server still holds the base value the auditor
+ * edited from. If the server value moved on to something else in the
+ * meantime the field is left alone and reported as a conflict; other fields
+ * in the same change still apply.
+ */
+export function mergeChecklistChange(
+  current: ChecklistFieldValues,
+  change: Pick<ChecklistChange, "base" | "changes">
+): {
+  data: Partial<ChecklistFieldValues>;
+  conflicts: FieldConflict[];
+} {
+  const data: Partial<ChecklistFieldValues> = {};
+  const conflicts: FieldConflict[] = [];
+
+  for (const field of SYNCED_FIELDS) {
+    if (!(field in change.changes)) continue;
+
+    const clientValue = change.changes[field] ?? null;
+    const baseValue = change.base[field] ?? null;
+    const serverValue = current[field];
+
+    if (serverValue === clientValue) continue;
+
+    if (serverValue === baseValue) {
+      Object.assign(data, { [field]: clientValue });
+    } else {
+      conflicts.push({ field, serverValue, clientValue });
+    }
+  }
+
+  return { data, conflicts };
+}
+
+type QuestionKey = Pick<ChecklistChange, "isoElement" | "questionNumber">;
+
+/**
+ * Create any missing checklist rows for the given questions, then return all
+ * of the audit's rows. Only POST /api/audits builds the checklist up front;
+ * scheduled, follow-up and bulk-scheduled audits start with no rows, so rows
+ * are added from the pinned question set as the auditor answers. A question
+ * outside the audit's elements, or that does not apply to the organisation,
+ * gets no row.
+ */
+export async function ensureChecklistRows(auditId: string, keys: QuestionKey[]) {
+  const audit = await db.audit.findUniqueOrThrow({
+    where: { id: auditId },
+    select: {
+      auditType: true,
+      isoElements: true,
+      questionSetId: true,
+      organization: { select: { certificationTier: true } },
+      checklist: true,
+    },
+  });
+
+  const existing = new Set(
+    audit.checklist.map((row) => `${row.isoElement}:${row.questionNumber}`)
+  );
+  const missing = keys.filter(
+    (key) =>
+      !existing.has(`${key.isoElement}:${key.questionNumber}`) &&
+      audit.isoElements.includes(key.isoElement)
+  );
+  if (missing.length === 0) return audit.checklist;
+
+  const questionSet = await getQuestionSet(audit.questionSetId);
+  const context = {
+    certificationTier: audit.organization.certificationTier,
+    auditType: audit.auditType,
+  };
+
+  const data = missing.flatMap((key) => {
+    const question = questionSet.questions.find(
+      (q) =>
+        q.isoElement === key.isoElement &&
+        q.questionNumber === key.questionNumber &&
+        questionApplies(q, context)
+    );
+    return question
+      ? [
+          {
+            auditId,
+            isoElement: question.isoElement,
+            questionNumber: question.questionNumber,
+            questionText: question.questionText,
+            evidenceKeys: [],
+          },
+        ]
+      : [];
+  });
+  if (data.length === 0) return audit.checklist;
+
+  // Two syncs for the same audit may race to create the same row
+  await db.auditChecklist.createMany({ data, skipDuplicates: true });
+  return db.auditChecklist.findMany({ where: { auditId } });
+}
+
+/**
+ * Apply a batch of offline changes to an audit's checklist.
+ * Rows are matched on ISO element and question number, which is stable
+ * across devices, rather than on row IDs.
+ */
+export async function applyChecklistChanges(
+  auditId: string,
+  changes: ChecklistChange[]
+): Promise<ChecklistChangeResult[]> {
+  const rows = await ensureChecklistRows(auditId, changes);
+  const rowByKey = new Map(
+    rows.map((row) => [`${row.isoElement}:${row.questionNumber}`, row])
+  );
+
+  const results: ChecklistChangeResult[] = [];
+  const updates = [];
+
+  for (const change of changes) {
+    const row = rowByKey.get(`${change.isoElement}:${change.questionNumber}`);
+    const key = {
+      isoElement: change.isoElement,
+      questionNumber: change.questionNumber,
+    };
+
+    if (!row) {
+      results.push({ ...key, status: "not_found", conflicts: [] });
+      continue;
+    }
+
+    const { data, conflicts } = mergeChecklistChange(row, change);
+
+    if (Object.keys(data).length > 0) {
+      updates.push(db.auditChecklist.update({ where: { id: row.id }, data }));
+    }
+
+    results.push({
+      ...key,
+      status: conflicts.length > 0 ? "conflict" : "applied",
+      conflicts,
+    });
+  }
+
+  if (updates.length > 0) {
+    await db.$transaction(updates);
+  }
+
+  return results;
+}
@@ -0,0 +1,471 @@
+import { endOfDay, endOfMonth, startOfDay, startOfMonth } from "date-fns";
+import { z } from "zod/v4";
+import type { AuditType, AuthUserType } from "@prisma/client";
+import { db } from "./db";
+import { createAuditLog } from "./audit-log";
+import { getAuthMode } from "./auth";
+import type { AuthenticatedUser } from "./auth/types";
+import { NZ_REGIONS } from "@/types";
+
+export class AuditorRegistryError extends Error {
+  constructor(
+    message: string,
+    public status: 400 | 404 | 409 = 400
+  ) {
+    super(message);
+    this.name = "AuditorRegistryError";
+  }
+}
+
+/** AuthUser types that can hold an auditor profile. */
+export const AUDITOR_USER_TYPES: AuthUserType[] = ["RANZ_INSPECTOR", "EXTERNAL_INSPECTOR"];
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+export const auditorProfileSchema = z.object({
+  regions: z.array(z.enum(NZ_REGIONS)).max(NZ_REGIONS.length),
+  maxAuditsPerMonth: z.number().int().min(1).max(60),
+  notes: z.string().max(2000).nullable().optional(),
+});
+
+export const unavailabilitySchema = z
+  .object({
+    startDate: z.coerce.date(),
+    endDate: z.coerce.date(),
+    reason: z.string().max(200).optional(),
+  })
+  .refine((period) => period.endDate >= period.startDate, {
+    message: "End date cannot be before start date",
+    path: ["endDate"],
+  });
+
+export const conflictSchema = z.object({
+  organizationId: z.string().min(1),
+  reason: z.string().trim().min(3).max(500),
+});
+
+/**
+ * Certification-cycle audits one auditor may run in a row for the same
+ * business. Follow-up and special audits are excluded: continuity helps there.
+ */
+export const MAX_CONSECUTIVE_CYCLE_AUDITS = 1;
+
+const CYCLE_AUDIT_TYPES: AuditType[] = [
+  "INITIAL_CERTIFICATION",
+  "SURVEILLANCE",
+  "RECERTIFICATION",
+];
+
+// ============================================================================
+// Assignment
+// ============================================================================
+
+export interface AuditorCandidate {
+  auditorId: string; // AuditorProfile ID
+  name: string;
+  email: string;
+  userType: AuthUserType;
+  regions: string[];
+  coversRegion: boolean;
+  monthlyAudits: number;
+  maxAuditsPerMonth: number;
+  blockers: string[]; // Any blocker prevents assignment
+  warnings: string[]; // Allowed on manual assignment; skipped by auto-assignment
+}
+
+export interface AssignmentResult {
+  auditor: AuditorCandidate;
+  warnings: string[];
+}
+
+/**
+ * Order candidates best first: assignable before blocked, then fewest
+ * warnings, then lightest workload relative to capacity.
+ */
+export function rankAuditorCandidates(candidates: AuditorCandidate[]): AuditorCandidate[] {
+  const load = (c: AuditorCandidate) => c.monthlyAudits / Math.max(1, c.maxAuditsPerMonth);
+
+  return [...candidates].sort(
+    (a, b) =>
+      Number(a.blockers.length > 0) - Number(b.blockers.length > 0) ||
+      a.warnings.length - b.warnings.length ||
+      load(a) - load(b) ||
+      a.name.localeCompare(b.name)
+  );
+}
+
+/**
+ * Evaluate every active auditor for an audit: region cover, workload in the
+ * audit's month, unavailability on the day, declared conflicts with the
+ * organisation and rotation across certification cycles.
+ */
+export async function getAuditorCandidates(auditId: string): Promise<AuditorCandidate[]> {
+  const audit = await db.audit.findUnique({
+    where: { id: auditId },
+    include: { organization: { select: { region: true } } },
+  });
+
+  if (!audit) {
+    throw new AuditorRegistryError("Audit not found", 404);
+  }
+
+  const day = { start: startOfDay(audit.scheduledDate), end: endOfDay(audit.scheduledDate) };
+  const month = { start: startOfMonth(audit.scheduledDate), end: endOfMonth(audit.scheduledDate) };
+
+  const [profiles, monthlyAudits, previousCycleAudits] = await Promise.all([
+    db.auditorProfile.findMany({
+      where: { active: true, authUser: { status: "ACTIVE" } },
+      include: {
+        authUser: { select: { firstName: true, lastName: true, email: true, userType: true } },
+        unavailability: {
+          where: { startDate: { lte: day.end }, endDate: { gte: day.start } },
+          select: { reason: true },
+        },
+        conflicts: {
+          where: { organizationId: audit.organizationId },
+          select: { reason: true },
+        },
+      },
+    }),
+    db.audit.groupBy({
+      by: ["auditorProfileId"],
+      where: {
+        id: { not: audit.id },
+        auditorProfileId: { not: null },
+        status: { not: "CANCELLED" },
+        scheduledDate: { gte: month.start, lte: month.end },
+      },
+      _count: { _all: true },
+    }),
+    CYCLE_AUDIT_TYPES.includes(audit.auditType)
+      ? db.audit.findMany({
+          where: {
+            id: { not: audit.id },
+            organizationId: audit.organizationId,
+            auditType: { in: CYCLE_AUDIT_TYPES },
+            status: { not: "CANCELLED" },
+            scheduledDate: { lt: audit.scheduledDate },
+          },
+          orderBy: { scheduledDate: "desc" },
+          take: MAX_CONSECUTIVE_CYCLE_AUDITS,
+          select: { auditorProfileId: true },
+        })
+      : Promise.resolve([]),
+  ]);
+
+  const loadByAuditor = new Map(
+    monthlyAudits.map((row) => [row.auditorProfileId, row._count._all])
+  );
+  const rotationDue =
+    previousCycleAudits.length === MAX_CONSECUTIVE_CYCLE_AUDITS &&
+    new Set(previousCycleAudits.map((a) => a.auditorProfileId)).size === 1
+      ? previousCycleAudits[0].auditorProfileId
+      : null;
+
+  const region = audit.organization.region;
+
+  const candidates = profiles.map((profile) => {
+    const coversRegion = !region || profile.regions.includes(region);
+    const monthly = loadByAuditor.get(profile.id) ?? 0;
+    const blockers: string[] = [];
+    const warnings: string[] = [];
+
+    for (const conflict of profile.conflicts) {
+      blockers.push(`Declared conflict of interest: ${conflict.reason}`);
+    }
+    for (const period of profile.unavailability) {
+      blockers.push(`Unavailable on this date${period.reason ? ` (${period.reason})` : ""}`);
+    }
+    if (!coversRegion) {
+      warnings.push(`Does not cover ${region}`);
+    }
+    if (monthly >= profile.maxAuditsPerMonth) {
+      warnings.push(`At capacity (${monthly}/${profile.maxAuditsPerMonth} audits this month)`);
+    }
+    if (rotationDue === profile.id) {
+      warnings.push("Audited this business last cycle");
+    }
+
+    return {
+      auditorId: profile.id,
+      name: `${profile.authUser.firstName} ${profile.authUser.lastName}`,
+      email: profile.authUser.email,
+      userType: profile.authUser.userType,
+      regions: profile.regions,
+      coversRegion,
+      monthlyAudits: monthly,
+      maxAuditsPerMonth: profile.maxAuditsPerMonth,
+      blockers,
+      warnings,
+    };
+  });
+
+  return rankAuditorCandidates(candidates);
+}
+
+/**
+ * Assign an auditor from the registry. Conflicts of interest and
+ * unavailability block the assignment; other warnings are returned so the
+ * caller can show them.
+ */
+export async function assignAuditor(
+  auditId: string,
+  auditorId: string,
+  options: { automatic?: boolean } = {}
+): Promise<AssignmentResult> {
+  const audit = await db.audit.findUnique({
+    where: { id: auditId },
+    select: {
+      id: true,
+      status: true,
+      organizationId: true,
+      auditorProfileId: true,
+      auditorName: true,
+      auditorEmail: true,
+    },
+  });
+
+  if (!audit) {
+    throw new AuditorRegistryError("Audit not found", 404);
+  }
+
+  if (audit.status === "COMPLETED" || audit.status === "CANCELLED") {
+    throw new AuditorRegistryError("Auditors cannot be changed on a closed audit", 409);
+  }
+
+  const candidates = await getAuditorCandidates(auditId);
+  const auditor = candidates.find((c) => c.auditorId === auditorId);
+
+  if (!auditor) {
+    throw new AuditorRegistryError("Auditor not found or inactive", 404);
+  }
+
+  if (auditor.blockers.length > 0) {
+    throw new AuditorRegistryError(auditor.blockers.join("; "), 409);
+  }
+
+  const profile = await db.auditorProfile.findUniqueOrThrow({
+    where: { id: auditorId },
+    select: { authUser: { select: { id: true, clerkUserId: true } } },
+  });
+
+  // auditorId holds whatever ID sessions resolve to; the email is matched too
+  const userId =
+    getAuthMode() === "clerk" && profile.authUser.clerkUserId
+      ? profile.authUser.clerkUserId
+      : profile.authUser.id;
+
+  await db.audit.update({
+    where: { id: auditId },
+    data: {
+      auditorProfileId: auditor.auditorId,
+      auditorId: userId,
+      auditorName: auditor.name,
+      auditorEmail: auditor.email,
+    },
+  });
+
+  await createAuditLog({
+    action: "AUDITOR_ASSIGN",
+    resourceType: "Audit",
+    resourceId: auditId,
+    previousState: {
+      auditorProfileId: audit.auditorProfileId,
+      auditorName: audit.auditorName,
+      auditorEmail: audit.auditorEmail,
+    },
+    newState: {
+      auditorProfileId: auditor.auditorId,
+      auditorName: auditor.name,
+      auditorEmail: auditor.email,
+    },
+    metadata: {
+      organizationId: audit.organizationId,
+      automatic: options.automatic ?? false,
+      warnings: auditor.warnings,
+    },
+  });
+
+  return { auditor, warnings: auditor.warnings };
+}
+
+/**
+ * Assign the best-ranked auditor with no blockers or warnings. Returns null,
+ * leaving the audit unassigned for an administrator, when nobody qualifies.
+ */
+export async function autoAssignAuditor(auditId: string): Promise<AssignmentResult | null> {
+  const candidates = await getAuditorCandidates(auditId);
+  const best = candidates.find((c) => c.blockers.length === 0 && c.warnings.length === 0);
+
+  if (!best) return null;
+
+  return assignAuditor(auditId, best.auditorId, { automatic: true });
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+/**
+ * The auditor profile of the signed-in user. Sessions resolve to an AuthUser
+ * ID or, in Clerk mode, a Clerk user ID.
+ */
+export async function getAuditorProfileForUser(user: AuthenticatedUser) {
+  return db.auditorProfile.findFirst({
+    where: { authUser: { OR: [{ id: user.id }, { clerkUserId: user.id }] } },
+  });
+}
+
+export async function addUnavailability(
+  auditorId: string,
+  period: z.infer<typeof unavailabilitySchema>,
+  createdBy: string
+) {
+  const unavailability = await db.auditorUnavailability.create({
+    data: {
+      auditorId,
+      startDate: startOfDay(period.startDate),
+      endDate: startOfDay(period.endDate),
+      reason: period.reason,
+      createdBy,
+    },
+  });
+
+  await createAuditLog({
+    action: "CREATE",
+    resourceType: "AuditorUnavailability",
+    resourceId: unavailability.id,
+    newState: {
+      auditorId,
+      startDate: unavailability.startDate.toISOString(),
+      endDate: unavailability.endDate.toISOString(),
+    },
+  });
+
+  return unavailability;
+}
+
+export async function removeUnavailability(auditorId: string, periodId: string) {
+  const period = await db.auditorUnavailability.findUnique({ where: { id: periodId } });
+
+  if (!period || period.auditorId !== auditorId) {
+    throw new AuditorRegistryError("Unavailability not found", 404);
+  }
+
+  await db.auditorUnavailability.delete({ where: { id: periodId } });
+
+  await createAuditLog({
+    action: "DELETE",
+    resourceType: "AuditorUnavailability",
+    resourceId: periodId,
+    previousState: {
+      auditorId,
+      startDate: period.startDate.toISOString(),
+      endDate: period.endDate.toISOString(),
+    },
+  });
+}
+
+/**
+ * Record a conflict of interest. Scheduled audits of the organisation that
+ * the auditor was assigned to are released so they can be reassigned; audits
+ * already under way are returned for an administrator to review.
+ */
+export async function declareConflict(
+  auditorId: string,
+  declaration: z.infer<typeof conflictSchema>,
+  declaredBy: string
+) {
+  const organization = await db.organization.findUnique({
+    where: { id: declaration.organizationId },
+    select: { id: true },
+  });
+
+  if (!organization) {
+    throw new AuditorRegistryError("Organization not found", 404);
+  }
+
+  const existing = await db.auditorConflict.findUnique({
+    where: {
+      auditorId_organizationId: { auditorId, organizationId: organization.id },
+    },
+  });
+
+  if (existing) {
+    throw new AuditorRegistryError("A conflict with this organization is already declared", 409);
+  }
+
+  const assigned = await db.audit.findMany({
+    where: {
+      auditorProfileId: auditorId,
+      organizationId: organization.id,
+      status: { in: ["SCHEDULED", "IN_PROGRESS", "PENDING_REVIEW"] },
+    },
+    select: { id: true, auditNumber: true, status: true },
+  });
+  const released = assigned.filter((a) => a.status === "SCHEDULED");
+
+  const conflict = await db.$transaction(async (tx) => {
+    if (released.length > 0) {
+      await tx.audit.updateMany({
+        where: { id: { in: released.map((a) => a.id) } },
+        data: {
+          auditorProfileId: null,
+          auditorId: null,
+          auditorName: null,
+          auditorEmail: null,
+        },
+      });
+    }
+
+    return tx.auditorConflict.create({
+      data: {
+        auditorId,
+        organizationId: organization.id,
+        reason: declaration.reason,
+        declaredBy,
+      },
+    });
+  });
+
+  await createAuditLog({
+    action: "CREATE",
+    resourceType: "AuditorConflict",
+    resourceId: conflict.id,
+    newState: { auditorId, organizationId: organization.id, reason: conflict.reason },
+    metadata: {
+      organizationId: organization.id,
+      releasedAudits: released.map((a) => a.auditNumber),
+    },
+  });
+
+  return {
+    conflict,
+    releasedAudits: released.map((a) => a.auditNumber),
+    openAudits: assigned.filter((a) => a.status !== "SCHEDULED").map((a) => a.auditNumber),
+  };
+}
+
+export async function removeConflict(auditorId: string, conflictId: string) {
+  const conflict = await db.auditorConflict.findUnique({ where: { id: conflictId } });
+
+  if (!conflict || conflict.auditorId !== auditorId) {
+    throw new AuditorRegistryError("Conflict not found", 404);
+  }
+
+  await db.auditorConflict.delete({ where: { id: conflictId } });
+
+  await createAuditLog({
+    action: "DELETE",
+    resourceType: "AuditorConflict",
+    resourceId: conflictId,
+    previousState: {
+      auditorId,
+      organizationId: conflict.organizationId,
+      reason: conflict.reason,
+    },
+    metadata: { organizationId: conflict.organizationId },
+  });
+}
@@ -0,0 +1,200 @@
+import type {
+  AuditStatus,
+  AuditType,
+  ISOElement,
+  Prisma,
+} from "@prisma/client";
+import { db } from "./db";
+import { getQuestionSet, questionApplies } from "./audit-question-bank";
+import type { AuthenticatedUser } from "./auth/types";
+import type { ChecklistFieldValues } from "./audit-sync";
+
+/** Audits an auditor can still capture responses for. */
+export const EDITABLE_AUDIT_STATUSES: AuditStatus[] = ["SCHEDULED", "IN_PROGRESS"];
+
+export interface AuditPackQuestion extends ChecklistFieldValues {
+  questionNumber: number;
+  questionText: string;
+  guidance: string | null;
+  evidenceRequired: string[];
+  evidenceKeys: string[];
+  updatedAt: string | null;
+}
+
+/**
+ * Everything the workspace needs to run an audit with no connection:
+ * the audit, the organisation, and each element's questions merged with
+ * the current checklist responses.
+ */
+export interface AuditPack {
+  audit: {
+    id: string;
+    auditNumber: string;
+    auditType: AuditType;
+    status: AuditStatus;
+    scheduledDate: string;
+    scope: string | null;
+    editable: boolean;
+  };
+  organization: {
+    id: string;
+    name: string;
+    tradingName: string | null;
+    address: string | null;
+    city: string | null;
+  };
+  elements: { element: ISOElement; questions: AuditPackQuestion[] }[];
+  generatedAt: string;
+}
+
+/**
+ * Audits assigned to a user, matched on user ID or auditor email since
+ * external inspectors are often recorded by email only.
+ */
+function assignedTo(user: AuthenticatedUser): Prisma.AuditWhereInput {
+  return {
+    OR: [
+      { auditorId: user.id },
+      { auditorEmail: { equals: user.email, mode: "insensitive" } },
+    ],
+  };
+}
+
+/**
+ * Whether a user may work on an audit. RANZ admins can open any audit;
+ * everyone else only their own assignments. Nobody can open an audit of an
+ * organisation they have declared a conflict of interest with.
+ */
+export async function canAccessAudit(
+  user: AuthenticatedUser,
+  audit: { auditorId: string | null; auditorEmail: string | null; organizationId: string }
+): Promise<boolean> {
+  const assigned =
+    user.userType === "RANZ_ADMIN" ||
+    (!!audit.auditorId && audit.auditorId === user.id) ||
+    (!!audit.auditorEmail &&
+      !!user.email &&
+      audit.auditorEmail.toLowerCase() === user.email.toLowerCase());
+
+  if (!assigned) return false;
+
+  const conflict = await db.auditorConflict.findFirst({
+    where: {
+      organizationId: audit.organizationId,
+      auditor: {
+        authUser: {
+          OR: [
+            { id: user.id },
+            { clerkUserId: user.id },
+            { email: { equals: user.email, mode: "insensitive" } },
+          ],
+        },
+      },
+    },
+    select: { id: true },
+  });
+
+  return !conflict;
+}
+
+/**
+ * Open audits assigned to a user across all organisations.
+ */
+export async function getAuditorAudits(user: AuthenticatedUser) {
+  const audits = await db.audit.findMany({
+    where: { ...assignedTo(user), status: { in: EDITABLE_AUDIT_STATUSES } },
+    orderBy: { scheduledDate: "asc" },
+    include: {
+      organization: { select: { id: true, name: true, city: true } },
+      checklist: { select: { response: true } },
+    },
+  });
+
+  return audits.map(({ checklist, ...audit }) => ({
+    id: audit.id,
+    auditNumber: audit.auditNumber,
+    auditType: audit.auditType,
+    status: audit.status,
+    scheduledDate: audit.scheduledDate,
+    organization: audit.organization,
+    questionCount: checklist.length,
+    answeredCount: checklist.filter((item) => item.response).length,
+  }));
+}
+
+/**
+ * Build the offline pack for an audit. Questions come from the question set
+ * the audit is pinned to; answers come from the AuditChecklist rows. A
+ * question that already has a row is always included, even if the
+ * organisation's tier has changed since the checklist was built.
+ */
+export async function getAuditPack(auditId: string): Promise<AuditPack | null> {
+  const audit = await db.audit.findUnique({
+    where: { id: auditId },
+    include: {
+      organization: {
+        select: {
+          id: true,
+          name: true,
+          tradingName: true,
+          address: true,
+          city: true,
+          certificationTier: true,
+        },
+      },
+      checklist: true,
+    },
+  });
+
+  if (!audit) return null;
+
+  const { certificationTier, ...organization } = audit.organization;
+  const questionSet = await getQuestionSet(audit.questionSetId);
+  const context = { certificationTier, auditType: audit.auditType };
+
+  const rowByKey = new Map(
+    audit.checklist.map((row) => [`${row.isoElement}:${row.questionNumber}`, row])
+  );
+
+  const elements = audit.isoElements.map((element) => ({
+    element,
+    questions: questionSet.questions
+      .filter(
+        (question) =>
+          question.isoElement === element &&
+          (rowByKey.has(`${element}:${question.questionNumber}`) ||
+            questionApplies(question, context))
+      )
+      .sort((a, b) => a.questionNumber - b.questionNumber)
+      .map((question) => {
+        const row = rowByKey.get(`${element}:${question.questionNumber}`);
+        return {
+          questionNumber: question.questionNumber,
+          questionText: row?.questionText ?? question.questionText,
+          guidance: question.guidance,
+          evidenceRequired: question.evidenceRequired,
+          response: row?.response ?? null,
+          finding: row?.finding ?? null,
+          severity: row?.severity ?? null,
+          auditorNotes: row?.auditorNotes ?? null,
+          evidenceKeys: row?.evidenceKeys ?? [],
+          updatedAt: row?.updatedAt.toISOString() ?? null,
+        };
+      }),
+  }));
+
+  return {
+    audit: {
+      id: audit.id,
+      auditNumber: audit.auditNumber,
+      auditType: audit.auditType,
+      status: audit.status,
+      scheduledDate: audit.scheduledDate.toISOString(),
+      scope: audit.scope,
+      editable: EDITABLE_AUDIT_STATUSES.includes(audit.status),
+    },
+    organization,
+    elements,
+    generatedAt: new Date().toISOString(),
+  };
+}
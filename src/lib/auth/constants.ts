@@ -67,6 +67,12 @@ export const AUTH_ACTIONS = {
   USER_BATCH_UPDATED: 'USER_BATCH_UPDATED',
   PASSWORD_ADMIN_RESET: 'PASSWORD_ADMIN_RESET',
 
+  // SSO actions (OIDC)
+  SSO_LOGIN_SUCCESS: 'SSO_LOGIN_SUCCESS',
+  SSO_LOGIN_FAILED: 'SSO_LOGIN_FAILED',
+  SSO_ACCOUNT_LINKED: 'SSO_ACCOUNT_LINKED',
+  SSO_USER_PROVISIONED: 'SSO_USER_PROVISIONED',
+
   // Security actions (SECR-07)
   SUSPICIOUS_LOGIN_DETECTED: 'SUSPICIOUS_LOGIN_DETECTED',
 
@@ -4,7 +4,7 @@
  * Unified authentication interface supporting multiple providers:
  * - clerk: Existing Clerk authentication
  * - custom: JWT-based manual credentials
- * - oidc: SwiftFox OIDC (future)
+ * - oidc: SwiftFox OIDC (authorization code + PKCE, issues custom sessions)
  *
  * Provider selection is controlled by AUTH_MODE environment variable.
  *
@@ -95,6 +95,21 @@ import { oidcAuth } from './providers/oidc';
 // Export providers for direct access if needed
 export { clerkAuth, customAuth, oidcAuth };
 
+// Re-export OIDC flow helpers (used by /api/auth/oidc routes)
+export {
+  OIDCError,
+  mapOIDCRole,
+  mapOIDCClaims,
+  linkOIDCUser,
+  getOIDCConfig,
+  createOIDCFlowState,
+  createOIDCFlowCookie,
+  clearOIDCFlowCookie,
+  parseOIDCFlowCookie,
+  type OIDCIdentity,
+  type OIDCFlowState,
+} from './providers/oidc';
+
 /**
  * Auth modes supported by the system.
  */
@@ -128,7 +143,6 @@ export function getAuthMode(): AuthMode {
  * Get the auth provider based on AUTH_MODE environment variable.
  *
  * @returns The configured auth provider
- * @throws Error if AUTH_MODE is 'oidc' (not yet implemented)
  *
  * @example
  * ```typescript
@@ -150,8 +164,7 @@ export function getAuthProvider(): AuthProvider {
       return customAuth;
 
     case 'oidc':
-      // OIDC provider exists but is not fully implemented
-      // Return it so callers get clear error messages
+      // Sessions are our own RS256 JWTs, issued after the OIDC callback
       return oidcAuth;
 
     default:
@@ -163,6 +163,61 @@ export async function verifyToken(
   }
 }
 
+/**
+ * Sign a statement that is not a session token (e.g. an audit log checkpoint).
+ * Statements carry a distinct `typ` header and no audience or expiry, so they
+ * can be verified years later but are never accepted by verifyToken().
+ *
+ * @param claims - The claims to sign
+ * @param type - The `typ` header value, e.g. 'audit-checkpoint+jwt'
+ * @returns Signed JWT string and the key ID it was signed with
+ */
+export async function signStatement(
+  claims: Record<string, unknown>,
+  type: string,
+  config = DEFAULT_AUTH_CONFIG
+): Promise<{ token: string; keyId: string }> {
+  const privateKey = await getPrivateKey();
+  const keyId = process.env.JWT_KEY_ID || 'ranz-auth-key-1';
+
+  const token = await new SignJWT(claims)
+    .setProtectedHeader({ alg: ALGORITHM, kid: keyId, typ: type })
+    .setIssuedAt()
+    .setIssuer(config.jwtIssuer)
+    .sign(privateKey);
+
+  return { token, keyId };
+}
+
+/**
+ * Verify a statement signed by signStatement().
+ *
+ * @param token - The JWT string to verify
+ * @param type - The expected `typ` header value
+ * @returns Verified claims or null if the signature or type is invalid
+ */
+export async function verifyStatement(
+  token: string,
+  type: string,
+  config = DEFAULT_AUTH_CONFIG
+): Promise<Record<string, unknown> | null> {
+  try {
+    const publicKey = await getPublicKey();
+
+    const result = await jwtVerify(token, publicKey, {
+      issuer: config.jwtIssuer,
+      typ: type,
+    });
+
+    return result.payload;
+  } catch (error) {
+    if (process.env.NODE_ENV === 'development') {
+      console.error('Statement verification failed:', error);
+    }
+    return null;
+  }
+}
+
 /**
  * Decode a JWT without verification.
  * Useful for extracting claims for logging/debugging.
@@ -1,22 +1,46 @@
 /**
- * OIDC Auth Provider (Stub)
+ * OIDC Auth Provider
  *
- * Placeholder for SwiftFox OIDC integration.
- * This provider will be implemented when SwiftFox OIDC specification is available.
+ * Signs users in with the association's OpenID Connect identity provider
+ * (SwiftFox) using the authorization code flow with PKCE.
  *
- * Current implementation throws errors to prevent accidental use before
- * the OIDC integration is complete.
+ * Flow:
+ * 1. /api/auth/oidc/login creates state, nonce and a PKCE verifier, stores them
+ *    in a short-lived HttpOnly cookie and redirects to the provider
+ * 2. /api/auth/oidc/callback checks state, exchanges the code, validates the
+ *    ID token against the provider's JWKS and links the identity to an AuthUser
+ * 3. We issue our own RS256 session (same cookie and AuthSession table as
+ *    AUTH_MODE=custom), so satellite apps verify OIDC sessions unchanged
+ *
+ * The provider is located through OIDC discovery, so pointing OIDC_ISSUER at a
+ * local mock (scripts/mock-oidc-provider.ts) exercises the full flow.
  */
 
-import type { AuthenticatedUser, SessionInfo, TokenPair, AuthUserRole } from '../types';
+import { createRemoteJWKSet, jwtVerify, base64url, type JWTPayload as IdTokenClaims } from 'jose';
+import { serialize, parse } from 'cookie';
+import { db } from '@/lib/db';
+import { signToken, verifyToken, hashToken } from '../jwt';
+import { getSessionFromRequest, calculateSessionExpiry } from '../session';
+import type {
+  AuthenticatedUser,
+  SessionInfo,
+  TokenPair,
+  AuthUserRole,
+  AuthAppType,
+} from '../types';
+import type { AuthPermission } from '@prisma/client';
 
-// SwiftFox OIDC configuration (to be filled when spec is available)
+// SwiftFox OIDC configuration
 interface OIDCConfig {
   issuer: string;
   clientId: string;
   clientSecret: string;
   redirectUri: string;
   scopes: string[];
+  /** Value stored in AuthUser.ssoProvider for linked identities */
+  providerName: string;
+  /** Treat a missing email_verified claim as verified (only for providers that never release unverified addresses) */
+  trustMissingEmailVerified: boolean;
   claimMapping: {
     sub: string;
     email: string;
@@ -26,27 +50,314 @@ interface OIDCConfig {
   };
 }
 
-// Placeholder config - will be populated from environment
-const OIDC_CONFIG: OIDCConfig = {
-  issuer: process.env.OIDC_ISSUER || '',
-  clientId: process.env.OIDC_CLIENT_ID || '',
-  clientSecret: process.env.OIDC_CLIENT_SECRET || '',
-  redirectUri: process.env.OIDC_REDIRECT_URI || '',
-  scopes: ['openid', 'profile', 'email'],
-  claimMapping: {
-    sub: 'sub',
-    email: 'email',
-    name: 'name',
-    role: 'role',
-    companyId: 'company_id',
-  },
-};
+/** Subset of the discovery document we rely on */
+interface OIDCDiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  end_session_endpoint?: string;
+  code_challenge_methods_supported?: string[];
+}
+
+export interface OIDCTokenResponse {
+  accessToken: string;
+  idToken: string;
+  refreshToken?: string;
+}
+
+/** Identity extracted from a validated ID token */
+export interface OIDCIdentity {
+  ssoId: string;
+  email: string;
+  emailVerified: boolean;
+  firstName: string;
+  lastName: string;
+  /** Mapped role, or null when the provider did not send a role claim */
+  role: AuthUserRole | null;
+  companyId?: string;
+}
+
+/** Per-login values kept in the flow cookie between redirect and callback */
+export interface OIDCFlowState {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  returnTo: string;
+}
+
+export class OIDCError extends Error {
+  constructor(
+    message: string,
+    public readonly code:
+      | 'not_configured'
+      | 'discovery_failed'
+      | 'invalid_state'
+      | 'token_exchange_failed'
+      | 'invalid_id_token'
+      | 'missing_claims'
+      | 'email_not_verified'
+      | 'account_conflict'
+      | 'account_inactive'
+  ) {
+    super(message);
+    this.name = 'OIDCError';
+  }
+}
+
+const FLOW_COOKIE_NAME = 'ranz_oidc_flow';
+const FLOW_COOKIE_MAX_AGE = 10 * 60; // 10 minutes to complete sign-in at the provider
+const DISCOVERY_CACHE_MS = 60 * 60 * 1000;
+
+/**
+ * Read configuration from the environment on each call so tests and the mock
+ * provider can change OIDC_* variables without reloading the module.
+ */
+export function getOIDCConfig(): OIDCConfig {
+  return {
+    issuer: (process.env.OIDC_ISSUER || '').replace(/\/+$/, ''),
+    clientId: process.env.OIDC_CLIENT_ID || '',
+    clientSecret: process.env.OIDC_CLIENT_SECRET || '',
+    redirectUri: process.env.OIDC_REDIRECT_URI || '',
+    scopes: (process.env.OIDC_SCOPES || 'openid profile email').split(/\s+/).filter(Boolean),
+    providerName: process.env.OIDC_PROVIDER_NAME || 'swiftfox',
+    trustMissingEmailVerified: process.env.OIDC_TRUST_MISSING_EMAIL_VERIFIED === 'true',
+    claimMapping: {
+      sub: 'sub',
+      email: 'email',
+      name: 'name',
+      role: process.env.OIDC_ROLE_CLAIM || 'role',
+      companyId: process.env.OIDC_COMPANY_CLAIM || 'company_id',
+    },
+  };
+}
+
+function requireConfig(): OIDCConfig {
+  const config = getOIDCConfig();
+  if (!config.issuer || !config.clientId || !config.redirectUri) {
+    throw new OIDCError(
+      'OIDC not configured. Set OIDC_ISSUER, OIDC_CLIENT_ID and OIDC_REDIRECT_URI environment variables.',
+      'not_configured'
+    );
+  }
+  return config;
+}
+
+// ============================================================================
+// Discovery & JWKS
+// ============================================================================
+
+let discoveryCache: { issuer: string; document: OIDCDiscoveryDocument; fetchedAt: number } | null = null;
+let jwksCache: { uri: string; keySet: ReturnType<typeof createRemoteJWKSet> } | null = null;
+
+/**
+ * Fetch (and cache) the provider's /.well-known/openid-configuration.
+ */
+export async function discoverOIDCProvider(): Promise<OIDCDiscoveryDocument> {
+  const config = requireConfig();
+
+  if (
+    discoveryCache &&
+    discoveryCache.issuer === config.issuer &&
+    Date.now() - discoveryCache.fetchedAt < DISCOVERY_CACHE_MS
+  ) {
+    return discoveryCache.document;
+  }
+
+  let document: OIDCDiscoveryDocument;
+  try {
+    const res = await fetch(`${config.issuer}/.well-known/openid-configuration`, {
+      headers: { Accept: 'application/json' },
+      cache: 'no-store',
+    });
+    if (!res.ok) {
+      throw new Error(`HTTP ${res.status}`);
+    }
+    document = await res.json() as OIDCDiscoveryDocument;
+  } catch (error) {
+    throw new OIDCError(
+      `OIDC discovery failed for ${config.issuer}: ${error instanceof Error ? error.message : String(error)}`,
+      'discovery_failed'
+    );
+  }
+
+  // The discovery document must describe the issuer we were configured with,
+  // otherwise ID tokens would be validated against the wrong issuer
+  if (document.issuer.replace(/\/+$/, '') !== config.issuer) {
+    throw new OIDCError(
+      `OIDC discovery issuer mismatch: expected ${config.issuer}, got ${document.issuer}`,
+      'discovery_failed'
+    );
+  }
+
+  if (!document.authorization_endpoint || !document.token_endpoint || !document.jwks_uri) {
+    throw new OIDCError('OIDC discovery document is missing required endpoints', 'discovery_failed');
+  }
+
+  discoveryCache = { issuer: config.issuer, document, fetchedAt: Date.now() };
+  return document;
+}
+
+function getJWKS(jwksUri: string) {
+  // jose handles key caching and refetches on unknown kid (key rotation)
+  if (!jwksCache || jwksCache.uri !== jwksUri) {
+    jwksCache = { uri: jwksUri, keySet: createRemoteJWKSet(new URL(jwksUri)) };
+  }
+  return jwksCache.keySet;
+}
+
+/**
+ * Clear cached discovery/JWKS data (useful for testing or issuer changes).
+ */
+export function clearOIDCCache(): void {
+  discoveryCache = null;
+  jwksCache = null;
+}
+
+// ============================================================================
+// PKCE & flow state
+// ============================================================================
+
+function randomToken(bytes = 32): string {
+  return base64url.encode(crypto.getRandomValues(new Uint8Array(bytes)));
+}
+
+/**
+ * Create a PKCE verifier and its S256 challenge (RFC 7636).
+ */
+export async function generatePKCE(): Promise<{ codeVerifier: string; codeChallenge: string }> {
+  const codeVerifier = randomToken(32);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+  return { codeVerifier, codeChallenge: base64url.encode(new Uint8Array(digest)) };
+}
+
+/**
+ * Origin the portal is served from: the callback URL's origin, falling back
+ * to the public app URL.
+ */
+function getAppOrigin(): string {
+  const appUrl = process.env.OIDC_REDIRECT_URI || process.env.NEXT_PUBLIC_APP_URL || 'https://portal.ranz.co.nz';
+  try {
+    return new URL(appUrl).origin;
+  } catch {
+    return 'https://portal.ranz.co.nz';
+  }
+}
+
+/**
+ * Only allow same-origin paths as post-login destinations.
+ *
+ * Browsers strip tabs and newlines and treat backslashes as slashes, so
+ * prefix checks alone can be bypassed (e.g. "/\t/evil.com"). Those are
+ * rejected outright and the rest is resolved against the app origin.
+ */
+export function sanitizeReturnTo(
+  returnTo: string | null | undefined,
+  appOrigin: string = getAppOrigin()
+): string {
+  if (!returnTo || !returnTo.startsWith('/') || /[\x00-\x1f\x7f\\]/.test(returnTo)) {
+    return '/dashboard';
+  }
+
+  let url: URL;
+  try {
+    url = new URL(returnTo, appOrigin);
+  } catch {
+    return '/dashboard';
+  }
+
+  if (url.origin !== appOrigin) {
+    return '/dashboard';
+  }
+  return url.pathname + url.search + url.hash;
+}
+
+/**
+ * Create a fresh flow state for one sign-in attempt.
+ */
+export async function createOIDCFlowState(returnTo?: string | null): Promise<OIDCFlowState & { codeChallenge: string }> {
+  const { codeVerifier, codeChallenge } = await generatePKCE();
+  return {
+    state: randomToken(16),
+    nonce: randomToken(16),
+    codeVerifier,
+    codeChallenge,
+    returnTo: sanitizeReturnTo(returnTo),
+  };
+}
+
+/**
+ * Serialize the flow state into a short-lived cookie scoped to the OIDC routes.
+ */
+export function createOIDCFlowCookie(flow: OIDCFlowState): string {
+  return serialize(
+    FLOW_COOKIE_NAME,
+    JSON.stringify({
+      state: flow.state,
+      nonce: flow.nonce,
+      codeVerifier: flow.codeVerifier,
+      returnTo: flow.returnTo,
+    }),
+    {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax', // Must survive the top-level redirect back from the provider
+      path: '/api/auth/oidc',
+      maxAge: FLOW_COOKIE_MAX_AGE,
+    }
+  );
+}
+
+export function clearOIDCFlowCookie(): string {
+  return serialize(FLOW_COOKIE_NAME, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/api/auth/oidc',
+    expires: new Date(0),
+  });
+}
+
+export function parseOIDCFlowCookie(cookieHeader: string | null): OIDCFlowState | null {
+  if (!cookieHeader) return null;
+
+  const raw = parse(cookieHeader)[FLOW_COOKIE_NAME];
+  if (!raw) return null;
+
+  try {
+    const flow = JSON.parse(raw) as Partial<OIDCFlowState>;
+    if (!flow.state || !flow.nonce || !flow.codeVerifier) return null;
+    return {
+      state: flow.state,
+      nonce: flow.nonce,
+      codeVerifier: flow.codeVerifier,
+      returnTo: sanitizeReturnTo(flow.returnTo),
+    };
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// Claims
+// ============================================================================
+
+// Highest privilege first, used when the provider sends several roles
+const ROLE_PRIORITY: AuthUserRole[] = [
+  'RANZ_ADMIN',
+  'RANZ_STAFF',
+  'RANZ_INSPECTOR',
+  'EXTERNAL_INSPECTOR',
+  'MEMBER_COMPANY_ADMIN',
+  'MEMBER_COMPANY_USER',
+];
 
 /**
  * Map OIDC role claims to our AuthUserRole type.
- * This mapping will be customized when SwiftFox spec is available.
+ * Accepts a single role or an array of roles/groups; the most privileged
+ * recognised role wins.
  */
-function mapOIDCRole(oidcRole?: string): AuthUserRole {
+export function mapOIDCRole(oidcRole?: string | string[]): AuthUserRole {
   const roleMap: Record<string, AuthUserRole> = {
     admin: 'RANZ_ADMIN',
     staff: 'RANZ_STAFF',
@@ -56,111 +367,455 @@ function mapOIDCRole(oidcRole?: string): AuthUserRole {
     external: 'EXTERNAL_INSPECTOR',
   };
 
-  return roleMap[oidcRole || ''] || 'MEMBER_COMPANY_USER';
+  const roles = Array.isArray(oidcRole) ? oidcRole : [oidcRole || ''];
+  const mapped = roles
+    .map((role) => roleMap[role.toLowerCase()])
+    .filter((role): role is AuthUserRole => Boolean(role));
+
+  return ROLE_PRIORITY.find((role) => mapped.includes(role)) || 'MEMBER_COMPANY_USER';
+}
+
+function splitName(claims: IdTokenClaims, nameClaim: string): { firstName: string; lastName: string } {
+  const given = typeof claims.given_name === 'string' ? claims.given_name : '';
+  const family = typeof claims.family_name === 'string' ? claims.family_name : '';
+  if (given || family) {
+    return { firstName: given, lastName: family };
+  }
+
+  const name = typeof claims[nameClaim] === 'string' ? (claims[nameClaim] as string).trim() : '';
+  const [firstName = '', ...rest] = name.split(/\s+/);
+  return { firstName, lastName: rest.join(' ') };
 }
 
 /**
- * OIDC Auth Provider Implementation (Stub)
+ * Convert validated ID token claims into an identity using the configured
+ * claim mapping.
+ */
+export function mapOIDCClaims(claims: IdTokenClaims, config: OIDCConfig = getOIDCConfig()): OIDCIdentity {
+  const { claimMapping } = config;
+  const ssoId = claims[claimMapping.sub];
+  const email = claims[claimMapping.email];
+
+  if (typeof ssoId !== 'string' || !ssoId || typeof email !== 'string' || !email) {
+    throw new OIDCError('ID token is missing the subject or email claim', 'missing_claims');
+  }
+
+  const roleClaim = claims[claimMapping.role];
+  const hasRole =
+    typeof roleClaim === 'string' ||
+    (Array.isArray(roleClaim) && roleClaim.every((r) => typeof r === 'string'));
+  const companyId = claims[claimMapping.companyId];
+
+  const { firstName, lastName } = splitName(claims, claimMapping.name);
+
+  return {
+    ssoId,
+    email: email.toLowerCase().trim(),
+    // A missing claim only counts as verified when the provider is configured as trusted
+    emailVerified:
+      claims.email_verified === true ||
+      (claims.email_verified === undefined && config.trustMissingEmailVerified),
+    firstName: firstName || email.split('@')[0],
+    lastName,
+    role: hasRole ? mapOIDCRole(roleClaim as string | string[]) : null,
+    companyId: typeof companyId === 'string' && companyId ? companyId : undefined,
+  };
+}
+
+// ============================================================================
+// User linking & sessions
+// ============================================================================
+
+/**
+ * Find or create the AuthUser for an OIDC identity (just-in-time provisioning).
+ *
+ * 1. An AuthUser already linked to this ssoId
+ * 2. An existing AuthUser with the same (verified) email, which gets linked
+ * 3. A new ACTIVE, password-less AuthUser
+ *
+ * When the provider sends a role claim it is authoritative and updates
+ * userType; otherwise the portal-managed role is kept.
+ */
+export async function linkOIDCUser(identity: OIDCIdentity) {
+  const config = getOIDCConfig();
+
+  const bySsoId = await db.authUser.findUnique({ where: { ssoId: identity.ssoId } });
+  const existing = bySsoId ?? (await db.authUser.findUnique({ where: { email: identity.email } }));
+
+  if (existing) {
+    if (!bySsoId) {
+      if (!identity.emailVerified) {
+        throw new OIDCError(
+          'Email address is not verified by the identity provider',
+          'email_not_verified'
+        );
+      }
+      if (existing.ssoId && existing.ssoId !== identity.ssoId) {
+        throw new OIDCError(
+          'This email address is already linked to a different SSO identity',
+          'account_conflict'
+        );
+      }
+    }
+
+    if (existing.status === 'DEACTIVATED' || existing.status === 'SUSPENDED') {
+      throw new OIDCError('Account is not active', 'account_inactive');
+    }
+
+    const companyId = identity.companyId && (await companyExists(identity.companyId))
+      ? identity.companyId
+      : undefined;
+
+    const user = await db.authUser.update({
+      where: { id: existing.id },
+      data: {
+        ssoId: identity.ssoId,
+        ssoProvider: config.providerName,
+        ...(identity.role ? { userType: identity.role } : {}),
+        ...(companyId ? { companyId } : {}),
+        // Password-based first login rules don't apply to SSO sign-in
+        ...(existing.status === 'PENDING_ACTIVATION' ? { status: 'ACTIVE' as const } : {}),
+        mustChangePassword: existing.passwordHash ? existing.mustChangePassword : false,
+      },
+    });
+
+    return {
+      user,
+      created: false,
+      linked: !bySsoId,
+      previousRole: existing.userType,
+    };
+  }
+
+  const companyId = identity.companyId && (await companyExists(identity.companyId))
+    ? identity.companyId
+    : null;
+
+  const user = await db.authUser.create({
+    data: {
+      email: identity.email,
+      passwordHash: null,
+      firstName: identity.firstName,
+      lastName: identity.lastName,
+      userType: identity.role ?? 'MEMBER_COMPANY_USER',
+      companyId,
+      status: 'ACTIVE',
+      mustChangePassword: false,
+      authMode: 'CUSTOM',
+      ssoId: identity.ssoId,
+      ssoProvider: config.providerName,
+      createdBy: `oidc:${config.providerName}`,
+    },
+  });
+
+  return { user, created: true, linked: false, previousRole: null };
+}
+
+async function companyExists(companyId: string): Promise<boolean> {
+  const company = await db.authCompany.findUnique({
+    where: { id: companyId },
+    select: { id: true },
+  });
+  return Boolean(company);
+}
+
+function toAuthenticatedUser(user: {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  userType: AuthUserRole;
+  companyId: string | null;
+  status: AuthenticatedUser['status'];
+  mustChangePassword: boolean;
+}): AuthenticatedUser {
+  return {
+    id: user.id,
+    email: user.email,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    userType: user.userType,
+    companyId: user.companyId ?? undefined,
+    status: user.status,
+    mustChangePassword: user.mustChangePassword,
+  };
+}
+
+/**
+ * OIDC Auth Provider Implementation
  */
 export const oidcAuth = {
   /**
-   * Get the current authenticated user from OIDC session.
-   * Not yet implemented - awaiting SwiftFox OIDC spec.
+   * Get the current authenticated user from the session cookie.
+   *
+   * @param request - The incoming request (required for cookie extraction)
    */
-  async getCurrentUser(_request?: Request): Promise<AuthenticatedUser | null> {
-    throw new Error(
-      'OIDC provider not yet implemented. ' +
-      'SwiftFox OIDC specification required. ' +
-      'Use AUTH_MODE=clerk or AUTH_MODE=custom.'
-    );
+  async getCurrentUser(request?: Request): Promise<AuthenticatedUser | null> {
+    if (!request) return null;
+
+    const token = getSessionFromRequest(request);
+    if (!token) return null;
+
+    return this.validateSession(token);
   },
 
   /**
-   * Require authentication.
+   * Require authentication - throws if not authenticated.
    */
-  async requireAuth(_request?: Request): Promise<AuthenticatedUser> {
-    throw new Error(
-      'OIDC provider not yet implemented. ' +
-      'SwiftFox OIDC specification required.'
-    );
+  async requireAuth(request?: Request): Promise<AuthenticatedUser> {
+    const user = await this.getCurrentUser(request);
+    if (!user) {
+      throw new Error('Authentication required');
+    }
+    return user;
   },
 
   /**
-   * Check permission.
+   * Check if the current user holds a Quality Program permission.
    */
   async hasPermission(
-    _permission: string,
-    _request?: Request
+    permission: string,
+    request?: Request
   ): Promise<boolean> {
-    throw new Error('OIDC provider not yet implemented.');
+    const user = await this.getCurrentUser(request);
+    if (!user) return false;
+
+    const grant = await db.authUserPermission.findFirst({
+      where: {
+        userId: user.id,
+        application: 'QUALITY_PROGRAM',
+        permission: permission as AuthPermission,
+      },
+      select: { id: true },
+    });
+    return Boolean(grant);
   },
 
   /**
-   * Validate OIDC session token.
+   * Validate a session token: signature, AuthSession revocation/expiry and
+   * current account status.
    */
-  async validateSession(_token: string): Promise<AuthenticatedUser | null> {
-    throw new Error('OIDC provider not yet implemented.');
+  async validateSession(token: string): Promise<AuthenticatedUser | null> {
+    const payload = await verifyToken(token);
+    if (!payload) return null;
+
+    const session = await db.authSession.findUnique({
+      where: { id: payload.sessionId },
+      include: { user: true },
+    });
+
+    if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+      return null;
+    }
+
+    if (session.user.status !== 'ACTIVE') {
+      return null;
+    }
+
+    return toAuthenticatedUser(session.user);
   },
 
   /**
-   * Create session.
-   * For OIDC, sessions are created via the authorization flow.
+   * Issue our own RS256 session for a user who completed the OIDC flow.
+   *
+   * @param userId - The AuthUser to create the session for
+   * @param metadata - Request details stored on the AuthSession
    */
-  async createSession(_userId: string): Promise<TokenPair> {
-    throw new Error(
-      'OIDC sessions are created via authorization flow, not createSession.'
-    );
+  async createSession(
+    userId: string,
+    metadata?: {
+      ipAddress?: string;
+      userAgent?: string;
+      application?: AuthAppType;
+    }
+  ): Promise<TokenPair> {
+    const user = await db.authUser.findUniqueOrThrow({ where: { id: userId } });
+
+    const sessionId = crypto.randomUUID();
+    const expiresAt = calculateSessionExpiry();
+
+    const accessToken = await signToken({
+      sub: user.id,
+      email: user.email,
+      name: `${user.firstName} ${user.lastName}`.trim(),
+      role: user.userType,
+      companyId: user.companyId ?? undefined,
+      sessionId,
+      type: 'access',
+    });
+
+    await db.authSession.create({
+      data: {
+        id: sessionId,
+        userId: user.id,
+        tokenHash: await hashToken(accessToken),
+        userAgent: metadata?.userAgent,
+        ipAddress: metadata?.ipAddress,
+        application: metadata?.application ?? 'QUALITY_PROGRAM',
+        expiresAt,
+      },
+    });
+
+    await db.authUser.update({
+      where: { id: user.id },
+      data: {
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+        lastLoginAt: new Date(),
+        lastLoginIp: metadata?.ipAddress,
+      },
+    });
+
+    return { accessToken, expiresAt, sessionId };
   },
 
   /**
-   * Revoke OIDC session.
+   * Revoke a session by ID.
    */
-  async revokeSession(_sessionId: string): Promise<void> {
-    throw new Error('OIDC provider not yet implemented.');
+  async revokeSession(sessionId: string, revokedBy?: string): Promise<void> {
+    await db.authSession.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: {
+        revokedAt: new Date(),
+        revokedBy: revokedBy ?? null,
+        revokedReason: 'user_logout',
+      },
+    });
   },
 
   /**
-   * Get session info.
+   * Get session info from token.
    */
-  async getSession(_token?: string): Promise<SessionInfo | null> {
-    throw new Error('OIDC provider not yet implemented.');
+  async getSession(token?: string): Promise<SessionInfo | null> {
+    if (!token) return null;
+
+    const payload = await verifyToken(token);
+    if (!payload) return null;
+
+    const session = await db.authSession.findUnique({ where: { id: payload.sessionId } });
+    if (!session) return null;
+
+    return {
+      id: session.id,
+      userId: session.userId,
+      application: session.application,
+      createdAt: session.createdAt,
+      expiresAt: session.expiresAt,
+      ipAddress: session.ipAddress ?? undefined,
+      userAgent: session.userAgent ?? undefined,
+      isRevoked: Boolean(session.revokedAt),
+    };
   },
 
   /**
-   * Get OIDC authorization URL.
-   * Redirects user to SwiftFox for authentication.
+   * Build the provider authorization URL for a new sign-in attempt.
    */
-  getAuthorizationUrl(state: string): string {
-    if (!OIDC_CONFIG.issuer || !OIDC_CONFIG.clientId) {
-      throw new Error(
-        'OIDC not configured. Set OIDC_ISSUER and OIDC_CLIENT_ID environment variables.'
-      );
-    }
+  async getAuthorizationUrl(flow: {
+    state: string;
+    nonce: string;
+    codeChallenge: string;
+  }): Promise<string> {
+    const config = requireConfig();
+    const discovery = await discoverOIDCProvider();
 
     const params = new URLSearchParams({
-      client_id: OIDC_CONFIG.clientId,
-      redirect_uri: OIDC_CONFIG.redirectUri,
+      client_id: config.clientId,
+      redirect_uri: config.redirectUri,
       response_type: 'code',
-      scope: OIDC_CONFIG.scopes.join(' '),
-      state,
+      scope: config.scopes.join(' '),
+      state: flow.state,
+      nonce: flow.nonce,
+      code_challenge: flow.codeChallenge,
+      code_challenge_method: 'S256',
     });
 
-    return `${OIDC_CONFIG.issuer}/authorize?${params.toString()}`;
+    const url = new URL(discovery.authorization_endpoint);
+    params.forEach((value, key) => url.searchParams.set(key, value));
+    return url.toString();
   },
 
   /**
-   * Exchange authorization code for tokens.
-   * Called after user returns from SwiftFox.
+   * Exchange an authorization code (plus PKCE verifier) for tokens.
    */
-  async exchangeCode(_code: string): Promise<{
-    accessToken: string;
-    idToken: string;
-    refreshToken?: string;
-  }> {
-    throw new Error(
-      'OIDC provider not yet implemented. ' +
-      'Code exchange requires SwiftFox OIDC spec.'
-    );
+  async exchangeCode(code: string, codeVerifier: string): Promise<OIDCTokenResponse> {
+    const config = requireConfig();
+    const discovery = await discoverOIDCProvider();
+
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: config.redirectUri,
+      client_id: config.clientId,
+      code_verifier: codeVerifier,
+    });
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    };
+
+    // Confidential client: client_secret_basic. Public clients rely on PKCE alone.
+    if (config.clientSecret) {
+      const credentials = `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+
+    const res = await fetch(discovery.token_endpoint, {
+      method: 'POST',
+      headers,
+      body: body.toString(),
+      cache: 'no-store',
+    });
+
+    const data = await res.json().catch(() => ({})) as {
+      access_token?: string;
+      id_token?: string;
+      refresh_token?: string;
+      error?: string;
+      error_description?: string;
+    };
+
+    if (!res.ok || !data.id_token || !data.access_token) {
+      throw new OIDCError(
+        `Token exchange failed: ${data.error_description || data.error || `HTTP ${res.status}`}`,
+        'token_exchange_failed'
+      );
+    }
+
+    return {
+      accessToken: data.access_token,
+      idToken: data.id_token,
+      refreshToken: data.refresh_token,
+    };
+  },
+
+  /**
+   * Validate an ID token's signature (JWKS), issuer, audience, expiry and nonce.
+   */
+  async validateIdToken(idToken: string, expectedNonce: string): Promise<IdTokenClaims> {
+    const config = requireConfig();
+    const discovery = await discoverOIDCProvider();
+
+    let claims: IdTokenClaims;
+    try {
+      const result = await jwtVerify(idToken, getJWKS(discovery.jwks_uri), {
+        issuer: discovery.issuer,
+        audience: config.clientId,
+        clockTolerance: 60,
+      });
+      claims = result.payload;
+    } catch (error) {
+      throw new OIDCError(
+        `ID token validation failed: ${error instanceof Error ? error.message : String(error)}`,
+        'invalid_id_token'
+      );
+    }
+
+    if (claims.nonce !== expectedNonce) {
+      throw new OIDCError('ID token nonce mismatch', 'invalid_id_token');
+    }
+
+    return claims;
   },
 
   /**
@@ -169,9 +824,12 @@ export const oidcAuth = {
   name: 'oidc' as const,
 
   /**
-   * Provider readiness status
+   * Provider readiness status (all required configuration present)
    */
-  isReady: false,
+  get isReady(): boolean {
+    const config = getOIDCConfig();
+    return Boolean(config.issuer && config.clientId && config.redirectUri);
+  },
 };
 
 export type OIDCAuthProvider = typeof oidcAuth;
@@ -0,0 +1,153 @@
+/**
+ * Role-Based Access Control
+ *
+ * Single policy layer for API routes. Every identity, whether it comes from
+ * Clerk or a custom/OIDC session, is resolved to an AuthUserRole and mapped
+ * onto the Quality Program AuthPermission values. Each route handler declares
+ * the permission it needs; anything not granted is denied.
+ *
+ * Usage:
+ * ```typescript
+ * const authResult = await authorizeRequest(request, 'QP_ADMIN_REPORTS');
+ * if (!authResult.success) {
+ *   return authorizationErrorResponse(authResult);
+ * }
+ * ```
+ *
+ * Every handler under /api/admin and /api/auditor must declare a permission
+ * this way; src/lib/__tests__/rbac.test.ts fails on any that does not.
+ */
+
+import type { AuthPermission } from '@prisma/client';
+import { db } from '@/lib/db';
+import { getAuthMode, getCurrentUser } from './index';
+import type { AuthenticatedUser, AuthUserRole } from './types';
+
+/**
+ * Quality Program permissions held by each role.
+ * Roles missing from this map, or permissions missing from a role, are denied.
+ */
+export const ROLE_PERMISSIONS: Record<AuthUserRole, readonly AuthPermission[]> = {
+  RANZ_ADMIN: [
+    'QP_VIEW_DASHBOARD',
+    'QP_MANAGE_DOCUMENTS',
+    'QP_MANAGE_INSURANCE',
+    'QP_MANAGE_PERSONNEL',
+    'QP_VIEW_AUDITS',
+    'QP_MANAGE_PROJECTS',
+    'QP_ADMIN_USERS',
+    'QP_ADMIN_COMPANIES',
+    'QP_ADMIN_AUDITS',
+    'QP_ADMIN_REPORTS',
+    'QP_ADMIN_AUDIT_TRAIL',
+    'QP_ADMIN_SETTINGS',
+  ],
+  RANZ_STAFF: [
+    'QP_VIEW_DASHBOARD',
+    'QP_VIEW_AUDITS',
+    'QP_ADMIN_USERS',
+    'QP_ADMIN_COMPANIES',
+    'QP_ADMIN_REPORTS',
+    'QP_ADMIN_AUDIT_TRAIL',
+  ],
+  RANZ_INSPECTOR: [
+    'QP_VIEW_DASHBOARD',
+    'QP_VIEW_AUDITS',
+    'QP_ADMIN_AUDITS',
+    'QP_ADMIN_REPORTS',
+  ],
+  EXTERNAL_INSPECTOR: ['QP_VIEW_AUDITS'],
+  MEMBER_COMPANY_ADMIN: [
+    'QP_VIEW_DASHBOARD',
+    'QP_MANAGE_DOCUMENTS',
+    'QP_MANAGE_INSURANCE',
+    'QP_MANAGE_PERSONNEL',
+    'QP_VIEW_AUDITS',
+    'QP_MANAGE_PROJECTS',
+  ],
+  MEMBER_COMPANY_USER: ['QP_VIEW_DASHBOARD', 'QP_VIEW_AUDITS', 'QP_MANAGE_PROJECTS'],
+};
+
+/**
+ * Check whether a role grants a permission.
+ */
+export function roleHasPermission(
+  role: string,
+  permission: AuthPermission
+): boolean {
+  const granted = Object.prototype.hasOwnProperty.call(ROLE_PERMISSIONS, role)
+    ? ROLE_PERMISSIONS[role as AuthUserRole]
+    : [];
+  return granted.includes(permission);
+}
+
+interface AuthorizationSuccess {
+  success: true;
+  user: AuthenticatedUser;
+}
+
+interface AuthorizationFailure {
+  success: false;
+  error: string;
+  status: number;
+}
+
+export type AuthorizationResult = AuthorizationSuccess | AuthorizationFailure;
+
+/**
+ * Authorize the current request against a permission.
+ *
+ * Role grants come from ROLE_PERMISSIONS. Custom and OIDC users can also hold
+ * explicit AuthUserPermission grants, which are checked when the role alone
+ * does not allow the request. Only global grants (no companyId) count: these
+ * routes act across every member business, so a grant scoped to one company
+ * must not unlock them.
+ */
+export async function authorizeRequest(
+  request: Request,
+  permission: AuthPermission
+): Promise<AuthorizationResult> {
+  try {
+    const user = await getCurrentUser(request);
+
+    if (!user) {
+      return { success: false, error: 'Unauthorized', status: 401 };
+    }
+
+    if (user.status !== 'ACTIVE') {
+      return { success: false, error: 'Forbidden', status: 403 };
+    }
+
+    if (roleHasPermission(user.userType, permission)) {
+      return { success: true, user };
+    }
+
+    if (getAuthMode() !== 'clerk') {
+      const grant = await db.authUserPermission.findFirst({
+        where: {
+          userId: user.id,
+          application: 'QUALITY_PROGRAM',
+          permission,
+          companyId: null,
+        },
+        select: { id: true },
+      });
+
+      if (grant) {
+        return { success: true, user };
+      }
+    }
+
+    return { success: false, error: 'Forbidden', status: 403 };
+  } catch (error) {
+    console.error('[RBAC] Authorization error:', error);
+    return { success: false, error: 'Internal server error', status: 500 };
+  }
+}
+
+/**
+ * Helper to return an error response from a failed authorization.
+ */
+export function authorizationErrorResponse(result: AuthorizationFailure): Response {
+  return Response.json({ error: result.error }, { status: result.status });
+}
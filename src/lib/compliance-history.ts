@@ -0,0 +1,277 @@
+import type { CertificationTier, ComplianceSnapshot } from "@prisma/client";
+import { COMPLIANCE_THRESHOLDS } from "@/types";
+import type { ComplianceResult } from "./compliance-v2";
+import { db } from "./db";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type Dimension = "documentation" | "insurance" | "personnel" | "audit";
+
+const DIMENSIONS: Dimension[] = ["documentation", "insurance", "personnel", "audit"];
+
+// Snapshots are written on every recalculation; cap what one chart loads
+const MAX_HISTORY_POINTS = 2000;
+
+// Type alias rather than an interface so it can be stored in a Json column
+export type SnapshotTierEligibility = {
+  qualifiedTier: CertificationTier;
+  nextTier: CertificationTier | null;
+  eligibleForUpgrade: boolean;
+  blockers: string[];
+};
+
+export interface ComplianceTrendPoint {
+  calculatedAt: string;
+  overallScore: number;
+  documentation: number;
+  insurance: number;
+  personnel: number;
+  audit: number;
+  policyVersion: number;
+  certificationTier: CertificationTier;
+  qualifiedTier: CertificationTier;
+  criticalIssueCount: number;
+}
+
+export interface ThresholdCrossing {
+  calculatedAt: string;
+  direction: "dropped_below" | "recovered";
+  threshold: number;
+  previousScore: number;
+  score: number;
+  // Dimensions that moved, largest change first
+  dimensionChanges: Array<{ dimension: Dimension; from: number; to: number }>;
+  newIssueCodes: string[];
+  resolvedIssueCodes: string[];
+  policyChanged: boolean; // Scoring policy version differed between the two calculations
+}
+
+export interface ComplianceHistory {
+  points: ComplianceTrendPoint[];
+  crossings: ThresholdCrossing[];
+  threshold: number;
+}
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+/**
+ * Stores a point-in-time copy of a compliance calculation. Called on every
+ * recalculation that updates the cached scores on Organization.
+ */
+export async function recordComplianceSnapshot(
+  organizationId: string,
+  certificationTier: CertificationTier,
+  result: ComplianceResult
+): Promise<ComplianceSnapshot> {
+  const tierEligibility: SnapshotTierEligibility = {
+    qualifiedTier: result.tierEligibility.qualifiedTier,
+    nextTier: result.tierEligibility.nextTier,
+    eligibleForUpgrade: result.tierEligibility.eligibleForUpgrade,
+    blockers: result.tierEligibility.blockers,
+  };
+
+  return db.complianceSnapshot.create({
+    data: {
+      organizationId,
+      overallScore: result.overallScore,
+      documentationScore: result.breakdown.documentation.score,
+      insuranceScore: result.breakdown.insurance.score,
+      personnelScore: result.breakdown.personnel.score,
+      auditScore: result.breakdown.audit.score,
+      policyVersion: result.policyVersion,
+      issueCodes: result.issues.map((issue) => issue.code),
+      criticalIssueCount: result.issues.filter((i) => i.severity === "critical")
+        .length,
+      certificationTier,
+      tierEligibility,
+    },
+  });
+}
+
+// ============================================================================
+// History
+// ============================================================================
+
+/**
+ * Returns an organization's score history for the last `days` days, oldest
+ * first, along with every point where the score crossed `threshold` and the
+ * changes that came with it.
+ */
+export async function getComplianceHistory(
+  organizationId: string,
+  options: { days?: number; threshold?: number } = {}
+): Promise<ComplianceHistory> {
+  const days = options.days ?? 90;
+  const threshold = options.threshold ?? COMPLIANCE_THRESHOLDS.AT_RISK;
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  // Newest first so a capped window drops the oldest points, not the latest
+  const inRange = (
+    await db.complianceSnapshot.findMany({
+      where: { organizationId, calculatedAt: { gte: since } },
+      orderBy: { calculatedAt: "desc" },
+      take: MAX_HISTORY_POINTS,
+    })
+  ).reverse();
+
+  // Snapshot just before the first point, so a crossing there is detected
+  const baseline = await db.complianceSnapshot.findFirst({
+    where: { organizationId, calculatedAt: { lt: inRange[0]?.calculatedAt ?? since } },
+    orderBy: { calculatedAt: "desc" },
+  });
+
+  return {
+    points: inRange.map(toTrendPoint),
+    crossings: findThresholdCrossings(
+      baseline ? [baseline, ...inRange] : inRange,
+      threshold
+    ),
+    threshold,
+  };
+}
+
+export function findThresholdCrossings(
+  snapshots: ComplianceSnapshot[],
+  threshold: number
+): ThresholdCrossing[] {
+  const crossings: ThresholdCrossing[] = [];
+
+  for (let i = 1; i < snapshots.length; i++) {
+    const prev = snapshots[i - 1];
+    const curr = snapshots[i];
+
+    const wasAbove = prev.overallScore >= threshold;
+    const isAbove = curr.overallScore >= threshold;
+    if (wasAbove === isAbove) continue;
+
+    const prevCodes = new Set(prev.issueCodes);
+    const currCodes = new Set(curr.issueCodes);
+
+    crossings.push({
+      calculatedAt: curr.calculatedAt.toISOString(),
+      direction: isAbove ? "recovered" : "dropped_below",
+      threshold,
+      previousScore: prev.overallScore,
+      score: curr.overallScore,
+      dimensionChanges: DIMENSIONS.map((dimension) => ({
+        dimension,
+        from: dimensionScore(prev, dimension),
+        to: dimensionScore(curr, dimension),
+      }))
+        .filter((change) => change.from !== change.to)
+        .sort((a, b) => Math.abs(b.to - b.from) - Math.abs(a.to - a.from)),
+      newIssueCodes: curr.issueCodes.filter((code) => !prevCodes.has(code)),
+      resolvedIssueCodes: prev.issueCodes.filter((code) => !currCodes.has(code)),
+      policyChanged: prev.policyVersion !== curr.policyVersion,
+    });
+  }
+
+  return crossings;
+}
+
+// ============================================================================
+// Member-wide Trend
+// ============================================================================
+
+export interface MonthlyComplianceAverage {
+  month: string; // YYYY-MM
+  averageScore: number;
+  organizations: number;
+  belowThreshold: number;
+}
+
+/**
+ * Average compliance score across organizations per calendar month. Each
+ * organization contributes its last snapshot of the month, so frequent
+ * recalculations don't weight an organization more heavily.
+ */
+export async function getMonthlyComplianceAverages(options: {
+  months?: number;
+  tier?: CertificationTier;
+} = {}): Promise<MonthlyComplianceAverage[]> {
+  const months = options.months ?? 12;
+  const start = new Date();
+  start.setUTCDate(1);
+  start.setUTCHours(0, 0, 0, 0);
+  start.setUTCMonth(start.getUTCMonth() - (months - 1));
+
+  const snapshots = await db.complianceSnapshot.findMany({
+    where: {
+      calculatedAt: { gte: start },
+      ...(options.tier && { certificationTier: options.tier }),
+    },
+    orderBy: { calculatedAt: "asc" },
+    select: { organizationId: true, overallScore: true, calculatedAt: true },
+  });
+
+  // month -> organizationId -> latest score that month
+  const latestByMonth = new Map<string, Map<string, number>>();
+  for (const snapshot of snapshots) {
+    const month = snapshot.calculatedAt.toISOString().slice(0, 7);
+    let orgScores = latestByMonth.get(month);
+    if (!orgScores) {
+      orgScores = new Map();
+      latestByMonth.set(month, orgScores);
+    }
+    orgScores.set(snapshot.organizationId, snapshot.overallScore);
+  }
+
+  const result: MonthlyComplianceAverage[] = [];
+  for (let i = 0; i < months; i++) {
+    const monthStart = new Date(start);
+    monthStart.setUTCMonth(start.getUTCMonth() + i);
+    const month = monthStart.toISOString().slice(0, 7);
+    const scores = Array.from(latestByMonth.get(month)?.values() ?? []);
+
+    result.push({
+      month,
+      averageScore:
+        scores.length > 0
+          ? Math.round(scores.reduce((sum, s) => sum + s, 0) / scores.length)
+          : 0,
+      organizations: scores.length,
+      belowThreshold: scores.filter((s) => s < COMPLIANCE_THRESHOLDS.AT_RISK)
+        .length,
+    });
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function dimensionScore(snapshot: ComplianceSnapshot, dimension: Dimension): number {
+  switch (dimension) {
+    case "documentation":
+      return snapshot.documentationScore;
+    case "insurance":
+      return snapshot.insuranceScore;
+    case "personnel":
+      return snapshot.personnelScore;
+    case "audit":
+      return snapshot.auditScore;
+  }
+}
+
+function toTrendPoint(snapshot: ComplianceSnapshot): ComplianceTrendPoint {
+  const eligibility = snapshot.tierEligibility as SnapshotTierEligibility;
+
+  return {
+    calculatedAt: snapshot.calculatedAt.toISOString(),
+    overallScore: snapshot.overallScore,
+    documentation: snapshot.documentationScore,
+    insurance: snapshot.insuranceScore,
+    personnel: snapshot.personnelScore,
+    audit: snapshot.auditScore,
+    policyVersion: snapshot.policyVersion,
+    certificationTier: snapshot.certificationTier,
+    qualifiedTier: eligibility.qualifiedTier,
+    criticalIssueCount: snapshot.criticalIssueCount,
+  };
+}
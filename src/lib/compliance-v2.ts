@@ -14,10 +14,24 @@ import {
   ISO_ELEMENT_WEIGHTS,
   INSURANCE_REQUIREMENTS,
   COMPLIANCE_THRESHOLDS,
+  CERTIFICATION_TIER_LABELS,
   type InsurancePolicyType,
 } from "@/types";
 import { db } from "./db";
 import { syncOrgMetadataToClerk } from "./clerk-sync";
+import { recordComplianceSnapshot } from "./compliance-history";
+import {
+  calculateCpdProgress,
+  getCpdRequirements,
+  resolveCpdRequirement,
+  type CpdRecord,
+  type ResolvedCpdRequirement,
+} from "./cpd";
+import {
+  getActiveScoringPolicy,
+  type ResolvedScoringPolicy,
+  type ScoringRules,
+} from "./scoring-policy";
 
 // ============================================================================
 // Types
@@ -25,7 +39,7 @@ import { syncOrgMetadataToClerk } from "./clerk-sync";
 
 interface OrganizationWithRelations extends Organization {
   insurancePolicies: InsurancePolicy[];
-  members: OrganizationMember[];
+  members: (OrganizationMember & { trainingRecords: CpdRecord[] })[];
   documents: Document[];
   assessments: ComplianceAssessment[];
   audits: Audit[];
@@ -79,6 +93,8 @@ interface PersonnelDetails {
   lbpVerifiedCount: number;
   lbpPendingCount: number;
   lbpExpiredCount: number;
+  cpdShortfallCount: number; // LBP holders who missed their last CPD cycle
+  cpdDueSoonCount: number; // LBP holders short of CPD within 90 days of cycle end
 }
 
 interface AuditDetails {
@@ -94,6 +110,7 @@ export interface ComplianceResult {
   breakdown: ComplianceBreakdown;
   issues: ComplianceIssue[];
   tierEligibility: TierEligibility;
+  policyVersion: number;
 }
 
 export interface ComplianceIssue {
@@ -110,31 +127,56 @@ interface TierEligibility {
   eligibleForUpgrade: boolean;
   nextTier: CertificationTier | null;
   blockers: string[];
+  qualifiedTier: CertificationTier; // Highest tier the scores meet under the policy
 }
 
-// ============================================================================
-// Weight Configuration
-// ============================================================================
-
-const CATEGORY_WEIGHTS = {
-  documentation: 0.5, // 50%
-  insurance: 0.25, // 25%
-  personnel: 0.15, // 15%
-  audit: 0.1, // 10%
-};
+const TIER_ORDER: CertificationTier[] = [
+  "ACCREDITED",
+  "CERTIFIED",
+  "MASTER_ROOFER",
+];
 
 // ============================================================================
 // Main Compliance Calculation
 // ============================================================================
 
+/**
+ * Calculates the compliance score for an organization. Category weights and
+ * tier rules come from the active scoring policy (see scoring-policy.ts)
+ * unless a policy is passed in, e.g. a draft for a what-if preview.
+ */
 export async function calculateComplianceScore(
-  organizationId: string
+  organizationId: string,
+  policy?: ResolvedScoringPolicy
 ): Promise<ComplianceResult> {
+  const [inputs, resolvedPolicy] = await Promise.all([
+    loadComplianceInputs(organizationId),
+    policy ?? getActiveScoringPolicy(),
+  ]);
+
+  return evaluateCompliance(inputs, resolvedPolicy);
+}
+
+interface ComplianceInputs {
+  organization: OrganizationWithRelations;
+  capaRecords: { status: string }[];
+  cpdRequirements: ResolvedCpdRequirement[];
+}
+
+async function loadComplianceInputs(
+  organizationId: string
+): Promise<ComplianceInputs> {
   const organization = await db.organization.findUnique({
     where: { id: organizationId },
     include: {
       insurancePolicies: true,
-      members: true,
+      members: {
+        include: {
+          trainingRecords: {
+            select: { completedAt: true, cpdPoints: true, cpdCategory: true },
+          },
+        },
+      },
       documents: {
         where: { deletedAt: null },
       },
@@ -150,10 +192,21 @@ export async function calculateComplianceScore(
     throw new Error("Organization not found");
   }
 
-  const capaRecords = await db.cAPARecord.findMany({
-    where: { organizationId },
-  });
+  const [capaRecords, cpdRequirements] = await Promise.all([
+    db.cAPARecord.findMany({
+      where: { organizationId },
+    }),
+    getCpdRequirements(),
+  ]);
 
+  return { organization, capaRecords, cpdRequirements };
+}
+
+function evaluateCompliance(
+  { organization, capaRecords, cpdRequirements }: ComplianceInputs,
+  policy: ResolvedScoringPolicy
+): ComplianceResult {
+  const weights = policy.rules.categoryWeights;
   const issues: ComplianceIssue[] = [];
   const now = new Date();
 
@@ -163,7 +216,13 @@ export async function calculateComplianceScore(
     issues
   );
   const insuranceResult = calculateInsuranceScore(organization, issues, now);
-  const personnelResult = calculatePersonnelScore(organization, issues);
+  const personnelResult = calculatePersonnelScore(
+    organization,
+    cpdRequirements,
+    policy.rules.cpdShortfallPenalty,
+    issues,
+    now
+  );
   const auditResult = calculateAuditScore(
     organization,
     capaRecords,
@@ -173,19 +232,19 @@ export async function calculateComplianceScore(
 
   // Calculate weighted overall score
   const overallScore = Math.round(
-    documentationResult.score * CATEGORY_WEIGHTS.documentation +
-      insuranceResult.score * CATEGORY_WEIGHTS.insurance +
-      personnelResult.score * CATEGORY_WEIGHTS.personnel +
-      auditResult.score * CATEGORY_WEIGHTS.audit
+    documentationResult.score * weights.documentation +
+      insuranceResult.score * weights.insurance +
+      personnelResult.score * weights.personnel +
+      auditResult.score * weights.audit
   );
 
   // Determine tier eligibility
   const tierEligibility = calculateTierEligibility(
     organization.certificationTier,
     overallScore,
-    insuranceResult,
     personnelResult,
-    issues
+    issues,
+    policy.rules
   );
 
   return {
@@ -193,32 +252,33 @@ export async function calculateComplianceScore(
     breakdown: {
       documentation: {
         score: documentationResult.score,
-        weight: CATEGORY_WEIGHTS.documentation,
+        weight: weights.documentation,
         elements: documentationResult.elements,
       },
       insurance: {
         score: insuranceResult.score,
-        weight: CATEGORY_WEIGHTS.insurance,
+        weight: weights.insurance,
         policies: insuranceResult.policies,
       },
       personnel: {
         score: personnelResult.score,
-        weight: CATEGORY_WEIGHTS.personnel,
+        weight: weights.personnel,
         details: personnelResult.details,
       },
       audit: {
         score: auditResult.score,
-        weight: CATEGORY_WEIGHTS.audit,
+        weight: weights.audit,
         details: auditResult.details,
       },
     },
     issues,
     tierEligibility,
+    policyVersion: policy.version,
   };
 }
 
 // ============================================================================
-// Documentation Score (50%)
+// Documentation Score
 // ============================================================================
 
 function calculateDocumentationScore(
@@ -303,7 +363,7 @@ function calculateDocumentationScore(
 }
 
 // ============================================================================
-// Insurance Score (25%)
+// Insurance Score
 // ============================================================================
 
 function calculateInsuranceScore(
@@ -408,12 +468,15 @@ function calculateInsuranceScore(
 }
 
 // ============================================================================
-// Personnel Score (15%)
+// Personnel Score
 // ============================================================================
 
 function calculatePersonnelScore(
   org: OrganizationWithRelations,
-  issues: ComplianceIssue[]
+  cpdRequirements: ResolvedCpdRequirement[],
+  cpdShortfallPenalty: number,
+  issues: ComplianceIssue[],
+  now: Date
 ): { score: number; details: PersonnelDetails } {
   let score = 0;
 
@@ -485,6 +548,44 @@ function calculatePersonnelScore(
     score -= 10; // Penalty
   }
 
+  // CPD is a licensing obligation, so only LBP holders are assessed
+  const cpdProgress = membersWithLBP.map((m) =>
+    calculateCpdProgress(
+      resolveCpdRequirement(cpdRequirements, {
+        lbpClass: m.lbpClass,
+        certificationTier: org.certificationTier,
+      }),
+      m,
+      m.trainingRecords,
+      now
+    )
+  );
+  const cpdShortfall = cpdProgress.filter(
+    (p) => p.previousCycle.assessed && !p.previousCycle.met
+  );
+  const cpdDueSoon = cpdProgress.filter((p) => !p.met && p.daysRemaining <= 90);
+
+  if (cpdShortfall.length > 0) {
+    issues.push({
+      category: "personnel",
+      severity: "warning",
+      code: "PERS_CPD_SHORTFALL",
+      message: `${cpdShortfall.length} staff member(s) did not meet CPD requirements in their last cycle`,
+      actionRequired: "Record outstanding CPD and review training plans",
+    });
+    score -= cpdShortfallPenalty; // Set by the scoring policy
+  }
+
+  if (cpdDueSoon.length > 0) {
+    issues.push({
+      category: "personnel",
+      severity: "info",
+      code: "PERS_CPD_DUE",
+      message: `${cpdDueSoon.length} staff member(s) are short of CPD points with their cycle ending within 90 days`,
+      actionRequired: "Complete and record CPD before the cycle ends",
+    });
+  }
+
   // Minimum staff (20 points)
   if (org.members.length >= 2) {
     score += 20;
@@ -506,12 +607,14 @@ function calculatePersonnelScore(
       lbpVerifiedCount: verifiedLBP.length,
       lbpPendingCount: pendingLBP.length,
       lbpExpiredCount: expiredLBP.length,
+      cpdShortfallCount: cpdShortfall.length,
+      cpdDueSoonCount: cpdDueSoon.length,
     },
   };
 }
 
 // ============================================================================
-// Audit Score (10%)
+// Audit Score
 // ============================================================================
 
 function calculateAuditScore(
@@ -617,60 +720,57 @@ function calculateAuditScore(
 function calculateTierEligibility(
   currentTier: CertificationTier,
   overallScore: number,
-  insuranceResult: { score: number; policies: PolicyScore[] },
   personnelResult: { details: PersonnelDetails },
-  issues: ComplianceIssue[]
+  issues: ComplianceIssue[],
+  rules: ScoringRules
 ): TierEligibility {
-  const blockers: string[] = [];
-  let nextTier: CertificationTier | null = null;
-  let eligibleForUpgrade = false;
-
-  const tierOrder: CertificationTier[] = [
-    "ACCREDITED",
-    "CERTIFIED",
-    "MASTER_ROOFER",
-  ];
-  const currentIndex = tierOrder.indexOf(currentTier);
-
-  if (currentIndex < tierOrder.length - 1) {
-    nextTier = tierOrder[currentIndex + 1];
-
-    // Check eligibility for next tier
-    const scoreThresholds: Record<CertificationTier, number> = {
-      ACCREDITED: 0,
-      CERTIFIED: 70,
-      MASTER_ROOFER: 90,
-    };
-
-    const requiredScore = scoreThresholds[nextTier];
-
-    if (overallScore < requiredScore) {
+  const criticalIssueCount = issues.filter(
+    (i) => i.severity === "critical"
+  ).length;
+
+  const getBlockers = (tier: CertificationTier): string[] => {
+    if (tier === "ACCREDITED") return [];
+
+    const requirement = rules.tiers[tier];
+    const blockers: string[] = [];
+
+    if (overallScore < requirement.minScore) {
       blockers.push(
-        `Overall compliance score (${overallScore}%) below ${requiredScore}% threshold`
+        `Overall compliance score (${overallScore}%) below ${requirement.minScore}% threshold`
       );
     }
 
-    // Check critical issues
-    const criticalIssues = issues.filter((i) => i.severity === "critical");
-    if (criticalIssues.length > 0) {
-      blockers.push(`${criticalIssues.length} critical issue(s) must be resolved`);
+    if (!requirement.allowCriticalIssues && criticalIssueCount > 0) {
+      blockers.push(`${criticalIssueCount} critical issue(s) must be resolved`);
     }
 
-    // Check verified LBP requirement for higher tiers
-    if (nextTier === "MASTER_ROOFER") {
-      if (personnelResult.details.lbpVerifiedCount < 2) {
-        blockers.push("Master Roofer requires at least 2 verified LBP holders");
-      }
+    if (personnelResult.details.lbpVerifiedCount < requirement.minVerifiedLbp) {
+      blockers.push(
+        `${CERTIFICATION_TIER_LABELS[tier]} requires at least ${requirement.minVerifiedLbp} verified LBP holders`
+      );
     }
 
-    eligibleForUpgrade = blockers.length === 0;
+    return blockers;
+  };
+
+  const currentIndex = TIER_ORDER.indexOf(currentTier);
+  const nextTier =
+    currentIndex < TIER_ORDER.length - 1 ? TIER_ORDER[currentIndex + 1] : null;
+  const blockers = nextTier ? getBlockers(nextTier) : [];
+
+  // Tiers are cumulative: stop at the first tier whose requirements fail
+  let qualifiedTier: CertificationTier = "ACCREDITED";
+  for (const tier of TIER_ORDER.slice(1)) {
+    if (getBlockers(tier).length > 0) break;
+    qualifiedTier = tier;
   }
 
   return {
     currentTier,
-    eligibleForUpgrade,
+    eligibleForUpgrade: nextTier !== null && blockers.length === 0,
     nextTier,
     blockers,
+    qualifiedTier,
   };
 }
 
@@ -693,12 +793,19 @@ export async function updateOrganizationComplianceScore(
       compliancePersScore: result.breakdown.personnel.score,
       complianceAuditScore: result.breakdown.audit.score,
       complianceLastCalc: new Date(),
+      compliancePolicyVersion: result.policyVersion,
     },
     select: {
       certificationTier: true,
     },
   });
 
+  await recordComplianceSnapshot(
+    organizationId,
+    updatedOrg.certificationTier,
+    result
+  );
+
   // Check if insurance is valid (any PUBLIC_LIABILITY policy not expired)
   const validInsurance = await db.insurancePolicy.findFirst({
     where: {
@@ -721,6 +828,101 @@ export async function updateOrganizationComplianceScore(
   return result;
 }
 
+// ============================================================================
+// Scoring Policy What-If Preview
+// ============================================================================
+
+export interface PolicyImpactRow {
+  organizationId: string;
+  organizationName: string;
+  certificationTier: CertificationTier;
+  currentScore: number;
+  draftScore: number;
+  currentQualifiedTier: CertificationTier;
+  draftQualifiedTier: CertificationTier;
+}
+
+export interface PolicyImpactPreview {
+  activePolicyVersion: number;
+  draftPolicyVersion: number;
+  organizationsEvaluated: number;
+  tierChanges: {
+    total: number;
+    upgrades: number;
+    downgrades: number;
+  };
+  // Organizations whose certified tier would no longer be supported
+  belowCertifiedTier: number;
+  averageScoreDelta: number;
+  changes: PolicyImpactRow[];
+}
+
+/**
+ * Scores every organization under both the active policy and a draft and
+ * reports who would qualify for a different tier. Nothing is persisted.
+ */
+export async function previewScoringPolicyImpact(
+  draft: ResolvedScoringPolicy
+): Promise<PolicyImpactPreview> {
+  const active = await getActiveScoringPolicy();
+  const organizations = await db.organization.findMany({
+    select: { id: true },
+    orderBy: { name: "asc" },
+  });
+
+  const changes: PolicyImpactRow[] = [];
+  let upgrades = 0;
+  let downgrades = 0;
+  let belowCertifiedTier = 0;
+  let scoreDeltaTotal = 0;
+
+  // Sequential to keep database load flat on large member lists
+  for (const { id } of organizations) {
+    const inputs = await loadComplianceInputs(id);
+    const current = evaluateCompliance(inputs, active);
+    const projected = evaluateCompliance(inputs, draft);
+
+    const currentRank = TIER_ORDER.indexOf(current.tierEligibility.qualifiedTier);
+    const draftRank = TIER_ORDER.indexOf(projected.tierEligibility.qualifiedTier);
+    const certifiedRank = TIER_ORDER.indexOf(inputs.organization.certificationTier);
+
+    scoreDeltaTotal += projected.overallScore - current.overallScore;
+    if (draftRank < certifiedRank) belowCertifiedTier++;
+
+    if (draftRank !== currentRank) {
+      if (draftRank > currentRank) upgrades++;
+      else downgrades++;
+
+      changes.push({
+        organizationId: id,
+        organizationName: inputs.organization.name,
+        certificationTier: inputs.organization.certificationTier,
+        currentScore: current.overallScore,
+        draftScore: projected.overallScore,
+        currentQualifiedTier: current.tierEligibility.qualifiedTier,
+        draftQualifiedTier: projected.tierEligibility.qualifiedTier,
+      });
+    }
+  }
+
+  return {
+    activePolicyVersion: active.version,
+    draftPolicyVersion: draft.version,
+    organizationsEvaluated: organizations.length,
+    tierChanges: {
+      total: upgrades + downgrades,
+      upgrades,
+      downgrades,
+    },
+    belowCertifiedTier,
+    averageScoreDelta:
+      organizations.length > 0
+        ? Math.round((scoreDeltaTotal / organizations.length) * 10) / 10
+        : 0,
+    changes,
+  };
+}
+
 // ============================================================================
 // Compliance Status Helpers
 // ============================================================================
@@ -0,0 +1,392 @@
+/**
+ * CPD Cycles and Requirements
+ *
+ * Members earn CPD points from training records. Admins define requirements
+ * (minimum points, per-category minimums, carry-over) over repeating cycles,
+ * scoped by LBP class and certification tier. Progress is always worked out
+ * here on the server so the staff page, personnel scoring and reminders
+ * agree on the numbers.
+ */
+
+import { z } from "zod/v4";
+import type {
+  CertificationTier,
+  CPDCategory,
+  CPDCycleAnchor,
+  CPDRequirement,
+  LBPClass,
+} from "@prisma/client";
+import { db } from "./db";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CategoryMinimums = Partial<Record<CPDCategory, number>>;
+
+export interface ResolvedCpdRequirement {
+  id: string | null;
+  name: string;
+  lbpClass: LBPClass | null;
+  certificationTier: CertificationTier | null;
+  cycleMonths: number;
+  cycleAnchor: CPDCycleAnchor;
+  cycleStartDate: Date | null;
+  minPoints: number;
+  categoryMinimums: CategoryMinimums;
+  maxCarryOverPoints: number;
+}
+
+export interface CpdMember {
+  lbpClass: LBPClass | null;
+  lbpExpiry: Date | null;
+  createdAt: Date;
+}
+
+export interface CpdRecord {
+  completedAt: Date;
+  cpdPoints: number;
+  cpdCategory: CPDCategory;
+}
+
+export interface CpdCycle {
+  start: Date; // Inclusive
+  end: Date; // Exclusive
+}
+
+export interface CpdCategoryProgress {
+  category: CPDCategory;
+  points: number;
+  required: number;
+}
+
+export interface CpdProgress {
+  requirement: ResolvedCpdRequirement;
+  cycle: CpdCycle;
+  daysRemaining: number;
+  earnedPoints: number;
+  carriedOverPoints: number;
+  totalPoints: number;
+  requiredPoints: number;
+  categories: CpdCategoryProgress[];
+  pointsNeeded: number; // Still needed to meet the total and every category minimum
+  met: boolean;
+  previousCycle: {
+    cycle: CpdCycle;
+    earnedPoints: number;
+    met: boolean;
+    assessed: boolean; // False when the member joined during or after it
+  };
+}
+
+const CPD_CATEGORIES: CPDCategory[] = [
+  "TECHNICAL",
+  "PEER_REVIEW",
+  "INDUSTRY_EVENT",
+  "SELF_STUDY",
+  "OTHER",
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Defaults
+// ============================================================================
+
+/**
+ * Requirement used when no admin-defined requirement matches: 20 points per
+ * calendar year, which is what the staff CPD card showed before cycles
+ * were configurable.
+ */
+export const DEFAULT_CPD_REQUIREMENT: ResolvedCpdRequirement = {
+  id: null,
+  name: "Built-in default",
+  lbpClass: null,
+  certificationTier: null,
+  cycleMonths: 12,
+  cycleAnchor: "FIXED_DATE",
+  cycleStartDate: new Date(Date.UTC(2000, 0, 1)),
+  minPoints: 20,
+  categoryMinimums: {},
+  maxCarryOverPoints: 0,
+};
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+export const categoryMinimumsSchema = z
+  .object({
+    TECHNICAL: z.number().int().min(0),
+    PEER_REVIEW: z.number().int().min(0),
+    INDUSTRY_EVENT: z.number().int().min(0),
+    SELF_STUDY: z.number().int().min(0),
+    OTHER: z.number().int().min(0),
+  })
+  .partial();
+
+// Admin input for a requirement. FIXED_DATE cycles need a start date,
+// checked separately so updates can be validated against the stored row.
+export const cpdRequirementFields = z.object({
+  name: z.string().min(3).max(200),
+  description: z.string().max(2000).nullable().optional(),
+  lbpClass: z
+    .enum(["CARPENTRY", "ROOFING", "DESIGN_1", "DESIGN_2", "DESIGN_3", "SITE_1", "SITE_2", "SITE_3"])
+    .nullable()
+    .optional(),
+  certificationTier: z
+    .enum(["ACCREDITED", "CERTIFIED", "MASTER_ROOFER"])
+    .nullable()
+    .optional(),
+  cycleMonths: z.number().int().min(1).max(120),
+  cycleAnchor: z.enum(["FIXED_DATE", "LBP_EXPIRY"]),
+  cycleStartDate: z.coerce.date().nullable().optional(),
+  minPoints: z.number().int().min(0).max(1000),
+  categoryMinimums: categoryMinimumsSchema.optional(),
+  maxCarryOverPoints: z.number().int().min(0).max(1000).optional(),
+  active: z.boolean().optional(),
+});
+
+export function missingCycleStart(requirement: {
+  cycleAnchor: CPDCycleAnchor;
+  cycleStartDate?: Date | null;
+}): boolean {
+  return requirement.cycleAnchor === "FIXED_DATE" && !requirement.cycleStartDate;
+}
+
+export function toResolvedRequirement(
+  requirement: CPDRequirement
+): ResolvedCpdRequirement {
+  return {
+    id: requirement.id,
+    name: requirement.name,
+    lbpClass: requirement.lbpClass,
+    certificationTier: requirement.certificationTier,
+    cycleMonths: requirement.cycleMonths,
+    cycleAnchor: requirement.cycleAnchor,
+    cycleStartDate: requirement.cycleStartDate,
+    minPoints: requirement.minPoints,
+    categoryMinimums: categoryMinimumsSchema.parse(requirement.categoryMinimums),
+    maxCarryOverPoints: requirement.maxCarryOverPoints,
+  };
+}
+
+// ============================================================================
+// Requirement Resolution
+// ============================================================================
+
+/**
+ * Picks the most specific requirement for a member: one matching both LBP
+ * class and tier beats one matching only the class, which beats one
+ * matching only the tier, which beats an unscoped one. Requirements are
+ * expected newest first, so the newest wins a tie.
+ */
+export function resolveCpdRequirement(
+  requirements: ResolvedCpdRequirement[],
+  scope: { lbpClass: LBPClass | null; certificationTier: CertificationTier }
+): ResolvedCpdRequirement {
+  let best: ResolvedCpdRequirement | null = null;
+  let bestRank = -1;
+
+  for (const requirement of requirements) {
+    if (requirement.lbpClass && requirement.lbpClass !== scope.lbpClass) continue;
+    if (
+      requirement.certificationTier &&
+      requirement.certificationTier !== scope.certificationTier
+    ) {
+      continue;
+    }
+
+    const rank =
+      (requirement.lbpClass ? 2 : 0) + (requirement.certificationTier ? 1 : 0);
+    if (rank > bestRank) {
+      best = requirement;
+      bestRank = rank;
+    }
+  }
+
+  return best ?? DEFAULT_CPD_REQUIREMENT;
+}
+
+// ============================================================================
+// Cycles
+// ============================================================================
+
+// Month arithmetic in UTC, clamping to the last day of shorter months
+function addMonths(date: Date, months: number): Date {
+  const target = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1)
+  );
+  const lastDay = new Date(
+    Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  target.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+  return target;
+}
+
+/**
+ * The cycle containing `at`. Cycles repeat every `cycleMonths` from an
+ * anchor: the requirement's start date, or the member's LBP expiry so that
+ * a cycle ends on each licence renewal.
+ */
+export function getCpdCycle(
+  requirement: ResolvedCpdRequirement,
+  member: Pick<CpdMember, "lbpExpiry">,
+  at: Date
+): CpdCycle {
+  const anchor =
+    (requirement.cycleAnchor === "LBP_EXPIRY" && member.lbpExpiry) ||
+    requirement.cycleStartDate ||
+    DEFAULT_CPD_REQUIREMENT.cycleStartDate!;
+  const months = requirement.cycleMonths;
+
+  const elapsedMonths =
+    (at.getUTCFullYear() - anchor.getUTCFullYear()) * 12 +
+    (at.getUTCMonth() - anchor.getUTCMonth());
+  let index = Math.floor(elapsedMonths / months);
+
+  while (addMonths(anchor, index * months) > at) index--;
+  while (addMonths(anchor, (index + 1) * months) <= at) index++;
+
+  return {
+    start: addMonths(anchor, index * months),
+    end: addMonths(anchor, (index + 1) * months),
+  };
+}
+
+// ============================================================================
+// Progress
+// ============================================================================
+
+function pointsByCategory(
+  records: CpdRecord[],
+  cycle: CpdCycle
+): Record<CPDCategory, number> {
+  const points = Object.fromEntries(
+    CPD_CATEGORIES.map((category) => [category, 0])
+  ) as Record<CPDCategory, number>;
+  for (const record of records) {
+    if (record.completedAt >= cycle.start && record.completedAt < cycle.end) {
+      points[record.cpdCategory] += record.cpdPoints;
+    }
+  }
+  return points;
+}
+
+// Points short of the total plus any category minimums, whichever is more
+function pointsShort(
+  requirement: ResolvedCpdRequirement,
+  byCategory: Record<CPDCategory, number>,
+  total: number
+): number {
+  const categoryShortfall = CPD_CATEGORIES.reduce(
+    (sum, category) =>
+      sum +
+      Math.max(0, (requirement.categoryMinimums[category] ?? 0) - byCategory[category]),
+    0
+  );
+  return Math.max(requirement.minPoints - total, categoryShortfall, 0);
+}
+
+const sum = (points: Record<CPDCategory, number>) =>
+  Object.values(points).reduce((total, p) => total + p, 0);
+
+/**
+ * A member's progress through their current cycle. Surplus points earned in
+ * the previous cycle carry over up to the requirement's limit; they count
+ * toward the total but not toward category minimums.
+ */
+export function calculateCpdProgress(
+  requirement: ResolvedCpdRequirement,
+  member: CpdMember,
+  records: CpdRecord[],
+  at: Date = new Date()
+): CpdProgress {
+  const cycle = getCpdCycle(requirement, member, at);
+  const previous = getCpdCycle(
+    requirement,
+    member,
+    new Date(cycle.start.getTime() - 1)
+  );
+
+  const current = pointsByCategory(records, cycle);
+  const earlier = pointsByCategory(records, previous);
+  const earnedPoints = sum(current);
+  const previousEarned = sum(earlier);
+
+  const carriedOverPoints = Math.min(
+    requirement.maxCarryOverPoints,
+    Math.max(0, previousEarned - requirement.minPoints)
+  );
+  const totalPoints = earnedPoints + carriedOverPoints;
+  const pointsNeeded = pointsShort(requirement, current, totalPoints);
+
+  return {
+    requirement,
+    cycle,
+    daysRemaining: Math.ceil((cycle.end.getTime() - at.getTime()) / DAY_MS),
+    earnedPoints,
+    carriedOverPoints,
+    totalPoints,
+    requiredPoints: requirement.minPoints,
+    categories: CPD_CATEGORIES.map((category) => ({
+      category,
+      points: current[category],
+      required: requirement.categoryMinimums[category] ?? 0,
+    })),
+    pointsNeeded,
+    met: pointsNeeded === 0,
+    previousCycle: {
+      cycle: previous,
+      earnedPoints: previousEarned,
+      // Carry-over into the previous cycle is not counted, to keep this pure
+      met: pointsShort(requirement, earlier, previousEarned) === 0,
+      assessed: member.createdAt <= previous.start,
+    },
+  };
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+export async function getCpdRequirements(): Promise<ResolvedCpdRequirement[]> {
+  const requirements = await db.cPDRequirement.findMany({
+    where: { active: true },
+    orderBy: { createdAt: "desc" },
+  });
+  return requirements.map(toResolvedRequirement);
+}
+
+/**
+ * Current CPD progress for a member, or null if the member does not exist.
+ */
+export async function getMemberCpdProgress(
+  memberId: string,
+  at: Date = new Date()
+): Promise<CpdProgress | null> {
+  const [member, requirements] = await Promise.all([
+    db.organizationMember.findUnique({
+      where: { id: memberId },
+      select: {
+        lbpClass: true,
+        lbpExpiry: true,
+        createdAt: true,
+        organization: { select: { certificationTier: true } },
+        trainingRecords: {
+          select: { completedAt: true, cpdPoints: true, cpdCategory: true },
+        },
+      },
+    }),
+    getCpdRequirements(),
+  ]);
+
+  if (!member) return null;
+
+  const requirement = resolveCpdRequirement(requirements, {
+    lbpClass: member.lbpClass,
+    certificationTier: member.organization.certificationTier,
+  });
+
+  return calculateCpdProgress(requirement, member, member.trainingRecords, at);
+}
@@ -0,0 +1,372 @@
+/**
+ * Document Read-and-Acknowledge
+ *
+ * Approved documents can be targeted at staff groups (a member role or a
+ * team). Targeted members confirm they have read the current version; the
+ * confirmation holds for every version with the same major number, so a new
+ * major version asks everyone again while minor corrections do not.
+ */
+
+import type { OrgMemberRole } from "@prisma/client";
+import { db } from "@/lib/db";
+import { notifyDocumentAcknowledgementRequired } from "@/lib/notifications";
+import { formatVersionString } from "@/lib/document-versioning";
+
+export class DocumentAcknowledgementError extends Error {
+  constructor(
+    message: string,
+    public status: 400 | 403 | 404 | 409 = 400
+  ) {
+    super(message);
+    this.name = "DocumentAcknowledgementError";
+  }
+}
+
+export interface AcknowledgementTargets {
+  roles: OrgMemberRole[];
+  teamIds: string[];
+}
+
+interface TargetableMember {
+  role: OrgMemberRole;
+  teamMemberships: { teamId: string }[];
+}
+
+const memberSelect = {
+  id: true,
+  clerkUserId: true,
+  firstName: true,
+  lastName: true,
+  email: true,
+  role: true,
+  teamMemberships: { select: { teamId: true } },
+} as const;
+
+function isTargeted(
+  member: TargetableMember,
+  targets: { role: OrgMemberRole | null; teamId: string | null }[]
+): boolean {
+  return targets.some(
+    (t) =>
+      (t.role !== null && t.role === member.role) ||
+      (t.teamId !== null && member.teamMemberships.some((m) => m.teamId === t.teamId))
+  );
+}
+
+/**
+ * The approved version staff are expected to have read, if any.
+ */
+export async function getCurrentApprovedVersion(documentId: string) {
+  return db.documentVersion.findFirst({
+    where: { documentId, status: "APPROVED" },
+    orderBy: [{ versionNumber: "desc" }, { minorVersion: "desc" }],
+  });
+}
+
+export async function getAcknowledgementTargets(
+  documentId: string
+): Promise<AcknowledgementTargets> {
+  const targets = await db.documentAcknowledgementTarget.findMany({
+    where: { documentId },
+  });
+  return {
+    roles: targets.flatMap((t) => (t.role ? [t.role] : [])),
+    teamIds: targets.flatMap((t) => (t.teamId ? [t.teamId] : [])),
+  };
+}
+
+/**
+ * Members of the document's organisation covered by its targets.
+ */
+export async function getTargetedMembers(documentId: string) {
+  const document = await db.document.findUnique({
+    where: { id: documentId },
+    select: { organizationId: true, acknowledgementTargets: true },
+  });
+  if (!document || document.acknowledgementTargets.length === 0) return [];
+
+  const members = await db.organizationMember.findMany({
+    where: { organizationId: document.organizationId },
+    select: memberSelect,
+    orderBy: [{ firstName: "asc" }, { lastName: "asc" }],
+  });
+  return members.filter((m) => isTargeted(m, document.acknowledgementTargets));
+}
+
+/**
+ * When each member acknowledged the given major version, keyed by member ID.
+ */
+async function getAcknowledgementTimes(
+  documentId: string,
+  versionNumber: number
+): Promise<Map<string, Date>> {
+  const acknowledgements = await db.documentAcknowledgement.findMany({
+    where: { version: { documentId, versionNumber } },
+    select: { memberId: true, acknowledgedAt: true },
+    orderBy: { acknowledgedAt: "asc" },
+  });
+  return new Map(acknowledgements.map((a) => [a.memberId, a.acknowledgedAt]));
+}
+
+/**
+ * Notify targeted members who have not yet acknowledged the current major
+ * version. Optionally limited to some members (e.g. newly targeted ones).
+ * Never throws; returns the number of members notified.
+ */
+export async function requestAcknowledgements(
+  documentId: string,
+  options: { memberIds?: string[] } = {}
+): Promise<number> {
+  try {
+    const document = await db.document.findUnique({
+      where: { id: documentId },
+      select: { title: true, organizationId: true, deletedAt: true },
+    });
+    if (!document || document.deletedAt) return 0;
+
+    const version = await getCurrentApprovedVersion(documentId);
+    if (!version) return 0;
+
+    const acknowledged = await getAcknowledgementTimes(documentId, version.versionNumber);
+    const outstanding = (await getTargetedMembers(documentId)).filter(
+      (m) =>
+        !acknowledged.has(m.id) &&
+        (!options.memberIds || options.memberIds.includes(m.id))
+    );
+
+    const versionString = formatVersionString(version.versionNumber, version.minorVersion);
+    for (const member of outstanding) {
+      await notifyDocumentAcknowledgementRequired({
+        organizationId: document.organizationId,
+        userId: member.clerkUserId,
+        email: member.email,
+        documentTitle: document.title,
+        versionString,
+      });
+    }
+    return outstanding.length;
+  } catch (error) {
+    console.error("Failed to request document acknowledgements:", error);
+    return 0;
+  }
+}
+
+/**
+ * Record that a member has read the current approved version. An earlier
+ * acknowledgement of the same major version is returned as is.
+ */
+export async function acknowledgeDocument(documentId: string, memberId: string) {
+  const version = await getCurrentApprovedVersion(documentId);
+  if (!version) {
+    throw new DocumentAcknowledgementError("Document has no approved version", 409);
+  }
+
+  const targeted = await getTargetedMembers(documentId);
+  if (!targeted.some((m) => m.id === memberId)) {
+    throw new DocumentAcknowledgementError(
+      "You are not required to acknowledge this document",
+      403
+    );
+  }
+
+  const existing = await db.documentAcknowledgement.findFirst({
+    where: { memberId, version: { documentId, versionNumber: version.versionNumber } },
+  });
+  if (existing) {
+    return { acknowledgement: existing, version, created: false };
+  }
+
+  try {
+    const acknowledgement = await db.documentAcknowledgement.create({
+      data: { versionId: version.id, memberId },
+    });
+    return { acknowledgement, version, created: true };
+  } catch (error: unknown) {
+    // A concurrent request (e.g. a double-click) recorded it first
+    if (error && typeof error === "object" && "code" in error && error.code === "P2002") {
+      const acknowledgement = await db.documentAcknowledgement.findUniqueOrThrow({
+        where: { versionId_memberId: { versionId: version.id, memberId } },
+      });
+      return { acknowledgement, version, created: false };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Approved documents the member still has to acknowledge.
+ */
+export async function getPendingAcknowledgementsForMember(memberId: string) {
+  const member = await db.organizationMember.findUnique({
+    where: { id: memberId },
+    select: { ...memberSelect, organizationId: true },
+  });
+  if (!member) return [];
+
+  const documents = await db.document.findMany({
+    where: {
+      organizationId: member.organizationId,
+      deletedAt: null,
+      acknowledgementTargets: {
+        some: {
+          OR: [
+            { role: member.role },
+            { teamId: { in: member.teamMemberships.map((m) => m.teamId) } },
+          ],
+        },
+      },
+    },
+    select: {
+      id: true,
+      title: true,
+      documentNumber: true,
+      versions: {
+        where: { status: "APPROVED" },
+        orderBy: [{ versionNumber: "desc" }, { minorVersion: "desc" }],
+        take: 1,
+        select: {
+          id: true,
+          versionNumber: true,
+          minorVersion: true,
+          reviewedAt: true,
+        },
+      },
+    },
+    orderBy: { title: "asc" },
+  });
+
+  const acknowledgements = await db.documentAcknowledgement.findMany({
+    where: { memberId, version: { documentId: { in: documents.map((d) => d.id) } } },
+    select: { version: { select: { documentId: true, versionNumber: true } } },
+  });
+  const acknowledged = new Set(
+    acknowledgements.map((a) => `${a.version.documentId}:${a.version.versionNumber}`)
+  );
+
+  return documents.flatMap((document) => {
+    const version = document.versions[0];
+    if (!version || acknowledged.has(`${document.id}:${version.versionNumber}`)) {
+      return [];
+    }
+    return [
+      {
+        documentId: document.id,
+        title: document.title,
+        documentNumber: document.documentNumber,
+        versionId: version.id,
+        versionString: formatVersionString(version.versionNumber, version.minorVersion),
+        approvedAt: version.reviewedAt,
+      },
+    ];
+  });
+}
+
+export interface AcknowledgementMatrix {
+  documents: {
+    id: string;
+    title: string;
+    documentNumber: string;
+    versionString: string;
+    targetedCount: number;
+    acknowledgedCount: number;
+  }[];
+  members: {
+    id: string;
+    name: string;
+    role: OrgMemberRole;
+  }[];
+  // documentId -> memberId -> acknowledgement time, or null when outstanding.
+  // Members a document is not targeted at are absent.
+  cells: Record<string, Record<string, string | null>>;
+}
+
+/**
+ * Who has and hasn't acknowledged each targeted, approved document.
+ */
+export async function getAcknowledgementMatrix(
+  organizationId: string
+): Promise<AcknowledgementMatrix> {
+  const [documents, members] = await Promise.all([
+    db.document.findMany({
+      where: {
+        organizationId,
+        deletedAt: null,
+        acknowledgementTargets: { some: {} },
+      },
+      select: {
+        id: true,
+        title: true,
+        documentNumber: true,
+        acknowledgementTargets: { select: { role: true, teamId: true } },
+        versions: {
+          where: { status: "APPROVED" },
+          orderBy: [{ versionNumber: "desc" }, { minorVersion: "desc" }],
+          take: 1,
+          select: { versionNumber: true, minorVersion: true },
+        },
+      },
+      orderBy: { title: "asc" },
+    }),
+    db.organizationMember.findMany({
+      where: { organizationId },
+      select: memberSelect,
+      orderBy: [{ firstName: "asc" }, { lastName: "asc" }],
+    }),
+  ]);
+
+  const approvedDocuments = documents.filter((d) => d.versions.length > 0);
+
+  const acknowledgements = await db.documentAcknowledgement.findMany({
+    where: {
+      version: { documentId: { in: approvedDocuments.map((d) => d.id) } },
+    },
+    select: {
+      memberId: true,
+      acknowledgedAt: true,
+      version: { select: { documentId: true, versionNumber: true } },
+    },
+  });
+
+  const acknowledgedAt = new Map(
+    acknowledgements.map((a) => [
+      `${a.version.documentId}:${a.version.versionNumber}:${a.memberId}`,
+      a.acknowledgedAt,
+    ])
+  );
+
+  const cells: AcknowledgementMatrix["cells"] = {};
+  const summaries = approvedDocuments.map((document) => {
+    const { versionNumber, minorVersion } = document.versions[0];
+    const row: Record<string, string | null> = {};
+    let acknowledgedCount = 0;
+
+    for (const member of members) {
+      if (!isTargeted(member, document.acknowledgementTargets)) continue;
+      const at = acknowledgedAt.get(`${document.id}:${versionNumber}:${member.id}`);
+      row[member.id] = at?.toISOString() ?? null;
+      if (at) acknowledgedCount++;
+    }
+
+    cells[document.id] = row;
+    return {
+      id: document.id,
+      title: document.title,
+      documentNumber: document.documentNumber,
+      versionString: formatVersionString(versionNumber, minorVersion),
+      targetedCount: Object.keys(row).length,
+      acknowledgedCount,
+    };
+  });
+
+  return {
+    documents: summaries,
+    members: members
+      .filter((m) => summaries.some((d) => m.id in cells[d.id]))
+      .map((m) => ({
+        id: m.id,
+        name: `${m.firstName} ${m.lastName}`.trim(),
+        role: m.role,
+      })),
+    cells,
+  };
+}
@@ -0,0 +1,304 @@
+import { addMonths } from "date-fns";
+import { z } from "zod/v4";
+import {
+  DocumentType,
+  ISOElement,
+  type ApprovalDelegation,
+  type DocumentApprovalPolicy,
+  type DocumentApprovalPolicyStep,
+  type DocumentApprovalStep,
+  type Prisma,
+} from "@prisma/client";
+import { db } from "./db";
+import { notifyDocumentApprovalRequired } from "./notifications";
+
+/**
+ * Configurable approval chains for QMS documents.
+ *
+ * An organisation defines policies per document type and/or ISO element,
+ * each with ordered steps (e.g. reviewer, then quality manager, then owner)
+ * and a review cycle. On submission the matching policy's steps are copied
+ * onto the version so later policy edits do not affect documents already in
+ * review. Approvers who are away can delegate to a colleague for a period.
+ */
+
+// Review cycle when no policy applies (matches the original workflow)
+export const DEFAULT_REVIEW_CYCLE_MONTHS = 12;
+
+export class DocumentApprovalError extends Error {
+  constructor(
+    message: string,
+    public status: 400 | 403 | 404 | 409 = 400
+  ) {
+    super(message);
+    this.name = "DocumentApprovalError";
+  }
+}
+
+export type ApprovalPolicyWithSteps = DocumentApprovalPolicy & {
+  steps: DocumentApprovalPolicyStep[];
+};
+
+type Tx = Prisma.TransactionClient;
+
+const approvalStepSchema = z.object({
+  name: z.string().min(1).max(100),
+  approverId: z.string().min(1), // Clerk user ID of an organisation member
+  dueDays: z.number().int().min(1).max(90).default(5),
+});
+
+const approvalPolicyFields = {
+  name: z.string().min(1).max(100),
+  documentType: z.enum(DocumentType).nullable(), // null = any type
+  isoElement: z.enum(ISOElement).nullable(), // null = any element
+  reviewCycleMonths: z.number().int().min(1).max(60),
+  enabled: z.boolean(),
+  steps: z.array(approvalStepSchema).max(10),
+};
+
+export const approvalPolicySchema = z.object({
+  ...approvalPolicyFields,
+  documentType: approvalPolicyFields.documentType.default(null),
+  isoElement: approvalPolicyFields.isoElement.default(null),
+  reviewCycleMonths: approvalPolicyFields.reviewCycleMonths.default(DEFAULT_REVIEW_CYCLE_MONTHS),
+  enabled: approvalPolicyFields.enabled.default(true),
+});
+
+// No defaults, so omitted fields are left unchanged
+export const updateApprovalPolicySchema = z.object(approvalPolicyFields).partial();
+
+export type ApprovalPolicyInput = z.infer<typeof approvalPolicySchema>;
+
+// ============================================================================
+// Policy Resolution
+// ============================================================================
+
+function policySpecificity(policy: DocumentApprovalPolicy): number {
+  return (policy.isoElement ? 2 : 0) + (policy.documentType ? 1 : 0);
+}
+
+/**
+ * The most specific enabled policy for a document: type + element beats
+ * element alone, which beats type alone, which beats the catch-all.
+ */
+export async function findApprovalPolicy(
+  organizationId: string,
+  documentType: DocumentType,
+  isoElement: ISOElement
+): Promise<ApprovalPolicyWithSteps | null> {
+  const policies = await db.documentApprovalPolicy.findMany({
+    where: {
+      organizationId,
+      enabled: true,
+      OR: [{ documentType }, { documentType: null }],
+      AND: [{ OR: [{ isoElement }, { isoElement: null }] }],
+    },
+    include: { steps: { orderBy: { stepOrder: "asc" } } },
+    orderBy: { createdAt: "asc" },
+  });
+
+  return policies.reduce<ApprovalPolicyWithSteps | null>(
+    (best, policy) =>
+      !best || policySpecificity(policy) > policySpecificity(best) ? policy : best,
+    null
+  );
+}
+
+export function calculateReviewDueDate(
+  approvedAt: Date,
+  reviewCycleMonths: number | null | undefined
+): Date {
+  return addMonths(approvedAt, reviewCycleMonths ?? DEFAULT_REVIEW_CYCLE_MONTHS);
+}
+
+// ============================================================================
+// Delegation
+// ============================================================================
+
+export async function findActiveDelegation(
+  client: Tx | typeof db,
+  organizationId: string,
+  delegatorId: string,
+  at: Date = new Date()
+): Promise<ApprovalDelegation | null> {
+  return client.approvalDelegation.findFirst({
+    where: {
+      organizationId,
+      delegatorId,
+      startsAt: { lte: at },
+      endsAt: { gt: at },
+    },
+    orderBy: { startsAt: "desc" },
+  });
+}
+
+/**
+ * Clerk user IDs of approvers the user is currently standing in for.
+ */
+export async function getDelegatorsFor(
+  organizationId: string,
+  delegateId: string,
+  at: Date = new Date()
+): Promise<string[]> {
+  const delegations = await db.approvalDelegation.findMany({
+    where: {
+      organizationId,
+      delegateId,
+      startsAt: { lte: at },
+      endsAt: { gt: at },
+    },
+    select: { delegatorId: true },
+  });
+  return delegations.map((d) => d.delegatorId);
+}
+
+/**
+ * Whether a user may decide a step: the assigned approver, or someone the
+ * assigned approver has delegated to for the current period.
+ */
+export async function canDecideStep(
+  step: Pick<DocumentApprovalStep, "approverId">,
+  organizationId: string,
+  userId: string
+): Promise<boolean> {
+  if (step.approverId === userId) return true;
+  const delegation = await findActiveDelegation(db, organizationId, step.approverId);
+  return delegation?.delegateId === userId;
+}
+
+// ============================================================================
+// Chain Progression
+// ============================================================================
+
+/**
+ * Make a step the active one, routing it to a delegate if its approver is
+ * away. Returns the updated step.
+ */
+export async function activateApprovalStep(
+  tx: Tx,
+  step: DocumentApprovalStep,
+  organizationId: string,
+  now: Date = new Date()
+): Promise<DocumentApprovalStep> {
+  const delegation = await findActiveDelegation(tx, organizationId, step.approverId, now);
+
+  return tx.documentApprovalStep.update({
+    where: { id: step.id },
+    data: {
+      status: "PENDING",
+      activatedAt: now,
+      dueDate: new Date(now.getTime() + step.dueDays * 24 * 60 * 60 * 1000),
+      ...(delegation && {
+        approverId: delegation.delegateId,
+        approverName: delegation.delegateName,
+        delegatedFromId: step.approverId,
+        delegatedFromName: step.approverName,
+      }),
+    },
+  });
+}
+
+/**
+ * Email the approver of a newly active step. Never throws; a failed
+ * notification must not undo the approval decision that triggered it.
+ */
+export async function notifyStepApprover(
+  step: DocumentApprovalStep,
+  organizationId: string,
+  documentTitle: string
+): Promise<void> {
+  try {
+    const member = await db.organizationMember.findUnique({
+      where: {
+        organizationId_clerkUserId: { organizationId, clerkUserId: step.approverId },
+      },
+      select: { email: true },
+    });
+    if (!member) return;
+
+    await notifyDocumentApprovalRequired({
+      organizationId,
+      userId: step.approverId,
+      documentTitle,
+      stepName: step.name,
+      dueDate: step.dueDate,
+      approverEmail: member.email,
+      delegatedFromName: step.delegatedFromName,
+    });
+  } catch (error) {
+    console.error("Failed to notify approver:", error);
+  }
+}
+
+/**
+ * Display name of an organisation member, for recording who decided a step.
+ */
+export async function getMemberName(
+  organizationId: string,
+  clerkUserId: string
+): Promise<string | null> {
+  const member = await db.organizationMember.findUnique({
+    where: { organizationId_clerkUserId: { organizationId, clerkUserId } },
+    select: { firstName: true, lastName: true },
+  });
+  return member ? `${member.firstName} ${member.lastName}`.trim() : null;
+}
+
+/**
+ * Display names of organisation members keyed by Clerk user ID. IDs that are
+ * not members of the organisation are absent from the map.
+ */
+export async function getMemberNames(
+  organizationId: string,
+  clerkUserIds: string[]
+): Promise<Map<string, string>> {
+  const members = await db.organizationMember.findMany({
+    where: { organizationId, clerkUserId: { in: clerkUserIds } },
+    select: { clerkUserId: true, firstName: true, lastName: true },
+  });
+  return new Map(
+    members.map((m) => [m.clerkUserId, `${m.firstName} ${m.lastName}`.trim()])
+  );
+}
+
+/**
+ * Approval steps for a version, in order.
+ */
+export async function getApprovalChain(versionId: string): Promise<DocumentApprovalStep[]> {
+  return db.documentApprovalStep.findMany({
+    where: { versionId },
+    orderBy: { stepOrder: "asc" },
+  });
+}
+
+/**
+ * Active steps awaiting the user, directly or as a delegate.
+ */
+export async function getPendingApprovalsForUser(
+  organizationId: string,
+  userId: string
+) {
+  const delegators = await getDelegatorsFor(organizationId, userId);
+
+  return db.documentApprovalStep.findMany({
+    where: {
+      status: "PENDING",
+      approverId: { in: [userId, ...delegators] },
+      version: { document: { organizationId, deletedAt: null } },
+    },
+    include: {
+      version: {
+        select: {
+          id: true,
+          versionNumber: true,
+          minorVersion: true,
+          submittedAt: true,
+          document: {
+            select: { id: true, title: true, documentNumber: true, documentType: true },
+          },
+        },
+      },
+    },
+    orderBy: { dueDate: "asc" },
+  });
+}
@@ -0,0 +1,225 @@
+import { diffLines, diffWordsWithSpace } from "diff";
+import type { DocumentVersionStatus } from "@prisma/client";
+import { db } from "./db";
+import { getObjectFromR2 } from "./r2";
+import { formatVersionString } from "./document-versioning";
+import { extractDocumentText } from "./document-text";
+
+// Give up on pathological inputs rather than tying up the request
+const DIFF_TIMEOUT_MS = 5000;
+
+export class DocumentDiffError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DocumentDiffError";
+  }
+}
+
+// ============================================================================
+// Diff Structure
+// ============================================================================
+
+export interface DiffSegment {
+  text: string;
+  change: "added" | "removed" | "unchanged";
+}
+
+export interface DiffLine {
+  lineNumber: number;
+  text: string;
+  segments?: DiffSegment[]; // Word-level changes, only on modified rows
+}
+
+// One row of a side-by-side view: left = older version, right = newer
+export interface DiffRow {
+  type: "unchanged" | "added" | "removed" | "modified";
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+  modified: number;
+  unchanged: number;
+}
+
+export interface TextDiff {
+  rows: DiffRow[];
+  stats: DiffStats;
+}
+
+export interface DiffVersionSummary {
+  id: string;
+  versionString: string;
+  fileName: string;
+  mimeType: string;
+  status: DocumentVersionStatus;
+  changeNotes: string | null;
+  createdAt: Date;
+}
+
+export interface DocumentVersionDiff extends TextDiff {
+  documentId: string;
+  from: DiffVersionSummary;
+  to: DiffVersionSummary;
+  identical: boolean; // Same file hash
+}
+
+/**
+ * Line diff of two texts, with removed/added runs paired up into "modified"
+ * rows that carry a word-level diff of each side.
+ */
+export function diffDocumentText(oldText: string, newText: string): TextDiff {
+  // Terminate every line so an appended line doesn't also "modify" the last one
+  const terminate = (text: string) => (text ? `${text}\n` : "");
+  const changes = diffLines(terminate(oldText), terminate(newText), {
+    timeout: DIFF_TIMEOUT_MS,
+  });
+  if (!changes) {
+    throw new DocumentDiffError("The versions differ too much to compare line by line");
+  }
+
+  const rows: DiffRow[] = [];
+  const stats: DiffStats = { added: 0, removed: 0, modified: 0, unchanged: 0 };
+  let leftLine = 1;
+  let rightLine = 1;
+
+  for (let i = 0; i < changes.length; i++) {
+    const change = changes[i];
+    const lines = splitLines(change.value);
+
+    if (!change.added && !change.removed) {
+      for (const text of lines) {
+        rows.push({
+          type: "unchanged",
+          left: { lineNumber: leftLine++, text },
+          right: { lineNumber: rightLine++, text },
+        });
+      }
+      stats.unchanged += lines.length;
+      continue;
+    }
+
+    const removed = change.removed ? lines : [];
+    const next = changes[i + 1];
+    const added = change.added
+      ? lines
+      : next?.added
+        ? splitLines(next.value)
+        : [];
+    if (change.removed && next?.added) i++;
+
+    const paired = Math.min(removed.length, added.length);
+    for (let j = 0; j < paired; j++) {
+      const { left, right } = diffWords(removed[j], added[j]);
+      rows.push({
+        type: "modified",
+        left: { lineNumber: leftLine++, text: removed[j], segments: left },
+        right: { lineNumber: rightLine++, text: added[j], segments: right },
+      });
+    }
+    for (const text of removed.slice(paired)) {
+      rows.push({ type: "removed", left: { lineNumber: leftLine++, text }, right: null });
+    }
+    for (const text of added.slice(paired)) {
+      rows.push({ type: "added", left: null, right: { lineNumber: rightLine++, text } });
+    }
+
+    stats.modified += paired;
+    stats.removed += removed.length - paired;
+    stats.added += added.length - paired;
+  }
+
+  return { rows, stats };
+}
+
+function splitLines(value: string): string[] {
+  const lines = value.split("\n");
+  // diffLines keeps the trailing newline on each chunk
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+function diffWords(
+  oldLine: string,
+  newLine: string
+): { left: DiffSegment[]; right: DiffSegment[] } {
+  const left: DiffSegment[] = [];
+  const right: DiffSegment[] = [];
+
+  for (const part of diffWordsWithSpace(oldLine, newLine)) {
+    if (part.added) {
+      right.push({ text: part.value, change: "added" });
+    } else if (part.removed) {
+      left.push({ text: part.value, change: "removed" });
+    } else {
+      left.push({ text: part.value, change: "unchanged" });
+      right.push({ text: part.value, change: "unchanged" });
+    }
+  }
+
+  return { left, right };
+}
+
+// ============================================================================
+// Version Comparison
+// ============================================================================
+
+/**
+ * Compare two versions of a document. When fromVersionId is omitted, the
+ * version immediately before toVersionId is used; when toVersionId is omitted,
+ * the latest version is used.
+ */
+export async function compareDocumentVersions(
+  documentId: string,
+  options: { fromVersionId?: string; toVersionId?: string } = {}
+): Promise<DocumentVersionDiff> {
+  const versions = await db.documentVersion.findMany({
+    where: { documentId },
+    orderBy: [{ versionNumber: "desc" }, { minorVersion: "desc" }],
+  });
+
+  const toIndex = options.toVersionId
+    ? versions.findIndex((v) => v.id === options.toVersionId)
+    : 0;
+  const to = versions[toIndex];
+  if (!to) {
+    throw new DocumentDiffError("Version to compare was not found");
+  }
+
+  const from = options.fromVersionId
+    ? versions.find((v) => v.id === options.fromVersionId)
+    : versions[toIndex + 1];
+  if (!from) {
+    throw new DocumentDiffError(
+      options.fromVersionId
+        ? "Version to compare against was not found"
+        : "This is the first version; there is nothing to compare it with"
+    );
+  }
+
+  const summary = (v: (typeof versions)[number]): DiffVersionSummary => ({
+    id: v.id,
+    versionString: formatVersionString(v.versionNumber, v.minorVersion),
+    fileName: v.fileName,
+    mimeType: v.mimeType,
+    status: v.status,
+    changeNotes: v.changeNotes,
+    createdAt: v.createdAt,
+  });
+
+  const [fromText, toText] = await Promise.all(
+    [from, to].map(async (v) =>
+      extractDocumentText(await getObjectFromR2(v.storageKey), v.mimeType, v.fileName)
+    )
+  );
+
+  return {
+    documentId,
+    from: summary(from),
+    to: summary(to),
+    identical: from.fileHash === to.fileHash,
+    ...diffDocumentText(fromText, toText),
+  };
+}
@@ -0,0 +1,294 @@
+/**
+ * Controlled Document Stamping
+ *
+ * PDF downloads are stamped on the fly so a printed copy shows which issue
+ * it is: document number, version, approval date, whether it is a controlled
+ * copy, and who downloaded it when. Versions that are no longer (or not yet)
+ * current also carry a diagonal watermark. The stored file is never changed.
+ */
+
+import {
+  PDFDocument,
+  StandardFonts,
+  degrees,
+  rgb,
+  type PDFFont,
+  type PDFPage,
+} from "pdf-lib";
+import type { Document, DocumentVersion, DocumentVersionStatus } from "@prisma/client";
+import { db } from "@/lib/db";
+import { formatVersionString } from "@/lib/document-versioning";
+
+const STAMP_TIMEZONE = "Pacific/Auckland";
+const FOOTER_HEIGHT = 28;
+const FOOTER_FONT_SIZE = 7.5;
+
+export type CopyType = "CONTROLLED" | "UNCONTROLLED";
+
+export const COPY_TYPE_LABELS: Record<CopyType, string> = {
+  CONTROLLED: "CONTROLLED COPY",
+  UNCONTROLLED: "UNCONTROLLED WHEN PRINTED",
+};
+
+// Diagonal watermark for versions that must not be worked from
+const STATUS_WATERMARKS: Partial<Record<DocumentVersionStatus, string>> = {
+  SUPERSEDED: "SUPERSEDED",
+  DRAFT: "DRAFT",
+  PENDING_APPROVAL: "NOT APPROVED",
+  REJECTED: "NOT APPROVED",
+};
+
+export interface DocumentStamp {
+  documentNumber: string;
+  versionString: string;
+  status: DocumentVersionStatus;
+  approvedAt: Date | null;
+  copyType: CopyType;
+  downloadedBy: string;
+  downloadedAt: Date;
+}
+
+export class DocumentDownloadError extends Error {
+  constructor(
+    message: string,
+    public status: 400 | 403 | 404 = 400
+  ) {
+    super(message);
+    this.name = "DocumentDownloadError";
+  }
+}
+
+/**
+ * Copies are uncontrolled unless an owner/admin issues a controlled copy of
+ * an approved version.
+ */
+export function resolveCopyType(
+  requested: string | null,
+  options: { isAdmin: boolean; status: DocumentVersionStatus }
+): CopyType {
+  if (!requested || requested === "uncontrolled") return "UNCONTROLLED";
+  if (requested !== "controlled") {
+    throw new DocumentDownloadError("copy must be 'controlled' or 'uncontrolled'", 400);
+  }
+  if (!options.isAdmin) {
+    throw new DocumentDownloadError(
+      "Only organisation owners or admins can issue controlled copies",
+      403
+    );
+  }
+  if (options.status !== "APPROVED") {
+    throw new DocumentDownloadError(
+      "Controlled copies can only be issued for the approved version",
+      400
+    );
+  }
+  return "CONTROLLED";
+}
+
+export function isStampable(mimeType: string | null, fileName: string | null): boolean {
+  return (
+    mimeType === "application/pdf" ||
+    (fileName?.toLowerCase().endsWith(".pdf") ?? false)
+  );
+}
+
+/**
+ * The file a download refers to: a specific version, or the document's
+ * current file. Documents uploaded before versioning have no version row.
+ */
+export async function resolveDocumentDownload(
+  documentId: string,
+  organizationId: string,
+  versionId?: string | null
+): Promise<{
+  document: Document;
+  version: DocumentVersion | null;
+  storageKey: string;
+  fileName: string;
+  mimeType: string | null;
+}> {
+  const document = await db.document.findFirst({
+    where: { id: documentId, organizationId },
+  });
+  if (!document) {
+    throw new DocumentDownloadError("Document not found", 404);
+  }
+
+  if (versionId) {
+    const version = await db.documentVersion.findFirst({
+      where: { id: versionId, documentId },
+    });
+    if (!version) {
+      throw new DocumentDownloadError("Version not found", 404);
+    }
+    return {
+      document,
+      version,
+      storageKey: version.storageKey,
+      fileName: version.fileName,
+      mimeType: version.mimeType,
+    };
+  }
+
+  if (!document.storageKey) {
+    throw new DocumentDownloadError("Document has no file", 404);
+  }
+
+  const version = await db.documentVersion.findFirst({
+    where: { documentId, storageKey: document.storageKey },
+  });
+  return {
+    document,
+    version,
+    storageKey: document.storageKey,
+    fileName: document.fileName ?? "document",
+    mimeType: document.mimeType,
+  };
+}
+
+/**
+ * Status of the downloaded file; documents without version rows count as
+ * approved once the document itself is.
+ */
+export function getDownloadStatus(
+  document: Document,
+  version: DocumentVersion | null
+): DocumentVersionStatus {
+  return version?.status ?? (document.status === "APPROVED" ? "APPROVED" : "DRAFT");
+}
+
+/**
+ * Stamp details for a document/version pair.
+ */
+export function buildDocumentStamp(
+  document: Document,
+  version: DocumentVersion | null,
+  copyType: CopyType,
+  downloadedBy: string
+): DocumentStamp {
+  const status = getDownloadStatus(document, version);
+  const approvedAt = version
+    ? version.status === "APPROVED" || version.status === "SUPERSEDED"
+      ? version.reviewedAt
+      : null
+    : document.approvedAt;
+
+  return {
+    documentNumber: document.documentNumber,
+    versionString: version
+      ? formatVersionString(version.versionNumber, version.minorVersion)
+      : formatVersionString(document.currentVersion, 0),
+    status,
+    approvedAt,
+    copyType,
+    downloadedBy,
+    downloadedAt: new Date(),
+  };
+}
+
+function formatStampDate(date: Date, withTime = false): string {
+  return date.toLocaleString("en-NZ", {
+    timeZone: STAMP_TIMEZONE,
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    ...(withTime && { hour: "2-digit", minute: "2-digit", hour12: false }),
+  });
+}
+
+/**
+ * The standard PDF fonts only cover WinAnsi, so fold macrons and other
+ * accents to plain letters (e.g. "Māori" -> "Maori") and drop the rest.
+ */
+function toWinAnsi(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^\x20-\x7e]/g, "?");
+}
+
+function drawFooter(page: PDFPage, stamp: DocumentStamp, font: PDFFont, bold: PDFFont) {
+  const { x, y, width } = page.getCropBox();
+  const margin = 24;
+
+  page.drawRectangle({
+    x,
+    y,
+    width,
+    height: FOOTER_HEIGHT,
+    color: rgb(1, 1, 1),
+    opacity: 0.85,
+  });
+  page.drawLine({
+    start: { x: x + margin, y: y + FOOTER_HEIGHT },
+    end: { x: x + width - margin, y: y + FOOTER_HEIGHT },
+    thickness: 0.5,
+    color: rgb(0.6, 0.6, 0.6),
+  });
+
+  const left = toWinAnsi(
+    `${stamp.documentNumber}  v${stamp.versionString}  |  ${
+      stamp.approvedAt ? `Approved ${formatStampDate(stamp.approvedAt)}` : "Not approved"
+    }`
+  );
+  const centre = COPY_TYPE_LABELS[stamp.copyType];
+  const right = toWinAnsi(
+    `Downloaded by ${stamp.downloadedBy}  |  ${formatStampDate(stamp.downloadedAt, true)}`
+  );
+
+  const textY = y + (FOOTER_HEIGHT - FOOTER_FONT_SIZE) / 2;
+  const grey = rgb(0.25, 0.25, 0.25);
+  page.drawText(left, { x: x + margin, y: textY, size: FOOTER_FONT_SIZE, font, color: grey });
+  page.drawText(centre, {
+    x: x + (width - bold.widthOfTextAtSize(centre, FOOTER_FONT_SIZE)) / 2,
+    y: textY,
+    size: FOOTER_FONT_SIZE,
+    font: bold,
+    color: stamp.copyType === "CONTROLLED" ? rgb(0.05, 0.4, 0.15) : rgb(0.7, 0.1, 0.1),
+  });
+  page.drawText(right, {
+    x: x + width - margin - font.widthOfTextAtSize(right, FOOTER_FONT_SIZE),
+    y: textY,
+    size: FOOTER_FONT_SIZE,
+    font,
+    color: grey,
+  });
+}
+
+function drawWatermark(page: PDFPage, text: string, bold: PDFFont) {
+  const { x, y, width, height } = page.getCropBox();
+  const diagonal = Math.sqrt(width * width + height * height);
+  const size = Math.min(120, (diagonal * 0.7) / (bold.widthOfTextAtSize(text, 1) || 1));
+  const textWidth = bold.widthOfTextAtSize(text, size);
+  const angle = Math.atan2(height, width);
+
+  // Centre the rotated text on the page
+  page.drawText(text, {
+    x: x + width / 2 - (Math.cos(angle) * textWidth) / 2 + (Math.sin(angle) * size) / 3,
+    y: y + height / 2 - (Math.sin(angle) * textWidth) / 2 - (Math.cos(angle) * size) / 3,
+    size,
+    font: bold,
+    color: rgb(0.85, 0.1, 0.1),
+    opacity: 0.22,
+    rotate: degrees((angle * 180) / Math.PI),
+  });
+}
+
+/**
+ * Return a stamped copy of a PDF. Throws if the file cannot be parsed
+ * (e.g. it is encrypted or corrupt).
+ */
+export async function stampPdf(file: Uint8Array, stamp: DocumentStamp): Promise<Uint8Array> {
+  const pdf = await PDFDocument.load(file);
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const watermark = STATUS_WATERMARKS[stamp.status];
+
+  for (const page of pdf.getPages()) {
+    if (watermark) drawWatermark(page, watermark, bold);
+    drawFooter(page, stamp, font, bold);
+  }
+
+  pdf.setModificationDate(stamp.downloadedAt);
+  return pdf.save();
+}
@@ -0,0 +1,104 @@
+import mammoth from "mammoth";
+import { extractText } from "unpdf";
+
+/**
+ * Plain-text extraction from uploaded QMS documents, used to compare
+ * versions and to index document contents for search. Supports Markdown,
+ * plain text, DOCX and PDFs with a text layer (scanned PDFs have no text).
+ */
+
+export type DocumentTextFormat = "text" | "docx" | "pdf";
+
+export class DocumentTextExtractionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DocumentTextExtractionError";
+  }
+}
+
+const DOCX_MIME_TYPE =
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+export function getDocumentTextFormat(
+  mimeType: string,
+  fileName: string
+): DocumentTextFormat | null {
+  const extension = fileName.toLowerCase().split(".").pop();
+
+  if (
+    mimeType.startsWith("text/plain") ||
+    mimeType.startsWith("text/markdown") ||
+    extension === "md" ||
+    extension === "markdown" ||
+    extension === "txt"
+  ) {
+    return "text";
+  }
+  if (mimeType === DOCX_MIME_TYPE || extension === "docx") {
+    return "docx";
+  }
+  if (mimeType === "application/pdf" || extension === "pdf") {
+    return "pdf";
+  }
+  return null;
+}
+
+/**
+ * Extract comparable text. Line endings are normalised, trailing whitespace
+ * is dropped and runs of blank lines collapse to one, so re-saving a file in
+ * another editor does not show up as a change.
+ */
+export async function extractDocumentText(
+  buffer: Buffer,
+  mimeType: string,
+  fileName: string
+): Promise<string> {
+  const format = getDocumentTextFormat(mimeType, fileName);
+
+  let text: string;
+  switch (format) {
+    case "text":
+      text = buffer.toString("utf-8").replace(/^\uFEFF/, "");
+      break;
+    case "docx": {
+      try {
+        const result = await mammoth.extractRawText({ buffer });
+        text = result.value;
+      } catch {
+        throw new DocumentTextExtractionError(`${fileName} is not a readable DOCX file`);
+      }
+      break;
+    }
+    case "pdf": {
+      let pages: string[];
+      try {
+        ({ text: pages } = await extractText(new Uint8Array(buffer), { mergePages: false }));
+      } catch {
+        throw new DocumentTextExtractionError(`${fileName} is not a readable PDF file`);
+      }
+      text = pages.join("\n\n");
+      if (!text.trim()) {
+        throw new DocumentTextExtractionError(
+          `${fileName} has no text layer (scanned PDFs cannot be read as text)`
+        );
+      }
+      break;
+    }
+    default:
+      throw new DocumentTextExtractionError(
+        `${fileName} cannot be read as text; only Markdown, text, DOCX and PDF files are supported`
+      );
+  }
+
+  return normalizeText(text);
+}
+
+function normalizeText(text: string): string {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    .map((line) => line.trimEnd())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
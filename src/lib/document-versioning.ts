@@ -1,6 +1,20 @@
 import { db } from "./db";
-import type { ISOElement, DocumentType, DocumentStatus } from "@prisma/client";
+import type {
+  ISOElement,
+  DocumentType,
+  DocumentStatus,
+  DocumentApprovalStep,
+  Prisma,
+} from "@prisma/client";
 import { createHash } from "crypto";
+import {
+  activateApprovalStep,
+  calculateReviewDueDate,
+  canDecideStep,
+  DocumentApprovalError,
+  findApprovalPolicy,
+  getMemberName,
+} from "./document-approval";
 
 // ============================================================================
 // Document Number Generation
@@ -233,17 +247,60 @@ export async function addDocumentVersion(
 // Approval Workflow
 // ============================================================================
 
+export interface ApprovalDecisionResult {
+  step: DocumentApprovalStep | null; // null for single-approver documents
+  nextStep: DocumentApprovalStep | null;
+  completed: boolean; // The version is now approved (or rejected)
+}
+
+/**
+ * Submit a draft (or previously rejected) version for approval. When an
+ * approval policy matches the document, its steps are copied onto the
+ * version and the first one becomes active; otherwise any member may approve.
+ */
 export async function submitForApproval(
   versionId: string,
   submittedBy: string
-): Promise<void> {
-  await db.$transaction(async (tx) => {
-    const version = await tx.documentVersion.update({
+): Promise<{ steps: DocumentApprovalStep[] }> {
+  const version = await db.documentVersion.findUnique({
+    where: { id: versionId },
+    include: { document: true },
+  });
+
+  if (!version) {
+    throw new DocumentApprovalError("Version not found", 404);
+  }
+  if (version.status !== "DRAFT" && version.status !== "REJECTED") {
+    throw new DocumentApprovalError(
+      "Only draft or rejected versions can be submitted for approval",
+      409
+    );
+  }
+
+  const { organizationId } = version.document;
+  const policy = await findApprovalPolicy(
+    organizationId,
+    version.document.documentType,
+    version.document.isoElement
+  );
+
+  return db.$transaction(async (tx) => {
+    const now = new Date();
+
+    // A resubmission starts the chain again
+    await tx.documentApprovalStep.deleteMany({ where: { versionId } });
+
+    await tx.documentVersion.update({
       where: { id: versionId },
       data: {
         status: "PENDING_APPROVAL",
         submittedBy,
-        submittedAt: new Date(),
+        submittedAt: now,
+        reviewedBy: null,
+        reviewedAt: null,
+        rejectionReason: null,
+        approvalPolicyId: policy?.id ?? null,
+        reviewCycleMonths: policy?.reviewCycleMonths ?? null,
       },
     });
 
@@ -251,24 +308,115 @@ export async function submitForApproval(
       where: { id: version.documentId },
       data: { status: "PENDING_APPROVAL" },
     });
+
+    const steps: DocumentApprovalStep[] = [];
+    for (const policyStep of policy?.steps ?? []) {
+      steps.push(
+        await tx.documentApprovalStep.create({
+          data: {
+            versionId,
+            stepOrder: policyStep.stepOrder,
+            name: policyStep.name,
+            approverId: policyStep.approverId,
+            approverName: policyStep.approverName,
+            dueDays: policyStep.dueDays,
+          },
+        })
+      );
+    }
+
+    if (steps.length > 0) {
+      steps[0] = await activateApprovalStep(tx, steps[0], organizationId, now);
+    }
+
+    return { steps };
+  });
+}
+
+async function loadPendingVersion(versionId: string) {
+  const version = await db.documentVersion.findUnique({
+    where: { id: versionId },
+    include: {
+      document: true,
+      approvalSteps: { orderBy: { stepOrder: "asc" } },
+    },
+  });
+
+  if (!version) {
+    throw new DocumentApprovalError("Version not found", 404);
+  }
+  if (version.status !== "PENDING_APPROVAL") {
+    throw new DocumentApprovalError("Version is not pending approval", 409);
+  }
+
+  const step = version.approvalSteps.find((s) => s.status === "PENDING") ?? null;
+  if (version.approvalSteps.length > 0 && !step) {
+    throw new DocumentApprovalError("Approval chain has no active step", 409);
+  }
+
+  return { version, step };
+}
+
+async function decideStep(
+  tx: Prisma.TransactionClient,
+  step: DocumentApprovalStep,
+  status: "APPROVED" | "REJECTED",
+  decision: { decidedBy: string; decidedByName: string | null; comment?: string | null }
+): Promise<DocumentApprovalStep> {
+  const now = new Date();
+  // Guard against two approvers deciding the same step concurrently
+  const { count } = await tx.documentApprovalStep.updateMany({
+    where: { id: step.id, status: "PENDING" },
+    data: {
+      status,
+      decidedBy: decision.decidedBy,
+      decidedByName: decision.decidedByName,
+      decidedAt: now,
+      comment: decision.comment ?? null,
+    },
   });
+  if (count === 0) {
+    throw new DocumentApprovalError("This step has already been decided", 409);
+  }
+  return { ...step, status, ...decision, comment: decision.comment ?? null, decidedAt: now };
 }
 
+/**
+ * Approve the active step of a version's chain. The version itself is
+ * approved once the last step is (or immediately, without a chain), and its
+ * review date is set from the policy's review cycle.
+ */
 export async function approveVersion(
   versionId: string,
-  approvedBy: string
-): Promise<void> {
-  await db.$transaction(async (tx) => {
-    // Get the version and document
-    const version = await tx.documentVersion.findUnique({
-      where: { id: versionId },
-      include: { document: true },
-    });
-
-    if (!version) {
-      throw new Error("Version not found");
+  approvedBy: string,
+  comment?: string
+): Promise<ApprovalDecisionResult> {
+  const { version, step } = await loadPendingVersion(versionId);
+  const { organizationId } = version.document;
+
+  if (step && !(await canDecideStep(step, organizationId, approvedBy))) {
+    throw new DocumentApprovalError(
+      `This step is assigned to ${step.approverName}`,
+      403
+    );
+  }
+  const decidedByName = await getMemberName(organizationId, approvedBy);
+
+  return db.$transaction(async (tx) => {
+    const decided = step
+      ? await decideStep(tx, step, "APPROVED", { decidedBy: approvedBy, decidedByName, comment })
+      : null;
+
+    const next = step
+      ? version.approvalSteps.find((s) => s.stepOrder > step.stepOrder && s.status === "WAITING")
+      : undefined;
+    if (next) {
+      const nextStep = await activateApprovalStep(tx, next, organizationId);
+      return { step: decided, nextStep, completed: false };
     }
 
+    const now = new Date();
+
     // Mark any previous approved versions as superseded
     await tx.documentVersion.updateMany({
       where: {
@@ -285,7 +433,7 @@ export async function approveVersion(
       data: {
         status: "APPROVED",
         reviewedBy: approvedBy,
-        reviewedAt: new Date(),
+        reviewedAt: now,
       },
     });
 
@@ -295,21 +443,54 @@ export async function approveVersion(
       data: {
         status: "APPROVED",
         approvedBy,
-        approvedAt: new Date(),
-        // Set review due date (default 1 year from now)
-        reviewDueDate: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000),
+        approvedAt: now,
+        reviewDueDate: calculateReviewDueDate(now, version.reviewCycleMonths),
+        reviewAlert30Sent: false,
+        reviewAlert7Sent: false,
       },
     });
+
+    return { step: decided, nextStep: null, completed: true };
   });
 }
 
+/**
+ * Reject the active step, which ends the chain: later steps are cancelled
+ * and the document returns to draft.
+ */
 export async function rejectVersion(
   versionId: string,
   rejectedBy: string,
   reason: string
-): Promise<void> {
-  await db.$transaction(async (tx) => {
-    const version = await tx.documentVersion.update({
+): Promise<ApprovalDecisionResult> {
+  const { version, step } = await loadPendingVersion(versionId);
+  const { organizationId } = version.document;
+
+  if (step && !(await canDecideStep(step, organizationId, rejectedBy))) {
+    throw new DocumentApprovalError(
+      `This step is assigned to ${step.approverName}`,
+      403
+    );
+  }
+  const decidedByName = await getMemberName(organizationId, rejectedBy);
+
+  return db.$transaction(async (tx) => {
+    const decided = step
+      ? await decideStep(tx, step, "REJECTED", {
+          decidedBy: rejectedBy,
+          decidedByName,
+          comment: reason,
+        })
+      : null;
+
+    if (step) {
+      await tx.documentApprovalStep.updateMany({
+        where: { versionId, status: "WAITING" },
+        data: { status: "CANCELLED" },
+      });
+    }
+
+    await tx.documentVersion.update({
       where: { id: versionId },
       data: {
         status: "REJECTED",
@@ -323,6 +504,8 @@ export async function rejectVersion(
       where: { id: version.documentId },
       data: { status: "DRAFT" },
     });
+
+    return { step: decided, nextStep: null, completed: true };
   });
 }
 
@@ -0,0 +1,396 @@
+import { createHash, randomUUID } from "crypto";
+import type { FindingEvidence } from "@prisma/client";
+import { db } from "./db";
+import {
+  deleteFromR2,
+  getObjectFromR2,
+  getSignedDownloadUrl,
+  getSignedUploadUrl,
+} from "./r2";
+import {
+  MAX_PHOTO_SIZE_BYTES,
+  PHOTO_MIME_TYPES,
+  detectPhotoMimeType,
+  sanitizeFileName,
+} from "./photo-processing";
+import { createAuditLog } from "./audit-log";
+import { MAX_FILE_SIZE_BYTES, MAX_FILE_SIZE_MB } from "@/types";
+
+/**
+ * Evidence files for audit findings and CAPAs.
+ *
+ * Uploads follow the project photo flow: the browser PUTs the file to a
+ * short-lived signed R2 URL, then registers it. Registration reads the object
+ * back, checks its real type and size, records a SHA-256 hash and links it
+ * to the audit question or CAPA. The storage key is also kept in the
+ * parent's evidenceKeys so existing readers keep working.
+ */
+
+const OFFICE_MIME_TYPES = [
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+];
+
+export const EVIDENCE_DOCUMENT_MIME_TYPES = ["application/pdf", ...OFFICE_MIME_TYPES];
+
+export const EVIDENCE_MIME_TYPES = [...PHOTO_MIME_TYPES, ...EVIDENCE_DOCUMENT_MIME_TYPES];
+
+// Signed PUT URLs are short-lived; the browser uploads immediately
+export const EVIDENCE_UPLOAD_URL_EXPIRY_SECONDS = 10 * 60;
+
+export class FindingEvidenceError extends Error {
+  constructor(
+    message: string,
+    public status: 400 | 404 | 409 = 400
+  ) {
+    super(message);
+    this.name = "FindingEvidenceError";
+  }
+}
+
+/** What an evidence file is attached to. */
+export type EvidenceTarget =
+  | { type: "checklist"; organizationId: string; auditId: string; checklistId: string }
+  | { type: "capa"; organizationId: string; capaId: string };
+
+/**
+ * Resolve an audit question in the caller's organisation. Evidence can only
+ * change while the audit is open, matching the checklist PATCH rules.
+ */
+export async function getChecklistEvidenceTarget(
+  clerkOrgId: string,
+  auditId: string,
+  checklistId: string,
+  options: { forUpdate?: boolean } = {}
+): Promise<EvidenceTarget> {
+  const item = await db.auditChecklist.findFirst({
+    where: {
+      id: checklistId,
+      auditId,
+      audit: { organization: { clerkOrgId } },
+    },
+    select: { audit: { select: { organizationId: true, status: true } } },
+  });
+
+  if (!item) {
+    throw new FindingEvidenceError("Checklist item not found", 404);
+  }
+
+  if (
+    options.forUpdate &&
+    (item.audit.status === "COMPLETED" || item.audit.status === "CANCELLED")
+  ) {
+    throw new FindingEvidenceError("Cannot modify completed or cancelled audit");
+  }
+
+  return {
+    type: "checklist",
+    organizationId: item.audit.organizationId,
+    auditId,
+    checklistId,
+  };
+}
+
+/**
+ * Resolve a CAPA in the caller's organisation. Closed CAPAs are read-only.
+ */
+export async function getCapaEvidenceTarget(
+  clerkOrgId: string,
+  capaId: string,
+  options: { forUpdate?: boolean } = {}
+): Promise<EvidenceTarget> {
+  const capa = await db.cAPARecord.findFirst({
+    where: { id: capaId, organization: { clerkOrgId } },
+    select: { organizationId: true, status: true },
+  });
+
+  if (!capa) {
+    throw new FindingEvidenceError("CAPA not found", 404);
+  }
+
+  if (options.forUpdate && capa.status === "CLOSED") {
+    throw new FindingEvidenceError("Cannot modify closed CAPA");
+  }
+
+  return { type: "capa", organizationId: capa.organizationId, capaId };
+}
+
+export function getEvidenceKeyPrefix(target: EvidenceTarget): string {
+  return target.type === "checklist"
+    ? `evidence/${target.organizationId}/audits/${target.auditId}/${target.checklistId}/`
+    : `evidence/${target.organizationId}/capa/${target.capaId}/`;
+}
+
+export function maxEvidenceSize(mimeType: string): number {
+  return PHOTO_MIME_TYPES.includes(mimeType) ? MAX_PHOTO_SIZE_BYTES : MAX_FILE_SIZE_BYTES;
+}
+
+/**
+ * Work out the real type of an uploaded file from its content. Images are
+ * decoded; PDFs and Office files are recognised by their signature, since
+ * the browser-declared type is only a hint.
+ */
+export async function detectEvidenceMimeType(
+  buffer: Buffer,
+  declaredType: string
+): Promise<string | null> {
+  if (buffer.subarray(0, 5).toString("latin1") === "%PDF-") {
+    return "application/pdf";
+  }
+
+  // DOCX and XLSX are ZIP containers; trust the declared Office type only then
+  if (buffer.subarray(0, 4).equals(Buffer.from([0x50, 0x4b, 0x03, 0x04]))) {
+    return OFFICE_MIME_TYPES.includes(declaredType) ? declaredType : null;
+  }
+
+  return detectPhotoMimeType(buffer);
+}
+
+export function hashEvidence(buffer: Buffer): string {
+  return createHash("sha256").update(buffer).digest("hex");
+}
+
+export async function createEvidenceUploadUrl(
+  target: EvidenceTarget,
+  file: { fileName: string; mimeType: string; fileSize: number }
+) {
+  if (file.fileSize > maxEvidenceSize(file.mimeType)) {
+    throw new FindingEvidenceError(
+      `File exceeds maximum size of ${Math.round(maxEvidenceSize(file.mimeType) / (1024 * 1024))}MB`
+    );
+  }
+
+  const key = `${getEvidenceKeyPrefix(target)}${randomUUID()}-${sanitizeFileName(file.fileName)}`;
+  const uploadUrl = await getSignedUploadUrl(
+    key,
+    file.mimeType,
+    EVIDENCE_UPLOAD_URL_EXPIRY_SECONDS
+  );
+
+  return {
+    uploadUrl,
+    storageKey: `portal/${key}`,
+    expiresIn: EVIDENCE_UPLOAD_URL_EXPIRY_SECONDS,
+  };
+}
+
+/**
+ * Verify an uploaded object and attach it to its target. Objects that fail
+ * validation are deleted so rejected uploads do not linger in R2.
+ */
+export async function registerEvidence(
+  target: EvidenceTarget,
+  upload: { storageKey: string; fileName: string; declaredType: string },
+  uploadedBy: string
+): Promise<FindingEvidence> {
+  // Only accept keys issued for this target by the upload-url route
+  const prefix = `portal/${getEvidenceKeyPrefix(target)}`;
+  if (!upload.storageKey.startsWith(prefix) || upload.storageKey.includes("..")) {
+    throw new FindingEvidenceError("Invalid storage key for this evidence");
+  }
+
+  const existing = await db.findingEvidence.findUnique({
+    where: { storageKey: upload.storageKey },
+    select: { id: true },
+  });
+  if (existing) {
+    throw new FindingEvidenceError("Evidence has already been registered", 409);
+  }
+
+  let buffer: Buffer;
+  try {
+    buffer = await getObjectFromR2(upload.storageKey);
+  } catch {
+    throw new FindingEvidenceError("Uploaded file not found. Please upload the file again.");
+  }
+
+  return storeEvidence(target, buffer, upload, uploadedBy);
+}
+
+/**
+ * Validate, hash and record evidence whose bytes are already in R2 at
+ * upload.storageKey (registered signed uploads and server-side uploads).
+ */
+export async function storeEvidence(
+  target: EvidenceTarget,
+  buffer: Buffer,
+  upload: { storageKey: string; fileName: string; declaredType: string },
+  uploadedBy: string
+): Promise<FindingEvidence> {
+  const mimeType = await detectEvidenceMimeType(buffer, upload.declaredType);
+  if (!mimeType) {
+    await deleteFromR2(upload.storageKey);
+    throw new FindingEvidenceError(
+      "Invalid file type. Allowed: JPEG, PNG, WebP, PDF, Word (.docx), Excel (.xlsx)"
+    );
+  }
+
+  if (buffer.length > maxEvidenceSize(mimeType)) {
+    await deleteFromR2(upload.storageKey);
+    throw new FindingEvidenceError(
+      PHOTO_MIME_TYPES.includes(mimeType)
+        ? "Photo exceeds maximum size of 25MB"
+        : `File exceeds maximum size of ${MAX_FILE_SIZE_MB}MB`
+    );
+  }
+
+  const sha256 = hashEvidence(buffer);
+
+  const evidence = await db.$transaction(async (tx) => {
+    const created = await tx.findingEvidence.create({
+      data: {
+        organizationId: target.organizationId,
+        checklistId: target.type === "checklist" ? target.checklistId : null,
+        capaId: target.type === "capa" ? target.capaId : null,
+        storageKey: upload.storageKey,
+        fileName: upload.fileName,
+        fileSize: buffer.length,
+        mimeType,
+        sha256,
+        uploadedBy,
+      },
+    });
+
+    if (target.type === "checklist") {
+      await tx.auditChecklist.update({
+        where: { id: target.checklistId },
+        data: { evidenceKeys: { push: upload.storageKey } },
+      });
+    } else {
+      await tx.cAPARecord.update({
+        where: { id: target.capaId },
+        data: { evidenceKeys: { push: upload.storageKey } },
+      });
+    }
+
+    return created;
+  });
+
+  await createAuditLog({
+    action: "CREATE",
+    resourceType: "FindingEvidence",
+    resourceId: evidence.id,
+    newState: {
+      ...(target.type === "checklist"
+        ? { auditId: target.auditId, checklistId: target.checklistId }
+        : { capaId: target.capaId }),
+      fileName: evidence.fileName,
+      mimeType: evidence.mimeType,
+      fileSize: evidence.fileSize,
+      sha256: evidence.sha256,
+    },
+    metadata: { organizationId: target.organizationId },
+  });
+
+  return evidence;
+}
+
+/**
+ * List a target's evidence with short-lived URLs: `url` for inline preview
+ * and `downloadUrl` to save the file under its original name.
+ */
+export async function listEvidence(target: EvidenceTarget) {
+  const evidence = await db.findingEvidence.findMany({
+    where:
+      target.type === "checklist"
+        ? { checklistId: target.checklistId }
+        : { capaId: target.capaId },
+    orderBy: { uploadedAt: "asc" },
+  });
+
+  return Promise.all(
+    evidence.map(async (item) => {
+      const [url, downloadUrl] = await Promise.all([
+        getSignedDownloadUrl(item.storageKey),
+        getSignedDownloadUrl(item.storageKey, 3600, sanitizeFileName(item.fileName)),
+      ]);
+      return { ...item, url, downloadUrl };
+    })
+  );
+}
+
+/**
+ * Detach evidence from a target. The file itself is only deleted once
+ * nothing links to it, so removing it from a finding keeps it on the CAPA.
+ */
+export async function removeEvidence(
+  target: EvidenceTarget,
+  evidenceId: string
+): Promise<void> {
+  const evidence = await db.findingEvidence.findUnique({ where: { id: evidenceId } });
+
+  const linked =
+    target.type === "checklist"
+      ? evidence?.checklistId === target.checklistId
+      : evidence?.capaId === target.capaId;
+
+  if (!evidence || !linked) {
+    throw new FindingEvidenceError("Evidence not found", 404);
+  }
+
+  const stillLinked =
+    target.type === "checklist" ? evidence.capaId !== null : evidence.checklistId !== null;
+
+  await db.$transaction(async (tx) => {
+    if (target.type === "checklist") {
+      const checklist = await tx.auditChecklist.findUniqueOrThrow({
+        where: { id: target.checklistId },
+        select: { evidenceKeys: true },
+      });
+      await tx.auditChecklist.update({
+        where: { id: target.checklistId },
+        data: { evidenceKeys: checklist.evidenceKeys.filter((k) => k !== evidence.storageKey) },
+      });
+    } else {
+      const capa = await tx.cAPARecord.findUniqueOrThrow({
+        where: { id: target.capaId },
+        select: { evidenceKeys: true },
+      });
+      await tx.cAPARecord.update({
+        where: { id: target.capaId },
+        data: { evidenceKeys: capa.evidenceKeys.filter((k) => k !== evidence.storageKey) },
+      });
+    }
+
+    if (stillLinked) {
+      await tx.findingEvidence.update({
+        where: { id: evidence.id },
+        data: target.type === "checklist" ? { checklistId: null } : { capaId: null },
+      });
+    } else {
+      await tx.findingEvidence.delete({ where: { id: evidence.id } });
+    }
+  });
+
+  if (!stillLinked) {
+    await deleteFromR2(evidence.storageKey);
+  }
+
+  await createAuditLog({
+    action: "DELETE",
+    resourceType: "FindingEvidence",
+    resourceId: evidence.id,
+    previousState: {
+      checklistId: evidence.checklistId,
+      capaId: evidence.capaId,
+      fileName: evidence.fileName,
+      sha256: evidence.sha256,
+    },
+    metadata: { organizationId: evidence.organizationId, fileDeleted: !stillLinked },
+  });
+}
+
+/**
+ * Link evidence captured against a nonconformity to the CAPA raised from
+ * it. Called when audit completion auto-creates CAPAs.
+ */
+export async function carryOverEvidenceToCapa(
+  checklistId: string,
+  capaId: string
+): Promise<number> {
+  const { count } = await db.findingEvidence.updateMany({
+    where: { checklistId, capaId: null },
+    data: { capaId },
+  });
+  return count;
+}
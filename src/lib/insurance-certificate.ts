@@ -0,0 +1,514 @@
+/**
+ * Insurance Certificate of Currency Parsing
+ *
+ * Reads the text layer of a certificate of currency and pulls out the fields
+ * of an insurance policy, each with a confidence between 0 and 1 so the form
+ * can ask the member to check the shaky ones. Parsing is deterministic: NZ
+ * insurer profiles recognise the insurer and the labels its certificates
+ * use, with a generic label vocabulary as the fallback.
+ */
+
+import type { InsurancePolicyType } from "@/types";
+
+// Fields below this confidence are flagged for the member to check
+export const CERTIFICATE_CONFIDENCE_THRESHOLD = 0.8;
+
+export interface ExtractedField<T> {
+  value: T;
+  confidence: number;
+  source: string; // Certificate text the value was read from
+}
+
+export interface CertificateFields {
+  policyType?: ExtractedField<InsurancePolicyType>;
+  insurer?: ExtractedField<string>;
+  brokerName?: ExtractedField<string>;
+  policyNumber?: ExtractedField<string>;
+  coverageAmount?: ExtractedField<number>;
+  excessAmount?: ExtractedField<number>;
+  effectiveDate?: ExtractedField<string>; // yyyy-mm-dd
+  expiryDate?: ExtractedField<string>; // yyyy-mm-dd
+}
+
+export interface CertificateExtraction {
+  insurerProfile: string | null;
+  fields: CertificateFields;
+  warnings: string[];
+}
+
+type LabelledField =
+  | "policyType"
+  | "insurer"
+  | "brokerName"
+  | "policyNumber"
+  | "coverage"
+  | "excess"
+  | "effective"
+  | "expiry"
+  | "period";
+
+interface InsurerProfile {
+  id: string;
+  name: string;
+  patterns: RegExp[];
+  // Labels this insurer's certificates use; values found under them are
+  // trusted a little more than the generic vocabulary
+  labels: Partial<Record<LabelledField, RegExp>>;
+}
+
+const INSURER_PROFILES: InsurerProfile[] = [
+  {
+    id: "vero",
+    name: "Vero Insurance New Zealand Limited",
+    patterns: [/\bvero\b/i],
+    labels: { period: /period of insurance/i, coverage: /limit of indemnity/i },
+  },
+  {
+    id: "nzi",
+    name: "NZI",
+    patterns: [/\bNZI\b/, /\bIAG New Zealand\b/i, /\blumley\b/i],
+    labels: { period: /period of insurance/i, coverage: /limit of indemnity|sum insured/i },
+  },
+  {
+    id: "qbe",
+    name: "QBE Insurance (International) Limited",
+    patterns: [/\bQBE\b/],
+    labels: { period: /period of cover/i, coverage: /limit of liability/i },
+  },
+  {
+    id: "aig",
+    name: "AIG Insurance New Zealand Limited",
+    patterns: [/\bAIG\b/],
+    labels: { period: /policy period/i, coverage: /limit of liability/i, excess: /deductible/i },
+  },
+  {
+    id: "chubb",
+    name: "Chubb Insurance New Zealand Limited",
+    patterns: [/\bchubb\b/i],
+    labels: { period: /period of insurance/i, coverage: /limit of liability/i, excess: /deductible/i },
+  },
+  {
+    id: "allianz",
+    name: "Allianz New Zealand Limited",
+    patterns: [/\ballianz\b/i],
+    labels: { period: /period of insurance/i, coverage: /limit of indemnity/i },
+  },
+  {
+    id: "delta",
+    name: "Delta Insurance New Zealand Limited",
+    patterns: [/\bdelta insurance\b/i],
+    labels: { period: /period of insurance/i, coverage: /limit of indemnity/i },
+  },
+  {
+    id: "berkshire",
+    name: "Berkshire Hathaway Specialty Insurance",
+    patterns: [/\bberkshire hathaway\b/i, /\bBHSI\b/],
+    labels: { period: /policy period/i, coverage: /limit of liability/i, excess: /deductible/i },
+  },
+  {
+    id: "dual",
+    name: "DUAL New Zealand",
+    patterns: [/\bDUAL New Zealand\b/i],
+    labels: { period: /period of insurance/i, coverage: /limit of indemnity/i },
+  },
+  {
+    id: "tower",
+    name: "Tower Insurance Limited",
+    patterns: [/\btower insurance\b/i],
+    labels: { period: /period of insurance/i, coverage: /sum insured/i },
+  },
+];
+
+const KNOWN_BROKERS: { name: string; pattern: RegExp }[] = [
+  { name: "Crombie Lockwood", pattern: /\bcrombie lockwood\b/i },
+  { name: "Aon New Zealand", pattern: /\baon\b/i },
+  { name: "Marsh", pattern: /\bmarsh\b/i },
+  { name: "Gallagher", pattern: /\bgallagher\b/i },
+  { name: "WTW", pattern: /\bwillis towers watson\b|\bWTW\b/i },
+  { name: "Rothbury Insurance Brokers", pattern: /\brothbury\b/i },
+  { name: "NZbrokers", pattern: /\bNZ ?brokers\b/i },
+  { name: "Insurance Advisernet", pattern: /\binsurance advisernet\b/i },
+  { name: "Runacres", pattern: /\brunacres\b/i },
+];
+
+// Generic label vocabulary, used with or without an insurer profile
+const LABELS: Record<LabelledField, RegExp> = {
+  policyType:
+    /class of (?:insurance|policy)|policy type|type of (?:cover|insurance|policy)|cover(?:age)? type|insurance type/i,
+  insurer: /insurer|underwriter|insurance company/i,
+  brokerName: /broker|intermediary|arranged by/i,
+  policyNumber: /policy (?:number|no\.?|#)|certificate (?:number|no\.?)/i,
+  coverage:
+    /limits? of (?:indemnity|liability|cover)|indemnity limit|sum insured|cover limit|amount insured/i,
+  excess: /excess|deductible/i,
+  effective: /(?:effective|inception|commencement|start) date|date of (?:inception|commencement)/i,
+  expiry: /(?:expiry|expiration|renewal|end) date/i,
+  period: /period of (?:insurance|cover)|policy period|insurance period/i,
+};
+
+const POLICY_TYPE_KEYWORDS: [InsurancePolicyType, RegExp][] = [
+  ["PUBLIC_LIABILITY", /public (?:and products )?liability|general liability|broadform liability/gi],
+  ["PROFESSIONAL_INDEMNITY", /professional indemnity/gi],
+  ["STATUTORY_LIABILITY", /statutory liability/gi],
+  ["EMPLOYERS_LIABILITY", /employer'?s'? liability/gi],
+  ["MOTOR_VEHICLE", /motor vehicle|commercial motor|motor fleet/gi],
+  ["CONTRACT_WORKS", /contract works|contractors'? all risks?|construction works/gi],
+];
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const MONTH_NAME = "(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)";
+const DATE_PATTERNS: { pattern: RegExp; parts: (m: RegExpExecArray) => [string, string, string] }[] = [
+  // 2026-04-01
+  { pattern: /\b(\d{4})-(\d{1,2})-(\d{1,2})\b/g, parts: (m) => [m[3], m[2], m[1]] },
+  // 1/04/2026, 01.04.26, 1-4-2026 (day first, as in NZ)
+  { pattern: /\b(\d{1,2})[/.-](\d{1,2})[/.-](\d{4}|\d{2})\b/g, parts: (m) => [m[1], m[2], m[3]] },
+  // 1 April 2026, 1st April, 2026, 01-Apr-2026
+  {
+    pattern: new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?[\\s-]+${MONTH_NAME}\\.?[\\s,-]+(\\d{4}|\\d{2})\\b`, "gi"),
+    parts: (m) => [m[1], m[2], m[3]],
+  },
+  // April 1, 2026
+  {
+    pattern: new RegExp(`\\b${MONTH_NAME}\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, "gi"),
+    parts: (m) => [m[2], m[1], m[3]],
+  },
+];
+
+const AMOUNT_PATTERN =
+  /(?:NZ\$|NZD\s*\$?|\$)\s?(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d{1,2}))?(?:\s*(million|m|k)\b)?/gi;
+
+interface DateMatch {
+  value: string;
+  index: number;
+  text: string;
+}
+
+function normaliseText(text: string): string {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[\u2010-\u2015]/g, "-")
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[ \t\u00a0]+/g, " ");
+}
+
+function toIsoDate(day: string, month: string, year: string): string | null {
+  const d = Number(day);
+  const m = /^\d+$/.test(month) ? Number(month) : MONTHS.indexOf(month.slice(0, 3).toLowerCase()) + 1;
+  let y = Number(year);
+  if (year.length === 2) y += 2000;
+
+  const date = new Date(Date.UTC(y, m - 1, d));
+  if (
+    m < 1 ||
+    date.getUTCFullYear() !== y ||
+    date.getUTCMonth() !== m - 1 ||
+    date.getUTCDate() !== d ||
+    y < 1990 ||
+    y > 2100
+  ) {
+    return null;
+  }
+  return `${y}-${String(m).padStart(2, "0")}-${String(d).padStart(2, "0")}`;
+}
+
+/**
+ * Dates in the text, in order of appearance.
+ */
+export function findDates(text: string): DateMatch[] {
+  const found: DateMatch[] = [];
+  for (const { pattern, parts } of DATE_PATTERNS) {
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text))) {
+      const value = toIsoDate(...parts(match));
+      const overlaps = found.some(
+        (f) => match!.index < f.index + f.text.length && f.index < match!.index + match![0].length
+      );
+      if (value && !overlaps) {
+        found.push({ value, index: match.index, text: match[0] });
+      }
+    }
+  }
+  return found.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Dollar amounts in the text, in order of appearance.
+ */
+export function findAmounts(text: string): { value: number; index: number; text: string }[] {
+  const found: { value: number; index: number; text: string }[] = [];
+  AMOUNT_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = AMOUNT_PATTERN.exec(text))) {
+    let value = Number(`${match[1].replace(/,/g, "")}.${match[2] ?? "0"}`);
+    const unit = match[3]?.toLowerCase();
+    if (unit === "million" || unit === "m") value *= 1_000_000;
+    if (unit === "k") value *= 1_000;
+    found.push({ value, index: match.index, text: match[0] });
+  }
+  return found;
+}
+
+/**
+ * Text following each occurrence of a label, up to the end of the line.
+ */
+function valuesAfter(text: string, label: RegExp, maxLength = 160): { value: string; index: number }[] {
+  const pattern = new RegExp(label.source, "gi");
+  const values: { value: string; index: number }[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    const start = match.index + match[0].length;
+    const rest = text.slice(start, start + maxLength);
+    const value = rest.split("\n")[0].replace(/^\s*[:-]?\s*/, "");
+    // Values on the next line, as in two-column layouts
+    const next = value.trim() ? value : (rest.split("\n")[1] ?? "");
+    values.push({ value: next.trim(), index: start });
+  }
+  return values;
+}
+
+// Cut a labelled value where the next label on the same line begins
+function untilNextLabel(value: string): string {
+  let end = value.length;
+  for (const label of Object.values(LABELS)) {
+    const match = new RegExp(label.source, "i").exec(value);
+    if (match && match.index > 0 && match.index < end) end = match.index;
+  }
+  return value.slice(0, end).replace(/[\s:;,|-]+$/, "").trim();
+}
+
+function detectInsurer(text: string): {
+  profile: InsurerProfile | null;
+  field?: ExtractedField<string>;
+} {
+  const labelled = valuesAfter(text, LABELS.insurer)
+    .map((v) => untilNextLabel(v.value))
+    .filter((v) => v.length > 1);
+
+  for (const value of labelled) {
+    const profile = INSURER_PROFILES.find((p) => p.patterns.some((re) => re.test(value)));
+    if (profile) {
+      return { profile, field: { value: profile.name, confidence: 0.95, source: value } };
+    }
+  }
+
+  // Mentions outside an "Insurer" label, ignoring broker lines
+  const withoutBrokerLines = text
+    .split("\n")
+    .filter((line) => !LABELS.brokerName.test(line))
+    .join("\n");
+  const mentioned = INSURER_PROFILES.map((profile) => {
+    const indexes = profile.patterns
+      .map((re) => withoutBrokerLines.search(re))
+      .filter((i) => i >= 0);
+    return { profile, index: indexes.length ? Math.min(...indexes) : -1 };
+  })
+    .filter((m) => m.index >= 0)
+    .sort((a, b) => a.index - b.index);
+
+  if (mentioned.length > 0) {
+    const { profile, index } = mentioned[0];
+    return {
+      profile,
+      field: {
+        value: profile.name,
+        confidence: mentioned.length === 1 ? 0.8 : 0.55,
+        source: withoutBrokerLines.slice(index, index + 60).split("\n")[0],
+      },
+    };
+  }
+
+  if (labelled[0]) {
+    return { profile: null, field: { value: labelled[0], confidence: 0.7, source: labelled[0] } };
+  }
+  return { profile: null };
+}
+
+function detectPolicyType(text: string): ExtractedField<InsurancePolicyType> | undefined {
+  for (const { value } of valuesAfter(text, LABELS.policyType)) {
+    for (const [type, pattern] of POLICY_TYPE_KEYWORDS) {
+      if (new RegExp(pattern.source, "i").test(value)) {
+        return { value: type, confidence: 0.9, source: untilNextLabel(value) || value };
+      }
+    }
+  }
+
+  const counts = POLICY_TYPE_KEYWORDS.map(([type, pattern]) => ({
+    type,
+    matches: text.match(pattern) ?? [],
+  }))
+    .filter((c) => c.matches.length > 0)
+    .sort((a, b) => b.matches.length - a.matches.length);
+
+  if (counts.length === 0) return undefined;
+  return {
+    value: counts[0].type,
+    confidence: counts.length === 1 ? 0.75 : 0.5,
+    source: counts[0].matches[0] ?? "",
+  };
+}
+
+function detectPolicyNumber(text: string): ExtractedField<string> | undefined {
+  // A certificate number is sometimes the policy number, sometimes not
+  const labels: [RegExp, number][] = [
+    [/policy (?:number|no\.?|#)/i, 0.9],
+    [/certificate (?:number|no\.?)/i, 0.6],
+  ];
+  for (const [label, confidence] of labels) {
+    for (const { value } of valuesAfter(text, label)) {
+      const token = /^[A-Z0-9][A-Z0-9/.-]{3,}/i.exec(value)?.[0].replace(/[.-]+$/, "");
+      if (token && /\d/.test(token)) {
+        return { value: token, confidence, source: value.slice(0, 60) };
+      }
+    }
+  }
+  return undefined;
+}
+
+function amountAfterLabel(
+  text: string,
+  labels: RegExp[],
+  confidence: number
+): ExtractedField<number> | undefined {
+  for (const [i, label] of labels.entries()) {
+    for (const { value } of valuesAfter(text, label, 200)) {
+      if (/^\s*nil\b/i.test(value)) {
+        return { value: 0, confidence: confidence - 0.1, source: value.slice(0, 60) };
+      }
+      const amount = findAmounts(value)[0];
+      if (amount) {
+        // Profile-specific labels come first and are trusted slightly more
+        const boost = i === 0 && labels.length > 1 ? 0.05 : 0;
+        return { value: amount.value, confidence: Math.min(1, confidence + boost), source: amount.text };
+      }
+    }
+  }
+  return undefined;
+}
+
+function detectDates(
+  text: string,
+  profile: InsurerProfile | null
+): { effectiveDate?: ExtractedField<string>; expiryDate?: ExtractedField<string> } {
+  // "Period of Insurance: 4.00pm 1 April 2026 to 4.00pm 1 April 2027"
+  const periodLabels = [profile?.labels.period, LABELS.period].filter(Boolean) as RegExp[];
+  for (const label of periodLabels) {
+    for (const { value } of valuesAfter(text, label, 200)) {
+      const dates = findDates(value);
+      if (dates.length >= 2) {
+        const source = value.slice(0, dates[1].index + dates[1].text.length);
+        return {
+          effectiveDate: { value: dates[0].value, confidence: 0.9, source },
+          expiryDate: { value: dates[1].value, confidence: 0.9, source },
+        };
+      }
+    }
+  }
+
+  const dateAfter = (label: RegExp): ExtractedField<string> | undefined => {
+    for (const { value } of valuesAfter(text, label, 80)) {
+      const date = findDates(value)[0];
+      if (date) return { value: date.value, confidence: 0.85, source: date.text };
+    }
+    return undefined;
+  };
+  const effectiveDate = dateAfter(LABELS.effective);
+  const expiryDate = dateAfter(LABELS.expiry);
+  if (effectiveDate || expiryDate) return { effectiveDate, expiryDate };
+
+  // "From 1/04/2026 To 1/04/2027" without a period label
+  const fromTo = new RegExp(
+    `\\bfrom\\b[^\\n]{0,40}?(${DATE_PATTERNS.map((p) => p.pattern.source).join("|")})[^\\n]{0,40}?\\bto\\b[^\\n]{0,40}?(${DATE_PATTERNS.map((p) => p.pattern.source).join("|")})`,
+    "i"
+  ).exec(text);
+  if (fromTo) {
+    const dates = findDates(fromTo[0]);
+    if (dates.length >= 2) {
+      return {
+        effectiveDate: { value: dates[0].value, confidence: 0.75, source: fromTo[0] },
+        expiryDate: { value: dates[1].value, confidence: 0.75, source: fromTo[0] },
+      };
+    }
+  }
+  return {};
+}
+
+/**
+ * Extract policy fields from certificate text.
+ */
+export function parseCertificateText(rawText: string): CertificateExtraction {
+  const text = normaliseText(rawText);
+  const warnings: string[] = [];
+
+  const { profile, field: insurer } = detectInsurer(text);
+  const fields: CertificateFields = { insurer };
+
+  fields.policyType = detectPolicyType(text);
+  fields.policyNumber = detectPolicyNumber(text);
+
+  const broker = valuesAfter(text, LABELS.brokerName)
+    .map((v) => untilNextLabel(v.value))
+    .find((v) => v.length > 1);
+  if (broker) {
+    const known = KNOWN_BROKERS.find((b) => b.pattern.test(broker));
+    fields.brokerName = { value: known?.name ?? broker, confidence: 0.85, source: broker };
+  } else {
+    const known = KNOWN_BROKERS.find((b) => b.pattern.test(text));
+    if (known) {
+      fields.brokerName = { value: known.name, confidence: 0.6, source: text.match(known.pattern)![0] };
+    }
+  }
+
+  fields.coverageAmount = amountAfterLabel(
+    text,
+    [profile?.labels.coverage, LABELS.coverage].filter(Boolean) as RegExp[],
+    0.85
+  );
+  if (!fields.coverageAmount) {
+    const largest = findAmounts(text).sort((a, b) => b.value - a.value)[0];
+    if (largest) {
+      fields.coverageAmount = { value: largest.value, confidence: 0.4, source: largest.text };
+    }
+  }
+
+  fields.excessAmount = amountAfterLabel(
+    text,
+    [profile?.labels.excess, LABELS.excess].filter(Boolean) as RegExp[],
+    0.8
+  );
+
+  Object.assign(fields, detectDates(text, profile));
+
+  if (
+    fields.coverageAmount &&
+    fields.excessAmount &&
+    fields.excessAmount.value >= fields.coverageAmount.value
+  ) {
+    warnings.push("The excess is not smaller than the cover amount; check both amounts.");
+    fields.excessAmount.confidence = Math.min(fields.excessAmount.confidence, 0.4);
+  }
+
+  if (fields.effectiveDate && fields.expiryDate) {
+    if (fields.expiryDate.value <= fields.effectiveDate.value) {
+      warnings.push("The expiry date is not after the effective date; check the period of insurance.");
+      fields.effectiveDate.confidence = Math.min(fields.effectiveDate.confidence, 0.4);
+      fields.expiryDate.confidence = Math.min(fields.expiryDate.confidence, 0.4);
+    }
+  }
+
+  if (fields.policyType && fields.policyType.confidence < CERTIFICATE_CONFIDENCE_THRESHOLD) {
+    const others = POLICY_TYPE_KEYWORDS.filter(
+      ([type, pattern]) => type !== fields.policyType!.value && new RegExp(pattern.source, "i").test(text)
+    );
+    if (others.length > 0) {
+      warnings.push("The certificate mentions more than one type of cover; choose the policy type it certifies.");
+    }
+  }
+
+  // Drop fields that were not found
+  for (const key of Object.keys(fields) as (keyof CertificateFields)[]) {
+    if (!fields[key]) delete fields[key];
+  }
+
+  return { insurerProfile: profile?.id ?? null, fields, warnings };
+}
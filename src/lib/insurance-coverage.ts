@@ -0,0 +1,320 @@
+/**
+ * Insurance Coverage Timeline
+ *
+ * Reconstructs each policy type's cover over a period from the policies on
+ * file, and checks it against the minimums for the certification tier the
+ * organization held at the time. Auditors use it to confirm continuous
+ * cover over the audit period.
+ */
+
+import type { CertificationTier, InsurancePolicy } from "@prisma/client";
+import {
+  INSURANCE_REQUIREMENTS,
+  type InsurancePolicyType,
+} from "@/types";
+import { db } from "./db";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Default look-back when no audit period is given
+export const COVERAGE_LOOKBACK_DAYS = 365;
+
+const POLICY_TYPES = Object.keys(
+  INSURANCE_REQUIREMENTS.ACCREDITED
+) as InsurancePolicyType[];
+
+export type CoverageIssueKind = "GAP" | "OVERLAP" | "UNDERINSURED";
+
+export interface CoverageIssue {
+  kind: CoverageIssueKind;
+  policyType: InsurancePolicyType;
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, exclusive
+  days: number;
+  policyIds: string[];
+  // UNDERINSURED only: the tier at the time and what it required
+  tier?: CertificationTier;
+  requiredCoverage?: number;
+  actualCoverage?: number;
+}
+
+export interface TimelinePolicy {
+  id: string;
+  policyNumber: string;
+  insurer: string;
+  coverageAmount: number;
+  effectiveDate: string;
+  expiryDate: string;
+  verified: boolean;
+}
+
+export interface PolicyTypeTimeline {
+  policyType: InsurancePolicyType;
+  required: boolean; // Required by the tier at any point in the period
+  policies: TimelinePolicy[];
+  issues: CoverageIssue[];
+  coveredDays: number;
+  continuous: boolean; // Required cover held, at the required amount, throughout
+}
+
+export interface TierPeriod {
+  tier: CertificationTier;
+  from: Date; // Inclusive; the first period starts at the epoch
+}
+
+export interface CoverageTimeline {
+  from: string;
+  to: string;
+  periodDays: number;
+  types: PolicyTypeTimeline[];
+  issues: CoverageIssue[]; // Every type's issues, most recent first
+  continuousCover: boolean;
+}
+
+type CoveragePolicy = Pick<
+  InsurancePolicy,
+  | "id"
+  | "policyType"
+  | "policyNumber"
+  | "insurer"
+  | "coverageAmount"
+  | "effectiveDate"
+  | "expiryDate"
+  | "verified"
+>;
+
+// ============================================================================
+// Analysis
+// ============================================================================
+
+function toDay(date: Date): number {
+  return Math.floor(date.getTime() / DAY_MS);
+}
+
+function dayToString(day: number): string {
+  return new Date(day * DAY_MS).toISOString().split("T")[0];
+}
+
+function tierAt(tierPeriods: TierPeriod[], day: number, fallback: CertificationTier) {
+  let tier = tierPeriods[0]?.tier ?? fallback;
+  for (const period of tierPeriods) {
+    if (toDay(period.from) > day) break;
+    tier = period.tier;
+  }
+  return tier;
+}
+
+/**
+ * Walks each policy type's timeline between `from` and `to`, split at every
+ * policy start/expiry and tier change, and reports the stretches with no
+ * cover (for required types), more than one policy, or cover below the
+ * minimum for the tier held at the time. Policies run from their effective
+ * date up to (not including) their expiry date, so a renewal starting on
+ * the day the old policy expires is neither a gap nor an overlap.
+ */
+export function analyzeCoverageTimeline(
+  policies: CoveragePolicy[],
+  tierPeriods: TierPeriod[],
+  options: { from: Date; to: Date; currentTier: CertificationTier }
+): CoverageTimeline {
+  const start = toDay(options.from);
+  const end = Math.max(start, toDay(options.to));
+  const types: PolicyTypeTimeline[] = [];
+
+  for (const policyType of POLICY_TYPES) {
+    const ofType = policies
+      .filter((p) => p.policyType === policyType)
+      .sort((a, b) => a.effectiveDate.getTime() - b.effectiveDate.getTime());
+
+    const boundaries = new Set<number>([start, end]);
+    for (const policy of ofType) {
+      boundaries.add(toDay(policy.effectiveDate));
+      boundaries.add(toDay(policy.expiryDate));
+    }
+    for (const period of tierPeriods) {
+      boundaries.add(toDay(period.from));
+    }
+    const points = [...boundaries]
+      .filter((day) => day >= start && day <= end)
+      .sort((a, b) => a - b);
+
+    let required = false;
+    let coveredDays = 0;
+    const issues: CoverageIssue[] = [];
+
+    for (let i = 0; i < points.length - 1; i++) {
+      const segmentStart = points[i];
+      const segmentEnd = points[i + 1];
+      const days = segmentEnd - segmentStart;
+
+      const tier = tierAt(tierPeriods, segmentStart, options.currentTier);
+      const minimum = INSURANCE_REQUIREMENTS[tier][policyType];
+      if (minimum !== null) required = true;
+
+      const active = ofType.filter(
+        (p) =>
+          toDay(p.effectiveDate) <= segmentStart &&
+          toDay(p.expiryDate) >= segmentEnd
+      );
+      const coverage = Math.max(0, ...active.map((p) => Number(p.coverageAmount)));
+
+      if (active.length > 0) coveredDays += days;
+
+      const found: CoverageIssue[] = [];
+      if (active.length === 0 && minimum !== null) {
+        found.push({ kind: "GAP", policyType, from: "", to: "", days, policyIds: [] });
+      }
+      if (active.length > 1) {
+        found.push({
+          kind: "OVERLAP",
+          policyType,
+          from: "",
+          to: "",
+          days,
+          policyIds: active.map((p) => p.id),
+        });
+      }
+      if (active.length > 0 && minimum !== null && coverage < minimum) {
+        found.push({
+          kind: "UNDERINSURED",
+          policyType,
+          from: "",
+          to: "",
+          days,
+          policyIds: active.map((p) => p.id),
+          tier,
+          requiredCoverage: minimum,
+          actualCoverage: coverage,
+        });
+      }
+
+      for (const issue of found) {
+        // Extend the previous issue when this segment continues it
+        const previous = issues.findLast((p) => p.kind === issue.kind);
+        if (
+          previous &&
+          previous.to === dayToString(segmentStart) &&
+          previous.policyIds.join() === issue.policyIds.join() &&
+          previous.requiredCoverage === issue.requiredCoverage
+        ) {
+          previous.to = dayToString(segmentEnd);
+          previous.days += days;
+        } else {
+          issues.push({
+            ...issue,
+            from: dayToString(segmentStart),
+            to: dayToString(segmentEnd),
+          });
+        }
+      }
+    }
+
+    types.push({
+      policyType,
+      required,
+      policies: ofType
+        .filter((p) => toDay(p.expiryDate) > start && toDay(p.effectiveDate) < end)
+        .map((p) => ({
+          id: p.id,
+          policyNumber: p.policyNumber,
+          insurer: p.insurer,
+          coverageAmount: Number(p.coverageAmount),
+          effectiveDate: dayToString(toDay(p.effectiveDate)),
+          expiryDate: dayToString(toDay(p.expiryDate)),
+          verified: p.verified,
+        })),
+      issues,
+      coveredDays,
+      continuous: !issues.some((i) => i.kind !== "OVERLAP"),
+    });
+  }
+
+  return {
+    from: dayToString(start),
+    to: dayToString(end),
+    periodDays: end - start,
+    types,
+    issues: types
+      .flatMap((t) => t.issues)
+      .sort((a, b) => b.from.localeCompare(a.from)),
+    continuousCover: types.every((t) => !t.required || t.continuous),
+  };
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Tier held over time, from the tier recorded on each compliance snapshot.
+ * Before the first snapshot the organization is assumed to have held that
+ * snapshot's tier.
+ */
+export async function getTierPeriods(organizationId: string): Promise<TierPeriod[]> {
+  const snapshots = await db.complianceSnapshot.findMany({
+    where: { organizationId },
+    orderBy: { calculatedAt: "asc" },
+    select: { certificationTier: true, calculatedAt: true },
+  });
+
+  const periods: TierPeriod[] = [];
+  for (const snapshot of snapshots) {
+    if (periods.at(-1)?.tier === snapshot.certificationTier) continue;
+    periods.push({
+      tier: snapshot.certificationTier,
+      from: periods.length === 0 ? new Date(0) : snapshot.calculatedAt,
+    });
+  }
+  return periods;
+}
+
+/**
+ * Coverage timeline for an organization. Defaults to the last year up to
+ * today; gaps before the organization joined are not counted.
+ */
+export async function getCoverageTimeline(
+  organizationId: string,
+  options: { from?: Date; to?: Date } = {}
+): Promise<CoverageTimeline> {
+  const to = options.to ?? new Date();
+  const requestedFrom =
+    options.from ?? new Date(to.getTime() - COVERAGE_LOOKBACK_DAYS * DAY_MS);
+
+  const [organization, policies, tierPeriods] = await Promise.all([
+    db.organization.findUniqueOrThrow({
+      where: { id: organizationId },
+      select: { certificationTier: true, certifiedSince: true, createdAt: true },
+    }),
+    db.insurancePolicy.findMany({
+      where: {
+        organizationId,
+        effectiveDate: { lt: to },
+        expiryDate: { gt: requestedFrom },
+      },
+      select: {
+        id: true,
+        policyType: true,
+        policyNumber: true,
+        insurer: true,
+        coverageAmount: true,
+        effectiveDate: true,
+        expiryDate: true,
+        verified: true,
+      },
+    }),
+    getTierPeriods(organizationId),
+  ]);
+
+  const joined = organization.certifiedSince ?? organization.createdAt;
+  const from = joined > requestedFrom ? joined : requestedFrom;
+
+  return analyzeCoverageTimeline(policies, tierPeriods, {
+    from,
+    to,
+    currentTier: organization.certificationTier,
+  });
+}
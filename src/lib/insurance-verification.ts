@@ -0,0 +1,289 @@
+/**
+ * Broker Verification of Insurance Policies
+ *
+ * A member nominates their broker's email and the broker is sent a
+ * tokenised, expiring link to a public page. There the broker confirms the
+ * policy details and cover amount, correcting them if needed, which marks
+ * the policy verified. Each link works once; requesting again replaces it.
+ */
+
+import { randomBytes } from "crypto";
+import { db } from "@/lib/db";
+import { createAuditLog } from "@/lib/audit-log";
+import { notifyInsuranceVerificationRequest } from "@/lib/notifications";
+import { updateOrganizationComplianceScore } from "@/lib/compliance-v2";
+import { INSURANCE_POLICY_TYPE_LABELS } from "@/types";
+
+export const VERIFICATION_LINK_TTL_DAYS = 14;
+
+export class InsuranceVerificationError extends Error {
+  constructor(
+    message: string,
+    public status: 400 | 404 | 410 = 400
+  ) {
+    super(message);
+    this.name = "InsuranceVerificationError";
+  }
+}
+
+export interface BrokerCorrections {
+  policyNumber?: string;
+  insurer?: string;
+  coverageAmount?: number;
+  excessAmount?: number | null;
+  effectiveDate?: Date;
+  expiryDate?: Date;
+}
+
+function generateVerificationToken(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+// Amounts compare numerically so "2000000.00" matches "2000000"
+function sameValue(a: string | null, b: string | null): boolean {
+  if (a === b) return true;
+  if (a === null || b === null) return false;
+  return a.trim() !== "" && b.trim() !== "" && !isNaN(Number(a)) && Number(a) === Number(b);
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * Email the broker a verification link for a policy, replacing any earlier
+ * link. The broker's email is kept on the policy for expiry alerts.
+ */
+export async function requestBrokerVerification(params: {
+  policyId: string;
+  organizationId: string;
+  brokerEmail: string;
+  brokerName?: string;
+}) {
+  const policy = await db.insurancePolicy.findFirst({
+    where: { id: params.policyId, organizationId: params.organizationId },
+    include: { organization: { select: { name: true, email: true } } },
+  });
+
+  if (!policy) {
+    throw new InsuranceVerificationError("Policy not found", 404);
+  }
+
+  // The broker must be independent of the business, or the member could
+  // confirm their own policy
+  const brokerEmail = params.brokerEmail.trim().toLowerCase();
+  const member = await db.organizationMember.findFirst({
+    where: {
+      organizationId: policy.organizationId,
+      email: { equals: brokerEmail, mode: "insensitive" },
+    },
+    select: { id: true },
+  });
+
+  if (member || policy.organization.email?.trim().toLowerCase() === brokerEmail) {
+    throw new InsuranceVerificationError(
+      "The broker email must not belong to your business or its staff"
+    );
+  }
+
+  const now = new Date();
+  const verificationToken = generateVerificationToken();
+  const verificationTokenExpiresAt = new Date(
+    now.getTime() + VERIFICATION_LINK_TTL_DAYS * 24 * 60 * 60 * 1000
+  );
+
+  const updated = await db.insurancePolicy.update({
+    where: { id: policy.id },
+    data: {
+      brokerEmail: params.brokerEmail,
+      brokerName: params.brokerName || policy.brokerName,
+      verificationToken,
+      verificationTokenExpiresAt,
+      verificationRequestedAt: now,
+    },
+  });
+
+  await notifyInsuranceVerificationRequest({
+    organizationId: policy.organizationId,
+    businessName: policy.organization.name,
+    policyType: INSURANCE_POLICY_TYPE_LABELS[policy.policyType],
+    policyNumber: policy.policyNumber,
+    brokerEmail: params.brokerEmail,
+    verificationUrl: `${process.env.NEXT_PUBLIC_APP_URL}/verify/insurance?token=${verificationToken}`,
+    expiresAt: verificationTokenExpiresAt,
+  });
+
+  await createAuditLog({
+    action: "UPDATE",
+    resourceType: "InsurancePolicy",
+    resourceId: policy.id,
+    previousState: { brokerEmail: policy.brokerEmail },
+    newState: { brokerEmail: params.brokerEmail },
+    metadata: {
+      organizationId: policy.organizationId,
+      brokerVerificationRequested: true,
+      expiresAt: verificationTokenExpiresAt.toISOString(),
+    },
+  });
+
+  return updated;
+}
+
+async function findPolicyByToken(token: string) {
+  const policy = await db.insurancePolicy.findUnique({
+    where: { verificationToken: token },
+    include: { organization: { select: { name: true } } },
+  });
+
+  if (!policy) {
+    throw new InsuranceVerificationError(
+      "This verification link is invalid or has already been used",
+      404
+    );
+  }
+
+  if (!policy.verificationTokenExpiresAt || policy.verificationTokenExpiresAt < new Date()) {
+    throw new InsuranceVerificationError(
+      "This verification link has expired. Ask the business to send a new one.",
+      410
+    );
+  }
+
+  return policy;
+}
+
+/**
+ * Policy details shown to the broker on the public verification page.
+ */
+export async function getPolicyForVerification(token: string) {
+  const policy = await findPolicyByToken(token);
+
+  return {
+    businessName: policy.organization.name,
+    policyType: policy.policyType,
+    policyNumber: policy.policyNumber,
+    insurer: policy.insurer,
+    brokerName: policy.brokerName,
+    coverageAmount: policy.coverageAmount.toString(),
+    excessAmount: policy.excessAmount?.toString() ?? null,
+    effectiveDate: toDateString(policy.effectiveDate),
+    expiryDate: toDateString(policy.expiryDate),
+    expiresAt: policy.verificationTokenExpiresAt,
+  };
+}
+
+/**
+ * Record the broker's confirmation, applying any corrections, and mark the
+ * policy verified. The link cannot be used again afterwards.
+ */
+export async function submitBrokerVerification(params: {
+  token: string;
+  confirmedBy: string;
+  corrections: BrokerCorrections;
+  notes?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}) {
+  const policy = await findPolicyByToken(params.token);
+  const { corrections } = params;
+
+  // Only fields whose value actually differs count as corrections
+  const current: Record<keyof BrokerCorrections, string | null> = {
+    policyNumber: policy.policyNumber,
+    insurer: policy.insurer,
+    coverageAmount: policy.coverageAmount.toString(),
+    excessAmount: policy.excessAmount?.toString() ?? null,
+    effectiveDate: toDateString(policy.effectiveDate),
+    expiryDate: toDateString(policy.expiryDate),
+  };
+  const corrected: Record<string, string | null> = {};
+  const previous: Record<string, string | null> = {};
+
+  for (const [field, value] of Object.entries(corrections) as [
+    keyof BrokerCorrections,
+    BrokerCorrections[keyof BrokerCorrections],
+  ][]) {
+    if (value === undefined) continue;
+    const next =
+      value === null
+        ? null
+        : value instanceof Date
+          ? toDateString(value)
+          : String(value);
+    if (!sameValue(next, current[field])) {
+      previous[field] = current[field];
+      corrected[field] = next;
+    }
+  }
+
+  const has = (field: keyof BrokerCorrections) => field in corrected;
+  const expiryExtended =
+    has("expiryDate") && corrections.expiryDate! > policy.expiryDate;
+
+  // A single corrected date must still fit the stored one
+  const effectiveDate = corrections.effectiveDate ?? policy.effectiveDate;
+  const expiryDate = corrections.expiryDate ?? policy.expiryDate;
+  if (expiryDate <= effectiveDate) {
+    throw new InsuranceVerificationError("Expiry date must be after the effective date");
+  }
+
+  // Conditional on the token, so of two concurrent submits only one applies
+  const { count } = await db.insurancePolicy.updateMany({
+    where: { id: policy.id, verificationToken: params.token },
+    data: {
+      ...(has("policyNumber") && { policyNumber: corrections.policyNumber }),
+      ...(has("insurer") && { insurer: corrections.insurer }),
+      ...(has("coverageAmount") && { coverageAmount: corrections.coverageAmount }),
+      ...(has("excessAmount") && { excessAmount: corrections.excessAmount }),
+      ...(has("effectiveDate") && { effectiveDate: corrections.effectiveDate }),
+      ...(has("expiryDate") && { expiryDate: corrections.expiryDate }),
+      // A later expiry re-arms the renewal alerts and the lapse check
+      ...(expiryExtended && {
+        alert90Sent: false,
+        alert60Sent: false,
+        alert30Sent: false,
+        lapseAlertSent: false,
+      }),
+      verified: true,
+      verifiedAt: new Date(),
+      verifiedBy: policy.brokerEmail,
+      verificationToken: null,
+      verificationTokenExpiresAt: null,
+    },
+  });
+
+  if (count === 0) {
+    throw new InsuranceVerificationError(
+      "This verification link is invalid or has already been used",
+      404
+    );
+  }
+
+  const updated = await db.insurancePolicy.findUniqueOrThrow({
+    where: { id: policy.id },
+  });
+
+  await createAuditLog({
+    action: "VERIFY",
+    resourceType: "InsurancePolicy",
+    resourceId: policy.id,
+    previousState: { verified: policy.verified, ...previous },
+    newState: { verified: true, ...corrected },
+    metadata: {
+      organizationId: policy.organizationId,
+      verifiedVia: "broker",
+      brokerEmail: policy.brokerEmail,
+      confirmedBy: params.confirmedBy,
+      correctedFields: Object.keys(corrected),
+      notes: params.notes,
+    },
+    ipAddress: params.ipAddress,
+    userAgent: params.userAgent,
+  });
+
+  if (Object.keys(corrected).length > 0) {
+    await updateOrganizationComplianceScore(policy.organizationId);
+  }
+
+  return { policy: updated, correctedFields: Object.keys(corrected) };
+}
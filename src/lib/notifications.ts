@@ -24,6 +24,9 @@ const NOTIFICATION_TYPE_TO_EMAIL_PREF: Record<NotificationType, keyof Notificati
   CAPA_OVERDUE: "emailCompliance",
   COMPLIANCE_ALERT: "emailCompliance",
   DOCUMENT_REVIEW_DUE: "emailCompliance",
+  DOCUMENT_APPROVAL_REQUIRED: "emailCompliance",
+  DOCUMENT_ACKNOWLEDGEMENT_REQUIRED: "emailCompliance",
+  INSURANCE_VERIFICATION_REQUEST: null, // Sent to the broker at the member's request
   TESTIMONIAL_REQUEST: "emailNewsletter",
   TESTIMONIAL_RECEIVED: "emailNewsletter",
   TIER_CHANGE: null,          // System - always send
@@ -33,6 +36,7 @@ const NOTIFICATION_TYPE_TO_EMAIL_PREF: Record<NotificationType, keyof Notificati
   PROGRAMME_STATUS_CHANGE: null, // Always send
   CREDENTIAL_EXPIRY: "emailCompliance",
   CREDENTIAL_STATUS_CHANGE: null, // Always send
+  CPD_SHORTFALL: "emailCompliance",
 };
 
 const NOTIFICATION_TYPE_TO_SMS_PREF: Record<NotificationType, keyof NotificationPreference | null> = {
@@ -47,6 +51,9 @@ const NOTIFICATION_TYPE_TO_SMS_PREF: Record<NotificationType, keyof Notification
   CAPA_OVERDUE: "smsCritical",   // Overdue CAPA is critical
   COMPLIANCE_ALERT: "smsCritical", // Compliance alerts are critical
   DOCUMENT_REVIEW_DUE: null,     // No SMS for document review
+  DOCUMENT_APPROVAL_REQUIRED: null,
+  DOCUMENT_ACKNOWLEDGEMENT_REQUIRED: null,
+  INSURANCE_VERIFICATION_REQUEST: null,
   TESTIMONIAL_REQUEST: null,     // No SMS for testimonials
   TESTIMONIAL_RECEIVED: null,    // No SMS for testimonials
   TIER_CHANGE: "smsCritical",    // Tier changes are important
@@ -56,6 +63,7 @@ const NOTIFICATION_TYPE_TO_SMS_PREF: Record<NotificationType, keyof Notification
   PROGRAMME_STATUS_CHANGE: "smsCritical",
   CREDENTIAL_EXPIRY: "smsCritical",
   CREDENTIAL_STATUS_CHANGE: "smsCritical",
+  CPD_SHORTFALL: null,
 };
 
 // Map notification types to organization preference fields
@@ -71,6 +79,9 @@ const NOTIFICATION_TYPE_TO_ORG_EMAIL_PREF: Record<NotificationType, keyof Organi
   CAPA_OVERDUE: "emailComplianceAlerts",
   COMPLIANCE_ALERT: "emailComplianceAlerts",
   DOCUMENT_REVIEW_DUE: "emailComplianceAlerts",
+  DOCUMENT_APPROVAL_REQUIRED: "emailComplianceAlerts",
+  DOCUMENT_ACKNOWLEDGEMENT_REQUIRED: "emailComplianceAlerts",
+  INSURANCE_VERIFICATION_REQUEST: null,
   TESTIMONIAL_REQUEST: "emailSystemAlerts",
   TESTIMONIAL_RECEIVED: "emailSystemAlerts",
   TIER_CHANGE: "emailSystemAlerts",
@@ -80,6 +91,7 @@ const NOTIFICATION_TYPE_TO_ORG_EMAIL_PREF: Record<NotificationType, keyof Organi
   PROGRAMME_STATUS_CHANGE: "emailSystemAlerts",
   CREDENTIAL_EXPIRY: "emailComplianceAlerts",
   CREDENTIAL_STATUS_CHANGE: "emailSystemAlerts",
+  CPD_SHORTFALL: "emailComplianceAlerts",
 };
 
 const NOTIFICATION_TYPE_TO_ORG_SMS_PREF: Record<NotificationType, keyof OrganizationNotificationPreference | null> = {
@@ -94,6 +106,9 @@ const NOTIFICATION_TYPE_TO_ORG_SMS_PREF: Record<NotificationType, keyof Organiza
   CAPA_OVERDUE: "smsCriticalAlerts",
   COMPLIANCE_ALERT: "smsCriticalAlerts",
   DOCUMENT_REVIEW_DUE: null,
+  DOCUMENT_APPROVAL_REQUIRED: null,
+  DOCUMENT_ACKNOWLEDGEMENT_REQUIRED: null,
+  INSURANCE_VERIFICATION_REQUEST: null,
   TESTIMONIAL_REQUEST: null,
   TESTIMONIAL_RECEIVED: null,
   TIER_CHANGE: "smsCriticalAlerts",
@@ -103,6 +118,7 @@ const NOTIFICATION_TYPE_TO_ORG_SMS_PREF: Record<NotificationType, keyof Organiza
   PROGRAMME_STATUS_CHANGE: "smsCriticalAlerts",
   CREDENTIAL_EXPIRY: "smsInsuranceAlerts",
   CREDENTIAL_STATUS_CHANGE: "smsCriticalAlerts",
+  CPD_SHORTFALL: null,
 };
 
 /**
@@ -510,6 +526,73 @@ export async function notifyInsuranceExpiry(params: {
   }
 }
 
+// Copy of an insurance expiry alert for the broker the member nominated
+export async function notifyBrokerInsuranceExpiry(params: {
+  organizationId: string;
+  businessName: string;
+  policyType: string;
+  policyNumber: string;
+  daysUntilExpiry: number;
+  brokerEmail: string;
+}): Promise<void> {
+  const {
+    organizationId,
+    businessName,
+    policyType,
+    policyNumber,
+    daysUntilExpiry,
+    brokerEmail,
+  } = params;
+
+  await createNotification({
+    organizationId,
+    type: "INSURANCE_EXPIRY",
+    channel: "EMAIL",
+    priority: daysUntilExpiry <= 30 ? "HIGH" : "NORMAL",
+    title: `Client Insurance Expiry - ${businessName}`,
+    message: `${businessName}'s ${policyType} policy ${policyNumber} expires in ${daysUntilExpiry} days. They need current cover to keep their RANZ certification; you are receiving this as their nominated broker.`,
+    recipient: brokerEmail,
+  });
+}
+
+// Ask a member's broker to confirm a policy through the tokenised link
+export async function notifyInsuranceVerificationRequest(params: {
+  organizationId: string;
+  businessName: string;
+  policyType: string;
+  policyNumber: string;
+  brokerEmail: string;
+  verificationUrl: string;
+  expiresAt: Date;
+}): Promise<void> {
+  const {
+    organizationId,
+    businessName,
+    policyType,
+    policyNumber,
+    brokerEmail,
+    verificationUrl,
+    expiresAt,
+  } = params;
+
+  const expires = expiresAt.toLocaleDateString("en-NZ", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+
+  await createNotification({
+    organizationId,
+    type: "INSURANCE_VERIFICATION_REQUEST",
+    channel: "EMAIL",
+    priority: "NORMAL",
+    title: `Please Confirm Insurance Cover - ${businessName}`,
+    message: `${businessName} has asked you, as their broker, to confirm their ${policyType} policy ${policyNumber} for their RANZ certification. Please check the policy details and cover amount and confirm or correct them. The link expires on ${expires}.`,
+    actionUrl: verificationUrl,
+    recipient: brokerEmail,
+  });
+}
+
 export async function notifyAuditScheduled(params: {
   organizationId: string;
   businessName: string;
@@ -625,6 +708,121 @@ export async function notifyComplianceAlert(params: {
   }
 }
 
+export async function notifyDocumentApprovalRequired(params: {
+  organizationId: string;
+  userId: string;
+  documentTitle: string;
+  stepName: string;
+  dueDate: Date | null;
+  approverEmail: string;
+  delegatedFromName?: string | null;
+}): Promise<void> {
+  const {
+    organizationId,
+    userId,
+    documentTitle,
+    stepName,
+    dueDate,
+    approverEmail,
+    delegatedFromName,
+  } = params;
+
+  const due = dueDate
+    ? ` by ${dueDate.toLocaleDateString("en-NZ", { day: "numeric", month: "long", year: "numeric" })}`
+    : "";
+  const onBehalf = delegatedFromName ? ` on behalf of ${delegatedFromName}` : "";
+
+  await createNotification({
+    organizationId,
+    userId,
+    type: "DOCUMENT_APPROVAL_REQUIRED",
+    channel: "EMAIL",
+    priority: "NORMAL",
+    title: "Document Approval Required",
+    message: `"${documentTitle}" is waiting for your ${stepName} approval${onBehalf}. Please review it${due}.`,
+    actionUrl: `${process.env.NEXT_PUBLIC_APP_URL}/documents`,
+    recipient: approverEmail,
+  });
+}
+
+// Ask a staff member to read and acknowledge a newly approved document.
+// Sent in-app (always) and by email (subject to preferences).
+export async function notifyDocumentAcknowledgementRequired(params: {
+  organizationId: string;
+  userId: string;
+  email: string;
+  documentTitle: string;
+  versionString: string;
+}): Promise<void> {
+  const { organizationId, userId, email, documentTitle, versionString } = params;
+
+  const content = {
+    organizationId,
+    userId,
+    type: "DOCUMENT_ACKNOWLEDGEMENT_REQUIRED" as const,
+    priority: "NORMAL" as const,
+    title: "Please Read and Acknowledge",
+    message: `Version ${versionString} of "${documentTitle}" has been approved. Please read it and confirm you have understood it.`,
+    actionUrl: `${process.env.NEXT_PUBLIC_APP_URL}/documents`,
+  };
+
+  await createNotification({ ...content, channel: "IN_APP" });
+  await createNotification({ ...content, channel: "EMAIL", recipient: email });
+}
+
+// Remind a staff member (and the business) of CPD outstanding before the cycle ends
+export async function notifyCpdShortfall(params: {
+  organizationId: string;
+  userId: string;
+  memberEmail: string;
+  memberName: string;
+  organizationEmail?: string | null;
+  pointsNeeded: number;
+  daysRemaining: number;
+  cycleEnd: Date;
+}): Promise<void> {
+  const {
+    organizationId,
+    userId,
+    memberEmail,
+    memberName,
+    organizationEmail,
+    pointsNeeded,
+    daysRemaining,
+    cycleEnd,
+  } = params;
+
+  const formattedDate = cycleEnd.toLocaleDateString("en-NZ", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+
+  const content = {
+    organizationId,
+    type: "CPD_SHORTFALL" as const,
+    channel: "EMAIL" as const,
+    priority: daysRemaining <= 30 ? ("HIGH" as const) : ("NORMAL" as const),
+    title: `CPD Points Outstanding - ${daysRemaining} Days Left`,
+    actionUrl: `${process.env.NEXT_PUBLIC_APP_URL}/staff`,
+  };
+
+  await createNotification({
+    ...content,
+    userId,
+    message: `You need ${pointsNeeded} more CPD point${pointsNeeded !== 1 ? "s" : ""} before your cycle ends on ${formattedDate}. Record completed training so your licence and your business's certification stay in good standing.`,
+    recipient: memberEmail,
+  });
+
+  if (organizationEmail && organizationEmail !== memberEmail) {
+    await createNotification({
+      ...content,
+      message: `${memberName} needs ${pointsNeeded} more CPD point${pointsNeeded !== 1 ? "s" : ""} before their cycle ends on ${formattedDate}. CPD shortfalls reduce your personnel compliance score.`,
+      recipient: organizationEmail,
+    });
+  }
+}
+
 // Process scheduled notifications (called by cron)
 export async function processScheduledNotifications(): Promise<number> {
   const pendingNotifications = await db.notification.findMany({
@@ -0,0 +1,388 @@
+/**
+ * Offline storage and sync for the auditor workspace (browser only).
+ *
+ * Audit packs, unsynced edits ("drafts") and captured photos live in
+ * IndexedDB so an auditor can keep working on site without a connection.
+ * syncAudit() uploads pending photos, sends drafts to the sync endpoint and
+ * keeps only what the server reported as conflicting.
+ */
+
+import type { ISOElement } from "@prisma/client";
+import type {
+  ChecklistChange,
+  ChecklistChangeResult,
+  ChecklistFieldValues,
+  FieldConflict,
+  SyncedField,
+} from "./audit-sync";
+import type { AuditPack } from "./auditor-workspace";
+
+const DB_NAME = "ranz-auditor";
+const DB_VERSION = 1;
+
+export interface AuditListEntry {
+  id: string;
+  auditNumber: string;
+  auditType: string;
+  status: string;
+  scheduledDate: string;
+  organization: { id: string; name: string; city: string | null };
+  questionCount: number;
+  answeredCount: number;
+}
+
+export interface AuditDraft {
+  key: string;
+  auditId: string;
+  isoElement: ISOElement;
+  questionNumber: number;
+  base: Partial<ChecklistFieldValues>;
+  changes: Partial<ChecklistFieldValues>;
+  conflicts: FieldConflict[];
+  updatedAt: string;
+}
+
+export interface OfflinePhoto {
+  clientId: string;
+  auditId: string;
+  isoElement: ISOElement;
+  questionNumber: number;
+  blob: Blob;
+  name: string;
+  uploadedKey: string | null;
+  createdAt: string;
+}
+
+export interface SyncSummary {
+  applied: number;
+  conflicts: number;
+  notFound: number;
+  photosUploaded: number;
+  pack: AuditPack;
+}
+
+export function draftKey(
+  auditId: string,
+  isoElement: ISOElement,
+  questionNumber: number
+): string {
+  return `${auditId}:${isoElement}:${questionNumber}`;
+}
+
+// --- IndexedDB plumbing ---
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore("packs", { keyPath: "audit.id" });
+      db.createObjectStore("lists");
+      db.createObjectStore("drafts", { keyPath: "key" }).createIndex("auditId", "auditId");
+      db.createObjectStore("photos", { keyPath: "clientId" }).createIndex("auditId", "auditId");
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = run(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+function getAllForAudit<T>(storeName: string, auditId: string): Promise<T[]> {
+  return withStore<T[]>(storeName, "readonly", (store) =>
+    store.index("auditId").getAll(auditId)
+  );
+}
+
+// --- Packs and the assigned audit list ---
+
+export function savePack(pack: AuditPack): Promise<IDBValidKey> {
+  return withStore("packs", "readwrite", (store) => store.put(pack));
+}
+
+export async function getPack(auditId: string): Promise<AuditPack | null> {
+  const pack = await withStore<AuditPack | undefined>("packs", "readonly", (store) =>
+    store.get(auditId)
+  );
+  return pack ?? null;
+}
+
+export function saveAuditList(audits: AuditListEntry[]): Promise<IDBValidKey> {
+  return withStore("lists", "readwrite", (store) => store.put(audits, "assigned"));
+}
+
+export async function getAuditList(): Promise<AuditListEntry[] | null> {
+  const audits = await withStore<AuditListEntry[] | undefined>("lists", "readonly", (store) =>
+    store.get("assigned")
+  );
+  return audits ?? null;
+}
+
+// --- Drafts ---
+
+export function getDrafts(auditId: string): Promise<AuditDraft[]> {
+  return getAllForAudit<AuditDraft>("drafts", auditId);
+}
+
+export function putDraft(draft: AuditDraft): Promise<IDBValidKey> {
+  return withStore("drafts", "readwrite", (store) => store.put(draft));
+}
+
+export function deleteDraft(key: string): Promise<undefined> {
+  return withStore("drafts", "readwrite", (store) => store.delete(key));
+}
+
+/**
+ * Record an edit to one field. The base value is captured the first time a
+ * field is edited so later syncs can detect concurrent server changes.
+ * Editing a field back to its base value drops it from the draft.
+ */
+export async function recordFieldChange(
+  existing: AuditDraft | undefined,
+  auditId: string,
+  isoElement: ISOElement,
+  questionNumber: number,
+  field: SyncedField,
+  value: string | null,
+  serverValues: ChecklistFieldValues
+): Promise<AuditDraft | null> {
+  const draft: AuditDraft = existing ?? {
+    key: draftKey(auditId, isoElement, questionNumber),
+    auditId,
+    isoElement,
+    questionNumber,
+    base: {},
+    changes: {},
+    conflicts: [],
+    updatedAt: new Date().toISOString(),
+  };
+
+  const base = field in draft.base ? draft.base[field] ?? null : serverValues[field];
+  const changes = { ...draft.changes };
+  const baseValues = { ...draft.base, [field]: base };
+
+  if (value === base && !draft.conflicts.some((c) => c.field === field)) {
+    delete changes[field];
+    delete baseValues[field];
+  } else {
+    Object.assign(changes, { [field]: value });
+  }
+
+  const next: AuditDraft = {
+    ...draft,
+    base: baseValues,
+    changes,
+    updatedAt: new Date().toISOString(),
+  };
+
+  if (Object.keys(changes).length === 0 && next.conflicts.length === 0) {
+    if (existing) await deleteDraft(next.key);
+    return null;
+  }
+
+  await putDraft(next);
+  return next;
+}
+
+/**
+ * Settle a conflicting field: keep the auditor's value (it is re-sent with
+ * the server's value as its new base) or accept the server's value.
+ */
+export async function resolveConflict(
+  draft: AuditDraft,
+  field: SyncedField,
+  keep: "mine" | "server"
+): Promise<AuditDraft | null> {
+  const conflict = draft.conflicts.find((c) => c.field === field);
+  if (!conflict) return draft;
+
+  const base = { ...draft.base };
+  const changes = { ...draft.changes };
+
+  if (keep === "mine") {
+    Object.assign(base, { [field]: conflict.serverValue });
+  } else {
+    delete base[field];
+    delete changes[field];
+  }
+
+  const next: AuditDraft = {
+    ...draft,
+    base,
+    changes,
+    conflicts: draft.conflicts.filter((c) => c.field !== field),
+    updatedAt: new Date().toISOString(),
+  };
+
+  if (Object.keys(changes).length === 0 && next.conflicts.length === 0) {
+    await deleteDraft(next.key);
+    return null;
+  }
+
+  await putDraft(next);
+  return next;
+}
+
+// --- Photos ---
+
+export function getPhotos(auditId: string): Promise<OfflinePhoto[]> {
+  return getAllForAudit<OfflinePhoto>("photos", auditId);
+}
+
+export async function addPhoto(
+  auditId: string,
+  isoElement: ISOElement,
+  questionNumber: number,
+  file: File
+): Promise<OfflinePhoto> {
+  const photo: OfflinePhoto = {
+    clientId: crypto.randomUUID(),
+    auditId,
+    isoElement,
+    questionNumber,
+    blob: file,
+    name: file.name || "photo.jpg",
+    uploadedKey: null,
+    createdAt: new Date().toISOString(),
+  };
+
+  await withStore("photos", "readwrite", (store) => store.put(photo));
+  return photo;
+}
+
+export function deletePhoto(clientId: string): Promise<undefined> {
+  return withStore("photos", "readwrite", (store) => store.delete(clientId));
+}
+
+// --- Sync ---
+
+async function readError(response: Response): Promise<string> {
+  const body = await response.json().catch(() => null);
+  return body?.error || `Request failed (${response.status})`;
+}
+
+/**
+ * Push everything captured offline for an audit. Photos are uploaded first;
+ * the upload records each one against its question, so the pack returned by
+ * the sync already lists them.
+ */
+export async function syncAudit(auditId: string): Promise<SyncSummary> {
+  let photosUploaded = 0;
+  const photos = await getPhotos(auditId);
+
+  for (const photo of photos) {
+    if (photo.uploadedKey) continue;
+
+    const formData = new FormData();
+    formData.append("file", photo.blob, photo.name);
+    formData.append("clientId", photo.clientId);
+    formData.append("isoElement", photo.isoElement);
+    formData.append("questionNumber", String(photo.questionNumber));
+
+    const response = await fetch(`/api/auditor/audits/${auditId}/evidence`, {
+      method: "POST",
+      body: formData,
+    });
+
+    if (!response.ok) {
+      throw new Error(await readError(response));
+    }
+
+    const { key } = await response.json();
+    photo.uploadedKey = key;
+    await withStore("photos", "readwrite", (store) => store.put(photo));
+    photosUploaded++;
+  }
+
+  const drafts = await getDrafts(auditId);
+  const changes: ChecklistChange[] = drafts.map((draft) => ({
+    isoElement: draft.isoElement,
+    questionNumber: draft.questionNumber,
+    base: draft.base,
+    changes: draft.changes,
+  }));
+
+  const response = await fetch(`/api/auditor/audits/${auditId}/sync`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ changes }),
+  });
+
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+
+  const { results, pack } = (await response.json()) as {
+    results: ChecklistChangeResult[];
+    pack: AuditPack;
+  };
+
+  await savePack(pack);
+
+  for (const photo of photos) {
+    await deletePhoto(photo.clientId);
+  }
+
+  let applied = 0;
+  let conflicts = 0;
+  let notFound = 0;
+
+  for (const result of results) {
+    const key = draftKey(auditId, result.isoElement, result.questionNumber);
+    const draft = drafts.find((d) => d.key === key);
+
+    // The question is not on this audit; keep the answer on the device
+    if (result.status === "not_found") {
+      notFound++;
+      continue;
+    }
+
+    if (result.status === "applied") {
+      applied++;
+      if (draft) await deleteDraft(key);
+      continue;
+    }
+
+    conflicts++;
+    if (!draft) continue;
+
+    // Non-conflicting fields were applied; keep only the contested ones
+    const contested = new Set(result.conflicts.map((c) => c.field));
+    const changes: Partial<ChecklistFieldValues> = {};
+    const base: Partial<ChecklistFieldValues> = {};
+    for (const field of contested) {
+      Object.assign(changes, { [field]: draft.changes[field] ?? null });
+      Object.assign(base, { [field]: draft.base[field] ?? null });
+    }
+
+    await putDraft({
+      ...draft,
+      base,
+      changes,
+      conflicts: result.conflicts,
+      updatedAt: new Date().toISOString(),
+    });
+  }
+
+  return { applied, conflicts, notFound, photosUploaded, pack };
+}
@@ -0,0 +1,171 @@
+import exifr from "exifr";
+import sharp from "sharp";
+
+/**
+ * Project photo processing: EXIF metadata extraction and thumbnail generation.
+ *
+ * Photos are uploaded straight to R2 from the browser; the server then reads
+ * the object back once to extract GPS/capture time/device and store a
+ * thumbnail next to the original.
+ */
+
+// HEIC is not listed: browsers can't display it and sharp's prebuilt
+// binaries can't decode it. iOS converts to JPEG when picking from a browser.
+export const PHOTO_MIME_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+export const MAX_PHOTO_SIZE_BYTES = 25 * 1024 * 1024; // 25MB
+
+const THUMBNAIL_WIDTH = 480;
+
+export interface PhotoMetadata {
+  capturedAt?: Date;
+  latitude?: number;
+  longitude?: number;
+  deviceInfo?: string;
+}
+
+// EXIF timestamps have no zone unless OffsetTimeOriginal is present.
+// Crews shoot in New Zealand, so zone-less times are read as NZ local time.
+const DEFAULT_PHOTO_TIMEZONE = "Pacific/Auckland";
+
+function timezoneOffset(date: Date, timeZone: string): string {
+  const part = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    timeZoneName: "longOffset",
+  })
+    .formatToParts(date)
+    .find((p) => p.type === "timeZoneName")?.value;
+
+  // "GMT+13:00" -> "+13:00"; plain "GMT" means UTC
+  const offset = part?.replace("GMT", "");
+  return offset ? offset : "+00:00";
+}
+
+/**
+ * Parse an EXIF "YYYY:MM:DD HH:MM:SS" timestamp.
+ */
+export function parseExifDate(value: unknown, offset?: unknown): Date | undefined {
+  if (typeof value !== "string") return undefined;
+
+  const match = value.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return undefined;
+
+  const [, year, month, day, hour, minute, second] = match;
+  const local = `${year}-${month}-${day}T${hour}:${minute}:${second}`;
+
+  // Cameras write 0000:00:00 00:00:00 when the clock was never set
+  if (year === "0000") return undefined;
+
+  let zone = typeof offset === "string" && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : undefined;
+  if (!zone) {
+    // Resolve the NZ offset for that wall-clock time (handles daylight saving)
+    zone = timezoneOffset(new Date(`${local}Z`), DEFAULT_PHOTO_TIMEZONE);
+  }
+
+  const date = new Date(`${local}${zone}`);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+function isValidCoordinate(latitude: unknown, longitude: unknown): boolean {
+  return (
+    typeof latitude === "number" &&
+    typeof longitude === "number" &&
+    Number.isFinite(latitude) &&
+    Number.isFinite(longitude) &&
+    Math.abs(latitude) <= 90 &&
+    Math.abs(longitude) <= 180 &&
+    // 0,0 is what many devices write when there was no GPS fix
+    !(latitude === 0 && longitude === 0)
+  );
+}
+
+/**
+ * Extract capture time, GPS position and device from a photo's EXIF data.
+ * Photos without EXIF (screenshots, stripped images) return an empty object.
+ */
+export async function extractPhotoMetadata(buffer: Buffer): Promise<PhotoMetadata> {
+  const metadata: PhotoMetadata = {};
+
+  try {
+    const exif = await exifr.parse(buffer, {
+      tiff: true,
+      exif: true,
+      gps: true,
+      ifd1: false,
+      xmp: false,
+      icc: false,
+      iptc: false,
+      jfif: false,
+      reviveValues: false, // We parse dates ourselves to apply the right zone
+    });
+
+    if (exif) {
+      metadata.capturedAt =
+        parseExifDate(exif.DateTimeOriginal, exif.OffsetTimeOriginal) ??
+        parseExifDate(exif.CreateDate, exif.OffsetTimeDigitized) ??
+        parseExifDate(exif.ModifyDate, exif.OffsetTime);
+
+      if (isValidCoordinate(exif.latitude, exif.longitude)) {
+        metadata.latitude = Math.round(exif.latitude * 1e6) / 1e6;
+        metadata.longitude = Math.round(exif.longitude * 1e6) / 1e6;
+      }
+
+      const make = typeof exif.Make === "string" ? exif.Make.trim() : "";
+      const model = typeof exif.Model === "string" ? exif.Model.trim() : "";
+      // Many models already start with the make ("Apple iPhone" vs "iPhone 15 Pro")
+      const device = model.toLowerCase().startsWith(make.toLowerCase())
+        ? model
+        : [make, model].filter(Boolean).join(" ");
+      if (device) {
+        metadata.deviceInfo = device.slice(0, 200);
+      }
+    }
+  } catch (error) {
+    // Corrupt or unsupported EXIF should never block the upload
+    console.warn("Failed to parse photo EXIF:", error);
+  }
+
+  return metadata;
+}
+
+/**
+ * Decode the image header to confirm the uploaded bytes really are one of the
+ * allowed formats (the client-declared content type is not trusted).
+ * Returns the matching MIME type, or null if the file is not a supported image.
+ */
+export async function detectPhotoMimeType(buffer: Buffer): Promise<string | null> {
+  try {
+    const { format } = await sharp(buffer).metadata();
+    const mimeType = format === "jpeg" ? "image/jpeg" : `image/${format}`;
+    return PHOTO_MIME_TYPES.includes(mimeType) ? mimeType : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Generate a WebP thumbnail, rotated according to the EXIF orientation.
+ * Thumbnails carry no EXIF, so location data is not leaked through them.
+ * PDFs ask for JPEG because react-pdf cannot embed WebP.
+ */
+export async function generateThumbnail(
+  buffer: Buffer,
+  format: "webp" | "jpeg" = "webp"
+): Promise<Buffer> {
+  const image = sharp(buffer)
+    .rotate()
+    .resize({ width: THUMBNAIL_WIDTH, height: THUMBNAIL_WIDTH, fit: "inside", withoutEnlargement: true });
+
+  return format === "jpeg"
+    ? image.jpeg({ quality: 75 }).toBuffer()
+    : image.webp({ quality: 75 }).toBuffer();
+}
+
+/**
+ * Strip path characters and anything unusual from a client-supplied file name
+ * before it becomes part of an R2 key.
+ */
+export function sanitizeFileName(fileName: string): string {
+  const base = fileName.split(/[\\/]/).pop() || "photo";
+  return base.replace(/[^a-zA-Z0-9._-]+/g, "-").replace(/-+/g, "-").slice(-100) || "photo";
+}
@@ -88,6 +88,15 @@ export async function addProjectPhoto(params: AddProjectPhotoParams) {
   });
 }
 
+// R2 prefix (without the "portal/" root) that direct uploads for a project
+// must land under. Registering a photo outside it is rejected.
+export function getProjectPhotoKeyPrefix(
+  organizationId: string,
+  projectId: string
+): string {
+  return `projects/${organizationId}/${projectId}/photos/`;
+}
+
 export async function getProjectWithDetails(projectId: string) {
   return db.project.findUnique({
     where: { id: projectId },
@@ -2,6 +2,7 @@ import {
   S3Client,
   PutObjectCommand,
   GetObjectCommand,
+  HeadObjectCommand,
   DeleteObjectCommand,
 } from "@aws-sdk/client-s3";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
@@ -39,11 +40,15 @@ export async function uploadToR2(
 
 export async function getSignedDownloadUrl(
   key: string,
-  expiresIn = 3600
+  expiresIn = 3600,
+  downloadFileName?: string
 ): Promise<string> {
   const command = new GetObjectCommand({
     Bucket: R2_BUCKET_NAME,
     Key: key,
+    ResponseContentDisposition: downloadFileName
+      ? `attachment; filename="${downloadFileName}"`
+      : undefined,
   });
 
   return getSignedUrl(r2Client, command, { expiresIn });
@@ -63,6 +68,35 @@ export async function getSignedUploadUrl(
   return getSignedUrl(r2Client, command, { expiresIn });
 }
 
+export async function getObjectFromR2(key: string): Promise<Buffer> {
+  const response = await r2Client.send(
+    new GetObjectCommand({
+      Bucket: R2_BUCKET_NAME,
+      Key: key,
+    })
+  );
+
+  if (!response.Body) {
+    throw new Error(`R2 object not found: ${key}`);
+  }
+
+  return Buffer.from(await response.Body.transformToByteArray());
+}
+
+/**
+ * Size in bytes of a stored object, read without downloading it.
+ */
+export async function getObjectSizeFromR2(key: string): Promise<number> {
+  const response = await r2Client.send(
+    new HeadObjectCommand({
+      Bucket: R2_BUCKET_NAME,
+      Key: key,
+    })
+  );
+
+  return response.ContentLength ?? 0;
+}
+
 export async function deleteFromR2(key: string): Promise<void> {
   await r2Client.send(
     new DeleteObjectCommand({
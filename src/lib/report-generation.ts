@@ -0,0 +1,349 @@
+import { renderToBuffer } from "@react-pdf/renderer";
+import ExcelJS from "exceljs";
+import Papa from "papaparse";
+import { db } from "@/lib/db";
+import { generateReport } from "@/lib/reports";
+import { uploadToR2 } from "@/lib/r2";
+import { GeneratedReportPDF } from "@/components/reports/pdf/generated-report";
+import type { Report, ReportFormat } from "@prisma/client";
+import type { CertificationTier } from "@/types";
+
+/**
+ * Background report generation.
+ *
+ * JSON reports are returned inline by POST /api/admin/reports. Every other
+ * format is stored as a PENDING Report row and rendered here, either straight
+ * after the request (via `after()`) or by the /api/cron/reports worker.
+ *
+ * Lifecycle: PENDING -> GENERATING -> COMPLETED | FAILED
+ */
+
+// Reports stuck in GENERATING longer than this are assumed to belong to a
+// worker that died (e.g. a function timeout) and are re-queued.
+const STALE_GENERATION_MS = 15 * 60 * 1000;
+
+const MAX_REPORTS_PER_RUN = 10;
+
+export interface ReportParameters {
+  startDate?: string;
+  endDate?: string;
+  tier?: CertificationTier;
+  organizationId?: string;
+}
+
+export type ReportCell = string | number | null;
+
+export interface ReportTable {
+  title: string;
+  columns: string[];
+  rows: ReportCell[][];
+}
+
+interface RenderedReport {
+  body: Buffer;
+  contentType: string;
+  extension: string;
+}
+
+// ============================================================================
+// Tabulation
+// ============================================================================
+
+function humanize(key: string): string {
+  if (/^[A-Z0-9_]+$/.test(key)) {
+    return key.replace(/_/g, " ");
+  }
+  const spaced = key.replace(/([a-z0-9])([A-Z])/g, "$1 $2");
+  return spaced.charAt(0).toUpperCase() + spaced.slice(1);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function toCell(value: unknown): ReportCell {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "number") return Math.round(value * 100) / 100;
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (value instanceof Date) return value.toISOString().split("T")[0];
+  if (Array.isArray(value)) return value.map((v) => String(toCell(v) ?? "")).join(", ");
+  if (isPlainObject(value)) return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Converts the nested object returned by generateReport() into flat tables
+ * that every output format can render:
+ * - top-level scalars become a "Summary" metric/value table
+ * - arrays of objects become one table each (columns = union of keys)
+ * - objects of scalars (e.g. byStatus counts) become two-column tables
+ * - deeper objects recurse with a "Parent - Child" title
+ */
+export function tabulateReportData(data: unknown, title = "Summary"): ReportTable[] {
+  if (Array.isArray(data)) {
+    return [tabulateArray(title, data)];
+  }
+  if (!isPlainObject(data)) {
+    return [{ title, columns: ["Value"], rows: [[toCell(data)]] }];
+  }
+
+  const summaryRows: ReportCell[][] = [];
+  const tables: ReportTable[] = [];
+
+  for (const [key, value] of Object.entries(data)) {
+    if (Array.isArray(value) && value.some(isPlainObject)) {
+      tables.push(tabulateArray(humanize(key), value));
+    } else if (isPlainObject(value)) {
+      const nestedTitle = title === "Summary" ? humanize(key) : `${title} - ${humanize(key)}`;
+      const entries = Object.entries(value);
+      if (entries.every(([, v]) => !isPlainObject(v) && !Array.isArray(v))) {
+        tables.push({
+          title: nestedTitle,
+          columns: ["Item", "Value"],
+          rows: entries.map(([k, v]) => [humanize(k), toCell(v)]),
+        });
+      } else {
+        tables.push(...tabulateReportData(value, nestedTitle));
+      }
+    } else {
+      summaryRows.push([humanize(key), toCell(value)]);
+    }
+  }
+
+  if (summaryRows.length > 0) {
+    tables.unshift({ title, columns: ["Metric", "Value"], rows: summaryRows });
+  }
+
+  return tables;
+}
+
+function tabulateArray(title: string, items: unknown[]): ReportTable {
+  const keys: string[] = [];
+  for (const item of items) {
+    if (!isPlainObject(item)) continue;
+    for (const key of Object.keys(item)) {
+      if (!keys.includes(key)) keys.push(key);
+    }
+  }
+
+  if (keys.length === 0) {
+    return { title, columns: ["Value"], rows: items.map((item) => [toCell(item)]) };
+  }
+
+  return {
+    title,
+    columns: keys.map(humanize),
+    rows: items.map((item) =>
+      keys.map((key) => (isPlainObject(item) ? toCell(item[key]) : null))
+    ),
+  };
+}
+
+// ============================================================================
+// Renderers
+// ============================================================================
+
+function describeParameters(params: ReportParameters): Array<{ label: string; value: string }> {
+  const described: Array<{ label: string; value: string }> = [];
+  if (params.startDate) described.push({ label: "From", value: params.startDate.split("T")[0] });
+  if (params.endDate) described.push({ label: "To", value: params.endDate.split("T")[0] });
+  if (params.tier) described.push({ label: "Tier", value: humanize(params.tier) });
+  if (params.organizationId) described.push({ label: "Organisation", value: params.organizationId });
+  return described;
+}
+
+export function renderReportCSV(tables: ReportTable[]): string {
+  // Single-table reports (e.g. member directory) stay importable as-is;
+  // multi-table reports get a title line above each block.
+  if (tables.length === 1) {
+    return Papa.unparse({ fields: tables[0].columns, data: tables[0].rows });
+  }
+
+  return tables
+    .map(
+      (table) =>
+        `${Papa.unparse([[table.title]])}\n${Papa.unparse({ fields: table.columns, data: table.rows })}`
+    )
+    .join("\n\n");
+}
+
+export async function renderReportXLSX(title: string, tables: ReportTable[]): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = "RANZ Quality Program";
+  workbook.title = title;
+  workbook.created = new Date();
+
+  const usedNames = new Set<string>();
+
+  for (const table of tables) {
+    // Excel sheet names: max 31 chars, no []:*?/\ and must be unique
+    const baseName = table.title.replace(/[[\]:*?/\\]/g, "").slice(0, 28) || "Sheet";
+    let sheetName = baseName;
+    let suffix = 2;
+    while (usedNames.has(sheetName.toLowerCase())) {
+      sheetName = `${baseName} ${suffix++}`;
+    }
+    usedNames.add(sheetName.toLowerCase());
+
+    const sheet = workbook.addWorksheet(sheetName);
+    sheet.addRow(table.columns).font = { bold: true };
+    for (const row of table.rows) {
+      sheet.addRow(row);
+    }
+    sheet.columns.forEach((column, index) => {
+      const longest = Math.max(
+        table.columns[index]?.length ?? 0,
+        ...table.rows.map((row) => String(row[index] ?? "").length)
+      );
+      column.width = Math.min(Math.max(longest + 2, 10), 60);
+    });
+    sheet.views = [{ state: "frozen", ySplit: 1 }];
+  }
+
+  const arrayBuffer = await workbook.xlsx.writeBuffer();
+  return Buffer.from(arrayBuffer as ArrayBuffer);
+}
+
+async function renderReport(
+  report: Pick<Report, "id" | "title" | "format">,
+  params: ReportParameters,
+  tables: ReportTable[]
+): Promise<RenderedReport> {
+  switch (report.format) {
+    case "PDF": {
+      const pdf = await renderToBuffer(
+        GeneratedReportPDF({
+          title: report.title,
+          parameters: describeParameters(params),
+          tables,
+          generatedAt: new Date(),
+          reportId: report.id,
+        })
+      );
+      return { body: Buffer.from(pdf), contentType: "application/pdf", extension: "pdf" };
+    }
+    case "CSV":
+      return {
+        body: Buffer.from(renderReportCSV(tables), "utf-8"),
+        contentType: "text/csv; charset=utf-8",
+        extension: "csv",
+      };
+    case "XLSX":
+      return {
+        body: await renderReportXLSX(report.title, tables),
+        contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        extension: "xlsx",
+      };
+    default:
+      throw new Error(`Unsupported report format: ${report.format}`);
+  }
+}
+
+export const REPORT_FILE_EXTENSIONS: Record<Exclude<ReportFormat, "JSON">, string> = {
+  PDF: "pdf",
+  CSV: "csv",
+  XLSX: "xlsx",
+};
+
+// ============================================================================
+// Worker
+// ============================================================================
+
+/**
+ * Generates a single queued report and stores the file in R2.
+ *
+ * The PENDING -> GENERATING transition is a conditional update, so the
+ * request-time trigger and the cron worker can race without rendering the
+ * same report twice. Returns false if the report was not claimed or failed.
+ */
+export async function processReport(reportId: string): Promise<boolean> {
+  const claimed = await db.report.updateMany({
+    where: { id: reportId, status: "PENDING", format: { not: "JSON" } },
+    data: { status: "GENERATING", generationStartedAt: new Date(), errorMessage: null },
+  });
+
+  if (claimed.count === 0) return false;
+
+  const report = await db.report.findUniqueOrThrow({ where: { id: reportId } });
+
+  try {
+    const params = (report.parameters ?? {}) as ReportParameters;
+
+    const data = await generateReport(report.reportType, {
+      startDate: params.startDate ? new Date(params.startDate) : undefined,
+      endDate: params.endDate ? new Date(params.endDate) : undefined,
+      tier: params.tier,
+      organizationId: params.organizationId,
+    });
+
+    const tables = tabulateReportData(data);
+    const rendered = await renderReport(report, params, tables);
+
+    const storageKey = await uploadToR2(
+      rendered.body,
+      `reports/${report.reportType.toLowerCase()}/${report.id}.${rendered.extension}`,
+      rendered.contentType
+    );
+
+    await db.report.update({
+      where: { id: report.id },
+      data: {
+        status: "COMPLETED",
+        storageKey,
+        generatedAt: new Date(),
+        errorMessage: null,
+      },
+    });
+
+    return true;
+  } catch (error) {
+    console.error(`Failed to generate report ${report.id}:`, error);
+
+    await db.report.update({
+      where: { id: report.id },
+      data: {
+        status: "FAILED",
+        errorMessage: error instanceof Error ? error.message : String(error),
+      },
+    });
+
+    return false;
+  }
+}
+
+/**
+ * Processes queued reports oldest-first. Called from the reports cron job.
+ */
+export async function processPendingReports(
+  limit = MAX_REPORTS_PER_RUN
+): Promise<{ requeued: number; completed: number; failed: number }> {
+  // Re-queue reports whose worker never finished
+  const { count: requeued } = await db.report.updateMany({
+    where: {
+      status: "GENERATING",
+      generationStartedAt: { lt: new Date(Date.now() - STALE_GENERATION_MS) },
+    },
+    data: { status: "PENDING", generationStartedAt: null },
+  });
+
+  const pending = await db.report.findMany({
+    where: { status: "PENDING", format: { not: "JSON" } },
+    orderBy: { createdAt: "asc" },
+    take: limit,
+    select: { id: true },
+  });
+
+  let completed = 0;
+  let failed = 0;
+
+  // Sequential on purpose: PDF rendering is memory-heavy
+  for (const { id } of pending) {
+    if (await processReport(id)) {
+      completed++;
+    } else {
+      failed++;
+    }
+  }
+
+  return { requeued, completed, failed };
+}
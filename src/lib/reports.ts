@@ -1,6 +1,10 @@
 import { db } from "@/lib/db";
 import type { ReportType, CertificationTier } from "@/types";
 import { COMPLIANCE_THRESHOLDS } from "@/types";
+import {
+  getMonthlyComplianceAverages,
+  type MonthlyComplianceAverage,
+} from "@/lib/compliance-history";
 
 interface ComplianceSummaryData {
   totalMembers: number;
@@ -27,6 +31,7 @@ interface ComplianceSummaryData {
     someUnverified: number;
     noneVerified: number;
   };
+  scoreTrend: MonthlyComplianceAverage[]; // From compliance snapshots, last 12 months
 }
 
 interface MemberDirectoryData {
@@ -61,6 +66,66 @@ interface AuditSummaryData {
   }>;
 }
 
+interface TestimonialSummaryData {
+  totals: {
+    total: number;
+    verified: number;
+    approved: number;
+    featured: number;
+    averageRating: number | null;
+  };
+  rates: {
+    verificationRate: number; // % of all testimonials submitted by the client
+    approvalRate: number; // % of verified testimonials approved for display
+    projectLinkedRate: number; // % of verified testimonials tied to a completed project
+  };
+  requestConversion: {
+    requested: number;
+    responded: number;
+    conversionRate: number;
+    avgDaysToRespond: number | null;
+    outstanding: number;
+    outstandingOver30Days: number;
+    uniqueRecipients: number;
+  };
+  ratingDistribution: Record<string, number>;
+  byTier: Array<{
+    tier: CertificationTier;
+    organizations: number;
+    testimonials: number;
+    verified: number;
+    averageRating: number | null;
+  }>;
+  byOrganization: Array<{
+    organizationId: string;
+    organizationName: string;
+    tier: CertificationTier;
+    requested: number;
+    verified: number;
+    approved: number;
+    averageRating: number | null;
+    completedProjectLinks: number;
+  }>;
+  ratingTrend: Array<{
+    month: string;
+    count: number;
+    averageRating: number;
+  }>;
+  caseStudyCandidates: Array<{
+    testimonialId: string;
+    organizationName: string;
+    tier: CertificationTier;
+    projectNumber: string;
+    projectType: string;
+    city: string | null;
+    rating: number;
+    title: string | null;
+    approved: boolean;
+    featured: boolean;
+    verifiedAt: string | null;
+  }>;
+}
+
 export async function generateReport(
   reportType: ReportType,
   options?: {
@@ -85,6 +150,8 @@ export async function generateReport(
       return generateCAPASummary(options);
     case "PROJECT_PORTFOLIO":
       return generateProjectPortfolio(options);
+    case "TESTIMONIAL_SUMMARY":
+      return generateTestimonialSummary(options);
     case "TIER_ANALYSIS":
       return generateTierAnalysis(options);
     default:
@@ -207,6 +274,11 @@ async function generateComplianceSummary(options?: {
     .sort((a, b) => a.avgScore - b.avgScore)
     .slice(0, 5);
 
+  const scoreTrend = await getMonthlyComplianceAverages({
+    months: 12,
+    tier: options?.tier,
+  });
+
   return {
     totalMembers: organizations.length,
     byTier,
@@ -216,6 +288,7 @@ async function generateComplianceSummary(options?: {
     topIssues,
     insuranceStatus,
     lbpStatus,
+    scoreTrend,
   };
 }
 
@@ -606,6 +679,241 @@ async function generateProjectPortfolio(options?: {
   };
 }
 
+async function generateTestimonialSummary(options?: {
+  organizationId?: string;
+  startDate?: Date;
+  endDate?: Date;
+  tier?: CertificationTier;
+}): Promise<TestimonialSummaryData> {
+  const where: Record<string, unknown> = {};
+  if (options?.organizationId) where.organizationId = options.organizationId;
+  if (options?.tier) where.organization = { certificationTier: options.tier };
+  if (options?.startDate || options?.endDate) {
+    where.createdAt = {};
+    if (options.startDate)
+      (where.createdAt as Record<string, Date>).gte = options.startDate;
+    if (options.endDate)
+      (where.createdAt as Record<string, Date>).lte = options.endDate;
+  }
+
+  const testimonials = await db.testimonial.findMany({
+    where,
+    select: {
+      id: true,
+      organizationId: true,
+      rating: true,
+      title: true,
+      verified: true,
+      verifiedAt: true,
+      approved: true,
+      featured: true,
+      requestedAt: true,
+      requestSentTo: true,
+      createdAt: true,
+      organization: {
+        select: { name: true, certificationTier: true },
+      },
+      project: {
+        select: {
+          projectNumber: true,
+          projectType: true,
+          status: true,
+          city: true,
+        },
+      },
+    },
+  });
+
+  const now = new Date();
+  const dayMs = 24 * 60 * 60 * 1000;
+  const average = (values: number[]) =>
+    values.length > 0
+      ? Math.round((values.reduce((a, b) => a + b, 0) / values.length) * 10) / 10
+      : null;
+  const percent = (part: number, whole: number) =>
+    whole > 0 ? Math.round((part / whole) * 1000) / 10 : 0;
+
+  // Requested testimonials are created with rating 0 and empty content until
+  // the client submits via their verification link, which sets verified.
+  const verified = testimonials.filter((t) => t.verified);
+  const approved = verified.filter((t) => t.approved);
+  const linkedToCompletedProject = verified.filter(
+    (t) => t.project?.status === "COMPLETED"
+  );
+
+  // Request-to-response conversion
+  const requested = testimonials.filter((t) => t.requestedAt);
+  const responded = requested.filter((t) => t.verified && t.verifiedAt);
+  const outstanding = requested.filter((t) => !t.verified);
+  const responseDays = responded.map(
+    (t) => (t.verifiedAt!.getTime() - t.requestedAt!.getTime()) / dayMs
+  );
+  const uniqueRecipients = new Set(
+    requested
+      .map((t) => t.requestSentTo?.toLowerCase())
+      .filter((email): email is string => !!email)
+  ).size;
+
+  // Rating distribution (1-5 stars, verified only)
+  const ratingDistribution: Record<string, number> = {
+    "1": 0,
+    "2": 0,
+    "3": 0,
+    "4": 0,
+    "5": 0,
+  };
+  for (const t of verified) {
+    if (t.rating >= 1 && t.rating <= 5) {
+      ratingDistribution[String(t.rating)]++;
+    }
+  }
+
+  // Per-organisation breakdown
+  const orgData: Record<
+    string,
+    {
+      name: string;
+      tier: CertificationTier;
+      requested: number;
+      ratings: number[];
+      approved: number;
+      completedProjectLinks: number;
+    }
+  > = {};
+
+  for (const t of testimonials) {
+    if (!orgData[t.organizationId]) {
+      orgData[t.organizationId] = {
+        name: t.organization.name,
+        tier: t.organization.certificationTier,
+        requested: 0,
+        ratings: [],
+        approved: 0,
+        completedProjectLinks: 0,
+      };
+    }
+    const org = orgData[t.organizationId];
+    if (t.requestedAt) org.requested++;
+    if (t.verified) {
+      org.ratings.push(t.rating);
+      if (t.approved) org.approved++;
+      if (t.project?.status === "COMPLETED") org.completedProjectLinks++;
+    }
+  }
+
+  const byOrganization = Object.entries(orgData)
+    .map(([organizationId, org]) => ({
+      organizationId,
+      organizationName: org.name,
+      tier: org.tier,
+      requested: org.requested,
+      verified: org.ratings.length,
+      approved: org.approved,
+      averageRating: average(org.ratings),
+      completedProjectLinks: org.completedProjectLinks,
+    }))
+    .sort((a, b) => b.verified - a.verified || a.organizationName.localeCompare(b.organizationName));
+
+  // Per-tier breakdown
+  const tiers: CertificationTier[] = options?.tier
+    ? [options.tier]
+    : ["MASTER_ROOFER", "CERTIFIED", "ACCREDITED"];
+
+  const byTier = tiers.map((tier) => {
+    const tierTestimonials = testimonials.filter(
+      (t) => t.organization.certificationTier === tier
+    );
+    const tierVerified = tierTestimonials.filter((t) => t.verified);
+    return {
+      tier,
+      organizations: new Set(tierTestimonials.map((t) => t.organizationId)).size,
+      testimonials: tierTestimonials.length,
+      verified: tierVerified.length,
+      averageRating: average(tierVerified.map((t) => t.rating)),
+    };
+  });
+
+  // Monthly average rating (by verification date)
+  const monthlyData: Record<string, number[]> = {};
+  for (const t of verified) {
+    const month = (t.verifiedAt ?? t.createdAt).toISOString().slice(0, 7); // YYYY-MM
+    if (!monthlyData[month]) monthlyData[month] = [];
+    monthlyData[month].push(t.rating);
+  }
+
+  const ratingTrend = Object.entries(monthlyData)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .slice(-12) // Last 12 months
+    .map(([month, ratings]) => ({
+      month,
+      count: ratings.length,
+      averageRating: average(ratings) ?? 0,
+    }));
+
+  // Case study candidates: verified 4-5 star testimonials on completed
+  // projects, Master Roofers first
+  const tierRank: Record<CertificationTier, number> = {
+    MASTER_ROOFER: 0,
+    CERTIFIED: 1,
+    ACCREDITED: 2,
+  };
+
+  const caseStudyCandidates = linkedToCompletedProject
+    .filter((t) => t.rating >= 4)
+    .sort(
+      (a, b) =>
+        tierRank[a.organization.certificationTier] -
+          tierRank[b.organization.certificationTier] ||
+        b.rating - a.rating ||
+        (b.verifiedAt?.getTime() ?? 0) - (a.verifiedAt?.getTime() ?? 0)
+    )
+    .slice(0, 25)
+    .map((t) => ({
+      testimonialId: t.id,
+      organizationName: t.organization.name,
+      tier: t.organization.certificationTier,
+      projectNumber: t.project!.projectNumber,
+      projectType: t.project!.projectType,
+      city: t.project!.city,
+      rating: t.rating,
+      title: t.title,
+      approved: t.approved,
+      featured: t.featured,
+      verifiedAt: t.verifiedAt?.toISOString().split("T")[0] || null,
+    }));
+
+  return {
+    totals: {
+      total: testimonials.length,
+      verified: verified.length,
+      approved: approved.length,
+      featured: approved.filter((t) => t.featured).length,
+      averageRating: average(verified.map((t) => t.rating)),
+    },
+    rates: {
+      verificationRate: percent(verified.length, testimonials.length),
+      approvalRate: percent(approved.length, verified.length),
+      projectLinkedRate: percent(linkedToCompletedProject.length, verified.length),
+    },
+    requestConversion: {
+      requested: requested.length,
+      responded: responded.length,
+      conversionRate: percent(responded.length, requested.length),
+      avgDaysToRespond: average(responseDays),
+      outstanding: outstanding.length,
+      outstandingOver30Days: outstanding.filter(
+        (t) => now.getTime() - t.requestedAt!.getTime() > 30 * dayMs
+      ).length,
+      uniqueRecipients,
+    },
+    ratingDistribution,
+    byTier,
+    byOrganization,
+    ratingTrend,
+    caseStudyCandidates,
+  };
+}
+
 async function generateTierAnalysis(options?: { tier?: CertificationTier }) {
   const tiers: CertificationTier[] = options?.tier
     ? [options.tier]
@@ -0,0 +1,149 @@
+import { z } from "zod/v4";
+import type { CertificationTier, ScoringPolicy } from "@prisma/client";
+import { db } from "./db";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+// Type aliases rather than interfaces so rules can be stored in a Json column
+export type TierRequirement = {
+  minScore: number;
+  minVerifiedLbp: number;
+  allowCriticalIssues: boolean;
+};
+
+export type ScoringRules = {
+  categoryWeights: {
+    documentation: number;
+    insurance: number;
+    personnel: number;
+    audit: number;
+  };
+  tiers: Record<Exclude<CertificationTier, "ACCREDITED">, TierRequirement>;
+  // Personnel points deducted when any LBP holder missed their last CPD cycle
+  cpdShortfallPenalty: number;
+};
+
+export interface ResolvedScoringPolicy {
+  id: string | null;
+  version: number;
+  name: string;
+  effectiveFrom: Date | null;
+  rules: ScoringRules;
+}
+
+// ============================================================================
+// Defaults
+// ============================================================================
+
+/**
+ * Rules used when no scoring policy has been published yet. These match the
+ * weights and thresholds the compliance engine shipped with.
+ */
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+  categoryWeights: {
+    documentation: 0.5,
+    insurance: 0.25,
+    personnel: 0.15,
+    audit: 0.1,
+  },
+  tiers: {
+    CERTIFIED: { minScore: 70, minVerifiedLbp: 0, allowCriticalIssues: false },
+    MASTER_ROOFER: { minScore: 90, minVerifiedLbp: 2, allowCriticalIssues: false },
+  },
+  cpdShortfallPenalty: 10,
+};
+
+export const DEFAULT_POLICY_VERSION = 0;
+
+const DEFAULT_POLICY: ResolvedScoringPolicy = {
+  id: null,
+  version: DEFAULT_POLICY_VERSION,
+  name: "Built-in defaults",
+  effectiveFrom: null,
+  rules: DEFAULT_SCORING_RULES,
+};
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+const weightSchema = z.number().min(0).max(1);
+
+const tierRequirementSchema = z.object({
+  minScore: z.number().int().min(0).max(100),
+  minVerifiedLbp: z.number().int().min(0).max(50),
+  allowCriticalIssues: z.boolean(),
+});
+
+export const scoringRulesSchema = z
+  .object({
+    categoryWeights: z.object({
+      documentation: weightSchema,
+      insurance: weightSchema,
+      personnel: weightSchema,
+      audit: weightSchema,
+    }),
+    tiers: z.object({
+      CERTIFIED: tierRequirementSchema,
+      MASTER_ROOFER: tierRequirementSchema,
+    }),
+    // Versions published before the penalty was configurable applied 10
+    cpdShortfallPenalty: z.number().int().min(0).max(100).default(10),
+  })
+  .refine(
+    (rules) => {
+      const total = Object.values(rules.categoryWeights).reduce(
+        (sum, w) => sum + w,
+        0
+      );
+      return Math.abs(total - 1) < 0.001;
+    },
+    { message: "Category weights must add up to 100%", path: ["categoryWeights"] }
+  )
+  .refine(
+    (rules) => rules.tiers.MASTER_ROOFER.minScore >= rules.tiers.CERTIFIED.minScore,
+    {
+      message: "Master Roofer threshold cannot be below the Certified threshold",
+      path: ["tiers", "MASTER_ROOFER", "minScore"],
+    }
+  );
+
+// ============================================================================
+// Policy Resolution
+// ============================================================================
+
+export function toResolvedPolicy(policy: ScoringPolicy): ResolvedScoringPolicy {
+  return {
+    id: policy.id,
+    version: policy.version,
+    name: policy.name,
+    effectiveFrom: policy.effectiveFrom,
+    rules: scoringRulesSchema.parse(policy.rules),
+  };
+}
+
+/**
+ * Returns the policy in force at the given time: the most recently effective
+ * published version, or the built-in defaults if none has been published.
+ */
+export async function getActiveScoringPolicy(
+  at: Date = new Date()
+): Promise<ResolvedScoringPolicy> {
+  const policy = await db.scoringPolicy.findFirst({
+    where: { status: "PUBLISHED", effectiveFrom: { lte: at } },
+    orderBy: [{ effectiveFrom: "desc" }, { version: "desc" }],
+  });
+
+  return policy ? toResolvedPolicy(policy) : DEFAULT_POLICY;
+}
+
+export async function getNextPolicyVersion(): Promise<number> {
+  const latest = await db.scoringPolicy.findFirst({
+    orderBy: { version: "desc" },
+    select: { version: true },
+  });
+
+  return (latest?.version ?? DEFAULT_POLICY_VERSION) + 1;
+}
@@ -0,0 +1,401 @@
+import { Prisma, type CertificationTier } from "@prisma/client";
+import { db } from "./db";
+import { getObjectFromR2 } from "./r2";
+import {
+  DocumentTextExtractionError,
+  extractDocumentText,
+  getDocumentTextFormat,
+} from "./document-text";
+
+/**
+ * PostgreSQL full-text search over QMS records.
+ *
+ * Each searchable table carries a generated "searchVector" tsvector column
+ * with a GIN index (see the add_full_text_search migration). Member queries
+ * are parsed with websearch_to_tsquery, so quoted phrases, OR and -exclusions
+ * work as users expect; results are ranked with ts_rank_cd and highlighted
+ * with ts_headline.
+ */
+
+export const SEARCH_RESULT_TYPES = ["document", "capa", "finding", "project"] as const;
+export type SearchResultType = (typeof SEARCH_RESULT_TYPES)[number];
+
+// Upper bound on extracted text stored per document. tsvector values are
+// limited to 1MB and a QMS document rarely needs more than this to be found.
+const MAX_INDEXED_TEXT_LENGTH = 200_000;
+
+// Highlight markers passed to ts_headline. Control characters cannot appear
+// in extracted text, so they never collide with document content.
+const HIGHLIGHT_START = "\u0002";
+const HIGHLIGHT_STOP = "\u0003";
+const HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, MinWords=15, MaxWords=35, MaxFragments=2, FragmentDelimiter=" ... "`;
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: string;
+  organizationId: string;
+  organizationName: string;
+  title: string;
+  subtitle: string | null;
+  parentId: string | null; // Audit ID for findings
+  rank: number;
+  highlight: HighlightSegment[];
+}
+
+export interface SearchResponse {
+  query: string;
+  results: SearchResult[];
+  counts: Record<SearchResultType, number>;
+  total: number;
+}
+
+export interface SearchOptions {
+  organizationId: string | null; // null searches every organisation (RANZ staff only)
+  types?: SearchResultType[];
+  limit?: number;
+  offset?: number;
+}
+
+interface SearchRow {
+  id: string;
+  organizationId: string;
+  organizationName: string;
+  title: string;
+  subtitle: string | null;
+  parentId: string | null;
+  rank: number;
+  headline: string | null;
+}
+
+// One searchable record type. Every fragment may refer to the tsquery as
+// "q.query"; "org" is the owning organisation's column.
+interface SearchSource {
+  from: Prisma.Sql;
+  org: Prisma.Sql;
+  match: Prisma.Sql;
+  vector: Prisma.Sql;
+  columns: Prisma.Sql; // id, title, subtitle, "parentId"
+  body: Prisma.Sql; // Text the highlight is drawn from
+}
+
+const SOURCES: Record<SearchResultType, SearchSource> = {
+  document: {
+    from: Prisma.sql`"Document" d LEFT JOIN "DocumentContent" c ON c."documentId" = d.id`,
+    org: Prisma.sql`d."organizationId"`,
+    match: Prisma.sql`d."deletedAt" IS NULL AND (d."searchVector" @@ q.query OR c."searchVector" @@ q.query)`,
+    vector: Prisma.sql`coalesce(d."searchVector", ''::tsvector) || coalesce(c."searchVector", ''::tsvector)`,
+    columns: Prisma.sql`d.id, d.title, d."documentNumber" AS subtitle, NULL::text AS "parentId"`,
+    body: Prisma.sql`coalesce(c.text, d.title)`,
+  },
+  capa: {
+    from: Prisma.sql`"CAPARecord" r`,
+    org: Prisma.sql`r."organizationId"`,
+    match: Prisma.sql`r."searchVector" @@ q.query`,
+    vector: Prisma.sql`r."searchVector"`,
+    columns: Prisma.sql`r.id, r.title, r."capaNumber" AS subtitle, NULL::text AS "parentId"`,
+    body: Prisma.sql`concat_ws(E'\n', r.description, r."rootCause", r."correctiveAction", r."preventiveAction")`,
+  },
+  finding: {
+    from: Prisma.sql`"AuditChecklist" ac JOIN "Audit" a ON a.id = ac."auditId"`,
+    org: Prisma.sql`a."organizationId"`,
+    // Every audit asks the same questions, so only answered findings are searchable
+    match: Prisma.sql`(ac.finding IS NOT NULL OR ac."auditorNotes" IS NOT NULL) AND ac."searchVector" @@ q.query`,
+    vector: Prisma.sql`ac."searchVector"`,
+    columns: Prisma.sql`ac.id, ac."questionText" AS title, a."auditNumber" AS subtitle, a.id AS "parentId"`,
+    body: Prisma.sql`concat_ws(E'\n', ac.finding, ac."auditorNotes")`,
+  },
+  project: {
+    from: Prisma.sql`"Project" p`,
+    org: Prisma.sql`p."organizationId"`,
+    match: Prisma.sql`p."searchVector" @@ q.query`,
+    vector: Prisma.sql`p."searchVector"`,
+    columns: Prisma.sql`p.id, p."siteAddress" AS title, concat_ws(' · ', p."projectNumber", p."clientName") AS subtitle, NULL::text AS "parentId"`,
+    body: Prisma.sql`concat_ws(E'\n', concat_ws(', ', p."siteAddress", p.city, p.region), p.description, p."roofingSystem")`,
+  },
+};
+
+function scopeFilter(source: SearchSource, organizationId: string | null): Prisma.Sql {
+  return organizationId === null
+    ? Prisma.empty
+    : Prisma.sql`AND ${source.org} = ${organizationId}`;
+}
+
+/**
+ * Split a ts_headline result into plain and matched segments.
+ */
+export function parseHighlight(headline: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let rest = headline;
+
+  while (rest.length > 0) {
+    const start = rest.indexOf(HIGHLIGHT_START);
+    if (start === -1) {
+      segments.push({ text: rest, match: false });
+      break;
+    }
+    if (start > 0) {
+      segments.push({ text: rest.slice(0, start), match: false });
+    }
+
+    const stop = rest.indexOf(HIGHLIGHT_STOP, start + 1);
+    const end = stop === -1 ? rest.length : stop;
+    segments.push({ text: rest.slice(start + 1, end), match: true });
+    rest = rest.slice(end + 1);
+  }
+
+  return segments.filter((segment) => segment.text.length > 0);
+}
+
+async function searchSource(
+  type: SearchResultType,
+  query: string,
+  organizationId: string | null,
+  take: number
+): Promise<{ rows: SearchRow[]; count: number }> {
+  const source = SOURCES[type];
+  const scope = scopeFilter(source, organizationId);
+  const tsquery = Prisma.sql`websearch_to_tsquery('english', ${query})`;
+
+  const [rows, [{ count }]] = await Promise.all([
+    db.$queryRaw<SearchRow[]>`
+      WITH q AS (SELECT ${tsquery} AS query),
+      hits AS (
+        SELECT ${source.columns},
+          ${source.org} AS "organizationId",
+          ${source.body} AS body,
+          ts_rank_cd(${source.vector}, q.query, 32)::float8 AS rank
+        FROM ${source.from}, q
+        WHERE ${source.match} ${scope}
+        ORDER BY rank DESC
+        LIMIT ${take}
+      )
+      SELECT hits.id, hits.title, hits.subtitle, hits."parentId", hits."organizationId",
+        o.name AS "organizationName", hits.rank,
+        ts_headline('english', hits.body, q.query, ${HEADLINE_OPTIONS}) AS headline
+      FROM hits
+      JOIN "Organization" o ON o.id = hits."organizationId", q
+      ORDER BY hits.rank DESC
+    `,
+    db.$queryRaw<{ count: number }[]>`
+      WITH q AS (SELECT ${tsquery} AS query)
+      SELECT COUNT(*)::int AS count
+      FROM ${source.from}, q
+      WHERE ${source.match} ${scope}
+    `,
+  ]);
+
+  return { rows, count };
+}
+
+/**
+ * Ranked search across documents, CAPAs, audit findings and projects.
+ * Each record type is queried separately and the results merged by rank.
+ */
+export async function searchRecords(
+  query: string,
+  options: SearchOptions
+): Promise<SearchResponse> {
+  const types = options.types?.length ? options.types : [...SEARCH_RESULT_TYPES];
+  const limit = options.limit ?? 20;
+  const offset = options.offset ?? 0;
+
+  const counts = Object.fromEntries(
+    SEARCH_RESULT_TYPES.map((type) => [type, 0])
+  ) as Record<SearchResultType, number>;
+
+  const perType = await Promise.all(
+    types.map(async (type) => {
+      const { rows, count } = await searchSource(
+        type,
+        query,
+        options.organizationId,
+        offset + limit
+      );
+      counts[type] = count;
+      return rows.map(
+        (row): SearchResult => ({
+          type,
+          id: row.id,
+          organizationId: row.organizationId,
+          organizationName: row.organizationName,
+          title: row.title,
+          subtitle: row.subtitle,
+          parentId: row.parentId,
+          rank: Number(row.rank),
+          highlight: parseHighlight(row.headline ?? ""),
+        })
+      );
+    })
+  );
+
+  const results = perType
+    .flat()
+    .sort((a, b) => b.rank - a.rank)
+    .slice(offset, offset + limit);
+
+  return {
+    query,
+    results,
+    counts,
+    total: Object.values(counts).reduce((sum, count) => sum + count, 0),
+  };
+}
+
+// ============================================================================
+// Public Directory
+// ============================================================================
+
+/**
+ * Build a prefix tsquery from free text so the directory matches as the user
+ * types ("smi roof" finds "Smith Roofing"). Only letters and digits survive,
+ * which keeps the result safe to pass to to_tsquery.
+ */
+export function toPrefixTsQuery(text: string): string | null {
+  const terms = text.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+  if (!terms) return null;
+  return terms.map((term) => `${term}:*`).join(" & ");
+}
+
+interface OrganizationSearchFilters {
+  tier?: CertificationTier;
+  city?: string;
+  minComplianceScore: number;
+}
+
+/**
+ * Rank organisations for the public directory. Returns IDs in rank order;
+ * the caller loads the fields it needs.
+ */
+export async function searchOrganizationIds(
+  text: string,
+  filters: OrganizationSearchFilters,
+  limit: number,
+  offset: number
+): Promise<{ ids: string[]; total: number }> {
+  const tsquery = toPrefixTsQuery(text);
+  if (!tsquery) return { ids: [], total: 0 };
+
+  const conditions = [
+    Prisma.sql`o."searchVector" @@ q.query`,
+    Prisma.sql`o."complianceScore" >= ${filters.minComplianceScore}`,
+  ];
+  if (filters.tier) {
+    conditions.push(Prisma.sql`o."certificationTier" = ${filters.tier}::"CertificationTier"`);
+  }
+  if (filters.city) {
+    conditions.push(Prisma.sql`o.city ILIKE ${`%${filters.city}%`}`);
+  }
+  const where = Prisma.join(conditions, " AND ");
+
+  const [rows, [{ count }]] = await Promise.all([
+    db.$queryRaw<{ id: string }[]>`
+      WITH q AS (SELECT to_tsquery('simple', ${tsquery}) AS query)
+      SELECT o.id
+      FROM "Organization" o, q
+      WHERE ${where}
+      ORDER BY ts_rank_cd(o."searchVector", q.query) DESC,
+        o."certificationTier" DESC,
+        o."complianceScore" DESC,
+        o.name ASC
+      LIMIT ${limit} OFFSET ${offset}
+    `,
+    db.$queryRaw<{ count: number }[]>`
+      WITH q AS (SELECT to_tsquery('simple', ${tsquery}) AS query)
+      SELECT COUNT(*)::int AS count
+      FROM "Organization" o, q
+      WHERE ${where}
+    `,
+  ]);
+
+  return { ids: rows.map((row) => row.id), total: count };
+}
+
+// ============================================================================
+// Document Content Indexing
+// ============================================================================
+
+interface IndexableFile {
+  buffer: Buffer;
+  mimeType: string;
+  fileName: string;
+  fileHash: string;
+}
+
+/**
+ * Extract and store the text of a document's current file. Never throws:
+ * files that cannot be read are recorded with an error so they are not
+ * retried until a new version is uploaded. Pass the file when it is already
+ * in memory (on upload); otherwise it is fetched from R2.
+ */
+export async function indexDocumentContent(
+  documentId: string,
+  file?: IndexableFile
+): Promise<boolean> {
+  try {
+    if (!file) {
+      const document = await db.document.findUnique({
+        where: { id: documentId },
+        select: { storageKey: true, mimeType: true, fileName: true, fileHash: true },
+      });
+      if (!document?.storageKey) return false;
+
+      file = {
+        buffer: await getObjectFromR2(document.storageKey),
+        mimeType: document.mimeType ?? "",
+        fileName: document.fileName ?? "",
+        fileHash: document.fileHash ?? "",
+      };
+    }
+
+    let text: string | null = null;
+    let error: string | null = null;
+
+    if (!getDocumentTextFormat(file.mimeType, file.fileName)) {
+      error = "Unsupported file type";
+    } else {
+      try {
+        text = (await extractDocumentText(file.buffer, file.mimeType, file.fileName))
+          // Postgres text cannot hold NUL bytes
+          .replace(/\0/g, "")
+          .slice(0, MAX_INDEXED_TEXT_LENGTH);
+      } catch (err) {
+        if (!(err instanceof DocumentTextExtractionError)) throw err;
+        error = err.message;
+      }
+    }
+
+    const data = { text, error, fileHash: file.fileHash, extractedAt: new Date() };
+    await db.documentContent.upsert({
+      where: { documentId },
+      create: { documentId, ...data },
+      update: data,
+    });
+
+    return text !== null;
+  } catch (error) {
+    console.error(`Failed to index document ${documentId}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Documents whose stored text is missing or was extracted from an older file.
+ */
+export async function findDocumentsToIndex(limit: number): Promise<string[]> {
+  const rows = await db.$queryRaw<{ id: string }[]>`
+    SELECT d.id
+    FROM "Document" d
+    LEFT JOIN "DocumentContent" c ON c."documentId" = d.id
+    WHERE d."deletedAt" IS NULL
+      AND d."storageKey" IS NOT NULL
+      AND (c."documentId" IS NULL OR c."fileHash" IS DISTINCT FROM d."fileHash")
+    ORDER BY d."uploadedAt" DESC
+    LIMIT ${limit}
+  `;
+  return rows.map((row) => row.id);
+}
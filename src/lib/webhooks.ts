@@ -0,0 +1,410 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type {
+  CertificationTier,
+  InsurancePolicyType,
+  LBPStatus,
+  AuditRating,
+  Prisma,
+  WebhookEventType,
+} from "@prisma/client";
+import { db } from "./db";
+
+/**
+ * Outbound webhooks: compliance and certification events are recorded once as
+ * a WebhookEvent and fanned out to every matching enabled WebhookEndpoint as a
+ * WebhookDelivery. Deliveries are attempted straight away and then retried by
+ * the webhooks cron with exponential backoff.
+ *
+ * Each request is signed with the endpoint secret:
+ *   X-RANZ-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+ */
+
+// Exponential backoff configuration
+const WEBHOOK_INITIAL_BACKOFF_SECONDS = 60;
+const WEBHOOK_MAX_BACKOFF_SECONDS = 6 * 60 * 60; // 6 hours
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+// A claimed delivery is retried by the cron if the worker dies mid-attempt
+const WEBHOOK_CLAIM_SECONDS = 5 * 60;
+const RESPONSE_BODY_LIMIT = 2000;
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-RANZ-Signature";
+
+export const WEBHOOK_EVENT_TYPES = [
+  "TIER_CHANGED",
+  "INSURANCE_LAPSED",
+  "LBP_STATUS_CHANGED",
+  "AUDIT_COMPLETED",
+] as const satisfies readonly WebhookEventType[];
+
+// ============================================================================
+// Event Payloads
+// ============================================================================
+
+export interface WebhookEventData {
+  TIER_CHANGED: {
+    organizationId: string;
+    organizationName: string;
+    previousTier: CertificationTier;
+    newTier: CertificationTier;
+    reason: string | null;
+  };
+  INSURANCE_LAPSED: {
+    organizationId: string;
+    organizationName: string;
+    policyId: string;
+    policyType: InsurancePolicyType;
+    policyNumber: string;
+    insurer: string;
+    expiryDate: string;
+  };
+  LBP_STATUS_CHANGED: {
+    organizationId: string;
+    organizationName: string;
+    memberId: string;
+    memberName: string;
+    lbpNumber: string;
+    previousStatus: LBPStatus | null;
+    newStatus: LBPStatus;
+  };
+  AUDIT_COMPLETED: {
+    organizationId: string;
+    organizationName: string;
+    auditId: string;
+    auditNumber: string;
+    rating: AuditRating;
+    conformingCount: number;
+    minorNonconformities: number;
+    majorNonconformities: number;
+    observations: number;
+    followUpRequired: boolean;
+    capaCount: number;
+  };
+}
+
+// Body POSTed to endpoints
+export interface WebhookPayload<T extends WebhookEventType = WebhookEventType> {
+  id: string;
+  type: T;
+  createdAt: string;
+  organizationId: string | null;
+  data: WebhookEventData[T];
+}
+
+// ============================================================================
+// Signing
+// ============================================================================
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(32).toString("hex")}`;
+}
+
+// Secrets are only returned in full on creation and rotation
+export function maskWebhookSecret(secret: string): string {
+  return `whsec_…${secret.slice(-4)}`;
+}
+
+export function signWebhookPayload(
+  secret: string,
+  body: string,
+  timestamp: number
+): string {
+  const digest = createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * Receiver-side check of a X-RANZ-Signature header. Exported so integrators
+ * (and our own tests) use exactly the scheme we sign with.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string,
+  now = Date.now()
+): boolean {
+  const parts = Object.fromEntries(
+    header.split(",").map((part) => part.split("=", 2) as [string, string])
+  );
+  const timestamp = Number(parts.t);
+  if (!Number.isInteger(timestamp) || !parts.v1) return false;
+
+  if (Math.abs(now / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const expected = Buffer.from(
+    signWebhookPayload(secret, body, timestamp).split("v1=")[1],
+    "hex"
+  );
+  const actual = Buffer.from(parts.v1, "hex");
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Calculate next attempt time using exponential backoff.
+ *
+ * Retry schedule (after attempt n):
+ * - 1: 1 minute, 2: 2 minutes, 3: 4 minutes ... 7: ~1 hour
+ * - capped at 6 hours; abandoned after WEBHOOK_MAX_ATTEMPTS attempts
+ *
+ * @param attemptCount Attempts made so far (1 or more)
+ * @param failedAt When the last attempt failed
+ * @returns Date when the next attempt should occur
+ */
+export function calculateWebhookRetryTime(attemptCount: number, failedAt: Date): Date {
+  const backoffSeconds = Math.pow(2, attemptCount - 1) * WEBHOOK_INITIAL_BACKOFF_SECONDS;
+  const delay = Math.min(backoffSeconds, WEBHOOK_MAX_BACKOFF_SECONDS);
+
+  return new Date(failedAt.getTime() + delay * 1000);
+}
+
+// ============================================================================
+// Emitting
+// ============================================================================
+
+/**
+ * Record an event and queue a delivery to each subscribed endpoint.
+ *
+ * Never throws: webhook failures must not roll back or fail the mutation that
+ * emitted the event. First attempts run in the background; anything they
+ * don't complete is picked up by processDueWebhookDeliveries().
+ *
+ * @returns Number of deliveries queued
+ */
+export async function emitWebhookEvent<T extends WebhookEventType>(
+  type: T,
+  data: WebhookEventData[T]
+): Promise<number> {
+  try {
+    const { organizationId } = data;
+
+    const endpoints = await db.webhookEndpoint.findMany({
+      where: {
+        enabled: true,
+        AND: [
+          { OR: [{ eventTypes: { isEmpty: true } }, { eventTypes: { has: type } }] },
+          {
+            OR: [
+              { organizationIds: { isEmpty: true } },
+              { organizationIds: { has: organizationId } },
+            ],
+          },
+        ],
+      },
+      select: { id: true },
+    });
+
+    if (endpoints.length === 0) return 0;
+
+    const event = await db.webhookEvent.create({
+      data: {
+        type,
+        organizationId,
+        data: data as unknown as Prisma.InputJsonValue,
+        deliveries: {
+          create: endpoints.map((endpoint) => ({
+            endpointId: endpoint.id,
+            nextAttemptAt: new Date(),
+          })),
+        },
+      },
+      include: { deliveries: { select: { id: true } } },
+    });
+
+    for (const delivery of event.deliveries) {
+      attemptWebhookDelivery(delivery.id).catch((error) =>
+        console.error(`Webhook delivery ${delivery.id} failed:`, error)
+      );
+    }
+
+    return event.deliveries.length;
+  } catch (error) {
+    console.error(`Failed to emit ${type} webhook event:`, error);
+    return 0;
+  }
+}
+
+// ============================================================================
+// Delivery
+// ============================================================================
+
+export interface WebhookAttemptResult {
+  success: boolean;
+  responseStatus: number | null;
+  error: string | null;
+}
+
+/**
+ * Claim a due delivery and attempt it. Returns null if the delivery is not due
+ * or another worker claimed it first.
+ */
+export async function attemptWebhookDelivery(
+  deliveryId: string
+): Promise<WebhookAttemptResult | null> {
+  const now = new Date();
+
+  const claimed = await db.webhookDelivery.updateMany({
+    where: { id: deliveryId, status: "PENDING", nextAttemptAt: { lte: now } },
+    data: { nextAttemptAt: new Date(now.getTime() + WEBHOOK_CLAIM_SECONDS * 1000) },
+  });
+  if (claimed.count === 0) return null;
+
+  return sendDelivery(deliveryId, false);
+}
+
+/**
+ * Manually resend a delivery regardless of its status (e.g. after the
+ * receiver fixed a bug, or lost an event it had acknowledged). A failed
+ * manual attempt does not schedule further automatic retries.
+ */
+export async function redeliverWebhook(
+  deliveryId: string
+): Promise<WebhookAttemptResult> {
+  return sendDelivery(deliveryId, true);
+}
+
+async function sendDelivery(
+  deliveryId: string,
+  manual: boolean
+): Promise<WebhookAttemptResult> {
+  const delivery = await db.webhookDelivery.findUniqueOrThrow({
+    where: { id: deliveryId },
+    include: { endpoint: true, event: true },
+  });
+
+  const body = JSON.stringify(buildWebhookPayload(delivery.event));
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  const startedAt = Date.now();
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+
+  try {
+    const response = await fetch(delivery.endpoint.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "RANZ-Webhooks/1.0",
+        "X-RANZ-Event": delivery.event.type,
+        "X-RANZ-Delivery": delivery.id,
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+          delivery.endpoint.secret,
+          body,
+          timestamp
+        ),
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+
+    responseStatus = response.status;
+    responseBody = (await response.text()).slice(0, RESPONSE_BODY_LIMIT);
+    if (!response.ok) {
+      error = `Endpoint responded with HTTP ${response.status}`;
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : "Request failed";
+  }
+
+  const durationMs = Date.now() - startedAt;
+  const attemptedAt = new Date();
+  const success = error === null;
+  const attemptCount = delivery.attemptCount + 1;
+
+  let status: "PENDING" | "SUCCEEDED" | "FAILED" = "SUCCEEDED";
+  let nextAttemptAt: Date | null = null;
+  if (!success) {
+    if (manual || attemptCount >= WEBHOOK_MAX_ATTEMPTS) {
+      status = "FAILED";
+    } else {
+      status = "PENDING";
+      nextAttemptAt = calculateWebhookRetryTime(attemptCount, attemptedAt);
+    }
+  }
+
+  await db.webhookDelivery.update({
+    where: { id: deliveryId },
+    data: {
+      status,
+      attemptCount,
+      nextAttemptAt,
+      lastAttemptAt: attemptedAt,
+      responseStatus,
+      responseBody,
+      error,
+      ...(success && { deliveredAt: attemptedAt }),
+      attempts: {
+        create: {
+          attemptNumber: attemptCount,
+          manual,
+          responseStatus,
+          responseBody,
+          error,
+          durationMs,
+          attemptedAt,
+        },
+      },
+    },
+  });
+
+  return { success, responseStatus, error };
+}
+
+function buildWebhookPayload(event: {
+  id: string;
+  type: WebhookEventType;
+  organizationId: string | null;
+  data: Prisma.JsonValue;
+  createdAt: Date;
+}): WebhookPayload {
+  return {
+    id: event.id,
+    type: event.type,
+    createdAt: event.createdAt.toISOString(),
+    organizationId: event.organizationId,
+    data: event.data as unknown as WebhookPayload["data"],
+  };
+}
+
+/**
+ * Attempt deliveries whose retry time has been reached. Deliveries to
+ * disabled endpoints wait until the endpoint is re-enabled.
+ */
+export async function processDueWebhookDeliveries(limit = 50): Promise<{
+  attempted: number;
+  succeeded: number;
+  failed: number;
+}> {
+  const due = await db.webhookDelivery.findMany({
+    where: {
+      status: "PENDING",
+      nextAttemptAt: { lte: new Date() },
+      endpoint: { enabled: true },
+    },
+    orderBy: { nextAttemptAt: "asc" },
+    take: limit,
+    select: { id: true },
+  });
+
+  const results = { attempted: 0, succeeded: 0, failed: 0 };
+  for (const delivery of due) {
+    const result = await attemptWebhookDelivery(delivery.id);
+    if (!result) continue;
+
+    results.attempted++;
+    if (result.success) {
+      results.succeeded++;
+    } else {
+      results.failed++;
+    }
+  }
+
+  return results;
+}
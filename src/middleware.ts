@@ -7,6 +7,7 @@
  * AUTH_MODE values:
  * - 'clerk' (default): Uses Clerk middleware
  * - 'custom': Uses dual-auth middleware (custom priority, Clerk fallback)
+ * - 'oidc': Same as custom - the OIDC callback issues a custom session cookie
  *
  * Security Headers (QCTL-QP-001):
  * - Content-Security-Policy: Restricts content sources to prevent XSS
@@ -34,7 +35,7 @@ function addSecurityHeaders(response: NextResponse): NextResponse {
     "style-src 'self' 'unsafe-inline' https://fonts.googleapis.com",
     "font-src 'self' https://fonts.gstatic.com",
     "img-src 'self' data: https: blob:",
-    "connect-src 'self' https://*.clerk.io https://*.clerk.accounts.dev https://api.clerk.io wss://*.clerk.io https://haveibeenpwned.com https://api.pwnedpasswords.com",
+    "connect-src 'self' https://*.clerk.io https://*.clerk.accounts.dev https://api.clerk.io wss://*.clerk.io https://haveibeenpwned.com https://api.pwnedpasswords.com https://*.r2.cloudflarestorage.com",
     "frame-ancestors 'none'",
     "form-action 'self'",
     "base-uri 'self'",
@@ -78,6 +79,7 @@ const isPublicRoute = createRouteMatcher([
   "/api/auth/forgot-password",  // Password reset request
   "/api/auth/reset-password",   // Password reset
   "/api/auth/activate",         // Account activation
+  "/api/auth/oidc(.*)",         // OIDC sign-in redirect and callback
 ]);
 
 const isAdminRoute = createRouteMatcher(["/admin(.*)", "/api/admin(.*)"]);
@@ -94,7 +96,7 @@ export default async function middleware(req: NextRequest) {
     return addSecurityHeaders(response);
   }
 
-  if (AUTH_MODE === 'custom') {
+  if (AUTH_MODE === 'custom' || AUTH_MODE === 'oidc') {
     // Custom auth is primary - handle public routes separately
     if (isPublicRoute(req)) {
       const response = NextResponse.next();
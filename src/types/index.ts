@@ -156,7 +156,8 @@ export type AuditAction =
   | "ENROL_REINSTATE"
   | "MCRED_ASSIGN"
   | "MCRED_AWARD"
-  | "MCRED_EXPIRE";
+  | "MCRED_EXPIRE"
+  | "AUDITOR_ASSIGN";
 
 // Supplier Types (ISO Element 9: Purchasing)
 export type SupplierStatus = "APPROVED" | "CONDITIONAL" | "SUSPENDED" | "REMOVED";
@@ -269,6 +270,9 @@ export type NotificationType =
   | "CAPA_OVERDUE"
   | "COMPLIANCE_ALERT"
   | "DOCUMENT_REVIEW_DUE"
+  | "DOCUMENT_APPROVAL_REQUIRED"
+  | "DOCUMENT_ACKNOWLEDGEMENT_REQUIRED"
+  | "INSURANCE_VERIFICATION_REQUEST"
   | "TESTIMONIAL_REQUEST"
   | "TESTIMONIAL_RECEIVED"
   | "TIER_CHANGE"
@@ -277,7 +281,8 @@ export type NotificationType =
   | "PROGRAMME_RENEWAL"
   | "PROGRAMME_STATUS_CHANGE"
   | "CREDENTIAL_EXPIRY"
-  | "CREDENTIAL_STATUS_CHANGE";
+  | "CREDENTIAL_STATUS_CHANGE"
+  | "CPD_SHORTFALL";
 
 export type NotificationChannel = "EMAIL" | "SMS" | "IN_APP" | "PUSH";
 
@@ -606,6 +611,9 @@ export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
   CAPA_OVERDUE: "CAPA Overdue",
   COMPLIANCE_ALERT: "Compliance Alert",
   DOCUMENT_REVIEW_DUE: "Document Review Due",
+  DOCUMENT_APPROVAL_REQUIRED: "Document Approval Required",
+  DOCUMENT_ACKNOWLEDGEMENT_REQUIRED: "Document Acknowledgement Required",
+  INSURANCE_VERIFICATION_REQUEST: "Insurance Verification Request",
   TESTIMONIAL_REQUEST: "Testimonial Request",
   TESTIMONIAL_RECEIVED: "Testimonial Received",
   TIER_CHANGE: "Certification Tier Changed",
@@ -615,6 +623,7 @@ export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
   PROGRAMME_STATUS_CHANGE: "Programme Status Changed",
   CREDENTIAL_EXPIRY: "Credential Expiry Warning",
   CREDENTIAL_STATUS_CHANGE: "Credential Status Changed",
+  CPD_SHORTFALL: "CPD Shortfall Warning",
 };
 
 export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannel, string> =